@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   serverExternalPackages: ['rss-parser'],
+  // Font the weather card's text is drawn from (src/lib/weather-image.ts)
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./src/lib/fonts/**/*'],
+  },
   images: {
     domains: ['images.unsplash.com', 'via.placeholder.com'],
     remotePatterns: [
@@ -0,0 +1,44 @@
+-- Ad Schedule Migration
+-- Date-aware ad scheduling: ad categories for exclusivity, blackout dates with no ads,
+-- and more than one Community Business Spotlight slot per issue
+-- Note: active ads stop being scheduled once times_used reaches times_paid, so raise times_paid
+-- on house ads and other long-running ads before running this
+-- Run this in Supabase SQL Editor
+
+-- Ads in the same category (e.g. Realtor) never run in back-to-back issues or side by side
+ALTER TABLE advertisements ADD COLUMN IF NOT EXISTS category TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_advertisements_category ON advertisements(category);
+
+-- Which slot of the issue an ad ran in
+ALTER TABLE campaign_advertisements ADD COLUMN IF NOT EXISTS slot INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS ad_blackout_dates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  publication_id UUID NOT NULL REFERENCES publications(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  reason TEXT,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (publication_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ad_blackout_dates_publication_date ON ad_blackout_dates(publication_id, date);
+
+ALTER TABLE ad_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to ad_blackout_dates"
+  ON ad_blackout_dates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Spotlight slots per issue (publication settings override this default)
+INSERT INTO app_settings (key, value, description) VALUES
+  ('ad_slots_per_issue', '1', 'Community Business Spotlight ads in each issue')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON COLUMN advertisements.category IS 'Business category for exclusivity; ads sharing one are kept out of consecutive issues';
+COMMENT ON COLUMN campaign_advertisements.slot IS 'Spotlight slot the ad filled, starting at 1';
+COMMENT ON TABLE ad_blackout_dates IS 'Issue dates that run no ads, e.g. holiday editions';
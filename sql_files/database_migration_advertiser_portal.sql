@@ -0,0 +1,71 @@
+-- Advertiser Portal Migration
+-- One-time sign-in links for the advertiser self-service portal, and additional runs
+-- advertisers buy for an existing ad from the portal
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS advertiser_login_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_advertiser_login_tokens_email ON advertiser_login_tokens(email, created_at DESC);
+
+ALTER TABLE advertiser_login_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to advertiser_login_tokens"
+  ON advertiser_login_tokens
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS ad_run_purchases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  advertisement_id UUID NOT NULL REFERENCES advertisements(id) ON DELETE CASCADE,
+  times INTEGER NOT NULL CHECK (times > 0),
+  payment_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  pricing_quote JSONB,
+  stripe_session_id TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending_payment'
+    CHECK (status IN ('pending_payment', 'paid', 'expired', 'refunded', 'disputed')),
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ad_run_purchases_advertisement ON ad_run_purchases(advertisement_id, created_at DESC);
+
+ALTER TABLE ad_run_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to ad_run_purchases"
+  ON ad_run_purchases
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add (or, for a refunded purchase, take back) paid runs in one statement so a purchase
+-- landing while the ad is being used in a send can't lose either update
+CREATE OR REPLACE FUNCTION add_ad_runs(p_ad_id UUID, p_runs INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  new_times_paid INTEGER;
+BEGIN
+  UPDATE advertisements
+  SET times_paid = GREATEST(times_paid + p_runs, 0),
+      updated_at = NOW()
+  WHERE id = p_ad_id
+  RETURNING times_paid INTO new_times_paid;
+
+  RETURN new_times_paid;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE advertiser_login_tokens IS 'Magic links emailed to advertisers; only the SHA-256 of each token is stored';
+COMMENT ON COLUMN advertiser_login_tokens.used_at IS 'Set when the link is opened; each link signs in once';
+COMMENT ON TABLE ad_run_purchases IS 'Additional runs bought for an existing ad from the advertiser portal';
+COMMENT ON COLUMN ad_run_purchases.times IS 'Runs added to advertisements.times_paid once the purchase is paid';
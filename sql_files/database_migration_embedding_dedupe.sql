@@ -0,0 +1,62 @@
+-- Embedding-Based Duplicate Detection
+-- Caches text embeddings for posts and records when a new post matches a story
+-- that already ran in a recent newsletter
+-- Run this in Supabase SQL Editor
+
+-- One embedding per source row and model; text_hash detects edited text
+CREATE TABLE IF NOT EXISTS content_embeddings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_type TEXT NOT NULL CHECK (source_type IN ('post', 'archived_post')),
+  source_id UUID NOT NULL,
+  model TEXT NOT NULL,
+  text_hash TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(source_type, source_id, model)
+);
+
+-- Posts that match a story from an earlier newsletter
+CREATE TABLE IF NOT EXISTS post_history_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES rss_posts(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES newsletter_campaigns(id) ON DELETE CASCADE,
+  matched_source TEXT NOT NULL CHECK (matched_source IN ('article', 'archived_article')),
+  matched_article_id UUID NOT NULL,
+  matched_campaign_id UUID,
+  matched_campaign_date DATE,
+  matched_headline TEXT,
+  similarity_score DECIMAL(3,2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(post_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_history_matches_campaign ON post_history_matches(campaign_id);
+
+-- Enable Row Level Security
+ALTER TABLE content_embeddings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE post_history_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to content_embeddings"
+  ON content_embeddings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to post_history_matches"
+  ON post_history_matches
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Tuning (cosine similarity threshold and how many days back to look for repeats)
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('dedupe_similarity_threshold', '0.85', 'Cosine similarity at or above which two posts are treated as the same story'),
+  ('dedupe_lookback_days', '7', 'Days of previous newsletters checked for stories that already ran')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE content_embeddings IS 'Cached text embeddings used for duplicate detection';
+COMMENT ON TABLE post_history_matches IS 'Posts whose story already ran in a recent newsletter (shown on the review page)';
+COMMENT ON COLUMN duplicate_posts.similarity_score IS 'Cosine similarity between the duplicate and the group''s primary post';
@@ -0,0 +1,13 @@
+-- Database Migration: Incremental RSS Ingestion
+-- Records conditional GET validators per feed so unchanged feeds aren't re-downloaded
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE rss_feeds ADD COLUMN IF NOT EXISTS etag TEXT;
+ALTER TABLE rss_feeds ADD COLUMN IF NOT EXISTS last_modified TEXT;
+
+COMMENT ON COLUMN rss_feeds.etag IS 'ETag response header from the last successful fetch, sent as If-None-Match';
+COMMENT ON COLUMN rss_feeds.last_modified IS 'Last-Modified response header from the last successful fetch, sent as If-Modified-Since';
+
+-- Speeds up the "already ingested?" check on (feed_id, external_id)
+CREATE INDEX IF NOT EXISTS idx_rss_posts_feed_external ON rss_posts(feed_id, external_id);
+CREATE INDEX IF NOT EXISTS idx_articles_post_id ON articles(post_id);
@@ -0,0 +1,37 @@
+-- Issue Feedback Migration
+-- Feedback responses gain a 1-5 issue rating, the sections a reader liked and an optional comment.
+-- Sections come from newsletter_sections (renderer keys) instead of a hard-coded list.
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS publication_id UUID REFERENCES publications(id) ON DELETE CASCADE;
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES newsletter_campaigns(id) ON DELETE SET NULL;
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS rating SMALLINT CHECK (rating BETWEEN 1 AND 5);
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS liked_sections TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS comment TEXT;
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- A rating-only response has no single favourite section
+ALTER TABLE feedback_responses ALTER COLUMN section_choice DROP NOT NULL;
+
+UPDATE feedback_responses SET publication_id = (SELECT id FROM publications WHERE is_default) WHERE publication_id IS NULL;
+ALTER TABLE feedback_responses ALTER COLUMN publication_id SET NOT NULL;
+
+-- Sister editions can go out on the same date
+ALTER TABLE feedback_responses DROP CONSTRAINT IF EXISTS feedback_responses_unique;
+ALTER TABLE feedback_responses ADD CONSTRAINT feedback_responses_unique UNIQUE (publication_id, campaign_date, subscriber_email);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_publication ON feedback_responses(publication_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_campaign_id ON feedback_responses(campaign_id);
+
+-- Add the feedback block to every publication, switched off until editors place it
+INSERT INTO newsletter_sections (name, renderer_key, display_order, is_active, publication_id)
+SELECT 'Feedback', 'feedback', COALESCE((SELECT MAX(display_order) FROM newsletter_sections s WHERE s.publication_id = p.id), 0) + 10, false, p.id
+FROM publications p
+WHERE NOT EXISTS (
+    SELECT 1 FROM newsletter_sections s WHERE s.publication_id = p.id AND s.renderer_key = 'feedback'
+);
+
+COMMENT ON COLUMN feedback_responses.section_choice IS 'Single favourite section from older emails; newer responses use liked_sections';
+COMMENT ON COLUMN feedback_responses.rating IS 'Issue rating from 1 (poor) to 5 (great)';
+COMMENT ON COLUMN feedback_responses.liked_sections IS 'Renderer keys of the sections the reader liked';
+COMMENT ON COLUMN feedback_responses.comment IS 'Optional free-text comment';
@@ -0,0 +1,53 @@
+-- Reader News Tips Migration
+-- Public tip submissions with optional photo, held in a moderation queue until an editor
+-- promotes one into a draft manual article for a campaign or rejects it
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS news_tips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  publication_id UUID NOT NULL REFERENCES publications(id) ON DELETE CASCADE,
+  headline TEXT NOT NULL,
+  details TEXT NOT NULL,
+  location TEXT,
+  source_url TEXT,
+  image_id UUID REFERENCES images(id) ON DELETE SET NULL,
+  submitter_name TEXT NOT NULL,
+  submitter_email TEXT NOT NULL,
+  submitter_phone TEXT,
+  contact_ok BOOLEAN NOT NULL DEFAULT true,
+  submitter_ip_hash TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'promoted', 'rejected', 'spam')),
+  spam_reasons TEXT[] NOT NULL DEFAULT '{}',
+  review_notes TEXT,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  campaign_id UUID REFERENCES newsletter_campaigns(id) ON DELETE SET NULL,
+  manual_article_id UUID REFERENCES manual_articles(id) ON DELETE SET NULL,
+  fact_check_score NUMERIC,
+  fact_check_details TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_news_tips_status ON news_tips(publication_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_news_tips_submitter_email ON news_tips(submitter_email, created_at);
+CREATE INDEX IF NOT EXISTS idx_news_tips_submitter_ip ON news_tips(submitter_ip_hash, created_at);
+
+-- Drafts promoted from a tip point back at it
+ALTER TABLE manual_articles ADD COLUMN IF NOT EXISTS news_tip_id UUID REFERENCES news_tips(id) ON DELETE SET NULL;
+
+ALTER TABLE news_tips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to news_tips"
+  ON news_tips
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE news_tips IS 'Reader-submitted news tips awaiting moderation';
+COMMENT ON COLUMN news_tips.contact_ok IS 'Submitter agreed to be contacted by an editor about the tip';
+COMMENT ON COLUMN news_tips.submitter_ip_hash IS 'Hashed submitter IP, only used to rate-limit submissions';
+COMMENT ON COLUMN news_tips.spam_reasons IS 'Why the spam checks flagged the tip; empty when it looked fine';
+COMMENT ON COLUMN news_tips.fact_check_score IS 'Fact-check score of the draft written from the tip';
+COMMENT ON COLUMN manual_articles.news_tip_id IS 'Reader tip this draft was written from';
@@ -0,0 +1,31 @@
+-- Newsletter Archive
+-- Stores the sent HTML and plain-text rendition of every final campaign
+-- for the public /archive pages and RSS feed
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS newsletter_archives (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL UNIQUE REFERENCES newsletter_campaigns(id) ON DELETE CASCADE,
+  campaign_date DATE NOT NULL,
+  subject_line TEXT,
+  html_content TEXT NOT NULL,
+  text_content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_newsletter_archives_campaign_date ON newsletter_archives(campaign_date DESC);
+
+-- Enable Row Level Security
+ALTER TABLE newsletter_archives ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to newsletter_archives"
+  ON newsletter_archives
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE newsletter_archives IS 'Web and plain-text renditions of sent newsletters';
+COMMENT ON COLUMN newsletter_archives.html_content IS 'Sent HTML with MailerLite merge tags replaced for browser viewing';
+COMMENT ON COLUMN newsletter_archives.text_content IS 'Plain-text alternative sent with the MailerLite campaign';
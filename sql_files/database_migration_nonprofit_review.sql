@@ -0,0 +1,8 @@
+-- Nonprofit Review Migration
+-- Events submitted at the nonprofit rate keep the EIN they used and stay inactive until a
+-- reviewer verifies the organization and approves them
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS nonprofit_ein TEXT;
+
+COMMENT ON COLUMN events.nonprofit_ein IS 'EIN the submission got the nonprofit rate with; verified by hand before approval';
@@ -0,0 +1,20 @@
+-- Object Storage Migration
+-- Images are stored through one ObjectStorage backend (Supabase Storage by default) instead of a GitHub repo
+-- Run this in Supabase SQL Editor
+
+-- images.cdn_url was generated from a hard-coded Supabase URL; the app now sets it from the
+-- configured backend. DROP EXPRESSION keeps the existing values.
+ALTER TABLE images ALTER COLUMN cdn_url DROP EXPRESSION IF EXISTS;
+
+-- Retention per asset class in days (0 keeps assets forever)
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('storage_retention_days_article_image', '0', 'Days to keep re-hosted article images (0 = forever)'),
+  ('storage_retention_days_weather_image', '30', 'Days to keep weather forecast images (0 = forever)'),
+  ('storage_retention_days_vrbo_image', '0', 'Days to keep resized VRBO images (0 = forever)'),
+  ('storage_retention_days_library_variant', '0', 'Days to keep image library variants (0 = forever)'),
+  ('storage_retention_days_event_image', '0', 'Days to keep event images (0 = forever)'),
+  ('storage_retention_days_ad_image', '0', 'Days to keep advertisement images (0 = forever)')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON COLUMN images.cdn_url IS 'Public URL of object_key in the configured object storage backend';
@@ -0,0 +1,65 @@
+-- Pipeline Jobs
+-- Durable, step-based state for the nightly RSS pipeline so each cron tick
+-- can resume from the last completed step instead of running everything in one call
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS pipeline_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES newsletter_campaigns(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL DEFAULT 'rss_processing',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  current_step TEXT,
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS pipeline_job_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES pipeline_jobs(id) ON DELETE CASCADE,
+  step_name TEXT NOT NULL,
+  step_order INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  next_attempt_at TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(job_id, step_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_campaign ON pipeline_jobs(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_status ON pipeline_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_pipeline_job_steps_job ON pipeline_job_steps(job_id, step_order);
+
+-- Enable Row Level Security
+ALTER TABLE pipeline_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_job_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to pipeline_jobs"
+  ON pipeline_jobs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to pipeline_job_steps"
+  ON pipeline_job_steps
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE pipeline_jobs IS 'One row per nightly pipeline run for a campaign';
+COMMENT ON COLUMN pipeline_jobs.locked_until IS 'Lease held by the invocation currently advancing the job';
+COMMENT ON TABLE pipeline_job_steps IS 'Per-step state, retries and results for a pipeline job';
+COMMENT ON COLUMN pipeline_job_steps.next_attempt_at IS 'Earliest time a failed step may be retried (exponential backoff)';
+COMMENT ON COLUMN pipeline_job_steps.result IS 'Step output, e.g. evaluation progress or archive counts';
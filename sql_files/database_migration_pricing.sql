@@ -0,0 +1,69 @@
+-- Pricing Engine Migration
+-- Discount codes, nonprofit and event bundle rates, and the server-computed quote stored with
+-- each ad purchase and pending event checkout so payments can be audited against it
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL,
+  description TEXT,
+  percent_off DECIMAL(5, 2) CHECK (percent_off > 0 AND percent_off <= 100),
+  amount_off DECIMAL(10, 2) CHECK (amount_off > 0),
+  applies_to TEXT NOT NULL DEFAULT 'all' CHECK (applies_to IN ('ads', 'events', 'all')),
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  times_redeemed INTEGER NOT NULL DEFAULT 0,
+  starts_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Exactly one kind of discount per code
+  CHECK ((percent_off IS NULL) <> (amount_off IS NULL))
+);
+
+-- Codes are matched case-insensitively; store them upper case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discount_codes_code_upper ON discount_codes(UPPER(code));
+
+ALTER TABLE discount_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to discount_codes"
+  ON discount_codes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Count a redemption only while the code still has uses left, so two buyers can't
+-- both take the last one
+CREATE OR REPLACE FUNCTION redeem_discount_code(p_code TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE discount_codes
+  SET times_redeemed = times_redeemed + 1,
+      updated_at = NOW()
+  WHERE UPPER(code) = UPPER(p_code)
+    AND (max_redemptions IS NULL OR times_redeemed < max_redemptions);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The quote a checkout was charged against
+ALTER TABLE advertisements ADD COLUMN IF NOT EXISTS pricing_quote JSONB;
+ALTER TABLE pending_event_submissions ADD COLUMN IF NOT EXISTS pricing_quote JSONB;
+
+-- Rates applied on top of list prices (0 turns a rate off)
+INSERT INTO app_settings (key, value, description) VALUES
+  ('pricing_nonprofit_discount_percent', '0', 'Percent off ads and event promotions for registered nonprofits'),
+  ('public_event_bundle_min_items', '3', 'Promoted events in one order needed for the bundle discount'),
+  ('public_event_bundle_discount_percent', '0', 'Percent off event promotions when an order reaches the bundle size')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE discount_codes IS 'Coupon codes buyers can enter at ad and event checkout';
+COMMENT ON COLUMN discount_codes.amount_off IS 'Fixed discount in dollars; use either this or percent_off';
+COMMENT ON COLUMN discount_codes.times_redeemed IS 'Paid checkouts that used the code, counted by redeem_discount_code()';
+COMMENT ON COLUMN advertisements.pricing_quote IS 'Server-computed quote the Stripe checkout was built from';
+COMMENT ON COLUMN pending_event_submissions.pricing_quote IS 'Server-computed quote the Stripe checkout was built from';
@@ -0,0 +1,75 @@
+-- AI Prompt Versions and Experiments
+-- Keeps every saved ai_prompt_* value as a version and lets two versions of a
+-- prompt split a campaign's posts so reviewer acceptance can be compared
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS ai_prompt_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_key TEXT NOT NULL,
+  version_number INTEGER NOT NULL,
+  value TEXT NOT NULL,
+  note TEXT,
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(prompt_key, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_prompt_versions_key ON ai_prompt_versions(prompt_key, version_number DESC);
+
+CREATE TABLE IF NOT EXISTS ai_prompt_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  version_a_id UUID NOT NULL REFERENCES ai_prompt_versions(id),
+  version_b_id UUID NOT NULL REFERENCES ai_prompt_versions(id),
+  split_percent INTEGER NOT NULL DEFAULT 50 CHECK (split_percent BETWEEN 1 AND 99),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  ended_at TIMESTAMPTZ
+);
+
+-- Only one running experiment per prompt
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_prompt_experiments_active
+  ON ai_prompt_experiments(prompt_key) WHERE is_active;
+
+-- Which experiment variant produced each rating and article (null outside experiments)
+ALTER TABLE post_ratings ADD COLUMN IF NOT EXISTS prompt_version_id UUID REFERENCES ai_prompt_versions(id);
+ALTER TABLE post_ratings ADD COLUMN IF NOT EXISTS prompt_experiment_id UUID REFERENCES ai_prompt_experiments(id);
+ALTER TABLE post_ratings ADD COLUMN IF NOT EXISTS prompt_variant TEXT CHECK (prompt_variant IN ('A', 'B'));
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS prompt_version_id UUID REFERENCES ai_prompt_versions(id);
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS prompt_experiment_id UUID REFERENCES ai_prompt_experiments(id);
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS prompt_variant TEXT CHECK (prompt_variant IN ('A', 'B'));
+
+CREATE INDEX IF NOT EXISTS idx_post_ratings_prompt_experiment ON post_ratings(prompt_experiment_id);
+CREATE INDEX IF NOT EXISTS idx_articles_prompt_experiment ON articles(prompt_experiment_id);
+
+-- Seed version 1 from the current prompts
+INSERT INTO ai_prompt_versions (prompt_key, version_number, value, note, created_by)
+SELECT key, 1, value, 'Initial version', 'system'
+FROM app_settings
+WHERE key LIKE 'ai_prompt_%'
+ON CONFLICT (prompt_key, version_number) DO NOTHING;
+
+-- Enable Row Level Security
+ALTER TABLE ai_prompt_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to ai_prompt_versions"
+  ON ai_prompt_versions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to ai_prompt_experiments"
+  ON ai_prompt_experiments
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE ai_prompt_versions IS 'Every saved value of an ai_prompt_* setting';
+COMMENT ON TABLE ai_prompt_experiments IS 'A/B split of a prompt between two versions';
+COMMENT ON COLUMN ai_prompt_experiments.split_percent IS 'Share of posts (0-100) assigned to version B';
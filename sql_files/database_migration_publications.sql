@@ -0,0 +1,133 @@
+-- Publications Migration
+-- Adds a publication entity so one deployment can run sister editions side by side.
+-- Feeds, sections, campaigns, ads, weather forecasts and alerts belong to a publication;
+-- publication_settings overrides global app_settings keys (prompts, ad position) per publication.
+-- Existing rows are assigned to St. Cloud Scoop, the default publication.
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS publications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9-]+$'),
+  name TEXT NOT NULL,
+  website_url TEXT NOT NULL,
+  logo_url TEXT,
+  brand_color TEXT NOT NULL DEFAULT '#1877F2',
+  facebook_url TEXT,
+  sender_name TEXT,
+  from_email TEXT,
+  mailerlite_review_group_id TEXT,
+  mailerlite_main_group_id TEXT,
+  city TEXT NOT NULL,
+  state TEXT NOT NULL DEFAULT 'Minnesota',
+  county TEXT,
+  zip_code TEXT,
+  nearby_communities TEXT,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  road_work_sources TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only one default publication
+CREATE UNIQUE INDEX IF NOT EXISTS idx_publications_single_default ON publications(is_default) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS publication_settings (
+  publication_id UUID NOT NULL REFERENCES publications(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  value TEXT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (publication_id, key)
+);
+
+-- Sender and MailerLite groups are left empty so the default keeps using the email settings
+INSERT INTO publications (slug, name, website_url, logo_url, brand_color, facebook_url, city, state, county, zip_code, nearby_communities, latitude, longitude, road_work_sources, is_default)
+SELECT
+  'st-cloud',
+  'St. Cloud Scoop',
+  'https://stcscoop.com',
+  'https://raw.githubusercontent.com/VFDavid/STCScoop/refs/heads/main/STCSCOOP_Logo_824X148_clear.png',
+  '#1877F2',
+  'https://www.facebook.com/61578947310955/',
+  'St. Cloud',
+  'Minnesota',
+  'Stearns County',
+  '56303',
+  'Waite Park, Sartell, Sauk Rapids, St. Joseph, Cold Spring, Richmond',
+  45.5608,
+  -94.1622,
+  '- MnDOT District 3: https://www.dot.state.mn.us/d3/
+- Stearns County Public Works: https://www.stearnscountymn.gov/185/Public-Works
+- Benton County Highway: https://www.co.benton.mn.us/180/Highway
+- Sherburne County: https://www.co.sherburne.mn.us/162/Public-Works
+- City of St. Cloud: https://www.ci.stcloud.mn.us
+- City of Sartell: https://www.sartellmn.com/engineering/
+- City of Sauk Rapids: https://ci.sauk-rapids.mn.us/
+- City of Waite Park: https://www.ci.waitepark.mn.us/
+- Metro Bus: https://www.ridemetrobus.com
+- Local news: WJON, St. Cloud Times',
+  true
+WHERE NOT EXISTS (SELECT 1 FROM publications WHERE is_default);
+
+-- Scope existing tables to a publication
+ALTER TABLE rss_feeds ADD COLUMN IF NOT EXISTS publication_id UUID REFERENCES publications(id);
+ALTER TABLE newsletter_sections ADD COLUMN IF NOT EXISTS publication_id UUID REFERENCES publications(id);
+ALTER TABLE newsletter_campaigns ADD COLUMN IF NOT EXISTS publication_id UUID REFERENCES publications(id);
+ALTER TABLE advertisements ADD COLUMN IF NOT EXISTS publication_id UUID REFERENCES publications(id);
+ALTER TABLE weather_forecasts ADD COLUMN IF NOT EXISTS publication_id UUID REFERENCES publications(id);
+ALTER TABLE weather_alerts ADD COLUMN IF NOT EXISTS publication_id UUID REFERENCES publications(id);
+
+UPDATE rss_feeds SET publication_id = (SELECT id FROM publications WHERE is_default) WHERE publication_id IS NULL;
+UPDATE newsletter_sections SET publication_id = (SELECT id FROM publications WHERE is_default) WHERE publication_id IS NULL;
+UPDATE newsletter_campaigns SET publication_id = (SELECT id FROM publications WHERE is_default) WHERE publication_id IS NULL;
+UPDATE advertisements SET publication_id = (SELECT id FROM publications WHERE is_default) WHERE publication_id IS NULL;
+UPDATE weather_forecasts SET publication_id = (SELECT id FROM publications WHERE is_default) WHERE publication_id IS NULL;
+UPDATE weather_alerts SET publication_id = (SELECT id FROM publications WHERE is_default) WHERE publication_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rss_feeds_publication ON rss_feeds(publication_id);
+CREATE INDEX IF NOT EXISTS idx_newsletter_sections_publication ON newsletter_sections(publication_id);
+CREATE INDEX IF NOT EXISTS idx_advertisements_publication ON advertisements(publication_id);
+
+-- One campaign per publication and date, so sister editions can go out on the same day
+ALTER TABLE newsletter_campaigns DROP CONSTRAINT IF EXISTS newsletter_campaigns_date_key;
+DROP INDEX IF EXISTS idx_newsletter_campaigns_publication_date;
+CREATE UNIQUE INDEX IF NOT EXISTS newsletter_campaigns_publication_date_idx ON newsletter_campaigns(publication_id, date);
+
+-- Each publication keeps its own prompt history, next to its publication_settings overrides
+ALTER TABLE ai_prompt_versions ADD COLUMN IF NOT EXISTS publication_id UUID REFERENCES publications(id);
+UPDATE ai_prompt_versions SET publication_id = (SELECT id FROM publications WHERE is_default) WHERE publication_id IS NULL;
+ALTER TABLE ai_prompt_versions ALTER COLUMN publication_id SET NOT NULL;
+ALTER TABLE ai_prompt_versions DROP CONSTRAINT IF EXISTS ai_prompt_versions_prompt_key_version_number_key;
+DROP INDEX IF EXISTS idx_ai_prompt_versions_key;
+CREATE UNIQUE INDEX IF NOT EXISTS ai_prompt_versions_publication_key_version_idx ON ai_prompt_versions(publication_id, prompt_key, version_number DESC);
+
+-- One forecast per publication and date, and each publication tracks its own copy of an alert
+DROP INDEX IF EXISTS weather_forecasts_forecast_date_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS weather_forecasts_publication_date_idx ON weather_forecasts(publication_id, forecast_date);
+ALTER TABLE weather_alerts DROP CONSTRAINT IF EXISTS weather_alerts_nws_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS weather_alerts_publication_nws_id_idx ON weather_alerts(publication_id, nws_id);
+
+ALTER TABLE publications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE publication_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to publications"
+  ON publications
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to publication_settings"
+  ON publication_settings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE publications IS 'Newsletter editions run from this deployment, with their branding, location and MailerLite groups';
+COMMENT ON COLUMN publications.sender_name IS 'Overrides the email_senderName setting; null uses the setting';
+COMMENT ON COLUMN publications.mailerlite_main_group_id IS 'Overrides the email_mainGroupId setting; null uses the setting';
+COMMENT ON COLUMN publications.road_work_sources IS 'Sources listed in the road work search prompt, one per line';
+COMMENT ON TABLE publication_settings IS 'Per-publication values for app_settings keys; the default publication uses app_settings directly';
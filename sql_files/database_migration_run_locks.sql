@@ -0,0 +1,54 @@
+-- Run Locks and Idempotency Keys Migration
+-- Lease-based locks so only one invocation of each cron job runs at a time, and idempotency keys
+-- so retried runs don't repeat side effects (campaign sends, ad usage) after a crash
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS run_locks (
+  name TEXT PRIMARY KEY,
+  owner TEXT,
+  acquired_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  key TEXT PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('in_progress', 'completed', 'failed')),
+  owner TEXT,
+  locked_until TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+  result JSONB,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_status ON idempotency_keys(status);
+
+-- Lets the schedule checker retry a run that was claimed but never finished
+ALTER TABLE schedule_jobs ADD COLUMN IF NOT EXISTS last_completed_at TIMESTAMPTZ;
+UPDATE schedule_jobs SET last_completed_at = last_run_at WHERE last_completed_at IS NULL;
+
+ALTER TABLE run_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to run_locks"
+  ON run_locks
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to idempotency_keys"
+  ON idempotency_keys
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE run_locks IS 'Lease-based locks for cron jobs; a crashed holder''s lock can be taken once expires_at passes';
+COMMENT ON COLUMN run_locks.owner IS 'Invocation holding the lock, null once released';
+COMMENT ON TABLE idempotency_keys IS 'Side effects that must happen at most once; completed keys replay their stored result';
+COMMENT ON COLUMN idempotency_keys.locked_until IS 'Lease of the in-progress attempt; another attempt may reclaim the key after it passes';
+COMMENT ON COLUMN schedule_jobs.last_completed_at IS 'Scheduled time of the last run that finished';
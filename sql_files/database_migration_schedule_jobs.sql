@@ -0,0 +1,88 @@
+-- Schedule Jobs Migration
+-- Per-job cron schedules with an issue day-of-week mask, plus a holiday/skip calendar and one-off overrides
+-- Replaces the email_*Time settings and last_*_run dates the schedule checker used to read
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS schedule_jobs (
+  job_key TEXT PRIMARY KEY CHECK (job_key IN ('event_population', 'rss_processing', 'campaign_creation', 'review_send', 'final_send')),
+  cron_expression TEXT NOT NULL,
+  issue_day_mask SMALLINT NOT NULL DEFAULT 127 CHECK (issue_day_mask BETWEEN 0 AND 127),
+  last_run_at TIMESTAMPTZ,
+  last_issue_date DATE,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS schedule_calendar (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  issue_date DATE NOT NULL,
+  recurs_yearly BOOLEAN NOT NULL DEFAULT false,
+  job_key TEXT REFERENCES schedule_jobs(job_key) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('skip', 'special_edition', 'reschedule')),
+  edition_name TEXT,
+  run_date DATE,
+  run_time TEXT CHECK (run_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  label TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (action <> 'special_edition' OR edition_name IS NOT NULL),
+  CHECK (action <> 'reschedule' OR (job_key IS NOT NULL AND run_date IS NOT NULL AND run_time IS NOT NULL AND NOT recurs_yearly))
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_calendar_issue_date ON schedule_calendar(issue_date);
+
+ALTER TABLE newsletter_campaigns ADD COLUMN IF NOT EXISTS edition_name TEXT;
+
+ALTER TABLE schedule_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_calendar ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to schedule_jobs"
+  ON schedule_jobs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to schedule_calendar"
+  ON schedule_calendar
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Seed every job from the old fixed times (event population ran 5 minutes before RSS processing)
+INSERT INTO schedule_jobs (job_key, cron_expression)
+SELECT job_key, EXTRACT(MINUTE FROM run_time)::int || ' ' || EXTRACT(HOUR FROM run_time)::int || ' * * *'
+FROM (
+  SELECT 'event_population' AS job_key,
+    COALESCE((SELECT value FROM app_settings WHERE key = 'email_rssProcessingTime'), '20:30')::time - INTERVAL '5 minutes' AS run_time
+  UNION ALL
+  SELECT 'rss_processing',
+    COALESCE((SELECT value FROM app_settings WHERE key = 'email_rssProcessingTime'), '20:30')::time
+  UNION ALL
+  SELECT 'campaign_creation',
+    COALESCE((SELECT value FROM app_settings WHERE key = 'email_campaignCreationTime'), '20:50')::time
+  UNION ALL
+  SELECT 'review_send',
+    COALESCE((SELECT value FROM app_settings WHERE key = 'email_scheduledSendTime'), '21:00')::time
+  UNION ALL
+  SELECT 'final_send',
+    COALESCE((SELECT value FROM app_settings WHERE key = 'email_dailyScheduledSendTime'), '04:55')::time
+) AS old_times
+ON CONFLICT (job_key) DO NOTHING;
+
+DELETE FROM app_settings WHERE key IN (
+  'email_rssProcessingTime',
+  'email_campaignCreationTime',
+  'last_rss_processing_run',
+  'last_campaign_creation_run',
+  'last_review_send_run',
+  'last_event_population_run',
+  'last_final_send_run'
+);
+
+COMMENT ON TABLE schedule_jobs IS 'Cron schedule for each newsletter job, evaluated in Central Time by ScheduleChecker';
+COMMENT ON COLUMN schedule_jobs.issue_day_mask IS 'Bit n set = produce issues dated on day-of-week n (0 = Sunday); 127 = every day';
+COMMENT ON COLUMN schedule_jobs.last_run_at IS 'Scheduled time of the last run claimed by a cron invocation';
+COMMENT ON TABLE schedule_calendar IS 'Skip days, special editions and one-off reschedules, keyed by the issue date they affect';
+COMMENT ON COLUMN schedule_calendar.job_key IS 'NULL applies the entry to every job for the issue';
+COMMENT ON COLUMN schedule_calendar.run_date IS 'reschedule only: Central date and run_time (HH:MM) to run the job instead';
+COMMENT ON COLUMN newsletter_campaigns.edition_name IS 'Special edition name from schedule_calendar, shown in the newsletter header';
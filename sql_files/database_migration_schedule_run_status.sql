@@ -0,0 +1,12 @@
+-- Schedule Run Status Migration
+-- Records whether each job's last run completed or failed, so a failed run is retried
+-- within the catch-up window instead of being marked done
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE schedule_jobs ADD COLUMN IF NOT EXISTS last_run_status TEXT CHECK (last_run_status IN ('running', 'completed', 'failed'));
+ALTER TABLE schedule_jobs ADD COLUMN IF NOT EXISTS last_run_error TEXT;
+
+UPDATE schedule_jobs SET last_run_status = 'completed' WHERE last_run_status IS NULL AND last_completed_at IS NOT NULL;
+
+COMMENT ON COLUMN schedule_jobs.last_run_status IS 'Outcome of the run at last_run_at; running while in progress or after a crash';
+COMMENT ON COLUMN schedule_jobs.last_run_error IS 'Why the run at last_run_at failed';
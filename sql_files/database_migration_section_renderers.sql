@@ -0,0 +1,36 @@
+-- Database Migration: Newsletter Section Renderer Registry
+-- Each newsletter_sections row points to a renderer key with its own config,
+-- so preview, review and final sends no longer dispatch on section names.
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE newsletter_sections ADD COLUMN IF NOT EXISTS renderer_key TEXT;
+ALTER TABLE newsletter_sections ADD COLUMN IF NOT EXISTS config JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Backfill renderer keys for existing sections
+UPDATE newsletter_sections SET renderer_key = 'local_scoop' WHERE name = 'The Local Scoop' AND renderer_key IS NULL;
+UPDATE newsletter_sections SET renderer_key = 'local_events' WHERE name = 'Local Events' AND renderer_key IS NULL;
+UPDATE newsletter_sections SET renderer_key = 'poll' WHERE name = 'Poll' AND renderer_key IS NULL;
+UPDATE newsletter_sections SET renderer_key = 'weather' WHERE name = 'Local Weather' AND renderer_key IS NULL;
+UPDATE newsletter_sections SET renderer_key = 'wordle' WHERE name = 'Yesterday''s Wordle' AND renderer_key IS NULL;
+UPDATE newsletter_sections SET renderer_key = 'minnesota_getaways' WHERE name = 'Minnesota Getaways' AND renderer_key IS NULL;
+UPDATE newsletter_sections SET renderer_key = 'dining_deals' WHERE name = 'Dining Deals' AND renderer_key IS NULL;
+UPDATE newsletter_sections SET renderer_key = 'road_work' WHERE name = 'Road Work' AND renderer_key IS NULL;
+UPDATE newsletter_sections SET renderer_key = 'community_business_spotlight' WHERE name = 'Community Business Spotlight' AND renderer_key IS NULL;
+
+-- The poll used to be hard-wired after Local Events in sent emails.
+-- Add it as a regular section right after Local Events if it doesn't exist yet.
+INSERT INTO newsletter_sections (name, renderer_key, display_order, is_active)
+SELECT 'Poll', 'poll', COALESCE((SELECT display_order FROM newsletter_sections WHERE name = 'Local Events'), 20) + 1, true
+WHERE NOT EXISTS (
+    SELECT 1 FROM newsletter_sections WHERE renderer_key = 'poll'
+);
+
+CREATE INDEX IF NOT EXISTS idx_newsletter_sections_renderer_key ON newsletter_sections(renderer_key);
+
+COMMENT ON COLUMN newsletter_sections.renderer_key IS 'Renderer registered in src/lib/newsletter-sections.ts';
+COMMENT ON COLUMN newsletter_sections.config IS 'Renderer-specific options (e.g. {"max_articles": 5} for local_scoop)';
+
+-- Show final configuration
+SELECT name, renderer_key, config, display_order, is_active
+FROM newsletter_sections
+ORDER BY display_order ASC;
@@ -0,0 +1,41 @@
+-- Stripe Webhooks Migration
+-- Log of every Stripe webhook event received, and the ad statuses for payments that were
+-- abandoned, refunded or disputed. Replays are skipped through idempotency_keys
+-- (database_migration_run_locks.sql), keyed by the Stripe event ID.
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  id TEXT PRIMARY KEY,  -- Stripe event ID (evt_...)
+  type TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  object_id TEXT,  -- Checkout session, charge or dispute the event is about
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  error TEXT,
+  deliveries INTEGER NOT NULL DEFAULT 1,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_type ON stripe_webhook_events(type, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_object ON stripe_webhook_events(object_id);
+
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to stripe_webhook_events"
+  ON stripe_webhook_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Ads whose checkout expired, or whose payment was refunded or disputed
+ALTER TABLE advertisements DROP CONSTRAINT IF EXISTS advertisements_status_check;
+ALTER TABLE advertisements ADD CONSTRAINT advertisements_status_check
+  CHECK (status IN ('pending_payment', 'pending_review', 'approved', 'active', 'completed', 'rejected', 'expired', 'refunded', 'disputed'));
+
+CREATE INDEX IF NOT EXISTS idx_advertisements_payment_intent_id ON advertisements(payment_intent_id);
+CREATE INDEX IF NOT EXISTS idx_events_payment_intent_id ON events(payment_intent_id);
+
+COMMENT ON TABLE stripe_webhook_events IS 'Every Stripe webhook delivery, by event ID; deliveries counts Stripe retries';
+COMMENT ON COLUMN advertisements.payment_intent_id IS 'Stripe Checkout session ID the ad was bought with';
@@ -0,0 +1,29 @@
+-- Subscriber Section Preferences Migration
+-- Lets readers hide sections, always get them, or only get them on weekend/weekday issues.
+-- Subscribers with preferences receive a personalized edition instead of the main group's campaign.
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS subscriber_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  publication_id UUID NOT NULL REFERENCES publications(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  section_rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (publication_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriber_preferences_publication ON subscriber_preferences(publication_id);
+
+ALTER TABLE subscriber_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to subscriber_preferences"
+  ON subscriber_preferences
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE subscriber_preferences IS 'Per-subscriber section choices; a row only exists while the subscriber has at least one rule';
+COMMENT ON COLUMN subscriber_preferences.email IS 'Lowercased subscriber email, matching MailerLite';
+COMMENT ON COLUMN subscriber_preferences.section_rules IS 'Renderer key -> always | hide | weekends | weekdays; sections not listed follow the editors';
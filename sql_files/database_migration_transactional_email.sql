@@ -0,0 +1,35 @@
+-- Transactional Email Migration
+-- Log of every templated email sent to event submitters and advertisers (src/lib/email-templates.ts),
+-- linked to the event or ad it was about. "Your ad runs tomorrow" reminders are sent at most once
+-- per ad and issue through idempotency_keys (database_migration_run_locks.sql).
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS transactional_email_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT,  -- Null when the template couldn't be rendered
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  message_id TEXT,
+  transport TEXT,
+  event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+  advertisement_id UUID REFERENCES advertisements(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transactional_email_log_created ON transactional_email_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transactional_email_log_event ON transactional_email_log(event_id) WHERE event_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactional_email_log_ad ON transactional_email_log(advertisement_id) WHERE advertisement_id IS NOT NULL;
+
+ALTER TABLE transactional_email_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to transactional_email_log"
+  ON transactional_email_log
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE transactional_email_log IS 'Every transactional email attempt, sent or failed';
+COMMENT ON COLUMN transactional_email_log.transport IS 'smtp, or capture when EMAIL_TRANSPORT=capture kept the message in memory';
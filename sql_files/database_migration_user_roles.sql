@@ -0,0 +1,47 @@
+-- Role-Based Permissions
+-- Replaces the admin/reviewer roles with admin, editor, ad_manager and events_moderator
+-- and adds an audit log of denied API requests and role changes
+-- Run this in Supabase SQL Editor
+
+-- Existing reviewers become editors (same access they had before)
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+UPDATE users SET role = 'editor' WHERE role = 'reviewer';
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'editor';
+ALTER TABLE users ADD CONSTRAINT users_role_check
+  CHECK (role IN ('admin', 'editor', 'ad_manager', 'events_moderator'));
+
+-- New sign-ins start inactive until an admin activates them in Settings > Users
+ALTER TABLE users ALTER COLUMN is_active SET DEFAULT false;
+
+-- If nobody is an admin yet, promote yourself so you can manage roles in Settings > Users:
+-- UPDATE users SET role = 'admin', is_active = true WHERE email = 'you@example.com';
+
+CREATE TABLE IF NOT EXISTS permission_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type TEXT NOT NULL CHECK (event_type IN ('unauthenticated', 'forbidden', 'inactive', 'role_changed')),
+  user_email TEXT,
+  user_role TEXT,
+  method TEXT,
+  path TEXT,
+  required_permission TEXT,
+  details JSONB DEFAULT '{}',
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_permission_audit_log_created_at ON permission_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_permission_audit_log_user_email ON permission_audit_log(user_email);
+
+-- Enable Row Level Security
+ALTER TABLE permission_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to permission_audit_log"
+  ON permission_audit_log
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE permission_audit_log IS 'Denied API requests and user role changes';
+COMMENT ON COLUMN permission_audit_log.required_permission IS 'Permission the request needed (see src/lib/permissions.ts)';
@@ -0,0 +1,39 @@
+-- Weather Alerts Migration
+-- Stores the NWS active-alerts feed for our county and forecast zones; watches and warnings get a newsletter banner
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS weather_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  nws_id TEXT NOT NULL UNIQUE,
+  event TEXT NOT NULL,
+  headline TEXT,
+  severity TEXT NOT NULL DEFAULT 'Unknown' CHECK (severity IN ('Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown')),
+  urgency TEXT,
+  certainty TEXT,
+  area_desc TEXT,
+  description TEXT,
+  instruction TEXT,
+  onset TIMESTAMPTZ,
+  ends TIMESTAMPTZ,
+  expires TIMESTAMPTZ NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_weather_alerts_active ON weather_alerts(is_active, expires);
+
+ALTER TABLE weather_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to weather_alerts"
+  ON weather_alerts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE weather_alerts IS 'NWS alerts for the St. Cloud county and forecast zones, synced by /api/cron/weather-alerts';
+COMMENT ON COLUMN weather_alerts.nws_id IS 'NWS alert identifier (urn:oid:...); updates to an alert arrive with a new id';
+COMMENT ON COLUMN weather_alerts.is_active IS 'Still in the NWS active feed as of the last sync';
+COMMENT ON COLUMN weather_forecasts.weather_data IS 'WeatherDay[]: day, dateLabel, icon, precipitation, high, low, condition, plus windChill, windSpeed, windGust, windDirection, snowfall (inches) and highlights when available';
@@ -0,0 +1,532 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import RichTextEditor from '@/components/RichTextEditor'
+import type { PortalAd } from '@/lib/advertiser-portal'
+import type { PricingQuote } from '@/types/database'
+
+const LINK_ERRORS: Record<string, string> = {
+  invalid_link: 'That sign-in link has expired or was already used. Request a new one below.',
+  sign_in_failed: 'We couldn\'t sign you in. Please request a new link.'
+}
+
+const STATUS_LABELS: Record<string, { label: string, style: string }> = {
+  pending_review: { label: 'In review', style: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Approved', style: 'bg-blue-100 text-blue-800' },
+  active: { label: 'Running', style: 'bg-green-100 text-green-800' },
+  completed: { label: 'Completed', style: 'bg-gray-100 text-gray-800' },
+  rejected: { label: 'Changes needed', style: 'bg-red-100 text-red-800' },
+  refunded: { label: 'Refunded', style: 'bg-gray-200 text-gray-700' },
+  disputed: { label: 'Payment disputed', style: 'bg-orange-100 text-orange-800' }
+}
+
+const formatDate = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric'
+})
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`
+
+function SignInForm({ initialError }: { initialError: string | null }) {
+  const [email, setEmail] = useState('')
+  const [sending, setSending] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(initialError)
+
+  const requestLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSending(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/ads/portal/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send sign-in link')
+      }
+      setSent(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send sign-in link')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4 py-12">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">Advertiser Portal</h1>
+        <p className="text-sm text-gray-600 mb-6 text-center">
+          See when your Community Business Spotlight runs, how many readers clicked, and update your ad.
+        </p>
+
+        {sent ? (
+          <div className="p-4 rounded-md bg-green-50 text-green-800 text-sm">
+            If <strong>{email}</strong> is the contact email on one of your ads, a sign-in link is on its way.
+            It works once and expires in 30 minutes.
+          </div>
+        ) : (
+          <form onSubmit={requestLink}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Contact email on your ad</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm mb-4"
+              placeholder="you@yourbusiness.com"
+              required
+            />
+
+            {error && (
+              <div className="mb-4 p-3 rounded-md text-sm bg-red-50 text-red-800">{error}</div>
+            )}
+
+            <button
+              type="submit"
+              disabled={sending || !email}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-3 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {sending ? 'Sending...' : 'Email Me a Sign-In Link'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 text-sm text-gray-500 text-center">
+          New advertiser? <Link href="/ads/submit" className="text-blue-600 hover:underline">Submit an ad</Link>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function AdCard({ ad, onChanged }: { ad: PortalAd, onChanged: (message: string) => void }) {
+  const [editing, setEditing] = useState(false)
+  const [title, setTitle] = useState(ad.title)
+  const [body, setBody] = useState(ad.body)
+  const [website, setWebsite] = useState(ad.business_website || '')
+  const [saving, setSaving] = useState(false)
+
+  const [buying, setBuying] = useState(false)
+  const [times, setTimes] = useState(1)
+  const [discountCode, setDiscountCode] = useState('')
+  const [quote, setQuote] = useState<PricingQuote | null>(null)
+  const [purchasing, setPurchasing] = useState(false)
+
+  const [error, setError] = useState<string | null>(null)
+
+  const saveCopy = async () => {
+    if (ad.status === 'active' && !confirm('Your ad will stop running until we review the changes. Continue?')) {
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/ads/portal/ads/${ad.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, body, business_website: website })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save changes')
+      }
+      setEditing(false)
+      onChanged('Changes saved. We\'ll email you once your ad is approved again.')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save changes')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const getQuote = async () => {
+    setError(null)
+    try {
+      const response = await fetch('/api/pricing/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind: 'advertisement', frequency: ad.frequency, times, discount_code: discountCode || undefined })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to price runs')
+      }
+      setQuote(result.quote)
+    } catch (err) {
+      setQuote(null)
+      setError(err instanceof Error ? err.message : 'Failed to price runs')
+    }
+  }
+
+  useEffect(() => {
+    if (buying) {
+      getQuote()
+    }
+  }, [buying, times])
+
+  const buyRuns = async () => {
+    setPurchasing(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/ads/portal/ads/${ad.id}/runs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ times, discount_code: discountCode || undefined })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start checkout')
+      }
+      if (result.paymentRequired) {
+        window.location.href = result.sessionUrl
+        return
+      }
+      setBuying(false)
+      onChanged(`Added ${times} run(s) to "${ad.title}".`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start checkout')
+    } finally {
+      setPurchasing(false)
+    }
+  }
+
+  const status = STATUS_LABELS[ad.status] || { label: ad.status, style: 'bg-gray-100 text-gray-800' }
+  const runsLeft = Math.max(ad.times_paid - ad.times_used, 0)
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex justify-between items-start gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">{ad.title}</h2>
+          <p className="text-sm text-gray-500">{ad.business_name} · submitted {formatDate(ad.submission_date)}</p>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${status.style}`}>{status.label}</span>
+      </div>
+
+      {ad.rejection_reason && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 text-red-800 text-sm">
+          <strong>What to change:</strong> {ad.rejection_reason}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+        <div className="bg-gray-50 rounded-md p-3">
+          <div className="text-2xl font-bold text-gray-900">{ad.times_used} / {ad.times_paid}</div>
+          <div className="text-xs text-gray-500">Runs used</div>
+        </div>
+        <div className="bg-gray-50 rounded-md p-3">
+          <div className="text-2xl font-bold text-gray-900">{runsLeft}</div>
+          <div className="text-xs text-gray-500">Runs left</div>
+        </div>
+        <div className="bg-gray-50 rounded-md p-3">
+          <div className="text-2xl font-bold text-gray-900">{ad.total_clicks}</div>
+          <div className="text-xs text-gray-500">Clicks</div>
+        </div>
+      </div>
+
+      {ad.runs.length > 0 ? (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Newsletter</th>
+              <th className="py-2 font-medium text-right">Clicks</th>
+              <th className="py-2 font-medium text-right">Readers who clicked</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ad.runs.map(run => (
+              <tr key={run.campaign_date} className="border-b last:border-0">
+                <td className="py-2 text-gray-900">{formatDate(run.campaign_date)}</td>
+                <td className="py-2 text-right text-gray-900">{run.clicks}</td>
+                <td className="py-2 text-right text-gray-900">{run.unique_clicks}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Your ad hasn't run yet.</p>
+      )}
+
+      {ad.purchases.length > 0 && (
+        <div className="text-sm text-gray-600 mb-4">
+          <span className="font-medium">Extra runs bought:</span>{' '}
+          {ad.purchases.map(purchase => (
+            `${purchase.times} on ${formatDate(purchase.created_at)}${purchase.status === 'paid' ? '' : ` (${purchase.status.replace('_', ' ')})`}`
+          )).join(' · ')}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md text-sm bg-red-50 text-red-800">{error}</div>
+      )}
+
+      {editing ? (
+        <div className="border-t pt-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Ad Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Ad Content (Max 100 words)</label>
+            <RichTextEditor value={body} onChange={setBody} maxWords={100} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Website</label>
+            <input
+              type="url"
+              value={website}
+              onChange={(e) => setWebsite(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              placeholder="https://"
+            />
+          </div>
+          <p className="text-xs text-gray-500">Edited ads go back to our team for review before they run again.</p>
+          <div className="flex gap-2">
+            <button
+              onClick={saveCopy}
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Submit for Review'}
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : buying ? (
+        <div className="border-t pt-4 space-y-4">
+          <div className="flex gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">More {ad.frequency} runs</label>
+              <input
+                type="number"
+                min={1}
+                value={times}
+                onChange={(e) => setTimes(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Discount code</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={discountCode}
+                  onChange={(e) => setDiscountCode(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <button
+                  onClick={getQuote}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Apply
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {quote && (
+            <div className="bg-gray-50 rounded-md p-3 text-sm space-y-1">
+              <div className="flex justify-between"><span>{quote.lines[0]?.description}</span><span>{formatCents(quote.subtotal)}</span></div>
+              {quote.adjustments.map((adjustment, index) => (
+                <div key={index} className="flex justify-between text-green-700">
+                  <span>{adjustment.label}</span><span>-{formatCents(adjustment.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold border-t pt-1"><span>Total</span><span>{formatCents(quote.total)}</span></div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={buyRuns}
+              disabled={purchasing || !quote}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {purchasing ? 'Starting checkout...' : quote && quote.total === 0 ? 'Add Runs' : 'Continue to Payment'}
+            </button>
+            <button
+              onClick={() => setBuying(false)}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="border-t pt-4 flex gap-2">
+          {ad.can_edit && (
+            <button
+              onClick={() => setEditing(true)}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Edit Ad
+            </button>
+          )}
+          {ad.can_buy_runs && (
+            <button
+              onClick={() => setBuying(true)}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Buy More Runs
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function AdvertiserPortalContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [email, setEmail] = useState<string | null>(null)
+  const [ads, setAds] = useState<PortalAd[]>([])
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  const loadAds = async () => {
+    try {
+      const response = await fetch('/api/ads/portal/ads')
+      if (response.status === 401) {
+        setEmail(null)
+        return
+      }
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load your ads')
+      }
+      setEmail(result.email)
+      setAds(result.ads)
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load your ads' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Back from Stripe Checkout; the webhook normally adds the runs first
+  const verifyRunPurchase = async (sessionId: string) => {
+    try {
+      const response = await fetch('/api/ads/portal/runs/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Payment verification failed')
+      }
+      setMessage({ type: 'success', text: `Payment received. ${result.times} run(s) added to "${result.ad.title}".` })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Payment verification failed' })
+    }
+  }
+
+  useEffect(() => {
+    const runSessionId = searchParams.get('run_session_id')
+    const load = async () => {
+      if (runSessionId) {
+        await verifyRunPurchase(runSessionId)
+        router.replace('/ads/portal')
+      }
+      await loadAds()
+    }
+    load()
+  }, [])
+
+  const signOut = async () => {
+    await fetch('/api/ads/portal/logout', { method: 'POST' })
+    setEmail(null)
+    setAds([])
+  }
+
+  const handleChanged = (text: string) => {
+    setMessage({ type: 'success', text })
+    loadAds()
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!email) {
+    const linkError = searchParams.get('error')
+    return <SignInForm initialError={linkError ? LINK_ERRORS[linkError] || null : null} />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-12">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Your Ads</h1>
+            <p className="text-sm text-gray-600">Signed in as {email}</p>
+          </div>
+          <button
+            onClick={signOut}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            Sign Out
+          </button>
+        </div>
+
+        {message && (
+          <div className={`mb-6 p-3 rounded-md text-sm ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        {ads.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center text-gray-600">
+            No ads yet. <Link href="/ads/submit" className="text-blue-600 hover:underline">Submit one</Link>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {ads.map(ad => (
+              <AdCard key={`${ad.id}-${ad.status}-${ad.times_paid}`} ad={ad} onChanged={handleChanged} />
+            ))}
+          </div>
+        )}
+
+        <div className="mt-8 text-xs text-gray-400 text-center">
+          St. Cloud Scoop • Your Local News Source
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function AdvertiserPortalPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    }>
+      <AdvertiserPortalContent />
+    </Suspense>
+  )
+}
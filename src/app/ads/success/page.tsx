@@ -87,7 +87,7 @@ function AdSuccessContent() {
               <li>Our team will review your advertisement submission</li>
               <li>You'll receive an email notification once your ad is approved (typically within 1 business day)</li>
               <li>Your ad will begin appearing in newsletters according to your selected schedule</li>
-              <li>You'll receive usage reports and completion notifications via email</li>
+              <li>Track when your ad runs and how many readers click it in the <Link href="/ads/portal" className="text-blue-600 hover:underline">advertiser portal</Link></li>
             </ol>
           </div>
 
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  AdminOperationError,
+  listAdminOperations,
+  runAdminOperation,
+  getRecentOperationLogs
+} from '@/lib/admin-operations'
+
+export const maxDuration = 300
+
+// GET - Registered operations and the latest audit entries
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const logs = await getRecentOperationLogs()
+
+    return NextResponse.json({
+      success: true,
+      operations: listAdminOperations(),
+      logs
+    })
+
+  } catch (error) {
+    console.error('Failed to load admin operations:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Run an operation; dry_run defaults to true and real runs need confirm set to the operation key
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { operation, params, dry_run, confirm } = body
+
+    if (!operation) {
+      return NextResponse.json({ error: 'operation is required' }, { status: 400 })
+    }
+
+    const result = await runAdminOperation(operation, params || {}, {
+      dryRun: dry_run !== false,
+      confirm,
+      userEmail: session.user?.email || null
+    })
+
+    return NextResponse.json({
+      success: true,
+      dry_run: dry_run !== false,
+      result
+    })
+
+  } catch (error) {
+    if (error instanceof AdminOperationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+
+    console.error('Admin operation failed:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
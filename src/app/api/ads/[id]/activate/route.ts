@@ -8,10 +8,21 @@ export async function POST(
   try {
     const { id } = await context.params
 
-    // Get all active ads to determine next display_order
+    const { data: ad, error: adError } = await supabaseAdmin
+      .from('advertisements')
+      .select('publication_id')
+      .eq('id', id)
+      .single()
+
+    if (adError || !ad) {
+      return NextResponse.json({ error: 'Ad not found' }, { status: 404 })
+    }
+
+    // Get the publication's active ads to determine next display_order
     const { data: activeAds, error: fetchError } = await supabaseAdmin
       .from('advertisements')
       .select('display_order')
+      .eq('publication_id', ad.publication_id)
       .eq('status', 'active')
       .not('display_order', 'is', null)
       .order('display_order', { ascending: false })
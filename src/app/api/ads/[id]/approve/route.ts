@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { sendTransactionalEmail } from '@/lib/transactional-email'
+import { getPortalUrl } from '@/lib/advertiser-portal'
+import { PricingError, getNonprofitRateEin, requireNonprofitVerification } from '@/lib/pricing'
 
 export async function POST(
   request: NextRequest,
@@ -8,12 +11,24 @@ export async function POST(
   try {
     const { id } = await context.params
     const body = await request.json()
-    const { approved_by } = body
+    const { approved_by, nonprofit_ein_verified } = body
 
     if (!approved_by) {
       return NextResponse.json({ error: 'approved_by is required' }, { status: 400 })
     }
 
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('advertisements')
+      .select('pricing_quote')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: 'Advertisement not found' }, { status: 404 })
+    }
+
+    requireNonprofitVerification(getNonprofitRateEin(existing.pricing_quote), nonprofit_ein_verified)
+
     // Update ad status to approved
     const { data: ad, error } = await supabaseAdmin
       .from('advertisements')
@@ -31,13 +46,28 @@ export async function POST(
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
-    // TODO: Send approval email to submitter
+    // Tell the advertiser; a failed email doesn't undo the approval
+    await sendTransactionalEmail({
+      template: 'ad_approved',
+      to: ad.contact_email,
+      advertisementId: ad.id,
+      variables: {
+        contact_name: ad.contact_name,
+        ad_title: ad.title,
+        business_name: ad.business_name,
+        times_paid: ad.times_paid,
+        portal_url: getPortalUrl()
+      }
+    })
 
     return NextResponse.json({
       success: true,
       ad
     })
   } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     return NextResponse.json({
       error: 'Failed to approve ad',
       message: error instanceof Error ? error.message : 'Unknown error'
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { sendTransactionalEmail } from '@/lib/transactional-email'
+import { getPortalUrl } from '@/lib/advertiser-portal'
 
 export async function POST(
   request: NextRequest,
@@ -32,7 +34,19 @@ export async function POST(
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
-    // TODO: Send rejection email to submitter with reason
+    // Send the reason with a link to fix the ad in the portal
+    await sendTransactionalEmail({
+      template: 'ad_rejected',
+      to: ad.contact_email,
+      advertisementId: ad.id,
+      variables: {
+        contact_name: ad.contact_name,
+        ad_title: ad.title,
+        business_name: ad.business_name,
+        reason: rejection_reason,
+        portal_url: getPortalUrl()
+      }
+    })
 
     return NextResponse.json({
       success: true,
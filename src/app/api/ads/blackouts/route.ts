@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { resolvePublication } from '@/lib/publications'
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+// Mark an issue date as running no ads
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { date, reason, publication: publicationId } = await request.json()
+
+    if (!date || !DATE_REGEX.test(date)) {
+      return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 })
+    }
+
+    const publication = await resolvePublication(publicationId)
+
+    const { data: blackout, error } = await supabaseAdmin
+      .from('ad_blackout_dates')
+      .upsert({
+        publication_id: publication.id,
+        date,
+        reason: reason?.trim() || null,
+        created_by: session.user?.email || null
+      }, { onConflict: 'publication_id,date' })
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ blackout })
+
+  } catch (error) {
+    console.error('Failed to add blackout date:', error)
+    return NextResponse.json({
+      error: 'Failed to add blackout date',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const date = searchParams.get('date')
+
+    if (!date || !DATE_REGEX.test(date)) {
+      return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 })
+    }
+
+    const publication = await resolvePublication(searchParams.get('publication'))
+
+    const { error } = await supabaseAdmin
+      .from('ad_blackout_dates')
+      .delete()
+      .eq('publication_id', publication.id)
+      .eq('date', date)
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Failed to remove blackout date:', error)
+    return NextResponse.json({
+      error: 'Failed to remove blackout date',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
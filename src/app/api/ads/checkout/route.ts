@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { resolvePublication } from '@/lib/publications'
+import { PricingError, buildStripeLineItems, quoteAdvertisement, redeemDiscountCode } from '@/lib/pricing'
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,7 +19,8 @@ export async function POST(request: NextRequest) {
       frequency,
       times,
       preferred_start_date,
-      total_amount
+      discount_code,
+      nonprofit_ein
     } = body
 
     // Validation
@@ -25,10 +28,69 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
-    if (!frequency || !times || !total_amount) {
+    if (!frequency || !times) {
       return NextResponse.json({ error: 'Invalid pricing information' }, { status: 400 })
     }
 
+    const publication = await resolvePublication(body.publication)
+
+    // The browser only picks the run; the price comes from the pricing tiers
+    let quote
+    try {
+      quote = await quoteAdvertisement({
+        frequency,
+        times: Number(times),
+        businessName: business_name,
+        publicationName: publication.name,
+        discountCode: discount_code,
+        nonprofitEin: nonprofit_ein
+      })
+    } catch (error) {
+      if (error instanceof PricingError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    const adRecord = {
+      publication_id: publication.id,
+      title,
+      body: adBody,
+      word_count,
+      business_name,
+      contact_name,
+      contact_email,
+      contact_phone,
+      business_address,
+      business_website,
+      frequency,
+      times_paid: quote.lines[0].quantity,
+      times_used: 0,
+      preferred_start_date,
+      payment_amount: quote.total / 100,
+      pricing_quote: quote,
+      submission_date: new Date().toISOString()
+    }
+
+    // A discount that covers the whole order skips Stripe and goes straight to review
+    if (quote.total === 0) {
+      const { data: ad, error: insertError } = await supabaseAdmin
+        .from('advertisements')
+        .insert({ ...adRecord, status: 'pending_review', payment_status: 'not_required' })
+        .select()
+        .single()
+
+      if (insertError) {
+        throw insertError
+      }
+
+      if (quote.discount_code) {
+        await redeemDiscountCode(quote.discount_code)
+      }
+
+      return NextResponse.json({ adId: ad.id, quote, paymentRequired: false })
+    }
+
     const stripeSecretKey = process.env.STRIPE_SECRET_KEY
 
     if (!stripeSecretKey) {
@@ -36,20 +98,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Payment system not configured' }, { status: 500 })
     }
 
-    // Create line item for Stripe
-    const frequencyLabel = frequency === 'single' ? 'Single' : frequency === 'weekly' ? 'Weekly' : 'Monthly'
-    const lineItem = {
-      price_data: {
-        currency: 'usd',
-        product_data: {
-          name: `${frequencyLabel} Advertisement - ${business_name}`,
-          description: `${times} appearance(s) in St. Cloud Scoop Newsletter`
-        },
-        unit_amount: Math.round(total_amount * 100) // Convert to cents
-      },
-      quantity: 1
-    }
-
     // Create metadata for Stripe
     const metadata = {
       type: 'advertisement',
@@ -57,7 +105,8 @@ export async function POST(request: NextRequest) {
       contact_email,
       frequency,
       times: times.toString(),
-      preferred_start_date: preferred_start_date || ''
+      preferred_start_date: preferred_start_date || '',
+      discount_code: quote.discount_code || ''
     }
 
     // Create Stripe Checkout session
@@ -72,11 +121,7 @@ export async function POST(request: NextRequest) {
         'success_url': `${process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'}/ads/success?session_id={CHECKOUT_SESSION_ID}`,
         'cancel_url': `${process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'}/ads/submit`,
         'customer_email': contact_email,
-        'line_items[0][price_data][currency]': lineItem.price_data.currency,
-        'line_items[0][price_data][product_data][name]': lineItem.price_data.product_data.name,
-        'line_items[0][price_data][product_data][description]': lineItem.price_data.product_data.description,
-        'line_items[0][price_data][unit_amount]': lineItem.price_data.unit_amount.toString(),
-        'line_items[0][quantity]': lineItem.quantity.toString(),
+        ...buildStripeLineItems(quote),
         ...Object.fromEntries(
           Object.entries(metadata).map(([key, value]) => [`metadata[${key}]`, value])
         )
@@ -95,24 +140,10 @@ export async function POST(request: NextRequest) {
     const { data: ad, error: insertError } = await supabaseAdmin
       .from('advertisements')
       .insert({
-        title,
-        body: adBody,
-        word_count,
-        business_name,
-        contact_name,
-        contact_email,
-        contact_phone,
-        business_address,
-        business_website,
-        frequency,
-        times_paid: times,
-        times_used: 0,
+        ...adRecord,
         status: 'pending_payment',
-        preferred_start_date,
         payment_intent_id: session.id,
-        payment_amount: total_amount,
-        payment_status: 'pending',
-        submission_date: new Date().toISOString()
+        payment_status: 'pending'
       })
       .select()
       .single()
@@ -127,7 +158,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       sessionUrl: session.url,
       sessionId: session.id,
-      adId: ad?.id
+      adId: ad?.id,
+      quote,
+      paymentRequired: true
     })
 
   } catch (error) {
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SlackNotificationService } from '@/lib/slack'
+import {
+  AdvertiserPortalError,
+  PORTAL_SESSION_COOKIE,
+  getAdvertiserAd,
+  readPortalSession,
+  updateAdCopy
+} from '@/lib/advertiser-portal'
+
+// Advertiser edits their copy; the ad goes back to review
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const email = readPortalSession(request.cookies.get(PORTAL_SESSION_COOKIE)?.value)
+    if (!email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const ad = await getAdvertiserAd(email, id)
+    if (!ad) {
+      return NextResponse.json({ error: 'Ad not found' }, { status: 404 })
+    }
+
+    const { title, body, business_website } = await request.json()
+
+    let updated
+    try {
+      updated = await updateAdCopy(ad, { title, body, business_website })
+    } catch (error) {
+      if (error instanceof AdvertiserPortalError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    const slack = new SlackNotificationService()
+    await slack.sendSimpleMessage([
+      `✏️ Advertiser edited their ad`,
+      ``,
+      `Business: ${updated.business_name}`,
+      `Ad: ${updated.title}`,
+      `Was ${ad.status}; now waiting for review.`,
+      ``,
+      `Review: ${process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'}/dashboard/databases/ads`
+    ].join('\n'))
+
+    return NextResponse.json({ success: true, status: updated.status })
+
+  } catch (error) {
+    console.error('Failed to update ad from portal:', error)
+    return NextResponse.json({
+      error: 'Failed to update ad',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
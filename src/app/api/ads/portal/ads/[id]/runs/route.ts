@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { resolvePublication } from '@/lib/publications'
+import { PricingError, buildStripeLineItems, quoteAdvertisement, redeemDiscountCode } from '@/lib/pricing'
+import { addAdRuns } from '@/lib/stripe-payments'
+import {
+  AdvertiserPortalError,
+  PORTAL_SESSION_COOKIE,
+  assertCanBuyRuns,
+  getAdvertiserAd,
+  readPortalSession
+} from '@/lib/advertiser-portal'
+
+// Advertiser buys more runs of an existing ad at the ad's frequency
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const email = readPortalSession(request.cookies.get(PORTAL_SESSION_COOKIE)?.value)
+    if (!email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const ad = await getAdvertiserAd(email, id)
+    if (!ad) {
+      return NextResponse.json({ error: 'Ad not found' }, { status: 404 })
+    }
+
+    const { times, discount_code } = await request.json()
+
+    let quote
+    try {
+      assertCanBuyRuns(ad)
+
+      const publication = await resolvePublication(ad.publication_id)
+      quote = await quoteAdvertisement({
+        frequency: ad.frequency,
+        times: Number(times),
+        businessName: ad.business_name,
+        publicationName: publication.name,
+        discountCode: discount_code
+      })
+    } catch (error) {
+      if (error instanceof PricingError || error instanceof AdvertiserPortalError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    const purchaseRecord = {
+      advertisement_id: ad.id,
+      times: quote.lines[0].quantity,
+      payment_amount: quote.total / 100,
+      pricing_quote: quote
+    }
+
+    // Fully discounted runs are added right away
+    if (quote.total === 0) {
+      const { data: purchase, error: insertError } = await supabaseAdmin
+        .from('ad_run_purchases')
+        .insert({ ...purchaseRecord, status: 'paid', paid_at: new Date().toISOString() })
+        .select()
+        .single()
+
+      if (insertError) {
+        throw insertError
+      }
+
+      await addAdRuns(ad.id, purchase.times)
+      if (quote.discount_code) {
+        await redeemDiscountCode(quote.discount_code)
+      }
+
+      return NextResponse.json({ purchaseId: purchase.id, quote, paymentRequired: false })
+    }
+
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY
+
+    if (!stripeSecretKey) {
+      console.error('Stripe secret key not configured')
+      return NextResponse.json({ error: 'Payment system not configured' }, { status: 500 })
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'
+    const metadata = {
+      type: 'ad_runs',
+      advertisement_id: ad.id,
+      business_name: ad.business_name,
+      contact_email: ad.contact_email,
+      times: String(purchaseRecord.times),
+      discount_code: quote.discount_code || ''
+    }
+
+    const stripeResponse = await fetch('https://api.stripe.com/v1/checkout/sessions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${stripeSecretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        'mode': 'payment',
+        'success_url': `${baseUrl}/ads/portal?run_session_id={CHECKOUT_SESSION_ID}`,
+        'cancel_url': `${baseUrl}/ads/portal`,
+        'customer_email': ad.contact_email,
+        ...buildStripeLineItems(quote),
+        ...Object.fromEntries(
+          Object.entries(metadata).map(([key, value]) => [`metadata[${key}]`, value])
+        )
+      })
+    })
+
+    if (!stripeResponse.ok) {
+      const error = await stripeResponse.text()
+      console.error('Stripe API error:', error)
+      throw new Error('Failed to create checkout session')
+    }
+
+    const session = await stripeResponse.json()
+
+    const { data: purchase, error: insertError } = await supabaseAdmin
+      .from('ad_run_purchases')
+      .insert({ ...purchaseRecord, stripe_session_id: session.id })
+      .select()
+      .single()
+
+    if (insertError) {
+      throw insertError
+    }
+
+    console.log(`[Advertiser Portal] Run purchase ${purchase.id} for ad ${ad.id}, session ${session.id}`)
+
+    return NextResponse.json({
+      sessionUrl: session.url,
+      sessionId: session.id,
+      purchaseId: purchase.id,
+      quote,
+      paymentRequired: true
+    })
+
+  } catch (error) {
+    console.error('Failed to start run purchase:', error)
+    return NextResponse.json({
+      error: 'Failed to create checkout session',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PORTAL_SESSION_COOKIE, getPortalAds, readPortalSession } from '@/lib/advertiser-portal'
+
+// The signed-in advertiser's ads with their runs, clicks and purchases
+export async function GET(request: NextRequest) {
+  try {
+    const email = readPortalSession(request.cookies.get(PORTAL_SESSION_COOKIE)?.value)
+    if (!email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const ads = await getPortalAds(email)
+
+    return NextResponse.json({ email, ads })
+
+  } catch (error) {
+    console.error('Failed to load advertiser portal:', error)
+    return NextResponse.json({
+      error: 'Failed to load your ads',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
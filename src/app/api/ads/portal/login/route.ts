@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requestPortalLink } from '@/lib/advertiser-portal'
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Public: emails a sign-in link to the contact address on an ad
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json()
+
+    if (!email || typeof email !== 'string' || !EMAIL_REGEX.test(email.trim())) {
+      return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 })
+    }
+
+    await requestPortalLink(email)
+
+    // Same answer whether or not the address has ads
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Failed to send advertiser portal link:', error)
+    return NextResponse.json({
+      error: 'Failed to send sign-in link',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+import { PORTAL_SESSION_COOKIE } from '@/lib/advertiser-portal'
+
+export async function POST() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(PORTAL_SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { confirmAdRunPurchase } from '@/lib/stripe-payments'
+import { PORTAL_SESSION_COOKIE, normalizeAdvertiserEmail, readPortalSession } from '@/lib/advertiser-portal'
+
+// Portal return page after Stripe Checkout; the webhook usually adds the runs first
+export async function POST(request: NextRequest) {
+  try {
+    const email = readPortalSession(request.cookies.get(PORTAL_SESSION_COOKIE)?.value)
+    if (!email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { sessionId } = await request.json()
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session ID' }, { status: 400 })
+    }
+
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY
+
+    if (!stripeSecretKey) {
+      return NextResponse.json({ error: 'Payment system not configured' }, { status: 500 })
+    }
+
+    const stripeResponse = await fetch(`https://api.stripe.com/v1/checkout/sessions/${encodeURIComponent(sessionId)}`, {
+      headers: {
+        'Authorization': `Bearer ${stripeSecretKey}`
+      }
+    })
+
+    if (!stripeResponse.ok) {
+      throw new Error('Failed to verify payment with Stripe')
+    }
+
+    const session = await stripeResponse.json()
+
+    if (session.metadata?.type !== 'ad_runs') {
+      return NextResponse.json({ error: 'Not a run purchase' }, { status: 400 })
+    }
+
+    if (session.payment_status !== 'paid') {
+      return NextResponse.json({ error: 'Payment not completed' }, { status: 400 })
+    }
+
+    const confirmed = await confirmAdRunPurchase(sessionId)
+
+    if (!confirmed || normalizeAdvertiserEmail(confirmed.ad.contact_email) !== email) {
+      return NextResponse.json({ error: 'Purchase not found for this payment' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      times: confirmed.purchase.times,
+      ad: {
+        id: confirmed.ad.id,
+        title: confirmed.ad.title,
+        times_paid: confirmed.ad.times_paid
+      }
+    })
+
+  } catch (error) {
+    console.error('Run purchase verification failed:', error)
+    return NextResponse.json({
+      error: 'Failed to verify payment',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PORTAL_SESSION_COOKIE, consumePortalToken, createPortalSession } from '@/lib/advertiser-portal'
+
+// Public: the link in the sign-in email. Starts a portal session and lands on the portal.
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+  const portalUrl = new URL('/ads/portal', request.url)
+
+  try {
+    const email = token ? await consumePortalToken(token) : null
+
+    if (!email) {
+      portalUrl.searchParams.set('error', 'invalid_link')
+      return NextResponse.redirect(portalUrl)
+    }
+
+    const session = createPortalSession(email)
+    const response = NextResponse.redirect(portalUrl)
+    response.cookies.set(PORTAL_SESSION_COOKIE, session.value, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      expires: session.expires
+    })
+
+    console.log(`[Advertiser Portal] ${email} signed in`)
+    return response
+
+  } catch (error) {
+    console.error('Advertiser portal sign-in failed:', error)
+    portalUrl.searchParams.set('error', 'sign_in_failed')
+    return NextResponse.redirect(portalUrl)
+  }
+}
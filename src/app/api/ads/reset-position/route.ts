@@ -1,15 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabaseAdmin } from '@/lib/supabase'
+import { resolvePublication, setPublicationSetting } from '@/lib/publications'
 
 export async function POST(request: NextRequest) {
   try {
-    // Reset next_ad_position to 1
-    const { error } = await supabaseAdmin
-      .from('app_settings')
-      .update({ value: '1', updated_at: new Date().toISOString() })
-      .eq('key', 'next_ad_position')
-
-    if (error) throw error
+    // Reset the publication's next_ad_position to 1
+    const publication = await resolvePublication(new URL(request.url).searchParams.get('publication'))
+    await setPublicationSetting(publication, 'next_ad_position', '1')
 
     return NextResponse.json({ success: true, next_ad_position: 1 })
   } catch (error) {
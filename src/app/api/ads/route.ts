@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { getPublicationSetting, resolvePublication } from '@/lib/publications'
 
-// GET all ads with optional status filter
+// GET a publication's ads (default publication unless ?publication=) with optional status filter
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const status = searchParams.get('status')
+    const publication = await resolvePublication(searchParams.get('publication'))
 
     let query = supabaseAdmin
       .from('advertisements')
       .select('*')
+      .eq('publication_id', publication.id)
       .order('created_at', { ascending: false })
 
+    // Comma-separated for tabs that cover several statuses
     if (status) {
-      query = query.eq('status', status)
+      query = query.in('status', status.split(','))
     }
 
     const { data: ads, error } = await query
@@ -54,6 +58,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
+    const publication = await resolvePublication(body.publication_id)
+
     // Determine display_order if status is active
     let display_order = null
     const requestedStatus = body.status || 'approved'
@@ -61,24 +67,17 @@ export async function POST(request: NextRequest) {
 
     if (requestedStatus === 'active') {
       if (useInNextNewsletter) {
-        // Get the current next_ad_position from app_settings
-        const { data: settingsData, error: settingsError } = await supabaseAdmin
-          .from('app_settings')
-          .select('value')
-          .eq('key', 'next_ad_position')
-          .single()
-
-        if (settingsError) {
-          console.error('Error fetching next_ad_position:', settingsError)
-        }
+        // Get the publication's current next_ad_position
+        const storedPosition = await getPublicationSetting(publication, 'next_ad_position')
 
-        const nextAdPosition = settingsData ? parseInt(settingsData.value) : 1
+        const nextAdPosition = storedPosition ? parseInt(storedPosition) : 1
         display_order = nextAdPosition
 
         // Shift all ads with display_order >= nextAdPosition by +1
         const { data: adsToShift, error: fetchAdsError } = await supabaseAdmin
           .from('advertisements')
           .select('id, display_order')
+          .eq('publication_id', publication.id)
           .eq('status', 'active')
           .gte('display_order', nextAdPosition)
           .not('display_order', 'is', null)
@@ -102,6 +101,7 @@ export async function POST(request: NextRequest) {
         const { data: activeAds, error: fetchError } = await supabaseAdmin
           .from('advertisements')
           .select('display_order')
+          .eq('publication_id', publication.id)
           .eq('status', 'active')
           .not('display_order', 'is', null)
           .order('display_order', { ascending: false })
@@ -121,6 +121,7 @@ export async function POST(request: NextRequest) {
     const { data: ad, error } = await supabaseAdmin
       .from('advertisements')
       .insert({
+        publication_id: publication.id,
         title,
         body: adBody,
         word_count,
@@ -138,6 +139,8 @@ export async function POST(request: NextRequest) {
         payment_status: body.payment_status || 'paid',
         paid: body.paid !== undefined ? body.paid : true,
         image_url: body.image_url || null,
+        category: body.category?.trim() || null,
+        preferred_start_date: body.preferred_start_date || null,
         submission_date: new Date().toISOString()
       })
       .select()
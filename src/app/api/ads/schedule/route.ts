@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolvePublication, setPublicationSetting } from '@/lib/publications'
+import { getCentralDate } from '@/lib/newsletter-calendar'
+import { AdScheduler, DEFAULT_CALENDAR_DAYS, MAX_AD_SLOTS } from '@/lib/ad-scheduler'
+import type { Advertisement } from '@/types/database'
+
+const MAX_CALENDAR_DAYS = 180
+
+function summarizeAd(ad: Advertisement) {
+  return {
+    id: ad.id,
+    title: ad.title,
+    business_name: ad.business_name,
+    category: ad.category,
+    frequency: ad.frequency,
+    times_paid: ad.times_paid,
+    times_used: ad.times_used
+  }
+}
+
+// Forward-looking ad calendar for the ads database page
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const publication = await resolvePublication(searchParams.get('publication'))
+    const startDate = searchParams.get('start') || getCentralDate()
+    const days = Math.min(parseInt(searchParams.get('days') || '') || DEFAULT_CALENDAR_DAYS, MAX_CALENDAR_DAYS)
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+      return NextResponse.json({ error: 'start must be YYYY-MM-DD' }, { status: 400 })
+    }
+
+    const calendar = await AdScheduler.planCalendar(publication, startDate, days)
+
+    return NextResponse.json({
+      startDate: calendar.startDate,
+      slotsPerIssue: calendar.slotsPerIssue,
+      maxSlots: MAX_AD_SLOTS,
+      days: calendar.days.map(day => ({
+        date: day.date,
+        blackout: day.blackout,
+        ads: day.ads.map(planned => ({ slot: planned.slot, recorded: planned.recorded, ad: summarizeAd(planned.ad) }))
+      })),
+      unplaced: calendar.unplaced.map(item => ({ runs: item.runs, ad: summarizeAd(item.ad) }))
+    })
+
+  } catch (error) {
+    console.error('Failed to plan ad calendar:', error)
+    return NextResponse.json({
+      error: 'Failed to plan ad calendar',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Change how many Spotlight slots each issue has
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const slots = Number(body.slots_per_issue)
+
+    if (!Number.isInteger(slots) || slots < 0 || slots > MAX_AD_SLOTS) {
+      return NextResponse.json({ error: `slots_per_issue must be a whole number from 0 to ${MAX_AD_SLOTS}` }, { status: 400 })
+    }
+
+    const publication = await resolvePublication(body.publication)
+    await setPublicationSetting(publication, 'ad_slots_per_issue', slots.toString())
+
+    return NextResponse.json({ success: true, slotsPerIssue: slots })
+
+  } catch (error) {
+    console.error('Failed to update ad slots:', error)
+    return NextResponse.json({
+      error: 'Failed to update ad slots',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
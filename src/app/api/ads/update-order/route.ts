@@ -9,10 +9,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing adId or newOrder' }, { status: 400 })
     }
 
-    // Get all active ads sorted by current display_order
+    const { data: ad, error: adError } = await supabaseAdmin
+      .from('advertisements')
+      .select('publication_id')
+      .eq('id', adId)
+      .single()
+
+    if (adError || !ad) {
+      return NextResponse.json({ error: 'Ad not found' }, { status: 404 })
+    }
+
+    // Get the publication's active ads sorted by current display_order
     const { data: ads, error: fetchError } = await supabaseAdmin
       .from('advertisements')
       .select('id, display_order')
+      .eq('publication_id', ad.publication_id)
       .eq('status', 'active')
       .not('display_order', 'is', null)
       .order('display_order', { ascending: true })
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { storeAsset } from '@/lib/asset-storage'
 
 /**
- * Upload advertisement image to GitHub
+ * Upload advertisement image to object storage
  * POST /api/ads/upload-image
  *
  * Security:
@@ -51,42 +52,8 @@ export async function POST(request: NextRequest) {
     // Convert file to buffer
     const arrayBuffer = await imageFile.arrayBuffer()
     const buffer = Buffer.from(arrayBuffer)
-    const base64Content = buffer.toString('base64')
 
-    // Generate unique filename
-    const timestamp = Date.now()
-    const filename = `ad-${timestamp}.jpg`
-    const path = `advertisements/${filename}`
-
-    // Upload to GitHub
-    const githubToken = process.env.GITHUB_TOKEN
-    const githubOwner = process.env.GITHUB_OWNER || 'VFDavid'
-    const githubRepo = process.env.GITHUB_REPO || 'st-cloud-scoop-images'
-
-    const githubUrl = `https://api.github.com/repos/${githubOwner}/${githubRepo}/contents/${path}`
-
-    const githubResponse = await fetch(githubUrl, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${githubToken}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        message: `Add advertisement image: ${filename}`,
-        content: base64Content,
-        branch: 'main'
-      })
-    })
-
-    if (!githubResponse.ok) {
-      const error = await githubResponse.text()
-      console.error('GitHub upload failed:', error)
-      throw new Error(`GitHub upload failed: ${githubResponse.statusText}`)
-    }
-
-    const githubData = await githubResponse.json()
-    const imageUrl = githubData.content.download_url
+    const { url: imageUrl } = await storeAsset('ad_image', buffer, imageFile.type.toLowerCase())
 
     return NextResponse.json({ url: imageUrl })
 
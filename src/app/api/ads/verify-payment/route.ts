@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabaseAdmin } from '@/lib/supabase'
+import { confirmAdPayment } from '@/lib/stripe-payments'
 
 export async function POST(request: NextRequest) {
   try {
@@ -32,24 +32,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Payment not completed' }, { status: 400 })
     }
 
-    // Update ad status to pending_review
-    const { data: ad, error: updateError } = await supabaseAdmin
-      .from('advertisements')
-      .update({
-        status: 'pending_review',
-        payment_status: 'paid',
-        updated_at: new Date().toISOString()
-      })
-      .eq('payment_intent_id', sessionId)
-      .select()
-      .single()
+    // The webhook usually gets here first; confirming again is a no-op
+    const ad = await confirmAdPayment(sessionId)
 
-    if (updateError) {
-      console.error('Failed to update ad status:', updateError)
-      return NextResponse.json({ error: 'Failed to update ad status' }, { status: 500 })
+    if (!ad) {
+      return NextResponse.json({ error: 'Ad not found for this payment' }, { status: 404 })
     }
 
-    console.log(`[Verify Payment] Updated ad ${ad.id} to pending_review status`)
+    console.log(`[Verify Payment] Ad ${ad.id} is ${ad.status}`)
 
     return NextResponse.json({
       success: true,
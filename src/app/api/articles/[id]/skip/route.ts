@@ -57,7 +57,7 @@ export async function POST(
       if (updateError.message?.includes('column "skipped" of relation "articles" does not exist')) {
         return NextResponse.json({
           error: 'Database setup required',
-          details: 'The skipped column needs to be added to the database. Please run: /api/debug/add-skip-column',
+          details: 'The skipped column needs to be added to the database. Run the SQL below in the Supabase SQL Editor.',
           sqlCommand: 'ALTER TABLE articles ADD COLUMN skipped BOOLEAN DEFAULT FALSE;'
         }, { status: 500 })
       }
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
-import { AI_PROMPTS, callOpenAI } from '@/lib/openai'
+import { AI_PROMPTS } from '@/lib/openai'
+import { callLLM } from '@/lib/llm'
 import { authOptions } from '@/lib/auth'
 
 interface RouteParams {
@@ -118,27 +119,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     console.log('=== END PROMPT ===')
 
     // Use higher temperature for more creative variation
-    const result = await callOpenAI(variationPrompt, 1000, 0.8)
+    const result = await callLLM('subject_line', variationPrompt, { maxTokens: 1000, temperature: 0.8 })
 
     console.log('=== AI RESPONSE ===')
     console.log(result)
     console.log('=== END AI RESPONSE ===')
 
-    // Handle both plain text and JSON responses
-    let subjectLine = ''
-    if (typeof result === 'string') {
-      subjectLine = result.trim()
-    } else if (result && typeof result === 'object') {
-      if (result.subject_line) {
-        subjectLine = result.subject_line.trim()
-      } else if (result.raw) {
-        subjectLine = result.raw.trim()
-      } else {
-        subjectLine = String(result).trim()
-      }
-    } else {
-      subjectLine = String(result).trim()
-    }
+    let subjectLine = result.trim()
 
     if (!subjectLine) {
       throw new Error('Empty subject line response from AI')
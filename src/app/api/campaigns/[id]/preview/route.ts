@@ -2,19 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { supabaseAdmin } from '@/lib/supabase'
-import { getWeatherForCampaign } from '@/lib/weather-manager'
 import {
   generateNewsletterHeader,
-  generateNewsletterFooter,
-  generateLocalScoopSection,
-  generateLocalEventsSection,
-  generateCommunityBusinessSpotlightSection,
-  generateWordleSection,
-  generateMinnesotaGetawaysSection,
-  generateDiningDealsSection,
-  generateRoadWorkSection,
-  generatePollSection
+  generateNewsletterFooter
 } from '@/lib/newsletter-templates'
+import { renderNewsletterSections } from '@/lib/newsletter-sections'
+import { getCampaignPublication } from '@/lib/publications'
 
 export async function GET(
   request: NextRequest,
@@ -134,26 +127,6 @@ async function generateNewsletterHtml(campaign: any): Promise<string> {
   try {
     console.log('Generating HTML for campaign:', campaign?.id)
 
-    // Filter active articles and sort by rank (custom order)
-    const activeArticles = (campaign.articles || [])
-      .filter((article: any) => article.is_active)
-      .sort((a: any, b: any) => (a.rank || 999) - (b.rank || 999))
-
-    console.log('PREVIEW - Active articles to render:', activeArticles.length)
-    console.log('PREVIEW - Article order:', activeArticles.map((a: any) => `${a.headline} (rank: ${a.rank})`).join(', '))
-    console.log('PREVIEW - Raw article data:', activeArticles.map((a: any) => `ID: ${a.id}, Rank: ${a.rank}, Active: ${a.is_active}`).join(' | '))
-
-    console.log('Generating events section using calculated dates...')
-
-    // Fetch newsletter sections order
-    const { data: sections } = await supabaseAdmin
-      .from('newsletter_sections')
-      .select('*')
-      .eq('is_active', true)
-      .order('display_order', { ascending: true })
-
-    console.log('Active newsletter sections:', sections?.map(s => `${s.name} (order: ${s.display_order})`).join(', '))
-
     const formatDate = (dateString: string) => {
       try {
         // Parse date as local date to avoid timezone offset issues
@@ -175,61 +148,12 @@ async function generateNewsletterHtml(campaign: any): Promise<string> {
     console.log('Formatted date:', formattedDate)
 
     // Generate modular HTML sections
-    const header = generateNewsletterHeader(formattedDate)
-    const footer = generateNewsletterFooter()
+    const publication = await getCampaignPublication(campaign)
+    const header = generateNewsletterHeader(formattedDate, campaign.edition_name, publication)
+    const footer = generateNewsletterFooter(campaign.date, publication)
 
     // Generate sections in order based on database configuration
-    let sectionsHtml = ''
-    if (sections && sections.length > 0) {
-      for (const section of sections) {
-        if (section.name === 'The Local Scoop' && activeArticles.length > 0) {
-          sectionsHtml += generateLocalScoopSection(activeArticles, campaign.date)
-        } else if (section.name === 'Local Events') {
-          sectionsHtml += await generateLocalEventsSection(campaign)
-        } else if (section.name === 'Poll') {
-          const pollHtml = await generatePollSection(campaign.id)
-          if (pollHtml) {
-            sectionsHtml += pollHtml
-          }
-        } else if (section.name === 'Local Weather') {
-          const weatherHtml = await getWeatherForCampaign(campaign.id)
-          if (weatherHtml) {
-            sectionsHtml += weatherHtml
-          }
-        } else if (section.name === "Yesterday's Wordle") {
-          const wordleHtml = await generateWordleSection(campaign)
-          if (wordleHtml) {
-            sectionsHtml += wordleHtml
-          }
-        } else if (section.name === 'Minnesota Getaways') {
-          const getawaysHtml = await generateMinnesotaGetawaysSection(campaign)
-          if (getawaysHtml) {
-            sectionsHtml += getawaysHtml
-          }
-        } else if (section.name === 'Dining Deals') {
-          const diningHtml = await generateDiningDealsSection(campaign)
-          if (diningHtml) {
-            sectionsHtml += diningHtml
-          }
-        } else if (section.name === 'Road Work') {
-          const roadWorkHtml = await generateRoadWorkSection(campaign)
-          if (roadWorkHtml) {
-            sectionsHtml += roadWorkHtml
-          }
-        } else if (section.name === 'Community Business Spotlight') {
-          const spotlightHtml = await generateCommunityBusinessSpotlightSection(campaign, false) // Don't record usage during preview
-          if (spotlightHtml) {
-            sectionsHtml += spotlightHtml
-          }
-        }
-      }
-    } else {
-      // Fallback to default order if no sections configured
-      console.log('No sections found, using default order')
-      const wordleHtml = await generateWordleSection(campaign)
-      const getawaysHtml = await generateMinnesotaGetawaysSection(campaign)
-      sectionsHtml = generateLocalScoopSection(activeArticles, campaign.date) + await generateLocalEventsSection(campaign) + (wordleHtml || '') + (getawaysHtml || '')
-    }
+    const sectionsHtml = await renderNewsletterSections(campaign, 'preview')
 
     // Combine all sections
     const html = header + sectionsHtml + footer
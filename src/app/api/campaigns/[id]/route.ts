@@ -27,7 +27,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           rss_post:rss_posts(
             *,
             post_rating:post_ratings(*),
-            rss_feed:rss_feeds(*)
+            rss_feed:rss_feeds(*),
+            post_history_matches(*)
           )
         ),
         manual_articles:manual_articles(*),
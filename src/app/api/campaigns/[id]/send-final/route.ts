@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { MailerLiteService } from '@/lib/mailerlite'
+import { getCampaignPublication, getPublicationGroupId } from '@/lib/publications'
 
 interface RouteParams {
   params: Promise<{
@@ -55,8 +56,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const mailerLiteService = new MailerLiteService()
 
-    // Get main group ID from environment (for now - later can be from settings)
-    const mainGroupId = process.env.MAILERLITE_MAIN_GROUP_ID
+    // Get the publication's main group ID (falls back to settings, then environment)
+    const publication = await getCampaignPublication(campaign)
+    const mainGroupId = await getPublicationGroupId(publication, 'main')
 
     if (!mainGroupId) {
       return NextResponse.json({
@@ -64,7 +66,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }, { status: 500 })
     }
 
-    const result = await mailerLiteService.createFinalCampaign(campaign, mainGroupId)
+    const result = await mailerLiteService.createFinalCampaign(campaign, mainGroupId, `final_send:${campaign.id}`)
 
     // Log user activity
     if (session.user?.email) {
@@ -4,6 +4,8 @@ import { supabaseAdmin } from '@/lib/supabase'
 import { authOptions } from '@/lib/auth'
 import { selectPropertiesForCampaign } from '@/lib/vrbo-selector'
 import { selectDiningDealsForCampaign } from '@/lib/dining-selector'
+import { getCampaignDates, getEventQueryRange, eventOccursOn } from '@/lib/newsletter-calendar'
+import { resolvePublication } from '@/lib/publications'
 
 // Helper function to initialize random event selection for a new campaign
 async function initializeRandomEventSelection(campaignId: string) {
@@ -23,31 +25,21 @@ async function initializeRandomEventSelection(campaignId: string) {
     }
 
     // Calculate 3-day range starting from the campaign date (same day as newsletter)
-    // Use the campaign.date for consistent timezone handling
-    const campaignDate = new Date(campaign.date + 'T00:00:00')
     console.log(`Campaign date: ${campaign.date}, Starting events from campaign date`)
-
-    const dates = []
-    for (let i = 0; i < 3; i++) { // Start from i=0 to include campaign date itself
-      const date = new Date(campaignDate)
-      date.setDate(campaignDate.getDate() + i)
-      dates.push(date.toISOString().split('T')[0])
-    }
+    const dates = getCampaignDates(campaign.date)
 
     console.log('Event selection dates:', dates)
 
     // For each date, fetch available events and randomly select up to 8
     for (const eventDate of dates) {
-      const dateStart = new Date(eventDate + 'T00:00:00-05:00')
-      const dateEnd = new Date(eventDate + 'T23:59:59-05:00')
-
-      // Fetch events for this date using broader range matching
-      const { data: availableEvents, error: eventsError } = await supabaseAdmin
+      // Fetch events for this date, including multi-day events that started earlier
+      const range = getEventQueryRange([eventDate])
+      const { data: eventsInRange, error: eventsError } = await supabaseAdmin
         .from('events')
         .select('*')
         .eq('active', true)
-        .gte('start_date', eventDate)
-        .lte('start_date', eventDate + 'T23:59:59')
+        .lte('start_date', range.startsBefore)
+        .or(range.overlapFilter)
         .order('start_date', { ascending: true })
 
       if (eventsError) {
@@ -55,7 +47,8 @@ async function initializeRandomEventSelection(campaignId: string) {
         continue
       }
 
-      if (!availableEvents || availableEvents.length === 0) {
+      const availableEvents = (eventsInRange || []).filter(event => eventOccursOn(event, eventDate))
+      if (availableEvents.length === 0) {
         console.log('No events found for date:', eventDate)
         continue
       }
@@ -136,6 +129,7 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(url.searchParams.get('limit') || '10')
     const offset = parseInt(url.searchParams.get('offset') || '0')
     const status = url.searchParams.get('status')
+    const publicationParam = url.searchParams.get('publication')
 
     let query = supabaseAdmin
       .from('newsletter_campaigns')
@@ -156,6 +150,12 @@ export async function GET(request: NextRequest) {
       query = query.eq('status', status)
     }
 
+    // All publications unless one is requested
+    if (publicationParam) {
+      const publication = await resolvePublication(publicationParam)
+      query = query.eq('publication_id', publication.id)
+    }
+
     const { data: campaigns, error } = await query
 
     if (error) {
@@ -190,10 +190,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Date is required' }, { status: 400 })
     }
 
+    const publication = await resolvePublication(body.publication)
+
     // Create new campaign (duplicate dates are now allowed)
     const { data: campaign, error } = await supabaseAdmin
       .from('newsletter_campaigns')
       .insert([{
+        publication_id: publication.id,
         date,
         status: 'draft'
       }])
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendAdRunReminders } from '@/lib/advertiser-portal'
+import { getActivePublications } from '@/lib/publications'
+import { addDays, getCentralDate } from '@/lib/newsletter-calendar'
+
+/**
+ * Ad Run Reminders Cron Job
+ *
+ * Emails each advertiser whose ad is planned for tomorrow's issue of an active publication.
+ * Each ad gets one reminder per issue date, so re-running the job doesn't send duplicates.
+ *
+ * Scheduled to run daily at 10:00 AM CT via Vercel cron
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+
+  // Verify cron secret for manual testing
+  // Vercel cron requests come without auth header
+  if (authHeader) {
+    const token = authHeader.replace('Bearer ', '')
+    if (token !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  try {
+    const date = addDays(getCentralDate(), 1)
+    const publications = await getActivePublications()
+    const results = []
+    const failures = []
+
+    for (const publication of publications) {
+      try {
+        const result = await sendAdRunReminders(publication, date)
+        console.log(`[Ad Reminders] ${publication.slug} ${date}: ${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped`)
+        results.push({ publication: publication.slug, ...result })
+      } catch (error) {
+        console.error(`[Ad Reminders] Failed for ${publication.slug}:`, error)
+        failures.push({ publication: publication.slug, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    return NextResponse.json({
+      success: failures.length === 0,
+      date,
+      results,
+      failures
+    }, { status: failures.length > 0 && results.length === 0 ? 500 : 200 })
+
+  } catch (error) {
+    console.error('[Ad Reminders] Failed:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Ad run reminders failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { getWordleDataForDate } from '@/lib/wordle-scraper'
+import { getCentralDate } from '@/lib/newsletter-calendar'
 
 async function collectWordleData(date: string, forceRefresh = false) {
   console.log(`🧩 Collecting Wordle data for ${date}...`)
@@ -69,8 +70,8 @@ export async function POST(request: NextRequest) {
 
     console.log('✅ Cron authentication successful')
 
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split('T')[0]
+    // Get today's date in Central Time (YYYY-MM-DD)
+    const today = getCentralDate()
 
     const wordleData = await collectWordleData(today)
 
@@ -127,7 +128,7 @@ export async function GET(request: NextRequest) {
     const forceRefresh = searchParams.get('force') === 'true'
 
     // Use specified date or today's date in YYYY-MM-DD format
-    const targetDate = dateParam || new Date().toISOString().split('T')[0]
+    const targetDate = dateParam || getCentralDate()
 
     const wordleData = await collectWordleData(targetDate, forceRefresh)
 
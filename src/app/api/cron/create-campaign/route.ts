@@ -1,9 +1,118 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { MailerLiteService } from '@/lib/mailerlite'
-import { ScheduleChecker } from '@/lib/schedule-checker'
+import { ScheduleChecker, type DueRun } from '@/lib/schedule-checker'
+import { getActivePublications } from '@/lib/publications'
+import type { Publication } from '@/types/database'
+
+/**
+ * Check that a publication's campaign for the issue is ready to send for review
+ */
+async function checkCampaign(publication: Publication, campaignDate: string) {
+  console.log(`Creating review campaign for ${publication.slug} on:`, campaignDate)
+
+  // Find the issue's campaign with articles
+  const { data: campaign, error: campaignError } = await supabaseAdmin
+    .from('newsletter_campaigns')
+    .select(`
+      *,
+      articles:articles(
+        *,
+        rss_post:rss_posts(
+          *,
+          rss_feed:rss_feeds(*)
+        )
+      ),
+      manual_articles:manual_articles(*)
+    `)
+    .eq('publication_id', publication.id)
+    .eq('date', campaignDate)
+    .single()
+
+  if (campaignError || !campaign) {
+    return {
+      publication: publication.slug,
+      success: false,
+      error: 'No campaign found for this issue'
+    }
+  }
+
+  console.log('Found campaign:', campaign.id, 'Status:', campaign.status)
+
+  // Only create if campaign is in draft status
+  if (campaign.status !== 'draft') {
+    return {
+      publication: publication.slug,
+      success: true,
+      message: `Campaign status is ${campaign.status}, skipping campaign creation`,
+      campaignId: campaign.id,
+      skipped: true
+    }
+  }
+
+  // Check if campaign has active articles
+  const activeArticles = campaign.articles.filter((article: any) => article.is_active)
+  if (activeArticles.length === 0) {
+    return {
+      publication: publication.slug,
+      success: false,
+      error: 'No active articles found for campaign creation',
+      campaignId: campaign.id
+    }
+  }
+
+  console.log(`Campaign has ${activeArticles.length} active articles`)
+
+  // Check if subject line exists
+  if (!campaign.subject_line || campaign.subject_line.trim() === '') {
+    return {
+      publication: publication.slug,
+      success: false,
+      error: 'No subject line found for campaign. Run subject line generation first.',
+      campaignId: campaign.id
+    }
+  }
+
+  console.log('Using subject line:', campaign.subject_line)
+
+  return {
+    publication: publication.slug,
+    success: true,
+    message: 'Campaign created successfully - ready for MailerLite review sending',
+    campaignId: campaign.id,
+    subjectLine: campaign.subject_line,
+    activeArticlesCount: activeArticles.length,
+    status: 'draft'
+  }
+}
+
+/**
+ * Check every active publication's campaign for the issue
+ */
+async function checkCampaigns(campaignDate: string) {
+  const publications = await getActivePublications()
+  const results = []
+
+  for (const publication of publications) {
+    results.push(await checkCampaign(publication, campaignDate))
+  }
+
+  console.log('=== CAMPAIGN CREATION COMPLETED ===')
+  console.log('Campaigns remain in draft status until sent to MailerLite for review')
+
+  return NextResponse.json({
+    success: results.every(result => result.success),
+    campaignDate,
+    results,
+    timestamp: new Date().toISOString()
+  }, { status: results.some(result => result.success) || results.length === 0 ? 200 : 400 })
+}
+
 
 export async function POST(request: NextRequest) {
+  let run: DueRun | null = null
+  let failure: string | null = null
+
   try {
     // Verify this is a legitimate cron request
     const authHeader = request.headers.get('authorization')
@@ -15,12 +124,12 @@ export async function POST(request: NextRequest) {
     console.log('Time:', new Date().toISOString())
 
     // Check if it's time to run campaign creation based on database settings
-    const shouldRun = await ScheduleChecker.shouldRunCampaignCreation()
+    run = await ScheduleChecker.shouldRunCampaignCreation()
 
-    if (!shouldRun) {
+    if (!run) {
       return NextResponse.json({
         success: true,
-        message: 'Not time to run campaign creation or already ran today',
+        message: 'Not time to run campaign creation or already ran',
         skipped: true,
         timestamp: new Date().toISOString()
       })
@@ -29,90 +138,15 @@ export async function POST(request: NextRequest) {
     console.log('=== CAMPAIGN CREATION STARTED (Time Matched) ===')
     console.log('Central Time:', new Date().toLocaleString("en-US", {timeZone: "America/Chicago"}))
 
-    // Get tomorrow's campaign (already processed with RSS and subject line)
-    // Use Central Time for consistent date calculations
-    const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-    const centralDate = new Date(nowCentral)
-    const tomorrow = new Date(centralDate)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const campaignDate = tomorrow.toISOString().split('T')[0]
-
-    console.log('Creating review campaign for tomorrow\'s date:', campaignDate)
-
-    // Find tomorrow's campaign with articles
-    const { data: campaign, error: campaignError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .select(`
-        *,
-        articles:articles(
-          *,
-          rss_post:rss_posts(
-            *,
-            rss_feed:rss_feeds(*)
-          )
-        ),
-        manual_articles:manual_articles(*)
-      `)
-      .eq('date', campaignDate)
-      .single()
-
-    if (campaignError || !campaign) {
-      return NextResponse.json({
-        success: false,
-        error: 'No campaign found for tomorrow',
-        campaignDate: campaignDate
-      }, { status: 404 })
+    // The issue's campaigns (already processed with RSS and subject line)
+    const response = await checkCampaigns(run.issueDate)
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
     }
-
-    console.log('Found campaign:', campaign.id, 'Status:', campaign.status)
-
-    // Only create if campaign is in draft status
-    if (campaign.status !== 'draft') {
-      return NextResponse.json({
-        success: true,
-        message: `Campaign status is ${campaign.status}, skipping campaign creation`,
-        campaignId: campaign.id,
-        skipped: true
-      })
-    }
-
-    // Check if campaign has active articles
-    const activeArticles = campaign.articles.filter((article: any) => article.is_active)
-    if (activeArticles.length === 0) {
-      return NextResponse.json({
-        success: false,
-        error: 'No active articles found for campaign creation',
-        campaignId: campaign.id
-      }, { status: 400 })
-    }
-
-    console.log(`Campaign has ${activeArticles.length} active articles`)
-
-    // Check if subject line exists
-    if (!campaign.subject_line || campaign.subject_line.trim() === '') {
-      return NextResponse.json({
-        success: false,
-        error: 'No subject line found for campaign. Run subject line generation first.',
-        campaignId: campaign.id
-      }, { status: 400 })
-    }
-
-    console.log('Using subject line:', campaign.subject_line)
-    console.log('=== CAMPAIGN CREATION COMPLETED ===')
-    console.log('Campaign remains in draft status until sent to MailerLite for review')
-
-    return NextResponse.json({
-      success: true,
-      message: 'Campaign created successfully - ready for MailerLite review sending',
-      campaignId: campaign.id,
-      campaignDate: campaignDate,
-      subjectLine: campaign.subject_line,
-      activeArticlesCount: activeArticles.length,
-      status: 'draft',
-      timestamp: new Date().toISOString()
-    })
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('=== CAMPAIGN CREATION FAILED ===')
     console.error('Error:', error)
 
@@ -122,11 +156,18 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
 
 // Handle GET requests from Vercel cron (no auth header, uses URL secret)
 export async function GET(request: NextRequest) {
+  let run: DueRun | null = null
+  let failure: string | null = null
+
   try {
     // For Vercel cron: check secret in URL params, for manual: require secret param
     const searchParams = new URL(request.url).searchParams
@@ -145,12 +186,12 @@ export async function GET(request: NextRequest) {
     console.log('Request type:', isVercelCron ? 'Vercel Cron' : 'Manual Test')
 
     // Check if it's time to run campaign creation based on database settings
-    const shouldRun = await ScheduleChecker.shouldRunCampaignCreation()
+    run = await ScheduleChecker.shouldRunCampaignCreation()
 
-    if (!shouldRun) {
+    if (!run) {
       return NextResponse.json({
         success: true,
-        message: 'Not time to run campaign creation or already ran today',
+        message: 'Not time to run campaign creation or already ran',
         skipped: true,
         timestamp: new Date().toISOString()
       })
@@ -159,90 +200,15 @@ export async function GET(request: NextRequest) {
     console.log('=== CAMPAIGN CREATION STARTED (Time Matched) ===')
     console.log('Central Time:', new Date().toLocaleString("en-US", {timeZone: "America/Chicago"}))
 
-    // Get tomorrow's campaign (already processed with RSS and subject line)
-    // Use Central Time for consistent date calculations
-    const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-    const centralDate = new Date(nowCentral)
-    const tomorrow = new Date(centralDate)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const campaignDate = tomorrow.toISOString().split('T')[0]
-
-    console.log('Creating review campaign for tomorrow\'s date:', campaignDate)
-
-    // Find tomorrow's campaign with articles
-    const { data: campaign, error: campaignError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .select(`
-        *,
-        articles:articles(
-          *,
-          rss_post:rss_posts(
-            *,
-            rss_feed:rss_feeds(*)
-          )
-        ),
-        manual_articles:manual_articles(*)
-      `)
-      .eq('date', campaignDate)
-      .single()
-
-    if (campaignError || !campaign) {
-      return NextResponse.json({
-        success: false,
-        error: 'No campaign found for tomorrow',
-        campaignDate: campaignDate
-      }, { status: 404 })
+    // The issue's campaigns (already processed with RSS and subject line)
+    const response = await checkCampaigns(run.issueDate)
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
     }
-
-    console.log('Found campaign:', campaign.id, 'Status:', campaign.status)
-
-    // Only create if campaign is in draft status
-    if (campaign.status !== 'draft') {
-      return NextResponse.json({
-        success: true,
-        message: `Campaign status is ${campaign.status}, skipping campaign creation`,
-        campaignId: campaign.id,
-        skipped: true
-      })
-    }
-
-    // Check if campaign has active articles
-    const activeArticles = campaign.articles.filter((article: any) => article.is_active)
-    if (activeArticles.length === 0) {
-      return NextResponse.json({
-        success: false,
-        error: 'No active articles found for campaign creation',
-        campaignId: campaign.id
-      }, { status: 400 })
-    }
-
-    console.log(`Campaign has ${activeArticles.length} active articles`)
-
-    // Check if subject line exists
-    if (!campaign.subject_line || campaign.subject_line.trim() === '') {
-      return NextResponse.json({
-        success: false,
-        error: 'No subject line found for campaign. Run subject line generation first.',
-        campaignId: campaign.id
-      }, { status: 400 })
-    }
-
-    console.log('Using subject line:', campaign.subject_line)
-    console.log('=== CAMPAIGN CREATION COMPLETED ===')
-    console.log('Campaign remains in draft status until sent to MailerLite for review')
-
-    return NextResponse.json({
-      success: true,
-      message: 'Campaign created successfully - ready for MailerLite review sending',
-      campaignId: campaign.id,
-      campaignDate: campaignDate,
-      subjectLine: campaign.subject_line,
-      activeArticlesCount: activeArticles.length,
-      status: 'draft',
-      timestamp: new Date().toISOString()
-    })
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('=== CAMPAIGN CREATION FAILED ===')
     console.error('Error:', error)
 
@@ -252,5 +218,9 @@ export async function GET(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
\ No newline at end of file
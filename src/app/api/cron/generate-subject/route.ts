@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import { AI_PROMPTS, callOpenAI } from '@/lib/openai'
+import { AI_PROMPTS } from '@/lib/openai'
+import { callLLM } from '@/lib/llm'
 import { ScheduleChecker } from '@/lib/schedule-checker'
+import { addDays, getCentralDate } from '@/lib/newsletter-calendar'
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,9 +32,7 @@ export async function POST(request: NextRequest) {
     console.log('Central Time:', new Date().toLocaleString("en-US", {timeZone: "America/Chicago"}))
 
     // Get tomorrow's campaign (created by RSS processing 15 minutes ago)
-    const tomorrow = new Date()
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const campaignDate = tomorrow.toISOString().split('T')[0]
+    const campaignDate = addDays(getCentralDate(), 1)
 
     console.log('Generating subject line for tomorrow\'s campaign date:', campaignDate)
 
@@ -108,19 +108,19 @@ export async function POST(request: NextRequest) {
 
     // Generate subject line using AI with just the top article
     const prompt = await AI_PROMPTS.subjectLineGenerator([topArticle])
-    const result = await callOpenAI(prompt, 1000, 0.8)
+    const subjectLine = (await callLLM('subject_line', prompt, { maxTokens: 1000, temperature: 0.8 })).trim()
 
-    if (!result.subject_line) {
-      throw new Error('Invalid subject line response from AI')
+    if (!subjectLine) {
+      throw new Error('Empty subject line response from AI')
     }
 
-    console.log(`Generated subject line: "${result.subject_line}" (${result.character_count} chars)`)
+    console.log(`Generated subject line: "${subjectLine}" (${subjectLine.length} chars)`)
 
     // Update campaign with generated subject line
     const { error: updateError } = await supabaseAdmin
       .from('newsletter_campaigns')
       .update({
-        subject_line: result.subject_line
+        subject_line: subjectLine
       })
       .eq('id', campaign.id)
 
@@ -135,8 +135,8 @@ export async function POST(request: NextRequest) {
       message: 'Subject line generated successfully',
       campaignId: campaign.id,
       campaignDate: campaignDate,
-      subjectLine: result.subject_line,
-      characterCount: result.character_count,
+      subjectLine,
+      characterCount: subjectLine.length,
       topArticleUsed: topArticle.headline,
       timestamp: new Date().toISOString()
     })
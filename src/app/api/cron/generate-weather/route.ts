@@ -1,5 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { generateDailyWeatherForecast, cleanupOldForecasts } from '@/lib/weather-manager'
+import { getActivePublications } from '@/lib/publications'
+
+/**
+ * Generate tomorrow's forecast for every active publication. One publication's failure
+ * doesn't stop the others.
+ */
+async function generateForecasts() {
+  const publications = await getActivePublications()
+  const forecasts = []
+  const failures = []
+
+  for (const publication of publications) {
+    try {
+      const forecast = await generateDailyWeatherForecast(publication)
+      console.log(`✅ Weather forecast generated for ${publication.slug}:`, forecast.id)
+      forecasts.push({
+        publication: publication.slug,
+        id: forecast.id,
+        forecast_date: forecast.forecast_date,
+        generated_at: forecast.generated_at,
+        has_image: !!forecast.image_url,
+        image_url: forecast.image_url,
+        weather_days: forecast.weather_data.length
+      })
+    } catch (error) {
+      console.error(`❌ Weather forecast failed for ${publication.slug}:`, error)
+      failures.push({ publication: publication.slug, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  if (forecasts.length === 0 && failures.length > 0) {
+    throw new Error(failures.map(failure => `${failure.publication}: ${failure.error}`).join('; '))
+  }
+
+  return { forecasts, failures }
+}
 
 export async function POST(request: NextRequest) {
   console.log('🌤️ Starting weather forecast generation cron job...')
@@ -14,25 +50,18 @@ export async function POST(request: NextRequest) {
 
     console.log('✅ Cron authentication successful')
 
-    // Generate new weather forecast
-    const forecast = await generateDailyWeatherForecast()
-    console.log('✅ Weather forecast generated:', forecast.id)
+    // Generate new weather forecasts
+    const { forecasts, failures } = await generateForecasts()
 
     // Cleanup old forecasts
     await cleanupOldForecasts()
     console.log('✅ Old forecasts cleaned up')
 
     return NextResponse.json({
-      success: true,
-      message: 'Weather forecast generated successfully',
-      forecast: {
-        id: forecast.id,
-        forecast_date: forecast.forecast_date,
-        generated_at: forecast.generated_at,
-        has_image: !!forecast.image_url,
-        image_url: forecast.image_url,
-        weather_days: forecast.weather_data.length
-      }
+      success: failures.length === 0,
+      message: `Weather forecast generated for ${forecasts.length} publication(s)`,
+      forecasts,
+      failures
     })
 
   } catch (error) {
@@ -50,25 +79,18 @@ export async function GET() {
   console.log('🌤️ Starting manual weather forecast generation...')
 
   try {
-    // Generate new weather forecast
-    const forecast = await generateDailyWeatherForecast()
-    console.log('✅ Weather forecast generated:', forecast.id)
+    // Generate new weather forecasts
+    const { forecasts, failures } = await generateForecasts()
 
     // Cleanup old forecasts
     await cleanupOldForecasts()
     console.log('✅ Old forecasts cleaned up')
 
     return NextResponse.json({
-      success: true,
-      message: 'Manual weather forecast generated successfully',
-      forecast: {
-        id: forecast.id,
-        forecast_date: forecast.forecast_date,
-        generated_at: forecast.generated_at,
-        has_image: !!forecast.image_url,
-        weather_days: forecast.weather_data.length,
-        image_url: forecast.image_url
-      }
+      success: failures.length === 0,
+      message: `Manual weather forecast generated for ${forecasts.length} publication(s)`,
+      forecasts,
+      failures
     })
 
   } catch (error) {
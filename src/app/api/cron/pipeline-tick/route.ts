@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PipelineRunner, AdvanceResult } from '@/lib/pipeline-runner'
+
+// Leave headroom under the route's maxDuration (300s) for the step that is in flight
+const TICK_BUDGET_MS = 200 * 1000
+
+async function advanceActiveJobs() {
+  const startedAt = Date.now()
+  const jobs = await PipelineRunner.getActiveJobs()
+  const results: AdvanceResult[] = []
+
+  for (const job of jobs) {
+    const remainingBudget = TICK_BUDGET_MS - (Date.now() - startedAt)
+    if (remainingBudget <= 0) break
+
+    results.push(await PipelineRunner.advanceJob(job.id, remainingBudget))
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: jobs.length === 0 ? 'No pipeline jobs to advance' : `Advanced ${results.length} pipeline job(s)`,
+    results,
+    timestamp: new Date().toISOString()
+  })
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return await advanceActiveJobs()
+
+  } catch (error) {
+    console.error('Pipeline tick failed:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Pipeline tick failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+// Handle GET requests from Vercel cron (no auth header, uses URL secret)
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const secret = searchParams.get('secret')
+
+    const isVercelCron = !secret && !searchParams.has('secret')
+    const isManualTest = secret === process.env.CRON_SECRET
+
+    if (!isVercelCron && !isManualTest) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return await advanceActiveJobs()
+
+  } catch (error) {
+    console.error('Pipeline tick failed:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Pipeline tick failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
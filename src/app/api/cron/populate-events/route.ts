@@ -1,9 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { RSSProcessor } from '@/lib/rss-processor'
-import { ScheduleChecker } from '@/lib/schedule-checker'
+import { ScheduleChecker, type DueRun } from '@/lib/schedule-checker'
+import { getActivePublications } from '@/lib/publications'
+
+/**
+ * Populate events into every active publication's campaign for the issue
+ */
+async function populateEvents(campaignDate: string) {
+  console.log('Populating events for campaign date:', campaignDate)
+
+  const publications = await getActivePublications()
+  const rssProcessor = new RSSProcessor()
+  const results = []
+
+  for (const publication of publications) {
+    // Find the issue's campaign
+    const { data: campaign, error: campaignError } = await supabaseAdmin
+      .from('newsletter_campaigns')
+      .select('*')
+      .eq('publication_id', publication.id)
+      .eq('date', campaignDate)
+      .single()
+
+    if (campaignError || !campaign) {
+      results.push({
+        publication: publication.slug,
+        success: false,
+        error: 'No campaign found for this issue - RSS processing may not have run yet'
+      })
+      continue
+    }
+
+    console.log(`Found ${publication.slug} campaign:`, campaign.id, 'Status:', campaign.status)
+
+    try {
+      // Populate events with smart selection
+      await rssProcessor.populateEventsForCampaignSmart(campaign.id)
+      results.push({ publication: publication.slug, success: true, campaignId: campaign.id })
+    } catch (error) {
+      console.error(`Event population failed for ${publication.slug}:`, error)
+      results.push({
+        publication: publication.slug,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        campaignId: campaign.id
+      })
+    }
+  }
+
+  return NextResponse.json({
+    success: results.every(result => result.success),
+    message: `Events populated for the ${campaignDate} campaigns`,
+    campaignDate,
+    results,
+    timestamp: new Date().toISOString()
+  }, { status: results.some(result => result.success) || results.length === 0 ? 200 : 404 })
+}
 
 export async function POST(request: NextRequest) {
+  let run: DueRun | null = null
+  let failure: string | null = null
+
   try {
     // Verify this is a legitimate cron request
     const authHeader = request.headers.get('authorization')
@@ -14,34 +72,11 @@ export async function POST(request: NextRequest) {
     console.log('=== AUTOMATED EVENT POPULATION CHECK ===')
     console.log('Time:', new Date().toISOString())
 
-    // Check if it's time to run event population (5 minutes before RSS processing)
-    const settings = await ScheduleChecker.getScheduleSettings()
-    if (!settings.reviewScheduleEnabled) {
-      return NextResponse.json({
-        success: true,
-        message: 'Review schedule not enabled',
-        skipped: true
-      })
-    }
-
-    // Run 5 minutes before RSS processing time
-    const rssTime = settings.rssProcessingTime
-    const [rssHour, rssMinute] = rssTime.split(':').map(Number)
-    const eventTime = `${rssHour.toString().padStart(2, '0')}:${(rssMinute - 5).toString().padStart(2, '0')}`
-
-    const currentTime = ScheduleChecker.getCurrentTimeInCT()
-
-    // Check if current time matches event population time (within 15-minute window)
-    const current = ScheduleChecker.parseTime(currentTime.timeString)
-    const scheduled = ScheduleChecker.parseTime(eventTime)
-    const currentMinutes = current.hours * 60 + current.minutes
-    const scheduledMinutes = scheduled.hours * 60 + scheduled.minutes
-    const timeDiff = Math.abs(currentMinutes - scheduledMinutes)
-
-    if (timeDiff > 15) {
+    run = await ScheduleChecker.shouldRunEventPopulation()
+    if (!run) {
       return NextResponse.json({
         success: true,
-        message: `Not time to run event population: current ${currentTime.timeString}, scheduled ${eventTime}`,
+        message: 'Not time to run event population or already ran',
         skipped: true
       })
     }
@@ -49,49 +84,18 @@ export async function POST(request: NextRequest) {
     console.log('=== EVENT POPULATION STARTED (Time Matched) ===')
     console.log('Central Time:', new Date().toLocaleString("en-US", {timeZone: "America/Chicago"}))
 
-    // Get tomorrow's campaign (created by RSS processing)
-    const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-    const centralDate = new Date(nowCentral)
-    const tomorrow = new Date(centralDate)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const campaignDate = tomorrow.toISOString().split('T')[0]
-
-    console.log('Populating events for campaign date:', campaignDate)
-
-    // Find tomorrow's campaign
-    const { data: campaign, error: campaignError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .select('*')
-      .eq('date', campaignDate)
-      .single()
-
-    if (campaignError || !campaign) {
-      return NextResponse.json({
-        success: false,
-        error: 'No campaign found for tomorrow - RSS processing may not have run yet',
-        campaignDate: campaignDate
-      }, { status: 404 })
+    // The campaigns for the issue this run produces (created by RSS processing)
+    const response = await populateEvents(run.issueDate)
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
     }
 
-    console.log('Found campaign:', campaign.id, 'Status:', campaign.status)
-
-    // Initialize RSS processor for event population
-    const rssProcessor = new RSSProcessor()
-
-    // Populate events with smart selection
-    await rssProcessor.populateEventsForCampaignSmart(campaign.id)
-
     console.log('=== EVENT POPULATION COMPLETED ===')
 
-    return NextResponse.json({
-      success: true,
-      message: 'Events populated successfully for tomorrow\'s campaign',
-      campaignId: campaign.id,
-      campaignDate: campaignDate,
-      timestamp: new Date().toISOString()
-    })
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('=== EVENT POPULATION FAILED ===')
     console.error('Error:', error)
 
@@ -101,11 +105,18 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
 
 // Handle GET requests from Vercel cron (no auth header)
 export async function GET(request: NextRequest) {
+  let run: DueRun | null = null
+  let failure: string | null = null
+
   try {
     // For Vercel cron: check secret in URL params, for manual: require secret param
     const searchParams = new URL(request.url).searchParams
@@ -124,73 +135,33 @@ export async function GET(request: NextRequest) {
     console.log('Request type:', isVercelCron ? 'Vercel Cron' : 'Manual Test')
 
     // Same logic as POST handler...
-    const settings = await ScheduleChecker.getScheduleSettings()
-    if (!settings.reviewScheduleEnabled) {
-      return NextResponse.json({
-        success: true,
-        message: 'Review schedule not enabled',
-        skipped: true
-      })
-    }
-
-    const rssTime = settings.rssProcessingTime
-    const [rssHour, rssMinute] = rssTime.split(':').map(Number)
-    const eventTime = `${rssHour.toString().padStart(2, '0')}:${(rssMinute - 5).toString().padStart(2, '0')}`
-
-    const currentTime = ScheduleChecker.getCurrentTimeInCT()
-
-    const current = ScheduleChecker.parseTime(currentTime.timeString)
-    const scheduled = ScheduleChecker.parseTime(eventTime)
-    const currentMinutes = current.hours * 60 + current.minutes
-    const scheduledMinutes = scheduled.hours * 60 + scheduled.minutes
-    const timeDiff = Math.abs(currentMinutes - scheduledMinutes)
-
-    if (timeDiff > 15) {
+    run = await ScheduleChecker.shouldRunEventPopulation()
+    if (!run) {
       return NextResponse.json({
         success: true,
-        message: `Not time to run event population: current ${currentTime.timeString}, scheduled ${eventTime}`,
+        message: 'Not time to run event population or already ran',
         skipped: true
       })
     }
 
-    // Get tomorrow's campaign and populate events
-    const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-    const centralDate = new Date(nowCentral)
-    const tomorrow = new Date(centralDate)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const campaignDate = tomorrow.toISOString().split('T')[0]
-
-    const { data: campaign, error: campaignError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .select('*')
-      .eq('date', campaignDate)
-      .single()
-
-    if (campaignError || !campaign) {
-      return NextResponse.json({
-        success: false,
-        error: 'No campaign found for tomorrow - RSS processing may not have run yet',
-        campaignDate: campaignDate
-      }, { status: 404 })
+    // Get the issue's campaigns and populate events
+    const response = await populateEvents(run.issueDate)
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
     }
-
-    const rssProcessor = new RSSProcessor()
-    await rssProcessor.populateEventsForCampaignSmart(campaign.id)
-
-    return NextResponse.json({
-      success: true,
-      message: 'Events populated successfully for tomorrow\'s campaign',
-      campaignId: campaign.id,
-      campaignDate: campaignDate,
-      timestamp: new Date().toISOString()
-    })
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('Event population failed:', error)
     return NextResponse.json({
       success: false,
       error: 'Event population failed',
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
\ No newline at end of file
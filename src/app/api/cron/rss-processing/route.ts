@@ -1,10 +1,94 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import { RSSProcessor } from '@/lib/rss-processor'
-import { ScheduleChecker } from '@/lib/schedule-checker'
-import { AI_PROMPTS, callOpenAI } from '@/lib/openai'
+import { PipelineRunner, type AdvanceResult } from '@/lib/pipeline-runner'
+import { ScheduleChecker, type DueRun } from '@/lib/schedule-checker'
+import { runIdempotent } from '@/lib/idempotency'
+import { getActivePublications } from '@/lib/publications'
+
+// Remaining steps are picked up by /api/cron/pipeline-tick
+const INITIAL_BUDGET_MS = 200 * 1000
+
+/**
+ * Create the issue's campaign for every active publication and queue its pipeline, then run
+ * as many steps as fit in this invocation. Remaining steps continue on the pipeline tick.
+ */
+async function startPipelines(run: DueRun) {
+  const campaignDate = run.issueDate
+  const publications = await getActivePublications()
+  const started = []
+  const failures = []
+
+  for (const publication of publications) {
+    try {
+      console.log(`Creating new ${publication.slug} campaign for`, campaignDate, '...')
+
+      // Always create a new campaign (duplicate dates are now allowed), but only one per
+      // publication and scheduled run: a retry of a crashed run picks up the campaign it already created
+      const { result: campaignId, replayed } = await runIdempotent(`create_campaign:${run.jobKey}:${run.runAt}:${publication.id}`, async () => {
+        const { data: newCampaign, error: campaignError } = await supabaseAdmin
+          .from('newsletter_campaigns')
+          .insert([{
+            publication_id: publication.id,
+            date: campaignDate,
+            subject_line: '', // Will be generated later
+            status: 'processing', // Set to draft by the pipeline's final step
+            edition_name: run.editionName,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          }])
+          .select('id')
+          .single()
+
+        if (campaignError || !newCampaign) {
+          throw new Error(`Failed to create campaign: ${campaignError?.message}`)
+        }
+        return newCampaign.id as string
+      })
+
+      console.log(replayed ? 'Resuming campaign:' : 'Created new campaign:', campaignId, 'for date:', campaignDate)
+
+      const job = await PipelineRunner.enqueueJob(campaignId)
+      started.push({ publication: publication.slug, campaignId, jobId: job.id })
+    } catch (error) {
+      console.error(`Failed to start the ${publication.slug} pipeline:`, error)
+      failures.push({ publication: publication.slug, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  // Queue the pipelines and run as many steps as fit in this invocation, sharing the budget
+  console.log('Starting RSS processing pipelines...')
+  const deadline = Date.now() + INITIAL_BUDGET_MS
+  const results = []
+
+  for (const pipeline of started) {
+    const remainingMs = deadline - Date.now()
+    const progress: AdvanceResult = remainingMs > 0
+      ? await PipelineRunner.advanceJob(pipeline.jobId, remainingMs)
+      : { jobId: pipeline.jobId, status: 'running', stepsRun: [] }
+
+    console.log(`=== ${pipeline.publication} RSS PIPELINE ${progress.status.toUpperCase()} ===`)
+    results.push({ ...pipeline, pipeline: progress })
+  }
+
+  const completed = results.every(result => result.pipeline.status === 'completed')
+
+  return NextResponse.json({
+    success: failures.length === 0 && results.every(result => result.pipeline.status !== 'failed'),
+    message: completed
+      ? `RSS processing and subject line generation completed successfully for the ${campaignDate} campaigns`
+      : 'RSS pipelines started; remaining steps continue on the pipeline tick',
+    campaignDate: campaignDate,
+    results,
+    failures,
+    note: 'Campaigns created for next day delivery with AI subject line',
+    timestamp: new Date().toISOString()
+  }, { status: started.length === 0 && failures.length > 0 ? 500 : 200 })
+}
 
 export async function POST(request: NextRequest) {
+  let run: DueRun | null = null
+  let failure: string | null = null
+
   try {
     // Verify this is a legitimate cron request
     const authHeader = request.headers.get('authorization')
@@ -20,12 +104,12 @@ export async function POST(request: NextRequest) {
     console.log('Time:', new Date().toISOString())
 
     // Check if it's time to run RSS processing based on database settings
-    const shouldRun = await ScheduleChecker.shouldRunRSSProcessing()
+    run = await ScheduleChecker.shouldRunRSSProcessing()
 
-    if (!shouldRun) {
+    if (!run) {
       return NextResponse.json({
         success: true,
-        message: 'Not time to run RSS processing or already ran today',
+        message: 'Not time to run RSS processing or already ran',
         skipped: true,
         timestamp: new Date().toISOString()
       })
@@ -35,73 +119,20 @@ export async function POST(request: NextRequest) {
     const currentCentralTime = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
     console.log('Central Time:', currentCentralTime)
 
-    // Get tomorrow's date for campaign creation (RSS processing is for next day)
-    // IMPORTANT: Calculate tomorrow based on Central Time, not UTC
-    // Fix for issue where RSS runs 8:15 PM CT Sept 22 but created campaign for Sept 24 instead of Sept 23
-    const now = new Date()
-
-    // Create a date in Central Time using Intl.DateTimeFormat
-    const centralFormatter = new Intl.DateTimeFormat('en-CA', {
-      timeZone: 'America/Chicago',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit'
-    })
-
-    const centralDate = centralFormatter.format(now) // Returns YYYY-MM-DD in Central Time
-
-    // Add one day to get tomorrow in Central Time
-    const centralToday = new Date(centralDate + 'T00:00:00')
-    const centralTomorrow = new Date(centralToday)
-    centralTomorrow.setDate(centralToday.getDate() + 1)
-
-    const campaignDate = centralTomorrow.toISOString().split('T')[0]
-
-    console.log('Processing RSS for tomorrow\'s campaign date:', campaignDate)
-    console.log('Debug: UTC now:', now.toISOString())
-    console.log('Debug: Central date today:', centralDate)
-    console.log('Debug: Central tomorrow:', campaignDate)
-
-    // STEP 1: Create new campaign for tomorrow (allow duplicate dates)
-    console.log('Creating new campaign for tomorrow...')
-
-    // Initialize RSS processor
-    const rssProcessor = new RSSProcessor()
-
-    // Always create a new campaign (duplicate dates are now allowed)
-    const { data: newCampaign, error: campaignError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .insert([{
-        date: campaignDate,
-        status: 'processing'
-      }])
-      .select()
-      .single()
-
-    if (campaignError || !newCampaign) {
-      throw new Error(`Failed to create campaign: ${campaignError?.message}`)
-    }
-
-    const campaignId = newCampaign.id
-    console.log('Created new campaign:', campaignId, 'for date:', campaignDate)
+    // The scheduled run knows which issue it produces (normally tomorrow's, in Central Time)
+    const campaignDate = run.issueDate
 
-    // Process RSS feeds for the specific campaign
-    console.log('Starting RSS processing...')
-    await rssProcessor.processAllFeedsForCampaign(campaignId)
+    console.log('Processing RSS for campaign date:', campaignDate, run.editionName ? `(${run.editionName})` : '')
+    console.log('Debug: scheduled run at:', run.runAt)
 
-    console.log('=== RSS PROCESSING COMPLETED ===')
-    console.log('Subject line generation now happens during RSS processing')
-
-    return NextResponse.json({
-      success: true,
-      message: 'RSS processing and subject line generation completed successfully for tomorrow\'s campaign',
-      campaignId: campaignId,
-      campaignDate: campaignDate,
-      note: 'Campaign created for next day delivery with AI subject line',
-      timestamp: new Date().toISOString()
-    })
+    const response = await startPipelines(run)
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
+    }
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('=== RSS PROCESSING FAILED ===')
     console.error('Error:', error)
 
@@ -111,11 +142,18 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
 
 // Handle GET requests from Vercel cron (no auth header, uses URL secret)
 export async function GET(request: NextRequest) {
+  let run: DueRun | null = null
+  let failure: string | null = null
+
   try {
     // For Vercel cron: check secret in URL params, for manual: require secret param
     const searchParams = new URL(request.url).searchParams
@@ -134,12 +172,12 @@ export async function GET(request: NextRequest) {
     console.log('Request type:', isVercelCron ? 'Vercel Cron' : 'Manual Test')
 
     // Check if it's time to run RSS processing based on database settings
-    const shouldRun = await ScheduleChecker.shouldRunRSSProcessing()
+    run = await ScheduleChecker.shouldRunRSSProcessing()
 
-    if (!shouldRun) {
+    if (!run) {
       return NextResponse.json({
         success: true,
-        message: 'Not time to run RSS processing or already ran today',
+        message: 'Not time to run RSS processing or already ran',
         skipped: true,
         timestamp: new Date().toISOString()
       })
@@ -149,74 +187,20 @@ export async function GET(request: NextRequest) {
     const currentCentralTime = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
     console.log('Central Time:', currentCentralTime)
 
-    // Get tomorrow's date for campaign creation (RSS processing is for next day)
-    // IMPORTANT: Calculate tomorrow based on Central Time, not UTC
-    // Fix for issue where RSS runs 8:15 PM CT Sept 22 but created campaign for Sept 24 instead of Sept 23
-    const now = new Date()
-
-    // Create a date in Central Time using Intl.DateTimeFormat
-    const centralFormatter = new Intl.DateTimeFormat('en-CA', {
-      timeZone: 'America/Chicago',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit'
-    })
-
-    const centralDate = centralFormatter.format(now) // Returns YYYY-MM-DD in Central Time
-
-    // Add one day to get tomorrow in Central Time
-    const centralToday = new Date(centralDate + 'T00:00:00')
-    const centralTomorrow = new Date(centralToday)
-    centralTomorrow.setDate(centralToday.getDate() + 1)
-
-    const campaignDate = centralTomorrow.toISOString().split('T')[0]
-
-    console.log('Processing RSS for tomorrow\'s campaign date:', campaignDate)
-    console.log('Debug: UTC now:', now.toISOString())
-    console.log('Debug: Central date today:', centralDate)
-    console.log('Debug: Central tomorrow:', campaignDate)
-
-    // STEP 1: Create new campaign for tomorrow (allow duplicate dates)
-    console.log('Creating new campaign for tomorrow...')
-
-    // Always create a new campaign (duplicate dates are now allowed)
-    const { data: newCampaign, error: campaignError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .insert([{
-        date: campaignDate,
-        subject_line: '', // Will be generated later
-        status: 'draft',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      }])
-      .select('id')
-      .single()
-
-    if (campaignError || !newCampaign) {
-      throw new Error(`Failed to create campaign: ${campaignError?.message}`)
-    }
+    // The scheduled run knows which issue it produces (normally tomorrow's, in Central Time)
+    const campaignDate = run.issueDate
 
-    const campaignId = newCampaign.id
-    console.log('Created new campaign:', campaignId, 'for date:', campaignDate)
+    console.log('Processing RSS for campaign date:', campaignDate, run.editionName ? `(${run.editionName})` : '')
+    console.log('Debug: scheduled run at:', run.runAt)
 
-    // Process RSS feeds for the specific campaign
-    console.log('Starting RSS processing...')
-    const rssProcessor = new RSSProcessor()
-    await rssProcessor.processAllFeedsForCampaign(campaignId)
-
-    console.log('=== RSS PROCESSING COMPLETED ===')
-    console.log('Subject line generation now happens during RSS processing')
-
-    return NextResponse.json({
-      success: true,
-      message: 'RSS processing and subject line generation completed successfully for tomorrow\'s campaign',
-      campaignId: campaignId,
-      campaignDate: campaignDate,
-      note: 'Campaign created for next day delivery with AI subject line',
-      timestamp: new Date().toISOString()
-    })
+    const response = await startPipelines(run)
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
+    }
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('=== RSS PROCESSING FAILED ===')
     console.error('Error:', error)
 
@@ -226,5 +210,9 @@ export async function GET(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
\ No newline at end of file
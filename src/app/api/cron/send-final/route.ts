@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { MailerLiteService } from '@/lib/mailerlite'
-import { ScheduleChecker } from '@/lib/schedule-checker'
+import { ScheduleChecker, type DueRun } from '@/lib/schedule-checker'
 import { SlackNotificationService } from '@/lib/slack'
+import { getActivePublications, getPublicationGroupId } from '@/lib/publications'
+import type { Publication } from '@/types/database'
 
 // Helper function to log article positions at final send
 async function logFinalArticlePositions(campaign: any) {
@@ -55,6 +57,150 @@ async function logFinalArticlePositions(campaign: any) {
   console.log('=== FINAL ARTICLE POSITION LOGGING COMPLETE ===')
 }
 
+/**
+ * Send one publication's reviewed campaign for the issue to its main group.
+ * The campaign is exposed on attempt so a failure alert can name it.
+ */
+async function sendFinal(publication: Publication, issueDate: string, attempt: { campaign: any }) {
+  const { data: campaign, error } = await supabaseAdmin
+    .from('newsletter_campaigns')
+    .select(`
+      *,
+      articles:articles(
+        *,
+        rss_post:rss_posts(
+          *,
+          rss_feed:rss_feeds(*)
+        )
+      ),
+      manual_articles:manual_articles(*)
+    `)
+    .eq('publication_id', publication.id)
+    .eq('date', issueDate)
+    .in('status', ['in_review', 'changes_made'])
+    .single()
+
+  attempt.campaign = campaign
+
+  if (error || !campaign) {
+    console.log(`No ${publication.slug} campaign ready to send for today`)
+    return {
+      publication: publication.slug,
+      success: true,
+      message: 'No campaign ready to send for today'
+    }
+  }
+
+  // Check if we have any active articles
+  const activeArticles = campaign.articles.filter((article: any) => article.is_active)
+  if (activeArticles.length === 0) {
+    console.log('Campaign has no active articles, skipping send')
+    return {
+      publication: publication.slug,
+      success: true,
+      message: 'Campaign has no active articles, skipping send',
+      campaignId: campaign.id
+    }
+  }
+
+  // Send the final campaign
+  const mailerLiteService = new MailerLiteService()
+
+  const mainGroupId = await getPublicationGroupId(publication, 'main')
+
+  if (!mainGroupId) {
+    throw new Error(`Main group ID not configured for ${publication.name}`)
+  }
+
+  console.log(`Using main group ID for ${publication.slug}:`, mainGroupId)
+
+  // Log article positions at final send
+  await logFinalArticlePositions(campaign)
+
+  const result = await mailerLiteService.createFinalCampaign(campaign, mainGroupId, `final_send:${campaign.id}`)
+
+  // Update campaign status to sent and capture the previous status
+  const { error: updateError } = await supabaseAdmin
+    .from('newsletter_campaigns')
+    .update({
+      status: 'sent',
+      status_before_send: campaign.status, // Capture the status before sending
+      final_sent_at: new Date().toISOString(),
+      metrics: {
+        ...campaign.metrics,
+        mailerlite_campaign_id: result.campaignId,
+        sent_timestamp: new Date().toISOString()
+      }
+    })
+    .eq('id', campaign.id)
+
+  if (updateError) {
+    console.error('Failed to update campaign status to sent:', updateError)
+    // Don't fail the entire operation - the email was sent successfully
+  } else {
+    console.log('Campaign status updated to sent')
+  }
+
+  return {
+    publication: publication.slug,
+    success: true,
+    message: 'Final newsletter sent successfully',
+    campaignId: campaign.id,
+    mailerliteCampaignId: result.campaignId
+  }
+}
+
+/**
+ * Send every active publication's final campaign. A failed publication gets its own
+ * Slack alert and doesn't stop the others.
+ */
+async function sendFinals(issueDate: string, operation: string) {
+  const publications = await getActivePublications()
+  const results = []
+
+  for (const publication of publications) {
+    const attempt: { campaign: any } = { campaign: null }
+
+    try {
+      results.push(await sendFinal(publication, issueDate, attempt))
+    } catch (error) {
+      console.error(`Scheduled final send failed for ${publication.slug}:`, error)
+      results.push({
+        publication: publication.slug,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        campaignId: attempt.campaign?.id
+      })
+
+      try {
+        const slack = new SlackNotificationService()
+        const currentCentralTime = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
+
+        await slack.sendScheduledSendFailureAlert(
+          attempt.campaign?.id || 'Unknown',
+          currentCentralTime,
+          error instanceof Error ? error.message : 'Unknown error',
+          {
+            operation,
+            publication: publication.slug,
+            timestamp: new Date().toISOString(),
+            attempted_campaign_status: attempt.campaign?.status || 'Unknown'
+          }
+        )
+      } catch (slackError) {
+        console.error('Failed to send Slack notification for send failure:', slackError)
+      }
+    }
+  }
+
+  return NextResponse.json({
+    success: results.every(result => result.success),
+    issueDate,
+    results,
+    timestamp: new Date().toISOString()
+  }, { status: results.some(result => result.success) || results.length === 0 ? 200 : 500 })
+}
+
 export async function POST(request: NextRequest) {
   // Verify cron secret for security
   const authHeader = request.headers.get('Authorization')
@@ -62,16 +208,17 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  let campaign: any = null
+  let run: DueRun | null = null
+  let failure: string | null = null
 
   try {
     console.log('=== AUTOMATED FINAL SEND CHECK ===')
     console.log('Time:', new Date().toISOString())
 
     // Check if it's time to run final send based on database settings
-    const shouldRun = await ScheduleChecker.shouldRunFinalSend()
+    run = await ScheduleChecker.shouldRunFinalSend()
 
-    if (!shouldRun) {
+    if (!run) {
       // Check if there's a campaign that's ready to send but missed its window
       const { data: readyCampaigns } = await supabaseAdmin
         .from('newsletter_campaigns')
@@ -85,7 +232,7 @@ export async function POST(request: NextRequest) {
         const slack = new SlackNotificationService()
 
         await slack.sendAlert(
-          `⏰ Scheduled Send Check: Found ${readyCampaigns.length} campaigns with 'ready_to_send' status but shouldRun returned false. This may indicate a timing configuration issue.`,
+          `⏰ Scheduled Send Check: Found ${readyCampaigns.length} campaigns with 'ready_to_send' status but no final send is due. This may indicate a timing configuration issue.`,
           'warn',
           'scheduled_send_timing'
         )
@@ -93,7 +240,7 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json({
         success: true,
-        message: 'Not time to run final send or already ran today',
+        message: 'Not time to run final send or already ran',
         skipped: true,
         timestamp: new Date().toISOString()
       })
@@ -102,102 +249,15 @@ export async function POST(request: NextRequest) {
     console.log('=== FINAL SEND STARTED (Time Matched) ===')
     console.log('Central Time:', new Date().toLocaleString("en-US", {timeZone: "America/Chicago"}))
 
-    // Get today's campaign that's ready to send (use Central Time for consistency)
-    const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-    const centralDate = new Date(nowCentral)
-    const today = centralDate.toISOString().split('T')[0]
-
-    const { data, error } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .select(`
-        *,
-        articles:articles(
-          *,
-          rss_post:rss_posts(
-            *,
-            rss_feed:rss_feeds(*)
-          )
-        ),
-        manual_articles:manual_articles(*)
-      `)
-      .eq('date', today)
-      .in('status', ['in_review', 'changes_made'])
-      .single()
-
-    campaign = data
-
-    if (error || !campaign) {
-      console.log('No campaign ready to send for today')
-      return NextResponse.json({
-        message: 'No campaign ready to send for today',
-        timestamp: new Date().toISOString()
-      })
+    // The issue's campaigns that are ready to send (today's, unless the send was rescheduled)
+    const response = await sendFinals(run.issueDate, 'final_send_post')
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
     }
-
-    // Check if we have any active articles
-    const activeArticles = campaign.articles.filter((article: any) => article.is_active)
-    if (activeArticles.length === 0) {
-      console.log('Campaign has no active articles, skipping send')
-      return NextResponse.json({
-        message: 'Campaign has no active articles, skipping send',
-        timestamp: new Date().toISOString()
-      })
-    }
-
-    // Send the final campaign
-    const mailerLiteService = new MailerLiteService()
-
-    // Get main group ID from settings
-    const { data: mainGroupSetting } = await supabaseAdmin
-      .from('app_settings')
-      .select('value')
-      .eq('key', 'email_mainGroupId')
-      .single()
-
-    const mainGroupId = mainGroupSetting?.value
-
-    if (!mainGroupId) {
-      throw new Error('Main group ID not configured in settings')
-    }
-
-    console.log('Using main group ID from settings:', mainGroupId)
-
-    // Log article positions at final send
-    await logFinalArticlePositions(campaign)
-
-    const result = await mailerLiteService.createFinalCampaign(campaign, mainGroupId)
-
-    // Update campaign status to sent and capture the previous status
-    const { error: updateError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .update({
-        status: 'sent',
-        status_before_send: campaign.status, // Capture the status before sending
-        final_sent_at: new Date().toISOString(),
-        metrics: {
-          ...campaign.metrics,
-          mailerlite_campaign_id: result.campaignId,
-          sent_timestamp: new Date().toISOString()
-        }
-      })
-      .eq('id', campaign.id)
-
-    if (updateError) {
-      console.error('Failed to update campaign status to sent:', updateError)
-      // Don't fail the entire operation - the email was sent successfully
-    } else {
-      console.log('Campaign status updated to sent')
-    }
-
-    return NextResponse.json({
-      success: true,
-      message: 'Final newsletter sent successfully',
-      campaignId: campaign.id,
-      mailerliteCampaignId: result.campaignId,
-      timestamp: new Date().toISOString()
-    })
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('Scheduled final newsletter send failed:', error)
 
     // Send Slack notification for scheduled send failure
@@ -206,13 +266,13 @@ export async function POST(request: NextRequest) {
       const currentCentralTime = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
 
       await slack.sendScheduledSendFailureAlert(
-        campaign?.id || 'Unknown',
+        'Unknown',
         currentCentralTime,
         error instanceof Error ? error.message : 'Unknown error',
         {
           operation: 'final_send_post',
           timestamp: new Date().toISOString(),
-          attempted_campaign_status: campaign?.status || 'Unknown'
+          attempted_campaign_status: 'Unknown'
         }
       )
     } catch (slackError) {
@@ -224,12 +284,17 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
 
 // Handle GET requests from Vercel cron (no auth header, uses URL secret)
 export async function GET(request: NextRequest) {
-  let campaign: any = null
+  let run: DueRun | null = null
+  let failure: string | null = null
 
   try {
     // For Vercel cron: check secret in URL params, for manual: require secret param
@@ -249,9 +314,9 @@ export async function GET(request: NextRequest) {
     console.log('Request type:', isVercelCron ? 'Vercel Cron' : 'Manual Test')
 
     // Check if it's time to run final send based on database settings
-    const shouldRun = await ScheduleChecker.shouldRunFinalSend()
+    run = await ScheduleChecker.shouldRunFinalSend()
 
-    if (!shouldRun) {
+    if (!run) {
       // Check if there's a campaign that's ready to send but missed its window
       const { data: readyCampaigns } = await supabaseAdmin
         .from('newsletter_campaigns')
@@ -265,7 +330,7 @@ export async function GET(request: NextRequest) {
         const slack = new SlackNotificationService()
 
         await slack.sendAlert(
-          `⏰ Scheduled Send Check: Found ${readyCampaigns.length} campaigns with 'ready_to_send' status but shouldRun returned false. This may indicate a timing configuration issue.`,
+          `⏰ Scheduled Send Check: Found ${readyCampaigns.length} campaigns with 'ready_to_send' status but no final send is due. This may indicate a timing configuration issue.`,
           'warn',
           'scheduled_send_timing'
         )
@@ -273,7 +338,7 @@ export async function GET(request: NextRequest) {
 
       return NextResponse.json({
         success: true,
-        message: 'Not time to run final send or already ran today',
+        message: 'Not time to run final send or already ran',
         skipped: true,
         timestamp: new Date().toISOString()
       })
@@ -282,102 +347,15 @@ export async function GET(request: NextRequest) {
     console.log('=== FINAL SEND STARTED (Time Matched) ===')
     console.log('Central Time:', new Date().toLocaleString("en-US", {timeZone: "America/Chicago"}))
 
-    // Get today's campaign that's ready to send (use Central Time for consistency)
-    const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-    const centralDate = new Date(nowCentral)
-    const today = centralDate.toISOString().split('T')[0]
-
-    const { data, error } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .select(`
-        *,
-        articles:articles(
-          *,
-          rss_post:rss_posts(
-            *,
-            rss_feed:rss_feeds(*)
-          )
-        ),
-        manual_articles:manual_articles(*)
-      `)
-      .eq('date', today)
-      .in('status', ['in_review', 'changes_made'])
-      .single()
-
-    campaign = data
-
-    if (error || !campaign) {
-      console.log('No campaign ready to send for today')
-      return NextResponse.json({
-        message: 'No campaign ready to send for today',
-        timestamp: new Date().toISOString()
-      })
-    }
-
-    // Check if we have any active articles
-    const activeArticles = campaign.articles.filter((article: any) => article.is_active)
-    if (activeArticles.length === 0) {
-      console.log('Campaign has no active articles, skipping send')
-      return NextResponse.json({
-        message: 'Campaign has no active articles, skipping send',
-        timestamp: new Date().toISOString()
-      })
-    }
-
-    // Send the final campaign
-    const mailerLiteService = new MailerLiteService()
-
-    // Get main group ID from settings
-    const { data: mainGroupSetting } = await supabaseAdmin
-      .from('app_settings')
-      .select('value')
-      .eq('key', 'email_mainGroupId')
-      .single()
-
-    const mainGroupId = mainGroupSetting?.value
-
-    if (!mainGroupId) {
-      throw new Error('Main group ID not configured in settings')
-    }
-
-    console.log('Using main group ID from settings:', mainGroupId)
-
-    // Log article positions at final send
-    await logFinalArticlePositions(campaign)
-
-    const result = await mailerLiteService.createFinalCampaign(campaign, mainGroupId)
-
-    // Update campaign status to sent and capture the previous status
-    const { error: updateError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .update({
-        status: 'sent',
-        status_before_send: campaign.status, // Capture the status before sending
-        final_sent_at: new Date().toISOString(),
-        metrics: {
-          ...campaign.metrics,
-          mailerlite_campaign_id: result.campaignId,
-          sent_timestamp: new Date().toISOString()
-        }
-      })
-      .eq('id', campaign.id)
-
-    if (updateError) {
-      console.error('Failed to update campaign status to sent:', updateError)
-      // Don't fail the entire operation - the email was sent successfully
-    } else {
-      console.log('Campaign status updated to sent')
+    // The issue's campaigns that are ready to send (today's, unless the send was rescheduled)
+    const response = await sendFinals(run.issueDate, 'final_send_get')
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
     }
-
-    return NextResponse.json({
-      success: true,
-      message: 'Final newsletter sent successfully',
-      campaignId: campaign.id,
-      mailerliteCampaignId: result.campaignId,
-      timestamp: new Date().toISOString()
-    })
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('Scheduled final newsletter send failed:', error)
 
     // Send Slack notification for scheduled send failure
@@ -386,13 +364,13 @@ export async function GET(request: NextRequest) {
       const currentCentralTime = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
 
       await slack.sendScheduledSendFailureAlert(
-        campaign?.id || 'Unknown',
+        'Unknown',
         currentCentralTime,
         error instanceof Error ? error.message : 'Unknown error',
         {
           operation: 'final_send_get',
           timestamp: new Date().toISOString(),
-          attempted_campaign_status: campaign?.status || 'Unknown'
+          attempted_campaign_status: 'Unknown'
         }
       )
     } catch (slackError) {
@@ -404,5 +382,9 @@ export async function GET(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
\ No newline at end of file
@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { MailerLiteService } from '@/lib/mailerlite'
+import { getPublicationGroupId, resolvePublication } from '@/lib/publications'
+import { addDays, getCentralDate } from '@/lib/newsletter-calendar'
 
 export async function POST(request: NextRequest) {
+  let publicationId: string | null = null
+  // Tomorrow's campaign (review should have been scheduled by create-campaign cron)
+  const campaignDate = addDays(getCentralDate(), 1)
+
   try {
     // Verify this is a legitimate cron request
     const authHeader = request.headers.get('authorization')
@@ -13,12 +19,11 @@ export async function POST(request: NextRequest) {
     console.log('=== AUTOMATED FINAL NEWSLETTER SEND STARTED ===')
     console.log('Time:', new Date().toISOString())
 
-    // Get tomorrow's campaign (review should have been scheduled by create-campaign cron)
-    const tomorrow = new Date()
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const campaignDate = tomorrow.toISOString().split('T')[0]
+    // Manual sends target one publication (the default unless ?publication=)
+    const publication = await resolvePublication(new URL(request.url).searchParams.get('publication'))
+    publicationId = publication.id
 
-    console.log('Sending final newsletter for tomorrow\'s campaign date:', campaignDate)
+    console.log(`Sending final ${publication.slug} newsletter for tomorrow\'s campaign date:`, campaignDate)
 
     // Find tomorrow's campaign with articles
     const { data: campaign, error: campaignError } = await supabaseAdmin
@@ -34,6 +39,7 @@ export async function POST(request: NextRequest) {
         ),
         manual_articles:manual_articles(*)
       `)
+      .eq('publication_id', publication.id)
       .eq('date', campaignDate)
       .single()
 
@@ -94,21 +100,15 @@ export async function POST(request: NextRequest) {
     // Send final newsletter via MailerLite
     const mailerLiteService = new MailerLiteService()
 
-    // Get main group ID from settings
-    const { data: settingsRows } = await supabaseAdmin
-      .from('app_settings')
-      .select('key, value')
-      .eq('key', 'email_mainGroupId')
-      .single()
-
-    const mainGroupId = settingsRows?.value || process.env.MAILERLITE_MAIN_GROUP_ID
+    // Get main group ID from the publication, settings or environment
+    const mainGroupId = await getPublicationGroupId(publication, 'main')
 
     if (!mainGroupId) {
       throw new Error('Main group ID not found in settings or environment')
     }
 
     // Create final campaign for main audience
-    const result = await mailerLiteService.createFinalCampaign(campaign, mainGroupId)
+    const result = await mailerLiteService.createFinalCampaign(campaign, mainGroupId, `final_send:${campaign.id}`)
 
     console.log('MailerLite final campaign created:', result.campaignId)
 
@@ -151,14 +151,14 @@ export async function POST(request: NextRequest) {
     console.error('Error:', error)
 
     // Update campaign status to failed if we can identify the campaign
-    const today = new Date()
-    const campaignDate = today.toISOString().split('T')[0]
-
     try {
-      await supabaseAdmin
-        .from('newsletter_campaigns')
-        .update({ status: 'failed' })
-        .eq('date', campaignDate)
+      if (publicationId) {
+        await supabaseAdmin
+          .from('newsletter_campaigns')
+          .update({ status: 'failed' })
+          .eq('publication_id', publicationId)
+          .eq('date', campaignDate)
+      }
     } catch (updateError) {
       console.error('Failed to update campaign status to failed:', updateError)
     }
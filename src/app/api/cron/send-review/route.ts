@@ -1,9 +1,135 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { MailerLiteService } from '@/lib/mailerlite'
-import { ScheduleChecker } from '@/lib/schedule-checker'
+import { ScheduleChecker, type DueRun } from '@/lib/schedule-checker'
+import { getActivePublications } from '@/lib/publications'
+import type { Publication } from '@/types/database'
+
+/**
+ * Send one publication's draft campaign for the issue to its review group
+ */
+async function sendReview(publication: Publication, campaignDate: string) {
+  console.log(`Sending review for ${publication.slug} campaign date:`, campaignDate)
+
+  // Find the issue's campaign with articles
+  const { data: campaign, error: campaignError } = await supabaseAdmin
+    .from('newsletter_campaigns')
+    .select(`
+      *,
+      articles:articles(
+        *,
+        rss_post:rss_posts(
+          *,
+          rss_feed:rss_feeds(*)
+        )
+      ),
+      manual_articles:manual_articles(*)
+    `)
+    .eq('publication_id', publication.id)
+    .eq('date', campaignDate)
+    .eq('status', 'draft')
+    .single()
+
+  if (campaignError || !campaign) {
+    return {
+      publication: publication.slug,
+      success: false,
+      error: 'No draft campaign found for this issue'
+    }
+  }
+
+  console.log('Found campaign:', campaign.id, 'Status:', campaign.status)
+
+  // Check if campaign has active articles
+  const activeArticles = campaign.articles.filter((article: any) => article.is_active)
+  if (activeArticles.length === 0) {
+    return {
+      publication: publication.slug,
+      success: false,
+      error: 'No active articles found for review sending',
+      campaignId: campaign.id
+    }
+  }
+
+  console.log(`Campaign has ${activeArticles.length} active articles`)
+
+  // Check if subject line exists
+  if (!campaign.subject_line || campaign.subject_line.trim() === '') {
+    return {
+      publication: publication.slug,
+      success: false,
+      error: 'No subject line found for campaign. Run subject line generation first.',
+      campaignId: campaign.id
+    }
+  }
+
+  console.log('Using subject line:', campaign.subject_line)
+
+  // Create MailerLite review campaign
+  const mailerLiteService = new MailerLiteService()
+  const result = await mailerLiteService.createReviewCampaign(campaign, undefined, `review_send:${campaign.id}`)
+
+  console.log('MailerLite campaign created:', result.campaignId)
+
+  // Update campaign status to in_review
+  const { error: updateError } = await supabaseAdmin
+    .from('newsletter_campaigns')
+    .update({
+      status: 'in_review',
+      review_sent_at: new Date().toISOString()
+    })
+    .eq('id', campaign.id)
+
+  if (updateError) {
+    console.error('Failed to update campaign status:', updateError)
+    // Continue anyway since MailerLite campaign was created
+  }
+
+  return {
+    publication: publication.slug,
+    success: true,
+    message: 'Review campaign sent to MailerLite successfully',
+    campaignId: campaign.id,
+    mailerliteCampaignId: result.campaignId,
+    subjectLine: campaign.subject_line,
+    activeArticlesCount: activeArticles.length
+  }
+}
+
+/**
+ * Send every active publication's review. One publication's failure doesn't stop the others.
+ */
+async function sendReviews(campaignDate: string) {
+  const publications = await getActivePublications()
+  const results = []
+
+  for (const publication of publications) {
+    try {
+      results.push(await sendReview(publication, campaignDate))
+    } catch (error) {
+      console.error(`Review send failed for ${publication.slug}:`, error)
+      results.push({
+        publication: publication.slug,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  console.log('=== REVIEW SEND COMPLETED ===')
+
+  return NextResponse.json({
+    success: results.every(result => result.success),
+    campaignDate,
+    results,
+    timestamp: new Date().toISOString()
+  }, { status: results.some(result => result.success) || results.length === 0 ? 200 : 500 })
+}
 
 export async function POST(request: NextRequest) {
+  let run: DueRun | null = null
+  let failure: string | null = null
+
   try {
     // Verify this is a legitimate cron request
     const authHeader = request.headers.get('authorization')
@@ -15,12 +141,12 @@ export async function POST(request: NextRequest) {
     console.log('Time:', new Date().toISOString())
 
     // Check if it's time to run review sending based on database settings
-    const shouldRun = await ScheduleChecker.shouldRunReviewSend()
+    run = await ScheduleChecker.shouldRunReviewSend()
 
-    if (!shouldRun) {
+    if (!run) {
       return NextResponse.json({
         success: true,
-        message: 'Not time to run review send or already ran today',
+        message: 'Not time to run review send or already ran',
         skipped: true,
         timestamp: new Date().toISOString()
       })
@@ -29,101 +155,15 @@ export async function POST(request: NextRequest) {
     console.log('=== REVIEW SEND STARTED (Time Matched) ===')
     console.log('Central Time:', new Date().toLocaleString("en-US", {timeZone: "America/Chicago"}))
 
-    // Get tomorrow's campaign that's in draft status and ready for review
-    // Use Central Time for consistent date calculations
-    const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-    const centralDate = new Date(nowCentral)
-    const tomorrow = new Date(centralDate)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const campaignDate = tomorrow.toISOString().split('T')[0]
-
-    console.log('Sending review for tomorrow\'s campaign date:', campaignDate)
-
-    // Find tomorrow's campaign with articles
-    const { data: campaign, error: campaignError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .select(`
-        *,
-        articles:articles(
-          *,
-          rss_post:rss_posts(
-            *,
-            rss_feed:rss_feeds(*)
-          )
-        ),
-        manual_articles:manual_articles(*)
-      `)
-      .eq('date', campaignDate)
-      .eq('status', 'draft')
-      .single()
-
-    if (campaignError || !campaign) {
-      return NextResponse.json({
-        success: false,
-        error: 'No draft campaign found for tomorrow',
-        campaignDate: campaignDate
-      }, { status: 404 })
+    // The issue's campaigns that are in draft status and ready for review
+    const response = await sendReviews(run.issueDate)
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
     }
-
-    console.log('Found campaign:', campaign.id, 'Status:', campaign.status)
-
-    // Check if campaign has active articles
-    const activeArticles = campaign.articles.filter((article: any) => article.is_active)
-    if (activeArticles.length === 0) {
-      return NextResponse.json({
-        success: false,
-        error: 'No active articles found for review sending',
-        campaignId: campaign.id
-      }, { status: 400 })
-    }
-
-    console.log(`Campaign has ${activeArticles.length} active articles`)
-
-    // Check if subject line exists
-    if (!campaign.subject_line || campaign.subject_line.trim() === '') {
-      return NextResponse.json({
-        success: false,
-        error: 'No subject line found for campaign. Run subject line generation first.',
-        campaignId: campaign.id
-      }, { status: 400 })
-    }
-
-    console.log('Using subject line:', campaign.subject_line)
-
-    // Create MailerLite review campaign
-    const mailerLiteService = new MailerLiteService()
-    const result = await mailerLiteService.createReviewCampaign(campaign)
-
-    console.log('MailerLite campaign created:', result.campaignId)
-
-    // Update campaign status to in_review
-    const { error: updateError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .update({
-        status: 'in_review',
-        review_sent_at: new Date().toISOString()
-      })
-      .eq('id', campaign.id)
-
-    if (updateError) {
-      console.error('Failed to update campaign status:', updateError)
-      // Continue anyway since MailerLite campaign was created
-    }
-
-    console.log('=== REVIEW SEND COMPLETED ===')
-
-    return NextResponse.json({
-      success: true,
-      message: 'Review campaign sent to MailerLite successfully',
-      campaignId: campaign.id,
-      campaignDate: campaignDate,
-      mailerliteCampaignId: result.campaignId,
-      subjectLine: campaign.subject_line,
-      activeArticlesCount: activeArticles.length,
-      timestamp: new Date().toISOString()
-    })
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('=== REVIEW SEND FAILED ===')
     console.error('Error:', error)
 
@@ -133,11 +173,18 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
 
 // Handle GET requests from Vercel cron (no auth header, uses URL secret)
 export async function GET(request: NextRequest) {
+  let run: DueRun | null = null
+  let failure: string | null = null
+
   try {
     // For Vercel cron: check secret in URL params, for manual: require secret param
     const searchParams = new URL(request.url).searchParams
@@ -156,12 +203,12 @@ export async function GET(request: NextRequest) {
     console.log('Request type:', isVercelCron ? 'Vercel Cron' : 'Manual Test')
 
     // Check if it's time to run review sending based on database settings
-    const shouldRun = await ScheduleChecker.shouldRunReviewSend()
+    run = await ScheduleChecker.shouldRunReviewSend()
 
-    if (!shouldRun) {
+    if (!run) {
       return NextResponse.json({
         success: true,
-        message: 'Not time to run review send or already ran today',
+        message: 'Not time to run review send or already ran',
         skipped: true,
         timestamp: new Date().toISOString()
       })
@@ -170,101 +217,15 @@ export async function GET(request: NextRequest) {
     console.log('=== REVIEW SEND STARTED (Time Matched) ===')
     console.log('Central Time:', new Date().toLocaleString("en-US", {timeZone: "America/Chicago"}))
 
-    // Get tomorrow's campaign that's in draft status and ready for review
-    // Use Central Time for consistent date calculations
-    const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-    const centralDate = new Date(nowCentral)
-    const tomorrow = new Date(centralDate)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const campaignDate = tomorrow.toISOString().split('T')[0]
-
-    console.log('Sending review for tomorrow\'s campaign date:', campaignDate)
-
-    // Find tomorrow's campaign with articles
-    const { data: campaign, error: campaignError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .select(`
-        *,
-        articles:articles(
-          *,
-          rss_post:rss_posts(
-            *,
-            rss_feed:rss_feeds(*)
-          )
-        ),
-        manual_articles:manual_articles(*)
-      `)
-      .eq('date', campaignDate)
-      .eq('status', 'draft')
-      .single()
-
-    if (campaignError || !campaign) {
-      return NextResponse.json({
-        success: false,
-        error: 'No draft campaign found for tomorrow',
-        campaignDate: campaignDate
-      }, { status: 404 })
-    }
-
-    console.log('Found campaign:', campaign.id, 'Status:', campaign.status)
-
-    // Check if campaign has active articles
-    const activeArticles = campaign.articles.filter((article: any) => article.is_active)
-    if (activeArticles.length === 0) {
-      return NextResponse.json({
-        success: false,
-        error: 'No active articles found for review sending',
-        campaignId: campaign.id
-      }, { status: 400 })
-    }
-
-    console.log(`Campaign has ${activeArticles.length} active articles`)
-
-    // Check if subject line exists
-    if (!campaign.subject_line || campaign.subject_line.trim() === '') {
-      return NextResponse.json({
-        success: false,
-        error: 'No subject line found for campaign. Run subject line generation first.',
-        campaignId: campaign.id
-      }, { status: 400 })
+    // The issue's campaigns that are in draft status and ready for review
+    const response = await sendReviews(run.issueDate)
+    if (!response.ok) {
+      failure = `Finished with status ${response.status}`
     }
-
-    console.log('Using subject line:', campaign.subject_line)
-
-    // Create MailerLite review campaign
-    const mailerLiteService = new MailerLiteService()
-    const result = await mailerLiteService.createReviewCampaign(campaign)
-
-    console.log('MailerLite campaign created:', result.campaignId)
-
-    // Update campaign status to in_review
-    const { error: updateError } = await supabaseAdmin
-      .from('newsletter_campaigns')
-      .update({
-        status: 'in_review',
-        review_sent_at: new Date().toISOString()
-      })
-      .eq('id', campaign.id)
-
-    if (updateError) {
-      console.error('Failed to update campaign status:', updateError)
-      // Continue anyway since MailerLite campaign was created
-    }
-
-    console.log('=== REVIEW SEND COMPLETED ===')
-
-    return NextResponse.json({
-      success: true,
-      message: 'Review campaign sent to MailerLite successfully',
-      campaignId: campaign.id,
-      campaignDate: campaignDate,
-      mailerliteCampaignId: result.campaignId,
-      subjectLine: campaign.subject_line,
-      activeArticlesCount: activeArticles.length,
-      timestamp: new Date().toISOString()
-    })
+    return response
 
   } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error'
     console.error('=== REVIEW SEND FAILED ===')
     console.error('Error:', error)
 
@@ -274,5 +235,9 @@ export async function GET(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
+  } finally {
+    if (run) {
+      await ScheduleChecker.completeRun(run, failure)
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRetentionPolicies } from '@/lib/asset-storage'
+
+/**
+ * Storage Retention Cron Job
+ *
+ * Runs daily to delete stored assets older than their asset class's retention
+ * period (weather images after 30 days by default; see storage_retention_days_* in app_settings).
+ *
+ * Scheduled to run daily at 3:00 AM CT via Vercel cron
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+
+  // Verify cron secret for manual testing
+  // Vercel cron requests come without auth header
+  if (authHeader) {
+    const token = authHeader.replace('Bearer ', '')
+    if (token !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  try {
+    console.log('[Storage Retention] Applying retention policies')
+
+    const results = await applyRetentionPolicies()
+    const deletedCount = Object.values(results).reduce((sum, r) => sum + r.expired, 0)
+
+    console.log(`[Storage Retention] Deleted ${deletedCount} expired asset(s)`)
+
+    return NextResponse.json({
+      success: true,
+      deleted_count: deletedCount,
+      results
+    })
+
+  } catch (error) {
+    console.error('[Storage Retention] Retention failed:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Retention failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MailerLiteService } from '@/lib/mailerlite'
+import { getActivePublications, getPublicationGroupId } from '@/lib/publications'
+
+// Leave headroom under the function's maxDuration for the response
+const TIME_BUDGET_MS = 240000
+
+/**
+ * Preferences Token Sync Cron Job
+ *
+ * Writes the signed preferences token into each main-group subscriber's MailerLite field so the
+ * footer "Manage preferences" link works. Runs separately from the final send so a large list
+ * never holds up an issue; whatever doesn't fit in one run's time budget is picked up by the next.
+ *
+ * Scheduled to run hourly via Vercel cron
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+
+  // Verify cron secret for manual testing
+  // Vercel cron requests come without auth header
+  if (authHeader) {
+    const token = authHeader.replace('Bearer ', '')
+    if (token !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  try {
+    const deadline = Date.now() + TIME_BUDGET_MS
+    const mailerLiteService = new MailerLiteService()
+    const publications = await getActivePublications()
+    const results = []
+    const failures = []
+
+    for (const publication of publications) {
+      const groupId = await getPublicationGroupId(publication, 'main')
+      if (!groupId) continue
+
+      try {
+        const result = await mailerLiteService.syncPreferenceTokens(groupId, deadline)
+        console.log(`[Preferences Tokens] ${publication.slug}: ${result.updated} updated${result.complete ? '' : ' (out of time, continuing next run)'}`)
+        results.push({ publication: publication.slug, ...result })
+      } catch (error) {
+        console.error(`[Preferences Tokens] Failed for ${publication.slug}:`, error)
+        failures.push({ publication: publication.slug, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    return NextResponse.json({
+      success: failures.length === 0,
+      results,
+      failures
+    }, { status: failures.length > 0 && results.length === 0 ? 500 : 200 })
+
+  } catch (error) {
+    console.error('[Preferences Tokens] Failed:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Preferences token sync failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
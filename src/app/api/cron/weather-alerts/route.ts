@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { syncWeatherAlerts } from '@/lib/weather-alerts'
+import { getActivePublications } from '@/lib/publications'
+
+/**
+ * Weather Alerts Cron Job
+ *
+ * Syncs the NWS active-alerts feed for each active publication's county and forecast zones into
+ * weather_alerts. Watches and warnings in that table get the severe-weather banner
+ * at the top of the newsletter, so this runs often enough to catch alerts issued
+ * shortly before the final send.
+ *
+ * Scheduled to run every 15 minutes via Vercel cron
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+
+  // Verify cron secret for manual testing
+  // Vercel cron requests come without auth header
+  if (authHeader) {
+    const token = authHeader.replace('Bearer ', '')
+    if (token !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  try {
+    const publications = await getActivePublications()
+    const results = []
+    const failures = []
+
+    // Sequential to stay well inside the NWS rate limits; one publication's failure doesn't stop the rest
+    for (const publication of publications) {
+      try {
+        results.push(await syncWeatherAlerts(publication))
+      } catch (error) {
+        console.error(`[Weather Alerts] Sync failed for ${publication.slug}:`, error)
+        failures.push({ publication: publication.slug, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    return NextResponse.json({
+      success: failures.length === 0,
+      results,
+      failures
+    }, { status: failures.length > 0 && results.length === 0 ? 500 : 200 })
+
+  } catch (error) {
+    console.error('[Weather Alerts] Sync failed:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Weather alert sync failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
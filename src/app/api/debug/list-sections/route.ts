@@ -1,25 +0,0 @@
-import { NextResponse } from 'next/server'
-import { supabaseAdmin } from '@/lib/supabase'
-
-export async function GET() {
-  try {
-    const { data: sections, error } = await supabaseAdmin
-      .from('newsletter_sections')
-      .select('*')
-      .order('display_order', { ascending: true })
-
-    if (error) {
-      throw error
-    }
-
-    return NextResponse.json({
-      sections: sections || [],
-      total: sections?.length || 0
-    })
-  } catch (error) {
-    console.error('List sections error:', error)
-    return NextResponse.json({
-      error: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 })
-  }
-}
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { PricingError, buildStripeLineItems, formatCents, quoteEventPromotions, toEventPromotionRequests, withPricedPlacement } from '@/lib/pricing'
+import { saveUnpaidEventSubmissions } from '@/lib/event-submissions'
 
 export async function POST(request: NextRequest) {
   try {
-    const { events, total } = await request.json()
+    const { events, discount_code, nonprofit_ein } = await request.json()
 
     if (!events || !Array.isArray(events) || events.length === 0) {
       return NextResponse.json({
@@ -11,21 +13,6 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    if (!total || total <= 0) {
-      return NextResponse.json({
-        error: 'Invalid total amount'
-      }, { status: 400 })
-    }
-
-    const stripeSecretKey = process.env.STRIPE_SECRET_KEY
-
-    if (!stripeSecretKey) {
-      console.error('Stripe secret key not configured')
-      return NextResponse.json({
-        error: 'Payment system not configured'
-      }, { status: 500 })
-    }
-
     // Validate submitter information
     const submitterEmail = events[0]?.submitter_email
     const submitterName = events[0]?.submitter_name
@@ -36,38 +23,41 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Create line items for Stripe
-    const lineItems = events.map((event: any) => {
-      let name = event.title
-      let price = 0
-
-      if (event.paid_placement) {
-        name += ' - Paid Placement'
-        price = 500 // $5.00 in cents
-      } else if (event.featured) {
-        name += ' - Featured Event'
-        price = 1500 // $15.00 in cents
+    // Price the cart on the server; any total the browser sends is ignored
+    let quote
+    try {
+      quote = await quoteEventPromotions(toEventPromotionRequests(events), {
+        discountCode: discount_code,
+        nonprofitEin: nonprofit_ein
+      })
+    } catch (error) {
+      if (error instanceof PricingError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
       }
+      throw error
+    }
 
-      return {
-        price_data: {
-          currency: 'usd',
-          product_data: {
-            name: name,
-            description: `Event at ${event.venue}`,
-          },
-          unit_amount: price,
-        },
-        quantity: 1,
-      }
-    }).filter((item: any) => item.price_data.unit_amount > 0)
+    // A discount that covers the whole cart skips Stripe and goes straight to review
+    if (quote.total === 0) {
+      const insertedEvents = await saveUnpaidEventSubmissions(events, quote)
+      return NextResponse.json({ events: insertedEvents, quote, paymentRequired: false })
+    }
 
-    if (lineItems.length === 0) {
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY
+
+    if (!stripeSecretKey) {
+      console.error('Stripe secret key not configured')
       return NextResponse.json({
-        error: 'No paid items in cart'
-      }, { status: 400 })
+        error: 'Payment system not configured'
+      }, { status: 500 })
     }
 
+    // Each event carries its priced placement and what was charged for it, for the events table once payment clears
+    const pricedEvents = events.map((event: any, index: number) => ({
+      ...withPricedPlacement(event),
+      payment_amount: (quote.lines.find(line => line.event_index === index)?.charged_amount || 0) / 100
+    }))
+
     // Store events data in metadata (Stripe has 500 char limit per value, so we'll use a reference ID)
     const sessionId = `session_${Date.now()}`
 
@@ -77,7 +67,8 @@ export async function POST(request: NextRequest) {
       session_id: sessionId,
       event_count: events.length.toString(),
       submitter_email: events[0].submitter_email,
-      submitter_name: events[0].submitter_name
+      submitter_name: events[0].submitter_name,
+      discount_code: quote.discount_code || ''
     }
 
     // Create Stripe Checkout session
@@ -92,15 +83,7 @@ export async function POST(request: NextRequest) {
         'success_url': `${process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'}/events/success?session_id={CHECKOUT_SESSION_ID}`,
         'cancel_url': `${process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'}/events/checkout`,
         'customer_email': events[0].submitter_email,
-        ...Object.fromEntries(
-          lineItems.flatMap((item: any, index: number) => [
-            [`line_items[${index}][price_data][currency]`, item.price_data.currency],
-            [`line_items[${index}][price_data][product_data][name]`, item.price_data.product_data.name],
-            [`line_items[${index}][price_data][product_data][description]`, item.price_data.product_data.description],
-            [`line_items[${index}][price_data][unit_amount]`, item.price_data.unit_amount.toString()],
-            [`line_items[${index}][quantity]`, item.quantity.toString()],
-          ])
-        ),
+        ...buildStripeLineItems(quote),
         ...Object.fromEntries(
           Object.entries(metadata).map(([key, value]) => [`metadata[${key}]`, value])
         )
@@ -121,10 +104,11 @@ export async function POST(request: NextRequest) {
       .from('pending_event_submissions')
       .insert({
         stripe_session_id: session.id,
-        events_data: events,
+        events_data: pricedEvents,
         submitter_email: submitterEmail,
         submitter_name: submitterName,
-        total_amount: total,
+        total_amount: quote.total / 100,
+        pricing_quote: quote,
         created_at: new Date().toISOString(),
         expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
         processed: false
@@ -137,11 +121,12 @@ export async function POST(request: NextRequest) {
     }
 
     console.log(`[Checkout] Created pending submission for session: ${session.id}`)
-    console.log(`[Checkout] Events count: ${events.length}, Total: $${total}`)
+    console.log(`[Checkout] Events count: ${events.length}, Total: ${formatCents(quote.total)}`)
 
     return NextResponse.json({
       checkout_url: session.url,
-      session_id: session.id
+      session_id: session.id,
+      paymentRequired: true
     })
 
   } catch (error) {
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { authOptions } from '@/lib/auth'
-import { callOpenAI, AI_PROMPTS } from '@/lib/openai'
+import { AI_PROMPTS } from '@/lib/openai'
+import { callLLMJSON } from '@/lib/llm'
+import { EventSummarySchema } from '@/lib/llm-schemas'
 
 // Helper function to generate AI event summary
 async function generateEventSummary(event: { title: string; description: string | null; venue?: string | null }): Promise<string | null> {
@@ -19,14 +21,13 @@ async function generateEventSummary(event: { title: string; description: string
       venue: event.venue
     })
 
-    const response = await callOpenAI(prompt, 200, 0.7)
-
-    if (response && response.event_summary) {
-      console.log(`Generated summary (${response.word_count} words): ${response.event_summary}`)
-      return response.event_summary
-    }
+    const response = await callLLMJSON('event_summary', prompt, EventSummarySchema, {
+      maxTokens: 200,
+      temperature: 0.7
+    })
 
-    return null
+    console.log(`Generated summary (${response.word_count ?? 'unknown'} words): ${response.event_summary}`)
+    return response.event_summary
   } catch (error) {
     console.error('Error generating event summary:', error)
     return null
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import { callOpenAI, AI_PROMPTS } from '@/lib/openai'
+import { AI_PROMPTS } from '@/lib/openai'
+import { callLLMJSON } from '@/lib/llm'
+import { EventSummarySchema } from '@/lib/llm-schemas'
+import { addDays, getCentralDate } from '@/lib/newsletter-calendar'
 
 // Helper function to decode HTML entities
 function decodeHtmlEntities(text: string | null | undefined): string | null {
@@ -38,14 +41,13 @@ async function generateEventSummary(event: { title: string; description: string
       venue: event.venue
     })
 
-    const response = await callOpenAI(prompt, 200, 0.7)
-
-    if (response && response.event_summary) {
-      console.log(`Generated summary (${response.word_count} words): ${response.event_summary}`)
-      return response.event_summary
-    }
+    const response = await callLLMJSON('event_summary', prompt, EventSummarySchema, {
+      maxTokens: 200,
+      temperature: 0.7
+    })
 
-    return null
+    console.log(`Generated summary (${response.word_count ?? 'unknown'} words): ${response.event_summary}`)
+    return response.event_summary
   } catch (error) {
     console.error('Error generating event summary:', error)
     return null
@@ -87,12 +89,8 @@ export async function GET(request: NextRequest) {
       console.log('Using override dates:', startDate, 'to', endDate)
     } else {
       // Default to today + next 7 days like main sync
-      const today = new Date()
-      startDate = today.toISOString().split('T')[0]
-
-      const nextWeek = new Date(today)
-      nextWeek.setDate(today.getDate() + 7)
-      endDate = nextWeek.toISOString().split('T')[0]
+      startDate = getCentralDate()
+      endDate = addDays(startDate, 7)
 
       console.log('Using dynamic date range:', startDate, 'to', endDate)
     }
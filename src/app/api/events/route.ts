@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { authOptions } from '@/lib/auth'
+import { getEventQueryRange } from '@/lib/newsletter-calendar'
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,9 +24,9 @@ export async function GET(request: NextRequest) {
       .select('*')
       .order('start_date', { ascending: true })
 
-    // Simplified date filtering - just use start_date for now to debug
+    // Events that start on/after startDate, plus multi-day events still running then
     if (startDate) {
-      query = query.gte('start_date', startDate)
+      query = query.or(getEventQueryRange([startDate]).overlapFilter)
     }
     if (endDate) {
       // Make endDate inclusive by using lte instead of lt with +1 day
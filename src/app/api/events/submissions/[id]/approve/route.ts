@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { authOptions } from '@/lib/auth'
-import { GmailService } from '@/lib/gmail-service'
+import { sendTransactionalEmail } from '@/lib/transactional-email'
+import { formatEventWhen } from '@/lib/email-templates'
+import { PricingError, requireNonprofitVerification } from '@/lib/pricing'
 
 export async function POST(
   request: NextRequest,
@@ -15,6 +17,7 @@ export async function POST(
     }
 
     const { id } = await context.params
+    const { nonprofit_ein_verified } = await request.json().catch(() => ({}))
 
     // Get event details before updating
     const { data: event } = await supabaseAdmin
@@ -27,6 +30,8 @@ export async function POST(
       return NextResponse.json({ error: 'Event not found' }, { status: 404 })
     }
 
+    requireNonprofitVerification(event.nonprofit_ein, nonprofit_ein_verified)
+
     const { error } = await supabaseAdmin
       .from('events')
       .update({
@@ -42,18 +47,19 @@ export async function POST(
 
     // Send approval email
     if (event.submitter_email) {
-      const gmail = new GmailService()
-      await gmail.sendEventApprovalEmail({
-        title: event.title,
-        description: event.description,
-        start_date: event.start_date,
-        end_date: event.end_date,
-        venue: event.venue,
-        address: event.address,
-        url: event.url,
-        website: event.website,
-        submitter_email: event.submitter_email,
-        submitter_name: event.submitter_name || 'Event Submitter'
+      await sendTransactionalEmail({
+        template: 'event_approved',
+        to: event.submitter_email,
+        eventId: event.id,
+        variables: {
+          submitter_name: event.submitter_name || 'Event Submitter',
+          event_title: event.title,
+          event_when: formatEventWhen(event.start_date, event.end_date),
+          venue: event.venue,
+          address: event.address,
+          description: event.description,
+          website: event.website
+        }
       })
     }
 
@@ -81,6 +87,9 @@ export async function POST(
     return NextResponse.json({ success: true })
 
   } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Failed to approve submission:', error)
     return NextResponse.json({
       error: 'Failed to approve submission',
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { authOptions } from '@/lib/auth'
-import { GmailService } from '@/lib/gmail-service'
+import { sendTransactionalEmail } from '@/lib/transactional-email'
 
 export async function POST(
   request: NextRequest,
@@ -122,14 +122,17 @@ export async function POST(
 
     // Send rejection email
     if (event.submitter_email) {
-      const gmail = new GmailService()
-      await gmail.sendEventRejectionEmail({
-        title: event.title,
-        description: event.description,
-        start_date: event.start_date,
-        submitter_email: event.submitter_email,
-        submitter_name: event.submitter_name || 'Event Submitter'
-      }, reason)
+      await sendTransactionalEmail({
+        template: 'event_rejected',
+        to: event.submitter_email,
+        eventId: event.id,
+        variables: {
+          submitter_name: event.submitter_name || 'Event Submitter',
+          event_title: event.title,
+          description: event.description,
+          reason
+        }
+      })
     }
 
     // Log the rejection
@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { authOptions } from '@/lib/auth'
-import { callOpenAI, AI_PROMPTS } from '@/lib/openai'
+import { AI_PROMPTS } from '@/lib/openai'
+import { callLLMJSON } from '@/lib/llm'
+import { EventSummarySchema } from '@/lib/llm-schemas'
+import { addDays, getCentralDate } from '@/lib/newsletter-calendar'
 
 // Helper function to strip HTML tags and decode HTML entities
 function decodeHtmlEntities(text: string | null | undefined): string | null {
@@ -55,14 +58,13 @@ async function generateEventSummary(event: { title: string; description: string
       venue: event.venue
     })
 
-    const response = await callOpenAI(prompt, 200, 0.7)
-
-    if (response && response.event_summary) {
-      console.log(`Generated summary (${response.word_count} words): ${response.event_summary}`)
-      return response.event_summary
-    }
+    const response = await callLLMJSON('event_summary', prompt, EventSummarySchema, {
+      maxTokens: 200,
+      temperature: 0.7
+    })
 
-    return null
+    console.log(`Generated summary (${response.word_count ?? 'unknown'} words): ${response.event_summary}`)
+    return response.event_summary
   } catch (error) {
     console.error('Error generating event summary:', error)
     return null
@@ -118,9 +120,8 @@ export async function POST(request: NextRequest) {
       console.log('Using override dates:', startDateString, 'to', endDateString)
     } else {
       // We'll fetch each day individually instead of using a date range
-      const startDate = new Date()
-      startDateString = startDate.toISOString().split('T')[0]
-      endDateString = startDate.toISOString().split('T')[0] // This will be updated in the loop
+      startDateString = getCentralDate()
+      endDateString = startDateString // This will be updated in the loop
     }
 
     // Fetch events from Visit St. Cloud API - using daily calls for better results
@@ -175,9 +176,7 @@ export async function POST(request: NextRequest) {
       console.log('⏰ Daily fetch start time:', new Date().toISOString())
 
       for (let dayOffset = 0; dayOffset < 7; dayOffset++) {
-        const currentDate = new Date()
-        currentDate.setDate(currentDate.getDate() + dayOffset)
-        const dayString = currentDate.toISOString().split('T')[0]
+        const dayString = addDays(startDateString, dayOffset)
 
         console.log(`📍 Fetching events for day ${dayOffset + 1}/7: ${dayString} at ${new Date().toISOString()}`)
 
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabaseAdmin } from '@/lib/supabase'
-import { GitHubImageStorage } from '@/lib/github-storage'
+import { storeAsset } from '@/lib/asset-storage'
 
 export async function POST(request: NextRequest) {
   try {
@@ -34,73 +33,20 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Initialize GitHub storage
-    const githubStorage = new GitHubImageStorage()
+    console.log(`Storing original and cropped images for event: ${eventTitle}`)
 
-    // Create safe filename from event title
-    const timestamp = Date.now()
-    const safeTitle = eventTitle
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-+|-+$/g, '')
-      .substring(0, 50)
-
-    // Generate unique ID for this event image
-    const eventImageId = `${safeTitle}-${timestamp}`
-    const originalPath = `public-events/originals/${eventImageId}.jpg`
-
-    console.log('Uploading original to Supabase Storage...')
-
-    // Upload original image to Supabase Storage
-    const { data: originalData, error: originalError } = await supabaseAdmin.storage
-      .from('images')
-      .upload(originalPath, originalBlob, {
-        contentType: 'image/jpeg',
-        upsert: false
-      })
-
-    if (originalError) {
-      console.error('Original upload error:', originalError)
-      throw new Error(`Failed to upload original image: ${originalError.message}`)
-    }
-
-    // Get public URL for original
-    const { data: originalUrlData } = supabaseAdmin.storage
-      .from('images')
-      .getPublicUrl(originalPath)
-
-    console.log('Uploading cropped variant to GitHub...')
-
-    // Convert cropped Blob to Buffer for GitHub upload
-    const croppedBuffer = Buffer.from(await croppedBlob.arrayBuffer())
-
-    // Upload cropped image to GitHub as variant
-    const githubUrl = await githubStorage.uploadImageVariant(
-      croppedBuffer,
-      eventImageId,
-      '900x720',
-      `Event image for: ${eventTitle}`
-    )
-
-    if (!githubUrl) {
-      console.error('GitHub upload failed')
-      // Try to clean up original image from Supabase
-      await supabaseAdmin.storage.from('images').remove([originalPath])
-      throw new Error('Failed to upload cropped image to GitHub')
-    }
-
-    // Get CDN URL for cropped variant
-    const croppedCdnUrl = githubStorage.getCdnUrl(eventImageId, '900x720')
+    const original = await storeAsset('event_image', Buffer.from(await originalBlob.arrayBuffer()), 'image/jpeg')
+    const cropped = await storeAsset('event_image', Buffer.from(await croppedBlob.arrayBuffer()), 'image/jpeg')
 
     console.log('Upload successful:', {
-      originalUrl: originalUrlData.publicUrl,
-      croppedUrl: croppedCdnUrl
+      originalUrl: original.url,
+      croppedUrl: cropped.url
     })
 
     // Return the public URLs
     return NextResponse.json({
-      original_url: originalUrlData.publicUrl,
-      cropped_url: croppedCdnUrl,
+      original_url: original.url,
+      cropped_url: cropped.url,
     })
 
   } catch (error) {
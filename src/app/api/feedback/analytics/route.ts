@@ -2,6 +2,79 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { supabaseAdmin } from '@/lib/supabase'
+import { resolvePublication } from '@/lib/publications'
+import { getDefaultSectionName, getNewsletterSections, resolveRendererKey } from '@/lib/newsletter-sections'
+import { addDays, formatCalendarDate, getCentralDate } from '@/lib/newsletter-calendar'
+import type { FeedbackResponse } from '@/types/database'
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+interface RatingBucket {
+  total: number
+  count: number
+}
+
+function addRating(buckets: Record<string, RatingBucket>, key: string, rating: number) {
+  const bucket = buckets[key] || (buckets[key] = { total: 0, count: 0 })
+  bucket.total += rating
+  bucket.count += 1
+}
+
+function averageOf(bucket: RatingBucket): number {
+  return Math.round((bucket.total / bucket.count) * 100) / 100
+}
+
+/**
+ * Average issue rating per article: each article is credited with the ratings of the
+ * issues it ran in, so recurring topics that lift or sink an issue stand out
+ */
+async function getArticleRatings(responses: FeedbackResponse[], publicationId: string, startDate: string, endDate: string) {
+  const { data: campaigns } = await supabaseAdmin
+    .from('newsletter_campaigns')
+    .select('id, date')
+    .eq('publication_id', publicationId)
+    .gte('date', startDate)
+    .lte('date', endDate)
+
+  if (!campaigns || campaigns.length === 0) {
+    return []
+  }
+
+  // Older responses only know the issue date
+  const campaignByDate: Record<string, string> = {}
+  campaigns.forEach(campaign => { campaignByDate[campaign.date] = campaign.id })
+
+  const campaignRatings: Record<string, RatingBucket> = {}
+  for (const response of responses) {
+    const campaignId = response.campaign_id || campaignByDate[response.campaign_date]
+    if (response.rating && campaignId) {
+      addRating(campaignRatings, campaignId, response.rating)
+    }
+  }
+
+  const ratedCampaignIds = Object.keys(campaignRatings)
+  if (ratedCampaignIds.length === 0) {
+    return []
+  }
+
+  const { data: articles } = await supabaseAdmin
+    .from('articles')
+    .select('headline, campaign_id')
+    .in('campaign_id', ratedCampaignIds)
+    .eq('is_active', true)
+
+  const campaignDates: Record<string, string> = {}
+  campaigns.forEach(campaign => { campaignDates[campaign.id] = campaign.date })
+
+  return (articles || [])
+    .map(article => ({
+      headline: article.headline,
+      date: campaignDates[article.campaign_id],
+      averageRating: averageOf(campaignRatings[article.campaign_id]),
+      ratings: campaignRatings[article.campaign_id].count
+    }))
+    .sort((a, b) => b.averageRating - a.averageRating || b.ratings - a.ratings)
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,20 +86,21 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url)
     const days = parseInt(searchParams.get('days') || '30')
+    const publication = await resolvePublication(searchParams.get('publication'))
 
     // Calculate date range
-    const endDate = new Date()
-    const startDate = new Date()
-    startDate.setDate(startDate.getDate() - days)
+    const endDate = getCentralDate()
+    const startDate = addDays(endDate, -days)
 
     console.log(`Fetching feedback analytics for last ${days} days`)
 
     // Fetch feedback responses within date range
-    const { data: responses, error } = await supabaseAdmin
+    const { data, error } = await supabaseAdmin
       .from('feedback_responses')
       .select('*')
-      .gte('campaign_date', startDate.toISOString().split('T')[0])
-      .lte('campaign_date', endDate.toISOString().split('T')[0])
+      .eq('publication_id', publication.id)
+      .gte('campaign_date', startDate)
+      .lte('campaign_date', endDate)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -34,26 +108,82 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
-    // Calculate section popularity
+    const responses: FeedbackResponse[] = data || []
+
+    // Calculate section popularity from liked sections (older responses have a single choice)
+    const sectionNames: Record<string, string> = {}
+    for (const section of await getNewsletterSections(publication.id)) {
+      const key = resolveRendererKey(section)
+      if (key) sectionNames[key] = section.name
+    }
+
     const sectionCounts: { [key: string]: number } = {}
-    responses?.forEach(response => {
-      sectionCounts[response.section_choice] = (sectionCounts[response.section_choice] || 0) + 1
+    responses.forEach(response => {
+      const liked = response.liked_sections && response.liked_sections.length > 0
+        ? response.liked_sections.map(key => sectionNames[key] || getDefaultSectionName(key))
+        : response.section_choice ? [response.section_choice] : []
+      liked.forEach(name => {
+        sectionCounts[name] = (sectionCounts[name] || 0) + 1
+      })
     })
 
+    // Issue ratings: overall, per day and per weekday
+    const ratingDistribution: { [rating: string]: number } = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 }
+    const dailyBuckets: Record<string, RatingBucket> = {}
+    const weekdayBuckets: Record<string, RatingBucket> = {}
+    const overall: RatingBucket = { total: 0, count: 0 }
+    responses.forEach(response => {
+      if (!response.rating) return
+      ratingDistribution[response.rating] += 1
+      overall.total += response.rating
+      overall.count += 1
+      addRating(dailyBuckets, response.campaign_date, response.rating)
+      addRating(weekdayBuckets, formatCalendarDate(response.campaign_date, { weekday: 'long' }), response.rating)
+    })
+
+    const dailyRatings = Object.keys(dailyBuckets).sort().map(date => ({
+      date,
+      averageRating: averageOf(dailyBuckets[date]),
+      ratings: dailyBuckets[date].count
+    }))
+
+    const weekdayRatings = WEEKDAYS
+      .filter(weekday => weekdayBuckets[weekday])
+      .map(weekday => ({
+        weekday,
+        averageRating: averageOf(weekdayBuckets[weekday]),
+        ratings: weekdayBuckets[weekday].count
+      }))
+
+    const articleRatings = await getArticleRatings(
+      responses,
+      publication.id,
+      startDate,
+      endDate
+    )
+
+    const recentComments = responses
+      .filter(response => response.comment)
+      .slice(0, 10)
+      .map(response => ({ campaign_date: response.campaign_date, rating: response.rating, comment: response.comment }))
+
     // Calculate daily response counts
     const dailyResponses: { [key: string]: number } = {}
-    responses?.forEach(response => {
+    responses.forEach(response => {
       const date = response.campaign_date
       dailyResponses[date] = (dailyResponses[date] || 0) + 1
     })
 
     // Calculate MailerLite sync success rate
-    const totalResponses = responses?.length || 0
-    const successfulSyncs = responses?.filter(r => r.mailerlite_updated).length || 0
+    const totalResponses = responses.length
+    const successfulSyncs = responses.filter(r => r.mailerlite_updated).length
     const syncSuccessRate = totalResponses > 0 ? (successfulSyncs / totalResponses) * 100 : 0
 
     // Get most recent responses
-    const recentResponses = responses?.slice(0, 10)
+    const recentResponses = responses.slice(0, 10).map(response => ({
+      ...response,
+      liked_sections: (response.liked_sections || []).map(key => sectionNames[key] || getDefaultSectionName(key))
+    }))
 
     return NextResponse.json({
       success: true,
@@ -64,9 +194,16 @@ export async function GET(request: NextRequest) {
         sectionCounts,
         dailyResponses,
         recentResponses,
+        ratedResponses: overall.count,
+        averageRating: overall.count > 0 ? averageOf(overall) : null,
+        ratingDistribution,
+        dailyRatings,
+        weekdayRatings,
+        articleRatings,
+        recentComments,
         dateRange: {
-          start: startDate.toISOString().split('T')[0],
-          end: endDate.toISOString().split('T')[0]
+          start: startDate,
+          end: endDate
         }
       }
     })
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolvePublication } from '@/lib/publications'
+import {
+  FEEDBACK_RATINGS,
+  MAX_COMMENT_LENGTH,
+  getFeedbackSections,
+  isValidRating,
+  recordFeedback
+} from '@/lib/reader-feedback'
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+// Public: the follow-up page readers land on after rating an issue
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    let publication
+    try {
+      publication = await resolvePublication(searchParams.get('publication'))
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      publication: { slug: publication.slug, name: publication.name, website_url: publication.website_url },
+      sections: await getFeedbackSections(publication.id),
+      ratings: FEEDBACK_RATINGS,
+      maxCommentLength: MAX_COMMENT_LENGTH
+    })
+
+  } catch (error) {
+    console.error('Failed to load feedback form:', error)
+    return NextResponse.json({
+      error: 'Failed to load feedback form',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email, date, rating, liked_sections, comment } = body
+
+    if (!email || !EMAIL_REGEX.test(email)) {
+      return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 })
+    }
+    if (!date || !DATE_REGEX.test(date)) {
+      return NextResponse.json({ error: 'A valid issue date is required' }, { status: 400 })
+    }
+    if (rating !== undefined && rating !== null && !isValidRating(rating)) {
+      return NextResponse.json({ error: 'Rating must be a whole number from 1 to 5' }, { status: 400 })
+    }
+    if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+      return NextResponse.json({ error: 'Comment must be text' }, { status: 400 })
+    }
+
+    let publication
+    try {
+      publication = await resolvePublication(body.publication)
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    const sections = await getFeedbackSections(publication.id)
+    const likedSections: string[] = Array.isArray(liked_sections) ? liked_sections : []
+    const unknown = likedSections.filter(key => !sections.some(section => section.key === key))
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown sections: ${unknown.join(', ')}` }, { status: 400 })
+    }
+
+    const feedback = await recordFeedback({
+      publicationId: publication.id,
+      campaignDate: date,
+      email,
+      rating: isValidRating(rating) ? rating : undefined,
+      likedSections,
+      comment: comment ? comment.trim() : null
+    })
+
+    return NextResponse.json({ success: true, feedback: { rating: feedback.rating, liked_sections: feedback.liked_sections } })
+
+  } catch (error) {
+    console.error('Failed to save feedback:', error)
+    return NextResponse.json({
+      error: 'Failed to save feedback',
+      message: error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'
+    }, { status: 500 })
+  }
+}
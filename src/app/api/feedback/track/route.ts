@@ -1,21 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import axios from 'axios'
-
-const MAILERLITE_API_BASE = 'https://connect.mailerlite.com/api'
+import { MailerLiteService } from '@/lib/mailerlite'
+import { resolvePublication } from '@/lib/publications'
+import { getFeedbackSections, isValidRating, recordFeedback, resolveSectionChoice } from '@/lib/reader-feedback'
 
+// Rating links come from the feedback block; choice links from older favourite-section emails
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const date = searchParams.get('date')
     const choice = searchParams.get('choice')
+    const ratingParam = searchParams.get('rating')
     const email = searchParams.get('email')
+    const campaignId = searchParams.get('campaign_id')
 
-    console.log('Feedback tracking request:', { date, choice, email })
+    console.log('Feedback tracking request:', { date, choice, rating: ratingParam, email })
 
     // Validate required parameters
-    if (!date || !choice || !email) {
-      console.error('Missing required parameters:', { date, choice, email })
+    if (!date || !email || (!choice && !ratingParam)) {
+      console.error('Missing required parameters:', { date, choice, rating: ratingParam, email })
       return NextResponse.redirect(new URL('/feedback/error?reason=missing-params', request.url))
     }
 
@@ -33,122 +36,70 @@ export async function GET(request: NextRequest) {
       return NextResponse.redirect(new URL('/feedback/error?reason=invalid-email', request.url))
     }
 
-    // Valid section choices
-    const validChoices = [
-      'Weather',
-      'The Local Scoop',
-      'Local Events',
-      'Dining Deals',
-      'Yesterdays Wordle',
-      'Road Work',
-      'Minnesota Getaways'
-    ]
-
-    if (!validChoices.includes(choice)) {
-      console.error('Invalid section choice:', choice)
-      return NextResponse.redirect(new URL('/feedback/error?reason=invalid-choice', request.url))
+    let publication
+    try {
+      publication = await resolvePublication(searchParams.get('publication'))
+    } catch {
+      return NextResponse.redirect(new URL('/feedback/error?reason=invalid-publication', request.url))
     }
 
-    // Store feedback in database
-    console.log('Storing feedback in database...')
-    const { data: feedback, error: dbError } = await supabaseAdmin
-      .from('feedback_responses')
-      .upsert({
-        campaign_date: date,
-        subscriber_email: email,
-        section_choice: choice,
-        mailerlite_updated: false,
-        created_at: new Date().toISOString()
-      }, {
-        onConflict: 'campaign_date,subscriber_email'
-      })
-      .select()
-      .single()
-
-    if (dbError) {
-      console.error('Database error storing feedback:', dbError)
-      // Continue anyway - we'll try to update MailerLite
-    } else {
-      console.log('Feedback stored successfully:', feedback?.id)
-    }
+    const mailerLiteService = new MailerLiteService()
 
-    // Update MailerLite subscriber custom field
-    let mailerLiteUpdated = false
-    try {
-      console.log('Updating MailerLite subscriber custom field...')
-      const apiKey = process.env.MAILERLITE_API_KEY
-
-      if (!apiKey) {
-        console.error('MAILERLITE_API_KEY not configured')
-      } else {
-        // First, find the subscriber by email
-        const searchResponse = await axios.get(
-          `${MAILERLITE_API_BASE}/subscribers`,
-          {
-            headers: {
-              'Authorization': `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-              'Accept': 'application/json'
-            },
-            params: {
-              filter: {
-                email: email
-              }
-            }
-          }
-        )
-
-        console.log('MailerLite search response:', {
-          found: searchResponse.data?.data?.length || 0,
-          email
-        })
-
-        if (searchResponse.data?.data && searchResponse.data.data.length > 0) {
-          const subscriber = searchResponse.data.data[0]
-          console.log('Found subscriber:', subscriber.id)
-
-          // Update the subscriber's custom field
-          const updateResponse = await axios.put(
-            `${MAILERLITE_API_BASE}/subscribers/${subscriber.id}`,
-            {
-              fields: {
-                section_choice: choice
-              }
-            },
-            {
-              headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-              }
-            }
-          )
-
-          console.log('MailerLite update successful:', updateResponse.data)
-          mailerLiteUpdated = true
-        } else {
-          console.warn('Subscriber not found in MailerLite:', email)
-        }
+    if (ratingParam) {
+      const rating = Number(ratingParam)
+      if (!isValidRating(rating)) {
+        console.error('Invalid rating:', ratingParam)
+        return NextResponse.redirect(new URL('/feedback/error?reason=invalid-rating', request.url))
       }
-    } catch (mlError: any) {
-      console.error('MailerLite API error:', {
-        message: mlError.message,
-        response: mlError.response?.data,
-        status: mlError.response?.status
+
+      const feedback = await recordFeedback({
+        publicationId: publication.id,
+        campaignDate: date,
+        email,
+        campaignId,
+        rating
       })
+
+      const { success } = await mailerLiteService.updateSubscriberField(email, 'last_issue_rating', rating)
+      if (success) {
+        await markMailerLiteUpdated(feedback.id)
+      }
+
+      // Follow-up page for the sections they liked and a comment
+      const followUpUrl = new URL('/feedback', request.url)
+      followUpUrl.searchParams.set('publication', publication.slug)
+      followUpUrl.searchParams.set('date', date)
+      followUpUrl.searchParams.set('email', email)
+      followUpUrl.searchParams.set('rating', String(rating))
+
+      console.log('Rating recorded, redirecting to follow-up page')
+      return NextResponse.redirect(followUpUrl)
     }
 
-    // Update the feedback record with MailerLite status
-    if (feedback?.id) {
-      await supabaseAdmin
-        .from('feedback_responses')
-        .update({ mailerlite_updated: mailerLiteUpdated })
-        .eq('id', feedback.id)
+    // Valid sections come from the publication's newsletter_sections
+    const section = resolveSectionChoice(choice!, await getFeedbackSections(publication.id))
+    if (!section) {
+      console.error('Invalid section choice:', choice)
+      return NextResponse.redirect(new URL('/feedback/error?reason=invalid-choice', request.url))
+    }
+
+    const feedback = await recordFeedback({
+      publicationId: publication.id,
+      campaignDate: date,
+      email,
+      campaignId,
+      sectionChoice: section.name,
+      likedSections: [section.key]
+    })
+
+    const { success } = await mailerLiteService.updateSubscriberField(email, 'section_choice', section.name)
+    if (success) {
+      await markMailerLiteUpdated(feedback.id)
     }
 
     // Redirect to thank you page with section choice
     const thankYouUrl = new URL('/feedback/thank-you', request.url)
-    thankYouUrl.searchParams.set('choice', choice)
+    thankYouUrl.searchParams.set('choice', section.name)
 
     console.log('Feedback processing complete, redirecting to thank you page')
     return NextResponse.redirect(thankYouUrl)
@@ -158,3 +109,10 @@ export async function GET(request: NextRequest) {
     return NextResponse.redirect(new URL('/feedback/error?reason=server-error', request.url))
   }
 }
+
+async function markMailerLiteUpdated(feedbackId: string) {
+  await supabaseAdmin
+    .from('feedback_responses')
+    .update({ mailerlite_updated: true })
+    .eq('id', feedbackId)
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { getObjectStorage } from '@/lib/object-storage'
 
 export async function GET(
   request: NextRequest,
@@ -59,11 +60,9 @@ export async function DELETE(
       storageDeletes.push(image.variant_16x9_key)
     }
 
-    const { error: storageError } = await supabaseAdmin.storage
-      .from('images')
-      .remove(storageDeletes)
-
-    if (storageError) {
+    try {
+      await getObjectStorage().delete(storageDeletes)
+    } catch (storageError) {
       console.error('Storage deletion error:', storageError)
       // Continue with database deletion even if storage deletion fails
     }
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { openai, AI_PROMPTS } from '@/lib/openai'
 import { ImageAnalysisResult, ImageTag } from '@/types/database'
-import { GitHubImageStorage } from '@/lib/github-storage'
+import { storeAsset } from '@/lib/asset-storage'
 import sharp from 'sharp'
 
 interface IngestRequest {
@@ -15,6 +17,11 @@ interface IngestRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const body: IngestRequest = await request.json()
     const { image_id, source_url, license, credit, location } = body
 
@@ -226,29 +233,18 @@ export async function POST(request: NextRequest) {
             .jpeg({ quality: 90, progressive: true })
             .toBuffer()
 
-          // Upload to GitHub
-          const githubStorage = new GitHubImageStorage()
-          const githubUrl = await githubStorage.uploadImageVariant(
-            processedBuffer,
-            image_id,
-            '1200x675',
-            'Generated 16:9 variant'
-          )
-
-          if (githubUrl) {
-            variantUrl = githubStorage.getCdnUrl(image_id, '1200x675')
-
-            // Update database with variant info
-            const variantKey = `images/variants/1200x675/${image_id}.jpg`
-            await supabaseAdmin
-              .from('images')
-              .update({
-                variant_16x9_key: variantKey,
-                variant_16x9_url: variantUrl,
-                updated_at: new Date().toISOString()
-              })
-              .eq('id', image_id)
-          }
+          const variant = await storeAsset('library_variant', processedBuffer, 'image/jpeg')
+          variantUrl = variant.url
+
+          // Update database with variant info
+          await supabaseAdmin
+            .from('images')
+            .update({
+              variant_16x9_key: variant.key,
+              variant_16x9_url: variantUrl,
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', image_id)
 
           console.log(`Generated 16:9 variant for image ${image_id}: ${variantUrl}`)
         } catch (variantError) {
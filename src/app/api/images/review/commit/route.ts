@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import { GitHubImageStorage } from '@/lib/github-storage'
+import { storeAsset } from '@/lib/asset-storage'
 import { ImageReviewRequest } from '@/types/database'
 import sharp from 'sharp'
 
@@ -134,31 +134,19 @@ export async function POST(request: NextRequest) {
             .jpeg({ quality: 85 })
             .toBuffer()
 
-          // Upload to GitHub
-          const githubStorage = new GitHubImageStorage()
-          const githubUrl = await githubStorage.uploadImageVariant(
-            croppedBuffer,
-            image_id,
-            '1200x675',
-            ai_caption || 'Image library variant'
-          )
-
-          if (githubUrl) {
-            // Update database with variant URLs
-            const variantKey = `images/variants/1200x675/${image_id}.jpg`
-            const cdnUrl = githubStorage.getCdnUrl(image_id, '1200x675')
-
-            await supabaseAdmin
-              .from('images')
-              .update({
-                variant_16x9_key: variantKey,
-                variant_16x9_url: cdnUrl,
-                updated_at: new Date().toISOString()
-              })
-              .eq('id', image_id)
-
-            console.log(`Generated 16:9 variant for image ${image_id}: ${cdnUrl}`)
-          }
+          const variant = await storeAsset('library_variant', croppedBuffer, 'image/jpeg')
+
+          // Update database with variant URLs
+          await supabaseAdmin
+            .from('images')
+            .update({
+              variant_16x9_key: variant.key,
+              variant_16x9_url: variant.url,
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', image_id)
+
+          console.log(`Generated 16:9 variant for image ${image_id}: ${variant.url}`)
         }
       } catch (cropError) {
         console.error(`Error generating 16:9 variant for image ${image_id}:`, cropError)
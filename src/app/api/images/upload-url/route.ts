@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { getObjectStorage } from '@/lib/object-storage'
 import { ImageUploadRequest, ImageUploadResponse } from '@/types/database'
 import { v4 as uuidv4 } from 'uuid'
 
@@ -30,6 +31,7 @@ export async function POST(request: NextRequest) {
     const imageId = uuidv4()
     const fileExtension = content_type.split('/')[1] === 'jpeg' ? 'jpg' : content_type.split('/')[1]
     const objectKey = `original/${imageId}.${fileExtension}`
+    const storage = getObjectStorage()
 
     // Create database record first
     const { error: dbError } = await supabaseAdmin
@@ -37,6 +39,7 @@ export async function POST(request: NextRequest) {
       .insert({
         id: imageId,
         object_key: objectKey,
+        cdn_url: storage.getPublicUrl(objectKey),
         original_file_name: filename,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
@@ -51,13 +54,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate signed upload URL
-    const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-      .from('images')
-      .createSignedUploadUrl(objectKey, {
-        upsert: true
-      })
-
-    if (uploadError) {
+    let uploadUrl: string
+    try {
+      uploadUrl = await storage.createUploadUrl(objectKey, content_type)
+    } catch (uploadError) {
       console.error('Storage upload URL error:', uploadError)
 
       // Clean up database record if upload URL generation fails
@@ -73,7 +73,7 @@ export async function POST(request: NextRequest) {
     }
 
     const response: ImageUploadResponse = {
-      upload_url: uploadData.signedUrl,
+      upload_url: uploadUrl,
       object_key: objectKey,
       image_id: imageId
     }
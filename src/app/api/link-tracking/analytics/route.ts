@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { supabaseAdmin } from '@/lib/supabase'
+import { addDays, getCentralDate } from '@/lib/newsletter-calendar'
 
 /**
  * Link Click Analytics Endpoint
@@ -22,9 +23,8 @@ export async function GET(request: NextRequest) {
     const days = parseInt(searchParams.get('days') || '30')
 
     // Calculate date range
-    const endDate = new Date()
-    const startDate = new Date()
-    startDate.setDate(startDate.getDate() - days)
+    const endDate = getCentralDate()
+    const startDate = addDays(endDate, -days)
 
     console.log(`Fetching link click analytics for last ${days} days`)
 
@@ -32,8 +32,8 @@ export async function GET(request: NextRequest) {
     const { data: clicks, error } = await supabaseAdmin
       .from('link_clicks')
       .select('*')
-      .gte('campaign_date', startDate.toISOString().split('T')[0])
-      .lte('campaign_date', endDate.toISOString().split('T')[0])
+      .gte('campaign_date', startDate)
+      .lte('campaign_date', endDate)
       .order('clicked_at', { ascending: false })
 
     if (error) {
@@ -119,8 +119,8 @@ export async function GET(request: NextRequest) {
         clicksByCampaign,
         recentClicks,
         dateRange: {
-          start: startDate.toISOString().split('T')[0],
-          end: endDate.toISOString().split('T')[0]
+          start: startDate,
+          end: endDate
         }
       }
     })
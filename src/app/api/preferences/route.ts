@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MailerLiteService } from '@/lib/mailerlite'
+import { getPublicationGroupId, resolvePublication } from '@/lib/publications'
+import {
+  SECTION_RULES,
+  getPreferenceSections,
+  getSubscriberPreference,
+  isValidSectionRule,
+  saveSubscriberPreference,
+  summarizeRules,
+  verifyPreferencesToken
+} from '@/lib/subscriber-preferences'
+import type { SectionRule } from '@/types/database'
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const INVALID_LINK = 'This link has expired or is incomplete. Use the "Choose your sections" link at the bottom of your latest issue.'
+
+// Public: linked from the newsletter footer with the subscriber's email and its signed token
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const email = searchParams.get('email')
+
+    if (!email || !EMAIL_REGEX.test(email) || !verifyPreferencesToken(email, searchParams.get('token'))) {
+      return NextResponse.json({ error: INVALID_LINK }, { status: 403 })
+    }
+
+    let publication
+    try {
+      publication = await resolvePublication(searchParams.get('publication'))
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    const sections = await getPreferenceSections(publication.id)
+    const preference = await getSubscriberPreference(publication.id, email)
+
+    return NextResponse.json({
+      publication: { slug: publication.slug, name: publication.name, website_url: publication.website_url },
+      sections,
+      options: SECTION_RULES,
+      rules: preference?.section_rules || {}
+    })
+
+  } catch (error) {
+    console.error('Failed to load section preferences:', error)
+    return NextResponse.json({
+      error: 'Failed to load section preferences',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email, token, rules } = body
+
+    if (!email || !EMAIL_REGEX.test(email)) {
+      return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 })
+    }
+
+    if (!verifyPreferencesToken(email, token)) {
+      return NextResponse.json({ error: INVALID_LINK }, { status: 403 })
+    }
+
+    let publication
+    try {
+      publication = await resolvePublication(body.publication)
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    const sections = await getPreferenceSections(publication.id)
+    const sectionRules: Record<string, SectionRule> = {}
+    for (const key of Object.keys(rules || {})) {
+      // Anything else means "follow the editors" and is simply not stored
+      if (!isValidSectionRule(rules[key])) continue
+      if (!sections.some(section => section.key === key)) {
+        return NextResponse.json({ error: `Unknown section: ${key}` }, { status: 400 })
+      }
+      sectionRules[key] = rules[key]
+    }
+
+    // Only existing subscribers can have preferences; this page never subscribes anyone
+    const mailerLiteService = new MailerLiteService()
+    const subscriberId = await mailerLiteService.findSubscriberId(email)
+    if (!subscriberId) {
+      return NextResponse.json({ error: `${email} isn't subscribed to ${publication.name}` }, { status: 404 })
+    }
+
+    const preference = await saveSubscriberPreference(publication.id, email, sectionRules)
+    const mainGroupId = await getPublicationGroupId(publication, 'main')
+    await mailerLiteService.syncSectionPreferences(subscriberId, mainGroupId, summarizeRules(sectionRules, sections))
+
+    return NextResponse.json({
+      success: true,
+      personalized: preference !== null,
+      rules: preference?.section_rules || {}
+    })
+
+  } catch (error) {
+    console.error('Failed to save section preferences:', error)
+    return NextResponse.json({
+      error: 'Failed to save section preferences',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PricingError, quoteAdvertisement, quoteEventPromotions, toEventPromotionRequests } from '@/lib/pricing'
+
+// Public: checkout pages show this quote, and checkout recomputes it before charging
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { kind, discount_code, nonprofit_ein } = body
+
+    if (kind === 'advertisement') {
+      const quote = await quoteAdvertisement({
+        frequency: body.frequency,
+        times: Number(body.times),
+        discountCode: discount_code,
+        nonprofitEin: nonprofit_ein
+      })
+      return NextResponse.json({ quote })
+    }
+
+    if (kind === 'event_promotion') {
+      if (!Array.isArray(body.events) || body.events.length === 0) {
+        return NextResponse.json({ error: 'No events provided' }, { status: 400 })
+      }
+      const quote = await quoteEventPromotions(toEventPromotionRequests(body.events), {
+        discountCode: discount_code,
+        nonprofitEin: nonprofit_ein
+      })
+      return NextResponse.json({ quote })
+    }
+
+    return NextResponse.json({ error: 'kind must be advertisement or event_promotion' }, { status: 400 })
+
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to compute quote:', error)
+    return NextResponse.json({
+      error: 'Failed to compute quote',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
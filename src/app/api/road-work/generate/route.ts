@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { generateDailyRoadWork, storeRoadWorkItems } from '@/lib/road-work-manager'
 import { supabaseAdmin } from '@/lib/supabase'
+import { resolvePublication } from '@/lib/publications'
+import { getCentralDate } from '@/lib/newsletter-calendar'
 
 export async function GET(request: NextRequest) {
   console.log('🚧 Starting road work data generation...')
@@ -9,13 +11,15 @@ export async function GET(request: NextRequest) {
     // Get campaign date from query parameters
     const { searchParams } = new URL(request.url)
     const campaignDate = searchParams.get('campaign_date')
-    const targetDate = campaignDate || new Date().toISOString().split('T')[0]
+    const targetDate = campaignDate || getCentralDate()
+    const publication = await resolvePublication(searchParams.get('publication'))
 
     // Look up campaign ID - required, no fallback
     console.log(`Looking up campaign for date: ${targetDate}`)
     const { data: campaign, error } = await supabaseAdmin
       .from('newsletter_campaigns')
       .select('id')
+      .eq('publication_id', publication.id)
       .eq('date', targetDate)
       .single()
 
@@ -37,7 +41,7 @@ export async function GET(request: NextRequest) {
     console.log(`Found campaign ID ${campaignId} for date ${targetDate}`)
 
     // Generate new road work data
-    const roadWorkData = await generateDailyRoadWork(campaignDate || undefined)
+    const roadWorkData = await generateDailyRoadWork(campaignDate || undefined, publication)
     console.log('✅ Road work data generated successfully')
 
     // Store items in normalized database
@@ -19,11 +19,12 @@ export async function POST(request: NextRequest) {
 
     // Check if specific campaign ID was provided
     const body = await request.json().catch(() => ({}))
-    const { campaign_id } = body
+    const { campaign_id, full_reset } = body
 
     const processor = new RSSProcessor()
     if (campaign_id) {
-      await processor.processAllFeedsForCampaign(campaign_id)
+      // Incremental by default; full_reset archives and wipes the campaign's posts and articles first
+      await processor.processAllFeedsForCampaign(campaign_id, { fullReset: full_reset === true })
     } else {
       await processor.processAllFeeds()
     }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { supabaseAdmin } from '@/lib/supabase'
+import { PipelineRunner } from '@/lib/pipeline-runner'
 
 interface RouteParams {
   params: Promise<{
@@ -50,6 +51,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       .order('timestamp', { ascending: false })
       .limit(10)
 
+    // Step-by-step pipeline state (null for campaigns processed before the job runner existed)
+    const pipeline = await PipelineRunner.getJobForCampaign(campaignId)
+
     return NextResponse.json({
       campaign: {
         id: campaign.id,
@@ -60,7 +64,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         articles: articles?.length || 0,
         posts: posts?.length || 0
       },
-      recentLogs: logs || []
+      recentLogs: logs || [],
+      pipeline: pipeline ? {
+        job: pipeline.job,
+        steps: pipeline.steps.map(step => ({
+          ...step,
+          label: PipelineRunner.getStepLabel(step.step_name)
+        }))
+      } : null
     })
 
   } catch (error) {
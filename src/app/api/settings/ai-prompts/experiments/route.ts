@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  EXPERIMENT_PROMPT_KEYS,
+  endExperiment,
+  getExperimentResults,
+  listExperiments,
+  startExperiment
+} from '@/lib/prompt-versions'
+
+// GET - Experiments with per-variant reviewer acceptance
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const experiments = await listExperiments()
+    const withResults = await Promise.all(experiments.map(async experiment => ({
+      ...experiment,
+      results: await getExperimentResults(experiment)
+    })))
+
+    return NextResponse.json({
+      success: true,
+      experiments: withResults,
+      supported_prompts: EXPERIMENT_PROMPT_KEYS
+    })
+
+  } catch (error) {
+    console.error('Failed to fetch prompt experiments:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Start an experiment between two versions of a prompt
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { key, name, version_a_id, version_b_id, split_percent } = await request.json()
+
+    if (!key || !version_a_id || !version_b_id) {
+      return NextResponse.json(
+        { error: 'key, version_a_id and version_b_id are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!EXPERIMENT_PROMPT_KEYS.includes(key)) {
+      return NextResponse.json(
+        { error: 'Experiments are only supported for the content evaluator and newsletter writer prompts' },
+        { status: 400 }
+      )
+    }
+
+    if (split_percent !== undefined && (typeof split_percent !== 'number' || split_percent < 1 || split_percent > 99)) {
+      return NextResponse.json(
+        { error: 'split_percent must be between 1 and 99' },
+        { status: 400 }
+      )
+    }
+
+    const experiment = await startExperiment({
+      promptKey: key,
+      name: name || `${key.replace('ai_prompt_', '').replace(/_/g, ' ')} experiment`,
+      versionAId: version_a_id,
+      versionBId: version_b_id,
+      splitPercent: split_percent,
+      createdBy: session.user?.email || null
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Experiment started',
+      experiment
+    })
+
+  } catch (error) {
+    console.error('Failed to start prompt experiment:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - End an experiment
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await request.json()
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Experiment id is required' },
+        { status: 400 }
+      )
+    }
+
+    await endExperiment(id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Experiment ended'
+    })
+
+  } catch (error) {
+    console.error('Failed to end prompt experiment:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  PLAYGROUND_PROMPT_KEYS,
+  MAX_PLAYGROUND_POSTS,
+  getPlaygroundTemplates,
+  getReplayableCampaigns,
+  runPromptPlayground,
+  type PlaygroundPromptKey
+} from '@/lib/prompt-playground'
+
+export const maxDuration = 300
+
+// GET - Campaigns with archived posts and the current prompt text to start drafts from
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [campaigns, templates] = await Promise.all([
+      getReplayableCampaigns(),
+      getPlaygroundTemplates()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      campaigns,
+      templates,
+      prompt_keys: PLAYGROUND_PROMPT_KEYS,
+      max_posts: MAX_PLAYGROUND_POSTS
+    })
+
+  } catch (error) {
+    console.error('Failed to load prompt playground:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Replay a past campaign against a draft prompt (nothing is saved)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { campaign_id, prompt_key, draft, max_posts } = body
+
+    if (!campaign_id || !draft || !PLAYGROUND_PROMPT_KEYS.includes(prompt_key)) {
+      return NextResponse.json(
+        { error: 'campaign_id, draft and a supported prompt_key are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await runPromptPlayground({
+      campaignId: campaign_id,
+      promptKey: prompt_key as PlaygroundPromptKey,
+      draft,
+      maxPosts: max_posts ? parseInt(max_posts) : undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      result
+    })
+
+  } catch (error) {
+    console.error('Prompt playground run failed:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
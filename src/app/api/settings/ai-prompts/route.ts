@@ -2,6 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { authOptions } from '@/lib/auth'
+import { getDefaultModelSetting, isValidModelSetting } from '@/lib/llm'
+import { ensureInitialVersion, recordPromptVersion, rollbackPrompt } from '@/lib/prompt-versions'
+import { getPublicationSetting, resolvePublication, setPublicationSetting } from '@/lib/publications'
+
+// ai_prompt_content_evaluator -> content_evaluator; the model lives in ai_model_content_evaluator
+const promptName = (key: string) => key.replace('ai_prompt_', '')
+
+// Prompt text is per publication (the default publication edits app_settings); models and custom defaults are shared
 
 // GET - Fetch all AI prompts
 export async function GET(request: NextRequest) {
@@ -11,6 +19,13 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    let publication
+    try {
+      publication = await resolvePublication(new URL(request.url).searchParams.get('publication'))
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
     const { data: prompts, error } = await supabaseAdmin
       .from('app_settings')
       .select('key, value, description')
@@ -21,6 +36,30 @@ export async function GET(request: NextRequest) {
       throw error
     }
 
+    const { data: models } = await supabaseAdmin
+      .from('app_settings')
+      .select('key, value')
+      .like('key', 'ai_model_%')
+
+    const modelMap = (models || []).reduce((acc, m) => {
+      acc[m.key] = m.value
+      return acc
+    }, {} as Record<string, string>)
+
+    // Sister editions see their own prompt text where they have one
+    const overrides: Record<string, string> = {}
+    if (!publication.is_default) {
+      const { data: publicationPrompts } = await supabaseAdmin
+        .from('publication_settings')
+        .select('key, value')
+        .eq('publication_id', publication.id)
+        .like('key', 'ai_prompt_%')
+
+      for (const p of publicationPrompts || []) {
+        overrides[p.key] = p.value
+      }
+    }
+
     // Parse prompts into structured format
     const formattedPrompts = prompts?.map(p => {
       const description = p.description || ''
@@ -34,7 +73,8 @@ export async function GET(request: NextRequest) {
         category,
         name: name || p.key.replace('ai_prompt_', '').replace(/_/g, ' '),
         description: descParts.join(': ') || '',
-        value: p.value
+        value: overrides[p.key] ?? p.value,
+        model: modelMap[`ai_model_${promptName(p.key)}`] || getDefaultModelSetting(promptName(p.key))
       }
     }) || []
 
@@ -74,7 +114,42 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { key, value } = body
+    const { key, value, model } = body
+
+    let publication
+    try {
+      publication = await resolvePublication(body.publication)
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    // Model selection is saved next to the prompt as ai_model_<prompt>
+    if (key && key.startsWith('ai_prompt_') && model !== undefined) {
+      if (typeof model !== 'string' || !isValidModelSetting(model)) {
+        return NextResponse.json(
+          { error: 'Model must be in the form provider:model (e.g. openai:gpt-4o)' },
+          { status: 400 }
+        )
+      }
+
+      const { error } = await supabaseAdmin
+        .from('app_settings')
+        .upsert({
+          key: `ai_model_${promptName(key)}`,
+          value: model.trim(),
+          description: `AI model for ${promptName(key).replace(/_/g, ' ')} prompt`,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'key' })
+
+      if (error) {
+        throw error
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Model updated successfully'
+      })
+    }
 
     if (!key || !value) {
       return NextResponse.json(
@@ -90,21 +165,15 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
-    const { error } = await supabaseAdmin
-      .from('app_settings')
-      .update({
-        value,
-        updated_at: new Date().toISOString()
-      })
-      .eq('key', key)
+    await ensureInitialVersion(publication, key)
+    await setPublicationSetting(publication, key, value)
 
-    if (error) {
-      throw error
-    }
+    const version = await recordPromptVersion(publication, key, value, session.user?.email || null)
 
     return NextResponse.json({
       success: true,
-      message: 'Prompt updated successfully'
+      message: 'Prompt updated successfully',
+      version
     })
 
   } catch (error) {
@@ -137,16 +206,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    let publication
+    try {
+      publication = await resolvePublication(body.publication)
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
     // Handle "Save as Default" action
     if (action === 'save_as_default') {
-      // Get current value
-      const { data: current, error: fetchError } = await supabaseAdmin
-        .from('app_settings')
-        .select('value')
-        .eq('key', key)
-        .single()
+      // Get the publication's current value
+      const current = await getPublicationSetting(publication, key)
 
-      if (fetchError || !current) {
+      if (!current) {
         return NextResponse.json(
           { error: 'Prompt not found' },
           { status: 404 }
@@ -157,7 +229,7 @@ export async function POST(request: NextRequest) {
       const { error: updateError } = await supabaseAdmin
         .from('app_settings')
         .update({
-          custom_default: current.value,
+          custom_default: current,
           updated_at: new Date().toISOString()
         })
         .eq('key', key)
@@ -170,6 +242,24 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    // Handle "Rollback" action - make an earlier version live again
+    if (action === 'rollback') {
+      if (!body.version_id) {
+        return NextResponse.json(
+          { error: 'version_id is required' },
+          { status: 400 }
+        )
+      }
+
+      const version = await rollbackPrompt(publication, key, body.version_id, session.user?.email || null)
+
+      return NextResponse.json({
+        success: true,
+        message: `Prompt rolled back (now version ${version.version_number})`,
+        version
+      })
+    }
+
     // Handle "Reset to Default" action
     // First check if there's a custom default
     const { data: settings, error: fetchError } = await supabaseAdmin
@@ -198,18 +288,17 @@ export async function POST(request: NextRequest) {
       defaultValue = defaultPrompt.value
     }
 
-    // Update database with default value
-    const { error: updateError } = await supabaseAdmin
-      .from('app_settings')
-      .update({
-        value: defaultValue,
-        updated_at: new Date().toISOString()
-      })
-      .eq('key', key)
-
-    if (updateError) throw updateError
+    await ensureInitialVersion(publication, key)
+    await setPublicationSetting(publication, key, defaultValue)
 
     const usedCustomDefault = settings?.custom_default ? true : false
+    await recordPromptVersion(
+      publication,
+      key,
+      defaultValue,
+      session.user?.email || null,
+      usedCustomDefault ? 'Reset to custom default' : 'Reset to code default'
+    )
 
     return NextResponse.json({
       success: true,
@@ -236,15 +325,15 @@ async function getDefaultPrompts() {
   return [
     {
       key: 'ai_prompt_content_evaluator',
-      value: `You are evaluating a news article for inclusion in a local St. Cloud, Minnesota newsletter. Rate on three dimensions using a 1-10 scale:
+      value: `You are evaluating a news article for inclusion in a local {{location}} newsletter. Rate on three dimensions using a 1-10 scale:
 
 INTEREST LEVEL (1-10): How intriguing, surprising, or engaging is this story?
 HIGH SCORING: Unexpected developments, human interest stories, breaking news, unique events, broad appeal, fun/entertaining
 LOW SCORING: Routine announcements, technical/administrative content, repetitive topics, purely promotional, very short content (subtract points for lack of substance)
 
-LOCAL RELEVANCE (1-10): How directly relevant is this to St. Cloud area residents?
-HIGH SCORING: Events/news in St. Cloud and surrounding areas (Waite Park, Sartell, Sauk Rapids, Cold Spring), Stearns County government decisions, local business changes, school district news, local infrastructure/development, community events
-LOW SCORING: State/national news without local angle, events far from St. Cloud area, generic content not location-specific
+LOCAL RELEVANCE (1-10): How directly relevant is this to {{city}} area residents?
+HIGH SCORING: Events/news in {{city}} and surrounding areas ({{nearby_communities}}), {{county}} government decisions, local business changes, school district news, local infrastructure/development, community events
+LOW SCORING: State/national news without local angle, events far from {{city}} area, generic content not location-specific
 
 COMMUNITY IMPACT (1-10): How much does this affect local residents' daily lives or community?
 HIGH SCORING: New services or amenities, policy changes affecting residents, public safety information, economic development/job creation, community services and resources
@@ -275,7 +364,7 @@ IMPORTANT: You must respond with ONLY valid JSON. Do not include any text before
     },
     {
       key: 'ai_prompt_newsletter_writer',
-      value: `You are a local newsletter writer for St. Cloud, Minnesota. Transform this news article into a concise, engaging summary for tomorrow's newsletter.
+      value: `You are a local newsletter writer for {{location}}. Transform this news article into a concise, engaging summary for tomorrow's newsletter.
 
 WRITING STYLE:
 - Natural, conversational tone (not overly formal or promotional)
@@ -308,7 +397,7 @@ Write a 2-3 sentence newsletter summary. Return ONLY the summary text, no additi
     },
     {
       key: 'ai_prompt_subject_line',
-      value: `You are writing a subject line for a local St. Cloud, Minnesota newsletter. Create a compelling subject line based on the top story.
+      value: `You are writing a subject line for a local {{location}} newsletter. Create a compelling subject line based on the top story.
 
 REQUIREMENTS:
 - Maximum 35 characters (strict limit - newsletter adds emoji prefix)
@@ -343,7 +432,7 @@ Generate ONE subject line. Return ONLY the subject line text (no quotes, no expl
     },
     {
       key: 'ai_prompt_event_summary',
-      value: `You are writing event descriptions for a St. Cloud, Minnesota community newsletter. Create a concise, inviting summary.
+      value: `You are writing event descriptions for a {{location}} community newsletter. Create a concise, inviting summary.
 
 REQUIREMENTS:
 - Approximately 50 words
@@ -367,23 +456,21 @@ Write a 50-word event summary. Return ONLY the summary text.`
     },
     {
       key: 'ai_prompt_road_work',
-      value: `You are a local newsletter writer collecting road construction and maintenance information for St. Cloud, Minnesota residents.
+      value: `You are a local newsletter writer collecting road construction and maintenance information for {{location}} residents.
 
-Generate 9 realistic road work items for the St. Cloud area (within 15 miles of ZIP 56303) that would be happening on {{date}}.
+Generate 9 realistic road work items for the {{city}} area (within 15 miles of ZIP {{zip_code}}) that would be happening on {{date}}.
 
 REQUIREMENTS:
 - Each item must be a real, plausible road project
 - Include mix of state highways, county roads, and city streets
 - Vary the types of work (resurfacing, bridge repair, utility work, lane closures, detours)
 - Include specific road names, ranges (e.g., "10th St between 5th Ave and 7th Ave")
-- Cities/townships: St. Cloud, Waite Park, Sartell, Sauk Rapids, St. Joseph, Cold Spring, Richmond
+- Cities/townships: {{city}}, {{nearby_communities}}
 - Realistic date ranges (some quick 1-2 day projects, some longer multi-week)
 - All items should be active or planned for the target date
 
-SOURCE URLs (use real MN DOT and county sites):
-- https://www.dot.state.mn.us/roadwork/
-- https://www.co.stearns.mn.us/Departments/PublicWorks
-- https://www.stcloudmn.gov/directory/departments/public-services
+SOURCE URLs (use real state DOT, county and city sites):
+{{road_work_sources}}
 
 Return ONLY a JSON array with 9 items:
 [
@@ -400,7 +487,7 @@ Return ONLY a JSON array with 9 items:
     },
     {
       key: 'ai_prompt_image_analyzer',
-      value: `Analyze this image for a St. Cloud, Minnesota local newsletter. Focus on identifying elements relevant to community news, events, education, public safety, healthcare, sports, business development, seasonal activities, and local landmarks.
+      value: `Analyze this image for a {{location}} local newsletter. Focus on identifying elements relevant to community news, events, education, public safety, healthcare, sports, business development, seasonal activities, and local landmarks.
 
 Return strict JSON:
 {
@@ -1,8 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { AI_PROMPTS, callOpenAI } from '@/lib/openai'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { AI_PROMPTS } from '@/lib/openai'
+import { callLLM, callLLMJSON } from '@/lib/llm'
+import { ContentEvaluationSchema, EventSummarySchema, NewsletterContentSchema } from '@/lib/llm-schemas'
+
+// GET - Run the current prompts against sample data
 
 export async function GET(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { searchParams } = new URL(request.url)
     const promptType = searchParams.get('type') || 'all'
 
@@ -41,7 +52,7 @@ export async function GET(request: NextRequest) {
       console.log('Testing Content Evaluator...')
       try {
         const prompt = await AI_PROMPTS.contentEvaluator(testData.contentEvaluator)
-        const response = await callOpenAI(prompt, 1000, 0.3)
+        const response = await callLLMJSON('content_evaluator', prompt, ContentEvaluationSchema, { maxTokens: 1000, temperature: 0.3 })
         results.contentEvaluator = {
           success: true,
           response,
@@ -60,7 +71,7 @@ export async function GET(request: NextRequest) {
       console.log('Testing Newsletter Writer...')
       try {
         const prompt = await AI_PROMPTS.newsletterWriter(testData.newsletterWriter)
-        const response = await callOpenAI(prompt, 1000, 0.3)
+        const response = await callLLMJSON('newsletter_writer', prompt, NewsletterContentSchema, { maxTokens: 1000, temperature: 0.3 })
         results.newsletterWriter = {
           success: true,
           response,
@@ -79,11 +90,11 @@ export async function GET(request: NextRequest) {
       console.log('Testing Subject Line Generator...')
       try {
         const prompt = await AI_PROMPTS.subjectLineGenerator(testData.subjectLineGenerator)
-        const response = await callOpenAI(prompt, 100, 0.8)
+        const response = await callLLM('subject_line', prompt, { maxTokens: 100, temperature: 0.8 })
         results.subjectLineGenerator = {
           success: true,
           response,
-          character_count: typeof response === 'string' ? response.length : response?.raw?.length || 0,
+          character_count: response.trim().length,
           prompt_length: prompt.length
         }
       } catch (error) {
@@ -99,7 +110,7 @@ export async function GET(request: NextRequest) {
       console.log('Testing Event Summarizer...')
       try {
         const prompt = await AI_PROMPTS.eventSummarizer(testData.eventSummarizer)
-        const response = await callOpenAI(prompt, 200, 0.7)
+        const response = await callLLMJSON('event_summary', prompt, EventSummarySchema, { maxTokens: 200, temperature: 0.7 })
         results.eventSummarizer = {
           success: true,
           response,
@@ -120,7 +131,7 @@ export async function GET(request: NextRequest) {
         const prompt = await AI_PROMPTS.roadWorkGenerator(testData.roadWorkGenerator)
         results.roadWorkGenerator = {
           success: true,
-          note: 'Prompt generated successfully. Use /api/debug/test-ai-road-work to actually generate road work data.',
+          note: 'Prompt generated successfully. Road work data is generated by the nightly campaign pipeline.',
           prompt_preview: prompt.substring(0, 500) + '...',
           prompt_length: prompt.length
         }
@@ -154,8 +165,7 @@ export async function GET(request: NextRequest) {
     console.error('Error testing AI prompts:', error)
     return NextResponse.json({
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined
+      error: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
 }
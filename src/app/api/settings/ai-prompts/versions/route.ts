@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getPromptVersions } from '@/lib/prompt-versions'
+import { resolvePublication } from '@/lib/publications'
+
+// GET - A publication's version history for a prompt, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const key = searchParams.get('key')
+    if (!key || !key.startsWith('ai_prompt_')) {
+      return NextResponse.json(
+        { error: 'Invalid prompt key' },
+        { status: 400 }
+      )
+    }
+
+    let publication
+    try {
+      publication = await resolvePublication(searchParams.get('publication'))
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    const versions = await getPromptVersions(publication, key)
+
+    return NextResponse.json({
+      success: true,
+      versions
+    })
+
+  } catch (error) {
+    console.error('Failed to fetch prompt versions:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
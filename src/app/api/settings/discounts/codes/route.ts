@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { normalizeDiscountCode } from '@/lib/pricing'
+
+const CODE_REGEX = /^[A-Z0-9_-]{3,32}$/
+const APPLIES_TO = ['ads', 'events', 'all']
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const code = normalizeDiscountCode(String(body.code || ''))
+    const percentOff = body.percent_off ? parseFloat(body.percent_off) : null
+    const amountOff = body.amount_off ? parseFloat(body.amount_off) : null
+
+    // Validation
+    if (!CODE_REGEX.test(code)) {
+      return NextResponse.json({ error: 'Codes are 3-32 letters, numbers, dashes or underscores' }, { status: 400 })
+    }
+    if ((percentOff === null) === (amountOff === null)) {
+      return NextResponse.json({ error: 'Set either a percent or a dollar amount off' }, { status: 400 })
+    }
+    if (percentOff !== null && (isNaN(percentOff) || percentOff <= 0 || percentOff > 100)) {
+      return NextResponse.json({ error: 'Percent off must be between 0 and 100' }, { status: 400 })
+    }
+    if (amountOff !== null && (isNaN(amountOff) || amountOff <= 0)) {
+      return NextResponse.json({ error: 'Amount off must be a positive number' }, { status: 400 })
+    }
+    if (body.applies_to && !APPLIES_TO.includes(body.applies_to)) {
+      return NextResponse.json({ error: 'Invalid applies_to value' }, { status: 400 })
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('discount_codes')
+      .insert({
+        code,
+        description: body.description || null,
+        percent_off: percentOff,
+        amount_off: amountOff,
+        applies_to: body.applies_to || 'all',
+        max_redemptions: body.max_redemptions ? parseInt(body.max_redemptions) : null,
+        starts_at: body.starts_at || null,
+        expires_at: body.expires_at || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `The code ${code} already exists` }, { status: 409 })
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ code: data })
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to create discount code',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Codes that have been used are switched off rather than edited, so past quotes still make sense
+export async function PATCH(request: Request) {
+  try {
+    const body = await request.json()
+    const { id, active } = body
+
+    if (!id || typeof active !== 'boolean') {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('discount_codes')
+      .update({ active, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ code: data })
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to update discount code',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Missing code ID' }, { status: 400 })
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('discount_codes')
+      .select('times_redeemed')
+      .eq('id', id)
+      .single()
+
+    if (existing && existing.times_redeemed > 0) {
+      return NextResponse.json({ error: 'This code has been used; deactivate it instead' }, { status: 409 })
+    }
+
+    const { error } = await supabaseAdmin
+      .from('discount_codes')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to delete discount code',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
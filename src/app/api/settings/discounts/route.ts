@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { authOptions } from '@/lib/auth'
+import { PRICING_SETTING_KEYS, getPricingSettings } from '@/lib/pricing'
+
+// Rates applied on top of list prices; the list prices themselves live on the Ads and Public Events tabs
+export async function GET() {
+  try {
+    const settings = await getPricingSettings()
+
+    const { data: codes, error } = await supabaseAdmin
+      .from('discount_codes')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({
+      settings: {
+        nonprofitDiscountPercent: settings.nonprofitDiscountPercent,
+        eventBundleMinItems: settings.eventBundleMinItems,
+        eventBundleDiscountPercent: settings.eventBundleDiscountPercent
+      },
+      codes: codes || []
+    })
+
+  } catch (error) {
+    console.error('Failed to load discount settings:', error)
+    return NextResponse.json({
+      error: 'Failed to load discount settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const nonprofitDiscountPercent = parseFloat(body.nonprofitDiscountPercent)
+    const eventBundleDiscountPercent = parseFloat(body.eventBundleDiscountPercent)
+    const eventBundleMinItems = parseInt(body.eventBundleMinItems)
+
+    if (isNaN(nonprofitDiscountPercent) || nonprofitDiscountPercent < 0 || nonprofitDiscountPercent > 100) {
+      return NextResponse.json({ error: 'Nonprofit discount must be between 0 and 100 percent' }, { status: 400 })
+    }
+    if (isNaN(eventBundleDiscountPercent) || eventBundleDiscountPercent < 0 || eventBundleDiscountPercent > 100) {
+      return NextResponse.json({ error: 'Bundle discount must be between 0 and 100 percent' }, { status: 400 })
+    }
+    if (isNaN(eventBundleMinItems) || eventBundleMinItems < 2) {
+      return NextResponse.json({ error: 'A bundle needs at least 2 promoted events' }, { status: 400 })
+    }
+
+    const settingsToSave = [
+      {
+        key: PRICING_SETTING_KEYS.nonprofitDiscountPercent,
+        value: nonprofitDiscountPercent.toString(),
+        description: 'Percent off ads and event promotions for registered nonprofits'
+      },
+      {
+        key: PRICING_SETTING_KEYS.eventBundleMinItems,
+        value: eventBundleMinItems.toString(),
+        description: 'Promoted events in one order needed for the bundle discount'
+      },
+      {
+        key: PRICING_SETTING_KEYS.eventBundleDiscountPercent,
+        value: eventBundleDiscountPercent.toString(),
+        description: 'Percent off event promotions when an order reaches the bundle size'
+      }
+    ]
+
+    for (const setting of settingsToSave) {
+      const { error } = await supabaseAdmin
+        .from('app_settings')
+        .upsert({
+          ...setting,
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'key'
+        })
+
+      if (error) {
+        throw error
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Discount settings saved successfully'
+    })
+
+  } catch (error) {
+    console.error('Failed to save discount settings:', error)
+    return NextResponse.json({
+      error: 'Failed to save discount settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
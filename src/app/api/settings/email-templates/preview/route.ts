@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EMAIL_TEMPLATES, EmailTemplateError, isEmailTemplateName, renderEmailTemplate } from '@/lib/email-templates'
+
+// Render a template with the given variables, or its sample variables; nothing is sent
+export async function POST(request: NextRequest) {
+  try {
+    const { template, variables } = await request.json()
+
+    if (!isEmailTemplateName(template)) {
+      return NextResponse.json({ error: 'Unknown email template' }, { status: 400 })
+    }
+
+    const rendered = renderEmailTemplate(template, variables || EMAIL_TEMPLATES[template].sample)
+    return NextResponse.json(rendered)
+
+  } catch (error) {
+    if (error instanceof EmailTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to preview email template:', error)
+    return NextResponse.json({
+      error: 'Failed to preview email template',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { EMAIL_TEMPLATES, isEmailTemplateName } from '@/lib/email-templates'
+
+const RECENT_EMAIL_LIMIT = 50
+
+// Templates with their sample variables, and the latest sends (optionally for one template)
+export async function GET(request: NextRequest) {
+  try {
+    const template = request.nextUrl.searchParams.get('template')
+
+    let query = supabaseAdmin
+      .from('transactional_email_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(RECENT_EMAIL_LIMIT)
+
+    if (isEmailTemplateName(template)) {
+      query = query.eq('template', template)
+    }
+
+    const { data: recent, error } = await query
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({
+      templates: Object.entries(EMAIL_TEMPLATES).map(([name, definition]) => ({
+        name,
+        label: definition.label,
+        description: definition.description,
+        required: definition.required,
+        sample: definition.sample
+      })),
+      recent: recent || []
+    })
+
+  } catch (error) {
+    console.error('Failed to load email templates:', error)
+    return NextResponse.json({
+      error: 'Failed to load email templates',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -34,8 +34,6 @@ export async function GET(request: NextRequest) {
       fromEmail: 'scoop@stcscoop.com',
       senderName: 'St. Cloud Scoop',
       reviewScheduleEnabled: 'true',
-      rssProcessingTime: '20:30',  // 8:30 PM CT
-      campaignCreationTime: '20:50',  // 8:50 PM CT
       scheduledSendTime: '21:00',  // 9:00 PM CT
       dailyScheduleEnabled: 'false',
       dailyCampaignCreationTime: '04:30',  // 4:30 AM CT
@@ -72,8 +70,8 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Validate time formats (HH:MM)
-    const timeFields = ['rssProcessingTime', 'campaignCreationTime', 'scheduledSendTime', 'dailyCampaignCreationTime', 'dailyScheduledSendTime']
+    // Validate time formats (HH:MM). Job run times are cron schedules in /api/settings/schedule
+    const timeFields = ['scheduledSendTime', 'dailyCampaignCreationTime', 'dailyScheduledSendTime']
     for (const field of timeFields) {
       if (settings[field] && !/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(settings[field])) {
         return NextResponse.json({
@@ -89,8 +87,6 @@ export async function POST(request: NextRequest) {
       { key: 'email_fromEmail', value: settings.fromEmail },
       { key: 'email_senderName', value: settings.senderName },
       { key: 'email_reviewScheduleEnabled', value: settings.reviewScheduleEnabled ? 'true' : 'false' },
-      { key: 'email_rssProcessingTime', value: settings.rssProcessingTime },
-      { key: 'email_campaignCreationTime', value: settings.campaignCreationTime },
       { key: 'email_scheduledSendTime', value: settings.scheduledSendTime },
       { key: 'email_dailyScheduleEnabled', value: settings.dailyScheduleEnabled ? 'true' : 'false' },
       { key: 'email_dailyCampaignCreationTime', value: settings.dailyCampaignCreationTime },
@@ -132,11 +128,9 @@ export async function POST(request: NextRequest) {
             details: {
               scheduling_updated: true,
               times: {
-                rss: settings.rssProcessingTime,
-                campaign: settings.campaignCreationTime,
-                send: settings.scheduledSendTime
-              },
-              note: 'Subject line generation fixed at RSS+15min'
+                send: settings.scheduledSendTime,
+                daily_send: settings.dailyScheduledSendTime
+              }
             }
           }])
       }
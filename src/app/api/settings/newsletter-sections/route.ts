@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { authOptions } from '@/lib/auth'
+import { isValidRendererKey, SECTION_RENDERERS } from '@/lib/newsletter-sections'
+import { resolvePublication } from '@/lib/publications'
 
 export async function GET(request: NextRequest) {
   try {
@@ -10,10 +12,13 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Fetch active newsletter sections ordered by display_order
+    const publication = await resolvePublication(new URL(request.url).searchParams.get('publication'))
+
+    // Fetch the publication's active newsletter sections ordered by display_order
     const { data: sections, error } = await supabaseAdmin
       .from('newsletter_sections')
       .select('*')
+      .eq('publication_id', publication.id)
       .eq('is_active', true)
       .order('display_order', { ascending: true })
 
@@ -90,8 +95,46 @@ export async function PATCH(request: NextRequest) {
       })
     }
 
+    // Handle renderer key / config update for a single section
+    if (body.section_id && (body.renderer_key !== undefined || body.config !== undefined)) {
+      const { section_id, renderer_key, config } = body
+      const updates: Record<string, any> = {}
+
+      if (renderer_key !== undefined) {
+        if (renderer_key !== null && !isValidRendererKey(renderer_key)) {
+          return NextResponse.json({
+            error: `Unknown renderer_key. Valid keys: ${Object.keys(SECTION_RENDERERS).join(', ')}`
+          }, { status: 400 })
+        }
+        updates.renderer_key = renderer_key
+      }
+
+      if (config !== undefined) {
+        if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+          return NextResponse.json({
+            error: 'config must be a JSON object'
+          }, { status: 400 })
+        }
+        updates.config = config
+      }
+
+      const { error } = await supabaseAdmin
+        .from('newsletter_sections')
+        .update(updates)
+        .eq('id', section_id)
+
+      if (error) {
+        throw error
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Section renderer updated successfully'
+      })
+    }
+
     return NextResponse.json({
-      error: 'Invalid request body. Expected sections array or section_id with is_active.'
+      error: 'Invalid request body. Expected sections array, section_id with is_active, or section_id with renderer_key/config.'
     }, { status: 400 })
 
   } catch (error) {
@@ -111,7 +154,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { name, display_order = 999, is_active = true } = body
+    const { name, renderer_key, config = {}, display_order = 999, is_active = true } = body
 
     if (!name || typeof name !== 'string') {
       return NextResponse.json({
@@ -119,10 +162,25 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Check if section with this name already exists
+    if (!renderer_key || !isValidRendererKey(renderer_key)) {
+      return NextResponse.json({
+        error: `A valid renderer_key is required. Valid keys: ${Object.keys(SECTION_RENDERERS).join(', ')}`
+      }, { status: 400 })
+    }
+
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      return NextResponse.json({
+        error: 'config must be a JSON object'
+      }, { status: 400 })
+    }
+
+    const publication = await resolvePublication(body.publication)
+
+    // Check if section with this name already exists in the publication
     const { data: existingSection } = await supabaseAdmin
       .from('newsletter_sections')
       .select('id')
+      .eq('publication_id', publication.id)
       .eq('name', name)
       .single()
 
@@ -136,7 +194,10 @@ export async function POST(request: NextRequest) {
     const { data: newSection, error } = await supabaseAdmin
       .from('newsletter_sections')
       .insert([{
+        publication_id: publication.id,
         name,
+        renderer_key,
+        config,
         display_order,
         is_active
       }])
@@ -2,41 +2,19 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { supabaseAdmin } from '@/lib/supabase'
 import { authOptions } from '@/lib/auth'
+import { PRICING_SETTING_KEYS, getPricingSettings } from '@/lib/pricing'
 
 export async function GET(request: NextRequest) {
   try {
     // Public endpoint - no authentication required for GET
     // This allows the public events submission page to fetch current pricing
 
-    // Get current pricing settings from database
-    const { data: settingsRows, error } = await supabaseAdmin
-      .from('app_settings')
-      .select('key, value')
-      .in('key', ['public_event_paid_placement_price', 'public_event_featured_price'])
-
-    if (error) {
-      throw error
-    }
-
-    // Convert rows to object
-    const savedSettings: Record<string, string> = {}
-    settingsRows?.forEach(row => {
-      if (row.key === 'public_event_paid_placement_price') {
-        savedSettings.paidPlacementPrice = row.value
-      } else if (row.key === 'public_event_featured_price') {
-        savedSettings.featuredEventPrice = row.value
-      }
-    })
-
-    // Return current settings or defaults
-    const defaultSettings = {
-      paidPlacementPrice: '5',
-      featuredEventPrice: '15'
-    }
+    // Read through the pricing module so the page shows what checkout charges
+    const settings = await getPricingSettings()
 
     return NextResponse.json({
-      ...defaultSettings,
-      ...savedSettings
+      paidPlacementPrice: settings.paidPlacementPrice.toFixed(2),
+      featuredEventPrice: settings.featuredEventPrice.toFixed(2)
     })
 
   } catch (error) {
@@ -76,12 +54,12 @@ export async function POST(request: NextRequest) {
     // Save settings as individual key-value pairs
     const settingsToSave = [
       {
-        key: 'public_event_paid_placement_price',
+        key: PRICING_SETTING_KEYS.paidPlacementPrice,
         value: paidPlacementPrice.toFixed(2),
         description: 'Price for paid placement of public event submissions (3 days)'
       },
       {
-        key: 'public_event_featured_price',
+        key: PRICING_SETTING_KEYS.featuredEventPrice,
         value: featuredEventPrice.toFixed(2),
         description: 'Price for featured event status on public submissions (3 days)'
       }
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { clearPublicationCache, getPublications } from '@/lib/publications'
+
+const EDITABLE_FIELDS = [
+  'slug', 'name', 'website_url', 'logo_url', 'brand_color', 'facebook_url',
+  'sender_name', 'from_email', 'mailerlite_review_group_id', 'mailerlite_main_group_id',
+  'city', 'state', 'county', 'zip_code', 'nearby_communities', 'latitude', 'longitude',
+  'road_work_sources', 'is_default', 'active'
+] as const
+
+const REQUIRED_FIELDS = ['slug', 'name', 'website_url', 'city', 'state', 'latitude', 'longitude']
+
+/**
+ * Pick the editable fields from a request body and validate them.
+ * Empty strings become null so optional fields fall back to the global settings.
+ */
+function parsePublicationFields(body: any, isCreate: boolean): { fields?: Record<string, any>, error?: string } {
+  const fields: Record<string, any> = {}
+
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      fields[field] = body[field] === '' ? null : body[field]
+    }
+  }
+
+  if (isCreate) {
+    const missing = REQUIRED_FIELDS.filter(field => fields[field] === undefined || fields[field] === null)
+    if (missing.length > 0) {
+      return { error: `Missing required fields: ${missing.join(', ')}` }
+    }
+  }
+
+  if (fields.slug !== undefined && !/^[a-z0-9-]+$/.test(fields.slug || '')) {
+    return { error: 'Slug may only contain lowercase letters, numbers and dashes' }
+  }
+
+  for (const field of ['latitude', 'longitude']) {
+    if (fields[field] === undefined) continue
+    const value = Number(fields[field])
+    const limit = field === 'latitude' ? 90 : 180
+    if (fields[field] === null || !isFinite(value) || Math.abs(value) > limit) {
+      return { error: `${field} must be a number between -${limit} and ${limit}` }
+    }
+    fields[field] = value
+  }
+
+  if (fields.brand_color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(fields.brand_color || '')) {
+    return { error: 'brand_color must be a hex color like #1877F2' }
+  }
+
+  return { fields }
+}
+
+/**
+ * Make the publication the only default
+ */
+async function clearOtherDefaults(publicationId?: string) {
+  let query = supabaseAdmin
+    .from('publications')
+    .update({ is_default: false })
+    .eq('is_default', true)
+
+  if (publicationId) {
+    query = query.neq('id', publicationId)
+  }
+
+  const { error } = await query
+  if (error) {
+    throw error
+  }
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    clearPublicationCache()
+    const publications = await getPublications()
+
+    return NextResponse.json({ publications })
+
+  } catch (error) {
+    console.error('Failed to fetch publications:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch publications',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { fields, error: validationError } = parsePublicationFields(await request.json(), true)
+    if (validationError || !fields) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (fields.is_default) {
+      await clearOtherDefaults()
+    }
+
+    const { data: publication, error } = await supabaseAdmin
+      .from('publications')
+      .insert([fields])
+      .select('*')
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    clearPublicationCache()
+
+    return NextResponse.json({ publication }, { status: 201 })
+
+  } catch (error) {
+    console.error('Failed to create publication:', error)
+    return NextResponse.json({
+      error: 'Failed to create publication',
+      message: error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Publication id is required' }, { status: 400 })
+    }
+
+    const { fields, error: validationError } = parsePublicationFields(body, false)
+    if (validationError || !fields) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    // The default only moves by making another publication the default, so there is always one
+    if (fields.is_default === false) {
+      delete fields.is_default
+    }
+
+    if (fields.is_default) {
+      await clearOtherDefaults(body.id)
+    }
+
+    const { data: publication, error } = await supabaseAdmin
+      .from('publications')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', body.id)
+      .select('*')
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    clearPublicationCache()
+
+    return NextResponse.json({ publication })
+
+  } catch (error) {
+    console.error('Failed to update publication:', error)
+    return NextResponse.json({
+      error: 'Failed to update publication',
+      message: error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'
+    }, { status: 500 })
+  }
+}
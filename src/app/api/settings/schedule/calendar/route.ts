@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { authOptions } from '@/lib/auth'
+import { SCHEDULE_JOB_KEYS } from '@/lib/schedule-checker'
+import type { ScheduleCalendarAction } from '@/types/database'
+
+const ACTIONS: ScheduleCalendarAction[] = ['skip', 'special_edition', 'reschedule']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^([01][0-9]|2[0-3]):[0-5][0-9]$/
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const action = body.action as ScheduleCalendarAction
+    const jobKey = body.job_key || null
+    const recursYearly = !!body.recurs_yearly
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `Action must be one of: ${ACTIONS.join(', ')}` }, { status: 400 })
+    }
+    if (!DATE_PATTERN.test(body.issue_date || '')) {
+      return NextResponse.json({ error: 'Issue date is required (YYYY-MM-DD)' }, { status: 400 })
+    }
+    if (jobKey && !SCHEDULE_JOB_KEYS.includes(jobKey)) {
+      return NextResponse.json({ error: `Unknown job: ${jobKey}` }, { status: 400 })
+    }
+    if (action === 'special_edition' && !body.edition_name?.trim()) {
+      return NextResponse.json({ error: 'A special edition needs a name' }, { status: 400 })
+    }
+    if (action === 'reschedule') {
+      if (!jobKey) {
+        return NextResponse.json({ error: 'Pick the job to reschedule' }, { status: 400 })
+      }
+      if (recursYearly) {
+        return NextResponse.json({ error: 'Reschedules are one-off and cannot recur yearly' }, { status: 400 })
+      }
+      if (!DATE_PATTERN.test(body.run_date || '') || !TIME_PATTERN.test(body.run_time || '')) {
+        return NextResponse.json({ error: 'A reschedule needs a run date (YYYY-MM-DD) and time (HH:MM)' }, { status: 400 })
+      }
+    }
+
+    const { data: entry, error } = await supabaseAdmin
+      .from('schedule_calendar')
+      .insert({
+        issue_date: body.issue_date,
+        recurs_yearly: recursYearly,
+        job_key: jobKey,
+        action,
+        edition_name: action === 'special_edition' ? body.edition_name.trim() : null,
+        run_date: action === 'reschedule' ? body.run_date : null,
+        run_time: action === 'reschedule' ? body.run_time : null,
+        label: body.label?.trim() || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true, entry })
+
+  } catch (error) {
+    console.error('Failed to add calendar entry:', error)
+    return NextResponse.json({
+      error: 'Failed to add calendar entry',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Missing calendar entry ID' }, { status: 400 })
+    }
+
+    const { error } = await supabaseAdmin
+      .from('schedule_calendar')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Failed to delete calendar entry:', error)
+    return NextResponse.json({
+      error: 'Failed to delete calendar entry',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
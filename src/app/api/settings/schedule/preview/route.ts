@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ScheduleChecker, SCHEDULE_JOB_KEYS } from '@/lib/schedule-checker'
+import { validateCronExpression } from '@/lib/cron-expression'
+import type { ScheduleJobKey } from '@/types/database'
+
+/**
+ * Next runs of a job. Pass cron and mask to preview an unsaved schedule.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const jobKey = searchParams.get('job') as ScheduleJobKey
+    const count = Math.min(Math.max(Number(searchParams.get('count')) || 14, 1), 60)
+    const cron = searchParams.get('cron')
+    const mask = searchParams.get('mask')
+
+    if (!SCHEDULE_JOB_KEYS.includes(jobKey)) {
+      return NextResponse.json({ error: `Unknown job: ${jobKey}` }, { status: 400 })
+    }
+
+    if (cron) {
+      const cronError = validateCronExpression(cron)
+      if (cronError) {
+        return NextResponse.json({ error: `Invalid cron expression: ${cronError}` }, { status: 400 })
+      }
+    }
+
+    const runs = await ScheduleChecker.getUpcomingRuns(jobKey, count, {
+      cronExpression: cron || undefined,
+      issueDayMask: mask !== null ? Number(mask) : undefined
+    })
+
+    return NextResponse.json({ runs })
+
+  } catch (error) {
+    console.error('Failed to preview schedule:', error)
+    return NextResponse.json({
+      error: 'Failed to preview schedule',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { authOptions } from '@/lib/auth'
+import { ScheduleChecker, SCHEDULE_JOBS, SCHEDULE_JOB_KEYS, ALL_ISSUE_DAYS } from '@/lib/schedule-checker'
+import { validateCronExpression } from '@/lib/cron-expression'
+import type { ScheduleJobKey } from '@/types/database'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [jobs, calendar] = await Promise.all([ScheduleChecker.getJobs(), ScheduleChecker.getCalendar()])
+
+    return NextResponse.json({
+      jobs: SCHEDULE_JOB_KEYS.map(key => ({
+        ...jobs[key],
+        label: SCHEDULE_JOBS[key].label,
+        group: SCHEDULE_JOBS[key].group,
+        issue_day_offset: SCHEDULE_JOBS[key].issueDayOffset
+      })),
+      calendar
+    })
+
+  } catch (error) {
+    console.error('Failed to load schedule:', error)
+    return NextResponse.json({
+      error: 'Failed to load schedule',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { job_key, cron_expression, issue_day_mask } = await request.json()
+
+    if (!SCHEDULE_JOB_KEYS.includes(job_key)) {
+      return NextResponse.json({ error: `Unknown job: ${job_key}` }, { status: 400 })
+    }
+
+    const cronError = validateCronExpression(cron_expression || '')
+    if (cronError) {
+      return NextResponse.json({ error: `Invalid cron expression: ${cronError}` }, { status: 400 })
+    }
+
+    if (!Number.isInteger(issue_day_mask) || issue_day_mask < 0 || issue_day_mask > ALL_ISSUE_DAYS) {
+      return NextResponse.json({ error: 'issue_day_mask must be a 7-bit day-of-week mask' }, { status: 400 })
+    }
+
+    const { data: job, error } = await supabaseAdmin
+      .from('schedule_jobs')
+      .update({
+        cron_expression: cron_expression.trim().split(/\s+/).join(' '),
+        issue_day_mask,
+        updated_at: new Date().toISOString()
+      })
+      .eq('job_key', job_key as ScheduleJobKey)
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true, job })
+
+  } catch (error) {
+    console.error('Failed to save schedule:', error)
+    return NextResponse.json({
+      error: 'Failed to save schedule',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
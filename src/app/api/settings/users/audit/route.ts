@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { getPermissionAuditLog } from '@/lib/permission-audit'
+
+// GET - Recent denied requests and role changes
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || !hasPermission(session.user?.role, 'users:manage')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const limit = Math.min(parseInt(new URL(request.url).searchParams.get('limit') || '100'), 500)
+    const entries = await getPermissionAuditLog(limit)
+
+    return NextResponse.json({
+      success: true,
+      entries
+    })
+
+  } catch (error) {
+    console.error('Failed to fetch permission audit log:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
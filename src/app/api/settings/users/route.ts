@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { ROLES, isValidRole, hasPermission } from '@/lib/permissions'
+import { recordPermissionAudit } from '@/lib/permission-audit'
+
+// GET - All users with their roles
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || !hasPermission(session.user?.role, 'users:manage')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: users, error } = await supabaseAdmin
+      .from('users')
+      .select('id, email, name, role, is_active, last_login, created_at')
+      .order('email', { ascending: true })
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({
+      success: true,
+      users: users || [],
+      roles: ROLES
+    })
+
+  } catch (error) {
+    console.error('Failed to fetch users:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Change a user's role or active flag
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || !hasPermission(session.user?.role, 'users:manage')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id, role, is_active } = body
+
+    if (!id || (role === undefined && is_active === undefined)) {
+      return NextResponse.json(
+        { error: 'id and a role or is_active value are required' },
+        { status: 400 }
+      )
+    }
+
+    if (role !== undefined && !isValidRole(role)) {
+      return NextResponse.json(
+        { error: `Invalid role: ${role}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('users')
+      .select('id, email, role, is_active')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Admins can't lock themselves out
+    if (existing.email === session.user?.email && (
+      (role !== undefined && role !== 'admin') || is_active === false
+    )) {
+      return NextResponse.json(
+        { error: 'You cannot remove your own admin access' },
+        { status: 400 }
+      )
+    }
+
+    const updateData: Record<string, any> = { updated_at: new Date().toISOString() }
+    if (role !== undefined) updateData.role = role
+    if (is_active !== undefined) updateData.is_active = !!is_active
+
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .update(updateData)
+      .eq('id', id)
+      .select('id, email, name, role, is_active, last_login, created_at')
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    await recordPermissionAudit({
+      eventType: 'role_changed',
+      userEmail: session.user?.email,
+      userRole: session.user?.role,
+      method: 'PATCH',
+      path: '/api/settings/users',
+      details: {
+        target_email: existing.email,
+        previous_role: existing.role,
+        role: user.role,
+        previous_is_active: existing.is_active,
+        is_active: user.is_active
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      user,
+      message: `Updated ${existing.email}. The change applies within a few minutes.`
+    })
+
+  } catch (error) {
+    console.error('Failed to update user:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
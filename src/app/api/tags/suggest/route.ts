@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { openai } from '@/lib/openai'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { callLLMJSON, LLMResponseError } from '@/lib/llm'
+import { TagSuggestionsSchema } from '@/lib/llm-schemas'
 
 interface TagSuggestion {
   formatted_tag: string
@@ -9,6 +12,11 @@ interface TagSuggestion {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { input, existing_tags = [] } = await request.json()
 
     if (!input || typeof input !== 'string') {
@@ -62,46 +70,26 @@ For "${input}", analyze the context and suggest relevant tags from different cat
 
 Return valid JSON array only, no other text.`
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 1000,
-      temperature: 0.3
-    })
-
-    const content = response.choices[0]?.message?.content
-    if (!content) {
-      return NextResponse.json(
-        { error: 'No response from AI' },
-        { status: 500 }
-      )
-    }
-
     try {
-      // Parse AI response
-      const suggestions: TagSuggestion[] = JSON.parse(content.trim())
-
-      // Validate response format
-      if (!Array.isArray(suggestions)) {
-        throw new Error('Response is not an array')
-      }
+      const suggestions: TagSuggestion[] = await callLLMJSON('tag_suggester', prompt, TagSuggestionsSchema, {
+        maxTokens: 1000,
+        temperature: 0.3
+      })
 
-      // Validate each suggestion and filter out existing tags
+      // Filter out existing tags
       const validSuggestions = suggestions.filter(suggestion =>
-        suggestion.formatted_tag &&
-        suggestion.display_name &&
-        typeof suggestion.confidence === 'number' &&
-        !existing_tags.includes(suggestion.formatted_tag) // Filter out existing tags
+        !existing_tags.includes(suggestion.formatted_tag)
       )
 
       // Return only the AI-generated contextual suggestions (no direct input formatting)
-      const finalSuggestions = validSuggestions
-
-      return NextResponse.json({ suggestions: finalSuggestions })
+      return NextResponse.json({ suggestions: validSuggestions })
 
     } catch (parseError) {
-      console.error('Failed to parse AI tag suggestions:', parseError)
-      console.error('AI response:', content)
+      if (!(parseError instanceof LLMResponseError)) {
+        throw parseError
+      }
+      console.error('Failed to parse AI tag suggestions:', parseError.message)
+      console.error('AI response:', parseError.raw)
 
       // Fallback: If AI parsing fails, return contextual suggestions based on common patterns
       // But avoid simple prefix formatting - try to be contextual
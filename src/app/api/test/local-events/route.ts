@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { supabaseAdmin } from '@/lib/supabase'
+import { eventOccursOn } from '@/lib/newsletter-calendar'
 
 async function generateLocalEventsSection(): Promise<string> {
   try {
@@ -141,14 +142,7 @@ async function generateLocalEventsSection(): Promise<string> {
     const eventsByDate: { [key: string]: any[] } = {}
 
     dates.forEach(date => {
-      const dateStart = new Date(date + 'T00:00:00-05:00')
-      const dateEnd = new Date(date + 'T23:59:59-05:00')
-
-      const eventsForDate = availableEvents.filter(event => {
-        const eventStart = new Date(event.start_date)
-        const eventEnd = event.end_date ? new Date(event.end_date) : eventStart
-        return (eventStart <= dateEnd && eventEnd >= dateStart)
-      })
+      const eventsForDate = availableEvents.filter(event => eventOccursOn(event, date))
 
       eventsByDate[date] = eventsForDate.slice(0, 6) // Max 6 events per day for testing
     })
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { AI_PROMPTS, callOpenAI } from '@/lib/openai'
+import { AI_PROMPTS } from '@/lib/openai'
+import { callLLMJSON, LLMResponseError } from '@/lib/llm'
+import { RoadWorkEntriesSchema } from '@/lib/llm-schemas'
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,43 +14,27 @@ export async function GET(request: NextRequest) {
     const prompt = await AI_PROMPTS.roadWorkGenerator(campaignDate)
     console.log('Calling AI for road work generation...')
 
-    const aiResponse = await callOpenAI(prompt, 3000, 0.7)
-    console.log('AI response received:', typeof aiResponse)
-
-    // Parse AI response
     let roadWorkItems: any[] = []
     let parseError = null
+    let rawResponse = ''
 
     try {
-      let jsonString = ''
-
-      if (typeof aiResponse === 'string') {
-        jsonString = aiResponse
-      } else if (Array.isArray(aiResponse)) {
-        roadWorkItems = aiResponse
-        jsonString = '' // Skip parsing
-      } else if (aiResponse && typeof aiResponse === 'object' && (aiResponse as any).raw) {
-        jsonString = (aiResponse as any).raw
-      } else {
-        throw new Error('Unexpected AI response format')
-      }
-
-      if (jsonString) {
-        // Remove markdown code block wrappers if present
-        const cleanedJson = jsonString
-          .replace(/^```json\s*/i, '')
-          .replace(/\s*```$/i, '')
-          .trim()
-
-        roadWorkItems = JSON.parse(cleanedJson)
-      }
+      roadWorkItems = await callLLMJSON('road_work', prompt, RoadWorkEntriesSchema, {
+        maxTokens: 3000,
+        temperature: 0.7
+      })
+      console.log('AI response received:', roadWorkItems.length, 'items')
     } catch (error) {
-      parseError = error instanceof Error ? error.message : 'Parse error'
+      if (!(error instanceof LLMResponseError)) {
+        throw error
+      }
+      parseError = error.message
+      rawResponse = error.raw.substring(0, 500)
       console.error('Failed to parse AI response:', error)
     }
 
     // Ensure we have exactly 9 items
-    if (Array.isArray(roadWorkItems) && roadWorkItems.length < 9) {
+    if (roadWorkItems.length < 9) {
       while (roadWorkItems.length < 9) {
         roadWorkItems.push({
           road_name: 'No Additional Closures',
@@ -62,17 +48,17 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    if (Array.isArray(roadWorkItems) && roadWorkItems.length > 9) {
+    if (roadWorkItems.length > 9) {
       roadWorkItems = roadWorkItems.slice(0, 9)
     }
 
     return NextResponse.json({
       success: true,
       generated_at: new Date().toISOString(),
-      total_items: Array.isArray(roadWorkItems) ? roadWorkItems.length : 0,
+      total_items: roadWorkItems.length,
       roadWorkItems: roadWorkItems,
       parseError,
-      rawResponse: typeof aiResponse === 'string' ? aiResponse.substring(0, 500) : 'Non-string response'
+      rawResponse
     })
 
   } catch (error) {
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getCampaignPublication } from '@/lib/publications'
+import { promoteTipToArticle } from '@/lib/news-tips'
+
+export const maxDuration = 60
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const { campaign_id } = await request.json()
+
+    if (!campaign_id) {
+      return NextResponse.json({ error: 'campaign_id is required' }, { status: 400 })
+    }
+
+    const { data: tip, error: tipError } = await supabaseAdmin
+      .from('news_tips')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (tipError || !tip) {
+      return NextResponse.json({ error: 'Tip not found' }, { status: 404 })
+    }
+
+    if (tip.status === 'promoted') {
+      return NextResponse.json({ error: 'Tip has already been promoted' }, { status: 409 })
+    }
+
+    const { data: campaign, error: campaignError } = await supabaseAdmin
+      .from('newsletter_campaigns')
+      .select('id, date, status, publication_id')
+      .eq('id', campaign_id)
+      .single()
+
+    if (campaignError || !campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+    }
+
+    if (campaign.status === 'sent') {
+      return NextResponse.json({ error: 'Campaign has already been sent' }, { status: 400 })
+    }
+
+    const publication = await getCampaignPublication(campaign)
+    if (publication.id !== tip.publication_id) {
+      return NextResponse.json({ error: 'Campaign belongs to a different publication than the tip' }, { status: 400 })
+    }
+
+    const { data: user } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('email', session.user.email)
+      .single()
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const { article, factCheck } = await promoteTipToArticle(tip, campaign, { id: user.id, email: session.user.email })
+
+    await supabaseAdmin
+      .from('user_activities')
+      .insert([{
+        user_id: user.id,
+        campaign_id: campaign.id,
+        action: 'news_tip_promoted',
+        details: { tip_id: tip.id, article_id: article.id, fact_check_score: factCheck.score }
+      }])
+
+    return NextResponse.json({ article, factCheck }, { status: 201 })
+
+  } catch (error) {
+    console.error('Failed to promote news tip:', error)
+    return NextResponse.json({
+      error: 'Failed to promote news tip',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+
+// Promotion has its own route; these are the moves an editor can make by hand
+const REVIEW_STATUSES = ['pending', 'rejected', 'spam']
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const { status, review_notes } = await request.json()
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Status must be one of: ${REVIEW_STATUSES.join(', ')}` }, { status: 400 })
+    }
+
+    const now = new Date().toISOString()
+    const { data: tip, error } = await supabaseAdmin
+      .from('news_tips')
+      .update({
+        status,
+        review_notes: review_notes || null,
+        reviewed_by: status === 'pending' ? null : session.user?.email || null,
+        reviewed_at: status === 'pending' ? null : now,
+        updated_at: now
+      })
+      .eq('id', id)
+      .neq('status', 'promoted')
+      .select('*')
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (!tip) {
+      return NextResponse.json({ error: 'Tip not found or already promoted' }, { status: 404 })
+    }
+
+    return NextResponse.json({ tip })
+
+  } catch (error) {
+    console.error('Failed to update news tip:', error)
+    return NextResponse.json({
+      error: 'Failed to update news tip',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { SlackNotificationService } from '@/lib/slack'
+import { resolvePublication } from '@/lib/publications'
+import { checkTipForSpam, createNewsTip, storeTipPhoto, type TipSubmission } from '@/lib/news-tips'
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const text = (formData: FormData, field: string) => {
+  const value = formData.get(field)
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const publication = await resolvePublication(searchParams.get('publication'))
+
+    let query = supabaseAdmin
+      .from('news_tips')
+      .select('*, image:images(id, cdn_url), campaign:newsletter_campaigns(id, date)')
+      .eq('publication_id', publication.id)
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (status && status !== 'all') {
+      query = query.eq('status', status)
+    }
+
+    const { data: tips, error } = await query
+    if (error) throw error
+
+    // Counts for the filter tabs
+    const { data: allTips } = await supabaseAdmin
+      .from('news_tips')
+      .select('status')
+      .eq('publication_id', publication.id)
+
+    const counts = {
+      pending: allTips?.filter(t => t.status === 'pending').length || 0,
+      promoted: allTips?.filter(t => t.status === 'promoted').length || 0,
+      rejected: allTips?.filter(t => t.status === 'rejected').length || 0,
+      spam: allTips?.filter(t => t.status === 'spam').length || 0,
+      all: allTips?.length || 0
+    }
+
+    return NextResponse.json({ tips: tips || [], counts })
+
+  } catch (error) {
+    console.error('Failed to load news tips:', error)
+    return NextResponse.json({
+      error: 'Failed to load news tips',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Public tip form; multipart so a photo can come along
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+
+    let publication
+    try {
+      publication = await resolvePublication(text(formData, 'publication') || null)
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    const submission: TipSubmission = {
+      publicationId: publication.id,
+      headline: text(formData, 'headline'),
+      details: text(formData, 'details'),
+      location: text(formData, 'location') || null,
+      sourceUrl: text(formData, 'source_url') || null,
+      submitterName: text(formData, 'submitter_name'),
+      submitterEmail: text(formData, 'submitter_email'),
+      submitterPhone: text(formData, 'submitter_phone') || null,
+      contactOk: text(formData, 'contact_ok') !== 'false',
+      honeypot: text(formData, 'website') || null,
+      startedAt: Number(text(formData, 'started_at')) || null,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+                 request.headers.get('x-real-ip') ||
+                 null
+    }
+
+    if (!submission.headline || !submission.details || !submission.submitterName) {
+      return NextResponse.json({ error: 'Headline, details and your name are required' }, { status: 400 })
+    }
+    if (!EMAIL_REGEX.test(submission.submitterEmail)) {
+      return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 })
+    }
+    if (submission.headline.length > 200 || submission.details.length > 5000) {
+      return NextResponse.json({ error: 'Please keep the headline under 200 and the details under 5,000 characters' }, { status: 400 })
+    }
+    if (submission.sourceUrl && !/^https?:\/\//i.test(submission.sourceUrl)) {
+      return NextResponse.json({ error: 'Links must start with http:// or https://' }, { status: 400 })
+    }
+
+    const spamCheck = await checkTipForSpam(submission)
+    if (spamCheck.action === 'discard') {
+      console.log('Discarded news tip that filled in the honeypot field')
+      return NextResponse.json({ success: true }, { status: 201 })
+    }
+    if (spamCheck.action === 'rate_limited') {
+      return NextResponse.json({ error: 'You\'ve sent several tips today. Please try again tomorrow.' }, { status: 429 })
+    }
+
+    let imageId: string | null = null
+    const photo = formData.get('photo')
+    if (photo && typeof photo !== 'string' && photo.size > 0) {
+      try {
+        imageId = await storeTipPhoto(photo, (photo as File).name || 'reader-tip', submission.submitterName)
+      } catch (photoError) {
+        return NextResponse.json({
+          error: photoError instanceof Error ? photoError.message : 'Photo upload failed'
+        }, { status: 400 })
+      }
+    }
+
+    const tip = await createNewsTip(submission, spamCheck.reasons, imageId)
+
+    // Flagged tips wait quietly in the spam tab
+    if (tip.status === 'pending') {
+      const slack = new SlackNotificationService()
+      await slack.sendSimpleMessage([
+        `📰 New news tip for ${publication.name}`,
+        ``,
+        `${tip.headline}`,
+        `From: ${tip.submitter_name} (${tip.submitter_email})`,
+        imageId ? `Photo attached` : '',
+        ``,
+        `Review: ${process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'}/dashboard/tips`
+      ].filter(Boolean).join('\n'))
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 })
+
+  } catch (error) {
+    console.error('News tip submission failed:', error)
+    return NextResponse.json({
+      error: 'News tip submission failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
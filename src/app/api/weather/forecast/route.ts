@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getLatestWeatherForecast, getWeatherForecastByDate } from '@/lib/weather-manager'
+import { resolvePublication } from '@/lib/publications'
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,6 +12,7 @@ export async function GET(request: NextRequest) {
 
     const searchParams = new URL(request.url).searchParams
     const campaignDate = searchParams.get('date')
+    const publication = await resolvePublication(searchParams.get('publication'))
 
     console.log('Fetching cached weather forecast for campaign date:', campaignDate || 'latest')
 
@@ -21,16 +23,16 @@ export async function GET(request: NextRequest) {
       // Weather forecasts are generated for the day after creation, so:
       // - If campaign date is 2025-09-24, look for forecast_date 2025-09-24
       // - The forecast contains weather for the 3 days starting from that date
-      forecast = await getWeatherForecastByDate(campaignDate)
+      forecast = await getWeatherForecastByDate(campaignDate, publication.id)
 
       if (!forecast) {
         // Try to find the closest forecast if exact match not found
         console.log('No exact forecast match for', campaignDate, '- trying latest available')
-        forecast = await getLatestWeatherForecast()
+        forecast = await getLatestWeatherForecast(publication.id)
       }
     } else {
       // No specific date requested, get the latest
-      forecast = await getLatestWeatherForecast()
+      forecast = await getLatestWeatherForecast(publication.id)
     }
 
     if (!forecast) {
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { generateDailyWeatherForecast } from '@/lib/weather-manager'
+import { resolvePublication } from '@/lib/publications'
 
 export async function GET(request: NextRequest) {
   console.log('🌤️ Starting weather forecast generation...')
 
   try {
     // Generate new weather forecast and save to database
-    const forecast = await generateDailyWeatherForecast()
+    const publication = await resolvePublication(new URL(request.url).searchParams.get('publication'))
+    const forecast = await generateDailyWeatherForecast(publication)
     console.log('✅ Weather forecast generated and saved:', forecast.id)
 
     return NextResponse.json({
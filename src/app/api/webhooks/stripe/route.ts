@@ -1,19 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { SlackNotificationService } from '@/lib/slack'
+import { formatCents, getNonprofitRateEin, redeemDiscountCode, withPricedPlacement } from '@/lib/pricing'
+import { IdempotencyConflictError, runIdempotent } from '@/lib/idempotency'
+import { sendTransactionalEmail } from '@/lib/transactional-email'
+import { getPortalUrl } from '@/lib/advertiser-portal'
+import {
+  confirmAdPayment,
+  confirmAdRunPurchase,
+  expireAdCheckout,
+  expireAdRunPurchase,
+  expireEventCheckout,
+  getCheckoutSessionIdForPaymentIntent,
+  reverseAdPayment,
+  reverseAdRunPurchase,
+  reverseEventPayment,
+  type PaymentReversal
+} from '@/lib/stripe-payments'
+import type { Advertisement, PricingQuote } from '@/types/database'
 
 // Stripe webhook event types we handle
 const CHECKOUT_SESSION_COMPLETED = 'checkout.session.completed'
+const CHECKOUT_SESSION_EXPIRED = 'checkout.session.expired'
+const CHARGE_REFUNDED = 'charge.refunded'
+const CHARGE_DISPUTE_CREATED = 'charge.dispute.created'
+
+const DASHBOARD_URL = process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'
 
 /**
  * Stripe Webhook Handler
  *
- * This endpoint receives webhook events from Stripe to process payment confirmations.
- * When a checkout session completes successfully, we:
- * 1. Retrieve the pending event submission from our database
- * 2. Insert the events into the events table
- * 3. Send Slack notification to admin
- * 4. Mark the pending submission as processed
+ * This endpoint receives webhook events from Stripe and drives what was paid for:
+ * - checkout.session.completed: ads move to review; runs bought in the advertiser portal are
+ *   added to their ad; pending event submissions become events
+ * - checkout.session.expired: abandoned ads and run purchases are marked expired; pending
+ *   events are dropped
+ * - charge.refunded (full refunds) and charge.dispute.created: the ad or events come down,
+ *   and an ad gives up its place in the rotation; portal run purchases lose their runs
+ *
+ * Every delivery is logged in stripe_webhook_events, and each event ID runs once through
+ * idempotency_keys, so Stripe retries and replays from the dashboard are safe.
  *
  * Security: Stripe signs all webhooks with your webhook secret.
  * Verify the signature before processing any events.
@@ -94,20 +120,28 @@ export async function POST(request: NextRequest) {
     }, { status: 400 })
   }
 
+  await logWebhookEvent(event)
+
   // Handle the event
   try {
-    switch (event.type) {
-      case CHECKOUT_SESSION_COMPLETED:
-        await handleCheckoutSessionCompleted(event.data.object)
-        break
+    const { result, replayed } = await runIdempotent(`stripe_event:${event.id}`, () => handleEvent(event))
 
-      default:
-        console.log(`[Webhook] Unhandled event type: ${event.type}`)
+    if (replayed) {
+      console.log(`[Webhook] Event ${event.id} was already processed`)
+    } else {
+      await markWebhookEvent(event.id, result.handled ? 'processed' : 'ignored')
     }
 
-    return NextResponse.json({ received: true })
+    return NextResponse.json({ received: true, replayed })
 
   } catch (error) {
+    if (error instanceof IdempotencyConflictError) {
+      // Another delivery of this event is being handled; Stripe retries later
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    await markWebhookEvent(event.id, 'failed', error instanceof Error ? error.message : String(error))
+
     console.error('[Webhook] Error processing event:', error)
     console.error('[Webhook] Error stack:', error instanceof Error ? error.stack : 'No stack trace')
     console.error('[Webhook] Error details:', JSON.stringify(error, null, 2))
@@ -119,20 +153,279 @@ export async function POST(request: NextRequest) {
   }
 }
 
+async function handleEvent(event: any): Promise<{ handled: boolean }> {
+  switch (event.type) {
+    case CHECKOUT_SESSION_COMPLETED:
+      await handleCheckoutSessionCompleted(event.data.object)
+      return { handled: true }
+
+    case CHECKOUT_SESSION_EXPIRED:
+      return { handled: await handleCheckoutSessionExpired(event.data.object) }
+
+    case CHARGE_REFUNDED:
+      return { handled: await handleChargeRefunded(event.data.object) }
+
+    case CHARGE_DISPUTE_CREATED:
+      return { handled: await handleDisputeCreated(event.data.object) }
+
+    default:
+      console.log(`[Webhook] Unhandled event type: ${event.type}`)
+      return { handled: false }
+  }
+}
+
 /**
- * Handle successful checkout session completion
- * This is where we insert the events into the database after payment is confirmed
+ * Record a delivery; a retried delivery bumps the count on the existing row
  */
+async function logWebhookEvent(event: any) {
+  const { error } = await supabaseAdmin
+    .from('stripe_webhook_events')
+    .insert({
+      id: event.id,
+      type: event.type,
+      livemode: event.livemode === true,
+      object_id: event.data?.object?.id || null,
+      payload: event
+    })
+
+  if (error?.code === '23505') {
+    const { data: existing } = await supabaseAdmin
+      .from('stripe_webhook_events')
+      .select('deliveries')
+      .eq('id', event.id)
+      .single()
+
+    await supabaseAdmin
+      .from('stripe_webhook_events')
+      .update({ deliveries: (existing?.deliveries || 1) + 1 })
+      .eq('id', event.id)
+  } else if (error) {
+    // The log is for auditing; don't fail the delivery over it
+    console.error('[Webhook] Failed to log event:', error)
+  }
+}
+
+async function markWebhookEvent(eventId: string, status: 'processed' | 'ignored' | 'failed', errorMessage?: string) {
+  await supabaseAdmin
+    .from('stripe_webhook_events')
+    .update({
+      status,
+      error: errorMessage || null,
+      processed_at: new Date().toISOString()
+    })
+    .eq('id', eventId)
+}
+
 async function handleCheckoutSessionCompleted(session: any) {
+  if (session.metadata?.type === 'advertisement') {
+    await handleAdCheckoutCompleted(session)
+  } else if (session.metadata?.type === 'ad_runs') {
+    await handleAdRunsCheckoutCompleted(session)
+  } else {
+    await handleEventCheckoutCompleted(session)
+  }
+}
+
+async function handleAdCheckoutCompleted(session: any) {
+  const ad = await confirmAdPayment(session.id)
+  if (!ad) {
+    throw new Error(`Advertisement not found for session: ${session.id}`)
+  }
+
+  console.log(`[Webhook] Ad ${ad.id} paid; now ${ad.status}`)
+
+  const nonprofitEin = getNonprofitRateEin(ad.pricing_quote)
+  const slack = new SlackNotificationService()
+  await slack.sendSimpleMessage([
+    `📣 New Paid Advertisement!`,
+    ``,
+    `Business: ${ad.business_name}`,
+    `Contact: ${ad.contact_name} (${ad.contact_email})`,
+    `${ad.times_paid} × ${ad.frequency} run`,
+    ``,
+    `💰 Payment Confirmed: ${formatCents(session.amount_total || 0)}`,
+    `Payment ID: ${session.id}`,
+    ``,
+    ...(nonprofitEin ? [`Verify nonprofit EIN ${nonprofitEin} before approving`] : []),
+    `Review: ${DASHBOARD_URL}/dashboard/databases/ads`
+  ].join('\n'))
+
+  await sendAdReceipt(ad, ad.pricing_quote, `${ad.times_paid} × ${ad.frequency} run`, session)
+}
+
+async function handleAdRunsCheckoutCompleted(session: any) {
+  const confirmed = await confirmAdRunPurchase(session.id)
+  if (!confirmed) {
+    throw new Error(`Run purchase not found for session: ${session.id}`)
+  }
+
+  const { purchase, ad } = confirmed
+  console.log(`[Webhook] Added ${purchase.times} runs to ad ${ad.id}; now ${ad.times_paid} paid`)
+
+  const slack = new SlackNotificationService()
+  await slack.sendSimpleMessage([
+    `🔁 Advertiser Bought More Runs!`,
+    ``,
+    `Business: ${ad.business_name}`,
+    `Ad: ${ad.title} (${ad.status})`,
+    `+${purchase.times} × ${ad.frequency}; ${ad.times_used} of ${ad.times_paid} runs used`,
+    ``,
+    `💰 Payment Confirmed: ${formatCents(session.amount_total || 0)}`,
+    `Payment ID: ${session.id}`
+  ].join('\n'))
+
+  await sendAdReceipt(ad, purchase.pricing_quote, `${purchase.times} additional × ${ad.frequency} run`, session)
+}
+
+async function sendAdReceipt(ad: Advertisement, quote: PricingQuote | null, item: string, session: any) {
+  const discount = (quote?.adjustments || [])
+    .map(adjustment => `${adjustment.label} −${formatCents(adjustment.amount)}`)
+    .join(', ')
+
+  await sendTransactionalEmail({
+    template: 'ad_payment_receipt',
+    to: ad.contact_email,
+    advertisementId: ad.id,
+    variables: {
+      contact_name: ad.contact_name,
+      ad_title: ad.title,
+      business_name: ad.business_name,
+      item,
+      discount,
+      amount: formatCents(session.amount_total || 0),
+      payment_reference: session.id,
+      needs_review: ad.status === 'pending_review' ? 'yes' : null,
+      portal_url: getPortalUrl()
+    }
+  })
+}
+
+async function handleCheckoutSessionExpired(session: any): Promise<boolean> {
+  const slack = new SlackNotificationService()
+
+  if (session.metadata?.type === 'advertisement') {
+    const ad = await expireAdCheckout(session.id)
+    if (!ad) return false
+
+    console.log(`[Webhook] Ad ${ad.id} checkout expired`)
+    await slack.sendSimpleMessage(`⌛ Ad checkout expired without payment: ${ad.business_name} (${ad.contact_email})`)
+    return true
+  }
+
+  if (session.metadata?.type === 'ad_runs') {
+    const purchase = await expireAdRunPurchase(session.id)
+    if (!purchase) return false
+
+    console.log(`[Webhook] Run purchase ${purchase.id} checkout expired`)
+    return true
+  }
+
+  const submission = await expireEventCheckout(session.id)
+  if (!submission) return false
+
+  console.log(`[Webhook] Dropped ${submission.events_data.length} unpaid events for session ${session.id}`)
+  await slack.sendSimpleMessage(
+    `⌛ Event checkout expired without payment: ${submission.submitter_name} (${submission.submitter_email}), ${submission.events_data.length} event(s)`
+  )
+  return true
+}
+
+async function handleChargeRefunded(charge: any): Promise<boolean> {
+  const slack = new SlackNotificationService()
+
+  // Partial refunds are goodwill credits; the ad or event stays up
+  if (!charge.refunded) {
+    await slack.sendSimpleMessage(
+      `💸 Partial refund of ${formatCents(charge.amount_refunded || 0)} on ${formatCents(charge.amount || 0)} charge ${charge.id}. Nothing was taken down.`
+    )
+    return true
+  }
+
+  return reversePayment(charge.payment_intent, 'refunded', `💸 Refunded ${formatCents(charge.amount_refunded || 0)}`)
+}
+
+async function handleDisputeCreated(dispute: any): Promise<boolean> {
+  return reversePayment(
+    dispute.payment_intent,
+    'disputed',
+    `⚠️ Payment disputed (${dispute.reason || 'no reason given'}), ${formatCents(dispute.amount || 0)}. Respond in the Stripe dashboard.`
+  )
+}
+
+/**
+ * Take down whatever a refunded or disputed payment bought, then tell Slack
+ */
+async function reversePayment(paymentIntentId: string | null, reversal: PaymentReversal, headline: string): Promise<boolean> {
+  if (!paymentIntentId) {
+    console.log(`[Webhook] ${reversal} charge has no payment intent; skipping`)
+    return false
+  }
+
+  const sessionId = await getCheckoutSessionIdForPaymentIntent(paymentIntentId)
+  if (!sessionId) {
+    console.log(`[Webhook] No checkout session for payment intent ${paymentIntentId}`)
+    return false
+  }
+
+  const slack = new SlackNotificationService()
+
+  const ad = await reverseAdPayment(sessionId, reversal)
+  if (ad) {
+    console.log(`[Webhook] Ad ${ad.id} marked ${reversal}`)
+    await slack.sendSimpleMessage([
+      headline,
+      ``,
+      `Advertisement: ${ad.business_name} - ${ad.title}`,
+      `The ad is now ${reversal} and out of the rotation.`,
+      `Payment ID: ${sessionId}`
+    ].join('\n'))
+    return true
+  }
+
+  const purchase = await reverseAdRunPurchase(sessionId, reversal)
+  if (purchase) {
+    console.log(`[Webhook] Run purchase ${purchase.id} marked ${reversal}`)
+    await slack.sendSimpleMessage([
+      headline,
+      ``,
+      `Took back ${purchase.times} run(s) bought for ad ${purchase.advertisement_id} in the advertiser portal.`,
+      `The ad stays in the rotation; review it at ${DASHBOARD_URL}/dashboard/databases/ads`,
+      `Payment ID: ${sessionId}`
+    ].join('\n'))
+    return true
+  }
+
+  const events = await reverseEventPayment(sessionId, reversal)
+  if (events.length > 0) {
+    console.log(`[Webhook] Deactivated ${events.length} ${reversal} events`)
+    await slack.sendSimpleMessage([
+      headline,
+      ``,
+      `Event${events.length > 1 ? 's' : ''} deactivated:`,
+      `  • ${events.map(e => e.title).join('\n  • ')}`,
+      `Payment ID: ${sessionId}`
+    ].join('\n'))
+    return true
+  }
+
+  console.log(`[Webhook] Nothing found for ${reversal} session ${sessionId}`)
+  return false
+}
+
+/**
+ * Handle successful checkout session completion for event submissions
+ * This is where we insert the events into the database after payment is confirmed.
+ * Each event's external_id comes from the session, so a retried delivery doesn't insert it twice.
+ */
+async function handleEventCheckoutCompleted(session: any) {
   const sessionId = session.id
   console.log(`[Webhook] Processing checkout session: ${sessionId}`)
 
-  // Retrieve the pending submission
+  // Retrieve the pending submission (already processed when an earlier attempt failed partway)
   const { data: pendingSubmission, error: fetchError } = await supabaseAdmin
     .from('pending_event_submissions')
     .select('*')
     .eq('stripe_session_id', sessionId)
-    .eq('processed', false)
     .single()
 
   if (fetchError || !pendingSubmission) {
@@ -145,9 +438,16 @@ async function handleCheckoutSessionCompleted(session: any) {
   const events = pendingSubmission.events_data
   const insertedEvents = []
 
+  // Held for review until someone verifies the organization behind the EIN
+  const nonprofitEin = getNonprofitRateEin(pendingSubmission.pricing_quote)
+
   // Insert each event into the events table
-  for (const event of events) {
-    const paymentAmount = event.paid_placement ? 5.00 : event.featured ? 15.00 : 0
+  for (let index = 0; index < events.length; index++) {
+    // Submissions stored before checkout normalized the flags still carry whatever the browser sent
+    const event = withPricedPlacement(events[index])
+
+    // Priced per event at checkout from the server-side quote
+    const paymentAmount = event.payment_amount || 0
 
     // If this is a promotion of an existing event, mark the original as inactive
     if (event.existing_event_id) {
@@ -172,10 +472,11 @@ async function handleCheckoutSessionCompleted(session: any) {
       return timestamp.replace(/T(\d{2}:\d{2}:\d{2}):\d{2}$/, 'T$1')
     }
 
-    const { data: insertedEvent, error: insertError } = await supabaseAdmin
+    const externalId = `submitted_${sessionId}_${index}`
+    const { data: inserted, error: insertError } = await supabaseAdmin
       .from('events')
-      .insert({
-        external_id: `submitted_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      .upsert({
+        external_id: externalId,
         title: event.title,
         description: event.description,
         start_date: fixTimestamp(event.start_date),
@@ -190,28 +491,55 @@ async function handleCheckoutSessionCompleted(session: any) {
         submitter_email: event.submitter_email || pendingSubmission.submitter_email,
         submitter_phone: event.submitter_phone,
         submission_status: 'pending',
-        paid_placement: event.paid_placement || false,
-        featured: event.featured || false,
-        active: true,
+        paid_placement: event.paid_placement,
+        featured: event.featured,
+        active: !nonprofitEin,
         payment_status: 'completed',
         payment_intent_id: sessionId,
         payment_amount: paymentAmount,
+        nonprofit_ein: nonprofitEin,
         raw_data: {},
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
-      })
+      }, { onConflict: 'external_id', ignoreDuplicates: true })
       .select()
-      .single()
 
     if (insertError) {
       console.error('[Webhook] Error inserting event:', insertError)
       throw insertError
     }
 
-    insertedEvents.push(insertedEvent)
+    if (!inserted || inserted.length === 0) {
+      // Inserted by an earlier attempt at this delivery; leave any review changes alone
+      console.log(`[Webhook] Event already inserted: ${event.title}`)
+      continue
+    }
+
+    insertedEvents.push(inserted[0])
     console.log(`[Webhook] Inserted event: ${event.title}${event.existing_event_id ? ' (promoted from existing)' : ''}`)
   }
 
+  // Mark the pending submission as processed; only the attempt that does so redeems the discount
+  const { data: markedProcessed, error: updateError } = await supabaseAdmin
+    .from('pending_event_submissions')
+    .update({
+      processed: true,
+      processed_at: new Date().toISOString()
+    })
+    .eq('id', pendingSubmission.id)
+    .eq('processed', false)
+    .select('id')
+
+  if (updateError) {
+    console.error('[Webhook] Failed to mark submission as processed:', updateError)
+    // Don't throw - events are already inserted
+  }
+
+  const discountCode = pendingSubmission.pricing_quote?.discount_code
+  if (discountCode && markedProcessed && markedProcessed.length > 0 && !(await redeemDiscountCode(discountCode))) {
+    console.warn(`[Webhook] Discount code ${discountCode} was over its limit when payment completed`)
+  }
+
   // Send Slack notification
   const totalAmount = pendingSubmission.total_amount
   const eventTitles = events.map((e: any) => e.title).join('\n  • ')
@@ -229,25 +557,12 @@ async function handleCheckoutSessionCompleted(session: any) {
     `Event${events.length > 1 ? 's' : ''} (${events.length}):`,
     `  • ${eventTitles}`,
     ``,
-    `Review: ${process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'}/dashboard/events/review`
+    ...(nonprofitEin ? [`Held for review: verify nonprofit EIN ${nonprofitEin} before approving`] : []),
+    `Review: ${DASHBOARD_URL}/dashboard/events/review`
   ].join('\n')
 
   await slack.sendSimpleMessage(message)
   console.log('[Webhook] Slack notification sent')
 
-  // Mark the pending submission as processed
-  const { error: updateError } = await supabaseAdmin
-    .from('pending_event_submissions')
-    .update({
-      processed: true,
-      processed_at: new Date().toISOString()
-    })
-    .eq('id', pendingSubmission.id)
-
-  if (updateError) {
-    console.error('[Webhook] Failed to mark submission as processed:', updateError)
-    // Don't throw - events are already inserted
-  }
-
   console.log(`[Webhook] Successfully processed ${insertedEvents.length} events`)
 }
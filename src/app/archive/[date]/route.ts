@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getArchivedNewsletter } from '@/lib/newsletter-archive'
+import { resolvePublication } from '@/lib/publications'
+
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ date: string }> }
+) {
+  try {
+    const { date } = await props.params
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'Invalid date format. Use YYYY-MM-DD' }, { status: 400 })
+    }
+
+    let publication
+    try {
+      publication = await resolvePublication(request.nextUrl.searchParams.get('publication'))
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    const archive = await getArchivedNewsletter(publication, date)
+
+    if (!archive) {
+      return NextResponse.json({ error: 'Newsletter not found' }, { status: 404 })
+    }
+
+    const format = request.nextUrl.searchParams.get('format')
+
+    if (format === 'text') {
+      return new NextResponse(archive.text_content, {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Cache-Control': 'public, max-age=3600'
+        }
+      })
+    }
+
+    return new NextResponse(archive.html_content, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600'
+      }
+    })
+
+  } catch (error) {
+    console.error('Archive fetch error:', error)
+    return NextResponse.json(
+      { error: `Failed to load newsletter: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listArchivedNewsletters, generateArchiveFeed } from '@/lib/newsletter-archive'
+import { resolvePublication } from '@/lib/publications'
+
+export async function GET(request: NextRequest) {
+  try {
+    let publication
+    try {
+      publication = await resolvePublication(request.nextUrl.searchParams.get('publication'))
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    const archives = await listArchivedNewsletters(publication, 50)
+    const feed = generateArchiveFeed(publication, archives)
+
+    return new NextResponse(feed, {
+      headers: {
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600'
+      }
+    })
+
+  } catch (error) {
+    console.error('Archive feed error:', error)
+    return NextResponse.json(
+      { error: `Failed to generate feed: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listArchivedNewsletters, getArchiveUrl, getArchiveFeedUrl } from '@/lib/newsletter-archive'
+import { resolvePublication } from '@/lib/publications'
+
+export async function GET(request: NextRequest) {
+  try {
+    let publication
+    try {
+      publication = await resolvePublication(request.nextUrl.searchParams.get('publication'))
+    } catch {
+      return NextResponse.json({ error: 'Unknown publication' }, { status: 404 })
+    }
+
+    const archives = await listArchivedNewsletters(publication, 365)
+
+    const issuesHtml = archives.map(archive => {
+      const [year, month, day] = archive.campaign_date.split('-').map(Number)
+      const formattedDate = new Date(year, month - 1, day).toLocaleDateString('en-US', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+      })
+
+      return `
+    <li style="padding: 12px 0; border-bottom: 1px solid #eee;">
+      <a href="${getArchiveUrl(archive.campaign_date, publication.slug)}" style="color: ${publication.brand_color}; font-weight: bold; text-decoration: none;">${formattedDate}</a><br>
+      <span style="color: #555;">${archive.subject_line || ''}</span>
+    </li>`
+    }).join('')
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${publication.name} - Past Issues</title>
+  <link rel="alternate" type="application/rss+xml" title="${publication.name}" href="${getArchiveFeedUrl(publication.slug)}" />
+</head>
+<body style="margin: 0; padding: 20px; background-color: #f7f7f7; font-family: Arial, sans-serif;">
+  <div style="max-width: 700px; margin: 0 auto; background: #fff; border-radius: 8px; padding: 20px;">
+    <h1 style="color: ${publication.brand_color}; margin-top: 0;">${publication.name} - Past Issues</h1>
+    <p><a href="${getArchiveFeedUrl(publication.slug)}" style="color: #555;">RSS feed</a></p>
+    <ul style="list-style: none; padding: 0; margin: 0;">${issuesHtml || '<li>No past issues yet.</li>'}
+    </ul>
+  </div>
+</body>
+</html>`
+
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600'
+      }
+    })
+
+  } catch (error) {
+    console.error('Archive index error:', error)
+    return NextResponse.json(
+      { error: `Failed to load archive: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,263 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Layout from '@/components/Layout'
+import type { AdminOperationSummary, OperationResult } from '@/lib/admin-operations'
+import type { NewsletterCampaign, SystemLog } from '@/types/database'
+
+interface RunOutcome {
+  dryRun: boolean
+  result?: OperationResult
+  error?: string
+}
+
+export default function AdminPage() {
+  const [operations, setOperations] = useState<AdminOperationSummary[]>([])
+  const [logs, setLogs] = useState<SystemLog[]>([])
+  const [campaigns, setCampaigns] = useState<NewsletterCampaign[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchOperations = async () => {
+    try {
+      const response = await fetch('/api/admin/operations')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load operations')
+      }
+      setOperations(data.operations)
+      setLogs(data.logs)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load operations')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchOperations()
+    fetch('/api/campaigns?limit=30')
+      .then(response => response.json())
+      .then(data => setCampaigns(data.campaigns || []))
+      .catch(error => console.error('Failed to fetch campaigns:', error))
+  }, [])
+
+  const categories = Array.from(new Set(operations.map(op => op.category)))
+
+  return (
+    <Layout>
+      <div className="px-4 py-6 sm:px-0">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Admin Console</h1>
+          <p className="text-gray-600 mt-1">
+            Maintenance operations. Preview any change with a dry run first; every run is recorded in the system logs.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded p-4 mb-6">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {categories.map(category => (
+              <div key={category}>
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">{category}</h2>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  {operations.filter(op => op.category === category).map(operation => (
+                    <OperationCard
+                      key={operation.key}
+                      operation={operation}
+                      campaigns={campaigns}
+                      onCompleted={fetchOperations}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Recent Runs</h2>
+              <div className="bg-white shadow rounded-lg overflow-hidden">
+                {logs.length === 0 ? (
+                  <p className="p-4 text-sm text-gray-500">No operations have been run yet.</p>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Time</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">User</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {logs.map(log => (
+                        <tr key={log.id}>
+                          <td className="px-4 py-2 whitespace-nowrap text-gray-500">
+                            {new Date(log.timestamp).toLocaleString()}
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap text-gray-700">{log.context?.user || '-'}</td>
+                          <td className={`px-4 py-2 ${log.level === 'error' ? 'text-red-600' : 'text-gray-900'}`}>
+                            {log.message}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  )
+}
+
+function OperationCard({ operation, campaigns, onCompleted }: {
+  operation: AdminOperationSummary
+  campaigns: NewsletterCampaign[]
+  onCompleted: () => void
+}) {
+  const [values, setValues] = useState<Record<string, any>>({})
+  const [running, setRunning] = useState(false)
+  const [outcome, setOutcome] = useState<RunOutcome | null>(null)
+
+  const run = async (dryRun: boolean) => {
+    let confirm: string | undefined
+    if (operation.mutates && !dryRun) {
+      const typed = prompt(`This will change live data. Type "${operation.key}" to confirm.`)
+      if (typed === null) return
+      confirm = typed
+    }
+
+    setRunning(true)
+    try {
+      const response = await fetch('/api/admin/operations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operation: operation.key, params: values, dry_run: dryRun, confirm })
+      })
+      const data = await response.json()
+      setOutcome(response.ok
+        ? { dryRun: data.dry_run, result: data.result }
+        : { dryRun, error: data.error || 'Operation failed' })
+    } catch (error) {
+      setOutcome({ dryRun, error: error instanceof Error ? error.message : 'Operation failed' })
+    } finally {
+      setRunning(false)
+      onCompleted()
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <div className="flex items-start justify-between">
+        <h3 className="font-medium text-gray-900">{operation.name}</h3>
+        {!operation.mutates && (
+          <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">Read only</span>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mt-1 mb-3">{operation.description}</p>
+
+      {operation.params.map(param => (
+        <div key={param.name} className="mb-3">
+          {param.type === 'boolean' ? (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!values[param.name]}
+                onChange={(e) => setValues({ ...values, [param.name]: e.target.checked })}
+                className="mr-2"
+              />
+              {param.label}
+              {param.description && <span className="text-gray-500 ml-1">- {param.description}</span>}
+            </label>
+          ) : (
+            <>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {param.label}{param.required && ' *'}
+              </label>
+              {param.type === 'campaign' || param.type === 'select' ? (
+                <select
+                  value={values[param.name] || ''}
+                  onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  <option value="">Select...</option>
+                  {param.type === 'campaign'
+                    ? campaigns.map(campaign => (
+                        <option key={campaign.id} value={campaign.id}>
+                          {campaign.date} ({campaign.status})
+                        </option>
+                      ))
+                    : param.options?.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                </select>
+              ) : (
+                <input
+                  type={param.type === 'number' ? 'number' : 'text'}
+                  value={values[param.name] ?? ''}
+                  onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                />
+              )}
+            </>
+          )}
+        </div>
+      ))}
+
+      <div className="flex space-x-2">
+        {operation.mutates ? (
+          <>
+            <button
+              onClick={() => run(true)}
+              disabled={running}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-2 rounded text-sm font-medium disabled:opacity-50"
+            >
+              Dry Run
+            </button>
+            <button
+              onClick={() => run(false)}
+              disabled={running}
+              className="bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded text-sm font-medium disabled:opacity-50"
+            >
+              Execute
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => run(false)}
+            disabled={running}
+            className="bg-brand-primary hover:bg-blue-700 text-white px-3 py-2 rounded text-sm font-medium disabled:opacity-50"
+          >
+            Run
+          </button>
+        )}
+        {running && <span className="text-sm text-gray-500 self-center">Running...</span>}
+      </div>
+
+      {outcome && (
+        <div className={`mt-3 rounded p-3 text-sm ${
+          outcome.error ? 'bg-red-50 text-red-700' : outcome.dryRun ? 'bg-yellow-50 text-yellow-800' : 'bg-green-50 text-green-800'
+        }`}>
+          {outcome.error ? outcome.error : (
+            <>
+              <p className="font-medium">{outcome.dryRun && operation.mutates ? 'Dry run: ' : ''}{outcome.result?.summary}</p>
+              {outcome.result?.details && (
+                <pre className="mt-2 text-xs whitespace-pre-wrap overflow-x-auto">
+                  {JSON.stringify(outcome.result.details, null, 2)}
+                </pre>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
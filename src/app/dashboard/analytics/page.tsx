@@ -15,6 +15,13 @@ interface FeedbackAnalytics {
   sectionCounts: { [key: string]: number }
   dailyResponses: { [key: string]: number }
   recentResponses: any[]
+  ratedResponses: number
+  averageRating: number | null
+  ratingDistribution: { [rating: string]: number }
+  dailyRatings: { date: string; averageRating: number; ratings: number }[]
+  weekdayRatings: { weekday: string; averageRating: number; ratings: number }[]
+  articleRatings: { headline: string; date: string; averageRating: number; ratings: number }[]
+  recentComments: { campaign_date: string; rating: number | null; comment: string }[]
   dateRange: { start: string; end: string }
 }
 
@@ -337,13 +344,19 @@ export default function AnalyticsPage() {
                 </h3>
 
                 {/* Summary Stats */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
                   <div className="bg-blue-50 p-4 rounded-lg">
                     <div className="text-2xl font-bold text-blue-600 mb-1">
                       {feedbackAnalytics.totalResponses}
                     </div>
                     <div className="text-sm text-gray-600">Total Responses</div>
                   </div>
+                  <div className="bg-yellow-50 p-4 rounded-lg">
+                    <div className="text-2xl font-bold text-yellow-600 mb-1">
+                      {feedbackAnalytics.averageRating !== null ? `${feedbackAnalytics.averageRating.toFixed(2)} / 5` : 'N/A'}
+                    </div>
+                    <div className="text-sm text-gray-600">Average Issue Rating ({feedbackAnalytics.ratedResponses})</div>
+                  </div>
                   <div className="bg-green-50 p-4 rounded-lg">
                     <div className="text-2xl font-bold text-green-600 mb-1">
                       {feedbackAnalytics.syncSuccessRate.toFixed(1)}%
@@ -384,6 +397,92 @@ export default function AnalyticsPage() {
                   </div>
                 </div>
 
+                {/* Rating Trend */}
+                {feedbackAnalytics.dailyRatings.length > 0 && (
+                  <div className="mb-6">
+                    <h4 className="font-medium text-gray-900 mb-3">Issue Rating Trend</h4>
+                    <div className="space-y-2">
+                      {feedbackAnalytics.dailyRatings.map(day => (
+                        <div key={day.date}>
+                          <div className="flex justify-between text-sm mb-1">
+                            <span className="font-medium text-gray-700">{formatDate(day.date)}</span>
+                            <span className="text-gray-600">{day.averageRating.toFixed(2)} ({day.ratings} ratings)</span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div
+                              className="bg-yellow-500 rounded-full h-2"
+                              style={{ width: `${(day.averageRating / 5) * 100}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Ratings by Weekday */}
+                {feedbackAnalytics.weekdayRatings.length > 0 && (
+                  <div className="mb-6">
+                    <h4 className="font-medium text-gray-900 mb-3">Ratings by Weekday</h4>
+                    <div className="grid grid-cols-2 md:grid-cols-7 gap-2">
+                      {feedbackAnalytics.weekdayRatings.map(weekday => (
+                        <div key={weekday.weekday} className="bg-gray-50 p-3 rounded-lg text-center">
+                          <div className="text-xs text-gray-500">{weekday.weekday}</div>
+                          <div className="text-lg font-bold text-gray-900">{weekday.averageRating.toFixed(2)}</div>
+                          <div className="text-xs text-gray-500">{weekday.ratings} ratings</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Ratings by Article */}
+                {feedbackAnalytics.articleRatings.length > 0 && (
+                  <div className="mb-6">
+                    <h4 className="font-medium text-gray-900 mb-1">Ratings by Article</h4>
+                    <p className="text-xs text-gray-500 mb-3">Average rating of the issues each article ran in</p>
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Article</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Issue</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rating</th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {feedbackAnalytics.articleRatings.slice(0, 15).map((article, idx) => (
+                            <tr key={idx}>
+                              <td className="px-4 py-2 text-sm text-gray-900">{article.headline}</td>
+                              <td className="px-4 py-2 text-sm text-gray-600">{formatDate(article.date)}</td>
+                              <td className="px-4 py-2 text-sm text-gray-900">
+                                {article.averageRating.toFixed(2)} <span className="text-gray-500">({article.ratings})</span>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
+                {/* Recent Comments */}
+                {feedbackAnalytics.recentComments.length > 0 && (
+                  <div className="mb-6">
+                    <h4 className="font-medium text-gray-900 mb-3">Recent Comments</h4>
+                    <div className="space-y-3">
+                      {feedbackAnalytics.recentComments.map((comment, idx) => (
+                        <div key={idx} className="border-l-4 border-gray-200 pl-3">
+                          <div className="text-xs text-gray-500 mb-1">
+                            {formatDate(comment.campaign_date)}{comment.rating ? ` · rated ${comment.rating}/5` : ''}
+                          </div>
+                          <p className="text-sm text-gray-800 whitespace-pre-wrap">{comment.comment}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Recent Responses */}
                 {feedbackAnalytics.recentResponses.length > 0 && (
                   <div>
@@ -393,7 +492,8 @@ export default function AnalyticsPage() {
                         <thead className="bg-gray-50">
                           <tr>
                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
-                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Section</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rating</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sections</th>
                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Synced</th>
                           </tr>
                         </thead>
@@ -404,7 +504,10 @@ export default function AnalyticsPage() {
                                 {formatDate(response.campaign_date)}
                               </td>
                               <td className="px-4 py-2 text-sm text-gray-900">
-                                {response.section_choice}
+                                {response.rating ? `${response.rating}/5` : '—'}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-gray-900">
+                                {response.liked_sections?.length > 0 ? response.liked_sections.join(', ') : response.section_choice || '—'}
                               </td>
                               <td className="px-4 py-2 text-sm">
                                 {response.mailerlite_updated ? (
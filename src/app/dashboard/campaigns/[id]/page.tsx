@@ -4,7 +4,8 @@ import { useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Layout from '@/components/Layout'
 import DeleteCampaignModal from '@/components/DeleteCampaignModal'
-import type { CampaignWithArticles, ArticleWithPost, CampaignEvent, Event, NewsletterSection } from '@/types/database'
+import { getCampaignDates, eventOccursOn, formatCalendarDate } from '@/lib/newsletter-calendar'
+import type { CampaignWithArticles, ArticleWithPost, CampaignEvent, Event, NewsletterSection, PipelineJob, PipelineJobStep } from '@/types/database'
 import {
   DndContext,
   closestCenter,
@@ -831,27 +832,10 @@ function EventsManager({
 
   // Calculate 3-day range starting from the newsletter date (campaign.date)
   // Day 1: Newsletter date, Day 2: Next day, Day 3: Day after that
-  const newsletterDate = new Date(campaign.date + 'T00:00:00') // Parse as local date
-
-  const dates = []
-  for (let i = 0; i <= 2; i++) {
-    const date = new Date(newsletterDate)
-    date.setDate(newsletterDate.getDate() + i)
-    dates.push(date.toISOString().split('T')[0])
-  }
+  const dates = getCampaignDates(campaign.date)
 
   const getEventsForDate = (date: string) => {
-    // Create date range in Central Time (UTC-5)
-    const dateStart = new Date(date + 'T00:00:00-05:00')
-    const dateEnd = new Date(date + 'T23:59:59-05:00')
-
-    return availableEvents.filter(event => {
-      const eventStart = new Date(event.start_date)
-      const eventEnd = event.end_date ? new Date(event.end_date) : eventStart
-
-      // Event overlaps with this date
-      return (eventStart <= dateEnd && eventEnd >= dateStart)
-    })
+    return availableEvents.filter(event => eventOccursOn(event, date))
   }
 
   const getSelectedEventsForDate = (date: string) => {
@@ -959,8 +943,7 @@ function EventsManager({
   }
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString + 'T00:00:00')
-    return date.toLocaleDateString('en-US', {
+    return formatCalendarDate(dateString, {
       weekday: 'short',
       month: 'short',
       day: 'numeric'
@@ -1116,6 +1099,25 @@ function EventsManager({
 }
 
 // Regular Article Component (for inactive articles)
+// Flags a story that matched one from a recent newsletter during duplicate detection
+function AlreadyRanBadge({ article }: { article: ArticleWithPost }) {
+  const match = article.rss_post?.post_history_matches?.[0]
+  if (!match) return null
+
+  const ranOn = match.matched_campaign_date
+    ? new Date(match.matched_campaign_date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    : 'a recent issue'
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800 whitespace-nowrap"
+      title={`Matches "${match.matched_headline || 'an earlier article'}" (${Math.round(match.similarity_score * 100)}% similar)`}
+    >
+      Already ran on {ranOn}
+    </span>
+  )
+}
+
 function RegularArticle({
   article,
   toggleArticle,
@@ -1172,6 +1174,7 @@ function RegularArticle({
               <h3 className="text-lg font-medium text-gray-900 pr-2">
                 {article.headline}
               </h3>
+              <AlreadyRanBadge article={article} />
             </div>
             {article.rss_post?.post_rating?.[0] && (
               <div className="flex space-x-1 text-xs flex-shrink-0">
@@ -1322,6 +1325,7 @@ function SortableArticle({
                   <h3 className="text-lg font-medium text-gray-900 pr-2">
                     {article.headline}
                   </h3>
+                  <AlreadyRanBadge article={article} />
                 </div>
                 {article.rss_post?.post_rating?.[0] && (
                   <div className="flex space-x-1 text-xs flex-shrink-0">
@@ -1412,6 +1416,7 @@ export default function CampaignDetailPage() {
   const [saving, setSaving] = useState(false)
   const [processing, setProcessing] = useState(false)
   const [processingStatus, setProcessingStatus] = useState('')
+  const [pipeline, setPipeline] = useState<{ job: PipelineJob, steps: (PipelineJobStep & { label: string })[] } | null>(null)
   const [previewHtml, setPreviewHtml] = useState<string | null>(null)
   const [showPreview, setShowPreview] = useState(false)
   const [generatingSubject, setGeneratingSubject] = useState(false)
@@ -1459,9 +1464,30 @@ export default function CampaignDetailPage() {
       fetchCampaign(params.id as string)
       fetchCampaignEvents(params.id as string)
       fetchNewsletterSections()
+      fetchPipelineStatus(params.id as string)
     }
   }, [params.id])
 
+  // Keep the step panel current while the nightly pipeline is still running
+  useEffect(() => {
+    if (!params.id || !pipeline || !['pending', 'running'].includes(pipeline.job.status)) return
+
+    const interval = setInterval(() => fetchPipelineStatus(params.id as string), 30000)
+    return () => clearInterval(interval)
+  }, [params.id, pipeline?.job.status])
+
+  const fetchPipelineStatus = async (id: string) => {
+    try {
+      const response = await fetch(`/api/rss/status/${id}`)
+      if (response.ok) {
+        const data = await response.json()
+        setPipeline(data.pipeline)
+      }
+    } catch (error) {
+      console.error('Failed to fetch pipeline status:', error)
+    }
+  }
+
   const fetchCampaign = async (id: string) => {
     try {
       const response = await fetch(`/api/campaigns/${id}`)
@@ -1679,6 +1705,7 @@ export default function CampaignDetailPage() {
           const statusResponse = await fetch(`/api/rss/status/${campaign.id}`)
           if (statusResponse.ok) {
             const statusData = await statusResponse.json()
+            setPipeline(statusData.pipeline)
 
             if (statusData.counts.posts > 0) {
               setProcessingStatus(`Found ${statusData.counts.posts} posts, evaluating with AI...`)
@@ -1842,14 +1869,7 @@ export default function CampaignDetailPage() {
 
     // Calculate 3-day range starting from the newsletter date (campaign.date)
     // Day 1: Newsletter date, Day 2: Next day, Day 3: Day after that
-    const newsletterDate = new Date(campaign.date + 'T00:00:00') // Parse as local date
-
-    const dates = []
-    for (let i = 0; i <= 2; i++) {
-      const date = new Date(newsletterDate)
-      date.setDate(newsletterDate.getDate() + i)
-      const dateStr = date.toISOString().split('T')[0]
-
+    return getCampaignDates(campaign.date).map(dateStr => {
       // Count selected events for this date
       const eventCount = campaignEvents.filter(ce =>
         ce.event_date === dateStr && ce.is_selected
@@ -1860,30 +1880,21 @@ export default function CampaignDetailPage() {
       if (eventCount === 8) colorClass = 'text-green-600'
       else if (eventCount > 0) colorClass = 'text-yellow-600'
 
-      dates.push({
+      return {
         date: dateStr,
-        dayName: date.toLocaleDateString('en-US', { weekday: 'short' }),
-        monthDay: date.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' }),
+        dayName: formatCalendarDate(dateStr, { weekday: 'short' }),
+        monthDay: formatCalendarDate(dateStr, { month: 'numeric', day: 'numeric' }),
         count: eventCount,
         colorClass
-      })
-    }
-
-    return dates
+      }
+    })
   }
 
   const handleEventsExpand = () => {
     if (!eventsExpanded && campaign) {
       // Calculate 3-day range starting from the newsletter date (campaign.date)
       // Day 1: Newsletter date, Day 2: Next day, Day 3: Day after that
-      const newsletterDate = new Date(campaign.date + 'T00:00:00') // Parse as local date
-
-      const dates = []
-      for (let i = 0; i <= 2; i++) {
-        const date = new Date(newsletterDate)
-        date.setDate(newsletterDate.getDate() + i)
-        dates.push(date.toISOString().split('T')[0])
-      }
+      const dates = getCampaignDates(campaign.date)
 
       const startDateStr = dates[0]
       const endDateStr = dates[dates.length - 1]
@@ -1899,7 +1910,7 @@ export default function CampaignDetailPage() {
       setLoadingWeather(true)
       try {
         // Fetch cached weather data for the campaign date
-        const response = await fetch(`/api/weather/forecast?date=${campaign.date}`)
+        const response = await fetch(`/api/weather/forecast?date=${campaign.date}${campaign.publication_id ? `&publication=${campaign.publication_id}` : ''}`)
         const data = await response.json()
 
         if (data.success) {
@@ -2272,6 +2283,52 @@ export default function CampaignDetailPage() {
             </div>
           )}
 
+          {pipeline && (
+            <div className="mt-4 p-3 bg-gray-50 rounded">
+              <div className="flex justify-between items-center mb-2">
+                <div className="text-sm text-gray-600">Nightly Pipeline</div>
+                <span className={`text-xs font-medium px-2 py-1 rounded ${
+                  pipeline.job.status === 'completed' ? 'bg-green-100 text-green-800' :
+                  pipeline.job.status === 'failed' ? 'bg-red-100 text-red-800' :
+                  'bg-blue-100 text-blue-800'
+                }`}>
+                  {pipeline.job.status}
+                </span>
+              </div>
+              <ol className="space-y-1">
+                {pipeline.steps.map(step => (
+                  <li key={step.id} className="flex justify-between items-start text-sm">
+                    <div>
+                      <span className={
+                        step.status === 'completed' ? 'text-green-700' :
+                        step.status === 'failed' ? 'text-red-700' :
+                        step.status === 'running' ? 'text-blue-700 font-medium' :
+                        'text-gray-500'
+                      }>
+                        {step.status === 'completed' ? '✓' : step.status === 'failed' ? '✗' : step.status === 'running' ? '▶' : '○'} {step.label}
+                      </span>
+                      {step.result?.skipped && (
+                        <span className="text-xs text-gray-400 ml-2">skipped</span>
+                      )}
+                      {step.status !== 'completed' && (step.result?.remaining || 0) > 0 && (
+                        <span className="text-xs text-gray-500 ml-2">{step.result?.remaining} posts remaining</span>
+                      )}
+                      {step.last_error && (
+                        <div className="text-xs text-red-600 ml-4">{step.last_error}</div>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 whitespace-nowrap ml-2">
+                      {step.attempts > 0 && `${step.attempts}/${step.max_attempts} attempts`}
+                      {step.status === 'pending' && step.next_attempt_at && (
+                        <span className="ml-2">retry {new Date(step.next_attempt_at).toLocaleTimeString()}</span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Subject Line Section */}
           <div className="mt-4 p-3 bg-gray-50 rounded">
             <div className="flex justify-between items-start">
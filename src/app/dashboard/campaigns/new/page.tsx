@@ -3,16 +3,14 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Layout from '@/components/Layout'
+import { getCentralDate } from '@/lib/newsletter-calendar'
 
 export default function NewCampaignPage() {
   const router = useRouter()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [date, setDate] = useState(() => {
-    // Default to today's date
-    const today = new Date()
-    return today.toISOString().split('T')[0]
-  })
+  // Default to today's date in Central Time
+  const [date, setDate] = useState(() => getCentralDate())
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
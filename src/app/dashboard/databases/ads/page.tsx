@@ -6,11 +6,12 @@ import Layout from '@/components/Layout'
 import RichTextEditor from '@/components/RichTextEditor'
 import ReactCrop, { Crop, PixelCrop } from 'react-image-crop'
 import 'react-image-crop/dist/ReactCrop.css'
-import type { Advertisement } from '@/types/database'
+import type { AdFrequency, Advertisement } from '@/types/database'
 import { getCroppedImage } from '@/utils/imageCrop'
+import { formatCalendarDate } from '@/lib/newsletter-calendar'
 
 export default function AdsManagementPage() {
-  const [activeTab, setActiveTab] = useState<'active' | 'inactive' | 'review'>('active')
+  const [activeTab, setActiveTab] = useState<'active' | 'inactive' | 'review' | 'calendar'>('active')
   const [ads, setAds] = useState<Advertisement[]>([])
   const [loading, setLoading] = useState(true)
   const [showAddModal, setShowAddModal] = useState(false)
@@ -19,6 +20,9 @@ export default function AdsManagementPage() {
   const [draggedItem, setDraggedItem] = useState<number | null>(null)
 
   useEffect(() => {
+    // The calendar loads its own plan
+    if (activeTab === 'calendar') return
+
     fetchAds()
     if (activeTab === 'active') {
       fetchNextAdPosition()
@@ -47,7 +51,7 @@ export default function AdsManagementPage() {
       if (activeTab === 'active') {
         status = '?status=active'
       } else if (activeTab === 'inactive') {
-        status = '?status=rejected,completed'
+        status = '?status=rejected,completed,expired,refunded,disputed'
       } else if (activeTab === 'review') {
         status = '?status=pending_review'
       }
@@ -184,25 +188,30 @@ export default function AdsManagementPage() {
     }
   }
 
-  const handleApprove = async (adId: string) => {
-    if (!confirm('Approve this advertisement?')) return
+  const handleApprove = async (ad: Advertisement) => {
+    const nonprofitEin = ad.pricing_quote?.nonprofit_ein
+    const question = nonprofitEin
+      ? `This ad was bought at the nonprofit rate with EIN ${nonprofitEin}. Have you verified the organization is a registered nonprofit?`
+      : 'Approve this advertisement?'
+    if (!confirm(question)) return
 
     try {
-      const response = await fetch(`/api/ads/${adId}/approve`, {
+      const response = await fetch(`/api/ads/${ad.id}/approve`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ approved_by: 'Admin' })
+        body: JSON.stringify({ approved_by: 'Admin', nonprofit_ein_verified: !!nonprofitEin })
       })
 
       if (response.ok) {
         alert('Ad approved successfully!')
         fetchAds()
       } else {
-        throw new Error('Failed to approve ad')
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to approve ad')
       }
     } catch (error) {
       console.error('Approval error:', error)
-      alert('Failed to approve ad')
+      alert(error instanceof Error ? error.message : 'Failed to approve ad')
     }
   }
 
@@ -279,7 +288,10 @@ export default function AdsManagementPage() {
       approved: 'bg-green-100 text-green-800',
       active: 'bg-green-100 text-green-800',
       completed: 'bg-gray-100 text-gray-800',
-      rejected: 'bg-red-100 text-red-800'
+      rejected: 'bg-red-100 text-red-800',
+      expired: 'bg-gray-100 text-gray-800',
+      refunded: 'bg-orange-100 text-orange-800',
+      disputed: 'bg-red-100 text-red-800'
     }
 
     return (
@@ -315,7 +327,9 @@ export default function AdsManagementPage() {
                 Advertisement Management
               </h1>
               <p className="text-gray-600 mt-1">
-                {ads.length} {activeTab} {ads.length === 1 ? 'advertisement' : 'advertisements'}
+                {activeTab === 'calendar'
+                  ? 'Ads planned for upcoming issues'
+                  : `${ads.length} ${activeTab} ${ads.length === 1 ? 'advertisement' : 'advertisements'}`}
               </p>
             </div>
             <div className="flex gap-3">
@@ -370,6 +384,16 @@ export default function AdsManagementPage() {
             >
               Inactive & Rejected
             </button>
+            <button
+              onClick={() => setActiveTab('calendar')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'calendar'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Calendar
+            </button>
           </nav>
         </div>
 
@@ -377,18 +401,23 @@ export default function AdsManagementPage() {
         {activeTab === 'active' && !loading && ads.length > 0 && (
           <div className="mb-4 bg-purple-50 border border-purple-200 rounded-lg p-4">
             <p className="text-sm text-purple-800">
-              <strong>Next ad in rotation:</strong> Position {nextAdPosition}
+              <strong>Next in rotation order:</strong> Position {nextAdPosition}
               {nextAdPosition <= ads.length && (
                 <span className="ml-2 text-purple-600">
                   ({ads[nextAdPosition - 1]?.business_name})
                 </span>
               )}
             </p>
+            <p className="text-xs text-purple-600 mt-1">
+              Breaks ties between ads that are equally due; the Calendar tab shows which ad runs on which date.
+            </p>
           </div>
         )}
 
+        {activeTab === 'calendar' && <AdCalendarView />}
+
         {/* Loading State */}
-        {loading && (
+        {loading && activeTab !== 'calendar' && (
           <div className="flex justify-center items-center h-64">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
           </div>
@@ -438,7 +467,9 @@ export default function AdsManagementPage() {
                           )}
                         </div>
                         <p className="text-sm text-gray-600">
-                          {ad.business_name} • {ad.times_used} times used
+                          {ad.business_name} • {ad.times_used} of {ad.times_paid} {ad.frequency} runs used
+                          {ad.category && ` • ${ad.category}`}
+                          {ad.preferred_start_date && ` • starts ${ad.preferred_start_date}`}
                         </p>
                       </div>
                     </div>
@@ -507,10 +538,15 @@ export default function AdsManagementPage() {
                       <p className="text-sm text-gray-600">
                         {ad.business_name} • Submitted {new Date(ad.created_at).toLocaleDateString()}
                       </p>
+                      {ad.pricing_quote?.nonprofit_ein && (
+                        <p className="text-sm text-purple-700 mt-1">
+                          Nonprofit rate: verify EIN {ad.pricing_quote.nonprofit_ein} before approving
+                        </p>
+                      )}
                     </div>
                     <div className="flex gap-2">
                       <button
-                        onClick={() => handleApprove(ad.id)}
+                        onClick={() => handleApprove(ad)}
                         className="bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700 text-sm"
                       >
                         Approve
@@ -674,7 +710,11 @@ function AddAdModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: ()
     contact_email: '',
     contact_phone: '',
     business_address: '',
-    business_website: ''
+    business_website: '',
+    category: '',
+    frequency: 'single',
+    times_paid: 1,
+    preferred_start_date: ''
   })
   const [selectedImage, setSelectedImage] = useState<string | null>(null)
   const [crop, setCrop] = useState<Crop>()
@@ -937,6 +977,60 @@ function AddAdModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: ()
             </div>
           </div>
 
+          {/* Scheduling */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Frequency
+              </label>
+              <select
+                value={formData.frequency}
+                onChange={(e) => setFormData({ ...formData, frequency: e.target.value as AdFrequency })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="single">Single appearances</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Runs Paid
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={formData.times_paid}
+                onChange={(e) => setFormData({ ...formData, times_paid: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Preferred Start Date
+              </label>
+              <input
+                type="date"
+                value={formData.preferred_start_date}
+                onChange={(e) => setFormData({ ...formData, preferred_start_date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Category
+              </label>
+              <input
+                type="text"
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                placeholder="e.g. Realtor"
+              />
+              <p className="text-xs text-gray-500 mt-1">Ads in the same category never run in back-to-back issues</p>
+            </div>
+          </div>
+
           {/* Submit Buttons */}
           <div className="flex justify-end gap-3 pt-4 border-t">
             <button
@@ -971,7 +1065,11 @@ function EditAdModal({ ad, onClose, onSuccess }: { ad: Advertisement; onClose: (
     contact_email: ad.contact_email,
     contact_phone: ad.contact_phone || '',
     business_address: ad.business_address || '',
-    business_website: ad.business_website || ''
+    business_website: ad.business_website || '',
+    category: ad.category || '',
+    frequency: ad.frequency,
+    times_paid: ad.times_paid,
+    preferred_start_date: ad.preferred_start_date || ''
   })
   const [submitting, setSubmitting] = useState(false)
 
@@ -983,7 +1081,11 @@ function EditAdModal({ ad, onClose, onSuccess }: { ad: Advertisement; onClose: (
       const response = await fetch(`/api/ads/${ad.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData)
+        body: JSON.stringify({
+          ...formData,
+          category: formData.category.trim() || null,
+          preferred_start_date: formData.preferred_start_date || null
+        })
       })
 
       if (response.ok) {
@@ -1113,6 +1215,60 @@ function EditAdModal({ ad, onClose, onSuccess }: { ad: Advertisement; onClose: (
             </div>
           </div>
 
+          {/* Scheduling */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Frequency
+              </label>
+              <select
+                value={formData.frequency}
+                onChange={(e) => setFormData({ ...formData, frequency: e.target.value as AdFrequency })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="single">Single appearances</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Runs Paid
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={formData.times_paid}
+                onChange={(e) => setFormData({ ...formData, times_paid: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Preferred Start Date
+              </label>
+              <input
+                type="date"
+                value={formData.preferred_start_date}
+                onChange={(e) => setFormData({ ...formData, preferred_start_date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Category
+              </label>
+              <input
+                type="text"
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                placeholder="e.g. Realtor"
+              />
+              <p className="text-xs text-gray-500 mt-1">Ads in the same category never run in back-to-back issues</p>
+            </div>
+          </div>
+
           {/* Submit Buttons */}
           <div className="flex justify-end gap-3 pt-4 border-t">
             <button
@@ -1136,3 +1292,211 @@ function EditAdModal({ ad, onClose, onSuccess }: { ad: Advertisement; onClose: (
     </div>
   )
 }
+
+interface CalendarAd {
+  id: string
+  title: string
+  business_name: string
+  category: string | null
+  frequency: AdFrequency
+  times_paid: number
+  times_used: number
+}
+
+interface AdCalendarData {
+  startDate: string
+  slotsPerIssue: number
+  maxSlots: number
+  days: { date: string, blackout: string | null, ads: { slot: number, recorded: boolean, ad: CalendarAd }[] }[]
+  unplaced: { runs: number, ad: CalendarAd }[]
+}
+
+function AdCalendarView() {
+  const [calendar, setCalendar] = useState<AdCalendarData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(60)
+
+  useEffect(() => {
+    fetchCalendar()
+  }, [days])
+
+  const fetchCalendar = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/ads/schedule?days=${days}`)
+      if (response.ok) {
+        setCalendar(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch ad calendar:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSlotsChange = async (slots: number) => {
+    try {
+      const response = await fetch('/api/ads/schedule', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slots_per_issue: slots })
+      })
+      if (!response.ok) {
+        throw new Error('Failed to update slots')
+      }
+      fetchCalendar()
+    } catch (error) {
+      console.error('Slots update error:', error)
+      alert('Failed to update ad slots')
+    }
+  }
+
+  const handleBlackout = async (date: string) => {
+    const reason = prompt(`Run no ads on ${date}? Reason (optional):`)
+    if (reason === null) return // User cancelled
+
+    try {
+      const response = await fetch('/api/ads/blackouts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date, reason })
+      })
+      if (!response.ok) {
+        throw new Error('Failed to add blackout date')
+      }
+      fetchCalendar()
+    } catch (error) {
+      console.error('Blackout error:', error)
+      alert('Failed to add blackout date')
+    }
+  }
+
+  const handleRemoveBlackout = async (date: string) => {
+    try {
+      const response = await fetch(`/api/ads/blackouts?date=${date}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to remove blackout date')
+      }
+      fetchCalendar()
+    } catch (error) {
+      console.error('Blackout removal error:', error)
+      alert('Failed to remove blackout date')
+    }
+  }
+
+  if (loading && !calendar) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!calendar) {
+    return (
+      <div className="text-center py-12 bg-white rounded-lg shadow">
+        <p className="text-gray-500">Failed to load the ad calendar.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center gap-6 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="font-medium text-gray-700">Ad slots per issue</span>
+          <select
+            value={calendar.slotsPerIssue}
+            onChange={(e) => handleSlotsChange(parseInt(e.target.value))}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            {Array.from({ length: calendar.maxSlots + 1 }, (_, slots) => (
+              <option key={slots} value={slots}>{slots}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="font-medium text-gray-700">Show</span>
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value={30}>30 days</option>
+            <option value={60}>60 days</option>
+            <option value={90}>90 days</option>
+            <option value={180}>180 days</option>
+          </select>
+        </label>
+        {loading && <span className="text-gray-500">Updating...</span>}
+      </div>
+
+      {calendar.unplaced.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+          <strong>Runs that don't fit in the next {days} days:</strong>
+          <ul className="list-disc list-inside mt-1">
+            {calendar.unplaced.map(item => (
+              <li key={item.ad.id}>
+                {item.ad.business_name} - {item.ad.title}: {item.runs} {item.ad.frequency} run{item.runs === 1 ? '' : 's'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Issue</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Ads</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {calendar.days.map(day => (
+              <tr key={day.date} className={day.blackout !== null ? 'bg-gray-100' : ''}>
+                <td className="px-4 py-2 whitespace-nowrap text-gray-900">
+                  {formatCalendarDate(day.date, { weekday: 'short', month: 'short', day: 'numeric' })}
+                </td>
+                <td className="px-4 py-2">
+                  {day.blackout !== null ? (
+                    <span className="text-gray-500 italic">No ads{day.blackout ? ` - ${day.blackout}` : ''}</span>
+                  ) : day.ads.length === 0 ? (
+                    <span className="text-gray-400">Nothing scheduled</span>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {day.ads.map(planned => (
+                        <span
+                          key={planned.slot}
+                          className={`px-2 py-1 rounded ${planned.recorded ? 'bg-gray-200 text-gray-700' : 'bg-blue-50 text-blue-800'}`}
+                          title={`${planned.ad.title} (${planned.ad.times_used}/${planned.ad.times_paid} runs used)`}
+                        >
+                          {calendar.slotsPerIssue > 1 && `${planned.slot}. `}
+                          {planned.ad.business_name}
+                          {planned.ad.category && <span className="text-xs opacity-75"> · {planned.ad.category}</span>}
+                          {planned.recorded && <span className="text-xs"> · sent</span>}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right whitespace-nowrap">
+                  {day.blackout !== null ? (
+                    <button onClick={() => handleRemoveBlackout(day.date)} className="text-blue-600 hover:text-blue-800">
+                      Allow ads
+                    </button>
+                  ) : !day.ads.some(planned => planned.recorded) && (
+                    <button onClick={() => handleBlackout(day.date)} className="text-gray-500 hover:text-gray-700">
+                      Black out
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -23,6 +23,7 @@ interface EventSubmission {
   featured: boolean
   payment_amount: number | null
   payment_status: string | null
+  nonprofit_ein: string | null
   created_at: string
   active: boolean
 }
@@ -62,14 +63,23 @@ export default function ReviewSubmissionsPage() {
     }
   }
 
-  const handleApprove = async (id: string) => {
+  const handleApprove = async (submission: EventSubmission) => {
+    if (submission.nonprofit_ein && !confirm(`This was submitted at the nonprofit rate with EIN ${submission.nonprofit_ein}. Have you verified the organization is a registered nonprofit?`)) {
+      return
+    }
+
     try {
-      const response = await fetch(`/api/events/submissions/${id}/approve`, {
-        method: 'POST'
+      const response = await fetch(`/api/events/submissions/${submission.id}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nonprofit_ein_verified: !!submission.nonprofit_ein })
       })
 
       if (response.ok) {
         loadSubmissions()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to approve submission')
       }
     } catch (error) {
       console.error('Failed to approve:', error)
@@ -319,6 +329,11 @@ export default function ReviewSubmissionsPage() {
                               Paid
                             </span>
                           )}
+                          {submission.nonprofit_ein && (
+                            <span className="bg-purple-100 text-purple-800 px-2 py-1 rounded text-xs font-medium">
+                              Nonprofit EIN {submission.nonprofit_ein}
+                            </span>
+                          )}
                         </div>
                         <p className="text-sm text-gray-600">
                           Submitted {formatDate(submission.created_at)} by {submission.submitter_name}
@@ -399,7 +414,7 @@ export default function ReviewSubmissionsPage() {
                       {submission.submission_status === 'pending' && (
                         <>
                           <button
-                            onClick={() => handleApprove(submission.id)}
+                            onClick={() => handleApprove(submission)}
                             className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm"
                           >
                             Approve
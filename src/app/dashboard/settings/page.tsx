@@ -2,7 +2,9 @@
 
 import { useEffect, useState } from 'react'
 import Layout from '@/components/Layout'
-import type { NewsletterSection } from '@/types/database'
+import PromptDiff from '@/components/PromptDiff'
+import type { NewsletterSection, AIPromptVersion, DiscountCode, Publication, ScheduleCalendarEntry, ScheduleJob, ScheduleJobKey, TransactionalEmailLog } from '@/types/database'
+import { formatCalendarDate, formatCentralDateTime } from '@/lib/newsletter-calendar'
 import {
   DndContext,
   closestCenter,
@@ -40,9 +42,13 @@ export default function SettingsPage() {
               {[
                 { id: 'system', name: 'System Status' },
                 { id: 'newsletter', name: 'Newsletter' },
+                { id: 'publications', name: 'Publications' },
                 { id: 'email', name: 'Email' },
+                { id: 'email-templates', name: 'Email Templates' },
+                { id: 'schedule', name: 'Schedule' },
                 { id: 'public-events', name: 'Public Events' },
                 { id: 'ads', name: 'Ads' },
+                { id: 'discounts', name: 'Discounts' },
                 { id: 'slack', name: 'Slack' },
                 { id: 'ai-prompts', name: 'AI Prompts' },
                 { id: 'rss', name: 'RSS Feeds' },
@@ -69,9 +75,13 @@ export default function SettingsPage() {
         <div className="mt-6">
           {activeTab === 'system' && <SystemStatus />}
           {activeTab === 'newsletter' && <NewsletterSettings />}
+          {activeTab === 'publications' && <PublicationsSettings />}
           {activeTab === 'email' && <EmailSettings />}
+          {activeTab === 'email-templates' && <EmailTemplatesSettings />}
+          {activeTab === 'schedule' && <ScheduleSettings />}
           {activeTab === 'public-events' && <PublicEventsSettings />}
           {activeTab === 'ads' && <AdsSettings />}
+          {activeTab === 'discounts' && <DiscountsSettings />}
           {activeTab === 'slack' && <SlackSettings />}
           {activeTab === 'ai-prompts' && <AIPromptsSettings />}
           {activeTab === 'rss' && <RSSFeeds />}
@@ -254,14 +264,21 @@ function NewsletterSettings() {
     setMessage('')
 
     try {
-      const response = await fetch('/api/debug/migrate-newsletter-sections')
+      const response = await fetch('/api/admin/operations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          operation: 'add_missing_newsletter_sections',
+          dry_run: false,
+          confirm: 'add_missing_newsletter_sections'
+        })
+      })
+      const data = await response.json()
       if (response.ok) {
-        const data = await response.json()
-        setMessage(`Migration successful! ${data.message}`)
+        setMessage(data.result.summary)
         await fetchSections() // Refresh the sections
       } else {
-        const errorData = await response.json()
-        setMessage(`Migration failed: ${errorData.message || 'Unknown error'}`)
+        setMessage(`Adding sections failed: ${data.error || 'Unknown error'}`)
       }
     } catch (error) {
       setMessage('Migration failed: Network error. Please try again.')
@@ -399,6 +416,220 @@ function NewsletterSettings() {
   )
 }
 
+function PublicationsSettings() {
+  const emptyForm = {
+    slug: '', name: '', website_url: '', logo_url: '', brand_color: '#1877F2', facebook_url: '',
+    sender_name: '', from_email: '', mailerlite_review_group_id: '', mailerlite_main_group_id: '',
+    city: '', state: 'Minnesota', county: '', zip_code: '', nearby_communities: '',
+    latitude: '', longitude: '', road_work_sources: '', is_default: false, active: true
+  }
+
+  const [publications, setPublications] = useState<Publication[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [form, setForm] = useState<Record<string, any>>(emptyForm)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    loadPublications()
+  }, [])
+
+  const loadPublications = async (selectId?: string) => {
+    try {
+      const response = await fetch('/api/settings/publications')
+      if (response.ok) {
+        const data = await response.json()
+        const list: Publication[] = data.publications || []
+        setPublications(list)
+        const selected = list.find(p => p.id === selectId) || list[0]
+        if (selected) {
+          selectPublication(selected)
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load publications:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectPublication = (publication: Publication | null) => {
+    setMessage('')
+    if (!publication) {
+      setSelectedId(null)
+      setForm(emptyForm)
+      return
+    }
+
+    setSelectedId(publication.id)
+    setForm(Object.keys(emptyForm).reduce((acc, key) => {
+      const value = (publication as any)[key]
+      acc[key] = value === null || value === undefined ? '' : value
+      return acc
+    }, {} as Record<string, any>))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/settings/publications', {
+        method: selectedId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(selectedId ? { id: selectedId, ...form } : form)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to save publication')
+      }
+
+      setMessage('Publication saved successfully!')
+      await loadPublications(data.publication.id)
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to save publication')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const fields: Array<{ key: string, label: string, placeholder?: string, wide?: boolean }> = [
+    { key: 'name', label: 'Name', placeholder: 'Sartell Scoop' },
+    { key: 'slug', label: 'Slug', placeholder: 'sartell' },
+    { key: 'website_url', label: 'Website', placeholder: 'https://...' },
+    { key: 'logo_url', label: 'Logo URL' },
+    { key: 'brand_color', label: 'Brand Color', placeholder: '#1877F2' },
+    { key: 'facebook_url', label: 'Facebook URL' },
+    { key: 'sender_name', label: 'Sender Name', placeholder: 'Uses the email settings when empty' },
+    { key: 'from_email', label: 'From Email', placeholder: 'Uses the email settings when empty' },
+    { key: 'mailerlite_review_group_id', label: 'MailerLite Review Group ID', placeholder: 'Uses the email settings when empty' },
+    { key: 'mailerlite_main_group_id', label: 'MailerLite Main Group ID', placeholder: 'Uses the email settings when empty' },
+    { key: 'city', label: 'City' },
+    { key: 'state', label: 'State' },
+    { key: 'county', label: 'County', placeholder: 'Stearns County' },
+    { key: 'zip_code', label: 'ZIP Code' },
+    { key: 'latitude', label: 'Latitude' },
+    { key: 'longitude', label: 'Longitude' },
+    { key: 'nearby_communities', label: 'Nearby Communities', placeholder: 'Comma-separated, used in AI prompts', wide: true }
+  ]
+
+  if (loading) {
+    return <div className="text-gray-500">Loading publications...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Publications</h3>
+            <p className="text-sm text-gray-600">
+              Each publication has its own feeds, sections, ads, weather and MailerLite groups. The default publication uses the global settings.
+            </p>
+          </div>
+          <button
+            onClick={() => selectPublication(null)}
+            className="bg-brand-primary hover:bg-blue-700 text-white px-4 py-2 rounded text-sm font-medium"
+          >
+            Add Publication
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {publications.map(publication => (
+            <button
+              key={publication.id}
+              onClick={() => selectPublication(publication)}
+              className={`px-3 py-1 rounded-full text-sm border ${
+                publication.id === selectedId
+                  ? 'bg-brand-primary text-white border-brand-primary'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {publication.name}
+              {publication.is_default && ' (default)'}
+              {!publication.active && ' (inactive)'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">
+          {selectedId ? `Edit ${form.name || 'Publication'}` : 'New Publication'}
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {fields.map(field => (
+            <div key={field.key} className={field.wide ? 'md:col-span-2' : ''}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+              <input
+                type="text"
+                value={form[field.key]}
+                placeholder={field.placeholder}
+                onChange={(e) => setForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary"
+              />
+            </div>
+          ))}
+
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Road Work Sources</label>
+            <textarea
+              rows={5}
+              value={form.road_work_sources}
+              placeholder="One source per line, e.g. - City of Sartell: https://www.sartellmn.com/engineering/"
+              onChange={(e) => setForm(prev => ({ ...prev, road_work_sources: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            />
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!form.active}
+              onChange={(e) => setForm(prev => ({ ...prev, active: e.target.checked }))}
+            />
+            <span>Active (included in scheduled runs)</span>
+          </label>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!form.is_default}
+              disabled={!!selectedId && publications.find(p => p.id === selectedId)?.is_default}
+              onChange={(e) => setForm(prev => ({ ...prev, is_default: e.target.checked }))}
+            />
+            <span>Default publication</span>
+          </label>
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-brand-primary hover:bg-blue-700 disabled:bg-gray-400 text-white px-6 py-2 rounded-md font-medium"
+          >
+            {saving ? 'Saving...' : selectedId ? 'Save Publication' : 'Create Publication'}
+          </button>
+        </div>
+
+        {message && (
+          <div className={`mt-4 p-4 rounded-md ${
+            message.includes('successfully')
+              ? 'bg-green-50 border border-green-200 text-green-800'
+              : 'bg-red-50 border border-red-200 text-red-800'
+          }`}>
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
 function SystemStatus() {
   const [status, setStatus] = useState<any>(null)
   const [scheduleDisplay, setScheduleDisplay] = useState<any>(null)
@@ -433,6 +664,9 @@ function SystemStatus() {
     }
   }
 
+  const describeSchedule = (cron: string | undefined, nextRun: string | null | undefined) =>
+    `${cron || 'Not scheduled'} (CT)${nextRun ? ` · next ${formatCentralDateTime(new Date(nextRun))}` : ''}`
+
   if (loading) {
     return <div className="text-center py-8">Loading system status...</div>
   }
@@ -496,7 +730,7 @@ function SystemStatus() {
             <div>
               <div className="font-medium">RSS Processing</div>
               <div className="text-sm text-gray-600">
-                Daily at {scheduleDisplay?.rssProcessing || '20:30'} CT
+                {describeSchedule(scheduleDisplay?.rssProcessing, scheduleDisplay?.nextRuns?.rss_processing)}
               </div>
             </div>
             <span className={`text-sm ${scheduleDisplay?.reviewEnabled ? 'text-green-600' : 'text-gray-500'}`}>
@@ -507,7 +741,7 @@ function SystemStatus() {
             <div>
               <div className="font-medium">Subject Line Generation</div>
               <div className="text-sm text-gray-600">
-                Daily at {scheduleDisplay?.subjectGeneration || '20:45'} CT
+                Runs with RSS processing
               </div>
             </div>
             <span className={`text-sm ${scheduleDisplay?.reviewEnabled ? 'text-green-600' : 'text-gray-500'}`}>
@@ -518,7 +752,7 @@ function SystemStatus() {
             <div>
               <div className="font-medium">Campaign Creation</div>
               <div className="text-sm text-gray-600">
-                Daily at {scheduleDisplay?.campaignCreation || '20:50'} CT
+                {describeSchedule(scheduleDisplay?.campaignCreation, scheduleDisplay?.nextRuns?.campaign_creation)}
               </div>
             </div>
             <span className={`text-sm ${scheduleDisplay?.reviewEnabled ? 'text-green-600' : 'text-gray-500'}`}>
@@ -529,7 +763,7 @@ function SystemStatus() {
             <div>
               <div className="font-medium">Final Newsletter Send</div>
               <div className="text-sm text-gray-600">
-                Daily at {scheduleDisplay?.finalSend || '04:55'} CT
+                {describeSchedule(scheduleDisplay?.finalSend, scheduleDisplay?.nextRuns?.final_send)}
               </div>
             </div>
             <span className={`text-sm ${scheduleDisplay?.dailyEnabled ? 'text-green-600' : 'text-gray-500'}`}>
@@ -630,8 +864,6 @@ function EmailSettings() {
 
     // Review Schedule Settings (Central Time)
     reviewScheduleEnabled: true,
-    rssProcessingTime: '20:30',  // 8:30 PM
-    campaignCreationTime: '20:50',  // 8:50 PM
     scheduledSendTime: '21:00',  // 9:00 PM
 
     // Daily Newsletter Settings (Central Time)
@@ -778,24 +1010,24 @@ function EmailSettings() {
           </div>
         </div>
         <p className="text-sm text-gray-600 mb-4">
-          Configure the automated review workflow times (Central Time Zone).
+          Review delivery time (Central Time Zone). When each job runs is set on the Schedule tab.
         </p>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              RSS Processing Time
+              Scheduled Send Time
             </label>
             <div className="flex space-x-2 items-center">
               <select
                 value={(() => {
-                  const hour24 = parseInt(settings.rssProcessingTime.split(':')[0])
+                  const hour24 = parseInt(settings.scheduledSendTime.split(':')[0])
                   return hour24 === 0 ? '12' : hour24 > 12 ? (hour24 - 12).toString() : hour24.toString()
                 })()}
                 onChange={(e) => {
-                  const minutes = settings.rssProcessingTime.split(':')[1] || '00'
+                  const minutes = settings.scheduledSendTime.split(':')[1] || '00'
                   const hour12 = parseInt(e.target.value)
-                  const currentHour24 = parseInt(settings.rssProcessingTime.split(':')[0])
+                  const currentHour24 = parseInt(settings.scheduledSendTime.split(':')[0])
                   const isAM = currentHour24 < 12
                   let hour24
                   if (hour12 === 12) {
@@ -803,7 +1035,7 @@ function EmailSettings() {
                   } else {
                     hour24 = isAM ? hour12 : hour12 + 12
                   }
-                  handleChange('rssProcessingTime', `${hour24.toString().padStart(2, '0')}:${minutes}`)
+                  handleChange('scheduledSendTime', `${hour24.toString().padStart(2, '0')}:${minutes}`)
                 }}
                 disabled={!settings.reviewScheduleEnabled}
                 className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
@@ -820,10 +1052,10 @@ function EmailSettings() {
               </select>
               <span>:</span>
               <select
-                value={settings.rssProcessingTime.split(':')[1] || '00'}
+                value={settings.scheduledSendTime.split(':')[1] || '00'}
                 onChange={(e) => {
-                  const hour24 = parseInt(settings.rssProcessingTime.split(':')[0])
-                  handleChange('rssProcessingTime', `${hour24.toString().padStart(2, '0')}:${e.target.value}`)
+                  const hour24 = parseInt(settings.scheduledSendTime.split(':')[0])
+                  handleChange('scheduledSendTime', `${hour24.toString().padStart(2, '0')}:${e.target.value}`)
                 }}
                 disabled={!settings.reviewScheduleEnabled}
                 className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
@@ -843,10 +1075,10 @@ function EmailSettings() {
                 <option value="55">55</option>
               </select>
               <select
-                value={parseInt(settings.rssProcessingTime.split(':')[0]) < 12 ? 'AM' : 'PM'}
+                value={parseInt(settings.scheduledSendTime.split(':')[0]) < 12 ? 'AM' : 'PM'}
                 onChange={(e) => {
-                  const minutes = settings.rssProcessingTime.split(':')[1] || '00'
-                  const currentHour24 = parseInt(settings.rssProcessingTime.split(':')[0])
+                  const minutes = settings.scheduledSendTime.split(':')[1] || '00'
+                  const currentHour24 = parseInt(settings.scheduledSendTime.split(':')[0])
                   const currentHour12 = currentHour24 === 0 ? 12 : currentHour24 > 12 ? currentHour24 - 12 : currentHour24
                   let newHour24
                   if (e.target.value === 'AM') {
@@ -854,7 +1086,7 @@ function EmailSettings() {
                   } else {
                     newHour24 = currentHour12 === 12 ? 12 : currentHour12 + 12
                   }
-                  handleChange('rssProcessingTime', `${newHour24.toString().padStart(2, '0')}:${minutes}`)
+                  handleChange('scheduledSendTime', `${newHour24.toString().padStart(2, '0')}:${minutes}`)
                 }}
                 disabled={!settings.reviewScheduleEnabled}
                 className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
@@ -864,9 +1096,50 @@ function EmailSettings() {
                 <option value="PM">PM</option>
               </select>
             </div>
-            <p className="text-xs text-gray-500 mt-1">Daily RSS feed processing and article rating (5-minute increments)</p>
+            <p className="text-xs text-gray-500 mt-1">Review newsletter delivery (5-minute increments)</p>
+          </div>
+        </div>
+
+        <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <h4 className="font-medium text-blue-900 mb-2">Review Workflow Overview</h4>
+          <div className="text-sm text-blue-800 space-y-1">
+            <div>1. <strong>RSS Processing</strong> - Create the next issue's campaign, process RSS feeds, and generate AI subject line</div>
+            <div>2. <strong>Campaign Creation</strong> - Create review campaign and schedule for delivery</div>
+            <div>3. <strong>{settings.scheduledSendTime}</strong> - MailerLite sends review to review group only</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Automated Daily Newsletter Schedule */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Automated Daily Newsletter Schedule</h3>
+          <div className="flex items-center">
+            <label className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.dailyScheduleEnabled}
+                onChange={(e) => handleChange('dailyScheduleEnabled', e.target.checked)}
+                className="sr-only"
+              />
+              <div className={`relative w-11 h-6 rounded-full transition-colors ${
+                settings.dailyScheduleEnabled ? 'bg-brand-primary' : 'bg-gray-300'
+              }`}>
+                <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                  settings.dailyScheduleEnabled ? 'translate-x-5' : 'translate-x-0'
+                }`}></div>
+              </div>
+              <span className="ml-3 text-sm font-medium text-gray-700">
+                {settings.dailyScheduleEnabled ? 'Enabled' : 'Disabled'}
+              </span>
+            </label>
           </div>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Configure the automated daily newsletter delivery times (Central Time Zone).
+        </p>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Campaign Creation Time
@@ -874,13 +1147,13 @@ function EmailSettings() {
             <div className="flex space-x-2 items-center">
               <select
                 value={(() => {
-                  const hour24 = parseInt(settings.campaignCreationTime.split(':')[0])
+                  const hour24 = parseInt(settings.dailyCampaignCreationTime.split(':')[0])
                   return hour24 === 0 ? '12' : hour24 > 12 ? (hour24 - 12).toString() : hour24.toString()
                 })()}
                 onChange={(e) => {
-                  const minutes = settings.campaignCreationTime.split(':')[1] || '00'
+                  const minutes = settings.dailyCampaignCreationTime.split(':')[1] || '00'
                   const hour12 = parseInt(e.target.value)
-                  const currentHour24 = parseInt(settings.campaignCreationTime.split(':')[0])
+                  const currentHour24 = parseInt(settings.dailyCampaignCreationTime.split(':')[0])
                   const isAM = currentHour24 < 12
                   let hour24
                   if (hour12 === 12) {
@@ -888,9 +1161,9 @@ function EmailSettings() {
                   } else {
                     hour24 = isAM ? hour12 : hour12 + 12
                   }
-                  handleChange('campaignCreationTime', `${hour24.toString().padStart(2, '0')}:${minutes}`)
+                  handleChange('dailyCampaignCreationTime', `${hour24.toString().padStart(2, '0')}:${minutes}`)
                 }}
-                disabled={!settings.reviewScheduleEnabled}
+                disabled={!settings.dailyScheduleEnabled}
                 className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
                 style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
               >
@@ -905,12 +1178,12 @@ function EmailSettings() {
               </select>
               <span>:</span>
               <select
-                value={settings.campaignCreationTime.split(':')[1] || '00'}
+                value={settings.dailyCampaignCreationTime.split(':')[1] || '00'}
                 onChange={(e) => {
-                  const hour24 = parseInt(settings.campaignCreationTime.split(':')[0])
-                  handleChange('campaignCreationTime', `${hour24.toString().padStart(2, '0')}:${e.target.value}`)
+                  const hour24 = parseInt(settings.dailyCampaignCreationTime.split(':')[0])
+                  handleChange('dailyCampaignCreationTime', `${hour24.toString().padStart(2, '0')}:${e.target.value}`)
                 }}
-                disabled={!settings.reviewScheduleEnabled}
+                disabled={!settings.dailyScheduleEnabled}
                 className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
                 style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
               >
@@ -928,10 +1201,10 @@ function EmailSettings() {
                 <option value="55">55</option>
               </select>
               <select
-                value={parseInt(settings.campaignCreationTime.split(':')[0]) < 12 ? 'AM' : 'PM'}
+                value={parseInt(settings.dailyCampaignCreationTime.split(':')[0]) < 12 ? 'AM' : 'PM'}
                 onChange={(e) => {
-                  const minutes = settings.campaignCreationTime.split(':')[1] || '00'
-                  const currentHour24 = parseInt(settings.campaignCreationTime.split(':')[0])
+                  const minutes = settings.dailyCampaignCreationTime.split(':')[1] || '00'
+                  const currentHour24 = parseInt(settings.dailyCampaignCreationTime.split(':')[0])
                   const currentHour12 = currentHour24 === 0 ? 12 : currentHour24 > 12 ? currentHour24 - 12 : currentHour24
                   let newHour24
                   if (e.target.value === 'AM') {
@@ -939,9 +1212,9 @@ function EmailSettings() {
                   } else {
                     newHour24 = currentHour12 === 12 ? 12 : currentHour12 + 12
                   }
-                  handleChange('campaignCreationTime', `${newHour24.toString().padStart(2, '0')}:${minutes}`)
+                  handleChange('dailyCampaignCreationTime', `${newHour24.toString().padStart(2, '0')}:${minutes}`)
                 }}
-                disabled={!settings.reviewScheduleEnabled}
+                disabled={!settings.dailyScheduleEnabled}
                 className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
                 style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
               >
@@ -949,7 +1222,7 @@ function EmailSettings() {
                 <option value="PM">PM</option>
               </select>
             </div>
-            <p className="text-xs text-gray-500 mt-1">Newsletter campaign setup and review (5-minute increments)</p>
+            <p className="text-xs text-gray-500 mt-1">Final newsletter campaign creation with any review changes (5-minute increments)</p>
           </div>
 
           <div>
@@ -959,13 +1232,13 @@ function EmailSettings() {
             <div className="flex space-x-2 items-center">
               <select
                 value={(() => {
-                  const hour24 = parseInt(settings.scheduledSendTime.split(':')[0])
+                  const hour24 = parseInt(settings.dailyScheduledSendTime.split(':')[0])
                   return hour24 === 0 ? '12' : hour24 > 12 ? (hour24 - 12).toString() : hour24.toString()
                 })()}
                 onChange={(e) => {
-                  const minutes = settings.scheduledSendTime.split(':')[1] || '00'
+                  const minutes = settings.dailyScheduledSendTime.split(':')[1] || '00'
                   const hour12 = parseInt(e.target.value)
-                  const currentHour24 = parseInt(settings.scheduledSendTime.split(':')[0])
+                  const currentHour24 = parseInt(settings.dailyScheduledSendTime.split(':')[0])
                   const isAM = currentHour24 < 12
                   let hour24
                   if (hour12 === 12) {
@@ -973,10 +1246,10 @@ function EmailSettings() {
                   } else {
                     hour24 = isAM ? hour12 : hour12 + 12
                   }
-                  handleChange('scheduledSendTime', `${hour24.toString().padStart(2, '0')}:${minutes}`)
+                  handleChange('dailyScheduledSendTime', `${hour24.toString().padStart(2, '0')}:${minutes}`)
                 }}
-                disabled={!settings.reviewScheduleEnabled}
-                className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
+                disabled={!settings.dailyScheduleEnabled}
+                className="w-16 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
                 style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
               >
                 {Array.from({ length: 12 }, (_, i) => {
@@ -990,13 +1263,13 @@ function EmailSettings() {
               </select>
               <span>:</span>
               <select
-                value={settings.scheduledSendTime.split(':')[1] || '00'}
+                value={settings.dailyScheduledSendTime.split(':')[1] || '00'}
                 onChange={(e) => {
-                  const hour24 = parseInt(settings.scheduledSendTime.split(':')[0])
-                  handleChange('scheduledSendTime', `${hour24.toString().padStart(2, '0')}:${e.target.value}`)
+                  const hour24 = parseInt(settings.dailyScheduledSendTime.split(':')[0])
+                  handleChange('dailyScheduledSendTime', `${hour24.toString().padStart(2, '0')}:${e.target.value}`)
                 }}
-                disabled={!settings.reviewScheduleEnabled}
-                className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
+                disabled={!settings.dailyScheduleEnabled}
+                className="w-16 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
                 style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
               >
                 <option value="00">00</option>
@@ -1013,10 +1286,10 @@ function EmailSettings() {
                 <option value="55">55</option>
               </select>
               <select
-                value={parseInt(settings.scheduledSendTime.split(':')[0]) < 12 ? 'AM' : 'PM'}
+                value={parseInt(settings.dailyScheduledSendTime.split(':')[0]) < 12 ? 'AM' : 'PM'}
                 onChange={(e) => {
-                  const minutes = settings.scheduledSendTime.split(':')[1] || '00'
-                  const currentHour24 = parseInt(settings.scheduledSendTime.split(':')[0])
+                  const minutes = settings.dailyScheduledSendTime.split(':')[1] || '00'
+                  const currentHour24 = parseInt(settings.dailyScheduledSendTime.split(':')[0])
                   const currentHour12 = currentHour24 === 0 ? 12 : currentHour24 > 12 ? currentHour24 - 12 : currentHour24
                   let newHour24
                   if (e.target.value === 'AM') {
@@ -1024,9 +1297,9 @@ function EmailSettings() {
                   } else {
                     newHour24 = currentHour12 === 12 ? 12 : currentHour12 + 12
                   }
-                  handleChange('scheduledSendTime', `${newHour24.toString().padStart(2, '0')}:${minutes}`)
+                  handleChange('dailyScheduledSendTime', `${newHour24.toString().padStart(2, '0')}:${minutes}`)
                 }}
-                disabled={!settings.reviewScheduleEnabled}
+                disabled={!settings.dailyScheduleEnabled}
                 className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
                 style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
               >
@@ -1034,226 +1307,15 @@ function EmailSettings() {
                 <option value="PM">PM</option>
               </select>
             </div>
-            <p className="text-xs text-gray-500 mt-1">Review newsletter delivery (5-minute increments)</p>
+            <p className="text-xs text-gray-500 mt-1">Final newsletter delivery to main subscriber group (5-minute increments)</p>
           </div>
         </div>
 
-        <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-          <h4 className="font-medium text-blue-900 mb-2">Review Workflow Overview</h4>
-          <div className="text-sm text-blue-800 space-y-1">
-            <div>1. <strong>{settings.rssProcessingTime}</strong> - Create tomorrow's campaign, process RSS feeds, and generate AI subject line</div>
-            <div>2. <strong>{settings.campaignCreationTime}</strong> - Create review campaign and schedule for delivery</div>
-            <div>3. <strong>{settings.scheduledSendTime}</strong> - MailerLite sends review to review group only</div>
-          </div>
-        </div>
-      </div>
-
-      {/* Automated Daily Newsletter Schedule */}
-      <div className="bg-white shadow rounded-lg p-6">
-        <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-medium text-gray-900">Automated Daily Newsletter Schedule</h3>
-          <div className="flex items-center">
-            <label className="flex items-center cursor-pointer">
-              <input
-                type="checkbox"
-                checked={settings.dailyScheduleEnabled}
-                onChange={(e) => handleChange('dailyScheduleEnabled', e.target.checked)}
-                className="sr-only"
-              />
-              <div className={`relative w-11 h-6 rounded-full transition-colors ${
-                settings.dailyScheduleEnabled ? 'bg-brand-primary' : 'bg-gray-300'
-              }`}>
-                <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
-                  settings.dailyScheduleEnabled ? 'translate-x-5' : 'translate-x-0'
-                }`}></div>
-              </div>
-              <span className="ml-3 text-sm font-medium text-gray-700">
-                {settings.dailyScheduleEnabled ? 'Enabled' : 'Disabled'}
-              </span>
-            </label>
-          </div>
-        </div>
-        <p className="text-sm text-gray-600 mb-4">
-          Configure the automated daily newsletter delivery times (Central Time Zone).
-        </p>
-
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Campaign Creation Time
-            </label>
-            <div className="flex space-x-2 items-center">
-              <select
-                value={(() => {
-                  const hour24 = parseInt(settings.dailyCampaignCreationTime.split(':')[0])
-                  return hour24 === 0 ? '12' : hour24 > 12 ? (hour24 - 12).toString() : hour24.toString()
-                })()}
-                onChange={(e) => {
-                  const minutes = settings.dailyCampaignCreationTime.split(':')[1] || '00'
-                  const hour12 = parseInt(e.target.value)
-                  const currentHour24 = parseInt(settings.dailyCampaignCreationTime.split(':')[0])
-                  const isAM = currentHour24 < 12
-                  let hour24
-                  if (hour12 === 12) {
-                    hour24 = isAM ? 0 : 12
-                  } else {
-                    hour24 = isAM ? hour12 : hour12 + 12
-                  }
-                  handleChange('dailyCampaignCreationTime', `${hour24.toString().padStart(2, '0')}:${minutes}`)
-                }}
-                disabled={!settings.dailyScheduleEnabled}
-                className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
-                style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
-              >
-                {Array.from({ length: 12 }, (_, i) => {
-                  const hour = i + 1
-                  return (
-                    <option key={hour} value={hour.toString()}>
-                      {hour}
-                    </option>
-                  )
-                })}
-              </select>
-              <span>:</span>
-              <select
-                value={settings.dailyCampaignCreationTime.split(':')[1] || '00'}
-                onChange={(e) => {
-                  const hour24 = parseInt(settings.dailyCampaignCreationTime.split(':')[0])
-                  handleChange('dailyCampaignCreationTime', `${hour24.toString().padStart(2, '0')}:${e.target.value}`)
-                }}
-                disabled={!settings.dailyScheduleEnabled}
-                className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
-                style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
-              >
-                <option value="00">00</option>
-                <option value="05">05</option>
-                <option value="10">10</option>
-                <option value="15">15</option>
-                <option value="20">20</option>
-                <option value="25">25</option>
-                <option value="30">30</option>
-                <option value="35">35</option>
-                <option value="40">40</option>
-                <option value="45">45</option>
-                <option value="50">50</option>
-                <option value="55">55</option>
-              </select>
-              <select
-                value={parseInt(settings.dailyCampaignCreationTime.split(':')[0]) < 12 ? 'AM' : 'PM'}
-                onChange={(e) => {
-                  const minutes = settings.dailyCampaignCreationTime.split(':')[1] || '00'
-                  const currentHour24 = parseInt(settings.dailyCampaignCreationTime.split(':')[0])
-                  const currentHour12 = currentHour24 === 0 ? 12 : currentHour24 > 12 ? currentHour24 - 12 : currentHour24
-                  let newHour24
-                  if (e.target.value === 'AM') {
-                    newHour24 = currentHour12 === 12 ? 0 : currentHour12
-                  } else {
-                    newHour24 = currentHour12 === 12 ? 12 : currentHour12 + 12
-                  }
-                  handleChange('dailyCampaignCreationTime', `${newHour24.toString().padStart(2, '0')}:${minutes}`)
-                }}
-                disabled={!settings.dailyScheduleEnabled}
-                className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
-                style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
-              >
-                <option value="AM">AM</option>
-                <option value="PM">PM</option>
-              </select>
-            </div>
-            <p className="text-xs text-gray-500 mt-1">Final newsletter campaign creation with any review changes (5-minute increments)</p>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Scheduled Send Time
-            </label>
-            <div className="flex space-x-2 items-center">
-              <select
-                value={(() => {
-                  const hour24 = parseInt(settings.dailyScheduledSendTime.split(':')[0])
-                  return hour24 === 0 ? '12' : hour24 > 12 ? (hour24 - 12).toString() : hour24.toString()
-                })()}
-                onChange={(e) => {
-                  const minutes = settings.dailyScheduledSendTime.split(':')[1] || '00'
-                  const hour12 = parseInt(e.target.value)
-                  const currentHour24 = parseInt(settings.dailyScheduledSendTime.split(':')[0])
-                  const isAM = currentHour24 < 12
-                  let hour24
-                  if (hour12 === 12) {
-                    hour24 = isAM ? 0 : 12
-                  } else {
-                    hour24 = isAM ? hour12 : hour12 + 12
-                  }
-                  handleChange('dailyScheduledSendTime', `${hour24.toString().padStart(2, '0')}:${minutes}`)
-                }}
-                disabled={!settings.dailyScheduleEnabled}
-                className="w-16 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
-                style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
-              >
-                {Array.from({ length: 12 }, (_, i) => {
-                  const hour = i + 1
-                  return (
-                    <option key={hour} value={hour.toString()}>
-                      {hour}
-                    </option>
-                  )
-                })}
-              </select>
-              <span>:</span>
-              <select
-                value={settings.dailyScheduledSendTime.split(':')[1] || '00'}
-                onChange={(e) => {
-                  const hour24 = parseInt(settings.dailyScheduledSendTime.split(':')[0])
-                  handleChange('dailyScheduledSendTime', `${hour24.toString().padStart(2, '0')}:${e.target.value}`)
-                }}
-                disabled={!settings.dailyScheduleEnabled}
-                className="w-16 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
-                style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
-              >
-                <option value="00">00</option>
-                <option value="05">05</option>
-                <option value="10">10</option>
-                <option value="15">15</option>
-                <option value="20">20</option>
-                <option value="25">25</option>
-                <option value="30">30</option>
-                <option value="35">35</option>
-                <option value="40">40</option>
-                <option value="45">45</option>
-                <option value="50">50</option>
-                <option value="55">55</option>
-              </select>
-              <select
-                value={parseInt(settings.dailyScheduledSendTime.split(':')[0]) < 12 ? 'AM' : 'PM'}
-                onChange={(e) => {
-                  const minutes = settings.dailyScheduledSendTime.split(':')[1] || '00'
-                  const currentHour24 = parseInt(settings.dailyScheduledSendTime.split(':')[0])
-                  const currentHour12 = currentHour24 === 0 ? 12 : currentHour24 > 12 ? currentHour24 - 12 : currentHour24
-                  let newHour24
-                  if (e.target.value === 'AM') {
-                    newHour24 = currentHour12 === 12 ? 0 : currentHour12
-                  } else {
-                    newHour24 = currentHour12 === 12 ? 12 : currentHour12 + 12
-                  }
-                  handleChange('dailyScheduledSendTime', `${newHour24.toString().padStart(2, '0')}:${minutes}`)
-                }}
-                disabled={!settings.dailyScheduleEnabled}
-                className="w-20 px-2 py-2 pr-8 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:bg-gray-100 appearance-none bg-white"
-                style={{backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: "right 0.5rem center", backgroundRepeat: "no-repeat", backgroundSize: "1.5em 1.5em"}}
-              >
-                <option value="AM">AM</option>
-                <option value="PM">PM</option>
-              </select>
-            </div>
-            <p className="text-xs text-gray-500 mt-1">Final newsletter delivery to main subscriber group (5-minute increments)</p>
-          </div>
-        </div>
-
-        <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
-          <h4 className="font-medium text-green-900 mb-2">Daily Newsletter Workflow</h4>
-          <div className="text-sm text-green-800 space-y-1">
-            <div>1. <strong>{settings.dailyCampaignCreationTime}</strong> - Create final newsletter with any changes made during review</div>
-            <div>2. <strong>{settings.dailyScheduledSendTime}</strong> - Send final newsletter to main subscriber group</div>
+        <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <h4 className="font-medium text-green-900 mb-2">Daily Newsletter Workflow</h4>
+          <div className="text-sm text-green-800 space-y-1">
+            <div>1. <strong>{settings.dailyCampaignCreationTime}</strong> - Create final newsletter with any changes made during review</div>
+            <div>2. <strong>{settings.dailyScheduledSendTime}</strong> - Send final newsletter to main subscriber group</div>
           </div>
         </div>
       </div>
@@ -1282,106 +1344,595 @@ function EmailSettings() {
   )
 }
 
-function AIPromptsSettings() {
-  const [prompts, setPrompts] = useState<any[]>([])
-  const [grouped, setGrouped] = useState<Record<string, any[]>>({})
+type ScheduleJobRow = ScheduleJob & { label: string, group: 'review' | 'daily', issue_day_offset: number }
+
+interface ScheduledRunPreview {
+  runAt: string
+  issueDate: string
+  status: 'scheduled' | 'skipped'
+  reason: string | null
+  editionName: string | null
+}
+
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+
+const CALENDAR_ACTION_LABELS: Record<ScheduleCalendarEntry['action'], string> = {
+  skip: 'No issue',
+  special_edition: 'Special edition',
+  reschedule: 'Run at a different time'
+}
+
+function ScheduleSettings() {
+  const [jobs, setJobs] = useState<ScheduleJobRow[]>([])
+  const [calendar, setCalendar] = useState<ScheduleCalendarEntry[]>([])
   const [loading, setLoading] = useState(true)
-  const [saving, setSaving] = useState<string | null>(null)
+  const [savingJob, setSavingJob] = useState<ScheduleJobKey | null>(null)
   const [message, setMessage] = useState('')
-  const [expandedPrompt, setExpandedPrompt] = useState<string | null>(null)
-  const [editingPrompt, setEditingPrompt] = useState<{key: string, value: string} | null>(null)
+  const [previewJob, setPreviewJob] = useState<ScheduleJobKey>('final_send')
+  const [preview, setPreview] = useState<ScheduledRunPreview[]>([])
+  const [previewError, setPreviewError] = useState('')
+  const [newEntry, setNewEntry] = useState({
+    issue_date: '',
+    action: 'skip' as ScheduleCalendarEntry['action'],
+    job_key: '',
+    recurs_yearly: false,
+    edition_name: '',
+    run_date: '',
+    run_time: '',
+    label: ''
+  })
 
   useEffect(() => {
-    loadPrompts()
+    loadSchedule()
   }, [])
 
-  const loadPrompts = async () => {
+  useEffect(() => {
+    loadPreview()
+  }, [previewJob, calendar])
+
+  const loadSchedule = async () => {
     try {
-      const response = await fetch('/api/settings/ai-prompts')
+      const response = await fetch('/api/settings/schedule')
       if (response.ok) {
         const data = await response.json()
-        setPrompts(data.prompts || [])
-        setGrouped(data.grouped || {})
+        setJobs(data.jobs || [])
+        setCalendar(data.calendar || [])
       }
     } catch (error) {
-      console.error('Failed to load AI prompts:', error)
+      console.error('Failed to load schedule:', error)
     } finally {
       setLoading(false)
     }
   }
 
-  const handleEdit = (prompt: any) => {
-    setEditingPrompt({ key: prompt.key, value: prompt.value })
-    setExpandedPrompt(prompt.key)
+  // Previews the job as edited on the page, saved or not
+  const loadPreview = async (job?: ScheduleJobRow) => {
+    const current = job || jobs.find(j => j.job_key === previewJob)
+    const params = new URLSearchParams({ job: previewJob, count: '14' })
+    if (current) {
+      params.set('cron', current.cron_expression)
+      params.set('mask', current.issue_day_mask.toString())
+    }
+
+    try {
+      const response = await fetch(`/api/settings/schedule/preview?${params}`)
+      const data = await response.json()
+      if (response.ok) {
+        setPreview(data.runs || [])
+        setPreviewError('')
+      } else {
+        setPreviewError(data.error || 'Failed to load preview')
+      }
+    } catch (error) {
+      console.error('Failed to load schedule preview:', error)
+    }
   }
 
-  const handleCancel = () => {
-    setEditingPrompt(null)
+  const updateJob = (jobKey: ScheduleJobKey, changes: Partial<ScheduleJobRow>) => {
+    setJobs(prev => prev.map(job => job.job_key === jobKey ? { ...job, ...changes } : job))
   }
 
-  const handleSave = async (key: string) => {
-    if (!editingPrompt || editingPrompt.key !== key) return
+  const toggleDay = (job: ScheduleJobRow, day: number) => {
+    updateJob(job.job_key, { issue_day_mask: job.issue_day_mask ^ (1 << day) })
+  }
 
-    setSaving(key)
+  const saveJob = async (job: ScheduleJobRow) => {
+    setSavingJob(job.job_key)
     setMessage('')
 
     try {
-      const response = await fetch('/api/settings/ai-prompts', {
-        method: 'PATCH',
+      const response = await fetch('/api/settings/schedule', {
+        method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          key: editingPrompt.key,
-          value: editingPrompt.value
+          job_key: job.job_key,
+          cron_expression: job.cron_expression,
+          issue_day_mask: job.issue_day_mask
         })
       })
+      const data = await response.json()
 
-      if (response.ok) {
-        setMessage('Prompt saved successfully!')
-        setEditingPrompt(null)
-        await loadPrompts()
-        setTimeout(() => setMessage(''), 3000)
-      } else {
-        throw new Error('Failed to save prompt')
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save schedule')
       }
+      setMessage(`${job.label} schedule saved successfully!`)
+      setTimeout(() => setMessage(''), 3000)
+      if (job.job_key === previewJob) loadPreview(job)
     } catch (error) {
-      setMessage('Error: Failed to save prompt')
-      setTimeout(() => setMessage(''), 5000)
+      setMessage(error instanceof Error ? error.message : 'Failed to save schedule')
     } finally {
-      setSaving(null)
+      setSavingJob(null)
     }
   }
 
-  const handleReset = async (key: string) => {
-    if (!confirm('Are you sure you want to reset this prompt to its default value? This cannot be undone.')) {
-      return
-    }
-
-    setSaving(key)
+  const addEntry = async () => {
     setMessage('')
 
     try {
-      const response = await fetch('/api/settings/ai-prompts', {
+      const response = await fetch('/api/settings/schedule/calendar', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ key })
+        body: JSON.stringify({ ...newEntry, job_key: newEntry.job_key || null })
       })
+      const data = await response.json()
 
-      if (response.ok) {
-        const data = await response.json()
-        const message = data.used_custom_default
-          ? 'Prompt reset to your custom default!'
-          : 'Prompt reset to original code default!'
-        setMessage(message)
-        await loadPrompts()
-        setTimeout(() => setMessage(''), 3000)
-      } else {
-        throw new Error('Failed to reset prompt')
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add calendar entry')
       }
+      setCalendar(prev => [...prev, data.entry].sort((a, b) => a.issue_date.localeCompare(b.issue_date)))
+      setNewEntry(prev => ({ ...prev, issue_date: '', edition_name: '', run_date: '', run_time: '', label: '' }))
     } catch (error) {
-      setMessage('Error: Failed to reset prompt')
-      setTimeout(() => setMessage(''), 5000)
-    } finally {
-      setSaving(null)
+      setMessage(error instanceof Error ? error.message : 'Failed to add calendar entry')
+    }
+  }
+
+  const deleteEntry = async (id: string) => {
+    if (!confirm('Remove this calendar entry?')) return
+
+    try {
+      const response = await fetch(`/api/settings/schedule/calendar?id=${id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete calendar entry')
+      }
+      setCalendar(prev => prev.filter(entry => entry.id !== id))
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to delete calendar entry')
+    }
+  }
+
+  const jobLabel = (jobKey: string | null) =>
+    jobKey ? jobs.find(job => job.job_key === jobKey)?.label || jobKey : 'All jobs'
+
+  const describeEntry = (entry: ScheduleCalendarEntry) => {
+    if (entry.action === 'special_edition') return `Special edition: ${entry.edition_name}`
+    if (entry.action === 'reschedule') {
+      return `Run ${formatCalendarDate(entry.run_date || entry.issue_date, { month: 'short', day: 'numeric' })} at ${entry.run_time}`
+    }
+    return CALENDAR_ACTION_LABELS[entry.action]
+  }
+
+  if (loading) {
+    return <div className="text-center py-8">Loading schedule...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Job Schedules */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Job Schedules</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Cron expressions (minute hour day-of-month month day-of-week) in Central Time, e.g. <code>30 20 * * *</code> for 8:30 PM daily.
+          Issue days are the days of the week that get a newsletter; the review jobs run the evening before.
+          Turn each workflow on or off on the Email tab.
+        </p>
+
+        <div className="space-y-4">
+          {jobs.map(job => (
+            <div key={job.job_key} className="flex flex-wrap items-end gap-4 py-3 border-b last:border-b-0">
+              <div className="w-40">
+                <div className="font-medium text-gray-900">{job.label}</div>
+                <div className="text-xs text-gray-500">
+                  {job.issue_day_offset === 1 ? 'Runs the day before the issue' : 'Runs on the issue day'}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Cron</label>
+                <input
+                  type="text"
+                  value={job.cron_expression}
+                  onChange={(e) => updateJob(job.job_key, { cron_expression: e.target.value })}
+                  className="w-40 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Issue days</label>
+                <div className="flex space-x-1">
+                  {WEEKDAY_INITIALS.map((initial, day) => {
+                    const included = (job.issue_day_mask & (1 << day)) !== 0
+                    return (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => toggleDay(job, day)}
+                        className={`w-8 h-8 rounded-full text-xs font-medium ${
+                          included ? 'bg-brand-primary text-white' : 'bg-gray-100 text-gray-500'
+                        }`}
+                      >
+                        {initial}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+              <div className="text-xs text-gray-500 flex-1 min-w-[10rem]">
+                Last run: {job.last_run_at ? formatCentralDateTime(new Date(job.last_run_at)) : 'Never'}
+                {job.last_issue_date && <> (for {job.last_issue_date})</>}
+                {job.last_run_status === 'failed' && (
+                  <div className="text-red-600">Failed: {job.last_run_error || 'Unknown error'}</div>
+                )}
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => { setPreviewJob(job.job_key); loadPreview(job) }}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Preview
+                </button>
+                <button
+                  onClick={() => saveJob(job)}
+                  disabled={savingJob === job.job_key}
+                  className="bg-brand-primary hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium"
+                >
+                  {savingJob === job.job_key ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {message && (
+          <div className={`mt-4 p-4 rounded-md ${
+            message.includes('successfully')
+              ? 'bg-green-50 border border-green-200 text-green-800'
+              : 'bg-red-50 border border-red-200 text-red-800'
+          }`}>
+            {message}
+          </div>
+        )}
+      </div>
+
+      {/* Upcoming Runs */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Next 14 Runs</h3>
+          <select
+            value={previewJob}
+            onChange={(e) => setPreviewJob(e.target.value as ScheduleJobKey)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+          >
+            {jobs.map(job => (
+              <option key={job.job_key} value={job.job_key}>{job.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {previewError ? (
+          <div className="text-sm text-red-600">{previewError}</div>
+        ) : preview.length === 0 ? (
+          <div className="text-sm text-gray-500">No runs in the next year</div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Runs (CT)</th>
+                <th className="py-2 pr-4 font-medium">Issue</th>
+                <th className="py-2 font-medium">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map(run => (
+                <tr key={`${run.runAt}-${run.issueDate}`} className={`border-b last:border-b-0 ${run.status === 'skipped' ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                  <td className="py-2 pr-4">{formatCentralDateTime(new Date(run.runAt))}</td>
+                  <td className="py-2 pr-4">{formatCalendarDate(run.issueDate, { weekday: 'short', month: 'short', day: 'numeric' })}</td>
+                  <td className="py-2">
+                    {[run.editionName, run.reason].filter(Boolean).join(' · ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Holiday / Skip Calendar */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Holiday &amp; Skip Calendar</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Entries apply to the issue dated on the given day, so skipping Christmas also skips the review jobs on Christmas Eve.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Issue date</label>
+            <input
+              type="date"
+              value={newEntry.issue_date}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, issue_date: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Action</label>
+            <select
+              value={newEntry.action}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, action: e.target.value as ScheduleCalendarEntry['action'] }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            >
+              {Object.entries(CALENDAR_ACTION_LABELS).map(([action, label]) => (
+                <option key={action} value={action}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Job</label>
+            <select
+              value={newEntry.job_key}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, job_key: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            >
+              {newEntry.action !== 'reschedule' && <option value="">All jobs</option>}
+              {newEntry.action === 'reschedule' && <option value="">Pick a job...</option>}
+              {jobs.map(job => (
+                <option key={job.job_key} value={job.job_key}>{job.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Label</label>
+            <input
+              type="text"
+              value={newEntry.label}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, label: e.target.value }))}
+              placeholder="e.g. Christmas"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            />
+          </div>
+
+          {newEntry.action === 'special_edition' && (
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Edition name (shown in the header)</label>
+              <input
+                type="text"
+                value={newEntry.edition_name}
+                onChange={(e) => setNewEntry(prev => ({ ...prev, edition_name: e.target.value }))}
+                placeholder="e.g. Fourth of July Edition"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+              />
+            </div>
+          )}
+
+          {newEntry.action === 'reschedule' ? (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Run on</label>
+                <input
+                  type="date"
+                  value={newEntry.run_date}
+                  onChange={(e) => setNewEntry(prev => ({ ...prev, run_date: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">At (CT)</label>
+                <input
+                  type="time"
+                  value={newEntry.run_time}
+                  onChange={(e) => setNewEntry(prev => ({ ...prev, run_time: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                />
+              </div>
+            </>
+          ) : (
+            <label className="flex items-center text-sm text-gray-700 md:col-span-2">
+              <input
+                type="checkbox"
+                checked={newEntry.recurs_yearly}
+                onChange={(e) => setNewEntry(prev => ({ ...prev, recurs_yearly: e.target.checked }))}
+                className="mr-2"
+              />
+              Every year on this date
+            </label>
+          )}
+        </div>
+
+        <div className="flex justify-end mb-6">
+          <button
+            onClick={addEntry}
+            disabled={!newEntry.issue_date}
+            className="bg-brand-primary hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium"
+          >
+            Add Entry
+          </button>
+        </div>
+
+        {calendar.length === 0 ? (
+          <div className="text-sm text-gray-500">No calendar entries</div>
+        ) : (
+          <div className="space-y-2">
+            {calendar.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {entry.recurs_yearly
+                      ? `${formatCalendarDate(entry.issue_date, { month: 'long', day: 'numeric' })} every year`
+                      : formatCalendarDate(entry.issue_date, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                    {entry.label && <span className="text-gray-500 font-normal"> · {entry.label}</span>}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {describeEntry(entry)} · {jobLabel(entry.job_key)}
+                  </div>
+                </div>
+                <button
+                  onClick={() => deleteEntry(entry.id)}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function AIPromptsSettings() {
+  const [prompts, setPrompts] = useState<any[]>([])
+  const [grouped, setGrouped] = useState<Record<string, any[]>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+  const [expandedPrompt, setExpandedPrompt] = useState<string | null>(null)
+  const [editingPrompt, setEditingPrompt] = useState<{key: string, value: string} | null>(null)
+  const [editingModel, setEditingModel] = useState<{key: string, value: string} | null>(null)
+  // Prompt text is edited per publication; '' is the default publication
+  const [publications, setPublications] = useState<Publication[]>([])
+  const [publicationSlug, setPublicationSlug] = useState('')
+
+  useEffect(() => {
+    fetch('/api/settings/publications')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setPublications(data?.publications || []))
+      .catch(error => console.error('Failed to load publications:', error))
+  }, [])
+
+  useEffect(() => {
+    loadPrompts()
+  }, [publicationSlug])
+
+  const loadPrompts = async () => {
+    try {
+      const query = publicationSlug ? `?publication=${encodeURIComponent(publicationSlug)}` : ''
+      const response = await fetch(`/api/settings/ai-prompts${query}`)
+      if (response.ok) {
+        const data = await response.json()
+        setPrompts(data.prompts || [])
+        setGrouped(data.grouped || {})
+      }
+    } catch (error) {
+      console.error('Failed to load AI prompts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleEdit = (prompt: any) => {
+    setEditingPrompt({ key: prompt.key, value: prompt.value })
+    setExpandedPrompt(prompt.key)
+  }
+
+  const handleCancel = () => {
+    setEditingPrompt(null)
+  }
+
+  const handleSave = async (key: string) => {
+    if (!editingPrompt || editingPrompt.key !== key) return
+
+    setSaving(key)
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/settings/ai-prompts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          key: editingPrompt.key,
+          value: editingPrompt.value,
+          publication: publicationSlug || undefined
+        })
+      })
+
+      if (response.ok) {
+        setMessage('Prompt saved successfully!')
+        setEditingPrompt(null)
+        await loadPrompts()
+        setTimeout(() => setMessage(''), 3000)
+      } else {
+        throw new Error('Failed to save prompt')
+      }
+    } catch (error) {
+      setMessage('Error: Failed to save prompt')
+      setTimeout(() => setMessage(''), 5000)
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleSaveModel = async (key: string) => {
+    if (!editingModel || editingModel.key !== key) return
+
+    setSaving(key)
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/settings/ai-prompts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          key: editingModel.key,
+          model: editingModel.value
+        })
+      })
+
+      if (response.ok) {
+        setMessage('Model saved successfully!')
+        setEditingModel(null)
+        await loadPrompts()
+        setTimeout(() => setMessage(''), 3000)
+      } else {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save model')
+      }
+    } catch (error) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Failed to save model'}`)
+      setTimeout(() => setMessage(''), 5000)
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleReset = async (key: string) => {
+    if (!confirm('Are you sure you want to reset this prompt to its default value? This cannot be undone.')) {
+      return
+    }
+
+    setSaving(key)
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/settings/ai-prompts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key, publication: publicationSlug || undefined })
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        const message = data.used_custom_default
+          ? 'Prompt reset to your custom default!'
+          : 'Prompt reset to original code default!'
+        setMessage(message)
+        await loadPrompts()
+        setTimeout(() => setMessage(''), 3000)
+      } else {
+        throw new Error('Failed to reset prompt')
+      }
+    } catch (error) {
+      setMessage('Error: Failed to reset prompt')
+      setTimeout(() => setMessage(''), 5000)
+    } finally {
+      setSaving(null)
     }
   }
 
@@ -1401,7 +1952,7 @@ function AIPromptsSettings() {
       const response = await fetch('/api/settings/ai-prompts', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ key, action: 'save_as_default' })
+        body: JSON.stringify({ key, action: 'save_as_default', publication: publicationSlug || undefined })
       })
 
       if (response.ok) {
@@ -1437,7 +1988,7 @@ function AIPromptsSettings() {
     }
 
     // Open test endpoint in new tab
-    const testUrl = `/api/debug/test-ai-prompts?type=${testType}`
+    const testUrl = `/api/settings/ai-prompts/test?type=${testType}`
     window.open(testUrl, '_blank')
   }
 
@@ -1457,7 +2008,30 @@ function AIPromptsSettings() {
         <p className="text-sm text-gray-600">
           Customize the AI prompts used throughout the newsletter system. Changes take effect immediately.
           Use <code className="bg-gray-100 px-1 rounded text-xs">{'{{}}'}</code> placeholders for dynamic content.
+          Publication placeholders such as <code className="bg-gray-100 px-1 rounded text-xs">{'{{location}}'}</code>,{' '}
+          <code className="bg-gray-100 px-1 rounded text-xs">{'{{city}}'}</code> and{' '}
+          <code className="bg-gray-100 px-1 rounded text-xs">{'{{nearby_communities}}'}</code> are filled in for each publication.
         </p>
+        {publications.length > 1 && (
+          <div className="mt-4 flex items-center space-x-3">
+            <label className="text-sm font-medium text-gray-700">Publication</label>
+            <select
+              value={publicationSlug}
+              onChange={(e) => {
+                setEditingPrompt(null)
+                setPublicationSlug(e.target.value)
+              }}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {publications.map(publication => (
+                <option key={publication.id} value={publication.is_default ? '' : publication.slug}>
+                  {publication.name}{publication.is_default && ' (default)'}
+                </option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500">Models and custom defaults are shared by every publication.</span>
+          </div>
+        )}
         {message && (
           <div className={`mt-4 p-3 rounded ${message.includes('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
             {message}
@@ -1494,11 +2068,49 @@ function AIPromptsSettings() {
 
                   {isExpanded && (
                     <div className="mt-4">
-                      <div className="mb-2 flex items-center justify-between">
-                        <label className="block text-sm font-medium text-gray-700">
-                          Prompt Content
-                        </label>
-                        <span className="text-xs text-gray-500">
+                      <div className="mb-4 flex items-center space-x-3">
+                        <label className="text-sm font-medium text-gray-700">Model</label>
+                        {editingModel?.key === prompt.key ? (
+                          <>
+                            <input
+                              type="text"
+                              value={editingModel?.value || ''}
+                              onChange={(e) => setEditingModel({ key: prompt.key, value: e.target.value })}
+                              placeholder="openai:gpt-4o"
+                              className="px-3 py-1 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                              onClick={() => handleSaveModel(prompt.key)}
+                              disabled={isSaving}
+                              className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                            >
+                              {isSaving ? 'Saving...' : 'Save'}
+                            </button>
+                            <button
+                              onClick={() => setEditingModel(null)}
+                              disabled={isSaving}
+                              className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <code className="bg-gray-100 px-2 py-0.5 rounded text-sm">{prompt.model}</code>
+                            <button
+                              onClick={() => setEditingModel({ key: prompt.key, value: prompt.model })}
+                              className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                            >
+                              Change
+                            </button>
+                          </>
+                        )}
+                      </div>
+                      <div className="mb-2 flex items-center justify-between">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Prompt Content
+                        </label>
+                        <span className="text-xs text-gray-500">
                           {isEditing ? editingPrompt?.value.length || 0 : prompt.value.length} characters
                         </span>
                       </div>
@@ -1564,6 +2176,17 @@ function AIPromptsSettings() {
                               </button>
                             </div>
                           </div>
+                          <PromptHistory
+                            key={publicationSlug}
+                            promptKey={prompt.key}
+                            publicationSlug={publicationSlug}
+                            currentValue={prompt.value}
+                            onRolledBack={async (text) => {
+                              setMessage(text)
+                              await loadPrompts()
+                              setTimeout(() => setMessage(''), 3000)
+                            }}
+                          />
                         </>
                       )}
                     </div>
@@ -1575,6 +2198,10 @@ function AIPromptsSettings() {
         </div>
       ))}
 
+      <PromptExperiments prompts={prompts} />
+
+      <PromptPlayground />
+
       {/* Help Information */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
         <h4 className="font-medium text-blue-900 mb-3">Prompt Placeholders</h4>
@@ -1584,6 +2211,7 @@ function AIPromptsSettings() {
           <p><code className="bg-blue-100 px-2 py-0.5 rounded">{'{'}content{'}'}</code> - Full article content</p>
           <p><code className="bg-blue-100 px-2 py-0.5 rounded">{'{'}date{'}'}</code> - Campaign date</p>
           <p><code className="bg-blue-100 px-2 py-0.5 rounded">{'{'}headline{'}'}</code> - Newsletter article headline</p>
+          <p className="mt-3">Models use the form <code className="bg-blue-100 px-2 py-0.5 rounded">provider:model</code> - providers are openai, perplexity and mock (offline fixtures).</p>
           <p className="mt-3 text-xs text-blue-700">
             ⚠️ <strong>Important:</strong> Changes take effect immediately. Test prompts carefully before saving.
           </p>
@@ -1593,6 +2221,593 @@ function AIPromptsSettings() {
   )
 }
 
+function PromptHistory({ promptKey, publicationSlug, currentValue, onRolledBack }: {
+  promptKey: string
+  publicationSlug: string
+  currentValue: string
+  onRolledBack: (message: string) => Promise<void>
+}) {
+  const [open, setOpen] = useState(false)
+  const [versions, setVersions] = useState<AIPromptVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const [rollingBack, setRollingBack] = useState<string | null>(null)
+
+  const loadVersions = async () => {
+    setLoading(true)
+    try {
+      const publicationQuery = publicationSlug ? `&publication=${encodeURIComponent(publicationSlug)}` : ''
+      const response = await fetch(`/api/settings/ai-prompts/versions?key=${encodeURIComponent(promptKey)}${publicationQuery}`)
+      if (response.ok) {
+        const data = await response.json()
+        setVersions(data.versions || [])
+      }
+    } catch (error) {
+      console.error('Failed to load prompt versions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggle = async () => {
+    if (!open) {
+      await loadVersions()
+    }
+    setOpen(!open)
+  }
+
+  const handleRollback = async (version: AIPromptVersion) => {
+    if (!confirm(`Make version ${version.version_number} the live prompt? The current text stays in the history.`)) {
+      return
+    }
+
+    setRollingBack(version.id)
+    try {
+      const response = await fetch('/api/settings/ai-prompts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: promptKey, action: 'rollback', version_id: version.id, publication: publicationSlug || undefined })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to roll back prompt')
+      }
+
+      const data = await response.json()
+      setCompareId(null)
+      await onRolledBack(data.message)
+      await loadVersions()
+    } catch (error) {
+      alert('Failed to roll back prompt')
+    } finally {
+      setRollingBack(null)
+    }
+  }
+
+  const compareVersion = versions.find(v => v.id === compareId)
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <button
+        onClick={toggle}
+        className="text-sm font-medium text-blue-600 hover:text-blue-800"
+      >
+        {open ? 'Hide History' : 'Show History'}
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          {loading ? (
+            <div className="text-sm text-gray-500">Loading versions...</div>
+          ) : versions.length === 0 ? (
+            <div className="text-sm text-gray-500">No saved versions yet. A version is recorded every time the prompt is saved.</div>
+          ) : (
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {versions.map(version => {
+                const isLive = version.value === currentValue
+                return (
+                  <div key={version.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div>
+                      <span className="font-medium text-gray-900">v{version.version_number}</span>
+                      {isLive && <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded">live</span>}
+                      <span className="ml-3 text-gray-600">{version.created_by || 'unknown'}</span>
+                      <span className="ml-3 text-gray-500">{new Date(version.created_at).toLocaleString()}</span>
+                      {version.note && <span className="ml-3 text-gray-500 italic">{version.note}</span>}
+                    </div>
+                    {!isLive && (
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={() => setCompareId(compareId === version.id ? null : version.id)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          {compareId === version.id ? 'Hide Diff' : 'Compare'}
+                        </button>
+                        <button
+                          onClick={() => handleRollback(version)}
+                          disabled={rollingBack !== null}
+                          className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                        >
+                          {rollingBack === version.id ? 'Rolling back...' : 'Rollback'}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {compareVersion && (
+            <PromptDiff
+              oldText={compareVersion.value}
+              newText={currentValue}
+              oldLabel={`Version ${compareVersion.version_number}`}
+              newLabel="Live prompt"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function PromptExperiments({ prompts }: { prompts: any[] }) {
+  const [experiments, setExperiments] = useState<any[]>([])
+  const [supportedPrompts, setSupportedPrompts] = useState<string[]>([])
+  const [promptKey, setPromptKey] = useState('')
+  const [versions, setVersions] = useState<AIPromptVersion[]>([])
+  const [form, setForm] = useState({ name: '', versionA: '', versionB: '', split: 50 })
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadExperiments()
+  }, [])
+
+  const loadExperiments = async () => {
+    try {
+      const response = await fetch('/api/settings/ai-prompts/experiments')
+      if (response.ok) {
+        const data = await response.json()
+        setExperiments(data.experiments || [])
+        setSupportedPrompts(data.supported_prompts || [])
+      }
+    } catch (error) {
+      console.error('Failed to load prompt experiments:', error)
+    }
+  }
+
+  const selectPrompt = async (key: string) => {
+    setPromptKey(key)
+    setForm({ name: '', versionA: '', versionB: '', split: 50 })
+    setVersions([])
+    if (!key) return
+
+    const response = await fetch(`/api/settings/ai-prompts/versions?key=${encodeURIComponent(key)}`)
+    if (response.ok) {
+      const data = await response.json()
+      setVersions(data.versions || [])
+    }
+  }
+
+  const startExperiment = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/settings/ai-prompts/experiments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          key: promptKey,
+          name: form.name || undefined,
+          version_a_id: form.versionA,
+          version_b_id: form.versionB,
+          split_percent: form.split
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to start experiment')
+      }
+
+      await selectPrompt('')
+      await loadExperiments()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to start experiment')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const endExperiment = async (id: string) => {
+    if (!confirm('End this experiment? Posts will go back to the live prompt.')) {
+      return
+    }
+
+    const response = await fetch('/api/settings/ai-prompts/experiments', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id })
+    })
+
+    if (response.ok) {
+      await loadExperiments()
+    } else {
+      alert('Failed to end experiment')
+    }
+  }
+
+  const promptName = (key: string) => prompts.find(p => p.key === key)?.name || key.replace('ai_prompt_', '').replace(/_/g, ' ')
+  const formatRate = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`
+  const formatScore = (score: number | null) => score === null ? '—' : score.toFixed(1)
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Prompt Experiments</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Split new posts between two versions of a prompt and compare how often reviewers keep the resulting articles.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Prompt</label>
+            <select
+              value={promptKey}
+              onChange={(e) => selectPrompt(e.target.value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Select a prompt</option>
+              {supportedPrompts.map(key => (
+                <option key={key} value={key}>{promptName(key)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Version A</label>
+            <select
+              value={form.versionA}
+              onChange={(e) => setForm({ ...form, versionA: e.target.value })}
+              disabled={!promptKey}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">—</option>
+              {versions.map(v => <option key={v.id} value={v.id}>v{v.version_number}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Version B</label>
+            <select
+              value={form.versionB}
+              onChange={(e) => setForm({ ...form, versionB: e.target.value })}
+              disabled={!promptKey}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">—</option>
+              {versions.map(v => <option key={v.id} value={v.id}>v{v.version_number}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">% to Version B</label>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={form.split}
+              onChange={(e) => setForm({ ...form, split: parseInt(e.target.value) || 50 })}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <button
+            onClick={startExperiment}
+            disabled={saving || !form.versionA || !form.versionB || form.versionA === form.versionB}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Starting...' : 'Start Experiment'}
+          </button>
+        </div>
+
+        {experiments.length > 0 && (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2">Experiment</th>
+                <th className="py-2">Variant</th>
+                <th className="py-2">Posts</th>
+                <th className="py-2">Articles</th>
+                <th className="py-2">Accepted</th>
+                <th className="py-2">Skipped</th>
+                <th className="py-2">Acceptance</th>
+                <th className="py-2">Avg Score</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {experiments.map(experiment => (['A', 'B'] as const).map(variant => {
+                const result = experiment.results[variant]
+                return (
+                  <tr key={`${experiment.id}-${variant}`}>
+                    <td className="py-2">
+                      {variant === 'A' && (
+                        <>
+                          <div className="font-medium text-gray-900">{experiment.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {promptName(experiment.prompt_key)} · {experiment.split_percent}% to B · {experiment.is_active ? 'running' : 'ended'}
+                          </div>
+                        </>
+                      )}
+                    </td>
+                    <td className="py-2">{variant}</td>
+                    <td className="py-2">{result.items}</td>
+                    <td className="py-2">{result.articles}</td>
+                    <td className="py-2">{result.accepted}</td>
+                    <td className="py-2">{result.skipped}</td>
+                    <td className="py-2 font-medium">{formatRate(result.acceptanceRate)}</td>
+                    <td className="py-2">{formatScore(result.averageScore)}</td>
+                    <td className="py-2 text-right">
+                      {variant === 'A' && experiment.is_active && (
+                        <button
+                          onClick={() => endExperiment(experiment.id)}
+                          className="text-red-600 hover:text-red-800 font-medium"
+                        >
+                          End
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              }))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const PLAYGROUND_PROMPT_NAMES: Record<string, string> = {
+  content_evaluator: 'Content Evaluator',
+  newsletter_writer: 'Newsletter Writer',
+  fact_checker: 'Fact Checker'
+}
+
+function PromptPlayground() {
+  const [campaigns, setCampaigns] = useState<any[]>([])
+  const [templates, setTemplates] = useState<Record<string, string>>({})
+  const [maxAllowed, setMaxAllowed] = useState(20)
+  const [promptKey, setPromptKey] = useState('content_evaluator')
+  const [draft, setDraft] = useState('')
+  const [campaignId, setCampaignId] = useState('')
+  const [maxPosts, setMaxPosts] = useState(10)
+  const [running, setRunning] = useState(false)
+  const [showChanges, setShowChanges] = useState(false)
+  const [result, setResult] = useState<any>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadPlayground()
+  }, [])
+
+  const loadPlayground = async () => {
+    try {
+      const response = await fetch('/api/settings/ai-prompts/playground')
+      if (response.ok) {
+        const data = await response.json()
+        setCampaigns(data.campaigns || [])
+        setTemplates(data.templates || {})
+        setMaxAllowed(data.max_posts || 20)
+        setDraft(data.templates?.content_evaluator || '')
+        if (data.campaigns?.length > 0) {
+          setCampaignId(data.campaigns[0].campaignId)
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load prompt playground:', error)
+    }
+  }
+
+  const selectPrompt = (key: string) => {
+    setPromptKey(key)
+    setDraft(templates[key] || '')
+    setResult(null)
+  }
+
+  const runPlayground = async () => {
+    setRunning(true)
+    setError('')
+    setResult(null)
+    try {
+      const response = await fetch('/api/settings/ai-prompts/playground', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ campaign_id: campaignId, prompt_key: promptKey, draft, max_posts: maxPosts })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Playground run failed')
+      }
+      setResult(data.result)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Playground run failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const formatDelta = (delta: number | null) => delta === null ? '—' : delta > 0 ? `+${delta}` : `${delta}`
+  const formatRank = (rank: number | null, selected: boolean) => rank === null ? '—' : `#${rank}${selected ? ' ★' : ''}`
+  const deltaClass = (delta: number | null) => !delta ? 'text-gray-600' : delta > 0 ? 'text-green-700' : 'text-red-700'
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Prompt Playground</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Replay a past campaign&apos;s archived posts against a draft prompt. Nothing is saved and the live prompt is not changed.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Prompt</label>
+            <select
+              value={promptKey}
+              onChange={(e) => selectPrompt(e.target.value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {Object.entries(PLAYGROUND_PROMPT_NAMES).map(([key, name]) => (
+                <option key={key} value={key}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Campaign</label>
+            <select
+              value={campaignId}
+              onChange={(e) => setCampaignId(e.target.value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {campaigns.length === 0 && <option value="">No archived campaigns</option>}
+              {campaigns.map(campaign => (
+                <option key={campaign.campaignId} value={campaign.campaignId}>
+                  {campaign.campaignDate || campaign.campaignId.slice(0, 8)} ({campaign.postCount} posts)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Posts to replay (max {maxAllowed})</label>
+            <input
+              type="number"
+              min={1}
+              max={maxAllowed}
+              value={maxPosts}
+              onChange={(e) => setMaxPosts(parseInt(e.target.value) || 10)}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <button
+            onClick={runPlayground}
+            disabled={running || !campaignId || !draft.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {running ? 'Replaying...' : 'Run Draft'}
+          </button>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-xs font-medium text-gray-700">Draft prompt</label>
+            <button
+              onClick={() => setShowChanges(!showChanges)}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              {showChanges ? 'Hide changes' : 'Show changes from live prompt'}
+            </button>
+          </div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={12}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+          />
+          {promptKey === 'fact_checker' && (
+            <p className="text-xs text-gray-500 mt-1">
+              Use {'{{newsletterContent}}'} and {'{{originalContent}}'} for the article and its source.
+            </p>
+          )}
+          {showChanges && (
+            <div className="mt-2">
+              <PromptDiff
+                oldText={templates[promptKey] || ''}
+                newText={draft}
+                oldLabel="Live prompt"
+                newLabel="Draft"
+              />
+            </div>
+          )}
+        </div>
+
+        {running && (
+          <div className="text-sm text-gray-600">Running the draft against each post. This can take a few minutes...</div>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">{error}</div>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="bg-gray-50 rounded-md p-4 text-sm text-gray-700 space-y-1">
+              <div>
+                Replayed {result.summary.replayed} posts from {result.campaignDate || 'campaign'}
+                {result.summary.errors > 0 && <span className="text-red-700"> ({result.summary.errors} failed)</span>}
+                . Top {result.topArticleCount} articles are selected (★).
+              </div>
+              <div>
+                Average {result.promptKey === 'content_evaluator' ? 'rating' : 'fact-check score'} change:{' '}
+                <span className={`font-medium ${deltaClass(result.summary.averageScoreDelta)}`}>
+                  {result.summary.averageScoreDelta === null ? '—' : formatDelta(Math.round(result.summary.averageScoreDelta * 10) / 10)}
+                </span>
+              </div>
+              {result.summary.enteredTopArticles.length > 0 && (
+                <div className="text-green-700">Newly selected: {result.summary.enteredTopArticles.join(', ')}</div>
+              )}
+              {result.summary.leftTopArticles.length > 0 && (
+                <div className="text-red-700">No longer selected: {result.summary.leftTopArticles.join(', ')}</div>
+              )}
+            </div>
+
+            {result.posts.map((post: any) => (
+              <div key={post.postId} className="border border-gray-200 rounded-md p-4 text-sm">
+                <div className="flex items-start justify-between">
+                  <div className="font-medium text-gray-900">{post.title}</div>
+                  <div className="flex space-x-4 text-xs text-gray-600 whitespace-nowrap ml-4">
+                    <span>
+                      {result.promptKey === 'content_evaluator' ? 'Rating' : 'Fact check'}:{' '}
+                      {result.promptKey === 'content_evaluator'
+                        ? `${post.baseline.score ?? '—'} → ${post.draft.score ?? '—'}`
+                        : `${post.baseline.factCheckScore ?? '—'} → ${post.draft.factCheckScore ?? '—'}`}{' '}
+                      <span className={deltaClass(post.scoreDelta)}>({formatDelta(post.scoreDelta)})</span>
+                    </span>
+                    <span>
+                      Rank: {formatRank(post.baseline.rank, post.baseline.selected)} → {formatRank(post.draft.rank, post.draft.selected)}
+                    </span>
+                    {post.draft.factCheckPassed === false && <span className="text-red-700">Fails fact check</span>}
+                  </div>
+                </div>
+
+                {post.error && <div className="mt-2 text-red-700">{post.error}</div>}
+
+                {result.promptKey === 'newsletter_writer' && !post.error && (
+                  <div className="grid grid-cols-2 gap-4 mt-3">
+                    <div>
+                      <div className="text-xs font-medium text-gray-500 mb-1">Published</div>
+                      <div className="font-medium">{post.baseline.headline}</div>
+                      <div className="text-gray-700 mt-1">{post.baseline.content}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs font-medium text-gray-500 mb-1">Draft</div>
+                      <div className="font-medium">{post.draft.headline}</div>
+                      <div className="text-gray-700 mt-1">{post.draft.content}</div>
+                    </div>
+                  </div>
+                )}
+
+                {post.draft.reasoning && (
+                  <div className="mt-2 text-xs text-gray-500">{post.draft.reasoning}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
 function SlackSettings() {
   const [settings, setSettings] = useState({
     campaignStatusUpdates: true,
@@ -2381,24 +3596,702 @@ function AdsSettings() {
   )
 }
 
-function Users() {
-  return (
-    <div className="bg-white shadow rounded-lg p-6">
-      <h3 className="text-lg font-medium text-gray-900 mb-4">User Management</h3>
+function DiscountsSettings() {
+  const [settings, setSettings] = useState({
+    nonprofitDiscountPercent: '0',
+    eventBundleMinItems: '3',
+    eventBundleDiscountPercent: '0'
+  })
+  const [codes, setCodes] = useState<DiscountCode[]>([])
+  const [newCode, setNewCode] = useState({
+    code: '',
+    description: '',
+    kind: 'percent',
+    value: '',
+    applies_to: 'all',
+    max_redemptions: '',
+    expires_at: ''
+  })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
 
-      <div className="text-gray-600 mb-4">
-        User access is managed through Google OAuth. All users with valid Google accounts
-        can access the system. Role-based permissions will be added in future versions.
-      </div>
+  useEffect(() => {
+    loadDiscounts()
+  }, [])
 
-      <div className="bg-gray-50 p-4 rounded-lg">
-        <h4 className="font-medium mb-2">Current Access:</h4>
-        <ul className="space-y-1 text-sm text-gray-600">
-          <li>• All team members can review and modify newsletters</li>
-          <li>• Authentication handled via Google OAuth</li>
-          <li>• User activity is logged for audit purposes</li>
-        </ul>
-      </div>
-    </div>
-  )
-}
\ No newline at end of file
+  const loadDiscounts = async () => {
+    try {
+      const response = await fetch('/api/settings/discounts')
+      if (response.ok) {
+        const data = await response.json()
+        setSettings({
+          nonprofitDiscountPercent: String(data.settings.nonprofitDiscountPercent),
+          eventBundleMinItems: String(data.settings.eventBundleMinItems),
+          eventBundleDiscountPercent: String(data.settings.eventBundleDiscountPercent)
+        })
+        setCodes(data.codes || [])
+      }
+    } catch (error) {
+      console.error('Failed to load discounts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    setSaving(true)
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/settings/discounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings)
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage('Discount rates saved successfully!')
+        setTimeout(() => setMessage(''), 3000)
+      } else {
+        setMessage(data.error || 'Failed to save discount rates')
+      }
+    } catch (error) {
+      setMessage('Failed to save discount rates. Please try again.')
+      console.error('Save error:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCreateCode = async () => {
+    setSaving(true)
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/settings/discounts/codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: newCode.code,
+          description: newCode.description,
+          percent_off: newCode.kind === 'percent' ? newCode.value : null,
+          amount_off: newCode.kind === 'amount' ? newCode.value : null,
+          applies_to: newCode.applies_to,
+          max_redemptions: newCode.max_redemptions || null,
+          expires_at: newCode.expires_at ? new Date(`${newCode.expires_at}T23:59:59`).toISOString() : null
+        })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setCodes(prev => [data.code, ...prev])
+        setNewCode({ code: '', description: '', kind: 'percent', value: '', applies_to: 'all', max_redemptions: '', expires_at: '' })
+        setMessage('Discount code created successfully!')
+        setTimeout(() => setMessage(''), 3000)
+      } else {
+        setMessage(data.error || 'Failed to create discount code')
+      }
+    } catch (error) {
+      setMessage('Failed to create discount code. Please try again.')
+      console.error('Create error:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleCode = async (code: DiscountCode) => {
+    try {
+      const response = await fetch('/api/settings/discounts/codes', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: code.id, active: !code.active })
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setCodes(prev => prev.map(c => c.id === code.id ? data.code : c))
+      }
+    } catch (error) {
+      console.error('Failed to update discount code:', error)
+    }
+  }
+
+  const handleDeleteCode = async (code: DiscountCode) => {
+    if (!confirm(`Delete the code ${code.code}?`)) return
+
+    try {
+      const response = await fetch(`/api/settings/discounts/codes?id=${code.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (response.ok) {
+        setCodes(prev => prev.filter(c => c.id !== code.id))
+      } else {
+        alert(data.error || 'Failed to delete discount code')
+      }
+    } catch (error) {
+      console.error('Failed to delete discount code:', error)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary'
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-600">Loading discounts...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Rates */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Discount Rates</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Applied at checkout after multi-run ad pricing and before discount codes. Set a rate to 0 to turn it off.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nonprofit discount (%)</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={settings.nonprofitDiscountPercent}
+              onChange={(e) => setSettings(prev => ({ ...prev, nonprofitDiscountPercent: e.target.value }))}
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500">Ads and event promotions; buyers enter an EIN</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Event bundle size</label>
+            <input
+              type="number"
+              min="2"
+              value={settings.eventBundleMinItems}
+              onChange={(e) => setSettings(prev => ({ ...prev, eventBundleMinItems: e.target.value }))}
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500">Promoted events in one order</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Event bundle discount (%)</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={settings.eventBundleDiscountPercent}
+              onChange={(e) => setSettings(prev => ({ ...prev, eventBundleDiscountPercent: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={handleSaveSettings}
+            disabled={saving}
+            className="bg-brand-primary hover:bg-blue-700 disabled:bg-gray-400 text-white px-6 py-2 rounded-md font-medium"
+          >
+            {saving ? 'Saving...' : 'Save Rates'}
+          </button>
+        </div>
+      </div>
+
+      {/* Discount Codes */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Discount Codes</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+          <input
+            type="text"
+            placeholder="CODE"
+            value={newCode.code}
+            onChange={(e) => setNewCode(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder="Description (optional)"
+            value={newCode.description}
+            onChange={(e) => setNewCode(prev => ({ ...prev, description: e.target.value }))}
+            className={`${inputClass} md:col-span-3`}
+          />
+          <div className="flex gap-2">
+            <select
+              value={newCode.kind}
+              onChange={(e) => setNewCode(prev => ({ ...prev, kind: e.target.value }))}
+              className="px-2 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="percent">% off</option>
+              <option value="amount">$ off</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={newCode.value}
+              onChange={(e) => setNewCode(prev => ({ ...prev, value: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <select
+            value={newCode.applies_to}
+            onChange={(e) => setNewCode(prev => ({ ...prev, applies_to: e.target.value }))}
+            className={inputClass}
+          >
+            <option value="all">Ads and events</option>
+            <option value="ads">Ads only</option>
+            <option value="events">Event promotions only</option>
+          </select>
+          <input
+            type="number"
+            min="1"
+            placeholder="Max uses (optional)"
+            value={newCode.max_redemptions}
+            onChange={(e) => setNewCode(prev => ({ ...prev, max_redemptions: e.target.value }))}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={newCode.expires_at}
+            onChange={(e) => setNewCode(prev => ({ ...prev, expires_at: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+        <button
+          onClick={handleCreateCode}
+          disabled={saving || !newCode.code || !newCode.value}
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:bg-blue-300 mb-6"
+        >
+          Add Code
+        </button>
+
+        {codes.length === 0 ? (
+          <p className="text-sm text-gray-500">No discount codes yet</p>
+        ) : (
+          <div className="space-y-2">
+            {codes.map(code => (
+              <div key={code.id} className="flex items-center justify-between bg-gray-50 p-3 rounded-md">
+                <div className="flex-1">
+                  <span className={`font-mono font-medium ${code.active ? '' : 'text-gray-400 line-through'}`}>{code.code}</span>
+                  <span className="ml-3 text-sm text-gray-700">
+                    {code.percent_off !== null ? `${Number(code.percent_off)}% off` : `$${Number(code.amount_off).toFixed(2)} off`}
+                    {code.applies_to !== 'all' && ` ${code.applies_to === 'ads' ? 'ads' : 'event promotions'}`}
+                  </span>
+                  {code.description && <span className="ml-3 text-sm text-gray-500">{code.description}</span>}
+                  <div className="text-xs text-gray-500">
+                    Used {code.times_redeemed}{code.max_redemptions !== null && ` of ${code.max_redemptions}`}
+                    {code.expires_at && ` · expires ${new Date(code.expires_at).toLocaleDateString()}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => handleToggleCode(code)}
+                    className="text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    {code.active ? 'Deactivate' : 'Activate'}
+                  </button>
+                  {code.times_redeemed === 0 && (
+                    <button
+                      onClick={() => handleDeleteCode(code)}
+                      className="text-red-600 hover:text-red-700 font-medium"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-md ${
+          message.includes('successfully')
+            ? 'bg-green-50 border border-green-200 text-green-800'
+            : 'bg-red-50 border border-red-200 text-red-800'
+        }`}>
+          {message}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface EmailTemplateSummary {
+  name: string
+  label: string
+  description: string
+  required: string[]
+  sample: Record<string, string | number>
+}
+
+function EmailTemplatesSettings() {
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([])
+  const [recent, setRecent] = useState<TransactionalEmailLog[]>([])
+  const [selected, setSelected] = useState('')
+  const [variables, setVariables] = useState<Record<string, string>>({})
+  const [preview, setPreview] = useState<{ subject: string, html: string } | null>(null)
+  const [previewError, setPreviewError] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadTemplates()
+  }, [])
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch('/api/settings/email-templates')
+      if (response.ok) {
+        const data = await response.json()
+        setTemplates(data.templates || [])
+        setRecent(data.recent || [])
+        if (data.templates?.length > 0) {
+          selectTemplate(data.templates[0])
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load email templates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectTemplate = (template: EmailTemplateSummary) => {
+    const sample: Record<string, string> = {}
+    Object.keys(template.sample).forEach(key => {
+      sample[key] = String(template.sample[key])
+    })
+    setSelected(template.name)
+    setVariables(sample)
+    renderPreview(template.name, sample)
+  }
+
+  const renderPreview = async (template: string, values: Record<string, string>) => {
+    setPreviewError('')
+
+    try {
+      const response = await fetch('/api/settings/email-templates/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template, variables: values })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setPreview(data)
+      } else {
+        setPreview(null)
+        setPreviewError(data.error || 'Failed to render template')
+      }
+    } catch (error) {
+      console.error('Failed to preview email template:', error)
+      setPreviewError('Failed to render template')
+    }
+  }
+
+  const template = templates.find(t => t.name === selected)
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-600">Loading email templates...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Email Templates</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Emails sent to event submitters and advertisers. Edit the variables to preview a template; nothing is sent from here.
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-4">
+            <select
+              value={selected}
+              onChange={(e) => {
+                const next = templates.find(t => t.name === e.target.value)
+                if (next) selectTemplate(next)
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            >
+              {templates.map(t => (
+                <option key={t.name} value={t.name}>{t.label}</option>
+              ))}
+            </select>
+            {template && <p className="text-sm text-gray-500">{template.description}</p>}
+
+            {Object.keys(variables).map(key => (
+              <div key={key}>
+                <label className="block text-xs font-medium text-gray-700 mb-1 font-mono">
+                  {key}{template?.required.includes(key) && <span className="text-red-500"> *</span>}
+                </label>
+                <input
+                  type="text"
+                  value={variables[key]}
+                  onChange={(e) => setVariables(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                />
+              </div>
+            ))}
+
+            <button
+              onClick={() => renderPreview(selected, variables)}
+              className="bg-brand-primary hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Update Preview
+            </button>
+          </div>
+
+          <div className="lg:col-span-2">
+            {previewError && (
+              <div className="mb-3 p-3 rounded-md bg-red-50 text-red-800 text-sm">{previewError}</div>
+            )}
+            {preview && (
+              <div className="border border-gray-200 rounded-md overflow-hidden">
+                <div className="bg-gray-50 px-4 py-2 text-sm border-b border-gray-200">
+                  <span className="font-medium text-gray-700">Subject:</span> {preview.subject}
+                </div>
+                <iframe title="Email preview" srcDoc={preview.html} sandbox="" className="w-full h-[600px] bg-white" />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Send Log */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Emails</h3>
+        {recent.length === 0 ? (
+          <p className="text-sm text-gray-500">No emails sent yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Sent</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Template</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Recipient</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">For</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {recent.map(email => (
+                  <tr key={email.id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">{formatCentralDateTime(new Date(email.created_at))}</td>
+                    <td className="px-3 py-2 text-gray-900">{templates.find(t => t.name === email.template)?.label || email.template}</td>
+                    <td className="px-3 py-2 text-gray-900">{email.recipient}</td>
+                    <td className="px-3 py-2 text-gray-600 font-mono text-xs">
+                      {email.event_id ? `event ${email.event_id.slice(0, 8)}` : email.advertisement_id ? `ad ${email.advertisement_id.slice(0, 8)}` : '-'}
+                    </td>
+                    <td className="px-3 py-2">
+                      {email.status === 'sent' ? (
+                        <span className="text-green-700">Sent{email.transport === 'capture' ? ' (captured)' : ''}</span>
+                      ) : (
+                        <span className="text-red-700" title={email.error || undefined}>Failed</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function Users() {
+  const [users, setUsers] = useState<any[]>([])
+  const [roles, setRoles] = useState<{ role: string, label: string, description: string }[]>([])
+  const [auditLog, setAuditLog] = useState<any[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  const loadUsers = async () => {
+    try {
+      const [usersResponse, auditResponse] = await Promise.all([
+        fetch('/api/settings/users'),
+        fetch('/api/settings/users/audit?limit=50')
+      ])
+
+      if (usersResponse.ok) {
+        const data = await usersResponse.json()
+        setUsers(data.users || [])
+        setRoles(data.roles || [])
+      } else {
+        setMessage('Only admins can manage users.')
+      }
+
+      if (auditResponse.ok) {
+        const data = await auditResponse.json()
+        setAuditLog(data.entries || [])
+      }
+    } catch (error) {
+      console.error('Failed to load users:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateUser = async (id: string, changes: { role?: string, is_active?: boolean }) => {
+    setSaving(id)
+    setMessage('')
+    try {
+      const response = await fetch('/api/settings/users', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...changes })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update user')
+      }
+
+      setMessage(data.message)
+      await loadUsers()
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to update user')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const describeAudit = (entry: any) => {
+    if (entry.event_type === 'role_changed') {
+      const d = entry.details || {}
+      const changes = []
+      if (d.previous_role !== d.role) changes.push(`role ${d.previous_role} → ${d.role}`)
+      if (d.previous_is_active !== d.is_active) changes.push(d.is_active ? 'reactivated' : 'deactivated')
+      return `Changed ${d.target_email}: ${changes.join(', ') || 'no change'}`
+    }
+    return `${entry.method} ${entry.path} (needs ${entry.required_permission})`
+  }
+
+  if (loading) {
+    return <div className="bg-white shadow rounded-lg p-6 text-gray-500">Loading users...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">User Management</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Users sign in with Google and start as Editors. Role changes apply within a few minutes, without signing out.
+        </p>
+
+        {message && (
+          <div className="mb-4 p-3 rounded-md bg-blue-50 text-blue-800 text-sm">{message}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+          {roles.map(role => (
+            <div key={role.role} className="bg-gray-50 rounded-md p-3 text-sm">
+              <div className="font-medium text-gray-900">{role.label}</div>
+              <div className="text-gray-600">{role.description}</div>
+            </div>
+          ))}
+        </div>
+
+        {users.length > 0 && (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                <th className="py-2">User</th>
+                <th className="py-2">Role</th>
+                <th className="py-2">Last Login</th>
+                <th className="py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {users.map(user => (
+                <tr key={user.id} className={user.is_active ? '' : 'opacity-60'}>
+                  <td className="py-2">
+                    <div className="font-medium text-gray-900">{user.name || user.email}</div>
+                    {user.name && <div className="text-xs text-gray-500">{user.email}</div>}
+                  </td>
+                  <td className="py-2">
+                    <select
+                      value={user.role}
+                      onChange={(e) => updateUser(user.id, { role: e.target.value })}
+                      disabled={saving === user.id}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    >
+                      {roles.map(role => (
+                        <option key={role.role} value={role.role}>{role.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 text-gray-600">
+                    {user.last_login ? new Date(user.last_login).toLocaleString() : 'Never'}
+                  </td>
+                  <td className="py-2">
+                    <button
+                      onClick={() => updateUser(user.id, { is_active: !user.is_active })}
+                      disabled={saving === user.id}
+                      className={`px-2 py-1 rounded text-xs font-medium disabled:opacity-50 ${
+                        user.is_active
+                          ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {user.is_active ? 'Active' : 'Deactivated'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Access Audit Log</h3>
+        <p className="text-sm text-gray-600 mb-4">Denied API requests and role changes, newest first.</p>
+
+        {auditLog.length === 0 ? (
+          <div className="text-sm text-gray-500">No entries yet.</div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                <th className="py-2">When</th>
+                <th className="py-2">Event</th>
+                <th className="py-2">User</th>
+                <th className="py-2">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {auditLog.map(entry => (
+                <tr key={entry.id}>
+                  <td className="py-2 text-gray-600 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                  <td className="py-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                      entry.event_type === 'role_changed' ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {entry.event_type.replace('_', ' ')}
+                    </span>
+                  </td>
+                  <td className="py-2 text-gray-700">
+                    {entry.user_email || entry.ip_address || 'anonymous'}
+                    {entry.user_role && <span className="text-xs text-gray-500"> ({entry.user_role})</span>}
+                  </td>
+                  <td className="py-2 text-gray-700">{describeAudit(entry)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
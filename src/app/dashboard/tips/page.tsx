@@ -0,0 +1,306 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Layout from '@/components/Layout'
+import type { NewsTip } from '@/types/database'
+
+interface TipWithRelations extends NewsTip {
+  image: { id: string, cdn_url: string } | null
+  campaign: { id: string, date: string } | null
+}
+
+interface CampaignOption {
+  id: string
+  date: string
+  status: string
+}
+
+type TipFilter = 'pending' | 'promoted' | 'rejected' | 'spam' | 'all'
+
+export default function NewsTipsPage() {
+  const [tips, setTips] = useState<TipWithRelations[]>([])
+  const [filter, setFilter] = useState<TipFilter>('pending')
+  const [loading, setLoading] = useState(true)
+  const [counts, setCounts] = useState({ pending: 0, promoted: 0, rejected: 0, spam: 0, all: 0 })
+  const [campaigns, setCampaigns] = useState<CampaignOption[]>([])
+  const [selectedCampaigns, setSelectedCampaigns] = useState<Record<string, string>>({})
+  const [promotingId, setPromotingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadTips()
+  }, [filter])
+
+  useEffect(() => {
+    loadCampaigns()
+  }, [])
+
+  const loadTips = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(filter === 'all' ? '/api/tips' : `/api/tips?status=${filter}`)
+      if (response.ok) {
+        const data = await response.json()
+        setTips(data.tips || [])
+        if (data.counts) {
+          setCounts(data.counts)
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load tips:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Tips can only become drafts in campaigns that haven't gone out
+  const loadCampaigns = async () => {
+    try {
+      const response = await fetch('/api/campaigns?limit=20')
+      if (response.ok) {
+        const data = await response.json()
+        setCampaigns((data.campaigns || []).filter((campaign: CampaignOption) => campaign.status !== 'sent'))
+      }
+    } catch (error) {
+      console.error('Failed to load campaigns:', error)
+    }
+  }
+
+  const handlePromote = async (tip: TipWithRelations) => {
+    const campaignId = selectedCampaigns[tip.id] || campaigns[0]?.id
+    if (!campaignId) {
+      alert('There is no unsent campaign to add the draft to')
+      return
+    }
+
+    setPromotingId(tip.id)
+    try {
+      const response = await fetch(`/api/tips/${tip.id}/promote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ campaign_id: campaignId })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        alert([
+          `Draft created: ${data.article.title}`,
+          '',
+          `Fact check: ${data.factCheck.passed ? 'passed' : 'FAILED'} (score ${data.factCheck.score})`,
+          data.factCheck.details || ''
+        ].join('\n'))
+        loadTips()
+      } else {
+        alert(`Failed to promote tip: ${data.message || data.error}`)
+      }
+    } catch (error) {
+      console.error('Failed to promote tip:', error)
+      alert('Failed to promote tip')
+    } finally {
+      setPromotingId(null)
+    }
+  }
+
+  const updateStatus = async (id: string, status: 'pending' | 'rejected' | 'spam') => {
+    let reviewNotes: string | null = null
+    if (status === 'rejected') {
+      reviewNotes = prompt('Reason for rejecting (optional):')
+      if (reviewNotes === null) return // User cancelled
+    }
+
+    try {
+      const response = await fetch(`/api/tips/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, review_notes: reviewNotes })
+      })
+
+      if (response.ok) {
+        loadTips()
+      } else {
+        alert('Failed to update tip')
+      }
+    } catch (error) {
+      console.error('Failed to update tip:', error)
+      alert('Failed to update tip')
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString)
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    })
+  }
+
+  const getStatusBadge = (status: string) => {
+    const styles = {
+      pending: 'bg-yellow-100 text-yellow-800',
+      promoted: 'bg-green-100 text-green-800',
+      rejected: 'bg-red-100 text-red-800',
+      spam: 'bg-gray-200 text-gray-700'
+    }
+    return (
+      <span className={`px-2 py-1 rounded text-xs font-medium ${styles[status as keyof typeof styles] || 'bg-gray-100 text-gray-800'}`}>
+        {status}
+      </span>
+    )
+  }
+
+  return (
+    <Layout>
+      <div className="px-4 py-6 sm:px-0">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            Reader News Tips
+          </h1>
+
+          {/* Filter Tabs */}
+          <div className="border-b border-gray-200 mb-6">
+            <nav className="-mb-px flex space-x-8">
+              {[
+                { id: 'pending', name: 'Pending', count: counts.pending },
+                { id: 'promoted', name: 'Promoted', count: counts.promoted },
+                { id: 'rejected', name: 'Rejected', count: counts.rejected },
+                { id: 'spam', name: 'Spam', count: counts.spam },
+                { id: 'all', name: 'All', count: counts.all }
+              ].map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setFilter(tab.id as TipFilter)}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                    filter === tab.id
+                      ? 'border-brand-primary text-brand-primary'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {tab.name} ({tab.count})
+                </button>
+              ))}
+            </nav>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading tips...</p>
+          </div>
+        ) : tips.length === 0 ? (
+          <div className="bg-white shadow rounded-lg p-12 text-center">
+            <p className="text-gray-600 text-lg">No tips found</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {tips.map(tip => (
+              <div key={tip.id} className="bg-white shadow rounded-lg p-6">
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{tip.headline}</h3>
+                    <p className="text-xs text-gray-500">Submitted {formatDate(tip.created_at)}</p>
+                  </div>
+                  {getStatusBadge(tip.status)}
+                </div>
+
+                <div className="flex gap-4">
+                  <div className="flex-1">
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap mb-3">{tip.details}</p>
+                    {tip.location && (
+                      <p className="text-sm text-gray-600"><span className="font-medium">Location:</span> {tip.location}</p>
+                    )}
+                    {tip.source_url && (
+                      <p className="text-sm text-gray-600 truncate">
+                        <span className="font-medium">Link:</span>{' '}
+                        <a href={tip.source_url} target="_blank" rel="noopener noreferrer" className="text-brand-primary hover:underline">
+                          {tip.source_url}
+                        </a>
+                      </p>
+                    )}
+                  </div>
+                  {tip.image && (
+                    <a href={tip.image.cdn_url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                      <img src={tip.image.cdn_url} alt="Reader photo" className="w-40 h-28 object-cover rounded" />
+                    </a>
+                  )}
+                </div>
+
+                <div className="mt-3 text-sm text-gray-600 border-t pt-3">
+                  <span className="font-medium">From:</span> {tip.submitter_name} · {tip.submitter_email}
+                  {tip.submitter_phone && ` · ${tip.submitter_phone}`}
+                  {!tip.contact_ok && <span className="ml-2 text-red-600">(do not contact)</span>}
+                </div>
+
+                {tip.spam_reasons.length > 0 && (
+                  <div className="mt-2 text-xs text-gray-500">
+                    Flagged: {tip.spam_reasons.join('; ')}
+                  </div>
+                )}
+
+                {tip.status === 'promoted' && (
+                  <div className="mt-2 text-sm text-gray-600">
+                    Draft added to the {tip.campaign?.date || 'selected'} campaign
+                    {tip.fact_check_score !== null && ` · fact check score ${tip.fact_check_score}`}
+                  </div>
+                )}
+
+                {tip.review_notes && (
+                  <div className="mt-2 text-sm text-gray-600"><span className="font-medium">Notes:</span> {tip.review_notes}</div>
+                )}
+
+                {tip.status !== 'promoted' && (
+                  <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <select
+                      value={selectedCampaigns[tip.id] || campaigns[0]?.id || ''}
+                      onChange={(e) => setSelectedCampaigns(prev => ({ ...prev, [tip.id]: e.target.value }))}
+                      className="border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                    >
+                      {campaigns.map(campaign => (
+                        <option key={campaign.id} value={campaign.id}>
+                          {campaign.date} ({campaign.status})
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handlePromote(tip)}
+                      disabled={promotingId === tip.id || campaigns.length === 0}
+                      className="bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded text-sm font-medium disabled:opacity-50"
+                    >
+                      {promotingId === tip.id ? 'Writing draft...' : 'Promote to Draft'}
+                    </button>
+                    {tip.status !== 'rejected' && (
+                      <button
+                        onClick={() => updateStatus(tip.id, 'rejected')}
+                        className="bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded text-sm font-medium"
+                      >
+                        Reject
+                      </button>
+                    )}
+                    {tip.status === 'pending' ? (
+                      <button
+                        onClick={() => updateStatus(tip.id, 'spam')}
+                        className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1.5 rounded text-sm font-medium"
+                      >
+                        Mark Spam
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => updateStatus(tip.id, 'pending')}
+                        className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1.5 rounded text-sm font-medium"
+                      >
+                        Back to Pending
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  )
+}
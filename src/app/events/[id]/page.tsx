@@ -126,8 +126,7 @@ export default function EventPage() {
       original_image_url: event.cropped_image_url || '',
       cropped_image_url: event.cropped_image_url || '',
       existing_event_id: event.id,
-      is_upgrade: isUpgrade,
-      upgrade_price: isUpgrade ? 10 : undefined
+      is_upgrade: isUpgrade
     }
 
     cart.push(promotionItem)
@@ -458,7 +457,7 @@ export default function EventPage() {
                           className="mr-2"
                         />
                         <h5 className="font-semibold text-gray-900">
-                          Featured Event – ${event.paid_placement ? '10' : pricing.featured}
+                          Featured Event – ${event.paid_placement ? pricing.featured - pricing.paidPlacement : pricing.featured}
                           {event.paid_placement && (
                             <span className="ml-2 text-sm text-green-600 font-normal">
                               (Upgrade price)
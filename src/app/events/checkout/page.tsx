@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import type { PricingQuote } from '@/types/database'
 
 interface CartItem {
   id: string
@@ -30,13 +31,15 @@ interface CartItem {
   cropped_image_url?: string
   existing_event_id?: string
   is_upgrade?: boolean
-  upgrade_price?: number
 }
 
 export default function CheckoutPage() {
   const router = useRouter()
   const [cart, setCart] = useState<CartItem[]>([])
-  const [pricing, setPricing] = useState({ paidPlacement: 5, featured: 15 })
+  const [quote, setQuote] = useState<PricingQuote | null>(null)
+  const [discounts, setDiscounts] = useState({ code: '', ein: '' })
+  const [discountInput, setDiscountInput] = useState({ code: '', ein: '' })
+  const [discountError, setDiscountError] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [contactInfo, setContactInfo] = useState({
@@ -48,9 +51,14 @@ export default function CheckoutPage() {
 
   useEffect(() => {
     loadCart()
-    loadPricing()
   }, [])
 
+  useEffect(() => {
+    if (cart.length > 0) {
+      loadQuote()
+    }
+  }, [cart, discounts])
+
   const loadCart = () => {
     const savedCart = sessionStorage.getItem('eventCart')
     if (savedCart) {
@@ -60,34 +68,51 @@ export default function CheckoutPage() {
     }
   }
 
-  const loadPricing = async () => {
+  const promotionRequests = () => cart.map(item => ({
+    title: item.title,
+    venue: item.venue_name,
+    paid_placement: item.placement_type === 'paid',
+    featured: item.placement_type === 'featured',
+    existing_event_id: item.existing_event_id || null
+  }))
+
+  // Prices come from the server so the total shown is the total charged
+  const loadQuote = async () => {
     try {
-      const response = await fetch('/api/settings/public-events')
-      if (response.ok) {
-        const data = await response.json()
-        setPricing({
-          paidPlacement: parseFloat(data.paidPlacementPrice),
-          featured: parseFloat(data.featuredEventPrice)
+      const response = await fetch('/api/pricing/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind: 'event_promotion',
+          events: promotionRequests(),
+          discount_code: discounts.code || null,
+          nonprofit_ein: discounts.ein || null
         })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setQuote(data.quote)
+        setDiscountError('')
+      } else if (discounts.code || discounts.ein) {
+        // Drop the discount that was rejected and price the cart without it
+        setDiscountError(data.error || 'That discount could not be applied')
+        setDiscounts({ code: '', ein: '' })
+      } else {
+        setError(data.error || 'Failed to load pricing')
       }
     } catch (error) {
       console.error('Failed to load pricing:', error)
     }
   }
 
-  const calculateItemPrice = (item: CartItem) => {
-    // Check if this is an upgrade promotion with special pricing
-    if (item.is_upgrade && item.upgrade_price) {
-      return item.upgrade_price
-    }
-
-    if (item.placement_type === 'paid') return pricing.paidPlacement
-    if (item.placement_type === 'featured') return pricing.featured
-    return 0
+  const calculateItemPrice = (index: number) => {
+    const line = quote?.lines.find(l => l.event_index === index)
+    return line ? line.amount / 100 : 0
   }
 
   const calculateTotal = () => {
-    return cart.reduce((total, item) => total + calculateItemPrice(item), 0)
+    return quote ? quote.total / 100 : 0
   }
 
   const convertTime12to24 = (hour: string, minute: string, ampm: string) => {
@@ -110,6 +135,11 @@ export default function CheckoutPage() {
       return
     }
 
+    if (!quote) {
+      setError('Pricing is still loading. Please try again in a moment.')
+      return
+    }
+
     setLoading(true)
     setError('')
 
@@ -164,7 +194,11 @@ export default function CheckoutPage() {
         const response = await fetch('/api/events/submit', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ events: eventsToSubmit })
+          body: JSON.stringify({
+            events: eventsToSubmit,
+            discount_code: discounts.code || null,
+            nonprofit_ein: discounts.ein || null
+          })
         })
 
         if (!response.ok) {
@@ -184,7 +218,8 @@ export default function CheckoutPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           events: eventsToSubmit,
-          total: total
+          discount_code: discounts.code || null,
+          nonprofit_ein: discounts.ein || null
         })
       })
 
@@ -193,7 +228,14 @@ export default function CheckoutPage() {
         throw new Error(data.error || 'Failed to create checkout session')
       }
 
-      const { checkout_url } = await response.json()
+      const { checkout_url, paymentRequired } = await response.json()
+
+      // The server's quote came to $0 (e.g. a discount covers the cart), so the events are already submitted
+      if (!paymentRequired) {
+        sessionStorage.removeItem('eventCart')
+        router.push('/events/success?free=true')
+        return
+      }
 
       // Redirect to Stripe Checkout
       window.location.href = checkout_url
@@ -241,7 +283,7 @@ export default function CheckoutPage() {
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Order Summary</h2>
 
           <div className="space-y-4 mb-6">
-            {cart.map(item => (
+            {cart.map((item, index) => (
               <div key={item.id} className="border-b border-gray-200 pb-4">
                 <div className="flex justify-between items-start mb-2">
                   <div className="flex-1">
@@ -259,7 +301,7 @@ export default function CheckoutPage() {
                       {item.placement_type === 'featured' && item.is_upgrade && 'Upgrade to Featured'}
                     </p>
                     <p className="text-lg font-bold text-gray-900">
-                      ${calculateItemPrice(item).toFixed(2)}
+                      ${calculateItemPrice(index).toFixed(2)}
                     </p>
                   </div>
                 </div>
@@ -277,7 +319,56 @@ export default function CheckoutPage() {
             ))}
           </div>
 
+          {/* Discounts */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Discount code</label>
+              <input
+                type="text"
+                value={discountInput.code}
+                onChange={(e) => setDiscountInput(prev => ({ ...prev, code: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 uppercase"
+                disabled={loading}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Nonprofit EIN (optional)</label>
+              <input
+                type="text"
+                value={discountInput.ein}
+                onChange={(e) => setDiscountInput(prev => ({ ...prev, ein: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="12-3456789"
+                disabled={loading}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-3 mb-6">
+            <button
+              onClick={() => setDiscounts({ code: discountInput.code.trim(), ein: discountInput.ein.trim() })}
+              disabled={loading}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Apply
+            </button>
+            {discountError && <span className="text-sm text-red-600">{discountError}</span>}
+          </div>
+
           <div className="border-t pt-4">
+            {quote && quote.adjustments.length > 0 && (
+              <div className="space-y-1 mb-3 text-sm">
+                <div className="flex justify-between text-gray-600">
+                  <span>Subtotal</span>
+                  <span>${(quote.subtotal / 100).toFixed(2)}</span>
+                </div>
+                {quote.adjustments.map((adjustment, index) => (
+                  <div key={index} className="flex justify-between text-green-700">
+                    <span>{adjustment.label}</span>
+                    <span>-${(adjustment.amount / 100).toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex justify-between items-center mb-6">
               <span className="text-xl font-semibold">Total:</span>
               <span className="text-3xl font-bold text-blue-600">${calculateTotal().toFixed(2)}</span>
@@ -364,7 +455,7 @@ export default function CheckoutPage() {
               </div>
               <button
                 onClick={handleCheckout}
-                disabled={loading}
+                disabled={loading || !quote}
                 className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-6 py-3 rounded-md font-medium text-lg"
               >
                 {loading ? 'Processing...' : calculateTotal() === 0 ? 'Submit Events' : 'Continue to Payment'}
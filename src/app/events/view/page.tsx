@@ -186,8 +186,7 @@ export default function ViewEventsPage() {
       original_image_url: promotingEvent.cropped_image_url || '',
       cropped_image_url: promotingEvent.cropped_image_url || '',
       existing_event_id: promotingEvent.id,
-      is_upgrade: isUpgrade,
-      upgrade_price: isUpgrade ? 10 : undefined
+      is_upgrade: isUpgrade
     }
 
     cart.push(promotionItem)
@@ -729,7 +728,7 @@ export default function ViewEventsPage() {
                           className="mr-2"
                         />
                         <h5 className="font-semibold text-gray-900">
-                          Featured Event (3 days*) – ${promotingEvent.paid_placement ? '10' : pricing.featured}
+                          Featured Event (3 days*) – ${promotingEvent.paid_placement ? pricing.featured - pricing.paidPlacement : pricing.featured}
                           {promotingEvent.paid_placement && (
                             <span className="ml-2 text-sm text-green-600 font-normal">
                               (Upgrade price)
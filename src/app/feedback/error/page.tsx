@@ -12,6 +12,8 @@ function ErrorContent() {
     'invalid-date': 'The campaign date is invalid.',
     'invalid-email': 'The email address is invalid.',
     'invalid-choice': 'The section choice is invalid.',
+    'invalid-rating': 'The rating is invalid.',
+    'invalid-publication': 'We couldn\'t find that newsletter.',
     'server-error': 'A server error occurred while processing your feedback.'
   }
 
@@ -0,0 +1,194 @@
+'use client'
+
+import { useSearchParams } from 'next/navigation'
+import { Suspense, useEffect, useState } from 'react'
+
+interface FeedbackForm {
+  publication: { slug: string, name: string, website_url: string }
+  sections: { key: string, name: string }[]
+  ratings: { rating: number, emoji: string, label: string }[]
+  maxCommentLength: number
+}
+
+function FeedbackContent() {
+  const searchParams = useSearchParams()
+  const publicationSlug = searchParams.get('publication') || ''
+  const date = searchParams.get('date') || ''
+  const email = searchParams.get('email') || ''
+
+  const [form, setForm] = useState<FeedbackForm | null>(null)
+  const [rating, setRating] = useState<number | null>(Number(searchParams.get('rating')) || null)
+  const [likedSections, setLikedSections] = useState<string[]>([])
+  const [comment, setComment] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadForm = async () => {
+      try {
+        const response = await fetch(`/api/feedback?publication=${encodeURIComponent(publicationSlug)}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load feedback form')
+        }
+        setForm(result)
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load feedback form')
+      }
+    }
+    loadForm()
+  }, [publicationSlug])
+
+  const toggleSection = (key: string) => {
+    setLikedSections(current =>
+      current.includes(key) ? current.filter(existing => existing !== key) : [...current, key]
+    )
+  }
+
+  const submitFeedback = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          publication: publicationSlug,
+          date,
+          email,
+          rating,
+          liked_sections: likedSections,
+          comment
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save feedback')
+      }
+      setSubmitted(true)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save feedback')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const publicationName = form?.publication.name || 'St. Cloud Scoop'
+
+  if (!date || !email) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+          <p className="text-gray-600">Use the rating buttons in your newsletter to leave feedback.</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (submitted) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Thank You!</h1>
+          <p className="text-lg text-gray-600 mb-6">Your feedback helps us make {publicationName} better.</p>
+          <a
+            href={form?.publication.website_url || 'https://st-cloud-scoop.vercel.app'}
+            className="inline-block bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-3 rounded-lg transition-colors"
+          >
+            Visit {publicationName}
+          </a>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4 py-12">
+      <div className="max-w-lg w-full bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">Thanks for rating!</h1>
+        <p className="text-sm text-gray-600 mb-6 text-center">
+          Want to tell us a bit more? Everything below is optional.
+        </p>
+
+        {form && (
+          <>
+            <div className="flex justify-center gap-2 mb-6">
+              {form.ratings.map(option => (
+                <button
+                  key={option.rating}
+                  onClick={() => setRating(option.rating)}
+                  className={`flex flex-col items-center px-3 py-2 rounded-lg border text-xs ${
+                    rating === option.rating ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600'
+                  }`}
+                >
+                  <span className="text-2xl">{option.emoji}</span>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {form.sections.length > 0 && (
+              <div className="mb-6">
+                <h2 className="text-sm font-medium text-gray-900 mb-2">Sections I liked</h2>
+                <div className="grid grid-cols-2 gap-2">
+                  {form.sections.map(section => (
+                    <label key={section.key} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={likedSections.includes(section.key)}
+                        onChange={() => toggleSection(section.key)}
+                        className="rounded border-gray-300"
+                      />
+                      {section.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-900 mb-2">Anything else?</label>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                maxLength={form.maxCommentLength}
+                rows={4}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                placeholder="What should we do more (or less) of?"
+              />
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 rounded-md text-sm bg-red-50 text-red-800">{error}</div>
+        )}
+
+        <button
+          onClick={submitFeedback}
+          disabled={saving || !form}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-3 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Sending...' : 'Send Feedback'}
+        </button>
+
+        <div className="mt-6 text-xs text-gray-400 text-center">
+          {publicationName} • Your Local News Source
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function FeedbackPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    }>
+      <FeedbackContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import { useSearchParams } from 'next/navigation'
+import { Suspense, useEffect, useState } from 'react'
+
+interface PreferenceSection {
+  key: string
+  name: string
+  is_active: boolean
+}
+
+interface PreferencesData {
+  publication: { slug: string, name: string, website_url: string }
+  sections: PreferenceSection[]
+  options: { rule: string, label: string }[]
+  rules: Record<string, string>
+}
+
+function PreferencesContent() {
+  const searchParams = useSearchParams()
+  const publicationSlug = searchParams.get('publication') || ''
+
+  // Both come from the newsletter footer link; the token proves the link was sent to this email
+  const email = searchParams.get('email') || ''
+  const token = searchParams.get('token') || ''
+  const [data, setData] = useState<PreferencesData | null>(null)
+  const [rules, setRules] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  const loadPreferences = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ publication: publicationSlug, email, token })
+      const response = await fetch(`/api/preferences?${params}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load preferences')
+      }
+      setData(result)
+      setRules(result.rules)
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load preferences' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadPreferences()
+  }, [])
+
+  const setRule = (key: string, rule: string) => {
+    setRules(current => {
+      const next = { ...current }
+      if (rule) {
+        next[key] = rule
+      } else {
+        delete next[key]
+      }
+      return next
+    })
+  }
+
+  const savePreferences = async () => {
+    setSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/preferences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, token, publication: publicationSlug, rules })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save preferences')
+      }
+      setRules(result.rules)
+      setMessage({
+        type: 'success',
+        text: result.personalized
+          ? 'Saved! Your next issue will follow these choices.'
+          : 'Saved! You\'ll get the standard newsletter.'
+      })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save preferences' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4 py-12">
+      <div className="max-w-lg w-full bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">Choose Your Sections</h1>
+        <p className="text-sm text-gray-600 mb-6 text-center">
+          Pick which parts of {data?.publication.name || 'the newsletter'} you want in your inbox.
+        </p>
+
+        {data && (
+          <p className="text-sm text-gray-700 mb-6 text-center">
+            Preferences for <strong>{email}</strong>
+          </p>
+        )}
+
+        {!data ? null : data.sections.length > 0 ? (
+          <div className="space-y-3 mb-6">
+            {data.sections.map(section => (
+              <div key={section.key} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-gray-900">{section.name}</span>
+                <select
+                  value={rules[section.key] || ''}
+                  onChange={(e) => setRule(section.key, e.target.value)}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                >
+                  <option value="">{section.is_active ? 'Whenever it runs' : 'Not currently running'}</option>
+                  {data.options.map(option => (
+                    <option key={option.rule} value={option.rule}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 mb-6">There are no sections to choose from yet.</p>
+        )}
+
+        {message && (
+          <div className={`mb-4 p-3 rounded-md text-sm ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        <button
+          onClick={savePreferences}
+          disabled={saving || !email || !data}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-3 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Preferences'}
+        </button>
+
+        <div className="mt-6 text-xs text-gray-400 text-center">
+          {data?.publication.name || 'St. Cloud Scoop'} • Your Local News Source
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function PreferencesPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    }>
+      <PreferencesContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useSearchParams } from 'next/navigation'
+import { Suspense, useState } from 'react'
+
+// Same limit the API enforces; larger uploads don't fit in a request
+const MAX_PHOTO_BYTES = 4 * 1024 * 1024
+
+function TipForm() {
+  const searchParams = useSearchParams()
+  const publication = searchParams.get('publication') || ''
+
+  // Bots submit instantly; the API flags tips sent too soon after the form opened
+  const [startedAt] = useState(() => Date.now())
+  const [form, setForm] = useState({
+    headline: '',
+    details: '',
+    location: '',
+    source_url: '',
+    submitter_name: '',
+    submitter_email: '',
+    submitter_phone: '',
+    contact_ok: true,
+    website: ''
+  })
+  const [photo, setPhoto] = useState<File | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (field: string, value: string | boolean) => {
+    setForm(current => ({ ...current, [field]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      Object.entries(form).forEach(([field, value]) => formData.append(field, String(value)))
+      formData.append('publication', publication)
+      formData.append('started_at', String(startedAt))
+      if (photo) {
+        formData.append('photo', photo)
+      }
+
+      const response = await fetch('/api/tips', { method: 'POST', body: formData })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send your tip')
+      }
+      setSubmitted(true)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to send your tip')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (submitted) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Thank You!</h1>
+          <p className="text-lg text-gray-600">
+            Our editors will take a look. If we run your story, we may reach out first.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const inputClass = 'w-full border border-gray-300 rounded-md px-3 py-2 text-sm'
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center px-4 py-12">
+      <form onSubmit={handleSubmit} className="max-w-lg w-full bg-white rounded-lg shadow-lg p-8 space-y-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Send Us a News Tip</h1>
+          <p className="text-sm text-gray-600">Know something happening around town? Tell us about it.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">What&apos;s the story? *</label>
+          <input
+            type="text"
+            required
+            maxLength={200}
+            value={form.headline}
+            onChange={(e) => update('headline', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Details *</label>
+          <textarea
+            required
+            rows={6}
+            maxLength={5000}
+            value={form.details}
+            onChange={(e) => update('details', e.target.value)}
+            className={inputClass}
+            placeholder="Who, what, when and where. Stick to what you know firsthand."
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+            <input
+              type="text"
+              value={form.location}
+              onChange={(e) => update('location', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Link (optional)</label>
+            <input
+              type="url"
+              value={form.source_url}
+              onChange={(e) => update('source_url', e.target.value)}
+              className={inputClass}
+              placeholder="https://"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Photo (optional)</label>
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/gif,image/webp"
+            onChange={(e) => {
+              const file = e.target.files?.[0] || null
+              if (file && file.size > MAX_PHOTO_BYTES) {
+                setError('Photos must be 4MB or smaller')
+                e.target.value = ''
+                setPhoto(null)
+                return
+              }
+              setError(null)
+              setPhoto(file)
+            }}
+            className="text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-1">Only send photos you took. Up to 4MB.</p>
+        </div>
+
+        <div className="border-t pt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Your name *</label>
+            <input
+              type="text"
+              required
+              value={form.submitter_name}
+              onChange={(e) => update('submitter_name', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email *</label>
+            <input
+              type="email"
+              required
+              value={form.submitter_email}
+              onChange={(e) => update('submitter_email', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+            <input
+              type="tel"
+              value={form.submitter_phone}
+              onChange={(e) => update('submitter_phone', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+            <input
+              type="checkbox"
+              checked={form.contact_ok}
+              onChange={(e) => update('contact_ok', e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            An editor may contact me
+          </label>
+        </div>
+
+        {/* Hidden from people; bots fill it in */}
+        <div className="hidden" aria-hidden="true">
+          <label>
+            Website
+            <input
+              type="text"
+              tabIndex={-1}
+              autoComplete="off"
+              value={form.website}
+              onChange={(e) => update('website', e.target.value)}
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-md text-sm bg-red-50 text-red-800">{error}</div>
+        )}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-3 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Sending...' : 'Send Tip'}
+        </button>
+      </form>
+    </div>
+  )
+}
+
+export default function TipsPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    }>
+      <TipForm />
+    </Suspense>
+  )
+}
@@ -4,6 +4,7 @@ import { useSession, signOut } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
+import { hasPermission } from '@/lib/permissions'
 
 interface LayoutProps {
   children: React.ReactNode
@@ -59,6 +60,12 @@ export default function Layout({ children }: LayoutProps) {
                   >
                     Campaigns
                   </Link>
+                  <Link
+                    href="/dashboard/tips"
+                    className="text-gray-900 hover:text-brand-primary px-3 py-2 text-sm font-medium"
+                  >
+                    Tips
+                  </Link>
                   <Link
                     href="/dashboard/analytics"
                     className="text-gray-900 hover:text-brand-primary px-3 py-2 text-sm font-medium"
@@ -77,6 +84,12 @@ export default function Layout({ children }: LayoutProps) {
                   >
                     Settings
                   </Link>
+                  <Link
+                    href="/dashboard/admin"
+                    className="text-gray-900 hover:text-brand-primary px-3 py-2 text-sm font-medium"
+                  >
+                    Admin
+                  </Link>
                 </nav>
               </div>
               <div className="flex items-center space-x-4">
@@ -133,6 +146,12 @@ export default function Layout({ children }: LayoutProps) {
                 >
                   Campaigns
                 </Link>
+                <Link
+                  href="/dashboard/tips"
+                  className="text-gray-900 hover:text-brand-primary px-3 py-2 text-sm font-medium"
+                >
+                  Tips
+                </Link>
                 <Link
                   href="/dashboard/analytics"
                   className="text-gray-900 hover:text-brand-primary px-3 py-2 text-sm font-medium"
@@ -151,6 +170,14 @@ export default function Layout({ children }: LayoutProps) {
                 >
                   Settings
                 </Link>
+                {hasPermission(session.user?.role, 'system:admin') && (
+                  <Link
+                    href="/dashboard/admin"
+                    className="text-gray-900 hover:text-brand-primary px-3 py-2 text-sm font-medium"
+                  >
+                    Admin
+                  </Link>
+                )}
               </nav>
             </div>
             <div className="flex items-center space-x-4">
@@ -0,0 +1,94 @@
+'use client'
+
+interface PromptDiffProps {
+  oldText: string
+  newText: string
+  oldLabel: string
+  newLabel: string
+}
+
+interface DiffRow {
+  left: string | null
+  right: string | null
+  type: 'same' | 'removed' | 'added' | 'changed'
+}
+
+// Line-level diff via longest common subsequence; prompts are short enough for O(n*m)
+function diffLines(oldText: string, newText: string): DiffRow[] {
+  const a = oldText.split('\n')
+  const b = newText.split('\n')
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const rows: DiffRow[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      rows.push({ left: a[i], right: b[j], type: 'same' })
+      i++
+      j++
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      rows.push({ left: null, right: b[j], type: 'added' })
+      j++
+    } else {
+      rows.push({ left: a[i], right: null, type: 'removed' })
+      i++
+    }
+  }
+
+  // Pair a removal directly followed by an addition so edited lines sit side by side
+  const paired: DiffRow[] = []
+  for (let k = 0; k < rows.length; k++) {
+    const row = rows[k]
+    const next = rows[k + 1]
+    if (row.type === 'removed' && next?.type === 'added') {
+      paired.push({ left: row.left, right: next.right, type: 'changed' })
+      k++
+    } else {
+      paired.push(row)
+    }
+  }
+
+  return paired
+}
+
+export default function PromptDiff({ oldText, newText, oldLabel, newLabel }: PromptDiffProps) {
+  const rows = diffLines(oldText, newText)
+  const changes = rows.filter(r => r.type !== 'same').length
+
+  const leftClass = (type: DiffRow['type']) =>
+    type === 'removed' || type === 'changed' ? 'bg-red-50 text-red-800' : ''
+  const rightClass = (type: DiffRow['type']) =>
+    type === 'added' || type === 'changed' ? 'bg-green-50 text-green-800' : ''
+
+  return (
+    <div className="border border-gray-200 rounded-md overflow-hidden">
+      <div className="grid grid-cols-2 bg-gray-100 text-xs font-medium text-gray-700">
+        <div className="px-3 py-2 border-r border-gray-200">{oldLabel}</div>
+        <div className="px-3 py-2">{newLabel}</div>
+      </div>
+      {changes === 0 ? (
+        <div className="px-3 py-4 text-sm text-gray-500 text-center">No differences</div>
+      ) : (
+        <div className="max-h-96 overflow-y-auto font-mono text-xs">
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-2">
+              <div className={`px-3 py-0.5 border-r border-gray-200 whitespace-pre-wrap break-words ${leftClass(row.type)}`}>
+                {row.left ?? ''}
+              </div>
+              <div className={`px-3 py-0.5 whitespace-pre-wrap break-words ${rightClass(row.type)}`}>
+                {row.right ?? ''}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,187 +1,473 @@
 import { supabaseAdmin } from './supabase'
-import type { Advertisement } from '@/types/database'
+import { runIdempotent } from './idempotency'
+import { getPublicationSetting, resolvePublication, setPublicationSetting } from './publications'
+import { addDays, addMonths } from './newsletter-calendar'
+import type { AdFrequency, Advertisement, Publication } from '@/types/database'
 
 interface ScheduleContext {
   campaignDate: string // YYYY-MM-DD format
   campaignId: string
+  publication: Publication
+}
+
+export const MAX_AD_SLOTS = 4
+export const DEFAULT_CALENDAR_DAYS = 60
+
+export interface PlannedAd {
+  slot: number
+  ad: Advertisement
+  // Already recorded in campaign_advertisements, i.e. the issue went out with it
+  recorded: boolean
+}
+
+export interface AdCalendarDay {
+  date: string
+  blackout: string | null  // Reason, or '' for a blackout without one
+  ads: PlannedAd[]
+}
+
+export interface AdCalendar {
+  startDate: string
+  slotsPerIssue: number
+  days: AdCalendarDay[]
+  // Paid runs that don't fit before the end of the calendar
+  unplaced: { ad: Advertisement, runs: number }[]
+}
+
+interface RecordedRun {
+  advertisement_id: string
+  campaign_date: string
+  slot: number
+  advertisement: Advertisement
+}
+
+interface PlanInput {
+  startDate: string
+  days: number
+  slotsPerIssue: number
+  nextPosition: number
+  ads: Advertisement[]  // In rotation, sorted by display_order
+  recorded: RecordedRun[]  // Usage from the day before startDate onwards
+  lastRunDates: Record<string, string>  // Latest run before startDate, per ad
+  blackouts: Record<string, string>  // Date -> reason
+}
+
+interface AdState {
+  ad: Advertisement
+  remaining: number
+  lastRun: string | null
+  rotation: number
+}
+
+function normalizeCategory(category: string | null): string | null {
+  return category?.trim().toLowerCase() || null
+}
+
+/**
+ * First date an ad may run again: weekly buys a week apart, monthly buys on the same day of
+ * the next month, single appearances in any later issue
+ */
+export function getNextRunDate(frequency: AdFrequency, lastRun: string): string {
+  if (frequency === 'weekly') return addDays(lastRun, 7)
+  if (frequency === 'monthly') return addMonths(lastRun, 1)
+  return addDays(lastRun, 1)
+}
+
+/**
+ * Lay the rotation's remaining paid runs onto issue dates.
+ *
+ * Each slot goes to the ad that most needs it: weekly and monthly buys as soon as they're due,
+ * then ads that haven't run yet in rotation order (starting from next_ad_position), then the
+ * single-run ad that ran longest ago. Ads wait for their preferred start date and frequency
+ * spacing, and an ad never shares an issue with, or follows the previous issue's, ad of the
+ * same category. Issues already sent keep the ads they went out with.
+ */
+export function planAdCalendar(input: PlanInput): AdCalendar {
+  const maxOrder = Math.max(0, ...input.ads.map(ad => ad.display_order || 0)) + 1
+  const states: AdState[] = input.ads.map(ad => ({
+    ad,
+    remaining: Math.max(ad.times_paid - ad.times_used, 0),
+    lastRun: input.lastRunDates[ad.id] || null,
+    rotation: ((ad.display_order || 0) - input.nextPosition + maxOrder) % maxOrder
+  }))
+
+  const categoriesOn = (date: string) => input.recorded
+    .filter(run => run.campaign_date === date)
+    .map(run => normalizeCategory(run.advertisement.category))
+
+  let previousCategories = categoriesOn(addDays(input.startDate, -1))
+  const days: AdCalendarDay[] = []
+
+  for (let offset = 0; offset < input.days; offset++) {
+    const date = addDays(input.startDate, offset)
+    const recordedToday = input.recorded
+      .filter(run => run.campaign_date === date)
+      .sort((a, b) => a.slot - b.slot)
+
+    const day: AdCalendarDay = {
+      date,
+      blackout: date in input.blackouts ? input.blackouts[date] : null,
+      ads: recordedToday.map(run => ({ slot: run.slot, ad: run.advertisement, recorded: true }))
+    }
+
+    if (recordedToday.length > 0) {
+      // Sent issues count as runs for spacing; times_used already includes them
+      recordedToday.forEach(run => {
+        const state = states.find(s => s.ad.id === run.advertisement_id)
+        if (state) state.lastRun = date
+      })
+    } else if (day.blackout === null) {
+      const todayCategories: (string | null)[] = []
+
+      for (let slot = 1; slot <= input.slotsPerIssue; slot++) {
+        const candidates = states.filter(state => {
+          const category = normalizeCategory(state.ad.category)
+          return state.remaining > 0 &&
+            !day.ads.some(planned => planned.ad.id === state.ad.id) &&
+            (!state.ad.preferred_start_date || state.ad.preferred_start_date.slice(0, 10) <= date) &&
+            (!state.lastRun || getNextRunDate(state.ad.frequency, state.lastRun) <= date) &&
+            (!category || (!todayCategories.includes(category) && !previousCategories.includes(category)))
+        })
+
+        if (candidates.length === 0) break
+
+        const urgency = (state: AdState) => {
+          if (state.ad.frequency !== 'single') return 0
+          return state.lastRun ? 2 : 1
+        }
+        const dueDate = (state: AdState) => state.lastRun ? getNextRunDate(state.ad.frequency, state.lastRun) : ''
+
+        candidates.sort((a, b) =>
+          urgency(a) - urgency(b) ||
+          (urgency(a) === 0 ? dueDate(a).localeCompare(dueDate(b)) : 0) ||
+          (urgency(a) === 2 ? (a.lastRun || '').localeCompare(b.lastRun || '') : 0) ||
+          a.rotation - b.rotation
+        )
+
+        const chosen = candidates[0]
+        day.ads.push({ slot, ad: chosen.ad, recorded: false })
+        todayCategories.push(normalizeCategory(chosen.ad.category))
+        chosen.remaining -= 1
+        chosen.lastRun = date
+      }
+    }
+
+    previousCategories = day.ads.map(planned => normalizeCategory(planned.ad.category))
+    days.push(day)
+  }
+
+  return {
+    startDate: input.startDate,
+    slotsPerIssue: input.slotsPerIssue,
+    days,
+    unplaced: states
+      .filter(state => state.remaining > 0)
+      .map(state => ({ ad: state.ad, runs: state.remaining }))
+  }
 }
 
 /**
- * Ad Scheduler - Selects which advertisement should appear in a given campaign
+ * Ad Scheduler - Plans which advertisements appear in which issues
  *
- * New Sequential Ordering System:
- * - Ads are selected based on display_order (1, 2, 3, etc.)
- * - Tracks next_ad_position in app_settings
- * - Loops back to position 1 when reaching the end
- * - Only selects from active ads with valid display_order
+ * Date-Aware Scheduling:
+ * - Active ads with a display_order are in the rotation until they've used their paid runs
+ * - Each issue has ad_slots_per_issue Community Business Spotlight slots (1 by default)
+ * - planAdCalendar spreads each ad's runs over upcoming dates by its frequency, preferred start
+ *   date and category; blackout dates run no ads
+ * - display_order and next_ad_position still decide between ads that are equally due
  */
 export class AdScheduler {
+  static async getSlotsPerIssue(publication: Publication): Promise<number> {
+    const stored = await getPublicationSetting(publication, 'ad_slots_per_issue')
+    const slots = stored ? parseInt(stored) : 1
+    return Number.isNaN(slots) ? 1 : Math.min(Math.max(slots, 0), MAX_AD_SLOTS)
+  }
+
   /**
-   * Select the next ad in the rotation queue
+   * Plan the publication's ads for the issues from startDate on
    */
-  static async selectAdForCampaign(context: ScheduleContext): Promise<Advertisement | null> {
-    const { campaignId } = context
+  static async planCalendar(publication: Publication, startDate: string, days: number = DEFAULT_CALENDAR_DAYS): Promise<AdCalendar> {
+    const endDate = addDays(startDate, days - 1)
 
-    try {
-      // Get the current next_ad_position from app_settings
-      const { data: settingsData, error: settingsError } = await supabaseAdmin
-        .from('app_settings')
-        .select('value')
-        .eq('key', 'next_ad_position')
-        .single()
-
-      if (settingsError) {
-        console.error('[AdScheduler] Error fetching next_ad_position:', settingsError)
-        return null
-      }
+    const [storedPosition, slotsPerIssue] = await Promise.all([
+      getPublicationSetting(publication, 'next_ad_position'),
+      AdScheduler.getSlotsPerIssue(publication)
+    ])
 
-      const nextAdPosition = settingsData ? parseInt(settingsData.value) : 1
-      console.log(`[AdScheduler] Current next_ad_position: ${nextAdPosition}`)
+    const { data: activeAds, error: adsError } = await supabaseAdmin
+      .from('advertisements')
+      .select('*')
+      .eq('publication_id', publication.id)
+      .eq('status', 'active')
+      .not('display_order', 'is', null)
+      .order('display_order', { ascending: true })
 
-      // Get all active ads with display_order, sorted by display_order
-      const { data: activeAds, error: adsError } = await supabaseAdmin
-        .from('advertisements')
-        .select('*')
-        .eq('status', 'active')
-        .not('display_order', 'is', null)
-        .order('display_order', { ascending: true })
+    if (adsError) {
+      throw adsError
+    }
 
-      if (adsError || !activeAds || activeAds.length === 0) {
-        console.log('[AdScheduler] No active ads found:', adsError)
-        return null
-      }
+    const ads: Advertisement[] = activeAds || []
 
-      console.log(`[AdScheduler] Found ${activeAds.length} active ads`)
+    const { data: recentRuns, error: runsError } = await supabaseAdmin
+      .from('campaign_advertisements')
+      .select('advertisement_id, campaign_date, slot, advertisement:advertisements(*)')
+      .gte('campaign_date', addDays(startDate, -1))
+      .lte('campaign_date', endDate)
 
-      // Find the ad at the current position
-      let selectedAd = activeAds.find(ad => ad.display_order === nextAdPosition)
+    if (runsError) {
+      throw runsError
+    }
 
-      // If no ad at current position (gap in sequence), find next available position
-      if (!selectedAd) {
-        console.log(`[AdScheduler] No ad at position ${nextAdPosition}, finding next available...`)
-        // Find the first ad with display_order >= nextAdPosition
-        selectedAd = activeAds.find(ad => (ad.display_order || 0) >= nextAdPosition)
+    const recorded = ((recentRuns || []) as unknown as RecordedRun[])
+      .filter(run => run.advertisement?.publication_id === publication.id)
 
-        // If still none found, we've reached the end - loop back to position 1
-        if (!selectedAd) {
-          console.log('[AdScheduler] Reached end of queue, looping back to position 1')
-          selectedAd = activeAds[0] // First ad in sorted array
-        }
+    const lastRunDates: Record<string, string> = {}
+    if (ads.length > 0) {
+      const { data: pastRuns, error: pastError } = await supabaseAdmin
+        .from('campaign_advertisements')
+        .select('advertisement_id, campaign_date')
+        .in('advertisement_id', ads.map(ad => ad.id))
+        .lt('campaign_date', startDate)
+        .order('campaign_date', { ascending: false })
+
+      if (pastError) {
+        throw pastError
       }
 
-      if (!selectedAd) {
-        console.log('[AdScheduler] No ad could be selected')
-        return null
+      pastRuns?.forEach(run => {
+        if (!lastRunDates[run.advertisement_id]) {
+          lastRunDates[run.advertisement_id] = run.campaign_date
+        }
+      })
+    }
+
+    const { data: blackoutRows, error: blackoutError } = await supabaseAdmin
+      .from('ad_blackout_dates')
+      .select('date, reason')
+      .eq('publication_id', publication.id)
+      .gte('date', startDate)
+      .lte('date', endDate)
+
+    if (blackoutError) {
+      throw blackoutError
+    }
+
+    const blackouts: Record<string, string> = {}
+    blackoutRows?.forEach(row => {
+      blackouts[row.date] = row.reason || ''
+    })
+
+    return planAdCalendar({
+      startDate,
+      days,
+      slotsPerIssue,
+      nextPosition: storedPosition ? parseInt(storedPosition) : 1,
+      ads,
+      recorded,
+      lastRunDates,
+      blackouts
+    })
+  }
+
+  /**
+   * The ads planned for a campaign's issue, in slot order
+   */
+  static async selectAdsForCampaign(context: ScheduleContext): Promise<Advertisement[]> {
+    const { publication, campaignDate } = context
+
+    try {
+      const calendar = await AdScheduler.planCalendar(publication, campaignDate, 1)
+      const day = calendar.days[0]
+
+      if (day.blackout !== null) {
+        console.log(`[AdScheduler] ${campaignDate} is a blackout date for ${publication.slug}; no ads`)
+        return []
       }
 
-      console.log(`[AdScheduler] Selected ad: ${selectedAd.title} (position ${selectedAd.display_order})`)
+      const ads = day.ads.map(planned => planned.ad)
+      console.log(`[AdScheduler] Planned ${ads.length} of ${calendar.slotsPerIssue} slots for ${campaignDate}: ${ads.map(ad => ad.title).join(', ') || 'none'}`)
 
-      return selectedAd
+      return ads
     } catch (error) {
-      console.error('[AdScheduler] Error selecting ad:', error)
-      return null
+      console.error('[AdScheduler] Error selecting ads:', error)
+      return []
     }
   }
 
   /**
-   * Record that an ad was used in a campaign and increment next_ad_position
+   * Record that an ad ran in a campaign slot and advance next_ad_position past it. Keyed per
+   * campaign and slot, so a retried final send doesn't count the run twice. An ad that has
+   * used all its paid runs is completed and leaves the rotation.
    */
   static async recordAdUsage(
     campaignId: string,
     adId: string,
-    campaignDate: string
+    campaignDate: string,
+    slot: number = 1
   ): Promise<void> {
     try {
-      // Get the ad that was just used
-      const { data: usedAd, error: adError } = await supabaseAdmin
-        .from('advertisements')
-        .select('display_order, times_used')
-        .eq('id', adId)
-        .single()
-
-      if (adError || !usedAd) {
-        console.error('[AdScheduler] Failed to fetch used ad:', adError)
-        throw adError
-      }
+      const { replayed } = await runIdempotent(`ad_usage:${campaignId}:${slot}`, async () => {
+        // Get the ad that was just used
+        const { data: usedAd, error: adError } = await supabaseAdmin
+          .from('advertisements')
+          .select('display_order, times_used, times_paid, publication_id')
+          .eq('id', adId)
+          .single()
 
-      console.log(`[AdScheduler] Recording usage for ad at position ${usedAd.display_order}`)
+        if (adError || !usedAd) {
+          console.error('[AdScheduler] Failed to fetch used ad:', adError)
+          throw adError
+        }
 
-      // Insert into campaign_advertisements
-      const { error: insertError } = await supabaseAdmin
-        .from('campaign_advertisements')
-        .insert({
-          campaign_id: campaignId,
-          advertisement_id: adId,
-          campaign_date: campaignDate,
-          used_at: new Date().toISOString()
-        })
+        console.log(`[AdScheduler] Recording usage for ad at position ${usedAd.display_order} in slot ${slot}`)
 
-      if (insertError) {
-        console.error('[AdScheduler] Failed to record usage:', insertError)
-        throw insertError
-      }
+        // Insert into campaign_advertisements
+        const { error: insertError } = await supabaseAdmin
+          .from('campaign_advertisements')
+          .insert({
+            campaign_id: campaignId,
+            advertisement_id: adId,
+            campaign_date: campaignDate,
+            slot,
+            used_at: new Date().toISOString()
+          })
 
-      // Update the ad: increment times_used and set last_used_date
-      const newTimesUsed = (usedAd.times_used || 0) + 1
-      const { error: updateAdError } = await supabaseAdmin
-        .from('advertisements')
-        .update({
-          times_used: newTimesUsed,
-          last_used_date: campaignDate,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', adId)
+        if (insertError) {
+          console.error('[AdScheduler] Failed to record usage:', insertError)
+          throw insertError
+        }
 
-      if (updateAdError) {
-        console.error('[AdScheduler] Failed to update ad times_used:', updateAdError)
-      }
+        // Update the ad: increment times_used and set last_used_date
+        const newTimesUsed = (usedAd.times_used || 0) + 1
+        const { error: updateAdError } = await supabaseAdmin
+          .from('advertisements')
+          .update({
+            times_used: newTimesUsed,
+            last_used_date: campaignDate,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', adId)
 
-      // Calculate next position
-      const currentPosition = usedAd.display_order || 1
+        if (updateAdError) {
+          console.error('[AdScheduler] Failed to update ad times_used:', updateAdError)
+        }
 
-      // Get all active ads to determine next position
-      const { data: activeAds, error: adsError } = await supabaseAdmin
-        .from('advertisements')
-        .select('display_order')
-        .eq('status', 'active')
-        .not('display_order', 'is', null)
-        .order('display_order', { ascending: true })
+        // Calculate next position
+        const currentPosition = usedAd.display_order || 1
 
-      if (adsError || !activeAds || activeAds.length === 0) {
-        console.error('[AdScheduler] Failed to fetch active ads for next position:', adsError)
-        return
-      }
+        // Get the publication's active ads to determine next position
+        const publication = await resolvePublication(usedAd.publication_id)
+        const { data: activeAds, error: adsError } = await supabaseAdmin
+          .from('advertisements')
+          .select('display_order')
+          .eq('publication_id', publication.id)
+          .eq('status', 'active')
+          .not('display_order', 'is', null)
+          .order('display_order', { ascending: true })
 
-      // Find the next position in the sequence
-      let nextPosition = currentPosition + 1
-      const maxPosition = Math.max(...activeAds.map(ad => ad.display_order || 0))
+        if (adsError || !activeAds || activeAds.length === 0) {
+          console.error('[AdScheduler] Failed to fetch active ads for next position:', adsError)
+          return
+        }
 
-      // If we've gone past the max position, loop back to 1
-      if (nextPosition > maxPosition) {
-        nextPosition = 1
-        console.log('[AdScheduler] Reached end of rotation, looping back to position 1')
-      } else {
-        console.log(`[AdScheduler] Moving to next position: ${nextPosition}`)
-      }
+        // Find the next position in the sequence
+        let nextPosition = currentPosition + 1
+        const maxPosition = Math.max(...activeAds.map(ad => ad.display_order || 0))
 
-      // Update next_ad_position in app_settings
-      const { error: settingsError } = await supabaseAdmin
-        .from('app_settings')
-        .update({
-          value: nextPosition.toString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('key', 'next_ad_position')
+        // If we've gone past the max position, loop back to 1
+        if (nextPosition > maxPosition) {
+          nextPosition = 1
+          console.log('[AdScheduler] Reached end of rotation, looping back to position 1')
+        } else {
+          console.log(`[AdScheduler] Moving to next position: ${nextPosition}`)
+        }
 
-      if (settingsError) {
-        console.error('[AdScheduler] Failed to update next_ad_position:', settingsError)
-        throw settingsError
-      }
+        // Update the publication's next_ad_position
+        await setPublicationSetting(publication, 'next_ad_position', nextPosition.toString())
+
+        if (newTimesUsed >= usedAd.times_paid) {
+          await AdScheduler.releaseQueueSlot(adId)
+          await supabaseAdmin
+            .from('advertisements')
+            .update({ status: 'completed', updated_at: new Date().toISOString() })
+            .eq('id', adId)
+          console.log(`[AdScheduler] Ad ${adId} used all ${usedAd.times_paid} paid runs; completed`)
+        }
+
+        console.log(`[AdScheduler] Successfully recorded usage and updated next_ad_position to ${nextPosition}`)
+      })
 
-      console.log(`[AdScheduler] Successfully recorded usage and updated next_ad_position to ${nextPosition}`)
+      if (replayed) {
+        console.log(`[AdScheduler] Usage already recorded for campaign ${campaignId} slot ${slot}`)
+      }
     } catch (error) {
       console.error('[AdScheduler] Error in recordAdUsage:', error)
       throw error
     }
   }
+
+
+  /**
+   * Take an ad out of the rotation and close the gap it leaves, keeping next_ad_position
+   * pointed at the ad that was due next
+   */
+  static async releaseQueueSlot(adId: string): Promise<void> {
+    const { data: ad, error: adError } = await supabaseAdmin
+      .from('advertisements')
+      .select('display_order, publication_id')
+      .eq('id', adId)
+      .single()
+
+    if (adError || !ad) {
+      throw adError || new Error(`Ad ${adId} not found`)
+    }
+
+    if (ad.display_order === null) {
+      return
+    }
+
+    const { error: clearError } = await supabaseAdmin
+      .from('advertisements')
+      .update({ display_order: null, updated_at: new Date().toISOString() })
+      .eq('id', adId)
+
+    if (clearError) {
+      throw clearError
+    }
+
+    const publication = await resolvePublication(ad.publication_id)
+    const { data: remainingAds, error: fetchError } = await supabaseAdmin
+      .from('advertisements')
+      .select('id, display_order')
+      .eq('publication_id', publication.id)
+      .eq('status', 'active')
+      .not('display_order', 'is', null)
+      .order('display_order', { ascending: true })
+
+    if (fetchError) {
+      throw fetchError
+    }
+
+    const ads = remainingAds || []
+    for (let index = 0; index < ads.length; index++) {
+      if (ads[index].display_order !== index + 1) {
+        await supabaseAdmin
+          .from('advertisements')
+          .update({ display_order: index + 1 })
+          .eq('id', ads[index].id)
+      }
+    }
+
+    const storedPosition = await getPublicationSetting(publication, 'next_ad_position')
+    let nextPosition = storedPosition ? parseInt(storedPosition) : 1
+    if (ad.display_order < nextPosition) {
+      nextPosition -= 1
+    }
+    if (nextPosition < 1 || nextPosition > ads.length) {
+      nextPosition = 1
+    }
+    await setPublicationSetting(publication, 'next_ad_position', nextPosition.toString())
+
+    console.log(`[AdScheduler] Released position ${ad.display_order} for ${publication.slug}; ${ads.length} ads left in rotation`)
+  }
 }
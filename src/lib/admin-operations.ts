@@ -0,0 +1,537 @@
+// Admin Operations
+// Registered maintenance operations run from the admin console (/dashboard/admin).
+// Every operation declares typed parameters, supports a dry run, needs confirmation
+// before it changes data, and leaves an audit entry in system_logs.
+
+import { supabaseAdmin } from './supabase'
+import { RSSProcessor } from './rss-processor'
+import { PipelineRunner } from './pipeline-runner'
+import { generateDailyWeatherForecast, getLatestWeatherForecast } from './weather-manager'
+import { SECTION_RENDERERS, resolveRendererKey, getDefaultSectionName } from './newsletter-sections'
+import { applyRetentionPolicies } from './asset-storage'
+import { migrateGitHubAssets } from './github-asset-migration'
+import { ScheduleChecker, SCHEDULE_JOB_KEYS } from './schedule-checker'
+import { resolvePublication } from './publications'
+import type { CampaignStatus, SystemLog } from '@/types/database'
+
+export type OperationParamType = 'campaign' | 'string' | 'number' | 'boolean' | 'select'
+
+export interface OperationParam {
+  name: string
+  label: string
+  type: OperationParamType
+  required?: boolean
+  options?: string[]
+  description?: string
+}
+
+export interface OperationResult {
+  summary: string
+  details?: Record<string, any>
+}
+
+interface OperationContext {
+  dryRun: boolean
+}
+
+export interface AdminOperation {
+  key: string
+  name: string
+  description: string
+  category: 'Campaigns' | 'Content' | 'System'
+  // Read-only operations skip confirmation and run the same with or without dry run
+  mutates: boolean
+  params: OperationParam[]
+  run(params: Record<string, any>, context: OperationContext): Promise<OperationResult>
+}
+
+export type AdminOperationSummary = Omit<AdminOperation, 'run'>
+
+export class AdminOperationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AdminOperationError'
+  }
+}
+
+const PUBLICATION_PARAM: OperationParam = {
+  name: 'publication',
+  label: 'Publication',
+  type: 'string',
+  description: 'Publication slug; empty for the default publication'
+}
+
+const CAMPAIGN_STATUSES: CampaignStatus[] = ['draft', 'in_review', 'changes_made', 'sent', 'failed']
+
+const REQUIRED_ENV_VARS = [
+  'SUPABASE_URL',
+  'SUPABASE_SERVICE_ROLE_KEY',
+  'NEXTAUTH_SECRET',
+  'NEXTAUTH_URL',
+  'GOOGLE_CLIENT_ID',
+  'GOOGLE_CLIENT_SECRET',
+  'CRON_SECRET',
+  'OPENAI_API_KEY',
+  'MAILERLITE_API_KEY',
+  'MAILERLITE_REVIEW_GROUP_ID',
+  'MAILERLITE_MAIN_GROUP_ID',
+  'SLACK_WEBHOOK_URL',
+  'STRIPE_SECRET_KEY',
+  'STRIPE_WEBHOOK_SECRET',
+  'GOOGLE_CLOUD_CREDENTIALS_JSON'
+]
+
+const campaignParam: OperationParam = { name: 'campaign_id', label: 'Campaign', type: 'campaign', required: true }
+
+async function getCampaign(campaignId: string) {
+  const { data: campaign, error } = await supabaseAdmin
+    .from('newsletter_campaigns')
+    .select('id, date, status, subject_line')
+    .eq('id', campaignId)
+    .single()
+
+  if (error || !campaign) {
+    throw new AdminOperationError(`Campaign ${campaignId} not found`)
+  }
+  return campaign
+}
+
+async function countRows(table: string, column: string, value: string): Promise<number> {
+  const { count } = await supabaseAdmin
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq(column, value)
+  return count || 0
+}
+
+const OPERATIONS: AdminOperation[] = [
+  {
+    key: 'reprocess_campaign',
+    name: 'Reprocess campaign',
+    description: 'Queue the nightly pipeline for a campaign. A full reset archives and clears its posts and articles first.',
+    category: 'Campaigns',
+    mutates: true,
+    params: [
+      campaignParam,
+      { name: 'full_reset', label: 'Full reset', type: 'boolean', description: 'Archive and delete existing posts and articles' }
+    ],
+    run: async (params, { dryRun }) => {
+      const campaign = await getCampaign(params.campaign_id)
+      const existing = await PipelineRunner.getJobForCampaign(campaign.id)
+      const details = {
+        campaign_date: campaign.date,
+        posts: await countRows('rss_posts', 'campaign_id', campaign.id),
+        articles: await countRows('articles', 'campaign_id', campaign.id),
+        active_job: existing && ['pending', 'running'].includes(existing.job.status) ? existing.job.id : null
+      }
+
+      if (dryRun) {
+        return {
+          summary: params.full_reset
+            ? `Would archive and clear ${details.posts} posts and ${details.articles} articles, then reprocess ${campaign.date}`
+            : `Would reprocess ${campaign.date}, keeping ${details.posts} posts and ${details.articles} articles`,
+          details
+        }
+      }
+
+      const job = await PipelineRunner.enqueueJob(campaign.id, { fullReset: !!params.full_reset })
+      return { summary: `Queued pipeline job ${job.id} for ${campaign.date}`, details: { ...details, job_id: job.id } }
+    }
+  },
+  {
+    key: 'set_campaign_status',
+    name: 'Set campaign status',
+    description: 'Move a campaign to another status, e.g. back to draft after an interrupted send.',
+    category: 'Campaigns',
+    mutates: true,
+    params: [
+      campaignParam,
+      { name: 'status', label: 'New status', type: 'select', required: true, options: CAMPAIGN_STATUSES }
+    ],
+    run: async (params, { dryRun }) => {
+      const campaign = await getCampaign(params.campaign_id)
+      const details = { campaign_date: campaign.date, from: campaign.status, to: params.status }
+
+      if (campaign.status === params.status) {
+        return { summary: `Campaign ${campaign.date} is already ${params.status}`, details }
+      }
+      if (dryRun) {
+        return { summary: `Would change ${campaign.date} from ${campaign.status} to ${params.status}`, details }
+      }
+
+      const updateData: Record<string, any> = { status: params.status, updated_at: new Date().toISOString() }
+      if (params.status === 'draft') {
+        updateData.review_sent_at = null
+      }
+
+      const { error } = await supabaseAdmin
+        .from('newsletter_campaigns')
+        .update(updateData)
+        .eq('id', campaign.id)
+
+      if (error) {
+        throw new Error(`Failed to update campaign status: ${error.message}`)
+      }
+      return { summary: `Changed ${campaign.date} from ${campaign.status} to ${params.status}`, details }
+    }
+  },
+  {
+    key: 'regenerate_subject_line',
+    name: 'Regenerate subject line',
+    description: "Generate a new subject line from the campaign's active articles.",
+    category: 'Campaigns',
+    mutates: true,
+    params: [campaignParam],
+    run: async (params, { dryRun }) => {
+      const campaign = await getCampaign(params.campaign_id)
+      const { count: activeArticles } = await supabaseAdmin
+        .from('articles')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', campaign.id)
+        .eq('is_active', true)
+
+      const details = { campaign_date: campaign.date, current_subject_line: campaign.subject_line, active_articles: activeArticles || 0 }
+      if (!activeArticles) {
+        return { summary: `Campaign ${campaign.date} has no active articles to write a subject line from`, details }
+      }
+      if (dryRun) {
+        return { summary: `Would replace "${campaign.subject_line || '(none)'}" using ${activeArticles} active articles`, details }
+      }
+
+      await new RSSProcessor().generateSubjectLineForCampaign(campaign.id)
+      const updated = await getCampaign(campaign.id)
+      return { summary: `Subject line is now "${updated.subject_line}"`, details: { ...details, subject_line: updated.subject_line } }
+    }
+  },
+  {
+    key: 'repopulate_campaign_events',
+    name: 'Repopulate campaign events',
+    description: 'Clear the events chosen for a campaign and select them again from the events database.',
+    category: 'Content',
+    mutates: true,
+    params: [campaignParam],
+    run: async (params, { dryRun }) => {
+      const campaign = await getCampaign(params.campaign_id)
+      const existing = await countRows('campaign_events', 'campaign_id', campaign.id)
+      const details = { campaign_date: campaign.date, existing_events: existing }
+
+      if (dryRun) {
+        return { summary: `Would clear ${existing} campaign events and select new ones for ${campaign.date}`, details }
+      }
+
+      const { error } = await supabaseAdmin
+        .from('campaign_events')
+        .delete()
+        .eq('campaign_id', campaign.id)
+
+      if (error) {
+        throw new Error(`Failed to clear campaign events: ${error.message}`)
+      }
+
+      await new RSSProcessor().populateEventsForCampaignSmart(campaign.id)
+      const populated = await countRows('campaign_events', 'campaign_id', campaign.id)
+      return { summary: `Replaced ${existing} campaign events with ${populated}`, details: { ...details, new_events: populated } }
+    }
+  },
+  {
+    key: 'process_article_images',
+    name: 'Process article images',
+    description: "Download and store images for the campaign's active articles.",
+    category: 'Content',
+    mutates: true,
+    params: [campaignParam],
+    run: async (params, { dryRun }) => {
+      const campaign = await getCampaign(params.campaign_id)
+      const { count: activeArticles } = await supabaseAdmin
+        .from('articles')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', campaign.id)
+        .eq('is_active', true)
+
+      const details = { campaign_date: campaign.date, active_articles: activeArticles || 0 }
+      if (dryRun) {
+        return { summary: `Would process images for ${activeArticles || 0} active articles`, details }
+      }
+
+      await new RSSProcessor().processArticleImages(campaign.id)
+      return { summary: `Processed images for ${activeArticles || 0} active articles`, details }
+    }
+  },
+  {
+    key: 'regenerate_weather',
+    name: 'Regenerate weather forecast',
+    description: "Fetch tomorrow's forecast again and rebuild the weather section image.",
+    category: 'Content',
+    mutates: true,
+    params: [PUBLICATION_PARAM],
+    run: async (params, { dryRun }) => {
+      const publication = await resolvePublication(params.publication)
+      const latest = await getLatestWeatherForecast(publication.id)
+      const details = { publication: publication.slug, latest_forecast_date: latest?.forecast_date || null }
+
+      if (dryRun) {
+        return { summary: `Would regenerate tomorrow's ${publication.name} forecast (latest stored: ${details.latest_forecast_date || 'none'})`, details }
+      }
+
+      const forecast = await generateDailyWeatherForecast(publication)
+      return { summary: `Generated forecast for ${forecast.forecast_date}`, details: { ...details, forecast_date: forecast.forecast_date } }
+    }
+  },
+  {
+    key: 'add_missing_newsletter_sections',
+    name: 'Add missing newsletter sections',
+    description: 'Create an inactive section for every registered renderer that has no newsletter_sections row in the publication.',
+    category: 'Content',
+    mutates: true,
+    params: [PUBLICATION_PARAM],
+    run: async (params, { dryRun }) => {
+      const publication = await resolvePublication(params.publication)
+      const { data: sections, error } = await supabaseAdmin
+        .from('newsletter_sections')
+        .select('name, renderer_key, display_order')
+        .eq('publication_id', publication.id)
+
+      if (error) {
+        throw new Error(`Failed to fetch newsletter sections: ${error.message}`)
+      }
+
+      const existingKeys = new Set((sections || []).map(section => resolveRendererKey(section)))
+      const missing = Object.keys(SECTION_RENDERERS).filter(key => !existingKeys.has(key))
+      const maxOrder = Math.max(0, ...(sections || []).map(section => section.display_order || 0))
+
+      const rows = missing.map((key, index) => ({
+        publication_id: publication.id,
+        name: getDefaultSectionName(key),
+        renderer_key: key,
+        display_order: maxOrder + (index + 1) * 10,
+        is_active: false
+      }))
+
+      if (rows.length === 0) {
+        return { summary: 'Every renderer already has a section', details: { missing: [] } }
+      }
+      if (dryRun) {
+        return { summary: `Would add ${rows.length} inactive sections: ${rows.map(r => r.name).join(', ')}`, details: { missing: rows } }
+      }
+
+      const { error: insertError } = await supabaseAdmin
+        .from('newsletter_sections')
+        .insert(rows)
+
+      if (insertError) {
+        throw new Error(`Failed to add sections: ${insertError.message}`)
+      }
+      return { summary: `Added ${rows.length} inactive sections: ${rows.map(r => r.name).join(', ')}`, details: { added: rows } }
+    }
+  },
+  {
+    key: 'migrate_github_images',
+    name: 'Migrate GitHub-hosted images',
+    description: 'Copy images still served from the GitHub images repo into object storage and rewrite every reference to them. Run repeatedly until none remain.',
+    category: 'Content',
+    mutates: true,
+    params: [
+      { name: 'batch_size', label: 'Images per run', type: 'number', description: 'Keep runs inside the 5 minute limit (default 50)' }
+    ],
+    run: async (params, { dryRun }) => {
+      const result = await migrateGitHubAssets({ batchSize: params.batch_size || 50, dryRun })
+
+      if (dryRun) {
+        return {
+          summary: `${result.found} GitHub-hosted images are still referenced; this run would migrate ${result.migrated.length}`,
+          details: result
+        }
+      }
+      return {
+        summary: `Migrated ${result.migrated.length} images (${result.failed.length} failed), ${result.remaining} left`,
+        details: result
+      }
+    }
+  },
+  {
+    key: 'apply_storage_retention',
+    name: 'Apply storage retention',
+    description: 'Delete stored assets older than their retention period (also runs nightly).',
+    category: 'System',
+    mutates: true,
+    params: [],
+    run: async (_, { dryRun }) => {
+      const results = await applyRetentionPolicies({ dryRun })
+      const expired = Object.values(results).reduce((sum, r) => sum + r.expired, 0)
+      return {
+        summary: dryRun ? `Would delete ${expired} expired assets` : `Deleted ${expired} expired assets`,
+        details: results
+      }
+    }
+  },
+  {
+    key: 'reset_daily_run_flags',
+    name: 'Reset scheduled run markers',
+    description: 'Forget which scheduled runs already happened, so a job whose run time passed within the last 30 minutes runs again on the next cron call.',
+    category: 'System',
+    mutates: true,
+    params: [],
+    run: async (_, { dryRun }) => {
+      const jobs = await ScheduleChecker.getJobs()
+      const current = Object.fromEntries(SCHEDULE_JOB_KEYS.map(key => [key, jobs[key]?.last_run_at || null]))
+
+      if (dryRun) {
+        return { summary: `Would reset the last run of ${SCHEDULE_JOB_KEYS.length} scheduled jobs`, details: { current } }
+      }
+
+      const { error } = await supabaseAdmin
+        .from('schedule_jobs')
+        .update({ last_run_at: null, updated_at: new Date().toISOString() })
+        .in('job_key', SCHEDULE_JOB_KEYS)
+
+      if (error) {
+        throw new Error(`Failed to reset run markers: ${error.message}`)
+      }
+      return { summary: `Reset the last run of ${SCHEDULE_JOB_KEYS.length} scheduled jobs`, details: { previous: current } }
+    }
+  },
+  {
+    key: 'check_environment',
+    name: 'Check environment',
+    description: 'List which required environment variables are set (values are never shown).',
+    category: 'System',
+    mutates: false,
+    params: [],
+    run: async () => {
+      const present = Object.fromEntries(REQUIRED_ENV_VARS.map(name => [name, !!process.env[name]]))
+      const missing = REQUIRED_ENV_VARS.filter(name => !present[name])
+      return {
+        summary: missing.length === 0 ? 'All required variables are set' : `Missing: ${missing.join(', ')}`,
+        details: { present }
+      }
+    }
+  }
+]
+
+export function listAdminOperations(): AdminOperationSummary[] {
+  return OPERATIONS.map(({ run, ...summary }) => summary)
+}
+
+/**
+ * Check required parameters and coerce values to their declared types
+ */
+function parseOperationParams(operation: AdminOperation, raw: Record<string, any>): Record<string, any> {
+  const params: Record<string, any> = {}
+
+  for (const param of operation.params) {
+    const value = raw[param.name]
+    const isEmpty = value === undefined || value === null || value === ''
+
+    if (isEmpty) {
+      if (param.required) {
+        throw new AdminOperationError(`${param.label} is required`)
+      }
+      params[param.name] = param.type === 'boolean' ? false : null
+      continue
+    }
+
+    switch (param.type) {
+      case 'number': {
+        const number = Number(value)
+        if (Number.isNaN(number)) {
+          throw new AdminOperationError(`${param.label} must be a number`)
+        }
+        params[param.name] = number
+        break
+      }
+      case 'boolean':
+        params[param.name] = value === true || value === 'true'
+        break
+      case 'select':
+        if (!param.options?.includes(String(value))) {
+          throw new AdminOperationError(`${param.label} must be one of: ${param.options?.join(', ')}`)
+        }
+        params[param.name] = String(value)
+        break
+      case 'campaign':
+        if (!/^[0-9a-f-]{36}$/i.test(String(value))) {
+          throw new AdminOperationError(`${param.label} must be a campaign ID`)
+        }
+        params[param.name] = String(value)
+        break
+      default:
+        params[param.name] = String(value)
+    }
+  }
+
+  return params
+}
+
+async function writeAuditLog(level: 'info' | 'error', message: string, context: Record<string, any>) {
+  const { error } = await supabaseAdmin
+    .from('system_logs')
+    .insert([{
+      level,
+      message,
+      context,
+      source: 'admin_console',
+      timestamp: new Date().toISOString()
+    }])
+
+  if (error) {
+    console.error('Failed to write admin operation audit entry:', error.message)
+  }
+}
+
+/**
+ * Validate, run and audit an operation. Changing data requires confirm to equal the operation key.
+ */
+export async function runAdminOperation(
+  key: string,
+  rawParams: Record<string, any>,
+  options: { dryRun: boolean, confirm?: string, userEmail: string | null }
+): Promise<OperationResult> {
+  const operation = OPERATIONS.find(op => op.key === key)
+  if (!operation) {
+    throw new AdminOperationError(`Unknown operation: ${key}`)
+  }
+
+  const params = parseOperationParams(operation, rawParams || {})
+  const dryRun = operation.mutates ? options.dryRun : false
+
+  if (operation.mutates && !dryRun && options.confirm !== operation.key) {
+    throw new AdminOperationError(`Confirm by sending confirm: "${operation.key}"`)
+  }
+
+  const auditContext = {
+    operation: operation.key,
+    params,
+    dry_run: dryRun,
+    user: options.userEmail
+  }
+
+  console.log(`[Admin] ${options.userEmail} running ${operation.key}${dryRun ? ' (dry run)' : ''}`, params)
+
+  try {
+    const result = await operation.run(params, { dryRun })
+    await writeAuditLog('info', `Admin operation ${operation.key}${dryRun ? ' (dry run)' : ''}: ${result.summary}`, {
+      ...auditContext,
+      result
+    })
+    return result
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    await writeAuditLog('error', `Admin operation ${operation.key} failed: ${message}`, auditContext)
+    throw error
+  }
+}
+
+export async function getRecentOperationLogs(limit: number = 50): Promise<SystemLog[]> {
+  const { data, error } = await supabaseAdmin
+    .from('system_logs')
+    .select('*')
+    .eq('source', 'admin_console')
+    .order('timestamp', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch admin operation logs: ${error.message}`)
+  }
+
+  return data || []
+}
@@ -0,0 +1,468 @@
+// Advertiser Portal
+// Businesses sign in with a one-time link sent to the contact email on their ads, then see each
+// ad's status, the issues it ran in and the Community Business Spotlight clicks from those
+// issues. They can edit copy (which sends the ad back for review) and buy more runs.
+// Sessions are a signed cookie, separate from the staff next-auth session.
+// Advertisers are also emailed the day before each planned run.
+
+import crypto from 'crypto'
+import { supabaseAdmin } from './supabase'
+import { AdScheduler } from './ad-scheduler'
+import { IdempotencyConflictError, runIdempotent } from './idempotency'
+import { sendTransactionalEmail } from './transactional-email'
+import { formatCalendarDate } from './newsletter-calendar'
+import type { AdRunPurchase, Advertisement, AdStatus, Publication } from '@/types/database'
+
+export class AdvertiserPortalError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AdvertiserPortalError'
+  }
+}
+
+export const PORTAL_SESSION_COOKIE = 'advertiser-portal-session'
+export const PORTAL_SESSION_DAYS = 7
+export const LOGIN_LINK_MINUTES = 30
+export const MAX_AD_WORDS = 100
+
+// Links requested per email before further requests are ignored for a while
+const LOGIN_LINK_LIMIT = 3
+const LOGIN_LINK_WINDOW_MINUTES = 15
+
+const SPOTLIGHT_SECTION = 'Community Business Spotlight'
+
+// Copy can be changed while the ad is in review or scheduled; not for ads that were never paid for
+const EDITABLE_STATUSES: AdStatus[] = ['pending_review', 'approved', 'active', 'rejected', 'completed']
+const RENEWABLE_STATUSES: AdStatus[] = ['pending_review', 'approved', 'active', 'completed']
+
+export interface PortalAdRun {
+  campaign_date: string
+  clicks: number
+  unique_clicks: number
+}
+
+export interface PortalAd {
+  id: string
+  title: string
+  body: string
+  business_name: string
+  business_website: string | null
+  image_url: string | null
+  frequency: Advertisement['frequency']
+  status: AdStatus
+  times_paid: number
+  times_used: number
+  rejection_reason: string | null
+  submission_date: string
+  last_used_date: string | null
+  runs: PortalAdRun[]
+  total_clicks: number
+  purchases: Pick<AdRunPurchase, 'id' | 'times' | 'payment_amount' | 'status' | 'created_at' | 'paid_at'>[]
+  can_edit: boolean
+  can_buy_runs: boolean
+}
+
+export function normalizeAdvertiserEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function getPortalUrl(): string {
+  return `${process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'}/ads/portal`
+}
+
+export function countAdWords(html: string): number {
+  return html.replace(/<[^>]*>/g, ' ').trim().split(/\s+/).filter(w => w.length > 0).length
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.ADVERTISER_PORTAL_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('ADVERTISER_PORTAL_SECRET or NEXTAUTH_SECRET must be set for the advertiser portal')
+  }
+  return secret
+}
+
+function signSession(payload: string): string {
+  return crypto.createHmac('sha256', getSessionSecret()).update(payload).digest('base64url')
+}
+
+/**
+ * Ads whose contact email matches. ilike treats "_" as a wildcard, so the match is
+ * confirmed exactly before anything is returned.
+ */
+async function getAdsForEmail(email: string): Promise<Advertisement[]> {
+  const normalizedEmail = normalizeAdvertiserEmail(email)
+
+  const { data, error } = await supabaseAdmin
+    .from('advertisements')
+    .select('*')
+    .ilike('contact_email', normalizedEmail)
+    .order('submission_date', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []).filter(ad => normalizeAdvertiserEmail(ad.contact_email) === normalizedEmail)
+}
+
+/**
+ * Email a sign-in link. Addresses without ads and addresses over the request limit get
+ * nothing, but the caller can't tell, so the form can't be used to find advertisers.
+ */
+export async function requestPortalLink(email: string): Promise<void> {
+  const normalizedEmail = normalizeAdvertiserEmail(email)
+
+  const ads = await getAdsForEmail(normalizedEmail)
+  if (ads.length === 0) {
+    console.log(`[Advertiser Portal] No ads for ${normalizedEmail}; no link sent`)
+    return
+  }
+
+  const windowStart = new Date(Date.now() - LOGIN_LINK_WINDOW_MINUTES * 60 * 1000).toISOString()
+  const { count, error: countError } = await supabaseAdmin
+    .from('advertiser_login_tokens')
+    .select('id', { count: 'exact', head: true })
+    .eq('email', normalizedEmail)
+    .gte('created_at', windowStart)
+
+  if (countError) {
+    throw countError
+  }
+
+  if ((count || 0) >= LOGIN_LINK_LIMIT) {
+    console.warn(`[Advertiser Portal] Link limit reached for ${normalizedEmail}`)
+    return
+  }
+
+  const token = crypto.randomBytes(32).toString('hex')
+  const { error: insertError } = await supabaseAdmin
+    .from('advertiser_login_tokens')
+    .insert({
+      email: normalizedEmail,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + LOGIN_LINK_MINUTES * 60 * 1000).toISOString()
+    })
+
+  if (insertError) {
+    throw insertError
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'
+  const signInUrl = `${baseUrl}/api/ads/portal/verify?token=${token}`
+
+  const result = await sendTransactionalEmail({
+    template: 'advertiser_portal_link',
+    to: normalizedEmail,
+    variables: { sign_in_url: signInUrl, expires_in_minutes: LOGIN_LINK_MINUTES }
+  })
+  if (!result.success) {
+    throw new Error('Failed to send sign-in email')
+  }
+}
+
+/**
+ * Use up a sign-in link. Returns the email it was sent to, or null if the link is
+ * unknown, expired or already used.
+ */
+export async function consumePortalToken(token: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('advertiser_login_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('token_hash', hashToken(token))
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('email')
+
+  if (error) {
+    throw error
+  }
+
+  return data?.[0]?.email || null
+}
+
+/**
+ * Cookie value for a signed-in advertiser: "<email>.<expires ms>.<signature>", email base64url encoded
+ */
+export function createPortalSession(email: string): { value: string, expires: Date } {
+  const expires = new Date(Date.now() + PORTAL_SESSION_DAYS * 24 * 60 * 60 * 1000)
+  const payload = `${Buffer.from(normalizeAdvertiserEmail(email)).toString('base64url')}.${expires.getTime()}`
+  return { value: `${payload}.${signSession(payload)}`, expires }
+}
+
+/**
+ * The email a session cookie was issued to, if its signature checks out and it hasn't expired
+ */
+export function readPortalSession(value: string | undefined): string | null {
+  if (!value) return null
+
+  const parts = value.split('.')
+  if (parts.length !== 3) return null
+
+  const [encodedEmail, expiresAt, signature] = parts
+  const expected = signSession(`${encodedEmail}.${expiresAt}`)
+  if (signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null
+  }
+
+  if (!(Number(expiresAt) > Date.now())) return null
+
+  return Buffer.from(encodedEmail, 'base64url').toString('utf8')
+}
+
+/**
+ * One of the signed-in advertiser's ads; other advertisers' ads look the same as missing ones
+ */
+export async function getAdvertiserAd(email: string, adId: string): Promise<Advertisement | null> {
+  const { data: ad, error } = await supabaseAdmin
+    .from('advertisements')
+    .select('*')
+    .eq('id', adId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (!ad || normalizeAdvertiserEmail(ad.contact_email) !== normalizeAdvertiserEmail(email)) {
+    return null
+  }
+
+  return ad
+}
+
+/**
+ * Everything the portal shows for an advertiser's ads
+ */
+export async function getPortalAds(email: string): Promise<PortalAd[]> {
+  const ads = (await getAdsForEmail(email)).filter(ad => ad.status !== 'pending_payment' && ad.status !== 'expired')
+  if (ads.length === 0) {
+    return []
+  }
+
+  const adIds = ads.map(ad => ad.id)
+
+  const { data: usage, error: usageError } = await supabaseAdmin
+    .from('campaign_advertisements')
+    .select('advertisement_id, campaign_date')
+    .in('advertisement_id', adIds)
+    .order('campaign_date', { ascending: false })
+
+  if (usageError) {
+    throw usageError
+  }
+
+  const runDates = Array.from(new Set((usage || []).map(row => row.campaign_date)))
+
+  // Other publications' ads can share an issue date; those dates need the URL to tell clicks apart
+  const adsPerDate: Record<string, number> = {}
+  const clicks: { campaign_date: string, link_url: string, subscriber_email: string }[] = []
+  if (runDates.length > 0) {
+    const { data: sameDay, error: sameDayError } = await supabaseAdmin
+      .from('campaign_advertisements')
+      .select('campaign_date')
+      .in('campaign_date', runDates)
+
+    if (sameDayError) {
+      throw sameDayError
+    }
+    sameDay?.forEach(row => {
+      adsPerDate[row.campaign_date] = (adsPerDate[row.campaign_date] || 0) + 1
+    })
+
+    const { data: clickRows, error: clickError } = await supabaseAdmin
+      .from('link_clicks')
+      .select('campaign_date, link_url, subscriber_email')
+      .eq('link_section', SPOTLIGHT_SECTION)
+      .in('campaign_date', runDates)
+
+    if (clickError) {
+      throw clickError
+    }
+    clicks.push(...(clickRows || []))
+  }
+
+  const { data: purchases, error: purchaseError } = await supabaseAdmin
+    .from('ad_run_purchases')
+    .select('id, advertisement_id, times, payment_amount, status, created_at, paid_at')
+    .in('advertisement_id', adIds)
+    .neq('status', 'expired')
+    .order('created_at', { ascending: false })
+
+  if (purchaseError) {
+    throw purchaseError
+  }
+
+  return ads.map(ad => {
+    const runs: PortalAdRun[] = (usage || [])
+      .filter(row => row.advertisement_id === ad.id)
+      .map(row => {
+        const dayClicks = clicks.filter(click =>
+          click.campaign_date === row.campaign_date &&
+          (adsPerDate[row.campaign_date] <= 1 || click.link_url === ad.business_website)
+        )
+        return {
+          campaign_date: row.campaign_date,
+          clicks: dayClicks.length,
+          unique_clicks: new Set(dayClicks.map(click => click.subscriber_email)).size
+        }
+      })
+
+    return {
+      id: ad.id,
+      title: ad.title,
+      body: ad.body,
+      business_name: ad.business_name,
+      business_website: ad.business_website,
+      image_url: ad.image_url,
+      frequency: ad.frequency,
+      status: ad.status,
+      times_paid: ad.times_paid,
+      times_used: ad.times_used,
+      rejection_reason: ad.status === 'rejected' ? ad.rejection_reason : null,
+      submission_date: ad.submission_date,
+      last_used_date: ad.last_used_date,
+      runs,
+      total_clicks: runs.reduce((sum, run) => sum + run.clicks, 0),
+      purchases: (purchases || [])
+        .filter(purchase => purchase.advertisement_id === ad.id)
+        .map(({ advertisement_id, ...purchase }) => purchase),
+      can_edit: EDITABLE_STATUSES.includes(ad.status),
+      can_buy_runs: RENEWABLE_STATUSES.includes(ad.status)
+    }
+  })
+}
+
+/**
+ * Save the advertiser's new copy and send the ad back for review. An ad in the rotation
+ * leaves it until it's approved and activated again.
+ */
+export async function updateAdCopy(
+  ad: Advertisement,
+  changes: { title?: string, body?: string, business_website?: string | null }
+): Promise<Advertisement> {
+  if (!EDITABLE_STATUSES.includes(ad.status)) {
+    throw new AdvertiserPortalError(`Ads that are ${ad.status.replace('_', ' ')} can't be edited`)
+  }
+
+  const title = changes.title !== undefined ? changes.title.trim() : ad.title
+  const body = changes.body !== undefined ? changes.body : ad.body
+  const website = changes.business_website !== undefined
+    ? (changes.business_website?.trim() || null)
+    : ad.business_website
+
+  if (!title) {
+    throw new AdvertiserPortalError('Title is required')
+  }
+
+  const wordCount = countAdWords(body)
+  if (wordCount === 0) {
+    throw new AdvertiserPortalError('Ad content cannot be empty')
+  }
+  if (wordCount > MAX_AD_WORDS) {
+    throw new AdvertiserPortalError(`Ad content must be ${MAX_AD_WORDS} words or less`)
+  }
+
+  if (website && !/^https?:\/\//i.test(website)) {
+    throw new AdvertiserPortalError('Website must start with http:// or https://')
+  }
+
+  if (ad.display_order !== null) {
+    await AdScheduler.releaseQueueSlot(ad.id)
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('advertisements')
+    .update({
+      title,
+      body,
+      word_count: wordCount,
+      business_website: website,
+      status: 'pending_review',
+      display_order: null,
+      approved_by: null,
+      approved_at: null,
+      rejection_reason: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', ad.id)
+    .select()
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return updated
+}
+
+export function assertCanBuyRuns(ad: Advertisement): void {
+  if (!RENEWABLE_STATUSES.includes(ad.status)) {
+    throw new AdvertiserPortalError(`More runs can't be added to an ad that is ${ad.status.replace('_', ' ')}`)
+  }
+}
+
+/**
+ * Email each advertiser whose ad is planned for the given issue date. Sent at most once per ad
+ * and date, so the cron can be re-run safely; a re-run retries only the sends that failed.
+ * Reminders already sent (or being sent by another run) are counted as skipped.
+ */
+export async function sendAdRunReminders(
+  publication: Publication,
+  date: string
+): Promise<{ sent: number, failed: number, skipped: number }> {
+  const calendar = await AdScheduler.planCalendar(publication, date, 1)
+  const day = calendar.days[0]
+  let sent = 0
+  let failed = 0
+  let skipped = 0
+
+  for (const planned of day?.ads || []) {
+    const { ad } = planned
+    try {
+      const { replayed } = await runIdempotent(`ad_run_reminder:${ad.id}:${date}`, async () => {
+        const result = await sendTransactionalEmail({
+          template: 'ad_runs_tomorrow',
+          to: ad.contact_email,
+          advertisementId: ad.id,
+          variables: {
+            contact_name: ad.contact_name,
+            ad_title: ad.title,
+            business_name: ad.business_name,
+            run_date: formatCalendarDate(date, { weekday: 'long', month: 'long', day: 'numeric' }),
+            // A recorded run is already counted in times_used
+            run_number: planned.recorded ? ad.times_used : ad.times_used + 1,
+            times_paid: ad.times_paid,
+            publication_name: publication.name,
+            portal_url: getPortalUrl()
+          }
+        })
+
+        if (!result.success) {
+          throw new Error(result.error || 'Reminder email failed')
+        }
+        return result
+      })
+      if (replayed) {
+        skipped++
+      } else {
+        sent++
+      }
+    } catch (error) {
+      if (error instanceof IdempotencyConflictError) {
+        // Another run is sending this reminder right now
+        skipped++
+        continue
+      }
+      console.error(`[Advertiser Portal] Run reminder for ad ${ad.id} failed:`, error)
+      failed++
+    }
+  }
+
+  return { sent, failed, skipped }
+}
@@ -0,0 +1,203 @@
+// Asset Storage
+// Stores the images we host ourselves (re-hosted article images, weather and VRBO images,
+// library variants, event and ad images) in object storage under content-hash keys,
+// so the same bytes are only stored once, and applies a retention policy per asset class.
+
+import crypto from 'crypto'
+import { supabaseAdmin } from './supabase'
+import { getObjectStorage, getKeyFromUrl } from './object-storage'
+
+export type AssetClass =
+  | 'article_image'
+  | 'weather_image'
+  | 'vrbo_image'
+  | 'library_variant'
+  | 'event_image'
+  | 'ad_image'
+
+interface AssetClassConfig {
+  label: string
+  prefix: string
+  // null keeps assets forever; sent newsletters keep pointing at them
+  defaultRetentionDays: number | null
+}
+
+export const ASSET_CLASSES: Record<AssetClass, AssetClassConfig> = {
+  article_image: { label: 'Article images', prefix: 'assets/articles', defaultRetentionDays: null },
+  weather_image: { label: 'Weather forecast images', prefix: 'assets/weather', defaultRetentionDays: 30 },
+  vrbo_image: { label: 'VRBO listing images', prefix: 'assets/vrbo', defaultRetentionDays: null },
+  library_variant: { label: 'Image library variants', prefix: 'assets/library-variants', defaultRetentionDays: null },
+  event_image: { label: 'Event images', prefix: 'assets/events', defaultRetentionDays: null },
+  ad_image: { label: 'Advertisement images', prefix: 'assets/ads', defaultRetentionDays: null }
+}
+
+export interface StoredAsset {
+  key: string
+  url: string
+}
+
+const MAX_ASSET_BYTES = 5 * 1024 * 1024
+const DOWNLOAD_TIMEOUT_MS = 15000
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/jpg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg'
+}
+
+/**
+ * Store bytes under their content hash; identical uploads return the existing object
+ */
+export async function storeAsset(assetClass: AssetClass, body: Buffer, contentType: string): Promise<StoredAsset> {
+  if (body.length > MAX_ASSET_BYTES) {
+    throw new Error(`Asset too large: ${body.length} bytes (max 5MB)`)
+  }
+
+  const storage = getObjectStorage()
+  const hash = crypto.createHash('sha256').update(body).digest('hex').slice(0, 32)
+  const key = `${ASSET_CLASSES[assetClass].prefix}/${hash}${EXTENSIONS[contentType.toLowerCase()] || '.jpg'}`
+
+  if (await storage.exists(key)) {
+    console.log(`Asset already stored: ${key}`)
+  } else {
+    await storage.put(key, body, contentType)
+    console.log(`Stored ${assetClass} in ${storage.backend} storage: ${key}`)
+  }
+
+  return { key, url: storage.getPublicUrl(key) }
+}
+
+/**
+ * Download an image and store it. Returns null when the download isn't a usable image.
+ */
+export async function storeRemoteAsset(
+  assetClass: AssetClass,
+  sourceUrl: string,
+  headers: Record<string, string> = {}
+): Promise<StoredAsset | null> {
+  try {
+    console.log(`Downloading image from: ${sourceUrl}`)
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS)
+
+    const response = await fetch(sourceUrl, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': 'StCloudScoop-Newsletter/1.0',
+        'Accept': 'image/*',
+        'Cache-Control': 'no-cache',
+        ...headers
+      }
+    })
+
+    clearTimeout(timeoutId)
+
+    if (!response.ok) {
+      console.error(`Failed to download image: HTTP ${response.status} ${response.statusText}`)
+
+      // Log specific error for Facebook URLs
+      if (sourceUrl.includes('fbcdn.net')) {
+        console.error(`Facebook CDN URL failed - likely expired or restricted: ${sourceUrl}`)
+      }
+      return null
+    }
+
+    // raw.githubusercontent.com serves images as application/octet-stream
+    let contentType = response.headers.get('content-type')?.split(';')[0] || ''
+    if (!contentType.startsWith('image/')) {
+      contentType = guessContentType(sourceUrl) || contentType
+    }
+    if (!contentType.startsWith('image/')) {
+      console.error(`Invalid content type for image: ${contentType}`)
+      return null
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer())
+    if (buffer.length > MAX_ASSET_BYTES) {
+      console.error(`Image too large: ${buffer.length} bytes (max 5MB)`)
+      return null
+    }
+
+    return await storeAsset(assetClass, buffer, contentType)
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      console.error(`Image download timeout for: ${sourceUrl}`)
+    } else {
+      console.error(`Error storing image from ${sourceUrl}:`, error)
+    }
+    return null
+  }
+}
+
+function guessContentType(url: string): string | null {
+  const pathname = url.split('?')[0].toLowerCase()
+  if (pathname.endsWith('.jpeg')) return 'image/jpeg'
+  return Object.keys(EXTENSIONS).find(type => pathname.endsWith(EXTENSIONS[type])) || null
+}
+
+/**
+ * True when the URL points at our own object storage
+ */
+export function isStoredAssetUrl(url: string): boolean {
+  return getKeyFromUrl(getObjectStorage(), url) !== null
+}
+
+export async function deleteAssets(keys: string[]): Promise<void> {
+  await getObjectStorage().delete(keys)
+}
+
+/**
+ * Retention per asset class; app_settings storage_retention_days_<class> overrides the default (0 keeps forever)
+ */
+export async function getRetentionPolicies(): Promise<Record<AssetClass, number | null>> {
+  const assetClasses = Object.keys(ASSET_CLASSES) as AssetClass[]
+  const { data } = await supabaseAdmin
+    .from('app_settings')
+    .select('key, value')
+    .in('key', assetClasses.map(assetClass => `storage_retention_days_${assetClass}`))
+
+  const settings = new Map((data || []).map(row => [row.key, row.value]))
+  const policies = {} as Record<AssetClass, number | null>
+
+  for (const assetClass of assetClasses) {
+    const value = settings.get(`storage_retention_days_${assetClass}`)
+    const days = value !== undefined && value !== null && value !== '' ? parseInt(value) : NaN
+    policies[assetClass] = Number.isNaN(days) ? ASSET_CLASSES[assetClass].defaultRetentionDays : (days > 0 ? days : null)
+  }
+
+  return policies
+}
+
+/**
+ * Delete assets older than their class's retention period
+ */
+export async function applyRetentionPolicies(
+  options: { dryRun?: boolean } = {}
+): Promise<Record<AssetClass, { retentionDays: number | null, expired: number }>> {
+  const storage = getObjectStorage()
+  const policies = await getRetentionPolicies()
+  const results = {} as Record<AssetClass, { retentionDays: number | null, expired: number }>
+
+  for (const assetClass of Object.keys(ASSET_CLASSES) as AssetClass[]) {
+    const retentionDays = policies[assetClass]
+    results[assetClass] = { retentionDays, expired: 0 }
+    if (!retentionDays) continue
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000
+    const objects = await storage.list(ASSET_CLASSES[assetClass].prefix)
+    const expired = objects.filter(object => object.lastModified.getTime() < cutoff).map(object => object.key)
+
+    results[assetClass].expired = expired.length
+    if (expired.length > 0 && !options.dryRun) {
+      await storage.delete(expired)
+      console.log(`Deleted ${expired.length} ${assetClass} assets older than ${retentionDays} days`)
+    }
+  }
+
+  return results
+}
@@ -3,6 +3,10 @@ import GoogleProvider from 'next-auth/providers/google'
 import { supabaseAdmin } from '@/lib/supabase'
 import type { User } from '@/types/database'
 import { shouldBypassAuth, getMockSession } from '@/lib/auth-bypass'
+import { DEFAULT_ROLE } from '@/lib/permissions'
+
+// How often a signed-in user's role is re-read, so role changes apply without signing out
+const ROLE_REFRESH_MS = 5 * 60 * 1000
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -73,15 +77,16 @@ export const authOptions: NextAuthOptions = {
                       id: supabaseUserId,
                       email: user.email!,
                       name: user.name,
-                      role: 'reviewer',
+                      role: DEFAULT_ROLE,
                       last_login: new Date().toISOString(),
-                      is_active: true,
+                      // Signing in with Google isn't enough; an admin activates the account in Settings > Users
+                      is_active: false,
                     },
                   ])
 
                 if (error) {
                   console.error('Error creating user in users table:', error.message)
-                  // Don't block login - user will get default permissions
+                  // Don't block login - without a users row the JWT callback leaves the account inactive
                 } else {
                   console.log('Successfully created user in database:', user.email)
                 }
@@ -96,7 +101,7 @@ export const authOptions: NextAuthOptions = {
             }
           } catch (dbError) {
             console.error('Database operations failed (mobile-safe):', dbError)
-            // Continue with login - user will get default permissions from JWT callback
+            // Continue with login - the JWT callback denies access until the users row exists
           }
 
           console.log('Sign-in completed successfully for:', user.email)
@@ -112,6 +117,25 @@ export const authOptions: NextAuthOptions = {
       return true
     },
     async jwt({ token, user }) {
+      if (!user && token.email && (!token.roleCheckedAt || Date.now() - token.roleCheckedAt > ROLE_REFRESH_MS)) {
+        const { data: dbUser, error } = await supabaseAdmin
+          .from('users')
+          .select('role, is_active')
+          .eq('email', token.email)
+          .maybeSingle()
+
+        if (dbUser) {
+          token.role = dbUser.role
+          token.isActive = dbUser.is_active
+          token.roleCheckedAt = Date.now()
+        } else {
+          // Fail closed: deny until the role can be read again, and retry on the next request
+          console.error('Role refresh failed, denying access:', error?.message || 'User not found')
+          token.isActive = false
+          delete token.roleCheckedAt
+        }
+      }
+
       if (user) {
         try {
           // Mobile-safe: Try to fetch user role from database with fallback
@@ -121,23 +145,23 @@ export const authOptions: NextAuthOptions = {
             .from('users')
             .select('role, is_active')
             .eq('email', user.email)
-            .single()
+            .maybeSingle()
 
           if (dbUser && !error) {
             token.role = dbUser.role
             token.isActive = dbUser.is_active
+            token.roleCheckedAt = Date.now()
             console.log('Retrieved role from database:', dbUser.role, 'active:', dbUser.is_active)
           } else {
-            // Mobile-safe fallback: Use default values if database lookup fails
-            console.log('Database lookup failed, using defaults:', error?.message || 'User not found')
-            token.role = 'reviewer'
-            token.isActive = true
+            // Fail closed: no role until the lookup succeeds on a later request
+            console.error('Database lookup failed, denying access:', error?.message || 'User not found')
+            delete token.role
+            token.isActive = false
           }
         } catch (error) {
           console.error('Error fetching user role (mobile-safe):', error)
-          // Mobile-safe fallback
-          token.role = 'reviewer'
-          token.isActive = true
+          delete token.role
+          token.isActive = false
         }
       }
       return token
@@ -0,0 +1,170 @@
+// Cron Expressions
+// Standard five-field cron (minute hour day-of-month month day-of-week) used for job schedules.
+// Expressions are evaluated against Central Time calendar dates and wall-clock times.
+// Supports *, lists, ranges, steps and names, e.g. "30 20 * * SUN-THU" or "*/15 6-9 * * 1,3,5".
+// Safe to import from client components.
+
+import { getDayOfWeek } from './newsletter-calendar'
+
+export interface CronExpression {
+  source: string
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: number[]
+  months: number[]
+  daysOfWeek: number[]
+  // When both day fields are restricted a date matches if either one does (standard cron behavior)
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+export interface CronTime {
+  hours: number
+  minutes: number
+}
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CronExpressionError'
+  }
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  // Names for min, min + 1, ...
+  names?: string[]
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as a second Sunday
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES }
+]
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const nameIndex = spec.names ? spec.names.indexOf(value.toUpperCase()) : -1
+  const number = nameIndex >= 0 ? spec.min + nameIndex : Number(value)
+
+  if (!/^\d+$/.test(value) && nameIndex < 0) {
+    throw new CronExpressionError(`Invalid ${spec.name} "${value}"`)
+  }
+  if (number < spec.min || number > spec.max) {
+    throw new CronExpressionError(`${spec.name} ${value} is out of range (${spec.min}-${spec.max})`)
+  }
+  return number
+}
+
+function parseField(field: string, spec: FieldSpec): number[] {
+  const values: number[] = []
+
+  for (const part of field.split(',')) {
+    const [range, stepValue, ...extra] = part.split('/')
+    if (!range || extra.length > 0) {
+      throw new CronExpressionError(`Invalid ${spec.name} "${part}"`)
+    }
+
+    const step = stepValue === undefined ? 1 : Number(stepValue)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronExpressionError(`Invalid step "${stepValue}" in ${spec.name}`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = spec.min
+      end = spec.max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = parseValue(from, spec)
+      end = parseValue(to, spec)
+      if (start > end) {
+        throw new CronExpressionError(`Invalid ${spec.name} range "${range}"`)
+      }
+    } else {
+      start = parseValue(range, spec)
+      // "5/15" means every 15 starting at 5
+      end = stepValue === undefined ? start : spec.max
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.push(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a five-field cron expression. Throws CronExpressionError with a readable message.
+ */
+export function parseCronExpression(source: string): CronExpression {
+  const fields = source.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new CronExpressionError('Expected 5 fields: minute hour day-of-month month day-of-week')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => {
+    const values = parseField(field, FIELDS[i])
+    return values.filter((value, index) => values.indexOf(value) === index).sort((a, b) => a - b)
+  })
+
+  return {
+    source: fields.join(' '),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: daysOfWeek.map(day => day % 7),
+    dayOfMonthRestricted: fields[2].charAt(0) !== '*',
+    dayOfWeekRestricted: fields[4].charAt(0) !== '*'
+  }
+}
+
+/**
+ * The error message for an invalid expression, or null if it's valid
+ */
+export function validateCronExpression(source: string): string | null {
+  try {
+    parseCronExpression(source)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression'
+  }
+}
+
+export function cronMatchesDate(cron: CronExpression, date: string): boolean {
+  const [, month, day] = date.split('-').map(Number)
+  if (!cron.months.includes(month)) return false
+
+  const dayOfMonthMatches = cron.daysOfMonth.includes(day)
+  const dayOfWeekMatches = cron.daysOfWeek.includes(getDayOfWeek(date))
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches
+  }
+  return dayOfMonthMatches && dayOfWeekMatches
+}
+
+/**
+ * Wall-clock times the expression fires on a calendar date, earliest first
+ */
+export function getCronTimesOnDate(cron: CronExpression, date: string): CronTime[] {
+  if (!cronMatchesDate(cron, date)) return []
+
+  const times: CronTime[] = []
+  for (const hours of cron.hours) {
+    for (const minutes of cron.minutes) {
+      times.push({ hours, minutes })
+    }
+  }
+  return times
+}
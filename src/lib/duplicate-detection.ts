@@ -0,0 +1,338 @@
+// Duplicate Detection
+// Groups same-story posts within a campaign by embedding similarity and flags posts
+// whose story already ran in a recent newsletter (sent articles and archived_articles).
+
+import crypto from 'crypto'
+import { supabaseAdmin } from './supabase'
+import { embedTexts, getModelForPrompt } from './llm'
+
+type EmbeddingSourceType = 'post' | 'archived_post'
+
+interface EmbeddingSource {
+  sourceType: EmbeddingSourceType
+  sourceId: string
+  text: string
+}
+
+export interface DedupePost {
+  id: string
+  title: string
+  description: string | null
+  score: number | null
+}
+
+export interface DuplicateGroupCandidate {
+  primaryPostId: string
+  topicSignature: string
+  duplicates: { postId: string, similarity: number }[]
+}
+
+export interface HistoryMatchCandidate {
+  postId: string
+  matchedSource: 'article' | 'archived_article'
+  matchedArticleId: string
+  matchedCampaignId: string | null
+  matchedCampaignDate: string | null
+  matchedHeadline: string | null
+  similarity: number
+}
+
+interface RecentStory {
+  source: EmbeddingSource
+  matchedSource: 'article' | 'archived_article'
+  articleId: string
+  campaignId: string | null
+  campaignDate: string | null
+  headline: string | null
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.85
+const DEFAULT_LOOKBACK_DAYS = 7
+// Keeps .in() filters well under URL length limits
+const ID_CHUNK_SIZE = 200
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+const storyText = (title: string, description: string | null) =>
+  `${title}\n${description || ''}`.trim().substring(0, 2000)
+
+const hashText = (text: string) => crypto.createHash('sha256').update(text).digest('hex')
+
+// duplicate_posts.similarity_score is DECIMAL(3,2)
+const roundScore = (score: number) => Math.round(score * 100) / 100
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  if (normA === 0 || normB === 0) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+export async function getDedupeSettings(): Promise<{ threshold: number, lookbackDays: number }> {
+  const { data } = await supabaseAdmin
+    .from('app_settings')
+    .select('key, value')
+    .in('key', ['dedupe_similarity_threshold', 'dedupe_lookback_days'])
+
+  const settings = new Map((data || []).map(row => [row.key, row.value]))
+  const threshold = parseFloat(settings.get('dedupe_similarity_threshold') || '')
+  const lookbackDays = parseInt(settings.get('dedupe_lookback_days') || '')
+
+  return {
+    threshold: threshold > 0 && threshold <= 1 ? threshold : DEFAULT_SIMILARITY_THRESHOLD,
+    lookbackDays: lookbackDays >= 0 ? lookbackDays : DEFAULT_LOOKBACK_DAYS
+  }
+}
+
+/**
+ * Embeddings keyed by source id, reusing cached vectors whose text hasn't changed
+ */
+async function getEmbeddings(sources: EmbeddingSource[]): Promise<Map<string, number[]>> {
+  const result = new Map<string, number[]>()
+  if (sources.length === 0) return result
+
+  const selection = await getModelForPrompt('embeddings')
+  const model = `${selection.provider}:${selection.model}`
+  const hashes = new Map(sources.map(source => [source.sourceId, hashText(source.text)]))
+
+  for (const sourceType of ['post', 'archived_post'] as EmbeddingSourceType[]) {
+    const ids = sources.filter(s => s.sourceType === sourceType).map(s => s.sourceId)
+    for (const idChunk of chunk(ids, ID_CHUNK_SIZE)) {
+      const { data } = await supabaseAdmin
+        .from('content_embeddings')
+        .select('source_id, text_hash, embedding')
+        .eq('source_type', sourceType)
+        .eq('model', model)
+        .in('source_id', idChunk)
+
+      for (const row of data || []) {
+        if (row.text_hash === hashes.get(row.source_id)) {
+          result.set(row.source_id, row.embedding)
+        }
+      }
+    }
+  }
+
+  const missing = sources.filter(source => !result.has(source.sourceId))
+  if (missing.length === 0) return result
+
+  console.log(`Embedding ${missing.length} texts (${sources.length - missing.length} cached)`)
+  const { embeddings } = await embedTexts(missing.map(source => source.text))
+
+  const rows = missing.map((source, index) => {
+    result.set(source.sourceId, embeddings[index])
+    return {
+      source_type: source.sourceType,
+      source_id: source.sourceId,
+      model,
+      text_hash: hashes.get(source.sourceId),
+      embedding: embeddings[index]
+    }
+  })
+
+  for (const rowChunk of chunk(rows, ID_CHUNK_SIZE)) {
+    const { error } = await supabaseAdmin
+      .from('content_embeddings')
+      .upsert(rowChunk, { onConflict: 'source_type,source_id,model' })
+
+    // The cache is an optimisation; detection still works without it
+    if (error) {
+      console.error('Failed to cache embeddings:', error.message)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Group posts about the same story. The highest-rated post in each group is the primary.
+ */
+export async function findDuplicateGroups(posts: DedupePost[], threshold: number): Promise<DuplicateGroupCandidate[]> {
+  if (posts.length < 2) return []
+
+  const embeddings = await getEmbeddings(posts.map(post => ({
+    sourceType: 'post',
+    sourceId: post.id,
+    text: storyText(post.title, post.description)
+  })))
+
+  const ordered = [...posts].sort((a, b) => (b.score || 0) - (a.score || 0))
+  const assigned = new Set<string>()
+  const groups: DuplicateGroupCandidate[] = []
+
+  for (const primary of ordered) {
+    if (assigned.has(primary.id)) continue
+    const primaryEmbedding = embeddings.get(primary.id)
+    if (!primaryEmbedding) continue
+
+    const duplicates: DuplicateGroupCandidate['duplicates'] = []
+    for (const candidate of ordered) {
+      if (candidate.id === primary.id || assigned.has(candidate.id)) continue
+      const candidateEmbedding = embeddings.get(candidate.id)
+      if (!candidateEmbedding) continue
+
+      const similarity = cosineSimilarity(primaryEmbedding, candidateEmbedding)
+      if (similarity >= threshold) {
+        duplicates.push({ postId: candidate.id, similarity: roundScore(similarity) })
+      }
+    }
+
+    if (duplicates.length > 0) {
+      assigned.add(primary.id)
+      duplicates.forEach(d => assigned.add(d.postId))
+      groups.push({
+        primaryPostId: primary.id,
+        topicSignature: primary.title.substring(0, 100),
+        duplicates
+      })
+    }
+  }
+
+  return groups
+}
+
+/**
+ * Stories selected for newsletters in the last lookbackDays, other than this campaign's
+ */
+async function getRecentStories(campaignId: string, lookbackDays: number): Promise<RecentStory[]> {
+  const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+  const stories: RecentStory[] = []
+
+  // Sent campaigns whose articles are still live
+  const { data: sentArticles, error: sentError } = await supabaseAdmin
+    .from('articles')
+    .select(`
+      id,
+      headline,
+      campaign:newsletter_campaigns!inner(id, date, status),
+      rss_post:rss_posts(id, title, description)
+    `)
+    .eq('is_active', true)
+    .eq('campaign.status', 'sent')
+    .gte('campaign.date', since)
+    .neq('campaign_id', campaignId)
+
+  if (sentError) {
+    throw new Error(`Failed to fetch recent articles: ${sentError.message}`)
+  }
+
+  const seenArticleIds = new Set<string>()
+  for (const article of (sentArticles || []) as any[]) {
+    if (!article.rss_post) continue
+    seenArticleIds.add(article.id)
+    stories.push({
+      source: { sourceType: 'post', sourceId: article.rss_post.id, text: storyText(article.rss_post.title, article.rss_post.description) },
+      matchedSource: 'article',
+      articleId: article.id,
+      campaignId: article.campaign?.id || null,
+      campaignDate: article.campaign?.date || null,
+      headline: article.headline
+    })
+  }
+
+  // Archived articles that were selected for their newsletter
+  const { data: archivedArticles, error: archivedError } = await supabaseAdmin
+    .from('archived_articles')
+    .select('id, original_article_id, post_id, campaign_id, campaign_date, headline')
+    .eq('is_active', true)
+    .gte('campaign_date', since)
+    .neq('campaign_id', campaignId)
+
+  if (archivedError) {
+    throw new Error(`Failed to fetch archived articles: ${archivedError.message}`)
+  }
+
+  const archived = (archivedArticles || []).filter(a => a.post_id && !seenArticleIds.has(a.original_article_id))
+  const archivedPosts = new Map<string, { id: string, title: string, description: string | null }>()
+  for (const postIds of chunk(archived.map(a => a.post_id as string), ID_CHUNK_SIZE)) {
+    const { data } = await supabaseAdmin
+      .from('archived_rss_posts')
+      .select('id, original_post_id, title, description')
+      .in('original_post_id', postIds)
+
+    for (const post of data || []) {
+      if (!archivedPosts.has(post.original_post_id)) {
+        archivedPosts.set(post.original_post_id, post)
+      }
+    }
+  }
+
+  for (const article of archived) {
+    const post = archivedPosts.get(article.post_id as string)
+    if (!post) continue
+    stories.push({
+      source: { sourceType: 'archived_post', sourceId: post.id, text: storyText(post.title, post.description) },
+      matchedSource: 'archived_article',
+      articleId: article.id,
+      campaignId: article.campaign_id,
+      campaignDate: article.campaign_date,
+      headline: article.headline
+    })
+  }
+
+  return stories
+}
+
+/**
+ * Best match for each post among stories that already ran, if it clears the threshold
+ */
+export async function findHistoryMatches(
+  campaignId: string,
+  posts: DedupePost[],
+  threshold: number,
+  lookbackDays: number
+): Promise<HistoryMatchCandidate[]> {
+  if (posts.length === 0 || lookbackDays === 0) return []
+
+  const stories = await getRecentStories(campaignId, lookbackDays)
+  if (stories.length === 0) return []
+
+  const postSources: EmbeddingSource[] = posts.map(post => ({
+    sourceType: 'post',
+    sourceId: post.id,
+    text: storyText(post.title, post.description)
+  }))
+  const embeddings = await getEmbeddings([...postSources, ...stories.map(story => story.source)])
+
+  const matches: HistoryMatchCandidate[] = []
+  for (const post of posts) {
+    const postEmbedding = embeddings.get(post.id)
+    if (!postEmbedding) continue
+
+    let best: { story: RecentStory, similarity: number } | null = null
+    for (const story of stories) {
+      const storyEmbedding = embeddings.get(story.source.sourceId)
+      if (!storyEmbedding) continue
+      const similarity = cosineSimilarity(postEmbedding, storyEmbedding)
+      if (!best || similarity > best.similarity) {
+        best = { story, similarity }
+      }
+    }
+
+    if (best && best.similarity >= threshold) {
+      matches.push({
+        postId: post.id,
+        matchedSource: best.story.matchedSource,
+        matchedArticleId: best.story.articleId,
+        matchedCampaignId: best.story.campaignId,
+        matchedCampaignDate: best.story.campaignDate,
+        matchedHeadline: best.story.headline,
+        similarity: roundScore(best.similarity)
+      })
+    }
+  }
+
+  return matches
+}
@@ -0,0 +1,358 @@
+// Email Templates
+// Named templates for the transactional emails sent to event submitters and advertisers.
+// Subjects and bodies use {{variable}} placeholders, which are HTML-escaped in the body, and
+// {{#variable}}...{{/variable}} blocks that only render when the variable has a value.
+
+import { formatCalendarDate, toCentralWallClock, type CentralTime } from './newsletter-calendar'
+
+export type EmailTemplateName =
+  | 'event_approved'
+  | 'event_rejected'
+  | 'ad_approved'
+  | 'ad_rejected'
+  | 'ad_payment_receipt'
+  | 'ad_runs_tomorrow'
+  | 'advertiser_portal_link'
+
+export type EmailVariables = Record<string, string | number | null | undefined>
+
+export interface EmailTemplate {
+  label: string
+  description: string
+  subject: string
+  heading: string
+  headerColor: string
+  body: string
+  required: string[]
+  // Used by the preview page
+  sample: EmailVariables
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+}
+
+export class EmailTemplateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmailTemplateError'
+  }
+}
+
+const GREEN = '#22c55e'
+const RED = '#ef4444'
+const BLUE = '#2563eb'
+
+const SITE_NAME = 'St. Cloud Scoop'
+const SITE_URL = 'https://stcscoop.com'
+
+const SIGN_OFF = '<p>Best regards,<br>The St. Cloud Scoop Team</p>'
+
+const PORTAL_BUTTON = '<p style="text-align: center;"><a href="{{portal_url}}" class="button">Open Advertiser Portal</a></p>'
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateName, EmailTemplate> = {
+  event_approved: {
+    label: 'Event approved',
+    description: 'Sent to the submitter when an event submission is approved',
+    subject: '✅ Your Event "{{event_title}}" Has Been Approved',
+    heading: '✅ Event Approved!',
+    headerColor: GREEN,
+    body: `
+      <p>Hi {{submitter_name}},</p>
+      <p>Great news! Your event submission has been approved and is now live on St. Cloud Scoop.</p>
+
+      <div class="details">
+        <h2 style="margin-top: 0; color: #1f2937;">{{event_title}}</h2>
+        <div class="detail-row"><span class="label">Date & Time:</span><br>{{event_when}}</div>
+        {{#venue}}<div class="detail-row"><span class="label">Venue:</span><br>{{venue}}</div>{{/venue}}
+        {{#address}}<div class="detail-row"><span class="label">Address:</span><br>{{address}}</div>{{/address}}
+        {{#description}}<div class="detail-row"><span class="label">Description:</span><br>{{description}}</div>{{/description}}
+        {{#website}}<div class="detail-row"><span class="label">Website:</span><br><a href="{{website}}" style="color: #2563eb;">{{website}}</a></div>{{/website}}
+      </div>
+
+      <p>Thank you for helping keep the St. Cloud community informed!</p>
+      ${SIGN_OFF}`,
+    required: ['submitter_name', 'event_title', 'event_when'],
+    sample: {
+      submitter_name: 'Jordan Smith',
+      event_title: 'Lake George Summer Concert',
+      event_when: 'Saturday, June 20, 2026, 7:00 PM - 9:00 PM',
+      venue: 'Lake George',
+      address: '1101 7th St S, St. Cloud, MN',
+      description: 'Live music by the lake. Bring a blanket!',
+      website: 'https://example.com/concert'
+    }
+  },
+
+  event_rejected: {
+    label: 'Event rejected',
+    description: 'Sent to the submitter when an event submission is rejected',
+    subject: 'Event Submission Update: "{{event_title}}"',
+    heading: 'Event Submission Update',
+    headerColor: RED,
+    body: `
+      <p>Hi {{submitter_name}},</p>
+      <p>Thank you for submitting your event to St. Cloud Scoop. After reviewing your submission, we're unable to approve it at this time.</p>
+
+      <div class="details">
+        <h2 style="margin-top: 0; color: #1f2937;">{{event_title}}</h2>
+        {{#description}}<p>{{description}}</p>{{/description}}
+      </div>
+
+      {{#reason}}<div class="reason-box"><strong>Reason:</strong><br>{{reason}}</div>{{/reason}}
+
+      <p>If you have questions or would like to resubmit with changes, please feel free to reach out to us.</p>
+      ${SIGN_OFF}`,
+    required: ['submitter_name', 'event_title'],
+    sample: {
+      submitter_name: 'Jordan Smith',
+      event_title: 'Lake George Summer Concert',
+      description: 'Live music by the lake. Bring a blanket!',
+      reason: 'The event is outside our coverage area.'
+    }
+  },
+
+  ad_approved: {
+    label: 'Ad approved',
+    description: 'Sent to the advertiser when their ad is approved',
+    subject: '✅ Your Ad "{{ad_title}}" Has Been Approved',
+    heading: '✅ Ad Approved!',
+    headerColor: GREEN,
+    body: `
+      <p>Hi {{contact_name}},</p>
+      <p>Great news! Your Community Business Spotlight has been approved and will be added to the St. Cloud Scoop newsletter rotation.</p>
+
+      <div class="details">
+        <h2 style="margin-top: 0; color: #1f2937;">{{ad_title}}</h2>
+        <p style="margin-bottom: 0;">{{business_name}} · {{times_paid}} appearance(s) purchased</p>
+      </div>
+
+      <p>You can check when your ad runs, see how many readers clicked through, update your copy and buy more runs in the advertiser portal:</p>
+      ${PORTAL_BUTTON}
+      ${SIGN_OFF}`,
+    required: ['contact_name', 'ad_title', 'business_name', 'times_paid', 'portal_url'],
+    sample: {
+      contact_name: 'Alex Rivera',
+      ad_title: 'Fresh Bread Every Morning',
+      business_name: 'Granite City Bakery',
+      times_paid: 4,
+      portal_url: `${SITE_URL}/ads/portal`
+    }
+  },
+
+  ad_rejected: {
+    label: 'Ad rejected',
+    description: 'Sent to the advertiser when their ad needs changes before it can run',
+    subject: 'Advertisement Update: "{{ad_title}}"',
+    heading: 'Advertisement Update',
+    headerColor: RED,
+    body: `
+      <p>Hi {{contact_name}},</p>
+      <p>Thank you for advertising with St. Cloud Scoop. After reviewing your ad, we need a few changes before it can run.</p>
+
+      <div class="details">
+        <h2 style="margin-top: 0; color: #1f2937;">{{ad_title}}</h2>
+        <p style="margin-bottom: 0;">{{business_name}}</p>
+      </div>
+
+      <div class="reason-box"><strong>Reason:</strong><br>{{reason}}</div>
+
+      <p>You can edit your ad and send it back for review in the advertiser portal:</p>
+      ${PORTAL_BUTTON}
+      ${SIGN_OFF}`,
+    required: ['contact_name', 'ad_title', 'business_name', 'reason', 'portal_url'],
+    sample: {
+      contact_name: 'Alex Rivera',
+      ad_title: 'Fresh Bread Every Morning',
+      business_name: 'Granite City Bakery',
+      reason: 'Please shorten the copy to 100 words or fewer.',
+      portal_url: `${SITE_URL}/ads/portal`
+    }
+  },
+
+  ad_payment_receipt: {
+    label: 'Ad payment receipt',
+    description: 'Sent to the advertiser when a new ad or additional runs are paid for',
+    subject: 'Receipt for your St. Cloud Scoop ad: {{amount}}',
+    heading: 'Payment Received',
+    headerColor: BLUE,
+    body: `
+      <p>Hi {{contact_name}},</p>
+      <p>Thank you! We've received your payment for the Community Business Spotlight below.</p>
+
+      <div class="details">
+        <h2 style="margin-top: 0; color: #1f2937;">{{ad_title}}</h2>
+        <div class="detail-row"><span class="label">Business:</span> {{business_name}}</div>
+        <div class="detail-row"><span class="label">Purchased:</span> {{item}}</div>
+        {{#discount}}<div class="detail-row"><span class="label">Discounts:</span> {{discount}}</div>{{/discount}}
+        <div class="detail-row"><span class="label">Amount paid:</span> {{amount}}</div>
+        <div class="detail-row"><span class="label">Payment reference:</span> {{payment_reference}}</div>
+      </div>
+
+      {{#needs_review}}<p>Our team will review your ad shortly and email you once it's approved.</p>{{/needs_review}}
+      <p>You can follow your ad and buy more runs in the advertiser portal:</p>
+      ${PORTAL_BUTTON}
+      ${SIGN_OFF}`,
+    required: ['contact_name', 'ad_title', 'business_name', 'item', 'amount', 'payment_reference', 'portal_url'],
+    sample: {
+      contact_name: 'Alex Rivera',
+      ad_title: 'Fresh Bread Every Morning',
+      business_name: 'Granite City Bakery',
+      item: '4 × weekly run',
+      discount: 'Multi-run discount −$10.00',
+      amount: '$190.00',
+      payment_reference: 'cs_test_a1b2c3',
+      needs_review: 'yes',
+      portal_url: `${SITE_URL}/ads/portal`
+    }
+  },
+
+  ad_runs_tomorrow: {
+    label: 'Ad runs tomorrow',
+    description: 'Sent to the advertiser the day before their ad appears in the newsletter',
+    subject: 'Your ad runs tomorrow in {{publication_name}}',
+    heading: 'Your Ad Runs Tomorrow',
+    headerColor: BLUE,
+    body: `
+      <p>Hi {{contact_name}},</p>
+      <p>Your Community Business Spotlight is scheduled for the {{run_date}} issue of {{publication_name}}.</p>
+
+      <div class="details">
+        <h2 style="margin-top: 0; color: #1f2937;">{{ad_title}}</h2>
+        <p style="margin-bottom: 0;">{{business_name}} · run {{run_number}} of {{times_paid}}</p>
+      </div>
+
+      <p>After it goes out you can see how many readers clicked through in the advertiser portal:</p>
+      ${PORTAL_BUTTON}
+      ${SIGN_OFF}`,
+    required: ['contact_name', 'ad_title', 'business_name', 'run_date', 'run_number', 'times_paid', 'publication_name', 'portal_url'],
+    sample: {
+      contact_name: 'Alex Rivera',
+      ad_title: 'Fresh Bread Every Morning',
+      business_name: 'Granite City Bakery',
+      run_date: 'Tuesday, June 16',
+      run_number: 2,
+      times_paid: 4,
+      publication_name: SITE_NAME,
+      portal_url: `${SITE_URL}/ads/portal`
+    }
+  },
+
+  advertiser_portal_link: {
+    label: 'Advertiser portal sign-in',
+    description: 'One-time sign-in link for the advertiser portal',
+    subject: 'Your St. Cloud Scoop advertiser portal link',
+    heading: 'Advertiser Portal Sign-In',
+    headerColor: BLUE,
+    body: `
+      <p>Use the button below to sign in to the St. Cloud Scoop advertiser portal.</p>
+
+      <p style="text-align: center;"><a href="{{sign_in_url}}" class="button">Sign In</a></p>
+
+      <p>The link works once and expires in {{expires_in_minutes}} minutes. If you didn't ask to sign in, you can ignore this email.</p>
+      ${SIGN_OFF}`,
+    required: ['sign_in_url', 'expires_in_minutes'],
+    sample: {
+      sign_in_url: `${SITE_URL}/api/ads/portal/verify?token=sample`,
+      expires_in_minutes: 30
+    }
+  }
+}
+
+export function isEmailTemplateName(name: unknown): name is EmailTemplateName {
+  return typeof name === 'string' && name in EMAIL_TEMPLATES
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const hasValue = (value: EmailVariables[string]) => value !== null && value !== undefined && String(value).trim() !== ''
+
+function substitute(text: string, variables: EmailVariables, escape: boolean): string {
+  return text
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, inner: string) =>
+      hasValue(variables[name]) ? inner : ''
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+      const value = hasValue(variables[name]) ? String(variables[name]) : ''
+      return escape ? escapeHtml(value) : value
+    })
+}
+
+function layout(template: EmailTemplate, body: string): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: ${template.headerColor}; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+    .details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .detail-row { margin: 10px 0; }
+    .label { font-weight: bold; color: #4b5563; }
+    .reason-box { background: #fef2f2; border-left: 4px solid #ef4444; padding: 15px; margin: 20px 0; }
+    .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; }
+    .footer { text-align: center; color: #6b7280; margin-top: 20px; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1 style="margin: 0;">${template.heading}</h1>
+    </div>
+    <div class="content">
+      ${body.trim()}
+
+      <div class="footer">
+        <p>${SITE_NAME} | <a href="${SITE_URL}">${SITE_URL.replace('https://', '')}</a></p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`
+}
+
+/**
+ * Fill in a template. Throws EmailTemplateError when a required variable is missing.
+ */
+export function renderEmailTemplate(name: EmailTemplateName, variables: EmailVariables): RenderedEmail {
+  const template = EMAIL_TEMPLATES[name]
+  if (!template) {
+    throw new EmailTemplateError(`Unknown email template: ${name}`)
+  }
+
+  const missing = template.required.filter(key => !hasValue(variables[key]))
+  if (missing.length > 0) {
+    throw new EmailTemplateError(`Missing variables for ${name}: ${missing.join(', ')}`)
+  }
+
+  return {
+    subject: substitute(template.subject, variables, false),
+    html: layout(template, substitute(template.body, variables, true))
+  }
+}
+
+const formatClock = (time: CentralTime) => {
+  const hour = time.hours % 12 || 12
+  return `${hour}:${time.minutes.toString().padStart(2, '0')} ${time.hours < 12 ? 'AM' : 'PM'}`
+}
+
+/**
+ * e.g. "Saturday, June 20, 2026, 7:00 PM - 9:00 PM" for the event_when variable
+ */
+export function formatEventWhen(startDate: string, endDate: string | null): string {
+  const start = toCentralWallClock(startDate)
+  const day = formatCalendarDate(start.date, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+  const when = `${day}, ${formatClock(start)}`
+  return endDate ? `${when} - ${formatClock(toCentralWallClock(endDate))}` : when
+}
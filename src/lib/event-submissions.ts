@@ -0,0 +1,96 @@
+// Event Submissions
+// Saves public event submissions that don't go through Stripe: free listings, and promotions
+// a discount code or the nonprofit rate brings to $0. Paid carts are saved by the Stripe webhook.
+
+import { supabaseAdmin } from './supabase'
+import { SlackNotificationService } from './slack'
+import { formatCents, getNonprofitRateEin, redeemDiscountCode, withPricedPlacement } from './pricing'
+import type { PricingQuote } from '@/types/database'
+
+/**
+ * Insert the events of a cart whose quote came to $0, redeem its discount code and let the team know
+ */
+export async function saveUnpaidEventSubmissions(events: any[], quote: PricingQuote): Promise<any[]> {
+  // Held for review until someone verifies the organization behind the EIN
+  const nonprofitEin = getNonprofitRateEin(quote)
+
+  const insertedEvents = []
+
+  // Insert each event, flagged only with the placement it was priced at
+  for (const event of events.map(withPricedPlacement)) {
+    console.log('Inserting event:', event)
+
+    // Generate external_id for user-submitted events
+    const external_id = `user_${Date.now()}_${Math.random().toString(36).substring(7)}`
+
+    const { data, error } = await supabaseAdmin
+      .from('events')
+      .insert([{
+        external_id,
+        title: event.title,
+        description: event.description,
+        start_date: event.start_date,
+        end_date: event.end_date,
+        venue: event.venue,
+        address: event.address,
+        url: event.url,
+        image_url: event.cropped_image_url,
+        original_image_url: event.original_image_url,
+        cropped_image_url: event.cropped_image_url,
+        submitter_name: event.submitter_name,
+        submitter_email: event.submitter_email,
+        submitter_phone: event.submitter_phone,
+        submission_status: nonprofitEin ? 'pending' : event.submission_status || 'pending',
+        paid_placement: event.paid_placement,
+        featured: event.featured,
+        active: nonprofitEin ? false : event.active !== false,
+        nonprofit_ein: nonprofitEin,
+        payment_status: event.paid_placement || event.featured ? 'not_required' : null,
+        payment_intent_id: null,
+        payment_amount: event.paid_placement || event.featured ? 0 : null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting event:', error)
+      console.error('Event data that failed:', event)
+      throw new Error(`Database error: ${error.message} (${error.code})`)
+    }
+
+    insertedEvents.push(data)
+  }
+
+  if (quote.discount_code) {
+    await redeemDiscountCode(quote.discount_code)
+  }
+
+  // Send Slack notification for new submissions
+  const submitter = events[0]
+  const eventTitles = events.map((e: any) => e.title).join('\n  • ')
+
+  const slack = new SlackNotificationService()
+  const message = [
+    `🎉 New Event Submission${events.length > 1 ? 's' : ''}!`,
+    ``,
+    `Submitted by: ${submitter.submitter_name}`,
+    `Email: ${submitter.submitter_email}`,
+    submitter.submitter_phone ? `Phone: ${submitter.submitter_phone}` : '',
+    ``,
+    quote.lines.length > 0
+      ? `Promotions: ${formatCents(quote.subtotal)} covered by ${quote.adjustments.map(a => a.label).join(', ')}`
+      : `Total Amount: Free Listing`,
+    nonprofitEin ? `Held for review: verify nonprofit EIN ${nonprofitEin} before approving` : '',
+    ``,
+    `Event${events.length > 1 ? 's' : ''} (${events.length}):`,
+    `  • ${eventTitles}`,
+    ``,
+    `Review: ${process.env.NEXT_PUBLIC_URL || 'https://st-cloud-scoop.vercel.app'}/dashboard/events/review`
+  ].filter(Boolean).join('\n')
+
+  await slack.sendSimpleMessage(message)
+
+  return insertedEvents
+}
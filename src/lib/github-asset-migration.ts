@@ -0,0 +1,237 @@
+// GitHub Asset Migration
+// Moves images that used to be committed to the GITHUB_OWNER/GITHUB_REPO images repo into
+// object storage and rewrites every stored reference (URL columns and archived newsletter HTML).
+// Runs in batches from the admin console; rerunning is safe because assets are stored by content hash.
+
+import { supabaseAdmin } from './supabase'
+import { storeRemoteAsset, type AssetClass } from './asset-storage'
+
+interface AssetReference {
+  table: string
+  column: string
+  // Column holding the storage key alongside the URL
+  keyColumn?: string
+}
+
+const URL_REFERENCES: AssetReference[] = [
+  { table: 'rss_posts', column: 'image_url' },
+  { table: 'archived_rss_posts', column: 'image_url' },
+  { table: 'manual_articles', column: 'image_url' },
+  { table: 'weather_forecasts', column: 'image_url' },
+  { table: 'vrbo_listings', column: 'adjusted_image_url' },
+  { table: 'images', column: 'variant_16x9_url', keyColumn: 'variant_16x9_key' },
+  { table: 'events', column: 'image_url' },
+  { table: 'events', column: 'cropped_image_url' },
+  { table: 'advertisements', column: 'image_url' }
+]
+
+// Sent newsletters embed image URLs in their HTML
+const HTML_REFERENCES: AssetReference[] = [
+  { table: 'newsletter_archives', column: 'html_content' },
+  { table: 'weather_forecasts', column: 'html_content' }
+]
+
+export interface GitHubMigrationResult {
+  found: number
+  // to is null in a dry run
+  migrated: { from: string, to: string | null, assetClass: AssetClass }[]
+  failed: { url: string, error: string }[]
+  rowsUpdated: Record<string, number>
+  remaining: number
+}
+
+function getRepo() {
+  const owner = process.env.GITHUB_OWNER
+  const repo = process.env.GITHUB_REPO
+  if (!owner || !repo) {
+    throw new Error('GITHUB_OWNER and GITHUB_REPO must name the images repository to migrate from')
+  }
+  return { owner, repo }
+}
+
+/**
+ * URL prefixes the images repo has been served from
+ */
+function getLegacyPrefixes(): string[] {
+  const { owner, repo } = getRepo()
+  return [
+    `https://raw.githubusercontent.com/${owner}/${repo}/`,
+    `https://github.com/${owner}/${repo}/raw/`,
+    `https://cdn.jsdelivr.net/gh/${owner}/${repo}@`
+  ]
+}
+
+/**
+ * Path inside the repo, e.g. weather-images/weather-2025-01-01.png
+ */
+function getRepoPath(url: string): string | null {
+  const prefix = getLegacyPrefixes().find(p => url.startsWith(p))
+  if (!prefix) return null
+  // Drop the branch segment: main/..., refs/heads/main/... or main/... after the @
+  const rest = url.slice(prefix.length).split('?')[0].replace(/^refs\/heads\//, '')
+  return rest.split('/').slice(1).join('/')
+}
+
+function getAssetClass(repoPath: string): AssetClass {
+  if (repoPath.startsWith('weather-images/')) return 'weather_image'
+  if (repoPath.startsWith('newsletter-images/vrbo-')) return 'vrbo_image'
+  if (repoPath.startsWith('advertisements/')) return 'ad_image'
+  if (repoPath.startsWith('images/library/1200x675/')) return 'library_variant'
+  if (repoPath.startsWith('images/library/')) return 'event_image'
+  return 'article_image'
+}
+
+function extractLegacyUrls(text: string, prefixes: string[]): string[] {
+  const urls: string[] = []
+  for (const prefix of prefixes) {
+    const pattern = new RegExp(`${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[^"'\\s)<>]+`, 'g')
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      urls.push(match[0])
+    }
+  }
+  return urls
+}
+
+// Values are quoted because URLs contain PostgREST's reserved characters (. and :)
+const likeFilter = (column: string, prefixes: string[]) =>
+  prefixes.map(prefix => `${column}.like."${prefix}*"`).join(',')
+
+const containsFilter = (column: string, prefixes: string[]) =>
+  prefixes.map(prefix => `${column}.like."*${prefix}*"`).join(',')
+
+/**
+ * Every GitHub-hosted URL still referenced in the database
+ */
+async function findLegacyUrls(): Promise<Set<string>> {
+  const prefixes = getLegacyPrefixes()
+  const urls = new Set<string>()
+
+  for (const reference of URL_REFERENCES) {
+    const { data, error } = await supabaseAdmin
+      .from(reference.table)
+      .select(reference.column)
+      .or(likeFilter(reference.column, prefixes))
+
+    if (error) {
+      throw new Error(`Failed to scan ${reference.table}.${reference.column}: ${error.message}`)
+    }
+    for (const row of (data || []) as any[]) {
+      urls.add(row[reference.column])
+    }
+  }
+
+  for (const reference of HTML_REFERENCES) {
+    const { data, error } = await supabaseAdmin
+      .from(reference.table)
+      .select(reference.column)
+      .or(containsFilter(reference.column, prefixes))
+
+    if (error) {
+      throw new Error(`Failed to scan ${reference.table}.${reference.column}: ${error.message}`)
+    }
+    for (const row of (data || []) as any[]) {
+      extractLegacyUrls(row[reference.column] || '', prefixes).forEach(url => urls.add(url))
+    }
+  }
+
+  return urls
+}
+
+/**
+ * Point every reference to a migrated URL at its new location
+ */
+async function rewriteReferences(from: string, to: string, key: string, rowsUpdated: Record<string, number>) {
+  for (const reference of URL_REFERENCES) {
+    const update: Record<string, string> = { [reference.column]: to }
+    if (reference.keyColumn) {
+      update[reference.keyColumn] = key
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(reference.table)
+      .update(update)
+      .eq(reference.column, from)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to update ${reference.table}.${reference.column}: ${error.message}`)
+    }
+    const label = `${reference.table}.${reference.column}`
+    rowsUpdated[label] = (rowsUpdated[label] || 0) + (data?.length || 0)
+  }
+
+  for (const reference of HTML_REFERENCES) {
+    const { data, error } = await supabaseAdmin
+      .from(reference.table)
+      .select(`id, ${reference.column}`)
+      .like(reference.column, `%${from}%`)
+
+    if (error) {
+      throw new Error(`Failed to scan ${reference.table}.${reference.column}: ${error.message}`)
+    }
+
+    for (const row of (data || []) as any[]) {
+      const { error: updateError } = await supabaseAdmin
+        .from(reference.table)
+        .update({ [reference.column]: (row[reference.column] as string).split(from).join(to) })
+        .eq('id', row.id)
+
+      if (updateError) {
+        throw new Error(`Failed to update ${reference.table} ${row.id}: ${updateError.message}`)
+      }
+    }
+    const label = `${reference.table}.${reference.column}`
+    rowsUpdated[label] = (rowsUpdated[label] || 0) + (data?.length || 0)
+  }
+}
+
+/**
+ * Migrate up to batchSize GitHub-hosted images. A dry run only reports what would move.
+ */
+export async function migrateGitHubAssets(options: { batchSize: number, dryRun: boolean }): Promise<GitHubMigrationResult> {
+  const urls = Array.from(await findLegacyUrls())
+  const batch = urls.slice(0, options.batchSize)
+
+  const result: GitHubMigrationResult = {
+    found: urls.length,
+    migrated: [],
+    failed: [],
+    rowsUpdated: {},
+    remaining: urls.length
+  }
+
+  if (options.dryRun) {
+    result.migrated = batch.map(url => ({ from: url, to: null, assetClass: getAssetClass(getRepoPath(url) || '') }))
+    return result
+  }
+
+  // The images repo may be private
+  const headers: Record<string, string> = process.env.GITHUB_TOKEN
+    ? { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` }
+    : {}
+
+  for (const url of batch) {
+    const repoPath = getRepoPath(url)
+    if (!repoPath) continue
+
+    const assetClass = getAssetClass(repoPath)
+    try {
+      const downloadHeaders = url.startsWith('https://cdn.jsdelivr.net/') ? {} : headers
+      const stored = await storeRemoteAsset(assetClass, url, downloadHeaders)
+      if (!stored) {
+        result.failed.push({ url, error: 'Download failed or not an image' })
+        continue
+      }
+
+      await rewriteReferences(url, stored.url, stored.key, result.rowsUpdated)
+      result.migrated.push({ from: url, to: stored.url, assetClass })
+      result.remaining--
+    } catch (error) {
+      result.failed.push({ url, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  console.log(`[GitHub migration] Migrated ${result.migrated.length} of ${result.found} images, ${result.failed.length} failed`)
+  return result
+}
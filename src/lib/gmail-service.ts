@@ -1,214 +0,0 @@
-import nodemailer from 'nodemailer'
-
-export class GmailService {
-  private transporter: nodemailer.Transporter
-  private fromEmail: string
-  private fromName: string
-
-  constructor() {
-    this.transporter = nodemailer.createTransport({
-      service: 'gmail',
-      auth: {
-        user: process.env.GMAIL_USER,
-        pass: process.env.GMAIL_APP_PASSWORD
-      }
-    })
-
-    // Use custom FROM email if provided, otherwise use Gmail account
-    this.fromEmail = process.env.GMAIL_FROM_EMAIL || process.env.GMAIL_USER || ''
-    this.fromName = process.env.GMAIL_FROM_NAME || 'St. Cloud Scoop'
-  }
-
-  async sendEventApprovalEmail(event: {
-    title: string
-    description: string
-    start_date: string
-    end_date: string | null
-    venue: string | null
-    address: string | null
-    url: string | null
-    website: string | null
-    submitter_email: string
-    submitter_name: string
-  }) {
-    try {
-      const formattedStartDate = new Date(event.start_date).toLocaleString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      })
-
-      const formattedEndDate = event.end_date ? new Date(event.end_date).toLocaleString('en-US', {
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      }) : null
-
-      const emailHtml = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background: #22c55e; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-    .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-    .event-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
-    .detail-row { margin: 10px 0; }
-    .label { font-weight: bold; color: #4b5563; }
-    .footer { text-align: center; color: #6b7280; margin-top: 20px; font-size: 14px; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h1 style="margin: 0;">✅ Event Approved!</h1>
-    </div>
-    <div class="content">
-      <p>Hi ${event.submitter_name},</p>
-      <p>Great news! Your event submission has been approved and is now live on St. Cloud Scoop.</p>
-
-      <div class="event-details">
-        <h2 style="margin-top: 0; color: #1f2937;">${event.title}</h2>
-
-        <div class="detail-row">
-          <span class="label">Date & Time:</span><br>
-          ${formattedStartDate}${formattedEndDate ? ` - ${formattedEndDate}` : ''}
-        </div>
-
-        ${event.venue ? `
-        <div class="detail-row">
-          <span class="label">Venue:</span><br>
-          ${event.venue}
-        </div>
-        ` : ''}
-
-        ${event.address ? `
-        <div class="detail-row">
-          <span class="label">Address:</span><br>
-          ${event.address}
-        </div>
-        ` : ''}
-
-        ${event.description ? `
-        <div class="detail-row">
-          <span class="label">Description:</span><br>
-          ${event.description}
-        </div>
-        ` : ''}
-
-        ${event.website ? `
-        <div class="detail-row">
-          <span class="label">Website:</span><br>
-          <a href="${event.website}" style="color: #2563eb;">${event.website}</a>
-        </div>
-        ` : ''}
-      </div>
-
-      <p>Thank you for helping keep the St. Cloud community informed!</p>
-
-      <p>Best regards,<br>The St. Cloud Scoop Team</p>
-
-      <div class="footer">
-        <p>St. Cloud Scoop | <a href="https://stcscoop.com">stcscoop.com</a></p>
-      </div>
-    </div>
-  </div>
-</body>
-</html>
-`
-
-      const info = await this.transporter.sendMail({
-        from: `"${this.fromName}" <${this.fromEmail}>`,
-        to: event.submitter_email,
-        subject: `✅ Your Event "${event.title}" Has Been Approved`,
-        html: emailHtml
-      })
-
-      console.log('Event approval email sent:', info.messageId)
-      return { success: true, messageId: info.messageId }
-
-    } catch (error) {
-      console.error('Error sending event approval email:', error)
-      return { success: false, error }
-    }
-  }
-
-  async sendEventRejectionEmail(event: {
-    title: string
-    description: string
-    start_date: string
-    submitter_email: string
-    submitter_name: string
-  }, reason?: string) {
-    try {
-      const emailHtml = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background: #ef4444; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-    .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-    .event-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
-    .reason-box { background: #fef2f2; border-left: 4px solid #ef4444; padding: 15px; margin: 20px 0; }
-    .footer { text-align: center; color: #6b7280; margin-top: 20px; font-size: 14px; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h1 style="margin: 0;">Event Submission Update</h1>
-    </div>
-    <div class="content">
-      <p>Hi ${event.submitter_name},</p>
-      <p>Thank you for submitting your event to St. Cloud Scoop. After reviewing your submission, we're unable to approve it at this time.</p>
-
-      <div class="event-details">
-        <h2 style="margin-top: 0; color: #1f2937;">${event.title}</h2>
-        ${event.description ? `<p>${event.description}</p>` : ''}
-      </div>
-
-      ${reason ? `
-      <div class="reason-box">
-        <strong>Reason:</strong><br>
-        ${reason}
-      </div>
-      ` : ''}
-
-      <p>If you have questions or would like to resubmit with changes, please feel free to reach out to us.</p>
-
-      <p>Best regards,<br>The St. Cloud Scoop Team</p>
-
-      <div class="footer">
-        <p>St. Cloud Scoop | <a href="https://stcscoop.com">stcscoop.com</a></p>
-      </div>
-    </div>
-  </div>
-</body>
-</html>
-`
-
-      const info = await this.transporter.sendMail({
-        from: `"${this.fromName}" <${this.fromEmail}>`,
-        to: event.submitter_email,
-        subject: `Event Submission Update: "${event.title}"`,
-        html: emailHtml
-      })
-
-      console.log('Event rejection email sent:', info.messageId)
-      return { success: true, messageId: info.messageId }
-
-    } catch (error) {
-      console.error('Error sending event rejection email:', error)
-      return { success: false, error }
-    }
-  }
-}
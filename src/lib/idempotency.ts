@@ -0,0 +1,131 @@
+// Idempotency Keys
+// Records side effects (sending a campaign, recording ad usage) in the idempotency_keys table
+// so a retried or overlapping run replays the stored result instead of doing them twice.
+// An attempt that crashed leaves its key in progress until the lease expires; then it may run again.
+
+import crypto from 'crypto'
+import { supabaseAdmin } from './supabase'
+import { DEFAULT_LEASE_MS } from './run-lock'
+
+export class IdempotencyConflictError extends Error {
+  constructor(key: string) {
+    super(`Operation ${key} is already in progress`)
+    this.name = 'IdempotencyConflictError'
+  }
+}
+
+export interface IdempotentResult<T> {
+  result: T
+  // True when the stored result of an earlier run was returned and the operation didn't run
+  replayed: boolean
+}
+
+/**
+ * Claim the key for this attempt: a new key, one whose last attempt failed, or one whose
+ * in-progress attempt outlived its lease. Returns the stored row if it already completed.
+ */
+async function claimKey(key: string, owner: string, leaseMs: number): Promise<{ claimed: boolean, completed?: any }> {
+  const now = new Date()
+  const attempt = {
+    status: 'in_progress',
+    owner,
+    locked_until: new Date(now.getTime() + leaseMs).toISOString(),
+    last_error: null,
+    updated_at: now.toISOString()
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('idempotency_keys')
+    .insert({ key, attempts: 1, ...attempt })
+
+  if (!insertError) {
+    return { claimed: true }
+  }
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('idempotency_keys')
+    .select('*')
+    .eq('key', key)
+    .maybeSingle()
+
+  if (fetchError || !existing) {
+    throw new Error(`Failed to record idempotency key ${key}: ${insertError.message}`)
+  }
+
+  if (existing.status === 'completed') {
+    return { claimed: false, completed: existing }
+  }
+
+  const { data: reclaimed, error: reclaimError } = await supabaseAdmin
+    .from('idempotency_keys')
+    .update({ ...attempt, attempts: (existing.attempts || 0) + 1 })
+    .eq('key', key)
+    .or(`status.eq.failed,locked_until.lt."${now.toISOString()}"`)
+    .neq('status', 'completed')
+    .select('key')
+
+  if (reclaimError) {
+    throw new Error(`Failed to reclaim idempotency key ${key}: ${reclaimError.message}`)
+  }
+  if (!reclaimed || reclaimed.length === 0) {
+    throw new IdempotencyConflictError(key)
+  }
+
+  console.log(`[Idempotency] Retrying ${key} (attempt ${(existing.attempts || 0) + 1}, previous attempt ${existing.status})`)
+  return { claimed: true }
+}
+
+/**
+ * Run an operation once per key. Completed keys return the stored result (which must be
+ * JSON-serializable); failed keys run again; a key in progress elsewhere throws
+ * IdempotencyConflictError.
+ */
+export async function runIdempotent<T>(
+  key: string,
+  operation: () => Promise<T>,
+  leaseMs: number = DEFAULT_LEASE_MS
+): Promise<IdempotentResult<T>> {
+  const owner = crypto.randomUUID()
+  const claim = await claimKey(key, owner, leaseMs)
+
+  if (!claim.claimed) {
+    console.log(`[Idempotency] ${key} already completed at ${claim.completed.completed_at}, replaying result`)
+    return { result: claim.completed.result as T, replayed: true }
+  }
+
+  try {
+    const result = await operation()
+
+    const { error } = await supabaseAdmin
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        result: result === undefined ? null : result,
+        locked_until: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('key', key)
+      .eq('owner', owner)
+
+    if (error) {
+      // The side effect happened; a missing record only risks a repeat, so don't fail the caller
+      console.error(`[Idempotency] Failed to record completion of ${key}:`, error.message)
+    }
+
+    return { result, replayed: false }
+  } catch (error) {
+    await supabaseAdmin
+      .from('idempotency_keys')
+      .update({
+        status: 'failed',
+        locked_until: null,
+        last_error: error instanceof Error ? error.message : (error as any)?.message || String(error),
+        updated_at: new Date().toISOString()
+      })
+      .eq('key', key)
+      .eq('owner', owner)
+
+    throw error
+  }
+}
@@ -0,0 +1,126 @@
+// Mock LLM Provider
+// Deterministic responses so the RSS pipeline can run offline (LLM_PROVIDER=mock).
+// Set LLM_MOCK_FIXTURES to a JSON file of { "<prompt key>": response } to override the built-in fixtures.
+
+import fs from 'fs'
+import crypto from 'crypto'
+import type { LLMProvider, LLMRequest, LLMEmbeddingRequest } from './llm'
+
+type FixtureGenerator = (prompt: string, seed: number) => unknown
+
+// Stable number derived from the prompt so the same input always gets the same answer
+const seedFor = (text: string) => parseInt(crypto.createHash('sha256').update(text).digest('hex').slice(0, 8), 16)
+
+const scoreFrom = (seed: number, shift: number, max: number) => ((seed >>> shift) % max) + 1
+
+const matchLine = (prompt: string, label: RegExp) => prompt.match(label)?.[1]?.trim() || ''
+
+const MOCK_EMBEDDING_DIMENSIONS = 256
+
+// Hashed bag of words: texts that share words get similar vectors, like a real embedding model
+const mockEmbedding = (text: string): number[] => {
+  const vector = new Array(MOCK_EMBEDDING_DIMENSIONS).fill(0)
+  const words = text.toLowerCase().match(/[a-z0-9']+/g) || []
+  for (const word of words) {
+    vector[seedFor(word) % MOCK_EMBEDDING_DIMENSIONS] += 1
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1
+  return vector.map(v => v / norm)
+}
+
+const BUILT_IN_FIXTURES: Record<string, FixtureGenerator> = {
+  content_evaluator: (_, seed) => ({
+    interest_level: scoreFrom(seed, 0, 20),
+    local_relevance: scoreFrom(seed, 5, 10),
+    community_impact: scoreFrom(seed, 10, 10),
+    reasoning: 'Mock evaluation'
+  }),
+  newsletter_writer: (prompt) => {
+    const title = matchLine(prompt, /Title:\s*(.+)/) || 'Local News Update'
+    const content = `${title}. This is a mock newsletter summary generated offline for local development.`
+    return {
+      headline: title.slice(0, 80),
+      content,
+      word_count: content.split(/\s+/).length
+    }
+  },
+  fact_checker: () => ({
+    score: 27,
+    details: 'Mock fact check',
+    passed: true
+  }),
+  topic_deduper: () => ({
+    groups: [],
+    unique_articles: []
+  }),
+  subject_line: (prompt) => {
+    const headline = matchLine(prompt, /Headline:\s*(.+)/) || matchLine(prompt, /^1\.\s*(.+)$/m)
+    return headline ? headline.slice(0, 35) : 'Your Local Scoop'
+  },
+  event_summary: (prompt) => {
+    const title = matchLine(prompt, /Event Title:\s*(.+)/) || 'This event'
+    const summary = `${title} is a mock event summary generated offline.`
+    return {
+      event_summary: summary,
+      word_count: summary.split(/\s+/).length
+    }
+  },
+  road_work: () => [],
+  road_work_search: () => [],
+  road_work_validator: () => ({
+    validated_items: [],
+    summary: { total_items: 0, valid_items: 0, invalid_items: 0, accuracy_score: 1 }
+  }),
+  image_analyzer: () => ({
+    caption: 'Mock image caption',
+    alt_text: 'Mock image description for local development',
+    tags_scored: [],
+    top_tags: [],
+    ocr_text: null,
+    text_density: 0,
+    ocr_entities: null,
+    signage_conf: 0,
+    age_groups: null
+  }),
+  tag_suggester: () => []
+}
+
+export class MockLLMProvider implements LLMProvider {
+  name = 'mock' as const
+  private fixtures: Record<string, unknown> | null = null
+
+  async complete(request: LLMRequest): Promise<string> {
+    const prompt = request.messages.map(m => m.content).join('\n\n')
+    const fixtures = this.loadFixtures()
+
+    let response: unknown
+    if (request.promptKey in fixtures) {
+      response = fixtures[request.promptKey]
+    } else if (BUILT_IN_FIXTURES[request.promptKey]) {
+      response = BUILT_IN_FIXTURES[request.promptKey](prompt, seedFor(prompt))
+    } else {
+      response = { mock: true, prompt_key: request.promptKey }
+    }
+
+    return typeof response === 'string' ? response : JSON.stringify(response)
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<number[][]> {
+    return request.texts.map(mockEmbedding)
+  }
+
+  private loadFixtures(): Record<string, unknown> {
+    if (this.fixtures) return this.fixtures
+
+    const fixturesPath = process.env.LLM_MOCK_FIXTURES
+    this.fixtures = {}
+    if (fixturesPath) {
+      try {
+        this.fixtures = JSON.parse(fs.readFileSync(fixturesPath, 'utf8'))
+      } catch (error) {
+        console.error(`Failed to load LLM fixtures from ${fixturesPath}:`, error)
+      }
+    }
+    return this.fixtures!
+  }
+}
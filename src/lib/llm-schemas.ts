@@ -0,0 +1,65 @@
+// Response schemas for structured LLM prompts
+
+import { z } from 'zod'
+
+export const ContentEvaluationSchema = z.object({
+  interest_level: z.coerce.number().min(1).max(20),
+  local_relevance: z.coerce.number().min(1).max(10),
+  community_impact: z.coerce.number().min(1).max(10),
+  reasoning: z.string().default('')
+})
+
+export const NewsletterContentSchema = z.object({
+  headline: z.string().min(1),
+  content: z.string().min(1),
+  word_count: z.coerce.number().positive()
+})
+
+export const FactCheckResultSchema = z.object({
+  score: z.coerce.number(),
+  details: z.string().default(''),
+  passed: z.boolean()
+})
+
+export const TopicDedupeSchema = z.object({
+  groups: z.array(z.object({
+    topic_signature: z.string(),
+    primary_article_index: z.coerce.number().int(),
+    duplicate_indices: z.array(z.coerce.number().int()),
+    similarity_explanation: z.string().optional()
+  })).default([]),
+  unique_articles: z.array(z.coerce.number().int()).optional()
+})
+
+export const TagSuggestionsSchema = z.array(z.object({
+  formatted_tag: z.string().min(1),
+  display_name: z.string().min(1),
+  confidence: z.coerce.number()
+}))
+
+export const EventSummarySchema = z.object({
+  event_summary: z.string().min(1),
+  word_count: z.coerce.number().optional()
+})
+
+export const RoadWorkEntriesSchema = z.array(z.object({
+  road_name: z.string().min(1),
+  road_range: z.string().nullish(),
+  city_or_township: z.string().nullish(),
+  reason: z.string().nullish(),
+  start_date: z.string().nullish(),
+  expected_reopen: z.string().nullish(),
+  source_url: z.string().nullish()
+}))
+
+export const RoadWorkValidationSchema = z.object({
+  validated_items: z.array(z.object({
+    index: z.coerce.number().int(),
+    valid: z.boolean(),
+    reason: z.string().default(''),
+    confidence: z.coerce.number()
+  })),
+  summary: z.object({
+    accuracy_score: z.coerce.number().optional()
+  }).optional()
+})
@@ -0,0 +1,379 @@
+// LLM Client
+// One interface over OpenAI, Perplexity and the offline mock provider.
+// The model for each prompt is read from app_settings (ai_model_<prompt>), next to the ai_prompt_<prompt> templates.
+
+import OpenAI from 'openai'
+import { z } from 'zod'
+import { supabaseAdmin } from './supabase'
+import { MockLLMProvider } from './llm-mock'
+
+export type LLMProviderName = 'openai' | 'perplexity' | 'mock'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMRequest {
+  promptKey: string
+  model: string
+  messages: LLMMessage[]
+  maxTokens: number
+  temperature: number
+  timeoutMs: number
+  webSearch?: boolean
+  providerOptions?: Record<string, any>
+}
+
+export interface LLMEmbeddingRequest {
+  model: string
+  texts: string[]
+  timeoutMs: number
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  complete(request: LLMRequest): Promise<string>
+  // Providers without an embeddings API leave this out
+  embed?(request: LLMEmbeddingRequest): Promise<number[][]>
+}
+
+export interface LLMModelSelection {
+  provider: LLMProviderName
+  model: string
+}
+
+export interface LLMCallOptions {
+  maxTokens?: number
+  temperature?: number
+  timeoutMs?: number
+  webSearch?: boolean
+  // Overrides the configured model, e.g. 'perplexity:sonar-pro'
+  model?: string
+  providerOptions?: Record<string, any>
+}
+
+export interface LLMJSONCallOptions extends LLMCallOptions {
+  // Extra attempts when the response isn't valid JSON or fails the schema
+  retries?: number
+}
+
+export class LLMResponseError extends Error {
+  constructor(message: string, public raw: string) {
+    super(message)
+    this.name = 'LLMResponseError'
+  }
+}
+
+// Used when no ai_model_<prompt> setting exists
+const DEFAULT_MODELS: Record<string, string> = {
+  default: 'openai:gpt-4o',
+  content_evaluator: 'openai:gpt-4o',
+  newsletter_writer: 'openai:gpt-4o',
+  subject_line: 'openai:gpt-4o',
+  event_summary: 'openai:gpt-4o',
+  road_work: 'openai:gpt-4o',
+  road_work_search: 'perplexity:sonar-pro',
+  road_work_validator: 'openai:gpt-4o',
+  image_analyzer: 'openai:gpt-4o',
+  topic_deduper: 'openai:gpt-4o',
+  fact_checker: 'openai:gpt-4o',
+  tag_suggester: 'openai:gpt-4o',
+  embeddings: 'openai:text-embedding-3-small'
+}
+
+const DEFAULT_TIMEOUT_MS = 30000
+const EMBEDDING_BATCH_SIZE = 100
+const MODEL_CACHE_TTL_MS = 60 * 1000
+
+const modelCache = new Map<string, { selection: LLMModelSelection, expires: number }>()
+
+let openaiClient: OpenAI | null = null
+const getOpenAIClient = () => {
+  if (!openaiClient) {
+    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  }
+  return openaiClient
+}
+
+const withTimeout = async <T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    return await run(controller.signal)
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+const openaiProvider: LLMProvider = {
+  name: 'openai',
+  complete: async (request) => withTimeout(request.timeoutMs, async (signal) => {
+    const client = getOpenAIClient()
+
+    if (request.webSearch) {
+      // Web search is only available through the Responses API
+      const response = await (client as any).responses.create({
+        model: request.model,
+        tools: [{ type: 'web_search_preview' }],
+        input: request.messages,
+        temperature: request.temperature
+      }, { signal })
+
+      const text = response.output_text ?? response.output?.[0]?.content?.[0]?.text ?? ''
+      if (!text) {
+        throw new Error('No response from OpenAI Responses API')
+      }
+      return text
+    }
+
+    const response = await client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    }, { signal })
+
+    const content = response.choices[0]?.message?.content
+    if (!content) {
+      throw new Error('No response from OpenAI')
+    }
+    return content
+  }),
+  embed: async (request) => withTimeout(request.timeoutMs, async (signal) => {
+    const response = await getOpenAIClient().embeddings.create({
+      model: request.model,
+      input: request.texts
+    }, { signal })
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding)
+  })
+}
+
+const perplexityProvider: LLMProvider = {
+  name: 'perplexity',
+  complete: async (request) => withTimeout(request.timeoutMs, async (signal) => {
+    const apiKey = process.env.PERPLEXITY_API_KEY
+    if (!apiKey) {
+      throw new Error('PERPLEXITY_API_KEY not configured')
+    }
+
+    const response = await fetch('https://api.perplexity.ai/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        return_images: false,
+        return_related_questions: false,
+        ...request.providerOptions
+      }),
+      signal
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Perplexity API error:', response.status, errorText)
+      throw new Error(`Perplexity API error: ${response.status}`)
+    }
+
+    const data = await response.json()
+    console.log('Perplexity tokens used:', data.usage?.total_tokens)
+
+    const content = data.choices?.[0]?.message?.content
+    if (!content) {
+      throw new Error('No content in Perplexity response')
+    }
+    return content
+  })
+}
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  openai: openaiProvider,
+  perplexity: perplexityProvider,
+  mock: new MockLLMProvider()
+}
+
+/**
+ * Parse 'provider:model' (a bare model name means OpenAI)
+ */
+export function parseModelSetting(value: string): LLMModelSelection {
+  const [first, ...rest] = value.trim().split(':')
+  if (rest.length > 0 && first in PROVIDERS) {
+    return { provider: first as LLMProviderName, model: rest.join(':') }
+  }
+  return { provider: 'openai', model: value.trim() }
+}
+
+export function isValidModelSetting(value: string): boolean {
+  const [first, ...rest] = value.trim().split(':')
+  return rest.length > 0 && first in PROVIDERS && rest.join(':').length > 0
+}
+
+export function getDefaultModelSetting(promptKey: string): string {
+  return DEFAULT_MODELS[promptKey] || DEFAULT_MODELS.default
+}
+
+/**
+ * Resolve the model for a prompt. LLM_PROVIDER=mock routes every prompt to the mock provider.
+ */
+export async function getModelForPrompt(promptKey: string): Promise<LLMModelSelection> {
+  if (process.env.LLM_PROVIDER === 'mock') {
+    return { provider: 'mock', model: 'mock' }
+  }
+
+  const cached = modelCache.get(promptKey)
+  if (cached && cached.expires > Date.now()) {
+    return cached.selection
+  }
+
+  let setting = getDefaultModelSetting(promptKey)
+  try {
+    const { data } = await supabaseAdmin
+      .from('app_settings')
+      .select('value')
+      .eq('key', `ai_model_${promptKey}`)
+      .maybeSingle()
+
+    if (data?.value) {
+      setting = data.value
+    }
+  } catch (error) {
+    console.error(`Error fetching model for ${promptKey}, using default:`, error)
+  }
+
+  const selection = parseModelSetting(setting)
+  modelCache.set(promptKey, { selection, expires: Date.now() + MODEL_CACHE_TTL_MS })
+  return selection
+}
+
+/**
+ * Run a prompt and return the raw text response
+ */
+export async function callLLM(promptKey: string, input: string | LLMMessage[], options: LLMCallOptions = {}): Promise<string> {
+  const selection = process.env.LLM_PROVIDER !== 'mock' && options.model
+    ? parseModelSetting(options.model)
+    : await getModelForPrompt(promptKey)
+
+  const provider = PROVIDERS[selection.provider]
+  const messages: LLMMessage[] = typeof input === 'string' ? [{ role: 'user', content: input }] : input
+
+  console.log(`[LLM] ${promptKey} -> ${selection.provider}:${selection.model}`)
+
+  return provider.complete({
+    promptKey,
+    model: selection.model,
+    messages,
+    maxTokens: options.maxTokens ?? 1000,
+    temperature: options.temperature ?? 0.3,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    webSearch: options.webSearch,
+    providerOptions: options.providerOptions
+  })
+}
+
+/**
+ * Embed texts with the model configured for 'embeddings' (ai_model_embeddings), in batches
+ */
+export async function embedTexts(texts: string[], options: { timeoutMs?: number } = {}): Promise<{ model: string, embeddings: number[][] }> {
+  const selection = await getModelForPrompt('embeddings')
+  const provider = PROVIDERS[selection.provider]
+
+  if (!provider.embed) {
+    throw new Error(`Provider ${selection.provider} does not support embeddings`)
+  }
+
+  console.log(`[LLM] embeddings -> ${selection.provider}:${selection.model} (${texts.length} texts)`)
+
+  const embeddings: number[][] = []
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = await provider.embed({
+      model: selection.model,
+      texts: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    })
+    embeddings.push(...batch)
+  }
+
+  return { model: `${selection.provider}:${selection.model}`, embeddings }
+}
+
+/**
+ * Pull a JSON value out of a model response (handles code fences and surrounding prose)
+ */
+export function extractJSON(text: string): unknown {
+  let cleaned = text.trim()
+  const codeFenceMatch = cleaned.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  if (codeFenceMatch) {
+    cleaned = codeFenceMatch[1].trim()
+  }
+
+  try {
+    return JSON.parse(cleaned)
+  } catch {
+    // Fall through to extracting the outermost object or array
+  }
+
+  const candidates = [
+    [cleaned.indexOf('['), cleaned.lastIndexOf(']')],
+    [cleaned.indexOf('{'), cleaned.lastIndexOf('}')]
+  ]
+    .filter(([start, end]) => start !== -1 && end > start)
+    .sort((a, b) => a[0] - b[0])
+
+  for (const [start, end] of candidates) {
+    try {
+      return JSON.parse(cleaned.slice(start, end + 1))
+    } catch {
+      continue
+    }
+  }
+
+  throw new LLMResponseError('Response did not contain valid JSON', text)
+}
+
+/**
+ * Run a prompt that returns JSON, validate it against a schema and retry on malformed output
+ */
+export async function callLLMJSON<T>(
+  promptKey: string,
+  input: string | LLMMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, any>,
+  options: LLMJSONCallOptions = {}
+): Promise<T> {
+  const retries = options.retries ?? 2
+  const messages: LLMMessage[] = typeof input === 'string' ? [{ role: 'user', content: input }] : [...input]
+  let lastError: LLMResponseError | null = null
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const text = await callLLM(promptKey, messages, options)
+
+    let problem: string
+    try {
+      const parsed = schema.safeParse(extractJSON(text))
+      if (parsed.success) {
+        return parsed.data
+      }
+      problem = parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; ')
+    } catch (error) {
+      problem = error instanceof Error ? error.message : 'Invalid JSON'
+    }
+
+    console.warn(`[LLM] ${promptKey} returned an invalid response (attempt ${attempt + 1}/${retries + 1}): ${problem}`)
+    lastError = new LLMResponseError(`Invalid ${promptKey} response: ${problem}`, text)
+
+    // Show the model its own answer and what was wrong with it
+    messages.push(
+      { role: 'assistant', content: text },
+      { role: 'user', content: `That response was invalid (${problem}). Respond again with ONLY valid JSON in the requested format.` }
+    )
+  }
+
+  throw lastError
+}
@@ -1,20 +1,13 @@
 import axios from 'axios'
 import { supabaseAdmin } from './supabase'
 import { ErrorHandler, SlackNotificationService } from './slack'
-import type { CampaignWithArticles, CampaignWithEvents, Article } from '@/types/database'
-import { getWeatherForCampaign } from './weather-manager'
-import {
-  generateNewsletterHeader,
-  generateNewsletterFooter,
-  generateLocalScoopSection,
-  generateLocalEventsSection,
-  generateWordleSection,
-  generateMinnesotaGetawaysSection,
-  generateDiningDealsSection,
-  generateRoadWorkSection,
-  generatePollSection,
-  generateCommunityBusinessSpotlightSection
-} from './newsletter-templates'
+import type { CampaignWithArticles, CampaignWithEvents, Article, Publication } from '@/types/database'
+import { renderNewsletterSections, type SectionVariant } from './newsletter-sections'
+import { getArchiveUrl, getPreferencesUrl, generatePlainText, saveNewsletterArchive } from './newsletter-archive'
+import { getCentralDate } from './newsletter-calendar'
+import { runIdempotent } from './idempotency'
+import { getCampaignPublication, getPublicationGroupId, getPublicationSender } from './publications'
+import { getIssueVariants, PREFERENCES_FIELD, PREFERENCES_TOKEN_FIELD, signPreferencesToken, type IssueVariant } from './subscriber-preferences'
 
 const MAILERLITE_API_BASE = 'https://connect.mailerlite.com/api'
 
@@ -36,11 +29,31 @@ export class MailerLiteService {
     this.slack = new SlackNotificationService()
   }
 
-  async createReviewCampaign(campaign: CampaignWithEvents, forcedSubjectLine?: string) {
+  /**
+   * Send the review campaign. With an idempotency key a retried run returns the
+   * campaign already sent instead of sending the review again.
+   */
+  async createReviewCampaign(campaign: CampaignWithEvents, forcedSubjectLine?: string, idempotencyKey?: string) {
+    if (!idempotencyKey) {
+      return this.sendReviewCampaign(campaign, forcedSubjectLine)
+    }
+    const { result } = await runIdempotent(idempotencyKey, () => this.sendReviewCampaign(campaign, forcedSubjectLine))
+    return result
+  }
+
+  private async sendReviewCampaign(campaign: CampaignWithEvents, forcedSubjectLine?: string) {
     try {
       console.log(`Creating review campaign for ${campaign.date}`)
 
-      const emailContent = await this.generateEmailHTML(campaign, true)
+      const publication = await getCampaignPublication(campaign)
+      const { senderName, fromEmail } = await getPublicationSender(publication)
+      const reviewGroupId = await getPublicationGroupId(publication, 'review')
+      if (!reviewGroupId) {
+        throw new Error(`No MailerLite review group configured for ${publication.name}`)
+      }
+
+      const emailContent = await this.generateEmailHTML(campaign, true, publication)
+      const plainTextContent = generatePlainText(emailContent)
 
       // Log subject line status
       console.log('Campaign subject line:', campaign.subject_line)
@@ -56,11 +69,12 @@ export class MailerLiteService {
         type: 'regular',
         emails: [{
           subject: `🍦 ${subjectLine}`,
-          from_name: 'St. Cloud Scoop',
-          from: 'scoop@stcscoop.com',
+          from_name: senderName,
+          from: fromEmail,
           content: emailContent,
+          plain_text: plainTextContent,
         }],
-        groups: [process.env.MAILERLITE_REVIEW_GROUP_ID]
+        groups: [reviewGroupId]
         // Note: Removed delivery_schedule - we'll schedule separately after creation
       }
 
@@ -82,9 +96,7 @@ export class MailerLiteService {
         try {
           // Schedule review for today (same day as creation), not campaign.date
           // Use Central Time for consistent date calculations
-          const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-          const centralDate = new Date(nowCentral)
-          const today = centralDate.toISOString().split('T')[0] // Today's date in YYYY-MM-DD
+          const today = getCentralDate()
           const scheduleData = await this.getReviewScheduleData(today)
           console.log('Scheduling review campaign for today with data:', scheduleData)
 
@@ -215,30 +227,12 @@ export class MailerLiteService {
   }
 
 
-  private async generateEmailHTML(campaign: CampaignWithEvents, isReview: boolean): Promise<string> {
-    // Filter active articles and sort by rank (custom order)
-    const activeArticles = campaign.articles
-      .filter(article => article.is_active)
-      .sort((a, b) => (a.rank || 999) - (b.rank || 999))
-
-    console.log('MAILERLITE - Active articles to render:', activeArticles.length)
-    console.log('MAILERLITE - Article order:', activeArticles.map(a => `${a.headline} (rank: ${a.rank})`).join(', '))
-    console.log('MAILERLITE - Raw article data:', activeArticles.map(a => `ID: ${a.id}, Rank: ${a.rank}, Active: ${a.is_active}`).join(' | '))
-
-    // Generate events using the same logic as preview
-    const eventsHtml = await generateLocalEventsSection(campaign)
-
-    console.log('MailerLite - Events HTML generated, length:', eventsHtml.length)
-
-    // Fetch newsletter sections order
-    const { data: sections } = await supabaseAdmin
-      .from('newsletter_sections')
-      .select('*')
-      .eq('is_active', true)
-      .order('display_order', { ascending: true })
-
-    console.log('MailerLite - Active newsletter sections:', sections?.map(s => `${s.name} (order: ${s.display_order})`).join(', '))
-
+  private async generateEmailHTML(
+    campaign: CampaignWithEvents,
+    isReview: boolean,
+    publication: Publication,
+    variant?: SectionVariant
+  ): Promise<string> {
     // Use the same format as the preview template with local date parsing
     const [year, month, day] = campaign.date.split('-').map(Number)
     const date = new Date(year, month - 1, day) // month is 0-indexed
@@ -248,6 +242,15 @@ export class MailerLiteService {
       month: 'long',
       day: 'numeric'
     })
+    // Special editions from the schedule calendar are named under the logo
+    const headerDate = campaign.edition_name ? `${formattedDate} · ${campaign.edition_name}` : formattedDate
+    const logoHtml = publication.logo_url
+      ? `<img alt='${publication.name}' src='${publication.logo_url}' style='width:100%;max-width:500px;height:auto;margin-bottom:2px;'/>`
+      : `<div style='color:#fff;font-size:32px;font-weight:bold;padding:12px 0 4px;'>${publication.name}</div>`
+    const facebookHtml = publication.facebook_url ? `
+  <a href="${publication.facebook_url}" target="_blank">
+    <img src="https://raw.githubusercontent.com/VFDavid/STCScoop/refs/heads/main/facebook_light.png" alt="Facebook" width="24" height="24" style="border: none; display: inline-block;">
+  </a>` : ''
 
     // Review header for review campaigns - now at very top
     const reviewHeaderTop = isReview ? `
@@ -264,53 +267,7 @@ export class MailerLiteService {
 <br>` : ''
 
     // Generate sections in order based on database configuration
-    let sectionsHtml = ''
-    if (sections && sections.length > 0) {
-      for (const section of sections) {
-        if (section.name === 'The Local Scoop' && activeArticles.length > 0) {
-          // Note: mailerlite_campaign_id is undefined during preview, only available after sending
-          sectionsHtml += generateLocalScoopSection(activeArticles, campaign.date, undefined)
-        } else if (section.name === 'Local Events') {
-          sectionsHtml += eventsHtml
-          // Add poll section after Local Events
-          sectionsHtml += await generatePollSection(campaign.id)
-        } else if (section.name === 'Local Weather') {
-          const weatherHtml = await getWeatherForCampaign(campaign.id)
-          if (weatherHtml) {
-            sectionsHtml += weatherHtml
-          }
-        } else if (section.name === "Yesterday's Wordle") {
-          const wordleHtml = await generateWordleSection(campaign)
-          if (wordleHtml) {
-            sectionsHtml += wordleHtml
-          }
-        } else if (section.name === 'Minnesota Getaways') {
-          const getawaysHtml = await generateMinnesotaGetawaysSection(campaign)
-          if (getawaysHtml) {
-            sectionsHtml += getawaysHtml
-          }
-        } else if (section.name === 'Dining Deals') {
-          const diningHtml = await generateDiningDealsSection(campaign)
-          if (diningHtml) {
-            sectionsHtml += diningHtml
-          }
-        } else if (section.name === 'Road Work') {
-          const roadWorkHtml = await generateRoadWorkSection(campaign)
-          if (roadWorkHtml) {
-            sectionsHtml += roadWorkHtml
-          }
-        } else if (section.name === 'Community Business Spotlight') {
-          const spotlightHtml = await generateCommunityBusinessSpotlightSection(campaign, !isReview) // Record usage for final campaigns only
-          if (spotlightHtml) {
-            sectionsHtml += spotlightHtml
-          }
-        }
-      }
-    } else {
-      // Fallback to default order if no sections configured
-      console.log('MailerLite - No sections found, using default order')
-      sectionsHtml = generateLocalScoopSection(activeArticles, campaign.date, undefined) + eventsHtml
-    }
+    const sectionsHtml = await renderNewsletterSections(campaign, isReview ? 'review' : 'final', variant)
 
     // Use exact same template as preview with review banner at top and global email rules
     return `<html lang="en">
@@ -422,33 +379,34 @@ export class MailerLiteService {
       .etsy-pad{padding:8px !important;}
     }
   </style>
-  <title>St. Cloud Scoop Newsletter</title>
+  <title>${publication.name} Newsletter</title>
 </head>
 <body style='margin:0!important;padding:0!important;background-color:#f7f7f7;'>
 ${reviewHeaderTop}
    <div style='width:100%;margin:0 auto;padding:10px;background-color:#f7f7f7;box-sizing:border-box;overflow-x:auto;'>
      <div style='width:100%;max-width:990px;margin:0 auto;padding:5px;text-align:right;font-weight:bold;'>
        <a href='{$url}' style='color:#000;text-decoration:underline;'>View Online</a>&nbsp;|&nbsp;
-       <a href='https://stcscoop.com/' style='color:#000;text-decoration:underline;'>Sign Up</a>&nbsp;|&nbsp;
+       <a href='${publication.website_url}' style='color:#000;text-decoration:underline;'>Sign Up</a>&nbsp;|&nbsp;
        <a href='{$forward}' style='color:#000;text-decoration:underline;'>Share</a>
      </div>
      <div style='width:100%;max-width:990px;margin:0 auto;padding:0px;'>
-       <div style='font-family:Arial,sans-serif;background-color:#1877F2;text-align:center;border-radius:12px;border:1px solid #333;'>
-         <img alt='St. Cloud Scoop' src='https://raw.githubusercontent.com/VFDavid/STCScoop/refs/heads/main/STCSCOOP_Logo_824X148_clear.png' style='width:100%;max-width:500px;height:auto;margin-bottom:2px;'/>
-         <div style='color:#fff;font-size:16px;font-weight:bold;padding:0 0 5px;'>${formattedDate}</div>
+       <div style='font-family:Arial,sans-serif;background-color:${publication.brand_color};text-align:center;border-radius:12px;border:1px solid #333;'>
+         ${logoHtml}
+         <div style='color:#fff;font-size:16px;font-weight:bold;padding:0 0 5px;'>${headerDate}</div>
        </div>
      </div>
    </div>
 <br>
 ${sectionsHtml}
-<div style="max-width: 990px; margin: 0 auto; background-color: #1877F2; padding: 8px 0; text-align: center;">
-  <a href="https://www.facebook.com/61578947310955/" target="_blank">
-    <img src="https://raw.githubusercontent.com/VFDavid/STCScoop/refs/heads/main/facebook_light.png" alt="Facebook" width="24" height="24" style="border: none; display: inline-block;">
-  </a>
+<div style="max-width: 990px; margin: 0 auto; background-color: ${publication.brand_color}; padding: 8px 0; text-align: center;">${facebookHtml}
 </div>
 <div style="font-family: Arial, sans-serif; font-size: 12px; color: #777; text-align: center; padding: 20px 10px; border-top: 1px solid #ccc; background-color: #ffffff; max-width: 990px; margin: 0 auto ;">
-  <p style="margin: 0;text-align: center;">You're receiving this email because you subscribed to <strong>St. Cloud Scoop</strong>.</p>
+  <p style="margin: 0 0 5px;text-align: center;">
+    <a href="${getArchiveUrl(campaign.date, publication.slug)}" style='text-decoration: underline;'>View in browser</a>
+  </p>
+  <p style="margin: 0;text-align: center;">You're receiving this email because you subscribed to <strong>${publication.name}</strong>.</p>
   <p style="margin: 5px 0 0;text-align: center;">
+    <a href="${getPreferencesUrl(publication.slug)}" style='text-decoration: underline;'>Choose your sections</a> ·
     <a href="{$unsubscribe}" style='text-decoration: underline;'>Unsubscribe</a>
   </p>
   <p style="margin: 5px;text-align: center;">©2025 Venture Formations LLC, all rights reserved</p>
@@ -546,25 +504,205 @@ ${sectionsHtml}
     }
   }
 
-  async createFinalCampaign(campaign: CampaignWithEvents, mainGroupId: string) {
+  /**
+   * Create and schedule the final campaign, then the personalized editions for subscribers
+   * with section preferences. With an idempotency key a retried run returns the campaigns
+   * already scheduled instead of creating second ones.
+   */
+  async createFinalCampaign(campaign: CampaignWithEvents, mainGroupId: string, idempotencyKey?: string) {
+    const result = idempotencyKey
+      ? (await runIdempotent(idempotencyKey, () => this.sendFinalCampaign(campaign, mainGroupId))).result
+      : await this.sendFinalCampaign(campaign, mainGroupId)
+
+    // The main send stands even if a personalized edition fails
+    const personalized = await this.sendPersonalizedEditions(campaign, idempotencyKey)
+
+    return { ...result, personalized }
+  }
+
+  /**
+   * Send every group of personalized subscribers the edition matching their section rules
+   */
+  private async sendPersonalizedEditions(campaign: CampaignWithEvents, idempotencyKey?: string) {
+    const results: { variant: string, subscribers: number, success: boolean, campaignId?: string, error?: string }[] = []
+
+    let variants: IssueVariant[]
+    const publication = await getCampaignPublication(campaign)
     try {
-      console.log(`Creating final campaign for ${campaign.date}`)
+      variants = await getIssueVariants(publication.id, campaign.date)
+    } catch (error) {
+      console.error('Failed to load subscriber preferences:', error)
+      await this.logError('Failed to load subscriber preferences', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        campaignId: campaign.id
+      })
+      return results
+    }
 
-      // Get sender settings
-      const { data: settings } = await supabaseAdmin
-        .from('app_settings')
-        .select('key, value')
-        .in('key', ['email_senderName', 'email_fromEmail'])
+    for (const variant of variants) {
+      const send = async () => {
+        const groupId = await this.syncVariantGroup(publication, variant)
+        return this.sendFinalCampaign(campaign, groupId, variant)
+      }
+
+      try {
+        const result = idempotencyKey
+          ? (await runIdempotent(`${idempotencyKey}:${variant.key}`, send)).result
+          : await send()
+        results.push({ variant: variant.key, subscribers: variant.emails.length, success: true, campaignId: result.campaignId })
+      } catch (error) {
+        // sendFinalCampaign has already logged and alerted; carry on with the other editions
+        console.error(`Failed to send personalized edition ${variant.key}:`, error)
+        results.push({
+          variant: variant.key,
+          subscribers: variant.emails.length,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Make a personalized edition's MailerLite group hold exactly its subscribers.
+   * Subscribers whose preferences now match another edition are removed.
+   */
+  private async syncVariantGroup(publication: Publication, variant: IssueVariant): Promise<string> {
+    const groupId = await this.findOrCreateGroup(`${publication.name} personalized: ${variant.key}`)
+
+    const members: Record<string, string> = {}
+    let cursor: string | null = null
+    do {
+      const response: any = await mailerliteClient.get(`/groups/${groupId}/subscribers`, {
+        params: { limit: 1000, cursor: cursor || undefined }
+      })
+      for (const subscriber of response.data?.data || []) {
+        members[String(subscriber.email).toLowerCase()] = subscriber.id
+      }
+      cursor = response.data?.meta?.next_cursor || null
+    } while (cursor)
+
+    for (const email of variant.emails) {
+      if (members[email]) continue
+      const subscriberId = await this.findSubscriberId(email)
+      if (subscriberId) {
+        await mailerliteClient.post(`/subscribers/${subscriberId}/groups/${groupId}`)
+      }
+    }
 
-      const settingsMap = (settings || []).reduce((acc, setting) => {
-        acc[setting.key] = setting.value
-        return acc
-      }, {} as Record<string, string>)
+    for (const email of Object.keys(members)) {
+      if (!variant.emails.includes(email)) {
+        await mailerliteClient.delete(`/subscribers/${members[email]}/groups/${groupId}`)
+      }
+    }
 
-      const senderName = settingsMap['email_senderName'] || 'St. Cloud Scoop'
-      const fromEmail = settingsMap['email_fromEmail'] || 'scoop@stcscoop.com'
+    return groupId
+  }
 
-      const emailContent = await this.generateEmailHTML(campaign, false) // Not a review
+  private async findOrCreateGroup(name: string): Promise<string> {
+    const response = await mailerliteClient.get('/groups', { params: { filter: { name }, limit: 100 } })
+    const existing = (response.data?.data || []).find((group: any) => group.name === name)
+    if (existing) {
+      return existing.id
+    }
+
+    const created = await mailerliteClient.post('/groups', { name })
+    return created.data.data.id
+  }
+
+  /**
+   * MailerLite subscriber id for an email, or null if they aren't a subscriber
+   */
+  async findSubscriberId(email: string): Promise<string | null> {
+    try {
+      const response = await mailerliteClient.get(`/subscribers/${encodeURIComponent(email)}`)
+      return response.data?.data?.id || null
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Mirror a subscriber's section preferences in MailerLite. Personalized subscribers leave the
+   * main group (the final send reaches them through their edition's group); clearing every rule
+   * puts them back. The summary field lets segments target readers by preference.
+   */
+  async syncSectionPreferences(subscriberId: string, mainGroupId: string | null, summary: string): Promise<void> {
+    if (mainGroupId) {
+      if (summary) {
+        await mailerliteClient.delete(`/subscribers/${subscriberId}/groups/${mainGroupId}`).catch(error => {
+          if (error.response?.status !== 404) throw error
+        })
+      } else {
+        await mailerliteClient.post(`/subscribers/${subscriberId}/groups/${mainGroupId}`)
+      }
+    }
+
+    try {
+      await mailerliteClient.put(`/subscribers/${subscriberId}`, { fields: { [PREFERENCES_FIELD]: summary } })
+    } catch (error) {
+      // The custom field is optional; group membership is what controls delivery
+      console.error(`Failed to update ${PREFERENCES_FIELD} field:`, error)
+    }
+  }
+
+  /**
+   * Give subscribers in a group the signed token their footer preferences link needs.
+   * Updates go out through MailerLite's batch endpoint (50 per request) and stop at `deadline`,
+   * so a large backlog is worked off over several cron runs. Subscribers that already have the
+   * current token are skipped, which is what lets the next run pick up where this one stopped.
+   */
+  async syncPreferenceTokens(groupId: string, deadline: number): Promise<{ updated: number, complete: boolean }> {
+    let updated = 0
+    let cursor: string | null = null
+    do {
+      if (Date.now() >= deadline) return { updated, complete: false }
+
+      const response: any = await mailerliteClient.get(`/groups/${groupId}/subscribers`, {
+        params: { limit: 1000, cursor: cursor || undefined }
+      })
+
+      const requests = []
+      for (const subscriber of response.data?.data || []) {
+        const token = signPreferencesToken(String(subscriber.email))
+        if (subscriber.fields?.[PREFERENCES_TOKEN_FIELD] === token) continue
+
+        requests.push({
+          method: 'PUT',
+          path: `api/subscribers/${subscriber.id}`,
+          body: { fields: { [PREFERENCES_TOKEN_FIELD]: token } }
+        })
+      }
+
+      for (let i = 0; i < requests.length; i += 50) {
+        if (Date.now() >= deadline) return { updated, complete: false }
+
+        const batch = requests.slice(i, i + 50)
+        await mailerliteClient.post('/batch', { requests: batch })
+        updated += batch.length
+      }
+
+      cursor = response.data?.meta?.next_cursor || null
+    } while (cursor)
+
+    return { updated, complete: true }
+  }
+
+  private async sendFinalCampaign(campaign: CampaignWithEvents, mainGroupId: string, variant?: IssueVariant) {
+    try {
+      console.log(`Creating final campaign for ${campaign.date}${variant ? ` (personalized: ${variant.key})` : ''}`)
+
+      // Get sender settings
+      const publication = await getCampaignPublication(campaign)
+      const { senderName, fromEmail } = await getPublicationSender(publication)
+
+      const emailContent = await this.generateEmailHTML(campaign, false, publication, variant) // Not a review
+      const plainTextContent = generatePlainText(emailContent)
 
       const subjectLine = campaign.subject_line || `Newsletter - ${new Date(campaign.date).toLocaleDateString()}`
 
@@ -572,13 +710,14 @@ ${sectionsHtml}
       console.log('Using sender settings:', { senderName, fromEmail })
 
       const campaignData = {
-        name: `Newsletter: ${campaign.date}`,
+        name: variant ? `Newsletter: ${campaign.date} (${variant.key})` : `Newsletter: ${campaign.date}`,
         type: 'regular',
         emails: [{
           subject: `🍦 ${subjectLine}`,
           from_name: senderName,
           from: fromEmail,
           content: emailContent,
+          plain_text: plainTextContent,
         }],
         groups: [mainGroupId]
       }
@@ -622,9 +761,23 @@ ${sectionsHtml}
         await this.logInfo('Final campaign created successfully', {
           campaignId: campaign.id,
           mailerliteCampaignId: campaignId,
-          mainGroupId: mainGroupId
+          mainGroupId: mainGroupId,
+          variant: variant?.key
         })
 
+        // Personalized editions share the main edition's archive and success alert
+        if (variant) {
+          return { success: true, campaignId }
+        }
+
+        // Keep the sent version for the public archive and RSS feed
+        try {
+          await saveNewsletterArchive(publication, campaign, emailContent, plainTextContent)
+        } catch (archiveError) {
+          console.error('Error saving newsletter archive:', archiveError)
+          // Don't fail the send if archiving fails
+        }
+
         await this.slack.sendEmailCampaignAlert('final', true, campaign.id)
 
         return { success: true, campaignId }
@@ -639,7 +792,8 @@ ${sectionsHtml}
         await this.logError('Failed to create final campaign', {
           error: error.message,
           campaignId: campaign.id,
-          mainGroupId: mainGroupId
+          mainGroupId: mainGroupId,
+          variant: variant?.key
         })
 
         await this.slack.sendEmailCampaignAlert('final', false, campaign.id, error.message)
@@ -671,205 +825,6 @@ ${sectionsHtml}
       }])
   }
 
-  async sendEventApprovalEmail(event: {
-    title: string
-    description: string
-    start_date: string
-    end_date: string | null
-    venue: string | null
-    address: string | null
-    url: string | null
-    website: string | null
-    submitter_email: string
-    submitter_name: string
-  }) {
-    try {
-      const formattedStartDate = new Date(event.start_date).toLocaleString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      })
-
-      const formattedEndDate = event.end_date ? new Date(event.end_date).toLocaleString('en-US', {
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      }) : null
-
-      const emailHtml = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background: #22c55e; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-    .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-    .event-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
-    .detail-row { margin: 10px 0; }
-    .label { font-weight: bold; color: #4b5563; }
-    .footer { text-align: center; color: #6b7280; margin-top: 20px; font-size: 14px; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h1 style="margin: 0;">✅ Event Approved!</h1>
-    </div>
-    <div class="content">
-      <p>Hi ${event.submitter_name},</p>
-      <p>Great news! Your event submission has been approved and is now live on St. Cloud Scoop.</p>
-
-      <div class="event-details">
-        <h2 style="margin-top: 0; color: #1f2937;">${event.title}</h2>
-
-        <div class="detail-row">
-          <span class="label">Date & Time:</span><br>
-          ${formattedStartDate}${formattedEndDate ? ` - ${formattedEndDate}` : ''}
-        </div>
-
-        ${event.venue ? `
-        <div class="detail-row">
-          <span class="label">Venue:</span><br>
-          ${event.venue}
-        </div>
-        ` : ''}
-
-        ${event.address ? `
-        <div class="detail-row">
-          <span class="label">Address:</span><br>
-          ${event.address}
-        </div>
-        ` : ''}
-
-        ${event.description ? `
-        <div class="detail-row">
-          <span class="label">Description:</span><br>
-          ${event.description}
-        </div>
-        ` : ''}
-
-        ${event.website ? `
-        <div class="detail-row">
-          <span class="label">Website:</span><br>
-          <a href="${event.website}" style="color: #2563eb;">${event.website}</a>
-        </div>
-        ` : ''}
-      </div>
-
-      <p>Your event will be featured in our newsletter and on our website. Thank you for helping keep the St. Cloud community informed!</p>
-
-      <p>Best regards,<br>The St. Cloud Scoop Team</p>
-
-      <div class="footer">
-        <p>St. Cloud Scoop | <a href="https://st-cloud-scoop.vercel.app">st-cloud-scoop.vercel.app</a></p>
-      </div>
-    </div>
-  </div>
-</body>
-</html>
-`
-
-      const response = await mailerliteClient.post('/emails', {
-        to: event.submitter_email,
-        subject: `✅ Your Event "${event.title}" Has Been Approved`,
-        from: {
-          email: 'scoop@stcscoop.com',
-          name: 'St. Cloud Scoop'
-        },
-        html: emailHtml
-      })
-
-      console.log('Event approval email sent:', event.submitter_email)
-      return { success: true, data: response.data }
-
-    } catch (error) {
-      console.error('Error sending event approval email:', error)
-      return { success: false, error }
-    }
-  }
-
-  async sendEventRejectionEmail(event: {
-    title: string
-    description: string
-    start_date: string
-    submitter_email: string
-    submitter_name: string
-  }, reason?: string) {
-    try {
-      const emailHtml = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background: #ef4444; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-    .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-    .event-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
-    .reason-box { background: #fef2f2; border-left: 4px solid #ef4444; padding: 15px; margin: 20px 0; }
-    .footer { text-align: center; color: #6b7280; margin-top: 20px; font-size: 14px; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h1 style="margin: 0;">Event Submission Update</h1>
-    </div>
-    <div class="content">
-      <p>Hi ${event.submitter_name},</p>
-      <p>Thank you for submitting your event to St. Cloud Scoop. After reviewing your submission, we're unable to approve it at this time.</p>
-
-      <div class="event-details">
-        <h2 style="margin-top: 0; color: #1f2937;">${event.title}</h2>
-        ${event.description ? `<p>${event.description}</p>` : ''}
-      </div>
-
-      ${reason ? `
-      <div class="reason-box">
-        <strong>Reason:</strong><br>
-        ${reason}
-      </div>
-      ` : ''}
-
-      <p>If you have questions or would like to resubmit with changes, please feel free to reach out to us.</p>
-
-      <p>Best regards,<br>The St. Cloud Scoop Team</p>
-
-      <div class="footer">
-        <p>St. Cloud Scoop | <a href="https://st-cloud-scoop.vercel.app">st-cloud-scoop.vercel.app</a></p>
-      </div>
-    </div>
-  </div>
-</body>
-</html>
-`
-
-      const response = await mailerliteClient.post('/emails', {
-        to: event.submitter_email,
-        subject: `Event Submission Update: "${event.title}"`,
-        from: {
-          email: 'scoop@stcscoop.com',
-          name: 'St. Cloud Scoop'
-        },
-        html: emailHtml
-      })
-
-      console.log('Event rejection email sent:', event.submitter_email)
-      return { success: true, data: response.data }
-
-    } catch (error) {
-      console.error('Error sending event rejection email:', error)
-      return { success: false, error }
-    }
-  }
-
   /**
    * Update a subscriber's custom field in MailerLite
    * @param email Subscriber email address
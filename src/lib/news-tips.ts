@@ -0,0 +1,237 @@
+// Reader News Tips
+// Public tip submissions land in a moderation queue. Spam checks flag rather than drop, so
+// editors can still rescue a real tip; only honeypot hits and over-limit submitters are turned
+// away. Promoting a tip runs it through the same writer and fact-check prompts as RSS posts
+// and saves the result as an inactive manual article (a draft) for the chosen campaign.
+
+import crypto from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import { supabaseAdmin } from './supabase'
+import { getObjectStorage } from './object-storage'
+import { RSSProcessor } from './rss-processor'
+import { getCampaignPublication } from './publications'
+import type { FactCheckResult, ManualArticle, NewsTip, NewsletterCampaign } from '@/types/database'
+
+// Forms submitted faster than this were filled in by a bot
+const MIN_FILL_MS = 3000
+const MAX_LINKS = 3
+const MAX_TIPS_PER_DAY = 5
+// Vercel rejects request bodies over 4.5MB; leave room for the rest of the form
+const MAX_PHOTO_BYTES = 4 * 1024 * 1024
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+}
+
+export interface TipSubmission {
+  publicationId: string
+  headline: string
+  details: string
+  location?: string | null
+  sourceUrl?: string | null
+  submitterName: string
+  submitterEmail: string
+  submitterPhone?: string | null
+  contactOk: boolean
+  // Spam signals from the form
+  honeypot?: string | null
+  startedAt?: number | null
+  ipAddress?: string | null
+}
+
+export type SpamCheck =
+  | { action: 'accept', reasons: string[] }
+  | { action: 'discard' }
+  | { action: 'rate_limited' }
+
+export function hashIpAddress(ipAddress: string): string {
+  return crypto.createHash('sha256').update(ipAddress).digest('hex')
+}
+
+/**
+ * Decide what to do with a submission. Accepted tips with reasons go to the spam tab.
+ */
+export async function checkTipForSpam(submission: TipSubmission): Promise<SpamCheck> {
+  // Only bots fill in the hidden field; pretend it worked
+  if (submission.honeypot) {
+    return { action: 'discard' }
+  }
+
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+  // Quoted so commas in an address can't break the filter
+  const email = submission.submitterEmail.toLowerCase().replace(/"/g, '')
+  const submitterFilter = submission.ipAddress
+    ? `submitter_email.eq."${email}",submitter_ip_hash.eq.${hashIpAddress(submission.ipAddress)}`
+    : `submitter_email.eq."${email}"`
+
+  const { count } = await supabaseAdmin
+    .from('news_tips')
+    .select('id', { count: 'exact', head: true })
+    .gte('created_at', since)
+    .or(submitterFilter)
+
+  if ((count || 0) >= MAX_TIPS_PER_DAY) {
+    return { action: 'rate_limited' }
+  }
+
+  const reasons: string[] = []
+  if (submission.startedAt && Date.now() - submission.startedAt < MIN_FILL_MS) {
+    reasons.push('Submitted seconds after the form opened')
+  }
+
+  const links = `${submission.headline} ${submission.details}`.match(/https?:\/\//gi) || []
+  if (links.length > MAX_LINKS) {
+    reasons.push(`Contains ${links.length} links`)
+  }
+
+  if (submission.details.trim().length < 20) {
+    reasons.push('Very little detail')
+  }
+
+  return { action: 'accept', reasons }
+}
+
+/**
+ * Store a reader's photo in the images database so editors can use it like any library image
+ */
+export async function storeTipPhoto(photo: Blob, fileName: string, credit: string): Promise<string> {
+  const extension = PHOTO_EXTENSIONS[photo.type]
+  if (!extension) {
+    throw new Error('Photos must be JPEG, PNG, GIF or WebP images')
+  }
+  if (photo.size > MAX_PHOTO_BYTES) {
+    throw new Error('Photos must be 4MB or smaller')
+  }
+
+  const imageId = uuidv4()
+  const objectKey = `original/${imageId}.${extension}`
+  const storage = getObjectStorage()
+
+  await storage.put(objectKey, Buffer.from(await photo.arrayBuffer()), photo.type)
+
+  const { error } = await supabaseAdmin
+    .from('images')
+    .insert({
+      id: imageId,
+      object_key: objectKey,
+      cdn_url: storage.getPublicUrl(objectKey),
+      original_file_name: fileName,
+      source: 'reader_tip',
+      credit,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+
+  if (error) {
+    await storage.delete([objectKey])
+    throw error
+  }
+
+  return imageId
+}
+
+export async function createNewsTip(submission: TipSubmission, spamReasons: string[], imageId: string | null): Promise<NewsTip> {
+  const { data, error } = await supabaseAdmin
+    .from('news_tips')
+    .insert([{
+      publication_id: submission.publicationId,
+      headline: submission.headline,
+      details: submission.details,
+      location: submission.location || null,
+      source_url: submission.sourceUrl || null,
+      image_id: imageId,
+      submitter_name: submission.submitterName,
+      submitter_email: submission.submitterEmail.toLowerCase(),
+      submitter_phone: submission.submitterPhone || null,
+      contact_ok: submission.contactOk,
+      submitter_ip_hash: submission.ipAddress ? hashIpAddress(submission.ipAddress) : null,
+      status: spamReasons.length > 0 ? 'spam' : 'pending',
+      spam_reasons: spamReasons
+    }])
+    .select('*')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Write a draft article from a tip for a campaign and mark the tip promoted.
+ * The draft is saved even when the fact check fails; editors see the score and decide.
+ */
+export async function promoteTipToArticle(
+  tip: NewsTip,
+  campaign: Pick<NewsletterCampaign, 'id' | 'publication_id'>,
+  reviewer: { id: string, email: string }
+): Promise<{ article: ManualArticle, factCheck: FactCheckResult }> {
+  const publication = await getCampaignPublication(campaign)
+  const originalContent = [tip.details, tip.location ? `Location: ${tip.location}` : '']
+    .filter(Boolean)
+    .join('\n\n')
+
+  const processor = new RSSProcessor()
+  const content = await processor.generateNewsletterContent({
+    title: tip.headline,
+    description: tip.details,
+    content: originalContent,
+    source_url: tip.source_url
+  }, undefined, publication)
+  const factCheck = await processor.factCheckContent(content.content, originalContent)
+
+  let imageUrl: string | null = null
+  if (tip.image_id) {
+    const { data: image } = await supabaseAdmin
+      .from('images')
+      .select('cdn_url')
+      .eq('id', tip.image_id)
+      .single()
+    imageUrl = image?.cdn_url || null
+  }
+
+  const { data: article, error } = await supabaseAdmin
+    .from('manual_articles')
+    .insert([{
+      campaign_id: campaign.id,
+      title: content.headline,
+      content: content.content,
+      image_url: imageUrl,
+      source_url: tip.source_url,
+      created_by: reviewer.id,
+      news_tip_id: tip.id,
+      is_active: false
+    }])
+    .select('*')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  const now = new Date().toISOString()
+  const { error: updateError } = await supabaseAdmin
+    .from('news_tips')
+    .update({
+      status: 'promoted',
+      campaign_id: campaign.id,
+      manual_article_id: article.id,
+      fact_check_score: factCheck.score,
+      fact_check_details: factCheck.details,
+      reviewed_by: reviewer.email,
+      reviewed_at: now,
+      updated_at: now
+    })
+    .eq('id', tip.id)
+
+  if (updateError) {
+    throw updateError
+  }
+
+  return { article, factCheck }
+}
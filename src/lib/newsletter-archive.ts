@@ -0,0 +1,205 @@
+// Newsletter archive: web and plain-text renditions of sent newsletters
+
+import * as cheerio from 'cheerio'
+import { supabaseAdmin } from './supabase'
+import type { NewsletterArchive, Publication } from '@/types/database'
+
+const baseUrl = () => process.env.NEXT_PUBLIC_APP_URL || 'https://st-cloud-scoop.vercel.app'
+
+// Archive pages without a publication parameter show the default publication
+const publicationQuery = (publicationSlug?: string) =>
+  publicationSlug ? `?publication=${encodeURIComponent(publicationSlug)}` : ''
+
+/**
+ * Public URL for the web version of a newsletter
+ */
+export function getArchiveUrl(campaignDate: string, publicationSlug?: string): string {
+  return `${baseUrl()}/archive/${campaignDate}${publicationQuery(publicationSlug)}`
+}
+
+export function getArchiveIndexUrl(publicationSlug?: string): string {
+  return `${baseUrl()}/archive${publicationQuery(publicationSlug)}`
+}
+
+export function getArchiveFeedUrl(publicationSlug?: string): string {
+  return `${baseUrl()}/archive/feed.xml${publicationQuery(publicationSlug)}`
+}
+
+/**
+ * Section preferences page; MailerLite fills in the subscriber's email and signed token
+ */
+export function getPreferencesUrl(publicationSlug: string): string {
+  return `${baseUrl()}/preferences?publication=${encodeURIComponent(publicationSlug)}&email={$email}&token={$preferences_token}`
+}
+
+/**
+ * Replace MailerLite merge tags so the HTML works outside an email client
+ */
+export function prepareArchiveHtml(html: string, campaignDate: string, publicationSlug?: string): string {
+  const archiveUrl = getArchiveUrl(campaignDate, publicationSlug)
+  return html
+    .replace(/\{\$url\}/g, archiveUrl)
+    .replace(/\{\$forward\}/g, archiveUrl)
+    .replace(/\{\$unsubscribe\}/g, baseUrl())
+    .replace(/\{\$email\}/g, '')
+    .replace(/\{\$preferences_token\}/g, '')
+}
+
+/**
+ * Convert newsletter HTML into a readable plain-text alternative
+ */
+export function generatePlainText(html: string): string {
+  const $ = cheerio.load(html)
+
+  $('style, script, head, title').remove()
+  // MSO conditional comments and hidden mobile duplicates add noise
+  $('.desktop_hide, .weather-mobile').remove()
+
+  $('img').each((_, el) => {
+    const alt = $(el).attr('alt')
+    $(el).replaceWith(alt ? `[${alt}]` : '')
+  })
+
+  $('a').each((_, el) => {
+    const href = $(el).attr('href') || ''
+    const text = $(el).text().trim()
+    if (!href || href === '#' || href === text) {
+      $(el).replaceWith(text)
+    } else if (!text) {
+      $(el).replaceWith(href)
+    } else {
+      $(el).replaceWith(`${text} (${href})`)
+    }
+  })
+
+  $('h1, h2, h3').each((_, el) => {
+    const text = $(el).text().trim().toUpperCase()
+    $(el).replaceWith(`\n\n${text}\n${'='.repeat(text.length)}\n`)
+  })
+
+  $('br').replaceWith('\n')
+  $('p, div, tr, li').each((_, el) => {
+    $(el).append('\n')
+  })
+  $('td').each((_, el) => {
+    $(el).append(' ')
+  })
+
+  return $.root().text()
+    .replace(/ /g, ' ')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Store the sent HTML and its plain-text rendition for the public archive
+ */
+export async function saveNewsletterArchive(
+  publication: Publication,
+  campaign: { id: string, date: string, subject_line: string | null },
+  html: string,
+  plainText: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('newsletter_archives')
+    .upsert({
+      campaign_id: campaign.id,
+      campaign_date: campaign.date,
+      subject_line: campaign.subject_line,
+      html_content: prepareArchiveHtml(html, campaign.date, publication.slug),
+      text_content: plainText,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'campaign_id'
+    })
+
+  if (error) {
+    throw new Error(`Failed to save newsletter archive: ${error.message}`)
+  }
+}
+
+/**
+ * Get a publication's archived newsletter for a date, only if the campaign has been sent
+ */
+export async function getArchivedNewsletter(publication: Publication, campaignDate: string): Promise<NewsletterArchive | null> {
+  const { data, error } = await supabaseAdmin
+    .from('newsletter_archives')
+    .select('*, campaign:newsletter_campaigns!inner(status, publication_id)')
+    .eq('campaign_date', campaignDate)
+    .eq('campaign.publication_id', publication.id)
+    .eq('campaign.status', 'sent')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching archived newsletter:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * List a publication's sent newsletters, newest first
+ */
+export async function listArchivedNewsletters(publication: Publication, limit: number = 30): Promise<NewsletterArchive[]> {
+  const { data, error } = await supabaseAdmin
+    .from('newsletter_archives')
+    .select('*, campaign:newsletter_campaigns!inner(status, publication_id)')
+    .eq('campaign.publication_id', publication.id)
+    .eq('campaign.status', 'sent')
+    .order('campaign_date', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error listing archived newsletters:', error)
+    return []
+  }
+
+  return data || []
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Build an RSS 2.0 feed of a publication's past issues
+ */
+export function generateArchiveFeed(publication: Publication, archives: NewsletterArchive[]): string {
+  const items = archives.map(archive => {
+    const url = getArchiveUrl(archive.campaign_date, publication.slug)
+    const title = archive.subject_line || `${publication.name} - ${archive.campaign_date}`
+    const pubDate = new Date(`${archive.campaign_date}T12:00:00Z`).toUTCString()
+    const summary = archive.text_content.slice(0, 500)
+
+    return `
+    <item>
+      <title>${escapeXml(title)}</title>
+      <link>${escapeXml(url)}</link>
+      <guid isPermaLink="true">${escapeXml(url)}</guid>
+      <pubDate>${pubDate}</pubDate>
+      <description>${escapeXml(summary)}</description>
+    </item>`
+  }).join('')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(publication.name)}</title>
+    <link>${escapeXml(getArchiveIndexUrl(publication.slug))}</link>
+    <atom:link href="${escapeXml(getArchiveFeedUrl(publication.slug))}" rel="self" type="application/rss+xml" />
+    <description>${escapeXml(`Past issues of the ${publication.name} newsletter`)}</description>
+    <language>en-us</language>${items}
+  </channel>
+</rss>`
+}
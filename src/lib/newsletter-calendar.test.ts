@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addDays,
+  centralWallTimeToInstant,
+  getCentralDate,
+  getCentralTime,
+  getEventDays
+} from './newsletter-calendar'
+
+// 2026 transitions in Central Time:
+// spring forward Sun Mar 8, 2:00 AM CST -> 3:00 AM CDT (08:00 UTC)
+// fall back      Sun Nov 1, 2:00 AM CDT -> 1:00 AM CST (07:00 UTC)
+
+describe('centralWallTimeToInstant', () => {
+  it('uses CST before and CDT after spring-forward', () => {
+    expect(centralWallTimeToInstant('2026-03-07', 20, 0).toISOString()).toBe('2026-03-08T02:00:00.000Z')
+    expect(centralWallTimeToInstant('2026-03-08', 1, 30).toISOString()).toBe('2026-03-08T07:30:00.000Z')
+    expect(centralWallTimeToInstant('2026-03-08', 3, 0).toISOString()).toBe('2026-03-08T08:00:00.000Z')
+    expect(centralWallTimeToInstant('2026-03-08', 20, 0).toISOString()).toBe('2026-03-09T01:00:00.000Z')
+  })
+
+  it('resolves a time skipped by spring-forward to the hour before', () => {
+    expect(centralWallTimeToInstant('2026-03-08', 2, 30).toISOString()).toBe('2026-03-08T07:30:00.000Z')
+  })
+
+  it('uses CDT before and CST after fall-back', () => {
+    expect(centralWallTimeToInstant('2026-10-31', 20, 0).toISOString()).toBe('2026-11-01T01:00:00.000Z')
+    expect(centralWallTimeToInstant('2026-11-01', 3, 0).toISOString()).toBe('2026-11-01T09:00:00.000Z')
+    expect(centralWallTimeToInstant('2026-11-01', 20, 0).toISOString()).toBe('2026-11-02T02:00:00.000Z')
+  })
+
+  it('resolves a time repeated by fall-back to its first occurrence', () => {
+    expect(centralWallTimeToInstant('2026-11-01', 1, 30).toISOString()).toBe('2026-11-01T06:30:00.000Z')
+  })
+
+  it('round-trips every evening send time through the DST weeks', () => {
+    for (const start of ['2026-03-05', '2026-10-29']) {
+      for (let i = 0; i < 7; i++) {
+        const date = addDays(start, i)
+        const central = getCentralTime(centralWallTimeToInstant(date, 20, 0))
+        expect(central.date).toBe(date)
+        expect(central.timeString).toBe('20:00')
+      }
+    }
+  })
+})
+
+describe('getCentralTime', () => {
+  it('reads the wall clock on either side of spring-forward', () => {
+    expect(getCentralTime(new Date('2026-03-08T07:59:00Z'))).toEqual({ date: '2026-03-08', hours: 1, minutes: 59, timeString: '01:59' })
+    expect(getCentralTime(new Date('2026-03-08T08:00:00Z'))).toEqual({ date: '2026-03-08', hours: 3, minutes: 0, timeString: '03:00' })
+  })
+
+  it('reads the repeated hour twice at fall-back', () => {
+    expect(getCentralTime(new Date('2026-11-01T06:30:00Z')).timeString).toBe('01:30')
+    expect(getCentralTime(new Date('2026-11-01T07:30:00Z')).timeString).toBe('01:30')
+  })
+
+  it('keeps the 8 PM cron on the Central date, not the UTC date', () => {
+    expect(getCentralTime(new Date('2026-03-09T01:00:00Z'))).toEqual({ date: '2026-03-08', hours: 20, minutes: 0, timeString: '20:00' })
+    expect(getCentralTime(new Date('2026-11-02T02:00:00Z'))).toEqual({ date: '2026-11-01', hours: 20, minutes: 0, timeString: '20:00' })
+    expect(getCentralDate(new Date('2026-11-02T02:00:00Z'))).toBe('2026-11-01')
+  })
+
+  it('formats midnight as 00:00', () => {
+    expect(getCentralTime(new Date('2026-03-09T05:00:00Z')).timeString).toBe('00:00')
+    expect(getCentralTime(new Date('2026-11-02T06:00:00Z')).timeString).toBe('00:00')
+  })
+})
+
+describe('addDays', () => {
+  it('moves one calendar day at a time across the transitions', () => {
+    expect(addDays('2026-03-07', 1)).toBe('2026-03-08')
+    expect(addDays('2026-03-08', 1)).toBe('2026-03-09')
+    expect(addDays('2026-10-31', 1)).toBe('2026-11-01')
+    expect(addDays('2026-11-01', 1)).toBe('2026-11-02')
+  })
+
+  it('spans a whole DST week in both directions', () => {
+    expect(addDays('2026-03-05', 7)).toBe('2026-03-12')
+    expect(addDays('2026-03-12', -7)).toBe('2026-03-05')
+    expect(addDays('2026-10-29', 7)).toBe('2026-11-05')
+    expect(addDays('2026-11-05', -7)).toBe('2026-10-29')
+  })
+})
+
+describe('getEventDays', () => {
+  it('keeps an overnight show on its first day across spring-forward', () => {
+    expect(getEventDays({ start_date: '2026-03-07T21:00:00', end_date: '2026-03-08T01:00:00' }))
+      .toEqual({ firstDay: '2026-03-07', lastDay: '2026-03-07' })
+  })
+
+  it('keeps an overnight show on its first day across fall-back', () => {
+    // Ends at 1:30 AM CST, after the clocks went back
+    expect(getEventDays({ start_date: '2026-10-31T21:00:00-05:00', end_date: '2026-11-01T07:30:00Z' }))
+      .toEqual({ firstDay: '2026-10-31', lastDay: '2026-10-31' })
+  })
+
+  it('converts UTC timestamps with the offset in effect on the day', () => {
+    expect(getEventDays({ start_date: '2026-03-08T04:30:00Z' })).toEqual({ firstDay: '2026-03-07', lastDay: '2026-03-07' })
+    expect(getEventDays({ start_date: '2026-03-09T04:30:00Z' })).toEqual({ firstDay: '2026-03-08', lastDay: '2026-03-08' })
+    expect(getEventDays({ start_date: '2026-11-01T05:30:00Z' })).toEqual({ firstDay: '2026-11-01', lastDay: '2026-11-01' })
+    expect(getEventDays({ start_date: '2026-11-02T05:30:00Z' })).toEqual({ firstDay: '2026-11-01', lastDay: '2026-11-01' })
+  })
+
+  it('covers every day of a multi-day event spanning a transition', () => {
+    expect(getEventDays({ start_date: '2026-10-30T10:00:00', end_date: '2026-11-02T16:00:00' }))
+      .toEqual({ firstDay: '2026-10-30', lastDay: '2026-11-02' })
+    expect(getEventDays({ start_date: '2026-03-06T18:00:00', end_date: '2026-03-08T14:00:00' }))
+      .toEqual({ firstDay: '2026-03-06', lastDay: '2026-03-08' })
+  })
+})
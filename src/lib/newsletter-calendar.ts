@@ -0,0 +1,199 @@
+// Newsletter Calendar
+// The newsletter runs on Central Time. Calendar dates (campaign dates, event days, run dates) are
+// 'YYYY-MM-DD' strings and all date arithmetic is done on those strings, so results don't depend on
+// the server's or browser's time zone and don't shift across DST transitions.
+// Safe to import from client components.
+
+export const NEWSLETTER_TIME_ZONE = 'America/Chicago'
+
+// An event that ends before this hour is treated as ending the night before:
+// a 9 PM - 1 AM show only happens on its first day
+const OVERNIGHT_END_HOUR = 6
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const centralDateFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: NEWSLETTER_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+})
+
+const centralTimeFormatter = new Intl.DateTimeFormat('en-GB', {
+  timeZone: NEWSLETTER_TIME_ZONE,
+  hour: '2-digit',
+  minute: '2-digit',
+  hour12: false
+})
+
+export interface CentralTime {
+  date: string
+  hours: number
+  minutes: number
+  // HH:MM, the format schedule settings are stored in
+  timeString: string
+}
+
+export interface CalendarEvent {
+  start_date: string
+  end_date?: string | null
+}
+
+function toUtcDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function fromUtcDate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Calendar date in Central Time of an instant (today by default)
+ */
+export function getCentralDate(instant: Date = new Date()): string {
+  return centralDateFormatter.format(instant)
+}
+
+/**
+ * Central Time wall clock of an instant (now by default)
+ */
+export function getCentralTime(instant: Date = new Date()): CentralTime {
+  // Some engines format midnight as 24:00 with hour12: false
+  const [hourPart, minutePart] = centralTimeFormatter.format(instant).split(':')
+  const hours = Number(hourPart) % 24
+  const minutes = Number(minutePart)
+  const timeString = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`
+
+  return { date: getCentralDate(instant), hours, minutes, timeString }
+}
+
+/**
+ * The instant a Central Time wall-clock time occurs. A time skipped by spring-forward resolves
+ * to the hour before; a time repeated by fall-back resolves to its first occurrence.
+ */
+export function centralWallTimeToInstant(date: string, hours: number, minutes: number): Date {
+  const wallAsUtc = toUtcDate(date).getTime() + (hours * 60 + minutes) * 60 * 1000
+  const firstGuess = wallAsUtc - getCentralOffsetMs(new Date(wallAsUtc))
+  const offset = getCentralOffsetMs(new Date(firstGuess))
+  return new Date(wallAsUtc - offset)
+}
+
+// Central Time's offset from UTC at an instant (negative: -5h in CDT, -6h in CST)
+function getCentralOffsetMs(instant: Date): number {
+  const wall = getCentralTime(instant)
+  const wallAsUtc = toUtcDate(wall.date).getTime() + (wall.hours * 60 + wall.minutes) * 60 * 1000
+  return wallAsUtc - Math.floor(instant.getTime() / 60000) * 60000
+}
+
+/**
+ * e.g. "Tue, Dec 24, 8:30 PM"
+ */
+export function formatCentralDateTime(instant: Date): string {
+  return instant.toLocaleString('en-US', {
+    timeZone: NEWSLETTER_TIME_ZONE,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+}
+
+export function addDays(date: string, days: number): string {
+  return fromUtcDate(new Date(toUtcDate(date).getTime() + days * DAY_MS))
+}
+
+/**
+ * The same day of the month, months later; clamped in shorter months (Jan 31 + 1 month = Feb 28)
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  const lastDay = new Date(Date.UTC(year, month + months, 0)).getUTCDate()
+  return fromUtcDate(new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))))
+}
+
+/**
+ * Whole calendar days from one date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcDate(to).getTime() - toUtcDate(from).getTime()) / DAY_MS)
+}
+
+/**
+ * 0 = Sunday ... 6 = Saturday
+ */
+export function getDayOfWeek(date: string): number {
+  return toUtcDate(date).getUTCDay()
+}
+
+/**
+ * Format a calendar date with toLocaleDateString options, e.g. { weekday: 'long' }
+ */
+export function formatCalendarDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return toUtcDate(date).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+}
+
+/**
+ * The days a campaign covers: its own date and the days after it
+ */
+export function getCampaignDates(campaignDate: string, days: number = 3): string[] {
+  return Array.from({ length: days }, (_, i) => addDays(campaignDate, i))
+}
+
+/**
+ * Central wall clock of an event timestamp. Event times are stored as Central wall-clock
+ * timestamps without an offset and are read literally; values with an offset are converted.
+ */
+export function toCentralWallClock(value: string): CentralTime {
+  const match = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2}))?/.exec(value)
+  const hasOffset = /[T ]\d{2}:\d{2}.*(Z|[+-]\d{2}(:?\d{2})?)$/.test(value)
+
+  if (!match || hasOffset) {
+    return getCentralTime(new Date(value))
+  }
+
+  const hours = Number(match[2] || 0)
+  const minutes = Number(match[3] || 0)
+  return {
+    date: match[1],
+    hours,
+    minutes,
+    timeString: `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`
+  }
+}
+
+/**
+ * First and last local day an event occurs on. Multi-day events cover every day in between;
+ * an end time in the early morning counts toward the previous day.
+ */
+export function getEventDays(event: CalendarEvent): { firstDay: string, lastDay: string } {
+  const start = toCentralWallClock(event.start_date)
+  const end = event.end_date ? toCentralWallClock(event.end_date) : start
+
+  let lastDay = end.date
+  if (end.date > start.date && end.hours < OVERNIGHT_END_HOUR) {
+    lastDay = addDays(end.date, -1)
+  }
+
+  return { firstDay: start.date, lastDay: lastDay < start.date ? start.date : lastDay }
+}
+
+export function eventOccursOn(event: CalendarEvent, date: string): boolean {
+  const { firstDay, lastDay } = getEventDays(event)
+  return firstDay <= date && date <= lastDay
+}
+
+/**
+ * Query bounds for events that may occur on the given dates: started by the end of the last
+ * date, and either started on/after the first date or still running then (multi-day events).
+ * Narrow the results with eventOccursOn.
+ */
+export function getEventQueryRange(dates: string[]): { startsBefore: string, overlapFilter: string } {
+  const from = `${dates[0]}T00:00:00`
+  return {
+    startsBefore: `${dates[dates.length - 1]}T23:59:59`,
+    // Quoted because timestamps contain PostgREST's reserved ':' character
+    overlapFilter: `start_date.gte."${from}",end_date.gte."${from}"`
+  }
+}
@@ -0,0 +1,198 @@
+// Newsletter section registry
+// Maps each newsletter_sections row to a renderer so preview, review and final sends share one code path
+
+import { supabaseAdmin } from './supabase'
+import { getWeatherForCampaign } from './weather-manager'
+import { generateWeatherAlertBanner } from './weather-alerts'
+import { getCampaignPublication } from './publications'
+import {
+  generateLocalScoopSection,
+  generateLocalEventsSection,
+  generateWordleSection,
+  generateMinnesotaGetawaysSection,
+  generateDiningDealsSection,
+  generateRoadWorkSection,
+  generatePollSection,
+  generateFeedbackSection,
+  generateCommunityBusinessSpotlightSection
+} from './newsletter-templates'
+import type { NewsletterSection, Publication } from '@/types/database'
+
+export type SectionRenderMode = 'preview' | 'review' | 'final'
+
+/**
+ * Sections whose renderer threw while rendering an issue that goes out by email
+ */
+export class SectionRenderError extends Error {
+  constructor(public sections: string[]) {
+    super(`Failed to render newsletter section${sections.length > 1 ? 's' : ''}: ${sections.join(', ')}`)
+    this.name = 'SectionRenderError'
+  }
+}
+
+export interface SectionRenderContext {
+  campaign: any
+  publication: Publication
+  activeArticles: any[]
+  mode: SectionRenderMode
+}
+
+/**
+ * A personalized edition: sections dropped from the issue and inactive sections added to it
+ */
+export interface SectionVariant {
+  hide: string[]
+  force: string[]
+}
+
+export type SectionRenderer = (
+  context: SectionRenderContext,
+  config: Record<string, any>
+) => Promise<string | null>
+
+/**
+ * Renderers keyed by newsletter_sections.renderer_key.
+ * Each renderer receives the row's config JSON and returns HTML (or null/'' to skip the section).
+ */
+export const SECTION_RENDERERS: Record<string, SectionRenderer> = {
+  local_scoop: async ({ campaign, activeArticles }, config) => {
+    if (activeArticles.length === 0) return null
+    const articles = config.max_articles ? activeArticles.slice(0, config.max_articles) : activeArticles
+    // Note: mailerlite_campaign_id is undefined during preview, only available after sending
+    return generateLocalScoopSection(articles, campaign.date, undefined)
+  },
+  local_events: async ({ campaign }) => generateLocalEventsSection(campaign),
+  poll: async ({ campaign }) => generatePollSection(campaign.id),
+  feedback: async ({ campaign, publication }) => generateFeedbackSection(campaign, publication),
+  weather: async ({ campaign }) => getWeatherForCampaign(campaign.id),
+  wordle: async ({ campaign }) => generateWordleSection(campaign),
+  minnesota_getaways: async ({ campaign }) => generateMinnesotaGetawaysSection(campaign),
+  dining_deals: async ({ campaign }) => generateDiningDealsSection(campaign),
+  road_work: async ({ campaign, publication }) => generateRoadWorkSection(campaign, publication),
+  // Record ad usage for final campaigns only
+  community_business_spotlight: async ({ campaign, publication, mode }) =>
+    generateCommunityBusinessSpotlightSection(campaign, mode === 'final', publication)
+}
+
+// Sections created before renderer_key existed are matched by name
+const LEGACY_SECTION_NAMES: Record<string, string> = {
+  'The Local Scoop': 'local_scoop',
+  'Local Events': 'local_events',
+  'Poll': 'poll',
+  'Local Weather': 'weather',
+  "Yesterday's Wordle": 'wordle',
+  'Minnesota Getaways': 'minnesota_getaways',
+  'Dining Deals': 'dining_deals',
+  'Road Work': 'road_work',
+  'Community Business Spotlight': 'community_business_spotlight'
+}
+
+// Used when no sections are configured in the database
+const DEFAULT_SECTION_KEYS = ['local_scoop', 'local_events']
+
+/**
+ * Display name for a renderer's section (the legacy name where one exists)
+ */
+export function getDefaultSectionName(key: string): string {
+  const legacyName = Object.keys(LEGACY_SECTION_NAMES).find(name => LEGACY_SECTION_NAMES[name] === key)
+  return legacyName || key.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+}
+
+export function isValidRendererKey(key: string): boolean {
+  return key in SECTION_RENDERERS
+}
+
+export function resolveRendererKey(section: Pick<NewsletterSection, 'name' | 'renderer_key'>): string | null {
+  return section.renderer_key || LEGACY_SECTION_NAMES[section.name] || null
+}
+
+/**
+ * Fetch a publication's active newsletter sections in display order
+ */
+export async function getActiveNewsletterSections(publicationId: string): Promise<NewsletterSection[]> {
+  const { data: sections } = await supabaseAdmin
+    .from('newsletter_sections')
+    .select('*')
+    .eq('publication_id', publicationId)
+    .eq('is_active', true)
+    .order('display_order', { ascending: true })
+
+  return sections || []
+}
+
+/**
+ * Fetch all of a publication's newsletter sections, active or not, in display order
+ */
+export async function getNewsletterSections(publicationId: string): Promise<NewsletterSection[]> {
+  const { data: sections } = await supabaseAdmin
+    .from('newsletter_sections')
+    .select('*')
+    .eq('publication_id', publicationId)
+    .order('display_order', { ascending: true })
+
+  return sections || []
+}
+
+/**
+ * Render all active sections for a campaign in configured order.
+ * A variant renders a subscriber's personalized edition instead.
+ * Previews leave out sections that fail to render; review and final sends throw a SectionRenderError
+ * rather than email an issue with sections silently missing.
+ */
+export async function renderNewsletterSections(campaign: any, mode: SectionRenderMode, variant?: SectionVariant): Promise<string> {
+  // Filter active articles and sort by rank (custom order)
+  const activeArticles = (campaign.articles || [])
+    .filter((article: any) => article.is_active)
+    .sort((a: any, b: any) => (a.rank || 999) - (b.rank || 999))
+
+  console.log(`[Sections:${mode}] Active articles to render:`, activeArticles.length)
+  console.log(`[Sections:${mode}] Article order:`, activeArticles.map((a: any) => `${a.headline} (rank: ${a.rank})`).join(', '))
+
+  const publication = await getCampaignPublication(campaign)
+  const context: SectionRenderContext = { campaign, publication, activeArticles, mode }
+  const sections = variant && variant.force.length > 0
+    ? (await getNewsletterSections(publication.id))
+        .filter(section => section.is_active || variant.force.includes(resolveRendererKey(section) || ''))
+    : await getActiveNewsletterSections(publication.id)
+
+  console.log(`[Sections:${mode}] Active newsletter sections:`, sections.map(s => `${s.name} (order: ${s.display_order})`).join(', '))
+
+  const entries: { key: string | null, name: string, config: Record<string, any> }[] = sections.length > 0
+    ? sections.map(section => ({ key: resolveRendererKey(section), name: section.name, config: section.config || {} }))
+    : DEFAULT_SECTION_KEYS.map(key => ({ key, name: key, config: {} }))
+
+  if (sections.length === 0) {
+    console.log(`[Sections:${mode}] No sections found, using default order`)
+  }
+
+  // Severe-weather banner goes above every configured section while a watch or warning is in effect
+  let sectionsHtml = await generateWeatherAlertBanner(publication)
+  const failedSections: string[] = []
+  for (const entry of entries) {
+    if (variant && entry.key && variant.hide.includes(entry.key)) {
+      continue
+    }
+
+    const renderer = entry.key ? SECTION_RENDERERS[entry.key] : undefined
+    if (!renderer) {
+      console.warn(`[Sections:${mode}] No renderer registered for section "${entry.name}" (key: ${entry.key}), skipping`)
+      continue
+    }
+
+    try {
+      const html = await renderer(context, entry.config)
+      if (html) {
+        sectionsHtml += html
+      }
+    } catch (error) {
+      console.error(`[Sections:${mode}] Error rendering section "${entry.name}":`, error)
+      failedSections.push(entry.name)
+    }
+  }
+
+  if (failedSections.length > 0 && mode !== 'preview') {
+    throw new SectionRenderError(failedSections)
+  }
+
+  return sectionsHtml
+}
@@ -7,26 +7,25 @@ import { selectDiningDealsForCampaign } from './dining-selector'
 import { generateDailyRoadWork, getSelectedRoadWorkItemsForCampaign, storeRoadWorkItems, generateRoadWorkHTML } from './road-work-manager'
 import { wrapTrackingUrl } from './url-tracking'
 import { AdScheduler } from './ad-scheduler'
+import { getArchiveUrl } from './newsletter-archive'
+import { FEEDBACK_RATINGS } from './reader-feedback'
+import { addDays, getCampaignDates, getEventQueryRange, eventOccursOn, formatCalendarDate, toCentralWallClock } from './newsletter-calendar'
+import { DEFAULT_BRANDING, getCampaignPublication, type PublicationBranding } from './publications'
+import type { Advertisement, Publication } from '@/types/database'
 
 // ==================== UTILITY FUNCTIONS ====================
 
 export function formatEventDate(dateStr: string): string {
-  // Parse date as local date to avoid timezone offset issues
-  const [year, month, day] = dateStr.split('-').map(Number)
-  const date = new Date(year, month - 1, day) // month is 0-indexed
-  const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'long' })
-  const monthName = date.toLocaleDateString('en-US', { month: 'long' })
-  const dayNum = date.getDate()
-  return `${dayOfWeek}, ${monthName} ${dayNum}`
+  return formatCalendarDate(dateStr, { weekday: 'long', month: 'long', day: 'numeric' })
 }
 
 export function formatEventTime(startDate: string, endDate: string): string {
-  const start = new Date(startDate)
-  const end = new Date(endDate)
+  const start = toCentralWallClock(startDate)
+  const end = toCentralWallClock(endDate || startDate)
 
-  const formatTime = (date: Date) => {
-    let hours = date.getHours()
-    const minutes = date.getMinutes()
+  const formatTime = (time: { hours: number, minutes: number }) => {
+    let hours = time.hours
+    const minutes = time.minutes
     const ampm = hours >= 12 ? 'PM' : 'AM'
     hours = hours % 12 || 12
     const minuteStr = minutes === 0 ? '' : `:${minutes.toString().padStart(2, '0')}`
@@ -155,19 +154,24 @@ export function getEventEmoji(title: string, venue: string): string {
 
 // ==================== HEADER ====================
 
-export function generateNewsletterHeader(formattedDate: string): string {
+export function generateNewsletterHeader(formattedDate: string, editionName?: string | null, branding: PublicationBranding = DEFAULT_BRANDING): string {
+  // Special editions from the schedule calendar are named under the logo
+  const headerDate = editionName ? `${formattedDate} · ${editionName}` : formattedDate
+  const logoHtml = branding.logo_url
+    ? `<img alt='${branding.name}' src='${branding.logo_url}' style='width:100%;max-width:500px;height:auto;margin-bottom:2px;'/>`
+    : `<div style='color:#fff;font-size:32px;font-weight:bold;padding:12px 0 4px;'>${branding.name}</div>`
   return `<html>
 <body style='margin:0!important;padding:0!important;background-color:#f7f7f7;'>
    <div style='width:100%;margin:0 auto;padding:10px;background-color:#f7f7f7;box-sizing:border-box;overflow-x:auto;'>
      <div style='width:100%;max-width:990px;margin:0 auto;padding:5px;text-align:right;font-weight:bold;'>
        <a href='{$url}' style='color:#000;text-decoration:underline;'>View Online</a>&nbsp;|&nbsp;
-       <a href='https://stcscoop.com/' style='color:#000;text-decoration:underline;'>Sign Up</a>&nbsp;|&nbsp;
+       <a href='${branding.website_url}' style='color:#000;text-decoration:underline;'>Sign Up</a>&nbsp;|&nbsp;
        <a href='{$forward}' style='color:#000;text-decoration:underline;'>Share</a>
      </div>
      <div style='width:100%;max-width:990px;margin:0 auto;padding:0px;'>
-       <div style='font-family:Arial,sans-serif;background-color:#1877F2;text-align:center;border-radius:12px;border:1px solid #333;'>
-         <img alt='St. Cloud Scoop' src='https://raw.githubusercontent.com/VFDavid/STCScoop/refs/heads/main/STCSCOOP_Logo_824X148_clear.png' style='width:100%;max-width:500px;height:auto;margin-bottom:2px;'/>
-         <div style='color:#fff;font-size:16px;font-weight:bold;padding:0 0 5px;'>${formattedDate}</div>
+       <div style='font-family:Arial,sans-serif;background-color:${branding.brand_color};text-align:center;border-radius:12px;border:1px solid #333;'>
+         ${logoHtml}
+         <div style='color:#fff;font-size:16px;font-weight:bold;padding:0 0 5px;'>${headerDate}</div>
        </div>
      </div>
    </div>
@@ -231,27 +235,22 @@ export function generateLocalScoopSection(articles: any[], campaignDate: string,
 export async function generateLocalEventsSection(campaign: any): Promise<string> {
   console.log('Generating Local Events section for campaign:', campaign?.id)
 
-  // Calculate the 3-day date range in Central Time
-  const campaignDate = new Date(campaign.date + 'T00:00:00-05:00')
-  const dates: string[] = []
-  for (let i = 0; i < 3; i++) {
-    const currentDate = new Date(campaignDate)
-    currentDate.setDate(currentDate.getDate() + i)
-    dates.push(currentDate.toISOString().split('T')[0])
-  }
+  // The campaign date and the two days after it
+  const dates = getCampaignDates(campaign.date)
 
   const startDate = dates[0]
   const endDate = dates[2]
 
   console.log(`Looking for events between ${startDate} and ${endDate}`)
 
-  // Fetch all active events in date range
+  // Fetch all active events in date range, including multi-day events that started earlier
+  const range = getEventQueryRange(dates)
   const { data: availableEvents } = await supabaseAdmin
     .from('events')
     .select('*')
     .eq('active', true)
-    .gte('start_date', startDate + 'T00:00:00')
-    .lte('start_date', endDate + 'T23:59:59')
+    .lte('start_date', range.startsBefore)
+    .or(range.overlapFilter)
     .order('start_date', { ascending: true })
 
   console.log(`Found ${availableEvents?.length || 0} events for date range ${startDate} to ${endDate}`)
@@ -278,14 +277,7 @@ export async function generateLocalEventsSection(campaign: any): Promise<string>
     console.log(`Processing date: ${date}`)
 
     // Filter events that occur on this date
-    const dateStart = new Date(date + 'T00:00:00-05:00')
-    const dateEnd = new Date(date + 'T23:59:59-05:00')
-
-    const eventsForDate = (availableEvents || []).filter(event => {
-      const eventStart = new Date(event.start_date)
-      const eventEnd = event.end_date ? new Date(event.end_date) : eventStart
-      return (eventStart <= dateEnd && eventEnd >= dateStart)
-    })
+    const eventsForDate = (availableEvents || []).filter(event => eventOccursOn(event, date))
 
     console.log(`Found ${eventsForDate.length} available events for ${date}`)
 
@@ -400,10 +392,7 @@ export async function generateWordleSection(campaign: any): Promise<string> {
     console.log('Generating Wordle section for campaign:', campaign?.id)
 
     // Get yesterday's date from the newsletter date (since this is for "Yesterday's Wordle")
-    const newsletterDate = new Date(campaign.date + 'T00:00:00')
-    const yesterday = new Date(newsletterDate)
-    yesterday.setDate(yesterday.getDate() - 1)
-    const yesterdayDate = yesterday.toISOString().split('T')[0]
+    const yesterdayDate = addDays(campaign.date, -1)
 
     console.log('Looking for Wordle data for date:', yesterdayDate)
 
@@ -629,6 +618,48 @@ ${optionsHtml}
   }
 }
 
+// ==================== FEEDBACK SECTION ====================
+
+/**
+ * Rating buttons for the issue. Each click records the rating and opens a page where the
+ * reader can pick the sections they liked and leave a comment.
+ */
+export function generateFeedbackSection(campaign: any, publication: Publication): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://st-cloud-scoop.vercel.app'
+
+  const buttonsHtml = FEEDBACK_RATINGS.map(({ rating, emoji, label }) => `
+              <td align="center" style="padding:0 4px;">
+                <a href="${baseUrl}/api/feedback/track?publication=${encodeURIComponent(publication.slug)}&amp;date=${campaign.date}&amp;campaign_id=${campaign.id}&amp;rating=${rating}&amp;email={$email}"
+                   style="display:block; text-decoration:none; background:#ffffff; border:1px solid ${publication.brand_color}; border-radius:8px; padding:8px 6px; color:#333; font-size:12px;">
+                  <span style="display:block; font-size:24px; line-height:30px;">${emoji}</span>${label}
+                </a>
+              </td>`).join('')
+
+  return `
+<!-- Feedback card -->
+<table width="100%" cellpadding="0" cellspacing="0" border="0" role="presentation">
+  <tr>
+    <td style="padding:5px;">
+      <table width="100%" cellpadding="0" cellspacing="0" border="0" role="presentation"
+             style="width:100%; max-width:650px; margin:10px auto; background-color:#E8F0FE;
+                    border:2px solid ${publication.brand_color}; border-radius:10px; font-family:Arial, sans-serif;">
+        <tr>
+          <td style="padding:14px; color:#1a1a1a; font-size:16px; line-height:1.5; text-align:center;">
+            <p style="margin:0 0 6px 0; font-weight:bold; font-size:20px; color:${publication.brand_color}; text-align:center;">How was today's issue?</p>
+            <p style="margin:0 0 14px 0; font-size:14px; color:#333; text-align:center;">Tap a rating, then tell us which sections you liked.</p>
+            <table cellpadding="0" cellspacing="0" border="0" role="presentation" align="center" style="margin:0 auto;">
+              <tr>${buttonsHtml}
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </td>
+  </tr>
+</table>
+<br>`
+}
+
 // ==================== DINING DEALS ====================
 
 export async function generateDiningDealsSection(campaign: any): Promise<string> {
@@ -637,7 +668,7 @@ export async function generateDiningDealsSection(campaign: any): Promise<string>
 
     // Get campaign date to determine day of week
     const campaignDate = new Date(campaign.date + 'T00:00:00')
-    const dayOfWeek = campaignDate.toLocaleDateString('en-US', { weekday: 'long' })
+    const dayOfWeek = formatCalendarDate(campaign.date, { weekday: 'long' })
 
     console.log('Campaign date:', campaign.date, 'Day of week:', dayOfWeek)
 
@@ -651,7 +682,7 @@ export async function generateDiningDealsSection(campaign: any): Promise<string>
     }
 
     // Format the campaign date for display
-    const formattedDate = campaignDate.toLocaleDateString('en-US', {
+    const formattedDate = formatCalendarDate(campaign.date, {
       weekday: 'long',
       month: 'long',
       day: 'numeric'
@@ -724,64 +755,64 @@ export async function generateDiningDealsSection(campaign: any): Promise<string>
 
 // ==================== COMMUNITY BUSINESS SPOTLIGHT ====================
 
-export async function generateCommunityBusinessSpotlightSection(campaign: any, recordUsage: boolean = false): Promise<string> {
+export async function generateCommunityBusinessSpotlightSection(campaign: any, recordUsage: boolean = false, publication?: Publication): Promise<string> {
   try {
     console.log('Generating Community Business Spotlight section for campaign:', campaign?.id, 'recordUsage:', recordUsage)
 
-    // Check if ad already selected for this campaign
-    const { data: existingAd } = await supabaseAdmin
+    // Check if ads were already recorded for this campaign
+    const { data: existingAds } = await supabaseAdmin
       .from('campaign_advertisements')
       .select('*, advertisement:advertisements(*)')
       .eq('campaign_id', campaign.id)
-      .single()
+      .order('slot', { ascending: true })
 
-    let selectedAd = existingAd?.advertisement
+    let selectedAds: Advertisement[] = (existingAds || [])
+      .map((row: any) => row.advertisement)
+      .filter(Boolean)
 
-    // If no ad selected yet, use scheduler to select one
-    if (!selectedAd) {
-      console.log('No ad selected yet, using scheduler...')
-      selectedAd = await AdScheduler.selectAdForCampaign({
+    // If no ads selected yet, use the scheduler's plan for this date
+    if (selectedAds.length === 0) {
+      console.log('No ads selected yet, using scheduler...')
+      selectedAds = await AdScheduler.selectAdsForCampaign({
         campaignId: campaign.id,
-        campaignDate: campaign.date
+        campaignDate: campaign.date,
+        publication: publication || await getCampaignPublication(campaign)
       })
 
       // Record the usage ONLY if recordUsage is true (final campaign creation)
-      if (selectedAd && recordUsage) {
-        await AdScheduler.recordAdUsage(campaign.id, selectedAd.id, campaign.date)
-        console.log(`Selected and recorded ad usage: ${selectedAd.title}`)
-      } else if (selectedAd) {
-        console.log(`Selected ad (usage NOT recorded - preview only): ${selectedAd.title}`)
+      if (recordUsage) {
+        for (let index = 0; index < selectedAds.length; index++) {
+          await AdScheduler.recordAdUsage(campaign.id, selectedAds[index].id, campaign.date, index + 1)
+          console.log(`Selected and recorded ad usage: ${selectedAds[index].title} (slot ${index + 1})`)
+        }
+      } else if (selectedAds.length > 0) {
+        console.log(`Selected ads (usage NOT recorded - preview only): ${selectedAds.map(ad => ad.title).join(', ')}`)
       }
     } else {
-      console.log(`Using existing ad: ${selectedAd.title}`)
+      console.log(`Using existing ads: ${selectedAds.map(ad => ad.title).join(', ')}`)
     }
 
     // If no ad available, return empty section
-    if (!selectedAd) {
+    if (selectedAds.length === 0) {
       console.log('No advertisement available for this campaign')
       return ''
     }
 
-    // Generate HTML for the ad - matching Local Scoop layout
-    const businessUrl = selectedAd.business_website || '#'
-    const trackedUrl = businessUrl !== '#'
-      ? wrapTrackingUrl(businessUrl, 'Community Business Spotlight', campaign.date, campaign.mailerlite_campaign_id)
-      : '#'
+    // Generate HTML for each ad - matching Local Scoop layout
+    const adCards = selectedAds.map(selectedAd => {
+      const businessUrl = selectedAd.business_website || '#'
+      const trackedUrl = businessUrl !== '#'
+        ? wrapTrackingUrl(businessUrl, 'Community Business Spotlight', campaign.date, campaign.mailerlite_campaign_id)
+        : '#'
 
-    const imageUrl = selectedAd.image_url || ''
+      const imageUrl = selectedAd.image_url || ''
 
-    // Generate image HTML if valid URL exists
-    const imageHtml = imageUrl
-      ? `<tr><td style='padding: 0 12px; text-align: center;'><img src='${imageUrl}' alt='${selectedAd.title}' style='max-width: 100%; max-height: 500px; border-radius: 4px;'></td></tr>`
-      : ''
+      // Generate image HTML if valid URL exists
+      const imageHtml = imageUrl
+        ? `<tr><td style='padding: 0 12px; text-align: center;'><img src='${imageUrl}' alt='${selectedAd.title}' style='max-width: 100%; max-height: 500px; border-radius: 4px;'></td></tr>`
+        : ''
 
-    return `
-<table width="100%" cellpadding="0" cellspacing="0" style="border: 1px solid #f7f7f7; border-radius: 10px; margin-top: 10px; max-width: 990px; margin: 0 auto; background-color: #f7f7f7;">
-  <tr>
-    <td style="padding: 5px;">
-      <h2 style="font-size: 1.625em; line-height: 1.16em; font-family: Arial, sans-serif; color: #1877F2; margin: 0; padding: 0;">Community Business Spotlight</h2>
-    </td>
-  </tr>
+      return `
   <tr class='row'>
     <td class='column' style='padding:8px; vertical-align: top;'>
       <table width='100%' cellpadding='0' cellspacing='0' style='border: 1px solid #ddd; border-radius: 8px; background: #fff; font-family: Arial, sans-serif; font-size: 16px; line-height: 26px; box-shadow:0 4px 12px rgba(0,0,0,.15);'>
@@ -790,7 +821,16 @@ export async function generateCommunityBusinessSpotlightSection(campaign: any, r
         <tr><td style='padding: 0 12px 20px;'>${selectedAd.body}${businessUrl !== '#' ? ` (<a href='${trackedUrl}' style='color: #0080FE; text-decoration: none;'>visit website</a>)` : ''}</td></tr>
       </table>
     </td>
-  </tr>
+  </tr>`
+    }).join('')
+
+    return `
+<table width="100%" cellpadding="0" cellspacing="0" style="border: 1px solid #f7f7f7; border-radius: 10px; margin-top: 10px; max-width: 990px; margin: 0 auto; background-color: #f7f7f7;">
+  <tr>
+    <td style="padding: 5px;">
+      <h2 style="font-size: 1.625em; line-height: 1.16em; font-family: Arial, sans-serif; color: #1877F2; margin: 0; padding: 0;">Community Business Spotlight</h2>
+    </td>
+  </tr>${adCards}
 </table>
 <br>`
   } catch (error) {
@@ -801,9 +841,10 @@ export async function generateCommunityBusinessSpotlightSection(campaign: any, r
 
 // ==================== ROAD WORK ====================
 
-export async function generateRoadWorkSection(campaign: any): Promise<string> {
+export async function generateRoadWorkSection(campaign: any, publication?: Publication): Promise<string> {
   try {
     console.log('Generating Road Work section for campaign:', campaign?.id)
+    const roadWorkPublication = publication || await getCampaignPublication(campaign)
 
     // Get SELECTED road work items for this campaign (max 9)
     const selectedRoadWorkItems = await getSelectedRoadWorkItemsForCampaign(campaign.id)
@@ -820,21 +861,23 @@ export async function generateRoadWorkSection(campaign: any): Promise<string> {
         expected_reopen: item.expected_reopen || '',
         source_url: item.source_url || ''
       }))
-      return generateRoadWorkHTML(itemsForHtml, campaign.date, campaign.mailerlite_campaign_id)
+      return generateRoadWorkHTML(itemsForHtml, campaign.date, campaign.mailerlite_campaign_id, roadWorkPublication.city)
     }
 
-    // If no existing normalized data, check legacy road_work_data table
-    const { data: legacyRoadWork } = await supabaseAdmin
-      .from('road_work_data')
-      .select('*')
-      .eq('is_active', true)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single()
-
-    if (legacyRoadWork && legacyRoadWork.html_content) {
-      console.log(`Using existing legacy road work data (ID: ${legacyRoadWork.id})`)
-      return legacyRoadWork.html_content
+    // If no existing normalized data, check legacy road_work_data table (only ever generated for the default publication)
+    if (roadWorkPublication.is_default) {
+      const { data: legacyRoadWork } = await supabaseAdmin
+        .from('road_work_data')
+        .select('*')
+        .eq('is_active', true)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .single()
+
+      if (legacyRoadWork && legacyRoadWork.html_content) {
+        console.log(`Using existing legacy road work data (ID: ${legacyRoadWork.id})`)
+        return legacyRoadWork.html_content
+      }
     }
 
     // If no existing data, generate new road work data
@@ -853,7 +896,7 @@ export async function generateRoadWorkSection(campaign: any): Promise<string> {
     console.log('Generating road work for campaign date:', formattedDate)
 
     // Generate road work data using AI
-    const roadWorkData = await generateDailyRoadWork(formattedDate)
+    const roadWorkData = await generateDailyRoadWork(formattedDate, roadWorkPublication)
 
     // Store the items in the normalized database structure
     if (roadWorkData.road_work_data && roadWorkData.road_work_data.length > 0) {
@@ -872,15 +915,21 @@ export async function generateRoadWorkSection(campaign: any): Promise<string> {
 
 // ==================== FOOTER ====================
 
-export function generateNewsletterFooter(): string {
-  return `
-<div style="max-width: 990px; margin: 0 auto; background-color: #1877F2; padding: 8px 0; text-align: center;">
-  <a href="https://www.facebook.com/61578947310955/" target="_blank">
+export function generateNewsletterFooter(campaignDate?: string, branding: PublicationBranding & { slug?: string } = DEFAULT_BRANDING): string {
+  const viewInBrowserHtml = campaignDate ? `
+  <p style="margin: 0 0 5px;text-align: center;">
+    <a href="${getArchiveUrl(campaignDate, branding.slug)}" style='text-decoration: underline;'>View in browser</a>
+  </p>` : ''
+  const facebookHtml = branding.facebook_url ? `
+  <a href="${branding.facebook_url}" target="_blank">
     <img src="https://raw.githubusercontent.com/VFDavid/STCScoop/refs/heads/main/facebook_light.png" alt="Facebook" width="24" height="24" style="border: none; display: inline-block;">
-  </a>
+  </a>` : ''
+
+  return `
+<div style="max-width: 990px; margin: 0 auto; background-color: ${branding.brand_color}; padding: 8px 0; text-align: center;">${facebookHtml}
 </div>
-<div style="font-family: Arial, sans-serif; font-size: 12px; color: #777; text-align: center; padding: 20px 10px; border-top: 1px solid #ccc; background-color: #ffffff; max-width: 990px; margin: 0 auto ;">
-  <p style="margin: 0;text-align: center;">You're receiving this email because you subscribed to <strong>St. Cloud Scoop</strong>.</p>
+<div style="font-family: Arial, sans-serif; font-size: 12px; color: #777; text-align: center; padding: 20px 10px; border-top: 1px solid #ccc; background-color: #ffffff; max-width: 990px; margin: 0 auto ;">${viewInBrowserHtml}
+  <p style="margin: 0;text-align: center;">You're receiving this email because you subscribed to <strong>${branding.name}</strong>.</p>
   <p style="margin: 5px 0 0;text-align: center;">
     <a href="{$unsubscribe}" style='text-decoration: underline;'>Unsubscribe</a>
   </p>
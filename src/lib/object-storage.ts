@@ -0,0 +1,386 @@
+// Object Storage
+// One interface over the places we can keep files: Supabase Storage (default),
+// any S3-compatible bucket (S3, R2, MinIO) and the local filesystem for development.
+// Pick the backend with STORAGE_BACKEND=supabase|s3|local.
+
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { supabaseAdmin } from './supabase'
+
+export type StorageBackend = 'supabase' | 's3' | 'local'
+
+export interface StoredObject {
+  key: string
+  lastModified: Date
+}
+
+export interface ObjectStorage {
+  readonly backend: StorageBackend
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  exists(key: string): Promise<boolean>
+  delete(keys: string[]): Promise<void>
+  list(prefix: string): Promise<StoredObject[]>
+  getPublicUrl(key: string): string
+  // URL a browser can PUT the file to directly
+  createUploadUrl(key: string, contentType: string): Promise<string>
+}
+
+const LIST_PAGE_SIZE = 1000
+
+/**
+ * Key for a public URL served by this storage, or null for anything else
+ */
+export function getKeyFromUrl(storage: ObjectStorage, url: string): string | null {
+  const base = storage.getPublicUrl('')
+  if (!base || !url.startsWith(base)) return null
+  const key = decodeURIComponent(url.slice(base.length).split('?')[0])
+  return key || null
+}
+
+export class SupabaseObjectStorage implements ObjectStorage {
+  readonly backend = 'supabase' as const
+  private bucket: string
+
+  constructor() {
+    this.bucket = process.env.STORAGE_BUCKET || 'images'
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    const { error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .upload(key, body, { contentType, upsert: true })
+
+    if (error) {
+      throw new Error(`Supabase upload failed for ${key}: ${error.message}`)
+    }
+  }
+
+  async exists(key: string) {
+    const dir = path.posix.dirname(key)
+    const name = path.posix.basename(key)
+    const { data } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .list(dir === '.' ? '' : dir, { search: name, limit: 10 })
+
+    return (data || []).some(file => file.name === name)
+  }
+
+  async delete(keys: string[]) {
+    if (keys.length === 0) return
+    const { error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .remove(keys)
+
+    if (error) {
+      throw new Error(`Supabase delete failed: ${error.message}`)
+    }
+  }
+
+  async list(prefix: string) {
+    const objects: StoredObject[] = []
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin.storage
+        .from(this.bucket)
+        .list(prefix, { limit: LIST_PAGE_SIZE, offset })
+
+      if (error) {
+        throw new Error(`Supabase list failed for ${prefix}: ${error.message}`)
+      }
+
+      // Folders come back without an id
+      for (const file of (data || []).filter(file => file.id)) {
+        objects.push({
+          key: `${prefix}/${file.name}`,
+          lastModified: new Date(file.updated_at || file.created_at)
+        })
+      }
+
+      if (!data || data.length < LIST_PAGE_SIZE) break
+    }
+    return objects
+  }
+
+  getPublicUrl(key: string) {
+    return supabaseAdmin.storage.from(this.bucket).getPublicUrl(key).data.publicUrl
+  }
+
+  async createUploadUrl(key: string) {
+    const { data, error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .createSignedUploadUrl(key, { upsert: true })
+
+    if (error || !data) {
+      throw new Error(`Failed to create upload URL for ${key}: ${error?.message}`)
+    }
+    return data.signedUrl
+  }
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex')
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest()
+
+// RFC 3986 encoding as SigV4 expects it
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+
+const decodeXml = (value: string) =>
+  value.replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')
+
+/**
+ * S3-compatible storage signed with AWS Signature V4, using path-style URLs
+ */
+export class S3ObjectStorage implements ObjectStorage {
+  readonly backend = 's3' as const
+  private endpoint: URL
+  private region: string
+  private bucket: string
+  private accessKeyId: string
+  private secretAccessKey: string
+  private publicUrl: string
+
+  constructor() {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for S3 storage')
+    }
+
+    this.endpoint = new URL(S3_ENDPOINT)
+    this.region = process.env.S3_REGION || 'us-east-1'
+    this.bucket = S3_BUCKET
+    this.accessKeyId = S3_ACCESS_KEY_ID
+    this.secretAccessKey = S3_SECRET_ACCESS_KEY
+    // Usually a CDN or public bucket domain in front of the bucket
+    this.publicUrl = (process.env.S3_PUBLIC_URL || `${S3_ENDPOINT.replace(/\/$/, '')}/${S3_BUCKET}`).replace(/\/$/, '')
+  }
+
+  private objectPath(key: string) {
+    const base = this.endpoint.pathname.replace(/\/$/, '')
+    return `${base}/${this.bucket}${key ? '/' + key.split('/').map(encodeRfc3986).join('/') : ''}`
+  }
+
+  private signingKey(dateStamp: string) {
+    const kDate = hmac(`AWS4${this.secretAccessKey}`, dateStamp)
+    const kRegion = hmac(kDate, this.region)
+    const kService = hmac(kRegion, 's3')
+    return hmac(kService, 'aws4_request')
+  }
+
+  private canonicalQuery(query: Record<string, string>) {
+    return Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&')
+  }
+
+  private async request(method: string, key: string, options: {
+    query?: Record<string, string>
+    body?: Buffer
+    contentType?: string
+  } = {}) {
+    const now = new Date()
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const dateStamp = amzDate.slice(0, 8)
+    const payloadHash = sha256(options.body || '')
+    const canonicalUri = this.objectPath(key)
+    const query = this.canonicalQuery(options.query || {})
+
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date'
+    const canonicalHeaders = `host:${this.endpoint.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`
+    const canonicalRequest = [method, canonicalUri, query, canonicalHeaders, signedHeaders, payloadHash].join('\n')
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+    const signature = crypto.createHmac('sha256', this.signingKey(dateStamp)).update(stringToSign).digest('hex')
+
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      'Authorization': `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    }
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType
+    }
+
+    return fetch(`${this.endpoint.origin}${canonicalUri}${query ? '?' + query : ''}`, {
+      method,
+      headers,
+      body: options.body ? new Uint8Array(options.body) : undefined
+    })
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    const response = await this.request('PUT', key, { body, contentType })
+    if (!response.ok) {
+      throw new Error(`S3 upload failed for ${key}: HTTP ${response.status} ${await response.text()}`)
+    }
+  }
+
+  async exists(key: string) {
+    const response = await this.request('HEAD', key)
+    if (response.status === 404) return false
+    if (!response.ok) {
+      throw new Error(`S3 HEAD failed for ${key}: HTTP ${response.status}`)
+    }
+    return true
+  }
+
+  async delete(keys: string[]) {
+    for (const key of keys) {
+      const response = await this.request('DELETE', key)
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete failed for ${key}: HTTP ${response.status}`)
+      }
+    }
+  }
+
+  async list(prefix: string) {
+    const objects: StoredObject[] = []
+    let continuationToken: string | null = null
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix: `${prefix}/` }
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken
+      }
+
+      const response = await this.request('GET', '', { query })
+      if (!response.ok) {
+        throw new Error(`S3 list failed for ${prefix}: HTTP ${response.status}`)
+      }
+
+      const xml = await response.text()
+      const contentsPattern = /<Contents>([\s\S]*?)<\/Contents>/g
+      let match: RegExpExecArray | null
+      while ((match = contentsPattern.exec(xml)) !== null) {
+        const key = match[1].match(/<Key>([\s\S]*?)<\/Key>/)?.[1]
+        const lastModified = match[1].match(/<LastModified>([\s\S]*?)<\/LastModified>/)?.[1]
+        if (key && lastModified) {
+          objects.push({ key: decodeXml(key), lastModified: new Date(lastModified) })
+        }
+      }
+
+      const nextToken = xml.match(/<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/)?.[1]
+      continuationToken = nextToken ? decodeXml(nextToken) : null
+    } while (continuationToken)
+
+    return objects
+  }
+
+  getPublicUrl(key: string) {
+    return `${this.publicUrl}/${key.split('/').map(encodeRfc3986).join('/')}`
+  }
+
+  /**
+   * Presigned PUT valid for 15 minutes
+   */
+  async createUploadUrl(key: string) {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const dateStamp = amzDate.slice(0, 8)
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`
+    const canonicalUri = this.objectPath(key)
+
+    const query = this.canonicalQuery({
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': '900',
+      'X-Amz-SignedHeaders': 'host'
+    })
+    const canonicalRequest = ['PUT', canonicalUri, query, `host:${this.endpoint.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n')
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+    const signature = crypto.createHmac('sha256', this.signingKey(dateStamp)).update(stringToSign).digest('hex')
+
+    return `${this.endpoint.origin}${canonicalUri}?${query}&X-Amz-Signature=${signature}`
+  }
+}
+
+/**
+ * Files under a local directory, for development without cloud credentials
+ */
+export class LocalObjectStorage implements ObjectStorage {
+  readonly backend = 'local' as const
+  private root: string
+  private publicUrl: string
+
+  constructor() {
+    this.root = process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'public', 'storage')
+    this.publicUrl = (process.env.LOCAL_STORAGE_PUBLIC_URL || `${process.env.NEXT_PUBLIC_URL || ''}/storage`).replace(/\/$/, '')
+  }
+
+  private filePath(key: string) {
+    const filePath = path.resolve(this.root, key)
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  async put(key: string, body: Buffer) {
+    const filePath = this.filePath(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, body)
+  }
+
+  async exists(key: string) {
+    try {
+      await fs.access(this.filePath(key))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async delete(keys: string[]) {
+    for (const key of keys) {
+      await fs.rm(this.filePath(key), { force: true })
+    }
+  }
+
+  async list(prefix: string) {
+    let names: string[]
+    try {
+      names = await fs.readdir(this.filePath(prefix))
+    } catch {
+      return []
+    }
+
+    const objects: StoredObject[] = []
+    for (const name of names) {
+      const stat = await fs.stat(this.filePath(`${prefix}/${name}`))
+      if (stat.isFile()) {
+        objects.push({ key: `${prefix}/${name}`, lastModified: stat.mtime })
+      }
+    }
+    return objects
+  }
+
+  getPublicUrl(key: string) {
+    return `${this.publicUrl}/${key}`
+  }
+
+  async createUploadUrl(): Promise<string> {
+    throw new Error('The local storage backend does not support direct browser uploads')
+  }
+}
+
+let objectStorage: ObjectStorage | null = null
+
+export function getObjectStorage(): ObjectStorage {
+  if (!objectStorage) {
+    const backend = (process.env.STORAGE_BACKEND || 'supabase') as StorageBackend
+    switch (backend) {
+      case 's3':
+        objectStorage = new S3ObjectStorage()
+        break
+      case 'local':
+        objectStorage = new LocalObjectStorage()
+        break
+      case 'supabase':
+        objectStorage = new SupabaseObjectStorage()
+        break
+      default:
+        throw new Error(`Unknown STORAGE_BACKEND: ${backend}`)
+    }
+  }
+  return objectStorage
+}
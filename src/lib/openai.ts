@@ -1,36 +1,60 @@
 import OpenAI from 'openai'
 import { supabaseAdmin } from './supabase'
+import { callLLM } from './llm'
+import { getDefaultPublication, getPublicationSetting, fillPublicationPlaceholders } from './publications'
+import type { Publication } from '@/types/database'
 
 export const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 })
 
+// Prompt text from the database: the publication's own value if it has one, else the global prompt
+async function getPromptTemplate(key: string, publication?: Publication): Promise<string | null> {
+  if (publication) {
+    return getPublicationSetting(publication, key)
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('app_settings')
+    .select('value')
+    .eq('key', key)
+    .single()
+
+  return error || !data ? null : data.value
+}
+
+// Fill {{city}}, {{location}} and the other publication placeholders (default publication when none is given)
+async function withPublication(prompt: string, publication?: Publication): Promise<string> {
+  try {
+    return fillPublicationPlaceholders(prompt, publication || await getDefaultPublication())
+  } catch (error) {
+    console.error('Error loading publication for prompt placeholders:', error)
+    return prompt
+  }
+}
+
 // Helper function to fetch prompt from database with code fallback
-async function getPrompt(key: string, fallback: string): Promise<string> {
+async function getPrompt(key: string, fallback: string, publication?: Publication): Promise<string> {
   try {
-    const { data, error } = await supabaseAdmin
-      .from('app_settings')
-      .select('value')
-      .eq('key', key)
-      .single()
+    const value = await getPromptTemplate(key, publication)
 
-    if (error || !data) {
+    if (!value) {
       console.log(`Using code fallback for prompt: ${key}`)
-      return fallback
+      return withPublication(fallback, publication)
     }
 
     console.log(`Using database prompt: ${key}`)
-    return data.value
+    return withPublication(value, publication)
   } catch (error) {
     console.error(`Error fetching prompt ${key}, using fallback:`, error)
-    return fallback
+    return withPublication(fallback, publication)
   }
 }
 
 // AI Prompts - Static fallbacks when database is unavailable
 const FALLBACK_PROMPTS = {
   contentEvaluator: (post: { title: string; description: string; content?: string; hasImage?: boolean }) => `
-You are evaluating a news article for inclusion in a local St. Cloud, Minnesota newsletter.
+You are evaluating a news article for inclusion in a local {{location}} newsletter.
 
 CRITICAL: You MUST use these exact scoring scales:
 - interest_level: Integer between 1 and 20 (NOT 1-10, MUST BE 1-20)
@@ -46,9 +70,9 @@ MEDIUM SCORING (8-14): Standard local news, business updates, routine events wit
 LOW SCORING (1-7): Routine announcements, technical/administrative content, repetitive topics, purely promotional, very short content
 
 LOCAL RELEVANCE (1-10 scale):
-How directly relevant is this to St. Cloud area residents?
-HIGH SCORING (7-10): Events/news in St. Cloud and surrounding areas (Waite Park, Sartell, Sauk Rapids, Cold Spring), Stearns County government decisions, local business changes, school district news, local infrastructure/development, community events
-LOW SCORING (1-6): State/national news without local angle, events far from St. Cloud area, generic content not location-specific
+How directly relevant is this to {{city}} area residents?
+HIGH SCORING (7-10): Events/news in {{city}} and surrounding areas ({{nearby_communities}}), {{county}} government decisions, local business changes, school district news, local infrastructure/development, community events
+LOW SCORING (1-6): State/national news without local angle, events far from the {{city}} area, generic content not location-specific
 
 COMMUNITY IMPACT (1-10 scale):
 How much does this affect local residents' daily lives or community?
@@ -261,7 +285,7 @@ CREATIVITY REQUIREMENT: Each generation should produce a unique headline variati
 Respond with ONLY the headline text - no JSON, no quotes, no extra formatting. Just the headline itself.`,
 
   roadWorkGenerator: (campaignDate: string) => `
-Find CURRENT and ACTIVE road, lane, or bridge closures, detours, or traffic restrictions in effect on ${campaignDate} within 10 miles of ZIP code 56303 (St. Cloud, MN metro area).
+Find CURRENT and ACTIVE road, lane, or bridge closures, detours, or traffic restrictions in effect on ${campaignDate} within 10 miles of ZIP code {{zip_code}} ({{location}} metro area).
 
 CRITICAL DATE REQUIREMENT:
 - ONLY include projects that are ACTIVE on ${campaignDate}
@@ -273,7 +297,7 @@ CRITICAL DATE REQUIREMENT:
 
 SEARCH CRITERIA:
 - Date: ${campaignDate}
-- Location: Within 10 miles of ZIP 56303 (St. Cloud, MN metro area)
+- Location: Within 10 miles of ZIP {{zip_code}} ({{location}} metro area)
 
 INCLUDE ALL TYPES:
 - Full closures, lane closures, bridge closures, detours, major traffic restrictions
@@ -288,10 +312,9 @@ INCLUDE ALL TYPES:
 - Cold patching, resurfacing, maintenance work affecting traffic
 
 EXPLICITLY INCLUDE:
-- State highways: Hwy 55, Hwy 15, Hwy 10, Hwy 23
-- County Roads in the area
-- Closures in nearby cities: Sartell, Waite Park, St. Joseph, St. Augusta, Sauk Rapids
-- Metro Bus route detours and schedule changes
+- State highways and county roads in the area
+- Closures in nearby cities: {{nearby_communities}}
+- Local transit route detours and schedule changes
 - All types of construction projects (roundabouts, bridges, resurfacing)
 - Projects that started before ${campaignDate} but are still ongoing
 
@@ -302,17 +325,7 @@ STRICTLY EXCLUDE:
 - Shoulder-only work with no traffic impact
 
 REQUIRED SOURCES TO CHECK:
-- https://www.dot.state.mn.us/d3/ (MnDOT District 3)
-- https://www.stearnscountymn.gov/185/Public-Works
-- https://www.co.benton.mn.us/180/Highway
-- https://www.co.sherburne.mn.us/162/Public-Works
-- https://www.ci.stcloud.mn.us (St. Cloud)
-- https://www.cityofsartell.com/engineering/
-- https://www.cityofstjoseph.com/
-- https://www.ci.waitepark.mn.us/
-- https://ci.sauk-rapids.mn.us/
-- https://www.ridemetrobus.com (Metro Bus)
-- Local media: WJON Traffic, St. Cloud Times Roads section
+{{road_work_sources}}
 - 511mn.org (Minnesota road conditions)
 
 TARGET: Find 6-9 different road work entries with CONFIRMED dates. Prioritize accuracy over volume - better to return fewer items with confirmed dates than more items with vague dates.
@@ -332,7 +345,7 @@ CRITICAL REQUIREMENTS:
 - Each item must be currently active on the target date`,
 
   imageAnalyzer: () => `
-Analyze this image for a St. Cloud, Minnesota local newsletter. Focus on identifying elements relevant to community news, events, education, public safety, healthcare, sports, business development, seasonal activities, and local landmarks.
+Analyze this image for a {{location}} local newsletter. Focus on identifying elements relevant to community news, events, education, public safety, healthcare, sports, business development, seasonal activities, and local landmarks.
 
 Return strict JSON:
 {
@@ -372,7 +385,7 @@ GUIDELINES:
 - Mood tags: emotional atmosphere/feeling conveyed (happy, energetic, calm, serious, playful, etc.)
 
 ST. CLOUD SPECIFIC TAGGING PRIORITIES:
-Prioritize identifying and tagging these high-value categories for St. Cloud newsletter:
+Prioritize identifying and tagging these high-value categories for the {{city}} newsletter:
 
 LOCATIONS & VENUES:
 - Educational: apollo_high_school, scsu_campus, kennedy_school, talahi_school, college_of_saint_benedict
@@ -436,7 +449,7 @@ AGE GROUP ANALYSIS:
 - conf: Confidence level (0-1) for age group classification
 - Set to null if no people detected or ages cannot be determined
 
-IMPORTANT: Only include OCR fields if readable text is actually present. Only include age_groups if people are visible and ages can be reasonably estimated. Set to null if not detected. Prioritize tags that match the St. Cloud newsletter's common article themes: education, public safety, community events, sports (especially hockey), seasonal activities, business development, and healthcare.`,
+IMPORTANT: Only include OCR fields if readable text is actually present. Only include age_groups if people are visible and ages can be reasonably estimated. Set to null if not detected. Prioritize tags that match the {{city}} newsletter's common article themes: education, public safety, community events, sports (especially hockey), seasonal activities, business development, and healthcare.`,
 
   roadWorkValidator: (roadWorkItems: Array<{
     road_name: string
@@ -504,82 +517,81 @@ Respond with valid JSON in this exact format:
 
 // Dynamic AI Prompts - Uses database with fallbacks (Oct 7 2025 - Force cache bust)
 export const AI_PROMPTS = {
-  contentEvaluator: async (post: { title: string; description: string; content?: string; hasImage?: boolean }) => {
+  // template overrides the live prompt (used by prompt experiments)
+  contentEvaluator: async (post: { title: string; description: string; content?: string; hasImage?: boolean }, template?: string, publication?: Publication) => {
     try {
-      const { data, error } = await supabaseAdmin
-        .from('app_settings')
-        .select('value')
-        .eq('key', 'ai_prompt_content_evaluator')
-        .single()
-
-      if (error || !data) {
-        console.log('Using code fallback for contentEvaluator prompt')
-        return FALLBACK_PROMPTS.contentEvaluator(post)
+      let value = template
+      if (!value) {
+        const stored = await getPromptTemplate('ai_prompt_content_evaluator', publication)
+
+        if (!stored) {
+          console.log('Using code fallback for contentEvaluator prompt')
+          return withPublication(FALLBACK_PROMPTS.contentEvaluator(post), publication)
+        }
+
+        console.log('Using database prompt for contentEvaluator')
+        value = stored
       }
 
-      console.log('Using database prompt for contentEvaluator')
       // Database template uses {{}} placeholders
       const imagePenaltyText = post.hasImage
         ? 'This post HAS an image.'
         : 'This post has NO image - subtract 5 points from interest_level.'
 
-      return data.value
+      return (await withPublication(value, publication))
         .replace(/\{\{title\}\}/g, post.title)
         .replace(/\{\{description\}\}/g, post.description || 'No description available')
         .replace(/\{\{content\}\}/g, post.content ? post.content.substring(0, 1000) + '...' : 'No content available')
         .replace(/\{\{imagePenalty\}\}/g, imagePenaltyText)
     } catch (error) {
       console.error('Error fetching contentEvaluator prompt, using fallback:', error)
-      return FALLBACK_PROMPTS.contentEvaluator(post)
+      return withPublication(FALLBACK_PROMPTS.contentEvaluator(post), publication)
     }
   },
 
-  newsletterWriter: async (post: { title: string; description: string; content?: string; source_url?: string }) => {
+  newsletterWriter: async (post: { title: string; description: string; content?: string; source_url?: string }, template?: string, publication?: Publication) => {
     try {
-      const { data, error } = await supabaseAdmin
-        .from('app_settings')
-        .select('value')
-        .eq('key', 'ai_prompt_newsletter_writer')
-        .single()
-
-      if (error || !data) {
-        console.log('Using code fallback for newsletterWriter prompt')
-        return FALLBACK_PROMPTS.newsletterWriter(post)
+      let value = template
+      if (!value) {
+        const stored = await getPromptTemplate('ai_prompt_newsletter_writer', publication)
+
+        if (!stored) {
+          console.log('Using code fallback for newsletterWriter prompt')
+          return withPublication(FALLBACK_PROMPTS.newsletterWriter(post), publication)
+        }
+
+        console.log('Using database prompt for newsletterWriter')
+        value = stored
       }
 
-      console.log('Using database prompt for newsletterWriter')
-      return data.value
+      return (await withPublication(value, publication))
         .replace(/\{\{title\}\}/g, post.title)
         .replace(/\{\{description\}\}/g, post.description || 'No description available')
         .replace(/\{\{content\}\}/g, post.content ? post.content.substring(0, 1500) + '...' : 'No additional content')
         .replace(/\{\{url\}\}/g, post.source_url || '')
     } catch (error) {
       console.error('Error fetching newsletterWriter prompt, using fallback:', error)
-      return FALLBACK_PROMPTS.newsletterWriter(post)
+      return withPublication(FALLBACK_PROMPTS.newsletterWriter(post), publication)
     }
   },
 
-  eventSummarizer: async (event: { title: string; description: string | null; venue?: string | null }) => {
+  eventSummarizer: async (event: { title: string; description: string | null; venue?: string | null }, publication?: Publication) => {
     try {
-      const { data, error } = await supabaseAdmin
-        .from('app_settings')
-        .select('value')
-        .eq('key', 'ai_prompt_event_summary')
-        .single()
+      const stored = await getPromptTemplate('ai_prompt_event_summary', publication)
 
-      if (error || !data) {
+      if (!stored) {
         console.log('Using code fallback for eventSummarizer prompt')
-        return FALLBACK_PROMPTS.eventSummarizer(event)
+        return withPublication(FALLBACK_PROMPTS.eventSummarizer(event), publication)
       }
 
       console.log('Using database prompt for eventSummarizer')
-      return data.value
+      return (await withPublication(stored, publication))
         .replace(/\{\{title\}\}/g, event.title)
         .replace(/\{\{description\}\}/g, event.description || 'No description available')
         .replace(/\{\{venue\}\}/g, event.venue || 'No venue specified')
     } catch (error) {
       console.error('Error fetching eventSummarizer prompt, using fallback:', error)
-      return FALLBACK_PROMPTS.eventSummarizer(event)
+      return withPublication(FALLBACK_PROMPTS.eventSummarizer(event), publication)
     }
   },
 
@@ -588,15 +600,16 @@ export const AI_PROMPTS = {
     return FALLBACK_PROMPTS.subjectLineGenerator(articles)
   },
 
-  roadWorkGenerator: async (campaignDate: string) => {
+  roadWorkGenerator: async (campaignDate: string, publication?: Publication) => {
     // roadWorkGenerator doesn't support database templates - always use fallback
-    return FALLBACK_PROMPTS.roadWorkGenerator(campaignDate)
+    return withPublication(FALLBACK_PROMPTS.roadWorkGenerator(campaignDate), publication)
   },
 
-  imageAnalyzer: async () => {
+  imageAnalyzer: async (publication?: Publication) => {
     return await getPrompt(
       'ai_prompt_image_analyzer',
-      FALLBACK_PROMPTS.imageAnalyzer()
+      FALLBACK_PROMPTS.imageAnalyzer(),
+      publication
     )
   },
 
@@ -604,7 +617,13 @@ export const AI_PROMPTS = {
   topicDeduper: async (posts: Array<{ title: string; description: string }>) => {
     return FALLBACK_PROMPTS.topicDeduper(posts)
   },
-  factChecker: async (newsletterContent: string, originalContent: string) => {
+  // template (prompt playground drafts) uses {{newsletterContent}} and {{originalContent}} placeholders
+  factChecker: async (newsletterContent: string, originalContent: string, template?: string) => {
+    if (template) {
+      return template
+        .replace(/\{\{newsletterContent\}\}/g, newsletterContent)
+        .replace(/\{\{originalContent\}\}/g, originalContent.substring(0, 2000))
+    }
     return FALLBACK_PROMPTS.factChecker(newsletterContent, originalContent)
   },
   roadWorkValidator: async (roadWorkItems: any[], date: string) => {
@@ -612,191 +631,66 @@ export const AI_PROMPTS = {
   }
 }
 
+// The built-in fact checker prompt with placeholders, as a starting point for playground drafts
+export function getFactCheckerTemplate(): string {
+  return FALLBACK_PROMPTS.factChecker('{{newsletterContent}}', '{{originalContent}}')
+}
+
 // This function is no longer needed since we use web scraping instead of AI
 export async function callOpenAIWithWeb(userPrompt: string, maxTokens = 1000, temperature = 0) {
   throw new Error('Web-enabled AI calls have been replaced with direct web scraping. Use wordle-scraper.ts instead.')
 }
 
-// Special function for road work generation using Responses API with web search
-export async function callOpenAIWithWebSearch(systemPrompt: string, userPrompt: string): Promise<any> {
-  const controller = new AbortController()
+// Special function for road work generation using web search
+export async function callOpenAIWithWebSearch(systemPrompt: string, userPrompt: string, promptKey: string = 'road_work'): Promise<any> {
   try {
-    console.log('Making OpenAI Responses API request with web search...')
+    console.log('Making LLM request with web search...')
     console.log('System prompt length:', systemPrompt.length)
     console.log('User prompt length:', userPrompt.length)
 
-    const timeoutId = setTimeout(() => controller.abort(), 90000) // 90 second timeout for web search
-
-    try {
-      console.log('Using GPT-4o model with web search tools...')
-
-      // Use the Responses API with web tools as provided by the user
-      const response = await (openai as any).responses.create({
-        model: 'gpt-4o',
-        tools: [{ type: 'web_search_preview' }], // correct web search tool type
-        input: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0
-      }, {
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-
-      // Log the full response structure for debugging
-      console.log('Full response structure:', JSON.stringify(response, null, 2).substring(0, 1000))
-
-      // Extract the response text using the format from the user's example
-      const text = response.output_text ?? response.output?.[0]?.content?.[0]?.text ?? ""
-
-      if (!text) {
-        console.error('No text found in response. Response keys:', Object.keys(response))
-        throw new Error('No response from OpenAI Responses API')
-      }
-
-      console.log('OpenAI Responses API response received, length:', text.length)
-      console.log('Response preview:', text.substring(0, 500))
-
-      // Extract JSON array from the response
-      const start = text.indexOf("[")
-      const end = text.lastIndexOf("]")
-
-      if (start === -1 || end === -1) {
-        console.warn('No JSON array found in response')
-        console.warn('Full response text:', text.substring(0, 1000))
-        return { raw: text }
-      }
-
-      const jsonString = text.slice(start, end + 1)
-      console.log('Extracted JSON string length:', jsonString.length)
-      console.log('JSON preview:', jsonString.substring(0, 300))
-
-      try {
-        const parsedData = JSON.parse(jsonString)
-        console.log('Successfully parsed road work data:', parsedData.length, 'items')
-        if (parsedData.length > 0) {
-          console.log('First item:', JSON.stringify(parsedData[0], null, 2))
-        }
-        return parsedData
-      } catch (parseError) {
-        console.error('Failed to parse extracted JSON:', parseError)
-        console.error('JSON string:', jsonString.substring(0, 500))
-        return { raw: text }
-      }
-
-    } catch (error) {
-      clearTimeout(timeoutId)
-      throw error
-    }
-  } catch (error) {
-    console.error('OpenAI Responses API error:', error)
-    if (error instanceof Error) {
-      console.error('Error details:', error.message)
-      console.error('Error name:', error.name)
-    }
-    throw error
-  }
-}
-
-function parseJSONResponse(content: string) {
-  try {
-    // Clean the content - remove any text before/after JSON (support both objects {} and arrays [])
-    const objectMatch = content.match(/\{[\s\S]*\}/)
-    const arrayMatch = content.match(/\[[\s\S]*\]/)
-
-    if (arrayMatch) {
-      // Prefer array match for prompts that expect arrays (like Wordle)
-      return JSON.parse(arrayMatch[0])
-    } else if (objectMatch) {
-      // Use object match for other prompts
-      return JSON.parse(objectMatch[0])
-    } else {
-      // Try parsing the entire content
-      return JSON.parse(content.trim())
+    const text = await callLLM(promptKey, [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ], {
+      webSearch: true,
+      temperature: 0,
+      timeoutMs: 90000 // 90 second timeout for web search
+    })
+
+    console.log('Web search response received, length:', text.length)
+    console.log('Response preview:', text.substring(0, 500))
+
+    // Extract JSON array from the response
+    const start = text.indexOf("[")
+    const end = text.lastIndexOf("]")
+
+    if (start === -1 || end === -1) {
+      console.warn('No JSON array found in response')
+      console.warn('Full response text:', text.substring(0, 1000))
+      return { raw: text }
     }
-  } catch (parseError) {
-    console.warn('Failed to parse OpenAI response as JSON. Content length:', content.length)
-    console.warn('Content preview:', content.substring(0, 200))
-    console.warn('Parse error:', parseError instanceof Error ? parseError.message : parseError)
-    return { raw: content }
-  }
-}
 
-export async function callOpenAI(prompt: string, maxTokens = 1000, temperature = 0.3) {
-  try {
-    console.log('Calling OpenAI API...')
-
-    // Add timeout to prevent hanging
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
+    const jsonString = text.slice(start, end + 1)
+    console.log('Extracted JSON string length:', jsonString.length)
 
     try {
-      console.log('Using GPT-4o model with improved JSON parsing...')
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: maxTokens,
-        temperature: temperature,
-      }, {
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-
-      const content = response.choices[0]?.message?.content
-      if (!content) {
-        throw new Error('No response from OpenAI')
-      }
-
-      console.log('OpenAI response received')
-
-      // Try to parse as JSON, fallback to raw content
-      try {
-        // Strip markdown code fences first (```json ... ``` or ``` ... ```)
-        let cleanedContent = content
-        const codeFenceMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
-        if (codeFenceMatch) {
-          cleanedContent = codeFenceMatch[1]
-          console.log('Stripped markdown code fences from response')
-        }
-
-        // Clean the content - remove any text before/after JSON (support both objects {} and arrays [])
-        const objectMatch = cleanedContent.match(/\{[\s\S]*\}/)
-        const arrayMatch = cleanedContent.match(/\[[\s\S]*\]/)
-
-        if (arrayMatch) {
-          // Prefer array match for prompts that expect arrays (like road work)
-          return JSON.parse(arrayMatch[0])
-        } else if (objectMatch) {
-          // Use object match for other prompts
-          return JSON.parse(objectMatch[0])
-        } else {
-          // Try parsing the entire content
-          return JSON.parse(cleanedContent.trim())
-        }
-      } catch (parseError) {
-        console.warn('Failed to parse OpenAI response as JSON. Content length:', content.length)
-        console.warn('Content preview:', content.substring(0, 200))
-        console.warn('Parse error:', parseError instanceof Error ? parseError.message : parseError)
-        return { raw: content }
+      const parsedData = JSON.parse(jsonString)
+      console.log('Successfully parsed road work data:', parsedData.length, 'items')
+      if (parsedData.length > 0) {
+        console.log('First item:', JSON.stringify(parsedData[0], null, 2))
       }
-    } catch (error) {
-      clearTimeout(timeoutId)
-      throw error
+      return parsedData
+    } catch (parseError) {
+      console.error('Failed to parse extracted JSON:', parseError)
+      console.error('JSON string:', jsonString.substring(0, 500))
+      return { raw: text }
     }
   } catch (error) {
-    console.error('OpenAI API error with GPT-5:', error)
+    console.error('Web search LLM error:', error)
     if (error instanceof Error) {
       console.error('Error details:', error.message)
       console.error('Error name:', error.name)
-      console.error('Error stack:', error.stack)
-    }
-    // Log additional error details for debugging
-    if (typeof error === 'object' && error !== null) {
-      console.error('Full error object:', JSON.stringify(error, null, 2))
     }
     throw error
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+// Permission Audit Log
+// Records denied API requests and role changes in permission_audit_log
+
+import { supabaseAdmin } from './supabase'
+import type { PermissionAuditEvent, PermissionAuditLog } from '@/types/database'
+
+export interface PermissionAuditEntry {
+  eventType: PermissionAuditEvent
+  userEmail?: string | null
+  userRole?: string | null
+  method?: string | null
+  path?: string | null
+  requiredPermission?: string | null
+  details?: Record<string, any>
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+/**
+ * Write an audit entry. Never throws, so a logging failure can't change the response.
+ */
+export async function recordPermissionAudit(entry: PermissionAuditEntry): Promise<void> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('permission_audit_log')
+      .insert([{
+        event_type: entry.eventType,
+        user_email: entry.userEmail || null,
+        user_role: entry.userRole || null,
+        method: entry.method || null,
+        path: entry.path || null,
+        required_permission: entry.requiredPermission || null,
+        details: entry.details || {},
+        ip_address: entry.ipAddress || null,
+        user_agent: entry.userAgent || null
+      }])
+
+    if (error) {
+      console.error('Failed to write permission audit entry:', error.message)
+    }
+  } catch (error) {
+    console.error('Failed to write permission audit entry:', error)
+  }
+}
+
+export async function getPermissionAuditLog(limit: number = 100): Promise<PermissionAuditLog[]> {
+  const { data, error } = await supabaseAdmin
+    .from('permission_audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch audit log: ${error.message}`)
+  }
+
+  return data || []
+}
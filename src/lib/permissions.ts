@@ -0,0 +1,111 @@
+// Roles and Permissions
+// What each role can do and which permission every /api route requires.
+// Enforced for all API requests in middleware.ts; keep this file free of server-only imports.
+
+import type { UserRole } from '@/types/database'
+
+export type Permission =
+  | 'dashboard:view'
+  | 'newsletter:edit'
+  | 'ads:manage'
+  | 'events:moderate'
+  | 'settings:manage'
+  | 'users:manage'
+  | 'system:admin'
+
+// 'public' routes do their own checks (cron secrets, Stripe signatures) or serve the public site
+export type RouteAccess = Permission | 'public'
+
+export const ROLES: { role: UserRole, label: string, description: string }[] = [
+  { role: 'admin', label: 'Admin', description: 'Everything, including settings, users and the admin console' },
+  { role: 'editor', label: 'Editor', description: 'Reviews, edits and sends newsletters' },
+  { role: 'ad_manager', label: 'Ad Manager', description: 'Approves and schedules advertisements' },
+  { role: 'events_moderator', label: 'Events Moderator', description: 'Moderates event submissions and the events calendar' }
+]
+
+// New Google sign-ins get this role but start inactive; nothing is allowed until an admin activates them
+export const DEFAULT_ROLE: UserRole = 'editor'
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['dashboard:view', 'newsletter:edit', 'ads:manage', 'events:moderate', 'settings:manage', 'users:manage', 'system:admin'],
+  editor: ['dashboard:view', 'newsletter:edit'],
+  ad_manager: ['dashboard:view', 'ads:manage'],
+  events_moderator: ['dashboard:view', 'events:moderate']
+}
+
+export function isValidRole(role: unknown): role is UserRole {
+  return typeof role === 'string' && role in ROLE_PERMISSIONS
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isValidRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+interface ApiRoutePolicy {
+  pattern: RegExp
+  methods?: string[]
+  access: RouteAccess
+}
+
+// First match wins; anything not listed is admin-only
+const API_ROUTE_POLICIES: ApiRoutePolicy[] = [
+  // Public site, sign-in and callers with their own credentials
+  { pattern: /^\/api\/auth\//, access: 'public' },
+  { pattern: /^\/api\/cron\//, access: 'public' },
+  { pattern: /^\/api\/webhooks\//, access: 'public' },
+  { pattern: /^\/api\/health$/, access: 'public' },
+  { pattern: /^\/api\/link-tracking\/click$/, access: 'public' },
+  { pattern: /^\/api\/feedback\/track$/, access: 'public' },
+  { pattern: /^\/api\/feedback$/, methods: ['GET', 'POST'], access: 'public' },
+  { pattern: /^\/api\/preferences$/, methods: ['GET', 'POST'], access: 'public' },
+  { pattern: /^\/api\/polls\/[^/]+\/respond$/, access: 'public' },
+  { pattern: /^\/api\/events\/(public|submit|create-checkout|verify-payment|upload-image)$/, access: 'public' },
+  { pattern: /^\/api\/events\/venues$/, methods: ['GET'], access: 'public' },
+  { pattern: /^\/api\/settings\/public-events$/, methods: ['GET'], access: 'public' },
+  { pattern: /^\/api\/ads$/, methods: ['POST'], access: 'public' },
+  { pattern: /^\/api\/ads\/(upload-image|checkout|verify-payment)$/, access: 'public' },
+  // Advertiser portal routes check their own signed-in session cookie
+  { pattern: /^\/api\/ads\/portal(\/|$)/, access: 'public' },
+  { pattern: /^\/api\/tips$/, methods: ['POST'], access: 'public' },
+  { pattern: /^\/api\/pricing\/quote$/, methods: ['POST'], access: 'public' },
+
+  // Events
+  { pattern: /^\/api\/events\/(sync|manual-sync|template|submissions|upload-csv|generate-summaries)(\/|$)/, access: 'events:moderate' },
+  { pattern: /^\/api\/events\/[^/]+$/, methods: ['GET'], access: 'public' },
+  // Editors pick events for campaigns
+  { pattern: /^\/api\/events$/, methods: ['GET'], access: 'dashboard:view' },
+  { pattern: /^\/api\/events(\/|$)/, access: 'events:moderate' },
+
+  // Advertising
+  { pattern: /^\/api\/ads(\/|$)/, access: 'ads:manage' },
+  { pattern: /^\/api\/settings\/(ad-pricing|discounts)(\/|$)/, access: 'ads:manage' },
+
+  // Users and settings
+  { pattern: /^\/api\/settings\/users(\/|$)/, access: 'users:manage' },
+  { pattern: /^\/api\/settings(\/|$)/, access: 'settings:manage' },
+  { pattern: /^\/api\/rss-sources$/, access: 'settings:manage' },
+
+  // Newsletter production
+  { pattern: /^\/api\/campaigns\/[^/]+\/delete$/, access: 'system:admin' },
+  { pattern: /^\/api\/(campaigns|articles|tips|rss|images|tags|polls|road-work|weather|dining|dining-deals|vrbo)(\/|$)/, access: 'newsletter:edit' },
+  { pattern: /^\/api\/test\/(slack|database)$/, access: 'system:admin' },
+  { pattern: /^\/api\/test\//, access: 'newsletter:edit' },
+
+  // Read-only dashboards
+  { pattern: /^\/api\/(analytics|databases|logs)(\/|$)/, access: 'dashboard:view' },
+  { pattern: /^\/api\/(feedback|link-tracking)\/analytics$/, access: 'dashboard:view' },
+
+  // Admin console, setup and anything else
+  { pattern: /^\/api\/(admin|setup|notifications)\//, access: 'system:admin' }
+]
+
+/**
+ * Access required for an API request
+ */
+export function getRouteAccess(pathname: string, method: string): RouteAccess {
+  const path = pathname.length > 1 ? pathname.replace(/\/$/, '') : pathname
+  const policy = API_ROUTE_POLICIES.find(p =>
+    p.pattern.test(path) && (!p.methods || p.methods.includes(method.toUpperCase()))
+  )
+  return policy ? policy.access : 'system:admin'
+}
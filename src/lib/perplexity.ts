@@ -4,29 +4,7 @@
  * This is what Make uses and gives much better real-time results
  */
 
-interface PerplexityMessage {
-  role: 'system' | 'user' | 'assistant'
-  content: string
-}
-
-interface PerplexityResponse {
-  id: string
-  model: string
-  created: number
-  choices: Array<{
-    index: number
-    finish_reason: string
-    message: {
-      role: string
-      content: string
-    }
-  }>
-  usage: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
-  }
-}
+import { callLLM } from './llm'
 
 /**
  * Call Perplexity AI with web search enabled
@@ -40,63 +18,26 @@ export async function callPerplexity(
     searchContextSize?: 'low' | 'medium' | 'high'
   } = {}
 ): Promise<string> {
-  const apiKey = process.env.PERPLEXITY_API_KEY
-
-  if (!apiKey) {
-    throw new Error('PERPLEXITY_API_KEY not configured')
-  }
-
   const {
-    model = 'sonar-pro',
+    model,
     temperature = 0.2,
     searchContextSize = 'medium'
   } = options
 
   console.log('🔍 Calling Perplexity AI with web search...')
-  console.log('Model:', model)
   console.log('Search context:', searchContextSize)
 
-  const messages: PerplexityMessage[] = [
-    {
-      role: 'user',
-      content: prompt
-    }
-  ]
-
   try {
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature,
-        search_context_size: searchContextSize,
-        return_images: false,
-        return_related_questions: false
-      })
+    // Without an explicit model the ai_model_road_work_search setting applies (default perplexity:sonar-pro)
+    const content = await callLLM('road_work_search', prompt, {
+      model: model ? `perplexity:${model}` : undefined,
+      webSearch: true,
+      temperature,
+      timeoutMs: 120000,
+      providerOptions: { search_context_size: searchContextSize }
     })
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Perplexity API error:', response.status, errorText)
-      throw new Error(`Perplexity API error: ${response.status}`)
-    }
-
-    const data: PerplexityResponse = await response.json()
-
     console.log('✅ Perplexity response received')
-    console.log('Tokens used:', data.usage.total_tokens)
-
-    const content = data.choices[0]?.message?.content
-
-    if (!content) {
-      throw new Error('No content in Perplexity response')
-    }
-
     return content
 
   } catch (error) {
@@ -284,7 +225,6 @@ Requirements:
 
   try {
     const response = await callPerplexity(prompt, {
-      model: 'sonar-pro',
       temperature: 0.2,
       searchContextSize: 'medium'
     })
@@ -0,0 +1,486 @@
+// Pipeline Runner
+// Durable, step-based execution of the nightly RSS pipeline.
+// Each invocation advances a job for a bounded amount of time; step state lives in
+// pipeline_jobs / pipeline_job_steps so the next cron tick resumes where the last one stopped.
+// The invocation advancing a job holds its run lock (pipeline_job:<id>), heartbeating through
+// long steps, so another tick can't pick the job up mid-step.
+
+import { supabaseAdmin } from './supabase'
+import { acquireRunLock, type RunLock } from './run-lock'
+import { RSSProcessor } from './rss-processor'
+import { ErrorHandler, SlackNotificationService } from './slack'
+import type { PipelineJob, PipelineJobStep } from '@/types/database'
+
+interface StepOutcome {
+  // false when the step made progress but has more work left (e.g. unrated posts remain)
+  done: boolean
+  result?: Record<string, any>
+}
+
+interface StepContext {
+  job: PipelineJob
+  step: PipelineJobStep
+  steps: PipelineJobStep[]
+  processor: RSSProcessor
+}
+
+interface StepDefinition {
+  name: string
+  label: string
+  // Optional steps that exhaust their retries are recorded as failed but don't stop the job
+  optional?: boolean
+  maxAttempts?: number
+  run: (context: StepContext) => Promise<StepOutcome>
+}
+
+export interface AdvanceResult {
+  jobId: string
+  status: PipelineJob['status']
+  stepsRun: string[]
+  waitingOn?: string
+}
+
+// Posts rated per evaluate_posts invocation (3 per batch, 2s pause between batches)
+const EVALUATION_CHUNK_SIZE = 15
+const RETRY_BASE_DELAY_MS = 60 * 1000
+
+const findStepResult = (steps: PipelineJobStep[], name: string) =>
+  steps.find(s => s.step_name === name)?.result || null
+
+const STEP_DEFINITIONS: StepDefinition[] = [
+  {
+    name: 'archive',
+    label: 'Archive',
+    run: async ({ job, processor }) => {
+      // Only full resets wipe the campaign; incremental runs keep existing content
+      if (!job.options?.full_reset) {
+        return { done: true, result: { skipped: true } }
+      }
+      const archiveResult = await processor.resetCampaignContent(job.campaign_id)
+      return { done: true, result: { archive: archiveResult } }
+    }
+  },
+  {
+    name: 'fetch_feeds',
+    label: 'RSS Feed Processing',
+    run: async ({ job, processor }) => {
+      const feedCount = await processor.fetchFeedsForCampaign(job.campaign_id, !job.options?.full_reset)
+      if (feedCount === 0) {
+        throw new Error('No active RSS feeds found')
+      }
+      return { done: true, result: { feeds: feedCount } }
+    }
+  },
+  {
+    name: 'populate_events',
+    label: 'Event Population',
+    optional: true,
+    run: async ({ job, processor }) => {
+      await processor.populateEventsForCampaignSmart(job.campaign_id)
+      return { done: true }
+    }
+  },
+  {
+    name: 'evaluate_posts',
+    label: 'AI Post Evaluation',
+    run: async ({ job, step, processor }) => {
+      const { evaluated, remaining } = await processor.evaluatePostsForCampaign(job.campaign_id, EVALUATION_CHUNK_SIZE)
+      const previouslyEvaluated = step.result?.evaluated || 0
+      const result = { evaluated: previouslyEvaluated + evaluated, remaining }
+
+      // Stop once a chunk makes no progress so posts that keep failing evaluation don't hold the pipeline
+      if (remaining > 0 && evaluated > 0) {
+        return { done: false, result }
+      }
+      return { done: true, result }
+    }
+  },
+  {
+    name: 'detect_duplicates',
+    label: 'Duplicate Detection',
+    run: async ({ job, steps, processor }) => {
+      // Groups only change when new posts were rated
+      if (!findStepResult(steps, 'evaluate_posts')?.evaluated) {
+        return { done: true, result: { skipped: true } }
+      }
+      await processor.detectDuplicatesForCampaign(job.campaign_id)
+      return { done: true }
+    }
+  },
+  {
+    name: 'generate_articles',
+    label: 'Article Generation',
+    run: async ({ job, processor }) => {
+      // Posts that already have an article are skipped, so a retry resumes where a timeout left off
+      await processor.generateNewsletterArticles(job.campaign_id)
+      return { done: true }
+    }
+  },
+  {
+    name: 'select_top_articles',
+    label: 'Top Article Selection',
+    run: async ({ job, processor }) => {
+      // Also generates the subject line once articles are activated
+      await processor.selectTopArticlesForCampaign(job.campaign_id)
+      return { done: true }
+    }
+  },
+  {
+    name: 'process_images',
+    label: 'Image Processing',
+    optional: true,
+    run: async ({ job, processor }) => {
+      await processor.processArticleImages(job.campaign_id)
+      return { done: true }
+    }
+  },
+  {
+    name: 'road_work',
+    label: 'Road Work',
+    optional: true,
+    run: async ({ job, processor }) => {
+      await processor.generateRoadWorkForCampaign(job.campaign_id)
+      return { done: true }
+    }
+  },
+  {
+    name: 'finalize',
+    label: 'Status Update',
+    run: async ({ job, steps, processor }) => {
+      await processor.finalizeCampaign(job.campaign_id, findStepResult(steps, 'archive')?.archive || null)
+      return { done: true }
+    }
+  }
+]
+
+export class PipelineRunner {
+  static getStepLabel(stepName: string): string {
+    return STEP_DEFINITIONS.find(d => d.name === stepName)?.label || stepName
+  }
+
+  /**
+   * Create a job for a campaign, or return the campaign's unfinished job if one exists
+   */
+  static async enqueueJob(campaignId: string, options: { fullReset?: boolean } = {}): Promise<PipelineJob> {
+    const { data: existing } = await supabaseAdmin
+      .from('pipeline_jobs')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .in('status', ['pending', 'running'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (existing) {
+      console.log(`[Pipeline] Campaign ${campaignId} already has active job ${existing.id}`)
+      return existing
+    }
+
+    const { data: job, error } = await supabaseAdmin
+      .from('pipeline_jobs')
+      .insert([{
+        campaign_id: campaignId,
+        job_type: 'rss_processing',
+        status: 'pending',
+        options: { full_reset: options.fullReset || false }
+      }])
+      .select('*')
+      .single()
+
+    if (error || !job) {
+      throw new Error(`Failed to create pipeline job: ${error?.message}`)
+    }
+
+    const { error: stepsError } = await supabaseAdmin
+      .from('pipeline_job_steps')
+      .insert(STEP_DEFINITIONS.map((definition, index) => ({
+        job_id: job.id,
+        step_name: definition.name,
+        step_order: index + 1,
+        status: 'pending',
+        max_attempts: definition.maxAttempts || 3
+      })))
+
+    if (stepsError) {
+      throw new Error(`Failed to create pipeline steps: ${stepsError.message}`)
+    }
+
+    console.log(`[Pipeline] Enqueued job ${job.id} for campaign ${campaignId}`)
+    return job
+  }
+
+  /**
+   * Jobs that still have work to do, oldest first
+   */
+  static async getActiveJobs(): Promise<PipelineJob[]> {
+    const { data: jobs } = await supabaseAdmin
+      .from('pipeline_jobs')
+      .select('*')
+      .in('status', ['pending', 'running'])
+      .order('created_at', { ascending: true })
+
+    return jobs || []
+  }
+
+  /**
+   * Latest job for a campaign with its steps in order
+   */
+  static async getJobForCampaign(campaignId: string): Promise<{ job: PipelineJob, steps: PipelineJobStep[] } | null> {
+    const { data: job } = await supabaseAdmin
+      .from('pipeline_jobs')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!job) return null
+
+    return { job, steps: await this.getSteps(job.id) }
+  }
+
+  /**
+   * Run steps of a job until it finishes, a step is waiting on backoff, or the time budget is spent
+   */
+  static async advanceJob(jobId: string, budgetMs: number): Promise<AdvanceResult> {
+    const startedAt = Date.now()
+    const stepsRun: string[] = []
+
+    const claim = await this.claimJob(jobId)
+    if (!claim) {
+      console.log(`[Pipeline] Job ${jobId} is locked by another invocation or no longer active`)
+      return { jobId, status: 'running', stepsRun, waitingOn: 'lock' }
+    }
+
+    const { job, lock } = claim
+
+    const processor = new RSSProcessor()
+
+    try {
+      while (true) {
+        const steps = await this.getSteps(job.id)
+        const step = steps.find(s => s.status === 'pending' || s.status === 'running')
+
+        if (!step) {
+          await this.completeJob(job)
+          return { jobId, status: 'completed', stepsRun }
+        }
+
+        if (step.next_attempt_at && new Date(step.next_attempt_at).getTime() > Date.now()) {
+          return { jobId, status: 'running', stepsRun, waitingOn: step.step_name }
+        }
+
+        if (Date.now() - startedAt > budgetMs) {
+          console.log(`[Pipeline] Time budget spent, job ${job.id} will resume at ${step.step_name}`)
+          return { jobId, status: 'running', stepsRun, waitingOn: step.step_name }
+        }
+
+        const definition = STEP_DEFINITIONS.find(d => d.name === step.step_name)
+        if (!definition) {
+          throw new Error(`Unknown pipeline step: ${step.step_name}`)
+        }
+
+        // Our lease lapsed (e.g. a stalled heartbeat) and another invocation may have the job now
+        if (!(await lock.heartbeat())) {
+          return { jobId, status: 'running', stepsRun, waitingOn: 'lock' }
+        }
+
+        // A step still marked running means the invocation that started it died (usually a timeout)
+        if (step.status === 'running') {
+          const failed = await this.recordStepFailure(job, step, definition, steps, new Error('Step did not finish before the function timed out'))
+          if (failed) {
+            return { jobId, status: 'failed', stepsRun }
+          }
+          continue
+        }
+
+        stepsRun.push(step.step_name)
+        const failed = await this.runStep(job, step, definition, steps, processor)
+        if (failed) {
+          return { jobId, status: 'failed', stepsRun }
+        }
+      }
+    } finally {
+      await lock.release()
+    }
+  }
+
+  /**
+   * Execute one step. Returns true when the failure ended the job.
+   */
+  private static async runStep(
+    job: PipelineJob,
+    step: PipelineJobStep,
+    definition: StepDefinition,
+    steps: PipelineJobStep[],
+    processor: RSSProcessor
+  ): Promise<boolean> {
+    console.log(`[Pipeline] Job ${job.id}: running ${step.step_name} (attempt ${step.attempts + 1}/${step.max_attempts})`)
+
+    await supabaseAdmin
+      .from('pipeline_job_steps')
+      .update({
+        status: 'running',
+        started_at: step.started_at || new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', step.id)
+
+    await supabaseAdmin
+      .from('pipeline_jobs')
+      .update({ current_step: step.step_name, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+
+    try {
+      const outcome = await definition.run({ job, step, steps, processor })
+
+      await supabaseAdmin
+        .from('pipeline_job_steps')
+        .update({
+          status: outcome.done ? 'completed' : 'pending',
+          result: outcome.result || step.result,
+          last_error: null,
+          next_attempt_at: null,
+          completed_at: outcome.done ? new Date().toISOString() : null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', step.id)
+
+      console.log(`[Pipeline] Job ${job.id}: ${step.step_name} ${outcome.done ? 'completed' : 'made progress'}`)
+      return false
+    } catch (error) {
+      return this.recordStepFailure(job, step, definition, steps, error)
+    }
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or fail the step once attempts are exhausted.
+   * Returns true when the failure ended the job.
+   */
+  private static async recordStepFailure(
+    job: PipelineJob,
+    step: PipelineJobStep,
+    definition: StepDefinition,
+    steps: PipelineJobStep[],
+    error: unknown
+  ): Promise<boolean> {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const attempts = step.attempts + 1
+    const exhausted = attempts >= step.max_attempts
+
+    console.error(`[Pipeline] Job ${job.id}: ${step.step_name} failed (attempt ${attempts}/${step.max_attempts}):`, errorMessage)
+
+    await supabaseAdmin
+      .from('pipeline_job_steps')
+      .update({
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        last_error: errorMessage,
+        next_attempt_at: exhausted ? null : new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1)).toISOString(),
+        completed_at: exhausted ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', step.id)
+
+    if (!exhausted) {
+      return false
+    }
+
+    const errorHandler = new ErrorHandler()
+    await errorHandler.handleError(error, {
+      source: 'rss_processor',
+      operation: `pipeline:${step.step_name}`,
+      campaignId: job.campaign_id,
+      jobId: job.id,
+      attempts
+    })
+
+    if (definition.optional) {
+      console.warn(`[Pipeline] Optional step ${step.step_name} failed, continuing`)
+      return false
+    }
+
+    await supabaseAdmin
+      .from('pipeline_jobs')
+      .update({
+        status: 'failed',
+        last_error: `${definition.label}: ${errorMessage}`,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+
+    const completedSteps = steps
+      .filter(s => s.status === 'completed' && !s.result?.skipped)
+      .map(s => this.getStepLabel(s.step_name))
+
+    const slack = new SlackNotificationService()
+    await slack.sendRSSIncompleteAlert(job.campaign_id, completedSteps, definition.label, errorMessage)
+
+    return true
+  }
+
+  /**
+   * Take the job's run lock. Returns null if another invocation holds it or the job is finished.
+   */
+  private static async claimJob(jobId: string): Promise<{ job: PipelineJob, lock: RunLock } | null> {
+    const lock = await acquireRunLock(`pipeline_job:${jobId}`)
+    if (!lock) {
+      return null
+    }
+
+    const now = new Date().toISOString()
+    const { data: job, error } = await supabaseAdmin
+      .from('pipeline_jobs')
+      .update({ status: 'running', updated_at: now })
+      .eq('id', jobId)
+      .in('status', ['pending', 'running'])
+      .select('*')
+      .maybeSingle()
+
+    if (error || !job) {
+      await lock.release()
+      if (error) {
+        throw new Error(`Failed to claim pipeline job ${jobId}: ${error.message}`)
+      }
+      return null
+    }
+
+    if (!job.started_at) {
+      await supabaseAdmin
+        .from('pipeline_jobs')
+        .update({ started_at: now })
+        .eq('id', jobId)
+    }
+
+    return { job, lock }
+  }
+
+  private static async completeJob(job: PipelineJob) {
+    await supabaseAdmin
+      .from('pipeline_jobs')
+      .update({
+        status: 'completed',
+        current_step: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+
+    console.log(`[Pipeline] Job ${job.id} completed for campaign ${job.campaign_id}`)
+  }
+
+  private static async getSteps(jobId: string): Promise<PipelineJobStep[]> {
+    const { data: steps, error } = await supabaseAdmin
+      .from('pipeline_job_steps')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('step_order', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch pipeline steps: ${error.message}`)
+    }
+
+    return steps || []
+  }
+}
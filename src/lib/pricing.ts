@@ -0,0 +1,417 @@
+// Pricing
+// Checkout totals are computed here, never taken from the browser. Ads are priced from
+// ad_pricing_tiers and event promotions from the public event prices in app_settings.
+// Adjustments apply in order: the multi-run tier rate (ads) or bundle rate (events), then the
+// nonprofit rate, then a discount code, each on what's left after the ones before it.
+
+import { supabaseAdmin } from './supabase'
+import type {
+  AdFrequency,
+  AdPricingTier,
+  DiscountCode,
+  PricingAdjustment,
+  PricingQuote,
+  PricingQuoteLine
+} from '@/types/database'
+
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PricingError'
+  }
+}
+
+export interface PricingSettings {
+  paidPlacementPrice: number  // Dollars
+  featuredEventPrice: number  // Dollars
+  nonprofitDiscountPercent: number
+  eventBundleMinItems: number
+  eventBundleDiscountPercent: number
+}
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  paidPlacementPrice: 5,
+  featuredEventPrice: 15,
+  nonprofitDiscountPercent: 0,
+  eventBundleMinItems: 3,
+  eventBundleDiscountPercent: 0
+}
+
+export const PRICING_SETTING_KEYS: Record<keyof PricingSettings, string> = {
+  paidPlacementPrice: 'public_event_paid_placement_price',
+  featuredEventPrice: 'public_event_featured_price',
+  nonprofitDiscountPercent: 'pricing_nonprofit_discount_percent',
+  eventBundleMinItems: 'public_event_bundle_min_items',
+  eventBundleDiscountPercent: 'public_event_bundle_discount_percent'
+}
+
+const AD_FREQUENCIES: AdFrequency[] = ['single', 'weekly', 'monthly']
+
+const FREQUENCY_LABELS: Record<AdFrequency, string> = {
+  single: 'Single',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+}
+
+// Nonprofit rates need an IRS employer identification number; only its format is checked here,
+// so purchases at the nonprofit rate are held until a reviewer verifies the organization
+const EIN_REGEX = /^\d{2}-?\d{7}$/
+
+export interface AdQuoteRequest {
+  frequency: AdFrequency
+  times: number
+  businessName?: string | null
+  publicationName?: string | null
+  discountCode?: string | null
+  nonprofitEin?: string | null
+}
+
+export interface EventPromotionRequest {
+  title: string
+  venue?: string | null
+  placement: 'none' | 'paid' | 'featured'
+  // Promoting an event already on the calendar; a paid placement upgrading to featured pays the difference
+  existingEventId?: string | null
+}
+
+export interface QuoteOptions {
+  discountCode?: string | null
+  nonprofitEin?: string | null
+}
+
+export function toCents(dollars: number | string): number {
+  return Math.round(Number(dollars) * 100)
+}
+
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`
+}
+
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export async function getPricingSettings(): Promise<PricingSettings> {
+  const { data: rows, error } = await supabaseAdmin
+    .from('app_settings')
+    .select('key, value')
+    .in('key', Object.values(PRICING_SETTING_KEYS))
+
+  if (error) {
+    throw error
+  }
+
+  const settings = { ...DEFAULT_PRICING_SETTINGS }
+  for (const field of Object.keys(PRICING_SETTING_KEYS) as (keyof PricingSettings)[]) {
+    const row = rows?.find(r => r.key === PRICING_SETTING_KEYS[field])
+    const value = row ? parseFloat(row.value) : NaN
+    if (!isNaN(value) && value >= 0) {
+      settings[field] = value
+    }
+  }
+
+  return settings
+}
+
+/**
+ * Look up a code a buyer entered and check it can be used for this purchase
+ */
+export async function findDiscountCode(code: string, purchase: 'ads' | 'events'): Promise<DiscountCode> {
+  const { data: discount, error } = await supabaseAdmin
+    .from('discount_codes')
+    .select('*')
+    .eq('code', normalizeDiscountCode(code))
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  const now = new Date()
+  if (!discount || !discount.active) {
+    throw new PricingError('That discount code isn\'t valid')
+  }
+  if (discount.starts_at && new Date(discount.starts_at) > now) {
+    throw new PricingError('That discount code isn\'t active yet')
+  }
+  if (discount.expires_at && new Date(discount.expires_at) <= now) {
+    throw new PricingError('That discount code has expired')
+  }
+  if (discount.max_redemptions !== null && discount.times_redeemed >= discount.max_redemptions) {
+    throw new PricingError('That discount code has been used up')
+  }
+  if (discount.applies_to !== 'all' && discount.applies_to !== purchase) {
+    throw new PricingError(`That discount code can't be used for ${purchase === 'ads' ? 'ads' : 'event promotions'}`)
+  }
+
+  return discount
+}
+
+/**
+ * Count a use of a code once its checkout is paid. Returns false if the code ran out in
+ * the meantime; the buyer keeps the price they were quoted.
+ */
+export async function redeemDiscountCode(code: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('redeem_discount_code', { p_code: normalizeDiscountCode(code) })
+
+  if (error) {
+    console.error(`Failed to redeem discount code ${code}:`, error)
+    return false
+  }
+
+  return data === true
+}
+
+export async function quoteAdvertisement(request: AdQuoteRequest): Promise<PricingQuote> {
+  if (!AD_FREQUENCIES.includes(request.frequency)) {
+    throw new PricingError('Invalid ad frequency')
+  }
+  if (!Number.isInteger(request.times) || request.times < 1) {
+    throw new PricingError('Number of appearances must be a whole number of at least 1')
+  }
+
+  const { data: tiers, error } = await supabaseAdmin
+    .from('ad_pricing_tiers')
+    .select('*')
+    .eq('frequency', request.frequency)
+    .order('min_quantity', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  const tierRows: AdPricingTier[] = tiers || []
+  const tier = tierRows.find(t =>
+    request.times >= t.min_quantity && (t.max_quantity === null || request.times <= t.max_quantity)
+  )
+  if (!tier) {
+    throw new PricingError(`${FREQUENCY_LABELS[request.frequency]} ads aren't sold in a run of ${request.times}`)
+  }
+
+  // List price is the single-run tier; cheaper tiers for longer runs show as a discount
+  const listUnit = toCents(tierRows[0].price_per_unit)
+  const tierUnit = toCents(tier.price_per_unit)
+
+  const line: PricingQuoteLine = {
+    name: `${FREQUENCY_LABELS[request.frequency]} Advertisement${request.businessName ? ` - ${request.businessName}` : ''}`,
+    description: `${request.times} appearance(s)${request.publicationName ? ` in ${request.publicationName} Newsletter` : ''}`,
+    quantity: request.times,
+    unit_amount: listUnit,
+    amount: listUnit * request.times,
+    charged_amount: listUnit * request.times
+  }
+
+  const adjustments: PricingAdjustment[] = []
+  if (listUnit > tierUnit) {
+    adjustments.push({
+      type: 'multi_run',
+      label: `Multi-run rate (${request.times} × ${formatCents(tierUnit)})`,
+      amount: (listUnit - tierUnit) * request.times
+    })
+  }
+
+  return finishQuote('advertisement', [line], adjustments, 'ads', request, await getPricingSettings())
+}
+
+export async function quoteEventPromotions(events: EventPromotionRequest[], options: QuoteOptions = {}): Promise<PricingQuote> {
+  const settings = await getPricingSettings()
+  const paidPlacement = toCents(settings.paidPlacementPrice)
+  const featured = toCents(settings.featuredEventPrice)
+
+  const existingIds = events.map(e => e.existingEventId).filter((id): id is string => !!id)
+  const existingEvents = new Map<string, { paid_placement: boolean, featured: boolean }>()
+  if (existingIds.length > 0) {
+    const { data, error } = await supabaseAdmin
+      .from('events')
+      .select('id, paid_placement, featured')
+      .in('id', existingIds)
+
+    if (error) {
+      throw error
+    }
+    data?.forEach(event => existingEvents.set(event.id, event))
+  }
+
+  const lines: PricingQuoteLine[] = []
+  events.forEach((event, index) => {
+    if (event.placement === 'none') return
+
+    const existing = event.existingEventId ? existingEvents.get(event.existingEventId) : undefined
+    if (event.existingEventId && !existing) {
+      throw new PricingError(`The event "${event.title}" could not be found`)
+    }
+
+    let name = `${event.title} - ${event.placement === 'paid' ? 'Paid Placement' : 'Featured Event'}`
+    let unitAmount = event.placement === 'paid' ? paidPlacement : featured
+    if (event.placement === 'featured' && existing?.paid_placement && !existing.featured) {
+      name = `${event.title} - Upgrade to Featured Event`
+      unitAmount = Math.max(0, featured - paidPlacement)
+    }
+
+    lines.push({
+      name,
+      description: event.venue ? `Event at ${event.venue}` : 'Event promotion',
+      quantity: 1,
+      unit_amount: unitAmount,
+      amount: unitAmount,
+      charged_amount: unitAmount,
+      event_index: index
+    })
+  })
+
+  const adjustments: PricingAdjustment[] = []
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0)
+  if (settings.eventBundleDiscountPercent > 0 && lines.length >= settings.eventBundleMinItems) {
+    adjustments.push({
+      type: 'bundle',
+      label: `Bundle discount (${lines.length} promotions, ${settings.eventBundleDiscountPercent}% off)`,
+      amount: Math.round(subtotal * settings.eventBundleDiscountPercent / 100)
+    })
+  }
+
+  return finishQuote('event_promotion', lines, adjustments, 'events', options, settings)
+}
+
+/**
+ * Apply the nonprofit rate and discount code, then spread the total across the lines
+ */
+async function finishQuote(
+  kind: PricingQuote['kind'],
+  lines: PricingQuoteLine[],
+  adjustments: PricingAdjustment[],
+  purchase: 'ads' | 'events',
+  options: QuoteOptions,
+  settings: PricingSettings
+): Promise<PricingQuote> {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0)
+  const remaining = () => Math.max(0, subtotal - adjustments.reduce((sum, a) => sum + a.amount, 0))
+
+  let nonprofitEin: string | null = null
+  if (options.nonprofitEin) {
+    if (!EIN_REGEX.test(options.nonprofitEin.trim())) {
+      throw new PricingError('Enter your organization\'s 9-digit EIN to get the nonprofit rate')
+    }
+    nonprofitEin = options.nonprofitEin.trim()
+    if (settings.nonprofitDiscountPercent > 0) {
+      adjustments.push({
+        type: 'nonprofit',
+        label: `Nonprofit rate (${settings.nonprofitDiscountPercent}% off)`,
+        amount: Math.round(remaining() * settings.nonprofitDiscountPercent / 100)
+      })
+    }
+  }
+
+  let discountCode: string | null = null
+  if (options.discountCode && options.discountCode.trim()) {
+    const discount = await findDiscountCode(options.discountCode, purchase)
+    discountCode = discount.code
+    const amount = discount.percent_off !== null
+      ? Math.round(remaining() * Number(discount.percent_off) / 100)
+      : Math.min(remaining(), toCents(discount.amount_off || 0))
+    adjustments.push({
+      type: 'discount_code',
+      label: `Code ${discount.code}${discount.description ? ` (${discount.description})` : ''}`,
+      amount
+    })
+  }
+
+  const total = remaining()
+  allocateTotal(lines, total)
+
+  return {
+    kind,
+    lines,
+    subtotal,
+    adjustments,
+    total,
+    discount_code: discountCode,
+    nonprofit_ein: nonprofitEin,
+    computed_at: new Date().toISOString()
+  }
+}
+
+// Stripe line items can't be negative, so each line is charged its share of the discounted total
+function allocateTotal(lines: PricingQuoteLine[], total: number) {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0)
+  if (subtotal === 0) return
+
+  let allocated = 0
+  lines.forEach(line => {
+    line.charged_amount = Math.floor(line.amount * total / subtotal)
+    allocated += line.charged_amount
+  })
+
+  // Leftover cents from rounding down go to the largest lines
+  const largestFirst = lines.slice().sort((a, b) => b.amount - a.amount)
+  for (let i = 0; allocated < total; i++, allocated++) {
+    largestFirst[i % largestFirst.length].charged_amount += 1
+  }
+}
+
+/**
+ * The EIN a purchase got the nonprofit rate with, or null when the rate wasn't applied
+ */
+export function getNonprofitRateEin(quote: PricingQuote | null | undefined): string | null {
+  if (!quote?.nonprofit_ein || !quote.adjustments.some(adjustment => adjustment.type === 'nonprofit')) {
+    return null
+  }
+  return quote.nonprofit_ein
+}
+
+/**
+ * Approving something bought at the nonprofit rate needs the reviewer to confirm the EIN
+ */
+export function requireNonprofitVerification(nonprofitEin: string | null, verified: unknown) {
+  if (nonprofitEin && verified !== true) {
+    throw new PricingError(`Verify nonprofit EIN ${nonprofitEin} before approving`)
+  }
+}
+
+/**
+ * Stripe Checkout form fields for a quote's lines; free lines are left out
+ */
+export function buildStripeLineItems(quote: PricingQuote): Record<string, string> {
+  const fields: Record<string, string> = {}
+
+  quote.lines
+    .filter(line => line.charged_amount > 0)
+    .forEach((line, index) => {
+      const description = line.charged_amount < line.amount
+        ? `${line.description} (${formatCents(line.amount)} before discounts)`
+        : line.description
+
+      fields[`line_items[${index}][price_data][currency]`] = 'usd'
+      fields[`line_items[${index}][price_data][product_data][name]`] = line.name
+      fields[`line_items[${index}][price_data][product_data][description]`] = description
+      fields[`line_items[${index}][price_data][unit_amount]`] = line.charged_amount.toString()
+      fields[`line_items[${index}][quantity]`] = '1'
+    })
+
+  return fields
+}
+
+// Paid placement wins when a submission asks for both, matching what it is priced at
+function eventPlacement(event: any): EventPromotionRequest['placement'] {
+  return event.paid_placement ? 'paid' : event.featured ? 'featured' : 'none'
+}
+
+/**
+ * Map submitted event rows (checkout payloads) to promotion requests
+ */
+export function toEventPromotionRequests(events: any[]): EventPromotionRequest[] {
+  return events.map(event => ({
+    title: String(event.title || 'Event'),
+    venue: event.venue || null,
+    placement: eventPlacement(event),
+    existingEventId: event.existing_event_id || null
+  }))
+}
+
+/**
+ * A submitted event with paid_placement and featured set from the placement it was priced at,
+ * so the stored flags never promise more than was paid for
+ */
+export function withPricedPlacement<T>(event: T): T & { paid_placement: boolean, featured: boolean } {
+  const placement = eventPlacement(event)
+  return { ...event, paid_placement: placement === 'paid', featured: placement === 'featured' }
+}
@@ -0,0 +1,298 @@
+// Prompt Playground
+// Replays an archived campaign against a draft prompt without touching live data.
+// Posts and ratings come from archived_rss_posts / archived_post_ratings, copy from archived_articles.
+
+import { supabaseAdmin } from './supabase'
+import { RSSProcessor } from './rss-processor'
+import { getFactCheckerTemplate } from './openai'
+import type { ArchivedArticle, ArchivedRssPost, ArchivedPostRating } from '@/types/database'
+
+export type PlaygroundPromptKey = 'content_evaluator' | 'newsletter_writer' | 'fact_checker'
+
+export const PLAYGROUND_PROMPT_KEYS: PlaygroundPromptKey[] = ['content_evaluator', 'newsletter_writer', 'fact_checker']
+
+// Every post costs one or two LLM calls, so keep a run inside the route's time limit
+export const MAX_PLAYGROUND_POSTS = 20
+
+export interface PlaygroundCampaign {
+  campaignId: string
+  campaignDate: string | null
+  postCount: number
+}
+
+interface PlaygroundSide {
+  score: number | null
+  factCheckScore: number | null
+  factCheckPassed: boolean | null
+  headline: string | null
+  content: string | null
+  rank: number | null
+  selected: boolean
+}
+
+export interface PlaygroundPostResult {
+  postId: string
+  title: string
+  sourceUrl: string | null
+  baseline: PlaygroundSide
+  draft: PlaygroundSide & { reasoning: string | null }
+  // Rating total for the evaluator, fact-check score for the writer and fact checker
+  scoreDelta: number | null
+  // Positive when the post moved up the ranking
+  rankChange: number | null
+  error: string | null
+}
+
+export interface PlaygroundResult {
+  campaignId: string
+  campaignDate: string | null
+  promptKey: PlaygroundPromptKey
+  topArticleCount: number
+  posts: PlaygroundPostResult[]
+  summary: {
+    replayed: number
+    errors: number
+    averageScoreDelta: number | null
+    enteredTopArticles: string[]
+    leftTopArticles: string[]
+  }
+}
+
+type ArchivedPostWithRelations = ArchivedRssPost & {
+  archived_post_ratings: ArchivedPostRating[]
+}
+
+/**
+ * Current text of each playground prompt, used to pre-fill drafts
+ */
+export async function getPlaygroundTemplates(): Promise<Record<PlaygroundPromptKey, string>> {
+  const { data } = await supabaseAdmin
+    .from('app_settings')
+    .select('key, value')
+    .in('key', ['ai_prompt_content_evaluator', 'ai_prompt_newsletter_writer'])
+
+  const settings = new Map((data || []).map(row => [row.key, row.value as string]))
+
+  return {
+    content_evaluator: settings.get('ai_prompt_content_evaluator') || '',
+    newsletter_writer: settings.get('ai_prompt_newsletter_writer') || '',
+    fact_checker: getFactCheckerTemplate()
+  }
+}
+
+/**
+ * Recent campaigns that have archived posts to replay
+ */
+export async function getReplayableCampaigns(limit: number = 30): Promise<PlaygroundCampaign[]> {
+  const { data, error } = await supabaseAdmin
+    .from('archived_rss_posts')
+    .select('campaign_id, campaign_date')
+    .order('campaign_date', { ascending: false })
+    .limit(2000)
+
+  if (error) {
+    throw new Error(`Failed to fetch archived campaigns: ${error.message}`)
+  }
+
+  const campaigns = new Map<string, PlaygroundCampaign>()
+  for (const row of data || []) {
+    const existing = campaigns.get(row.campaign_id)
+    if (existing) {
+      existing.postCount++
+    } else {
+      campaigns.set(row.campaign_id, { campaignId: row.campaign_id, campaignDate: row.campaign_date, postCount: 1 })
+    }
+  }
+
+  return Array.from(campaigns.values()).slice(0, limit)
+}
+
+// Same ordering as selectTop5Articles: highest score first, top N selected
+const rankByScore = (items: { postId: string, score: number | null }[], topCount: number) => {
+  const ranks = new Map<string, { rank: number, selected: boolean }>()
+  items
+    .filter(item => item.score !== null)
+    .sort((a, b) => (b.score || 0) - (a.score || 0))
+    .forEach((item, index) => ranks.set(item.postId, { rank: index + 1, selected: index < topCount }))
+  return ranks
+}
+
+/**
+ * Run a draft prompt against an archived campaign and compare it with what actually happened
+ */
+export async function runPromptPlayground(params: {
+  campaignId: string
+  promptKey: PlaygroundPromptKey
+  draft: string
+  maxPosts?: number
+}): Promise<PlaygroundResult> {
+  const { campaignId, promptKey, draft } = params
+  const maxPosts = Math.max(1, Math.min(params.maxPosts || 10, MAX_PLAYGROUND_POSTS))
+
+  if (!PLAYGROUND_PROMPT_KEYS.includes(promptKey)) {
+    throw new Error(`The playground does not support ${promptKey}`)
+  }
+  if (!draft.trim()) {
+    throw new Error('Draft prompt is empty')
+  }
+
+  const { data: posts, error: postsError } = await supabaseAdmin
+    .from('archived_rss_posts')
+    .select('*, archived_post_ratings(*)')
+    .eq('campaign_id', campaignId)
+
+  if (postsError) {
+    throw new Error(`Failed to fetch archived posts: ${postsError.message}`)
+  }
+  if (!posts || posts.length === 0) {
+    throw new Error('No archived posts found for this campaign')
+  }
+
+  const { data: articles, error: articlesError } = await supabaseAdmin
+    .from('archived_articles')
+    .select('*')
+    .eq('campaign_id', campaignId)
+
+  if (articlesError) {
+    throw new Error(`Failed to fetch archived articles: ${articlesError.message}`)
+  }
+
+  // archived_articles.post_id holds the original rss_posts id
+  const articlesByPost = new Map<string, ArchivedArticle>()
+  for (const article of (articles || []) as ArchivedArticle[]) {
+    if (article.post_id) articlesByPost.set(article.post_id, article)
+  }
+
+  const processor = new RSSProcessor()
+  const topArticleCount = await processor.getTopArticleCount()
+
+  const originalScore = (post: ArchivedPostWithRelations) => post.archived_post_ratings?.[0]?.total_score ?? null
+
+  // The evaluator can re-rate any post; the writer and fact checker only apply to posts that got an article
+  const candidates = (posts as ArchivedPostWithRelations[])
+    .filter(post => promptKey === 'content_evaluator' || articlesByPost.has(post.original_post_id))
+    .sort((a, b) => (originalScore(b) || 0) - (originalScore(a) || 0))
+    .slice(0, maxPosts)
+
+  console.log(`[Playground] Replaying ${promptKey} draft against ${candidates.length} posts from campaign ${campaignId}`)
+
+  const results: PlaygroundPostResult[] = []
+
+  for (const post of candidates) {
+    const article = articlesByPost.get(post.original_post_id) || null
+    const rating = post.archived_post_ratings?.[0] || null
+    const source = post.content || post.description || ''
+
+    const result: PlaygroundPostResult = {
+      postId: post.original_post_id,
+      title: post.title,
+      sourceUrl: post.source_url,
+      baseline: {
+        score: rating?.total_score ?? null,
+        factCheckScore: article?.fact_check_score ?? null,
+        factCheckPassed: article ? true : null,
+        headline: article?.headline || null,
+        content: article?.content || null,
+        rank: null,
+        selected: false
+      },
+      draft: {
+        score: rating?.total_score ?? null,
+        factCheckScore: article?.fact_check_score ?? null,
+        factCheckPassed: article ? true : null,
+        headline: article?.headline || null,
+        content: article?.content || null,
+        reasoning: null,
+        rank: null,
+        selected: false
+      },
+      scoreDelta: null,
+      rankChange: null,
+      error: null
+    }
+
+    try {
+      if (promptKey === 'content_evaluator') {
+        const evaluation = await processor.evaluatePost({
+          id: post.original_post_id,
+          title: post.title,
+          description: post.description,
+          content: post.content,
+          image_url: post.image_url
+        }, draft)
+
+        // Matches the generated total_score column on post_ratings
+        result.draft.score = evaluation.interest_level + evaluation.local_relevance + evaluation.community_impact
+        result.draft.reasoning = evaluation.reasoning || null
+        result.scoreDelta = rating ? result.draft.score - rating.total_score : null
+      } else if (promptKey === 'newsletter_writer') {
+        const content = await processor.generateNewsletterContent({
+          title: post.title,
+          description: post.description,
+          content: post.content,
+          source_url: post.source_url
+        }, draft)
+        const factCheck = await processor.factCheckContent(content.content, source)
+
+        result.draft.headline = content.headline
+        result.draft.content = content.content
+        result.draft.factCheckScore = factCheck.score
+        result.draft.factCheckPassed = factCheck.passed
+        result.draft.reasoning = factCheck.details
+      } else {
+        const factCheck = await processor.factCheckContent(article!.content, source, draft)
+
+        result.draft.factCheckScore = factCheck.score
+        result.draft.factCheckPassed = factCheck.passed
+        result.draft.reasoning = factCheck.details
+      }
+
+      if (promptKey !== 'content_evaluator' && result.baseline.factCheckScore !== null && result.draft.factCheckScore !== null) {
+        result.scoreDelta = result.draft.factCheckScore - result.baseline.factCheckScore
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Unknown error'
+    }
+
+    results.push(result)
+  }
+
+  // Only posts with an article compete for the top slots; a failed fact check removes the article
+  const baselineRanks = rankByScore(
+    results.filter(r => r.baseline.headline !== null).map(r => ({ postId: r.postId, score: r.baseline.score })),
+    topArticleCount
+  )
+  const draftRanks = rankByScore(
+    results
+      .filter(r => r.draft.headline !== null && r.draft.factCheckPassed !== false && !r.error)
+      .map(r => ({ postId: r.postId, score: r.draft.score })),
+    topArticleCount
+  )
+
+  for (const result of results) {
+    const before = baselineRanks.get(result.postId)
+    const after = draftRanks.get(result.postId)
+    result.baseline.rank = before?.rank ?? null
+    result.baseline.selected = before?.selected || false
+    result.draft.rank = after?.rank ?? null
+    result.draft.selected = after?.selected || false
+    result.rankChange = before && after ? before.rank - after.rank : null
+  }
+
+  const deltas = results.map(r => r.scoreDelta).filter((d): d is number => d !== null)
+
+  return {
+    campaignId,
+    campaignDate: posts[0].campaign_date,
+    promptKey,
+    topArticleCount,
+    posts: results,
+    summary: {
+      replayed: results.filter(r => !r.error).length,
+      errors: results.filter(r => r.error).length,
+      averageScoreDelta: deltas.length > 0 ? deltas.reduce((sum, d) => sum + d, 0) / deltas.length : null,
+      enteredTopArticles: results.filter(r => r.draft.selected && !r.baseline.selected).map(r => r.title),
+      leftTopArticles: results.filter(r => r.baseline.selected && !r.draft.selected).map(r => r.title)
+    }
+  }
+}
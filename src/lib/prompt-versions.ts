@@ -0,0 +1,319 @@
+// AI prompt versioning and A/B experiments
+// Every saved ai_prompt_* value is kept in ai_prompt_versions, per publication; an experiment splits posts between two versions
+
+import crypto from 'crypto'
+import { supabaseAdmin } from './supabase'
+import { getPublicationSetting, setPublicationSetting } from './publications'
+import type { AIPromptVersion, AIPromptExperiment, Publication } from '@/types/database'
+
+// Prompts that run once per post, so their output can be compared per variant
+export const EXPERIMENT_PROMPT_KEYS = ['ai_prompt_content_evaluator', 'ai_prompt_newsletter_writer']
+
+export interface PromptAssignment {
+  experimentId: string
+  variant: 'A' | 'B'
+  versionId: string
+  template: string
+}
+
+export interface VariantResults {
+  versionId: string
+  items: number
+  articles: number
+  accepted: number
+  skipped: number
+  acceptanceRate: number | null
+  averageScore: number | null
+}
+
+/**
+ * A publication's versions of a prompt, newest first
+ */
+export async function getPromptVersions(publication: Publication, promptKey: string): Promise<AIPromptVersion[]> {
+  const { data, error } = await supabaseAdmin
+    .from('ai_prompt_versions')
+    .select('*')
+    .eq('publication_id', publication.id)
+    .eq('prompt_key', promptKey)
+    .order('version_number', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch prompt versions: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Store the prompt's current value for the publication as version 1 if it has no history yet
+ */
+export async function ensureInitialVersion(publication: Publication, promptKey: string): Promise<void> {
+  const { count } = await supabaseAdmin
+    .from('ai_prompt_versions')
+    .select('id', { count: 'exact', head: true })
+    .eq('publication_id', publication.id)
+    .eq('prompt_key', promptKey)
+
+  if (count && count > 0) return
+
+  const current = await getPublicationSetting(publication, promptKey)
+  if (current) {
+    await recordPromptVersion(publication, promptKey, current, 'system', 'Initial version')
+  }
+}
+
+/**
+ * Append a version. Saving the same text as the latest version is a no-op.
+ */
+export async function recordPromptVersion(
+  publication: Publication,
+  promptKey: string,
+  value: string,
+  createdBy: string | null,
+  note?: string
+): Promise<AIPromptVersion> {
+  const { data: latest } = await supabaseAdmin
+    .from('ai_prompt_versions')
+    .select('*')
+    .eq('publication_id', publication.id)
+    .eq('prompt_key', promptKey)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (latest && latest.value === value) {
+    return latest
+  }
+
+  const { data: version, error } = await supabaseAdmin
+    .from('ai_prompt_versions')
+    .insert([{
+      publication_id: publication.id,
+      prompt_key: promptKey,
+      version_number: (latest?.version_number || 0) + 1,
+      value,
+      note: note || null,
+      created_by: createdBy
+    }])
+    .select('*')
+    .single()
+
+  if (error || !version) {
+    throw new Error(`Failed to record prompt version: ${error?.message}`)
+  }
+
+  return version
+}
+
+/**
+ * Make an earlier version the publication's live prompt again (recorded as a new version)
+ */
+export async function rollbackPrompt(
+  publication: Publication,
+  promptKey: string,
+  versionId: string,
+  createdBy: string | null
+): Promise<AIPromptVersion> {
+  const { data: target, error } = await supabaseAdmin
+    .from('ai_prompt_versions')
+    .select('*')
+    .eq('id', versionId)
+    .eq('publication_id', publication.id)
+    .eq('prompt_key', promptKey)
+    .single()
+
+  if (error || !target) {
+    throw new Error('Prompt version not found')
+  }
+
+  await setPublicationSetting(publication, target.prompt_key, target.value)
+
+  return recordPromptVersion(publication, target.prompt_key, target.value, createdBy, `Rolled back to version ${target.version_number}`)
+}
+
+export async function getActiveExperiment(promptKey: string): Promise<AIPromptExperiment | null> {
+  const { data } = await supabaseAdmin
+    .from('ai_prompt_experiments')
+    .select('*')
+    .eq('prompt_key', promptKey)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  return data || null
+}
+
+export async function listExperiments(): Promise<AIPromptExperiment[]> {
+  const { data, error } = await supabaseAdmin
+    .from('ai_prompt_experiments')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch prompt experiments: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Start an experiment, ending any experiment already running on the prompt
+ */
+export async function startExperiment(params: {
+  promptKey: string
+  name: string
+  versionAId: string
+  versionBId: string
+  splitPercent?: number
+  createdBy: string | null
+}): Promise<AIPromptExperiment> {
+  if (!EXPERIMENT_PROMPT_KEYS.includes(params.promptKey)) {
+    throw new Error(`Experiments are not supported for ${params.promptKey}`)
+  }
+
+  const { data: versions } = await supabaseAdmin
+    .from('ai_prompt_versions')
+    .select('id')
+    .eq('prompt_key', params.promptKey)
+    .in('id', [params.versionAId, params.versionBId])
+
+  if (params.versionAId === params.versionBId || (versions || []).length !== 2) {
+    throw new Error('Experiments need two different versions of the same prompt')
+  }
+
+  const active = await getActiveExperiment(params.promptKey)
+  if (active) {
+    await endExperiment(active.id)
+  }
+
+  const { data: experiment, error } = await supabaseAdmin
+    .from('ai_prompt_experiments')
+    .insert([{
+      prompt_key: params.promptKey,
+      name: params.name,
+      version_a_id: params.versionAId,
+      version_b_id: params.versionBId,
+      split_percent: params.splitPercent ?? 50,
+      is_active: true,
+      created_by: params.createdBy
+    }])
+    .select('*')
+    .single()
+
+  if (error || !experiment) {
+    throw new Error(`Failed to start experiment: ${error?.message}`)
+  }
+
+  return experiment
+}
+
+export async function endExperiment(experimentId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ai_prompt_experiments')
+    .update({
+      is_active: false,
+      ended_at: new Date().toISOString()
+    })
+    .eq('id', experimentId)
+
+  if (error) {
+    throw new Error(`Failed to end experiment: ${error.message}`)
+  }
+}
+
+/**
+ * Pick the variant for a post. The same post always lands in the same variant.
+ * Returns null when no experiment is running, so callers use the live prompt.
+ */
+export async function assignPromptVariant(promptKey: string, subjectId: string): Promise<PromptAssignment | null> {
+  const experiment = await getActiveExperiment(promptKey)
+  if (!experiment) return null
+
+  const bucket = parseInt(crypto.createHash('sha256').update(`${experiment.id}:${subjectId}`).digest('hex').slice(0, 8), 16) % 100
+  const variant: 'A' | 'B' = bucket < experiment.split_percent ? 'B' : 'A'
+  const versionId = variant === 'B' ? experiment.version_b_id : experiment.version_a_id
+
+  const { data: version } = await supabaseAdmin
+    .from('ai_prompt_versions')
+    .select('value')
+    .eq('id', versionId)
+    .single()
+
+  if (!version) {
+    console.error(`Prompt version ${versionId} for experiment ${experiment.id} not found, using live prompt`)
+    return null
+  }
+
+  return { experimentId: experiment.id, variant, versionId, template: version.value }
+}
+
+const summarize = (
+  versionId: string,
+  rows: { articles: number, accepted: number, skipped: number, score: number | null }[]
+): VariantResults => {
+  const articles = rows.reduce((sum, r) => sum + r.articles, 0)
+  const accepted = rows.reduce((sum, r) => sum + r.accepted, 0)
+  const scores = rows.map(r => r.score).filter((s): s is number => typeof s === 'number')
+
+  return {
+    versionId,
+    items: rows.length,
+    articles,
+    accepted,
+    skipped: rows.reduce((sum, r) => sum + r.skipped, 0),
+    acceptanceRate: articles > 0 ? accepted / articles : null,
+    averageScore: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null
+  }
+}
+
+/**
+ * Compare variants by reviewer acceptance: an article counts as accepted when it
+ * is active in the campaign (selected for the newsletter) and rejected when skipped.
+ */
+export async function getExperimentResults(experiment: AIPromptExperiment): Promise<{ A: VariantResults, B: VariantResults }> {
+  let rows: { variant: 'A' | 'B', articles: number, accepted: number, skipped: number, score: number | null }[] = []
+
+  if (experiment.prompt_key === 'ai_prompt_content_evaluator') {
+    // Evaluator variants are judged by what happened to the articles written from the posts they rated
+    const { data, error } = await supabaseAdmin
+      .from('post_ratings')
+      .select('prompt_variant, total_score, post:rss_posts(articles(is_active, skipped))')
+      .eq('prompt_experiment_id', experiment.id)
+
+    if (error) {
+      throw new Error(`Failed to fetch experiment ratings: ${error.message}`)
+    }
+
+    rows = (data || []).map((rating: any) => {
+      const articles: any[] = rating.post?.articles || []
+      return {
+        variant: rating.prompt_variant,
+        articles: articles.length,
+        accepted: articles.filter(a => a.is_active).length,
+        skipped: articles.filter(a => a.skipped).length,
+        score: rating.total_score
+      }
+    })
+  } else {
+    const { data, error } = await supabaseAdmin
+      .from('articles')
+      .select('prompt_variant, is_active, skipped, fact_check_score')
+      .eq('prompt_experiment_id', experiment.id)
+
+    if (error) {
+      throw new Error(`Failed to fetch experiment articles: ${error.message}`)
+    }
+
+    rows = (data || []).map((article: any) => ({
+      variant: article.prompt_variant,
+      articles: 1,
+      accepted: article.is_active ? 1 : 0,
+      skipped: article.skipped ? 1 : 0,
+      score: article.fact_check_score
+    }))
+  }
+
+  return {
+    A: summarize(experiment.version_a_id, rows.filter(r => r.variant === 'A')),
+    B: summarize(experiment.version_b_id, rows.filter(r => r.variant === 'B'))
+  }
+}
@@ -0,0 +1,205 @@
+// Publications
+// A publication is one newsletter edition (St. Cloud Scoop, or a sister edition like Sartell or
+// Brainerd). It scopes feeds, sections, campaigns, ads and weather, and carries the branding,
+// location and MailerLite groups that used to be hard-coded. Global app_settings still apply to
+// every publication unless it has its own value in publication_settings.
+
+import { supabaseAdmin } from './supabase'
+import type { Publication } from '@/types/database'
+
+const PUBLICATION_CACHE_TTL_MS = 60 * 1000
+
+let publicationCache: { publications: Publication[], expires: number } | null = null
+
+/**
+ * Branding used where no publication is at hand (templates rendered without a campaign)
+ */
+export const DEFAULT_BRANDING = {
+  name: 'St. Cloud Scoop',
+  website_url: 'https://stcscoop.com',
+  logo_url: 'https://raw.githubusercontent.com/VFDavid/STCScoop/refs/heads/main/STCSCOOP_Logo_824X148_clear.png',
+  brand_color: '#1877F2',
+  facebook_url: 'https://www.facebook.com/61578947310955/',
+  sender_name: 'St. Cloud Scoop',
+  from_email: 'scoop@stcscoop.com'
+}
+
+export type PublicationBranding = Pick<Publication, 'name' | 'website_url' | 'logo_url' | 'brand_color' | 'facebook_url'>
+
+/**
+ * Every publication, default first. Cached briefly since the pipeline looks them up per campaign.
+ */
+export async function getPublications(): Promise<Publication[]> {
+  if (publicationCache && publicationCache.expires > Date.now()) {
+    return publicationCache.publications
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('publications')
+    .select('*')
+    .order('is_default', { ascending: false })
+    .order('name', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load publications: ${error.message}`)
+  }
+
+  const publications = (data || []) as Publication[]
+  publicationCache = { publications, expires: Date.now() + PUBLICATION_CACHE_TTL_MS }
+  return publications
+}
+
+/**
+ * Forget cached publications after they are edited
+ */
+export function clearPublicationCache() {
+  publicationCache = null
+}
+
+export async function getActivePublications(): Promise<Publication[]> {
+  return (await getPublications()).filter(publication => publication.active)
+}
+
+export async function getDefaultPublication(): Promise<Publication> {
+  const publications = await getPublications()
+  const publication = publications.find(p => p.is_default) || publications[0]
+
+  if (!publication) {
+    throw new Error('No publications configured. Run database_migration_publications.sql')
+  }
+  return publication
+}
+
+/**
+ * Look up a publication by id or slug; empty means the default publication
+ */
+export async function resolvePublication(idOrSlug?: string | null): Promise<Publication> {
+  if (!idOrSlug) {
+    return getDefaultPublication()
+  }
+
+  const publication = (await getPublications()).find(p => p.id === idOrSlug || p.slug === idOrSlug)
+  if (!publication) {
+    throw new Error(`Unknown publication: ${idOrSlug}`)
+  }
+  return publication
+}
+
+/**
+ * The publication a campaign belongs to (campaigns from before publications existed belong to the default)
+ */
+export async function getCampaignPublication(campaign: string | { publication_id?: string | null }): Promise<Publication> {
+  if (typeof campaign !== 'string') {
+    return resolvePublication(campaign.publication_id)
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('newsletter_campaigns')
+    .select('publication_id')
+    .eq('id', campaign)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Campaign not found: ${campaign}`)
+  }
+  return resolvePublication(data.publication_id)
+}
+
+/**
+ * A setting for one publication: its own value from publication_settings, else the global app_settings value.
+ * The default publication always uses app_settings, so the existing settings screens keep working for it.
+ */
+export async function getPublicationSetting(publication: Publication, key: string): Promise<string | null> {
+  if (!publication.is_default) {
+    const { data } = await supabaseAdmin
+      .from('publication_settings')
+      .select('value')
+      .eq('publication_id', publication.id)
+      .eq('key', key)
+      .maybeSingle()
+
+    if (data) {
+      return data.value
+    }
+  }
+
+  const { data } = await supabaseAdmin
+    .from('app_settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle()
+
+  return data?.value ?? null
+}
+
+export async function setPublicationSetting(publication: Publication, key: string, value: string): Promise<void> {
+  const updatedAt = new Date().toISOString()
+
+  const { error } = publication.is_default
+    ? await supabaseAdmin
+        .from('app_settings')
+        .upsert({ key, value, updated_at: updatedAt }, { onConflict: 'key' })
+    : await supabaseAdmin
+        .from('publication_settings')
+        .upsert({ publication_id: publication.id, key, value, updated_at: updatedAt }, { onConflict: 'publication_id,key' })
+
+  if (error) {
+    throw new Error(`Failed to save ${key} for ${publication.slug}: ${error.message}`)
+  }
+}
+
+/**
+ * Sender name and address, falling back to the global email settings
+ */
+export async function getPublicationSender(publication: Publication): Promise<{ senderName: string, fromEmail: string }> {
+  const [senderName, fromEmail] = await Promise.all([
+    publication.sender_name || getPublicationSetting(publication, 'email_senderName'),
+    publication.from_email || getPublicationSetting(publication, 'email_fromEmail')
+  ])
+
+  return {
+    senderName: senderName || publication.name,
+    fromEmail: fromEmail || DEFAULT_BRANDING.from_email
+  }
+}
+
+/**
+ * MailerLite group for review or final sends, falling back to the global setting and environment
+ */
+export async function getPublicationGroupId(publication: Publication, audience: 'review' | 'main'): Promise<string | null> {
+  if (audience === 'review') {
+    return publication.mailerlite_review_group_id
+      || await getPublicationSetting(publication, 'email_reviewGroupId')
+      || process.env.MAILERLITE_REVIEW_GROUP_ID
+      || null
+  }
+
+  return publication.mailerlite_main_group_id
+    || await getPublicationSetting(publication, 'email_mainGroupId')
+    || process.env.MAILERLITE_MAIN_GROUP_ID
+    || null
+}
+
+/**
+ * "St. Cloud, Minnesota"
+ */
+export function getPublicationLocation(publication: Pick<Publication, 'city' | 'state'>): string {
+  return `${publication.city}, ${publication.state}`
+}
+
+/**
+ * Fill the publication placeholders used by prompts and templates:
+ * {{publication_name}}, {{city}}, {{state}}, {{location}}, {{county}}, {{zip_code}},
+ * {{nearby_communities}} and {{road_work_sources}}
+ */
+export function fillPublicationPlaceholders(text: string, publication: Publication): string {
+  return text
+    .replace(/\{\{publication_name\}\}/g, publication.name)
+    .replace(/\{\{city\}\}/g, publication.city)
+    .replace(/\{\{state\}\}/g, publication.state)
+    .replace(/\{\{location\}\}/g, getPublicationLocation(publication))
+    .replace(/\{\{county\}\}/g, publication.county || `the ${publication.city} area`)
+    .replace(/\{\{zip_code\}\}/g, publication.zip_code || '')
+    .replace(/\{\{nearby_communities\}\}/g, publication.nearby_communities || 'surrounding communities')
+    .replace(/\{\{road_work_sources\}\}/g, publication.road_work_sources || '- Local news and city/county websites')
+}
@@ -0,0 +1,103 @@
+// Reader Feedback
+// Readers rate an issue from the feedback block, then can pick the sections they liked and
+// leave a comment. One response per subscriber per issue; later answers update it.
+
+import { supabaseAdmin } from './supabase'
+import { getActiveNewsletterSections, resolveRendererKey } from './newsletter-sections'
+import type { FeedbackResponse } from '@/types/database'
+
+export const FEEDBACK_RATINGS: { rating: number, emoji: string, label: string }[] = [
+  { rating: 1, emoji: '😞', label: 'Poor' },
+  { rating: 2, emoji: '😕', label: 'Meh' },
+  { rating: 3, emoji: '🙂', label: 'Okay' },
+  { rating: 4, emoji: '😀', label: 'Good' },
+  { rating: 5, emoji: '🤩', label: 'Great' }
+]
+
+export const MAX_COMMENT_LENGTH = 2000
+
+// Blocks that aren't content readers would "like"
+const UNRATED_SECTION_KEYS = ['feedback', 'poll']
+
+// Choices in older feedback emails that don't match a section name
+const LEGACY_CHOICE_KEYS: Record<string, string> = {
+  'Weather': 'weather',
+  'Yesterdays Wordle': 'wordle'
+}
+
+export interface FeedbackSection {
+  key: string
+  name: string
+}
+
+export interface FeedbackInput {
+  publicationId: string
+  campaignDate: string
+  email: string
+  campaignId?: string | null
+  rating?: number
+  likedSections?: string[]
+  comment?: string | null
+  sectionChoice?: string
+}
+
+export function isValidRating(rating: unknown): rating is number {
+  return typeof rating === 'number' && Number.isInteger(rating) && rating >= 1 && rating <= 5
+}
+
+/**
+ * Sections a reader can say they liked: the publication's active content sections
+ */
+export async function getFeedbackSections(publicationId: string): Promise<FeedbackSection[]> {
+  const sections = await getActiveNewsletterSections(publicationId)
+  const result: FeedbackSection[] = []
+
+  for (const section of sections) {
+    const key = resolveRendererKey(section)
+    if (key && !UNRATED_SECTION_KEYS.includes(key) && !result.some(existing => existing.key === key)) {
+      result.push({ key, name: section.name })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Match a favourite-section choice from an older email to one of the publication's sections
+ */
+export function resolveSectionChoice(choice: string, sections: FeedbackSection[]): FeedbackSection | null {
+  const key = LEGACY_CHOICE_KEYS[choice]
+  return sections.find(section => section.name === choice || section.key === key) || null
+}
+
+/**
+ * Insert or update a subscriber's response for an issue. Only the fields given are
+ * written, so a later comment keeps the earlier rating.
+ */
+export async function recordFeedback(input: FeedbackInput): Promise<FeedbackResponse> {
+  const now = new Date().toISOString()
+  const fields: Record<string, any> = {
+    publication_id: input.publicationId,
+    campaign_date: input.campaignDate,
+    subscriber_email: input.email.trim().toLowerCase(),
+    updated_at: now
+  }
+
+  if (input.campaignId) fields.campaign_id = input.campaignId
+  if (input.rating !== undefined) fields.rating = input.rating
+  if (input.likedSections !== undefined) fields.liked_sections = input.likedSections
+  if (input.comment !== undefined) fields.comment = input.comment ? input.comment.slice(0, MAX_COMMENT_LENGTH) : null
+  if (input.sectionChoice !== undefined) fields.section_choice = input.sectionChoice
+
+  const { data, error } = await supabaseAdmin
+    .from('feedback_responses')
+    .upsert(fields, { onConflict: 'publication_id,campaign_date,subscriber_email' })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
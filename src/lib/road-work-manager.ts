@@ -1,8 +1,11 @@
 // Road Work database operations and management
 
 import { supabaseAdmin } from './supabase'
-import { AI_PROMPTS, callOpenAI } from './openai'
-import type { RoadWorkData, RoadWorkItem } from '@/types/database'
+import { AI_PROMPTS } from './openai'
+import { callLLMJSON } from './llm'
+import { RoadWorkValidationSchema } from './llm-schemas'
+import { getDefaultPublication, fillPublicationPlaceholders } from './publications'
+import type { Publication, RoadWorkData, RoadWorkItem } from '@/types/database'
 import { wrapTrackingUrl } from './url-tracking'
 
 // Create a function to search for real road work data
@@ -54,7 +57,7 @@ type RoadWorkItemForHTML = {
 /**
  * Generate HTML content for Road Work section
  */
-export function generateRoadWorkHTML(roadWorkItems: RoadWorkItemForHTML[], campaignDate?: string, campaignId?: string): string {
+export function generateRoadWorkHTML(roadWorkItems: RoadWorkItemForHTML[], campaignDate?: string, campaignId?: string, areaName: string = 'St. Cloud'): string {
   // Handle empty or no road work data
   if (!roadWorkItems || roadWorkItems.length === 0) {
     return `
@@ -62,7 +65,7 @@ export function generateRoadWorkHTML(roadWorkItems: RoadWorkItemForHTML[], campa
   <tr>
     <td style="padding: 15px; text-align: center;">
       <h2 style="font-size: 1.625em; line-height: 1.16em; font-family: Arial, sans-serif; color: #1877F2; margin: 0 0 10px 0;">Road Work</h2>
-      <p style="margin: 0; font-size: 16px; color: #666;">No major road closures or construction impacts reported for the St. Cloud area today.</p>
+      <p style="margin: 0; font-size: 16px; color: #666;">No major road closures or construction impacts reported for the ${areaName} area today.</p>
     </td>
   </tr>
 </table>
@@ -350,10 +353,12 @@ export async function storeRoadWorkData(roadWorkData: Omit<RoadWorkData, 'id' |
  * Generate daily road work data using AI and store in database
  * Called by cron job or manual generation
  */
-export async function generateDailyRoadWork(campaignDate?: string): Promise<RoadWorkData> {
+export async function generateDailyRoadWork(campaignDate?: string, publication?: Publication): Promise<RoadWorkData> {
   console.log('Starting daily road work generation...')
 
   try {
+    const roadWorkPublication = publication || await getDefaultPublication()
+
     // Use provided date or tomorrow in Central Time
     let targetDate: string
     if (campaignDate) {
@@ -375,11 +380,9 @@ export async function generateDailyRoadWork(campaignDate?: string): Promise<Road
     console.log('🔍 Searching for real road work data from government sources...')
 
     const searchQueries = [
-      `St Cloud Minnesota road closures construction ${targetDate}`,
-      `Stearns County MN road work highway closures ${targetDate}`,
-      `MnDOT District 3 road construction detours ${targetDate}`,
-      `Waite Park Sartell road closures traffic alerts ${targetDate}`,
-      `Highway 10 Highway 15 Minnesota construction ${targetDate}`
+      `${roadWorkPublication.city} ${roadWorkPublication.state} road closures construction ${targetDate}`,
+      `${roadWorkPublication.county || roadWorkPublication.city} road work highway closures ${targetDate}`,
+      `${roadWorkPublication.nearby_communities || roadWorkPublication.city} road closures traffic alerts ${targetDate}`
     ]
 
     let searchResults = ''
@@ -391,19 +394,11 @@ export async function generateDailyRoadWork(campaignDate?: string): Promise<Road
     // Convert target date to the format expected by the prompts
     const formattedDate = new Date(targetDate).toISOString().split('T')[0] // Convert to YYYY-MM-DD
 
-    const searchPrompt = `Find road, lane, or bridge closures, detours, or traffic restrictions within 15 miles of St. Cloud, Minnesota (ZIP 56303) that are:
+    const area = `${roadWorkPublication.city}, ${roadWorkPublication.state}${roadWorkPublication.zip_code ? ` (ZIP ${roadWorkPublication.zip_code})` : ''}`
+    const searchPrompt = fillPublicationPlaceholders(`Find road, lane, or bridge closures, detours, or traffic restrictions within 15 miles of ${area} that are:
 1. Currently active on ${formattedDate}, OR
 2. Planned to start within the next 7 days (between ${formattedDate} and 7 days later)
 
-CRITICAL: Search these OFFICIAL government sources for REAL road work data:
-- https://www.dot.state.mn.us/d3/ (MnDOT District 3)
-- https://www.stearnscountymn.gov/185/Public-Works
-- https://www.ci.stcloud.mn.us/307/Road-Construction-Projects
-- https://www.cityofsartell.com/engineering/
-- https://www.ci.waitepark.mn.us/
-- https://ci.sauk-rapids.mn.us/
-- Local news: WJON Traffic, St. Cloud Times
-
 ONLY include road work that:
 - Is currently active on ${formattedDate} OR starts within next 7 days
 - Has CONFIRMED specific dates (not "TBD" or vague ranges)
@@ -425,29 +420,20 @@ Return ONLY a JSON array with 6-9 real entries:
 CRITICAL: Return ONLY real, verified road work from actual sources. Better to return 3-4 confirmed items than 9 made-up items.
 
 Search these official sources:
-- MnDOT District 3: https://www.dot.state.mn.us/d3/
-- Stearns County Public Works: https://www.stearnscountymn.gov/185/Public-Works
-- Benton County Highway: https://www.co.benton.mn.us/180/Highway
-- Sherburne County: https://www.co.sherburne.mn.us/162/Public-Works
-- City of St. Cloud: https://www.ci.stcloud.mn.us
-- City of Sartell: https://www.sartellmn.com/engineering/
-- City of Sauk Rapids: https://ci.sauk-rapids.mn.us/
-- City of Waite Park: https://www.ci.waitepark.mn.us/
-- Metro Bus: https://www.ridemetrobus.com
-- Local news: WJON, St. Cloud Times
+{{road_work_sources}}
 
 Include: Road closures, lane closures, bridge work, detours, construction on highways, county roads, and city streets.
 
-Respond with ONLY a JSON array. No explanations or markdown.`
+Respond with ONLY a JSON array. No explanations or markdown.`, roadWorkPublication)
 
-    const userPrompt = `Today's date is ${formattedDate}. Search for ALL active road closures, construction, and traffic restrictions in St. Cloud, MN area that are CURRENTLY ACTIVE on this date.
+    const userPrompt = `Today's date is ${formattedDate}. Search for ALL active road closures, construction, and traffic restrictions in the ${roadWorkPublication.city}, ${roadWorkPublication.state} area that are CURRENTLY ACTIVE on this date.
 
 Return a JSON array with 6-9 items. Each item must use this exact format:
 
 {
   "road_name": "Highway 15",
   "road_range": "from 2nd St to County Rd 75",
-  "city_or_township": "St. Cloud",
+  "city_or_township": "${roadWorkPublication.city}",
   "reason": "Bridge maintenance",
   "start_date": "Sep 15",
   "expected_reopen": "Oct 15",
@@ -473,7 +459,6 @@ CRITICAL REQUIREMENTS:
     console.log('🔍 Calling Perplexity for real road work data...')
 
     const perplexityResult = await callPerplexity(searchPrompt, {
-      model: 'sonar-pro',
       temperature: 0.2,
       searchContextSize: 'high'
     })
@@ -574,28 +559,29 @@ CRITICAL REQUIREMENTS:
 
     try {
       const validationPrompt = await AI_PROMPTS.roadWorkValidator(roadWorkItems, formattedDate)
-      const validationResponse = await callOpenAI(validationPrompt, 2000, 0)
+      const validationResponse = await callLLMJSON('road_work_validator', validationPrompt, RoadWorkValidationSchema, {
+        maxTokens: 2000,
+        temperature: 0
+      })
 
       console.log('Validation response:', JSON.stringify(validationResponse, null, 2))
 
-      if (validationResponse && validationResponse.validated_items) {
-        // Filter to only valid items
-        const validIndices = validationResponse.validated_items
-          .filter((item: any) => item.valid === true && item.confidence >= 0.7)
-          .map((item: any) => item.index)
+      // Filter to only valid items
+      const validIndices = validationResponse.validated_items
+        .filter(item => item.valid && item.confidence >= 0.7)
+        .map(item => item.index)
 
-        const beforeValidation = roadWorkItems.length
-        roadWorkItems = roadWorkItems.filter((_, index) => validIndices.includes(index))
+      const beforeValidation = roadWorkItems.length
+      roadWorkItems = roadWorkItems.filter((_, index) => validIndices.includes(index))
 
-        console.log(`✅ AI Validation: ${roadWorkItems.length}/${beforeValidation} items passed (${validationResponse.summary?.accuracy_score || 'N/A'} accuracy score)`)
+      console.log(`✅ AI Validation: ${roadWorkItems.length}/${beforeValidation} items passed (${validationResponse.summary?.accuracy_score ?? 'N/A'} accuracy score)`)
 
-        // Log rejected items for debugging
-        validationResponse.validated_items
-          .filter((item: any) => !item.valid || item.confidence < 0.7)
-          .forEach((item: any) => {
-            console.log(`   ❌ Rejected item ${item.index}: ${item.reason} (confidence: ${item.confidence})`)
-          })
-      }
+      // Log rejected items for debugging
+      validationResponse.validated_items
+        .filter(item => !item.valid || item.confidence < 0.7)
+        .forEach(item => {
+          console.log(`   ❌ Rejected item ${item.index}: ${item.reason} (confidence: ${item.confidence})`)
+        })
     } catch (validationError) {
       console.warn('⚠️ AI validation failed, proceeding with unvalidated items:', validationError)
     }
@@ -728,7 +714,7 @@ CRITICAL REQUIREMENTS:
     console.log(`Successfully parsed ${roadWorkItems.length} road work items`)
 
     // Generate HTML content
-    const htmlContent = generateRoadWorkHTML(roadWorkItems)
+    const htmlContent = generateRoadWorkHTML(roadWorkItems, undefined, undefined, roadWorkPublication.city)
     console.log('Road work HTML generated')
 
     // Prepare road work data for database
@@ -79,7 +79,8 @@ async function scrapeStearnsCountyRoadWork(): Promise<ScrapedRoadWork> {
  * This mimics the Make approach more closely
  */
 export async function getRoadWorkWithChatGPT(targetDate: string): Promise<RoadWorkItem[]> {
-  const { callOpenAI } = await import('./openai')
+  const { callLLMJSON } = await import('./llm')
+  const { RoadWorkEntriesSchema } = await import('./llm-schemas')
 
   console.log('🔍 Using ChatGPT-4 for road work extraction...')
 
@@ -155,26 +156,11 @@ CRITICAL:
 - Return ONLY the JSON array, no markdown or explanations`
 
   try {
-    const response = await callOpenAI(prompt, 3000, 0.2)
-
-    console.log('ChatGPT response type:', typeof response)
-
-    let roadWorkItems: RoadWorkItem[] = []
-
-    if (Array.isArray(response)) {
-      roadWorkItems = response
-    } else if (typeof response === 'string') {
-      // Parse JSON from string
-      const jsonMatch = response.match(/\[[\s\S]*\]/)
-      if (jsonMatch) {
-        roadWorkItems = JSON.parse(jsonMatch[0])
-      }
-    } else if (response && typeof response === 'object' && 'raw' in response) {
-      const jsonMatch = (response as any).raw.match(/\[[\s\S]*\]/)
-      if (jsonMatch) {
-        roadWorkItems = JSON.parse(jsonMatch[0])
-      }
-    }
+    const response = await callLLMJSON('road_work', prompt, RoadWorkEntriesSchema, {
+      maxTokens: 3000,
+      temperature: 0.2
+    })
+    const roadWorkItems = response as RoadWorkItem[]
 
     console.log(`✓ Extracted ${roadWorkItems.length} road work items via ChatGPT`)
     return roadWorkItems
@@ -0,0 +1,113 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { RSSProcessor } from './rss-processor'
+import { AI_PROMPTS } from './openai'
+import { callLLMJSON } from './llm'
+import { EventSummarySchema, TopicDedupeSchema } from './llm-schemas'
+import type { Publication } from '@/types/database'
+
+// Route every prompt to the mock provider; the OpenAI client is built at import but never called
+vi.hoisted(() => {
+  process.env.LLM_PROVIDER = 'mock'
+  process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key'
+})
+
+// No stored prompts or settings, so every step uses its code fallback
+vi.mock('./supabase', () => {
+  const empty = { data: null, error: null }
+  const query: any = new Proxy({}, {
+    get: (_, prop) => prop === 'then'
+      ? (resolve: (value: typeof empty) => void) => resolve(empty)
+      : () => query
+  })
+  return { supabaseAdmin: { from: () => query } }
+})
+vi.mock('./asset-storage', () => ({ storeRemoteAsset: vi.fn(), isStoredAssetUrl: vi.fn() }))
+
+const publication: Publication = {
+  id: 'pub-1',
+  slug: 'st-cloud',
+  name: 'St. Cloud Scoop',
+  website_url: 'https://example.com',
+  logo_url: null,
+  brand_color: '#1877F2',
+  facebook_url: null,
+  sender_name: null,
+  from_email: null,
+  mailerlite_review_group_id: null,
+  mailerlite_main_group_id: null,
+  city: 'St. Cloud',
+  state: 'Minnesota',
+  county: 'Stearns',
+  zip_code: '56301',
+  nearby_communities: 'Sartell, Sauk Rapids',
+  latitude: 45.5579,
+  longitude: -94.1632,
+  road_work_sources: null,
+  is_default: true,
+  active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z'
+}
+
+const post = {
+  id: 'post-1',
+  title: 'Library extends weekend hours',
+  description: 'The downtown library will open Sundays starting next month.',
+  content: 'Starting next month the downtown library will open from noon to 5 p.m. on Sundays.',
+  image_url: null,
+  source_url: 'https://example.com/library'
+}
+
+describe('RSS pipeline on the mock LLM provider', () => {
+  let processor: RSSProcessor
+
+  beforeAll(() => {
+    processor = new RSSProcessor()
+  })
+
+  it('rates posts within the evaluation scale', async () => {
+    const evaluation = await processor.evaluatePost(post, undefined, publication)
+
+    expect(evaluation.interest_level).toBeGreaterThanOrEqual(1)
+    expect(evaluation.interest_level).toBeLessThanOrEqual(20)
+    expect(evaluation.local_relevance).toBeLessThanOrEqual(10)
+    expect(evaluation.community_impact).toBeLessThanOrEqual(10)
+  })
+
+  it('gives the same rating for the same post', async () => {
+    const first = await processor.evaluatePost(post, undefined, publication)
+    const second = await processor.evaluatePost(post, undefined, publication)
+
+    expect(second).toEqual(first)
+  })
+
+  it('writes an article and fact checks it', async () => {
+    const article = await processor.generateNewsletterContent(post, undefined, publication)
+    expect(article.headline).toContain(post.title)
+    expect(article.word_count).toBeGreaterThan(0)
+
+    const factCheck = await processor.factCheckContent(article.content, post.content)
+    expect(factCheck.passed).toBe(true)
+  })
+
+  it('groups duplicate topics', async () => {
+    const prompt = await AI_PROMPTS.topicDeduper([
+      { title: post.title, description: post.description },
+      { title: 'Library adds Sunday hours', description: post.description }
+    ])
+    const result = await callLLMJSON('topic_deduper', prompt, TopicDedupeSchema, { retries: 0 })
+
+    expect(result.groups).toEqual([])
+  })
+
+  it('summarizes events', async () => {
+    const prompt = await AI_PROMPTS.eventSummarizer({
+      title: 'Sunday Story Time',
+      description: 'Stories and crafts for kids at the downtown library.',
+      venue: 'Great River Regional Library'
+    }, publication)
+    const result = await callLLMJSON('event_summary', prompt, EventSummarySchema, { retries: 0 })
+
+    expect(result.event_summary).toContain('Sunday Story Time')
+  })
+})
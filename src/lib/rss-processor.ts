@@ -1,10 +1,22 @@
 import Parser from 'rss-parser'
 import { supabaseAdmin } from './supabase'
-import { AI_PROMPTS, callOpenAI } from './openai' // Oct 7 2025 - Cache bust for 1-20 scale
+import { AI_PROMPTS } from './openai' // Oct 7 2025 - Cache bust for 1-20 scale
+import { callLLM, callLLMJSON } from './llm'
+import {
+  ContentEvaluationSchema,
+  NewsletterContentSchema,
+  FactCheckResultSchema,
+  TopicDedupeSchema
+} from './llm-schemas'
 import { ErrorHandler, SlackNotificationService } from './slack'
-import { GitHubImageStorage } from './github-storage'
+import { storeRemoteAsset, isStoredAssetUrl } from './asset-storage'
 import { ArticleArchiveService } from './article-archive'
+import { assignPromptVariant } from './prompt-versions'
+import { getDedupeSettings, findDuplicateGroups, findHistoryMatches, type DedupePost } from './duplicate-detection'
+import { getCampaignDates, getCentralDate, getEventQueryRange, eventOccursOn } from './newsletter-calendar'
+import { getCampaignPublication, getDefaultPublication } from './publications'
 import type {
+  Publication,
   RssFeed,
   RssPost,
   ContentEvaluation,
@@ -22,13 +34,11 @@ const parser = new Parser({
 export class RSSProcessor {
   private errorHandler: ErrorHandler
   private slack: SlackNotificationService
-  private githubStorage: GitHubImageStorage
   private archiveService: ArticleArchiveService
 
   constructor() {
     this.errorHandler = new ErrorHandler()
     this.slack = new SlackNotificationService()
-    this.githubStorage = new GitHubImageStorage()
     this.archiveService = new ArticleArchiveService()
   }
 
@@ -49,102 +59,28 @@ export class RSSProcessor {
     }
   }
 
-  async processAllFeedsForCampaign(campaignId: string) {
-    console.log(`Starting RSS processing for campaign: ${campaignId}`)
+  /**
+   * Process RSS feeds for a campaign.
+   * By default ingestion is incremental: new items are appended, existing ratings,
+   * articles and reviewer edits are kept. Pass fullReset to archive and wipe the
+   * campaign's posts and articles first.
+   */
+  async processAllFeedsForCampaign(campaignId: string, options: { fullReset?: boolean } = {}) {
+    const fullReset = options.fullReset || false
+    console.log(`Starting RSS processing for campaign: ${campaignId} (${fullReset ? 'full reset' : 'incremental'})`)
 
     let archiveResult: any = null
 
     try {
-      // STEP 0: Archive existing articles and posts before clearing (PRESERVES POSITION DATA!)
-      console.log('Archiving existing articles and posts before clearing...')
-
-      try {
-        archiveResult = await this.archiveService.archiveCampaignArticles(campaignId, 'rss_processing_clear')
-        console.log(`✅ Archive successful: ${archiveResult.archivedArticlesCount} articles, ${archiveResult.archivedPostsCount} posts, ${archiveResult.archivedRatingsCount} ratings preserved`)
-
-        // Log specifically about position data preservation
-        if (archiveResult.archivedArticlesCount > 0) {
-          const { data: articlesWithPositions } = await supabaseAdmin
-            .from('articles')
-            .select('id, review_position, final_position')
-            .eq('campaign_id', campaignId)
-            .or('review_position.not.is.null,final_position.not.is.null')
-
-          if (articlesWithPositions && articlesWithPositions.length > 0) {
-            console.log(`📊 Preserved position data for ${articlesWithPositions.length} articles with tracking information`)
-          }
-        }
-      } catch (archiveError) {
-        // Archive failure shouldn't block RSS processing, but we should log it
-        console.warn('⚠️ Archive failed, but continuing with RSS processing:', archiveError)
-        await this.errorHandler.logInfo('Archive failed but RSS processing continuing', {
-          campaignId,
-          archiveError: archiveError instanceof Error ? archiveError.message : 'Unknown error'
-        }, 'rss_processor')
-      }
-
-      // Clear previous articles and posts for this campaign to allow fresh processing
-      console.log('Clearing previous articles and posts...')
-
-      // Delete existing articles for this campaign
-      const { error: articlesDeleteError } = await supabaseAdmin
-        .from('articles')
-        .delete()
-        .eq('campaign_id', campaignId)
-
-      if (articlesDeleteError) {
-        console.warn('Warning: Failed to delete previous articles:', articlesDeleteError)
-      } else {
-        console.log('Previous articles cleared successfully')
-      }
-
-      // Delete existing posts for this campaign
-      const { error: postsDeleteError } = await supabaseAdmin
-        .from('rss_posts')
-        .delete()
-        .eq('campaign_id', campaignId)
-
-      if (postsDeleteError) {
-        console.warn('Warning: Failed to delete previous posts:', postsDeleteError)
-      } else {
-        console.log('Previous posts cleared successfully')
+      if (fullReset) {
+        archiveResult = await this.resetCampaignContent(campaignId)
       }
 
-      // Get active RSS feeds
-      const { data: feeds, error: feedsError } = await supabaseAdmin
-        .from('rss_feeds')
-        .select('*')
-        .eq('active', true)
-
-      if (feedsError) {
-        throw new Error(`Failed to fetch feeds: ${feedsError.message}`)
-      }
-
-      if (!feeds || feeds.length === 0) {
-        await this.logError('No active RSS feeds found')
+      const feedCount = await this.fetchFeedsForCampaign(campaignId, !fullReset)
+      if (feedCount === 0) {
         return
       }
 
-      // Process each feed
-      for (const feed of feeds) {
-        try {
-          await this.processFeed(feed, campaignId)
-        } catch (error) {
-          await this.logError(`Failed to process feed ${feed.name}`, {
-            feedId: feed.id,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          })
-
-          // Increment error count
-          await supabaseAdmin
-            .from('rss_feeds')
-            .update({
-              processing_errors: feed.processing_errors + 1
-            })
-            .eq('id', feed.id)
-        }
-      }
-
       // Populate events for this campaign BEFORE processing articles
       console.log('Populating events for campaign...')
       try {
@@ -158,76 +94,9 @@ export class RSSProcessor {
       // Process posts with AI
       await this.processPostsWithAI(campaignId)
 
-      // Generate road work data for this campaign
-      console.log('Generating road work data for campaign...')
-      try {
-        const { generateDailyRoadWork, storeRoadWorkItems } = await import('@/lib/road-work-manager')
-
-        // Get campaign date for road work generation
-        const { data: campaignData } = await supabaseAdmin
-          .from('newsletter_campaigns')
-          .select('date')
-          .eq('id', campaignId)
-          .single()
-
-        if (campaignData) {
-          const roadWorkData = await generateDailyRoadWork(campaignData.date)
-
-          if (roadWorkData.road_work_data && roadWorkData.road_work_data.length > 0) {
-            await storeRoadWorkItems(roadWorkData.road_work_data, campaignId)
-            console.log(`✅ Generated and stored ${roadWorkData.road_work_data.length} road work items for campaign`)
-          } else {
-            console.log('⚠️ No road work items generated')
-          }
-        }
-      } catch (roadWorkError) {
-        console.error('Failed to generate road work, but continuing:', roadWorkError)
-        // Don't fail the entire RSS processing if road work fails
-      }
-
-      // Campaign remains in 'draft' status for MailerLite cron to process
-      // Status will be updated to 'in_review' by create-campaign cron after MailerLite send
-
-      // Update campaign status from processing to draft
-      await supabaseAdmin
-        .from('newsletter_campaigns')
-        .update({ status: 'draft' })
-        .eq('id', campaignId)
-
-      // Get final article count to report to Slack (total articles, not just active)
-      const { data: finalArticles, error: countError } = await supabaseAdmin
-        .from('articles')
-        .select('id')
-        .eq('campaign_id', campaignId)
-
-      const articleCount = finalArticles?.length || 0
-
-      // Get campaign date for notifications
-      const { data: campaignInfo } = await supabaseAdmin
-        .from('newsletter_campaigns')
-        .select('date')
-        .eq('id', campaignId)
-        .single()
+      await this.generateRoadWorkForCampaign(campaignId)
 
-      const campaignDate = campaignInfo?.date || 'Unknown'
-
-      await this.errorHandler.logInfo('RSS processing completed successfully', {
-        campaignId,
-        articleCount,
-        campaignDate
-      }, 'rss_processor')
-
-      // Enhanced Slack notification with article count monitoring
-      await this.slack.sendRSSProcessingCompleteAlert(
-        campaignId,
-        articleCount,
-        campaignDate,
-        archiveResult ? {
-          archivedArticles: archiveResult.archivedArticlesCount,
-          archivedPosts: archiveResult.archivedPostsCount,
-          archivedRatings: archiveResult.archivedRatingsCount
-        } : undefined
-      )
+      await this.finalizeCampaign(campaignId, archiveResult)
 
     } catch (error) {
       // Determine which steps were completed before failure
@@ -290,16 +159,197 @@ export class RSSProcessor {
     }
   }
 
+  /**
+   * Fetch every active feed of the campaign's publication into the campaign.
+   * Returns the number of feeds processed (0 when no feeds are active).
+   */
+  async fetchFeedsForCampaign(campaignId: string, useConditionalGet: boolean = true): Promise<number> {
+    const publication = await getCampaignPublication(campaignId)
+
+    // Get active RSS feeds
+    const { data: feeds, error: feedsError } = await supabaseAdmin
+      .from('rss_feeds')
+      .select('*')
+      .eq('publication_id', publication.id)
+      .eq('active', true)
+
+    if (feedsError) {
+      throw new Error(`Failed to fetch feeds: ${feedsError.message}`)
+    }
+
+    if (!feeds || feeds.length === 0) {
+      await this.logError('No active RSS feeds found', { publication: publication.slug })
+      return 0
+    }
+
+    // Process each feed
+    for (const feed of feeds) {
+      try {
+        await this.processFeed(feed, campaignId, useConditionalGet)
+      } catch (error) {
+        await this.logError(`Failed to process feed ${feed.name}`, {
+          feedId: feed.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+
+        // Increment error count
+        await supabaseAdmin
+          .from('rss_feeds')
+          .update({
+            processing_errors: feed.processing_errors + 1
+          })
+          .eq('id', feed.id)
+      }
+    }
+
+    return feeds.length
+  }
+
+  /**
+   * Generate road work items for the campaign date, keeping any existing items
+   */
+  async generateRoadWorkForCampaign(campaignId: string) {
+    console.log('Generating road work data for campaign...')
+    try {
+      const { generateDailyRoadWork, storeRoadWorkItems } = await import('@/lib/road-work-manager')
+
+      // Get campaign date for road work generation
+      const { data: campaignData } = await supabaseAdmin
+        .from('newsletter_campaigns')
+        .select('date, publication_id')
+        .eq('id', campaignId)
+        .single()
+
+      // Keep existing road work on re-runs so reviewer selections survive
+      const { count: existingRoadWorkCount } = await supabaseAdmin
+        .from('road_work_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', campaignId)
+
+      if (existingRoadWorkCount && existingRoadWorkCount > 0) {
+        console.log(`Road work already generated for campaign (${existingRoadWorkCount} items), skipping`)
+      } else if (campaignData) {
+        const publication = await getCampaignPublication(campaignData)
+        const roadWorkData = await generateDailyRoadWork(campaignData.date, publication)
+
+        if (roadWorkData.road_work_data && roadWorkData.road_work_data.length > 0) {
+          await storeRoadWorkItems(roadWorkData.road_work_data, campaignId)
+          console.log(`✅ Generated and stored ${roadWorkData.road_work_data.length} road work items for campaign`)
+        } else {
+          console.log('⚠️ No road work items generated')
+        }
+      }
+    } catch (roadWorkError) {
+      console.error('Failed to generate road work, but continuing:', roadWorkError)
+      // Don't fail the entire RSS processing if road work fails
+    }
+  }
+
+  /**
+   * Move the campaign out of processing and send the completion alert
+   */
+  async finalizeCampaign(campaignId: string, archiveResult: any = null) {
+    // Campaign remains in 'draft' status for MailerLite cron to process
+    // Status will be updated to 'in_review' by create-campaign cron after MailerLite send
+
+    // Update campaign status from processing to draft
+    // (re-runs on a campaign already in review keep its status)
+    await supabaseAdmin
+      .from('newsletter_campaigns')
+      .update({ status: 'draft' })
+      .eq('id', campaignId)
+      .eq('status', 'processing')
+
+    // Get final article count to report to Slack (total articles, not just active)
+    const { data: finalArticles, error: countError } = await supabaseAdmin
+      .from('articles')
+      .select('id')
+      .eq('campaign_id', campaignId)
+
+    const articleCount = finalArticles?.length || 0
+
+    // Get campaign date for notifications
+    const { data: campaignInfo } = await supabaseAdmin
+      .from('newsletter_campaigns')
+      .select('date')
+      .eq('id', campaignId)
+      .single()
+
+    const campaignDate = campaignInfo?.date || 'Unknown'
+
+    await this.errorHandler.logInfo('RSS processing completed successfully', {
+      campaignId,
+      articleCount,
+      campaignDate
+    }, 'rss_processor')
+
+    // Enhanced Slack notification with article count monitoring
+    await this.slack.sendRSSProcessingCompleteAlert(
+      campaignId,
+      articleCount,
+      campaignDate,
+      archiveResult ? {
+        archivedArticles: archiveResult.archivedArticlesCount,
+        archivedPosts: archiveResult.archivedPostsCount,
+        archivedRatings: archiveResult.archivedRatingsCount
+      } : undefined
+    )
+  }
+
+  /**
+   * Archive and delete a campaign's articles and posts so it can be reprocessed from scratch
+   */
+  async resetCampaignContent(campaignId: string) {
+    let archiveResult: any = null
+
+    // Archive existing articles and posts before clearing (PRESERVES POSITION DATA!)
+    console.log('Archiving existing articles and posts before clearing...')
+
+    try {
+      archiveResult = await this.archiveService.archiveCampaignArticles(campaignId, 'rss_processing_clear')
+      console.log(`✅ Archive successful: ${archiveResult.archivedArticlesCount} articles, ${archiveResult.archivedPostsCount} posts, ${archiveResult.archivedRatingsCount} ratings preserved`)
+    } catch (archiveError) {
+      // Archive failure shouldn't block RSS processing, but we should log it
+      console.warn('⚠️ Archive failed, but continuing with RSS processing:', archiveError)
+      await this.errorHandler.logInfo('Archive failed but RSS processing continuing', {
+        campaignId,
+        archiveError: archiveError instanceof Error ? archiveError.message : 'Unknown error'
+      }, 'rss_processor')
+    }
+
+    console.log('Clearing previous articles and posts...')
+
+    const { error: articlesDeleteError } = await supabaseAdmin
+      .from('articles')
+      .delete()
+      .eq('campaign_id', campaignId)
+
+    if (articlesDeleteError) {
+      console.warn('Warning: Failed to delete previous articles:', articlesDeleteError)
+    }
+
+    const { error: postsDeleteError } = await supabaseAdmin
+      .from('rss_posts')
+      .delete()
+      .eq('campaign_id', campaignId)
+
+    if (postsDeleteError) {
+      console.warn('Warning: Failed to delete previous posts:', postsDeleteError)
+    }
+
+    return archiveResult
+  }
+
   private async getOrCreateTodaysCampaign(): Promise<string> {
     // Use Central Time for consistent date calculations
-    const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-    const centralDate = new Date(nowCentral)
-    const today = centralDate.toISOString().split('T')[0]
+    const today = getCentralDate()
+    const publication = await getDefaultPublication()
 
     // Check if campaign exists for today
     const { data: existing } = await supabaseAdmin
       .from('newsletter_campaigns')
       .select('id')
+      .eq('publication_id', publication.id)
       .eq('date', today)
       .single()
 
@@ -310,7 +360,7 @@ export class RSSProcessor {
     // Create new campaign with processing status
     const { data: newCampaign, error } = await supabaseAdmin
       .from('newsletter_campaigns')
-      .insert([{ date: today, status: 'processing' }])
+      .insert([{ date: today, status: 'processing', publication_id: publication.id }])
       .select('id')
       .single()
 
@@ -321,7 +371,7 @@ export class RSSProcessor {
     return newCampaign.id
   }
 
-  private async processFeed(feed: RssFeed, campaignId: string) {
+  private async processFeed(feed: RssFeed, campaignId: string, useConditionalGet: boolean = true) {
     console.log(`=== PROCESSING FEED: ${feed.name} ===`)
 
     try {
@@ -340,8 +390,22 @@ export class RSSProcessor {
         console.log(`Excluded sources: ${excludedSources.join(', ')}`)
       }
 
-      const rssFeed = await parser.parseURL(feed.url)
       const now = new Date()
+      const fetched = await this.fetchFeed(feed, useConditionalGet)
+
+      if (!fetched.modified) {
+        console.log(`Feed ${feed.name} not modified since last fetch (304), skipping`)
+        await supabaseAdmin
+          .from('rss_feeds')
+          .update({
+            last_processed: now.toISOString(),
+            processing_errors: 0
+          })
+          .eq('id', feed.id)
+        return
+      }
+
+      const rssFeed = await parser.parseString(fetched.xml)
       const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000)
 
       const recentPosts = rssFeed.items.filter(item => {
@@ -441,10 +505,10 @@ export class RSSProcessor {
           if (!blockImages && imageUrl && imageUrl.includes('fbcdn.net')) {
             console.log(`Attempting to re-host Facebook image immediately: ${imageUrl}`)
             try {
-              const githubUrl = await this.githubStorage.uploadImage(imageUrl, item.title || 'Untitled')
-              if (githubUrl) {
-                finalImageUrl = githubUrl
-                console.log(`Successfully re-hosted Facebook image: ${githubUrl}`)
+              const stored = await storeRemoteAsset('article_image', imageUrl)
+              if (stored) {
+                finalImageUrl = stored.url
+                console.log(`Successfully re-hosted Facebook image: ${stored.url}`)
               } else {
                 console.warn(`Failed to re-host Facebook image, keeping original URL: ${imageUrl}`)
               }
@@ -489,12 +553,14 @@ export class RSSProcessor {
         }
       }
 
-      // Update feed last processed time
+      // Update feed last processed time and conditional GET validators
       await supabaseAdmin
         .from('rss_feeds')
         .update({
           last_processed: now.toISOString(),
-          processing_errors: 0 // Reset error count on success
+          processing_errors: 0, // Reset error count on success
+          etag: fetched.etag,
+          last_modified: fetched.lastModified
         })
         .eq('id', feed.id)
 
@@ -504,20 +570,88 @@ export class RSSProcessor {
     }
   }
 
+  /**
+   * Download a feed, sending ETag/Last-Modified validators from the previous fetch
+   */
+  private async fetchFeed(feed: RssFeed, useConditionalGet: boolean): Promise<{
+    modified: boolean
+    xml: string
+    etag: string | null
+    lastModified: string | null
+  }> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+      'User-Agent': 'StCloudScoop/1.0 (+https://st-cloud-scoop.vercel.app)'
+    }
+
+    if (useConditionalGet) {
+      if (feed.etag) headers['If-None-Match'] = feed.etag
+      if (feed.last_modified) headers['If-Modified-Since'] = feed.last_modified
+    }
+
+    const response = await fetch(feed.url, {
+      headers,
+      signal: AbortSignal.timeout(30000)
+    })
+
+    if (response.status === 304) {
+      return { modified: false, xml: '', etag: feed.etag, lastModified: feed.last_modified }
+    }
+
+    if (!response.ok) {
+      throw new Error(`Feed request failed: ${response.status} ${response.statusText}`)
+    }
+
+    return {
+      modified: true,
+      xml: await response.text(),
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified')
+    }
+  }
+
   private async processPostsWithAI(campaignId: string) {
     console.log('Starting AI processing of posts...')
 
+    // Step 1: Evaluate unrated posts
+    const { evaluated } = await this.evaluatePostsForCampaign(campaignId)
+
+    // Step 2: Detect and handle duplicates (only when new posts arrived)
+    if (evaluated > 0) {
+      await this.detectDuplicatesForCampaign(campaignId)
+    }
+
+    // Step 3: Generate newsletter articles for top posts
+    await this.logInfo('Starting newsletter article generation...', { campaignId })
+    await this.generateNewsletterArticles(campaignId)
+
+    // Step 4: Pick the active articles and fetch their images
+    await this.selectTopArticlesForCampaign(campaignId)
+    await this.processArticleImages(campaignId)
+  }
+
+  /**
+   * Rate posts that have no rating yet.
+   * maxPosts bounds the work done in one call so the pipeline can resume across invocations.
+   */
+  async evaluatePostsForCampaign(campaignId: string, maxPosts?: number): Promise<{ evaluated: number, remaining: number }> {
     // Get all posts for this campaign
-    const { data: posts, error } = await supabaseAdmin
+    const { data: allPosts, error } = await supabaseAdmin
       .from('rss_posts')
-      .select('*')
+      .select('*, post_ratings(id)')
       .eq('campaign_id', campaignId)
 
-    if (error || !posts) {
+    if (error || !allPosts) {
       throw new Error('Failed to fetch posts for AI processing')
     }
 
-    console.log(`Processing ${posts.length} posts with AI`)
+    // Already-rated posts keep their ratings; only new posts are evaluated
+    const unratedPosts = allPosts.filter(post => !post.post_ratings || post.post_ratings.length === 0)
+    const posts = maxPosts ? unratedPosts.slice(0, maxPosts) : unratedPosts
+
+    console.log(`Processing ${posts.length} new posts with AI (${allPosts.length - unratedPosts.length} already rated, ${unratedPosts.length - posts.length} deferred)`)
+
+    const publication = await getCampaignPublication(campaignId)
 
     // Step 1: Evaluate posts in batches
     const BATCH_SIZE = 3 // Process 3 posts at a time
@@ -538,7 +672,9 @@ export class RSSProcessor {
           const overallIndex = i + index + 1
           console.log(`Evaluating post ${overallIndex}/${posts.length}: ${post.title}`)
 
-          const evaluation = await this.evaluatePost(post)
+          // Posts are split between prompt versions while an experiment is running
+          const assignment = await assignPromptVariant('ai_prompt_content_evaluator', post.id)
+          const evaluation = await this.evaluatePost(post, assignment?.template, publication)
 
           // Basic validation: ensure scores exist and are numbers
           if (typeof evaluation.interest_level !== 'number' ||
@@ -557,6 +693,9 @@ export class RSSProcessor {
               local_relevance: evaluation.local_relevance,
               community_impact: evaluation.community_impact,
               ai_reasoning: evaluation.reasoning,
+              prompt_version_id: assignment?.versionId || null,
+              prompt_experiment_id: assignment?.experimentId || null,
+              prompt_variant: assignment?.variant || null
             }])
 
           if (ratingError) {
@@ -602,53 +741,141 @@ export class RSSProcessor {
     console.log(`AI evaluation complete: ${successCount} successful, ${errorCount} errors`)
     await this.logInfo(`AI evaluation complete: ${successCount} successful, ${errorCount} errors`, { campaignId, successCount, errorCount })
 
-    // Step 2: Detect and handle duplicates
-    await this.handleDuplicates(posts, campaignId)
+    // Failed evaluations stay unrated and are retried on the next call
+    return {
+      evaluated: successCount,
+      remaining: unratedPosts.length - successCount
+    }
+  }
 
-    // Step 3: Generate newsletter articles for top posts
-    await this.logInfo('Starting newsletter article generation...', { campaignId })
-    await this.generateNewsletterArticles(campaignId)
+  /**
+   * Group duplicate stories across all of the campaign's posts and flag stories that already ran
+   */
+  async detectDuplicatesForCampaign(campaignId: string) {
+    const { data: posts, error } = await supabaseAdmin
+      .from('rss_posts')
+      .select('*, post_ratings(total_score)')
+      .eq('campaign_id', campaignId)
+
+    if (error || !posts) {
+      throw new Error('Failed to fetch posts for duplicate detection')
+    }
+
+    await this.handleDuplicates(posts, campaignId)
   }
 
-  private async evaluatePost(post: RssPost): Promise<ContentEvaluation> {
+  /**
+   * Rate a post. template overrides the live prompt (experiments and the prompt playground)
+   */
+  async evaluatePost(
+    post: Pick<RssPost, 'id' | 'title' | 'description' | 'content' | 'image_url'>,
+    template?: string,
+    publication?: Publication
+  ): Promise<ContentEvaluation> {
     const prompt = await AI_PROMPTS.contentEvaluator({
       title: post.title,
       description: post.description || '',
       content: post.content || '',
       hasImage: !!post.image_url
-    })
+    }, template, publication)
 
-    const result = await callOpenAI(prompt)
+    try {
+      // Blank ratings (posts the prompt says to skip) fail validation, so allow only one retry
+      const result = await callLLMJSON('content_evaluator', prompt, ContentEvaluationSchema, { retries: 1 })
+      console.log('AI evaluation response:', JSON.stringify(result, null, 2))
+      return result
+    } catch (error) {
+      await this.logError(`Invalid AI evaluation response for post: ${post.title}`, {
+        postId: post.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      throw new Error('Invalid AI evaluation response')
+    }
+  }
 
-    // Log the actual response for debugging
-    console.log('AI evaluation response:', JSON.stringify(result, null, 2))
+  private async handleDuplicates(posts: (RssPost & { post_ratings?: { total_score: number }[] })[], campaignId: string) {
+    // Duplicate groups and history matches are recomputed across all posts, so drop the previous run's
+    await this.clearDuplicateGroups(campaignId)
+    await supabaseAdmin
+      .from('post_history_matches')
+      .delete()
+      .eq('campaign_id', campaignId)
 
-    // Check if we got a raw response that needs parsing
-    if (result.raw && typeof result.raw === 'string') {
-      try {
-        const parsed = JSON.parse(result.raw)
-        if (parsed.interest_level && parsed.local_relevance && parsed.community_impact) {
-          return parsed as ContentEvaluation
+    const dedupePosts: DedupePost[] = posts.map(post => ({
+      id: post.id,
+      title: post.title,
+      description: post.description,
+      score: post.post_ratings?.[0]?.total_score ?? null
+    }))
+
+    let settings: { threshold: number, lookbackDays: number }
+    try {
+      settings = await getDedupeSettings()
+      const groups = await findDuplicateGroups(dedupePosts, settings.threshold)
+      console.log(`Embedding dedupe found ${groups.length} duplicate groups (threshold ${settings.threshold})`)
+
+      for (const group of groups) {
+        const { data: duplicateGroup } = await supabaseAdmin
+          .from('duplicate_groups')
+          .insert([{
+            campaign_id: campaignId,
+            primary_post_id: group.primaryPostId,
+            topic_signature: group.topicSignature
+          }])
+          .select('id')
+          .single()
+
+        if (duplicateGroup) {
+          await supabaseAdmin
+            .from('duplicate_posts')
+            .insert(group.duplicates.map(duplicate => ({
+              group_id: duplicateGroup.id,
+              post_id: duplicate.postId,
+              similarity_score: duplicate.similarity
+            })))
         }
-      } catch (parseError) {
-        console.error('Failed to parse raw AI response:', result.raw)
       }
+    } catch (error) {
+      console.error('Embedding duplicate detection failed, falling back to topic deduper:', error)
+      await this.handleDuplicatesWithLLM(posts, campaignId)
+      return
     }
 
-    // Check for direct response format
-    if (!result.interest_level || !result.local_relevance || !result.community_impact) {
-      await this.logError(`Invalid AI evaluation response for post: ${post.title}`, {
-        postId: post.id,
-        aiResponse: result,
-        error: 'Missing required fields: interest_level, local_relevance, community_impact'
+    try {
+      const matches = await findHistoryMatches(campaignId, dedupePosts, settings.threshold, settings.lookbackDays)
+      console.log(`${matches.length} posts match stories from the last ${settings.lookbackDays} days`)
+
+      if (matches.length > 0) {
+        const { error } = await supabaseAdmin
+          .from('post_history_matches')
+          .insert(matches.map(match => ({
+            post_id: match.postId,
+            campaign_id: campaignId,
+            matched_source: match.matchedSource,
+            matched_article_id: match.matchedArticleId,
+            matched_campaign_id: match.matchedCampaignId,
+            matched_campaign_date: match.matchedCampaignDate,
+            matched_headline: match.matchedHeadline,
+            similarity_score: match.similarity
+          })))
+
+        if (error) {
+          console.error('Failed to store history matches:', error)
+        }
+      }
+    } catch (error) {
+      console.error('Error matching posts against previous newsletters:', error)
+      await this.logError('Error matching posts against previous newsletters', {
+        campaignId,
+        error: error instanceof Error ? error.message : 'Unknown error'
       })
-      throw new Error('Invalid AI evaluation response')
     }
-
-    return result as ContentEvaluation
   }
 
-  private async handleDuplicates(posts: RssPost[], campaignId: string) {
+  /**
+   * Fallback when embeddings are unavailable: one topic deduper prompt over every post
+   */
+  private async handleDuplicatesWithLLM(posts: RssPost[], campaignId: string) {
     if (posts.length < 2) return
 
     const postSummaries = posts.map(post => ({
@@ -658,7 +885,7 @@ export class RSSProcessor {
 
     try {
       const prompt = await AI_PROMPTS.topicDeduper(postSummaries)
-      const result = await callOpenAI(prompt)
+      const result = await callLLMJSON('topic_deduper', prompt, TopicDedupeSchema)
 
       console.log('=== TOPIC DEDUPER RESULT ===')
       console.log('Result type:', typeof result)
@@ -692,7 +919,7 @@ export class RSSProcessor {
                   .insert([{
                     group_id: duplicateGroup.id,
                     post_id: dupPost.id,
-                    similarity_score: 0.8 // Default similarity
+                    similarity_score: 0.8 // The topic deduper doesn't score similarity
                   }])
               }
             }
@@ -704,7 +931,26 @@ export class RSSProcessor {
     }
   }
 
-  private async generateNewsletterArticles(campaignId: string) {
+  private async clearDuplicateGroups(campaignId: string) {
+    const { data: groups } = await supabaseAdmin
+      .from('duplicate_groups')
+      .select('id')
+      .eq('campaign_id', campaignId)
+
+    if (!groups || groups.length === 0) return
+
+    const groupIds = groups.map(g => g.id)
+    await supabaseAdmin
+      .from('duplicate_posts')
+      .delete()
+      .in('group_id', groupIds)
+    await supabaseAdmin
+      .from('duplicate_groups')
+      .delete()
+      .in('id', groupIds)
+  }
+
+  async generateNewsletterArticles(campaignId: string) {
     console.log('Starting newsletter article generation...')
 
     // Get posts with ratings and check for duplicates
@@ -712,7 +958,8 @@ export class RSSProcessor {
       .from('rss_posts')
       .select(`
         *,
-        post_ratings(*)
+        post_ratings(*),
+        articles(id)
       `)
       .eq('campaign_id', campaignId)
       .limit(20) // Get more posts to filter later
@@ -776,61 +1023,90 @@ export class RSSProcessor {
       if (allRatedPosts && allRatedPosts.length > 0) {
         // Use these posts instead, excluding duplicates
         const filteredPosts = allRatedPosts.filter(post => !duplicatePostIds.has(post.id))
-        for (const post of filteredPosts.slice(0, 12)) {
+        const { data: existingArticles } = await supabaseAdmin
+          .from('articles')
+          .select('post_id')
+          .eq('campaign_id', campaignId)
+        const postsWithArticles = new Set(existingArticles?.map(a => a.post_id) || [])
+
+        for (const post of filteredPosts.slice(0, 12).filter(post => !postsWithArticles.has(post.id))) {
           await this.processPostIntoArticle(post, campaignId)
         }
       }
       return
     }
 
-    for (const post of postsWithRatings) {
+    // Posts that already have an article keep it (including reviewer edits)
+    const postsNeedingArticles = postsWithRatings.filter(post => !post.articles || post.articles.length === 0)
+    console.log(`${postsNeedingArticles.length} posts need new articles (${postsWithRatings.length - postsNeedingArticles.length} already written)`)
+
+    for (const post of postsNeedingArticles) {
       await this.processPostIntoArticle(post, campaignId)
     }
 
     console.log('Newsletter article generation complete')
+  }
 
-    // Auto-select top 5 articles based on ratings
-    console.log('=== ABOUT TO SELECT TOP 5 ARTICLES ===')
-    await this.selectTop5Articles(campaignId)
-    console.log('=== TOP 5 ARTICLES SELECTION COMPLETE ===')
-
-    // Download and store images for selected articles
-    console.log('=== ABOUT TO PROCESS ARTICLE IMAGES ===')
-    await this.processArticleImages(campaignId)
-    console.log('=== ARTICLE IMAGE PROCESSING COMPLETE ===')
+  /**
+   * Auto-select top articles based on ratings, unless a previous run (or a reviewer) already did
+   */
+  async selectTopArticlesForCampaign(campaignId: string) {
+    const { count: activeArticleCount } = await supabaseAdmin
+      .from('articles')
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', campaignId)
+      .eq('is_active', true)
+
+    if (activeArticleCount && activeArticleCount > 0) {
+      console.log(`Campaign already has ${activeArticleCount} active articles, keeping existing selection`)
+    } else {
+      console.log('=== ABOUT TO SELECT TOP 5 ARTICLES ===')
+      await this.selectTop5Articles(campaignId)
+      console.log('=== TOP 5 ARTICLES SELECTION COMPLETE ===')
+    }
   }
 
-  private async selectTop5Articles(campaignId: string) {
-    try {
-      console.log('Selecting top articles for campaign (dynamic count based on ad settings):', campaignId)
+  /**
+   * Number of articles selectTop5Articles activates: 5, minus the ad slots when the spotlight section is on
+   */
+  async getTopArticleCount(): Promise<number> {
+    // Check if Community Business Spotlight section is active
+    const { data: spotlightSection } = await supabaseAdmin
+      .from('newsletter_sections')
+      .select('is_active')
+      .eq('renderer_key', 'community_business_spotlight')
+      .limit(1)
+      .maybeSingle()
+
+    const isSpotlightActive = spotlightSection?.is_active || false
+    console.log('Community Business Spotlight section is active:', isSpotlightActive)
+
+    // Get ads_per_newsletter setting (defaults to 1)
+    const { data: adsPerNewsletterSetting } = await supabaseAdmin
+      .from('app_settings')
+      .select('value')
+      .eq('key', 'ads_per_newsletter')
+      .single()
 
-      // Check if Community Business Spotlight section is active
-      const { data: spotlightSection } = await supabaseAdmin
-        .from('newsletter_sections')
-        .select('is_active')
-        .eq('name', 'Community Business Spotlight')
-        .single()
+    const adsPerNewsletter = adsPerNewsletterSetting ? parseInt(adsPerNewsletterSetting.value) : 1
+    console.log('Ads per newsletter setting:', adsPerNewsletter)
 
-      const isSpotlightActive = spotlightSection?.is_active || false
-      console.log('Community Business Spotlight section is active:', isSpotlightActive)
+    // Calculate article count: 5 total items, minus ads if spotlight is active
+    const articleCount = isSpotlightActive ? (5 - adsPerNewsletter) : 5
+    console.log(`Article count calculation: ${isSpotlightActive ? '5 - ' + adsPerNewsletter : '5'} = ${articleCount}`)
 
-      // Get ads_per_newsletter setting (defaults to 1)
-      const { data: adsPerNewsletterSetting } = await supabaseAdmin
-        .from('app_settings')
-        .select('value')
-        .eq('key', 'ads_per_newsletter')
-        .single()
+    // Validate article count is at least 1
+    const finalArticleCount = Math.max(1, Math.min(5, articleCount))
+    console.log(`Final article count (after validation): ${finalArticleCount}`)
 
-      const adsPerNewsletter = adsPerNewsletterSetting ? parseInt(adsPerNewsletterSetting.value) : 1
-      console.log('Ads per newsletter setting:', adsPerNewsletter)
+    return finalArticleCount
+  }
 
-      // Calculate article count: 5 total items, minus ads if spotlight is active
-      const articleCount = isSpotlightActive ? (5 - adsPerNewsletter) : 5
-      console.log(`Article count calculation: ${isSpotlightActive ? '5 - ' + adsPerNewsletter : '5'} = ${articleCount}`)
+  private async selectTop5Articles(campaignId: string) {
+    try {
+      console.log('Selecting top articles for campaign (dynamic count based on ad settings):', campaignId)
 
-      // Validate article count is at least 1
-      const finalArticleCount = Math.max(1, Math.min(5, articleCount))
-      console.log(`Final article count (after validation): ${finalArticleCount}`)
+      const finalArticleCount = await this.getTopArticleCount()
 
       // Get all articles for this campaign with their ratings
       const { data: articles, error } = await supabaseAdmin
@@ -888,9 +1164,12 @@ export class RSSProcessor {
     }
   }
 
-  private async processArticleImages(campaignId: string) {
+  /**
+   * Download and store images for the campaign's active articles
+   */
+  async processArticleImages(campaignId: string) {
     try {
-      console.log('=== STARTING IMAGE PROCESSING (GitHub) ===')
+      console.log('=== STARTING IMAGE PROCESSING ===')
       console.log('Campaign ID:', campaignId)
 
       // Log that image processing function is running
@@ -942,27 +1221,26 @@ export class RSSProcessor {
           const originalImageUrl = rssPost.image_url
           console.log(`Processing image for article ${article.id}: ${originalImageUrl}`)
 
-          // Skip if already a GitHub URL
-          if (originalImageUrl.includes('github.com') || originalImageUrl.includes('githubusercontent.com')) {
-            console.log(`Image already hosted on GitHub: ${originalImageUrl}`)
+          // Skip if we already host it
+          if (isStoredAssetUrl(originalImageUrl)) {
+            console.log(`Image already in storage: ${originalImageUrl}`)
             skipCount++
             continue
           }
 
-          // Upload image to GitHub
-          const githubUrl = await this.githubStorage.uploadImage(originalImageUrl, rssPost.title)
+          const stored = await storeRemoteAsset('article_image', originalImageUrl)
 
-          if (githubUrl) {
-            // Update the RSS post with GitHub URL
+          if (stored) {
+            // Point the RSS post at our copy
             await supabaseAdmin
               .from('rss_posts')
-              .update({ image_url: githubUrl })
+              .update({ image_url: stored.url })
               .eq('id', rssPost.id)
 
-            console.log(`Successfully uploaded image to GitHub: ${githubUrl}`)
+            console.log(`Successfully stored image: ${stored.url}`)
             downloadCount++
           } else {
-            console.error(`Failed to upload image to GitHub for article ${article.id}`)
+            console.error(`Failed to store image for article ${article.id}`)
             errorCount++
           }
 
@@ -972,8 +1250,8 @@ export class RSSProcessor {
         }
       }
 
-      console.log(`Image processing complete: ${downloadCount} uploaded to GitHub, ${skipCount} skipped (already hosted), ${errorCount} errors`)
-      await this.logInfo(`Image processing complete: ${downloadCount} uploaded to GitHub, ${skipCount} skipped, ${errorCount} errors`, {
+      console.log(`Image processing complete: ${downloadCount} stored, ${skipCount} skipped (already hosted), ${errorCount} errors`)
+      await this.logInfo(`Image processing complete: ${downloadCount} stored, ${skipCount} skipped, ${errorCount} errors`, {
         campaignId,
         downloadCount,
         skipCount,
@@ -992,7 +1270,9 @@ export class RSSProcessor {
       console.log(`Generating article for: ${post.title}`)
 
       // Generate newsletter content
-      const content = await this.generateNewsletterContent(post)
+      const assignment = await assignPromptVariant('ai_prompt_newsletter_writer', post.id)
+      const publication = await getCampaignPublication(campaignId)
+      const content = await this.generateNewsletterContent(post, assignment?.template, publication)
 
       // Fact-check the content
       const factCheck = await this.factCheckContent(content.content, post.content || post.description || '')
@@ -1012,7 +1292,10 @@ export class RSSProcessor {
             is_active: false, // Will be set to true for top 5 articles
             fact_check_score: factCheck.score,
             fact_check_details: factCheck.details,
-            word_count: content.word_count
+            word_count: content.word_count,
+            prompt_version_id: assignment?.versionId || null,
+            prompt_experiment_id: assignment?.experimentId || null,
+            prompt_variant: assignment?.variant || null
           }])
 
         if (error) {
@@ -1036,32 +1319,24 @@ export class RSSProcessor {
     }
   }
 
-  private async generateNewsletterContent(post: RssPost): Promise<NewsletterContent> {
+  async generateNewsletterContent(
+    post: Pick<RssPost, 'title' | 'description' | 'content' | 'source_url'>,
+    template?: string,
+    publication?: Publication
+  ): Promise<NewsletterContent> {
     const prompt = await AI_PROMPTS.newsletterWriter({
       title: post.title,
       description: post.description || '',
       content: post.content || '',
       source_url: post.source_url || ''
-    })
-
-    const result = await callOpenAI(prompt)
-
-    if (!result.headline || !result.content || !result.word_count) {
-      throw new Error('Invalid newsletter content response')
-    }
+    }, template, publication)
 
-    return result as NewsletterContent
+    return callLLMJSON('newsletter_writer', prompt, NewsletterContentSchema)
   }
 
-  private async factCheckContent(newsletterContent: string, originalContent: string): Promise<FactCheckResult> {
-    const prompt = await AI_PROMPTS.factChecker(newsletterContent, originalContent)
-    const result = await callOpenAI(prompt)
-
-    if (typeof result.score !== 'number' || typeof result.passed !== 'boolean') {
-      throw new Error('Invalid fact-check response')
-    }
-
-    return result as FactCheckResult
+  async factCheckContent(newsletterContent: string, originalContent: string, template?: string): Promise<FactCheckResult> {
+    const prompt = await AI_PROMPTS.factChecker(newsletterContent, originalContent, template)
+    return callLLMJSON('fact_checker', prompt, FactCheckResultSchema)
   }
 
   private async logInfo(message: string, context: Record<string, any> = {}) {
@@ -1146,19 +1421,8 @@ export class RSSProcessor {
       const subjectPrompt = await AI_PROMPTS.subjectLineGenerator([topArticle]) + `\n\nTimestamp: ${timestamp}`
 
       console.log('Generating AI subject line...')
-      const aiResponse = await callOpenAI(subjectPrompt, 100, 0.8)
-
-      // The AI now returns plain text, not JSON
-      let generatedSubject = ''
-
-      if (typeof aiResponse === 'string') {
-        generatedSubject = aiResponse
-      } else if (typeof aiResponse === 'object' && aiResponse && 'raw' in aiResponse) {
-        generatedSubject = (aiResponse as any).raw
-      } else if (typeof aiResponse === 'object') {
-        // Fallback: convert to string
-        generatedSubject = JSON.stringify(aiResponse)
-      }
+      // The AI returns plain text, not JSON
+      let generatedSubject = await callLLM('subject_line', subjectPrompt, { maxTokens: 100, temperature: 0.8 })
 
       if (generatedSubject && generatedSubject.trim()) {
         generatedSubject = generatedSubject.trim()
@@ -1214,13 +1478,7 @@ export class RSSProcessor {
       console.log('Populating events for campaign date:', campaignDate)
 
       // Calculate 3-day range starting from campaign date
-      const baseDate = new Date(campaignDate)
-      const dates: string[] = []
-      for (let i = 0; i <= 2; i++) {
-        const date = new Date(baseDate)
-        date.setDate(baseDate.getDate() + i)
-        dates.push(date.toISOString().split('T')[0])
-      }
+      const dates = getCampaignDates(campaignDate)
 
       console.log('Event date range:', dates)
 
@@ -1246,14 +1504,12 @@ export class RSSProcessor {
       }
 
       // Get all available events for the date range
-      const startDate = dates[0]
-      const endDate = dates[dates.length - 1]
-
+      const range = getEventQueryRange(dates)
       const { data: availableEvents, error: eventsError } = await supabaseAdmin
         .from('events')
         .select('*')
-        .gte('start_date', startDate)
-        .lte('start_date', endDate + 'T23:59:59')
+        .lte('start_date', range.startsBefore)
+        .or(range.overlapFilter)
         .eq('active', true)
         .order('start_date', { ascending: true })
 
@@ -1269,17 +1525,11 @@ export class RSSProcessor {
 
       console.log(`Found ${availableEvents.length} available events`)
 
-      // Group events by date
+      // Group events by every local day they occur on (multi-day events appear on each day)
       const eventsByDate: Record<string, any[]> = {}
-      availableEvents.forEach(event => {
-        const eventDate = event.start_date.split('T')[0]
-        if (dates.includes(eventDate)) {
-          if (!eventsByDate[eventDate]) {
-            eventsByDate[eventDate] = []
-          }
-          eventsByDate[eventDate].push(event)
-        }
-      })
+      for (const date of dates) {
+        eventsByDate[date] = availableEvents.filter(event => eventOccursOn(event, date))
+      }
 
       // Process each date
       const newCampaignEvents: any[] = []
@@ -1454,26 +1704,17 @@ export class RSSProcessor {
 
       // Calculate 3-day range starting from the newsletter date (campaign.date)
       // Day 1: Newsletter date, Day 2: Next day, Day 3: Day after that
-      const newsletterDate = new Date(campaign.date + 'T00:00:00') // Parse as local date
-
-      const dates = []
-      for (let i = 0; i <= 2; i++) {
-        const date = new Date(newsletterDate)
-        date.setDate(newsletterDate.getDate() + i)
-        dates.push(date.toISOString().split('T')[0])
-      }
+      const dates = getCampaignDates(campaign.date)
 
       console.log('Event population date range:', dates)
 
       // Get available events for the date range
-      const startDate = dates[0]
-      const endDate = dates[dates.length - 1]
-
+      const range = getEventQueryRange(dates)
       const { data: availableEvents, error: eventsError } = await supabaseAdmin
         .from('events')
         .select('*')
-        .gte('start_date', startDate)
-        .lte('start_date', endDate + 'T23:59:59')
+        .lte('start_date', range.startsBefore)
+        .or(range.overlapFilter)
         .eq('active', true)
         .order('start_date', { ascending: true })
 
@@ -1503,14 +1744,7 @@ export class RSSProcessor {
       const eventsByDate: { [key: string]: any[] } = {}
 
       dates.forEach(date => {
-        const dateStart = new Date(date + 'T00:00:00-05:00')
-        const dateEnd = new Date(date + 'T23:59:59-05:00')
-
-        const eventsForDate = availableEvents.filter(event => {
-          const eventStart = new Date(event.start_date)
-          const eventEnd = event.end_date ? new Date(event.end_date) : eventStart
-          return (eventStart <= dateEnd && eventEnd >= dateStart)
-        })
+        const eventsForDate = availableEvents.filter(event => eventOccursOn(event, date))
 
         if (eventsForDate.length > 0) {
           // Separate by priority:
@@ -0,0 +1,124 @@
+// Run Locks
+// Lease-based locks in the run_locks table so only one invocation of a cron job runs at a time.
+// The holder heartbeats to extend its lease; if it crashes or times out the lease expires and
+// the next invocation takes the lock over.
+
+import crypto from 'crypto'
+import { supabaseAdmin } from './supabase'
+
+// Matches the longest maxDuration of the cron routes, so a live run never loses its lease
+export const DEFAULT_LEASE_MS = 300 * 1000
+
+export interface RunLock {
+  name: string
+  owner: string
+  /** Extend the lease. False if the lock was lost (lease expired and taken over). */
+  heartbeat(): Promise<boolean>
+  release(): Promise<void>
+}
+
+/**
+ * Identifies this invocation in run_locks.owner
+ */
+function createOwnerId(): string {
+  return `${process.env.VERCEL_REGION || 'local'}:${crypto.randomUUID()}`
+}
+
+/**
+ * Take the named lock if it is free or its lease has expired. Returns null while another
+ * invocation holds it. The lease is extended automatically until release().
+ */
+export async function acquireRunLock(name: string, leaseMs: number = DEFAULT_LEASE_MS): Promise<RunLock | null> {
+  const owner = createOwnerId()
+  const now = new Date()
+  const lease = {
+    owner,
+    acquired_at: now.toISOString(),
+    heartbeat_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + leaseMs).toISOString()
+  }
+
+  // Take over a released or expired lock
+  const { data: taken, error } = await supabaseAdmin
+    .from('run_locks')
+    .update(lease)
+    .eq('name', name)
+    .or(`owner.is.null,expires_at.lt."${now.toISOString()}"`)
+    .select('name')
+
+  if (error) {
+    throw new Error(`Failed to acquire run lock ${name}: ${error.message}`)
+  }
+
+  if (!taken || taken.length === 0) {
+    // First use of this lock; the primary key makes a concurrent insert fail
+    const { error: insertError } = await supabaseAdmin
+      .from('run_locks')
+      .insert({ name, ...lease })
+
+    if (insertError) {
+      const { data: holder } = await supabaseAdmin
+        .from('run_locks')
+        .select('owner, expires_at')
+        .eq('name', name)
+        .maybeSingle()
+      console.log(`[RunLock] ${name} is held by ${holder?.owner || 'another invocation'} until ${holder?.expires_at || 'unknown'}`)
+      return null
+    }
+  }
+
+  console.log(`[RunLock] Acquired ${name} as ${owner}`)
+  return createLockHandle(name, owner, leaseMs)
+}
+
+function createLockHandle(name: string, owner: string, leaseMs: number): RunLock {
+  let released = false
+
+  const heartbeat = async (): Promise<boolean> => {
+    const now = new Date()
+    const { data, error } = await supabaseAdmin
+      .from('run_locks')
+      .update({
+        heartbeat_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + leaseMs).toISOString()
+      })
+      .eq('name', name)
+      .eq('owner', owner)
+      .select('name')
+
+    if (error || !data || data.length === 0) {
+      console.error(`[RunLock] Lost ${name}${error ? `: ${error.message}` : ''}`)
+      return false
+    }
+    return true
+  }
+
+  // A third of the lease, so two missed heartbeats still leave the lease in place
+  const timer = setInterval(() => {
+    heartbeat().catch(error => console.error(`[RunLock] Heartbeat failed for ${name}:`, error))
+  }, Math.max(leaseMs / 3, 1000))
+
+  return {
+    name,
+    owner,
+    heartbeat,
+    release: async () => {
+      if (released) return
+      released = true
+      clearInterval(timer)
+
+      // Only clears the lock if it is still ours
+      const { error } = await supabaseAdmin
+        .from('run_locks')
+        .update({ owner: null, expires_at: new Date().toISOString() })
+        .eq('name', name)
+        .eq('owner', owner)
+
+      if (error) {
+        console.error(`[RunLock] Failed to release ${name}:`, error.message)
+      } else {
+        console.log(`[RunLock] Released ${name}`)
+      }
+    }
+  }
+}
@@ -1,13 +1,144 @@
 import { supabaseAdmin } from './supabase'
+import {
+  addDays,
+  centralWallTimeToInstant,
+  getCentralDate,
+  getCentralTime,
+  getDayOfWeek,
+  type CentralTime
+} from './newsletter-calendar'
+import { getCronTimesOnDate, parseCronExpression } from './cron-expression'
+import { acquireRunLock, type RunLock } from './run-lock'
+import type { ScheduleCalendarEntry, ScheduleJob, ScheduleJobKey } from '@/types/database'
 
 interface ScheduleSettings {
   reviewScheduleEnabled: boolean
   dailyScheduleEnabled: boolean
-  rssProcessingTime: string
-  campaignCreationTime: string
-  scheduledSendTime: string
-  dailyCampaignCreationTime: string
-  dailyScheduledSendTime: string
+}
+
+interface ScheduleJobDefinition {
+  label: string
+  // Which enable toggle on the settings page turns the job on
+  group: 'review' | 'daily'
+  // Days between the run and the issue it produces: the review pipeline runs the evening before
+  issueDayOffset: number
+  defaultCron: string
+}
+
+export const SCHEDULE_JOBS: Record<ScheduleJobKey, ScheduleJobDefinition> = {
+  event_population: { label: 'Event Population', group: 'review', issueDayOffset: 1, defaultCron: '25 20 * * *' },
+  rss_processing: { label: 'RSS Processing', group: 'review', issueDayOffset: 1, defaultCron: '30 20 * * *' },
+  campaign_creation: { label: 'Campaign Creation', group: 'review', issueDayOffset: 1, defaultCron: '50 20 * * *' },
+  review_send: { label: 'Review Send', group: 'review', issueDayOffset: 1, defaultCron: '0 21 * * *' },
+  final_send: { label: 'Final Send', group: 'daily', issueDayOffset: 0, defaultCron: '55 4 * * *' }
+}
+
+export const SCHEDULE_JOB_KEYS = Object.keys(SCHEDULE_JOBS) as ScheduleJobKey[]
+
+// Every day of the week
+export const ALL_ISSUE_DAYS = 0b1111111
+
+// Vercel calls the cron endpoints every 5 minutes; a run missed by a few calls is still made,
+// but one missed by more than this (an outage) is dropped rather than sent hours late
+const CATCH_UP_WINDOW_MS = 30 * 60 * 1000
+
+// How far ahead the preview looks for runs
+const PREVIEW_HORIZON_DAYS = 366
+
+export interface ScheduledRun {
+  jobKey: ScheduleJobKey
+  // ISO instant
+  runAt: string
+  issueDate: string
+  status: 'scheduled' | 'skipped'
+  // Why a run is skipped, or the calendar entry that moved it
+  reason: string | null
+  editionName: string | null
+}
+
+export interface DueRun extends ScheduledRun {
+  // Held until ScheduleChecker.completeRun
+  lock: RunLock
+}
+
+export interface JobScheduleOverride {
+  cronExpression?: string
+  issueDayMask?: number
+}
+
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+function entryMatchesIssue(entry: ScheduleCalendarEntry, issueDate: string, jobKey: ScheduleJobKey): boolean {
+  if (entry.job_key && entry.job_key !== jobKey) return false
+  return entry.recurs_yearly
+    ? entry.issue_date.slice(5) === issueDate.slice(5)
+    : entry.issue_date === issueDate
+}
+
+/**
+ * Every run of a job whose run date falls between two Central dates (inclusive), including the
+ * runs the calendar or the issue-day mask skip. Calendar entries apply to the issue a run produces.
+ */
+function planRuns(
+  jobKey: ScheduleJobKey,
+  job: Pick<ScheduleJob, 'cron_expression' | 'issue_day_mask'>,
+  calendar: ScheduleCalendarEntry[],
+  fromDate: string,
+  toDate: string
+): ScheduledRun[] {
+  const definition = SCHEDULE_JOBS[jobKey]
+  const cron = parseCronExpression(job.cron_expression)
+  const runs: ScheduledRun[] = []
+
+  for (let runDate = fromDate; runDate <= toDate; runDate = addDays(runDate, 1)) {
+    const issueDate = addDays(runDate, definition.issueDayOffset)
+    const entries = calendar.filter(entry => entryMatchesIssue(entry, issueDate, jobKey))
+
+    // A reschedule replaces the job's regular runs for that issue
+    if (entries.some(entry => entry.action === 'reschedule')) continue
+
+    const skip = entries.find(entry => entry.action === 'skip')
+    const special = entries.find(entry => entry.action === 'special_edition')
+    const dayIncluded = (job.issue_day_mask & (1 << getDayOfWeek(issueDate))) !== 0
+
+    let reason: string | null = null
+    if (skip) {
+      reason = skip.label || 'Skipped by calendar'
+    } else if (!dayIncluded && !special) {
+      reason = `No ${DAY_LABELS[getDayOfWeek(issueDate)]} issue`
+    }
+
+    for (const time of getCronTimesOnDate(cron, runDate)) {
+      runs.push({
+        jobKey,
+        runAt: centralWallTimeToInstant(runDate, time.hours, time.minutes).toISOString(),
+        issueDate,
+        status: reason ? 'skipped' : 'scheduled',
+        reason,
+        editionName: special?.edition_name || null
+      })
+    }
+  }
+
+  for (const entry of calendar) {
+    if (entry.action !== 'reschedule' || entry.job_key !== jobKey || !entry.run_date || !entry.run_time) continue
+    if (entry.run_date < fromDate || entry.run_date > toDate) continue
+
+    const [hours, minutes] = entry.run_time.split(':').map(Number)
+    const special = calendar.find(other =>
+      other.action === 'special_edition' && entryMatchesIssue(other, entry.issue_date, jobKey)
+    )
+    runs.push({
+      jobKey,
+      runAt: centralWallTimeToInstant(entry.run_date, hours, minutes).toISOString(),
+      issueDate: entry.issue_date,
+      status: 'scheduled',
+      reason: entry.label || 'Rescheduled',
+      editionName: special?.edition_name || null
+    })
+  }
+
+  return runs.sort((a, b) => a.runAt.localeCompare(b.runAt))
 }
 
 export class ScheduleChecker {
@@ -17,12 +148,7 @@ export class ScheduleChecker {
       .select('key, value')
       .in('key', [
         'email_reviewScheduleEnabled',
-        'email_dailyScheduleEnabled',
-        'email_rssProcessingTime',
-        'email_campaignCreationTime',
-        'email_scheduledSendTime',
-        'email_dailyCampaignCreationTime',
-        'email_dailyScheduledSendTime'
+        'email_dailyScheduleEnabled'
       ])
 
     const settingsMap = (settings || []).reduce((acc, setting) => {
@@ -32,199 +158,228 @@ export class ScheduleChecker {
 
     return {
       reviewScheduleEnabled: settingsMap['email_reviewScheduleEnabled'] === 'true',
-      dailyScheduleEnabled: settingsMap['email_dailyScheduleEnabled'] === 'true',
-      rssProcessingTime: settingsMap['email_rssProcessingTime'] || '20:30',
-      campaignCreationTime: settingsMap['email_campaignCreationTime'] || '20:50',
-      scheduledSendTime: settingsMap['email_scheduledSendTime'] || '21:00',
-      dailyCampaignCreationTime: settingsMap['email_dailyCampaignCreationTime'] || '04:30',
-      dailyScheduledSendTime: settingsMap['email_dailyScheduledSendTime'] || '04:55'
+      dailyScheduleEnabled: settingsMap['email_dailyScheduleEnabled'] === 'true'
     }
   }
 
-  public static getCurrentTimeInCT(): { hours: number, minutes: number, timeString: string } {
-    // Get current time in Central Time
-    const now = new Date()
-    const centralTime = new Date(now.toLocaleString("en-US", {timeZone: "America/Chicago"}))
-    const hours = centralTime.getHours()
-    const minutes = centralTime.getMinutes()
-    const timeString = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`
-
-    return { hours, minutes, timeString }
+  public static getCurrentTimeInCT(): CentralTime {
+    return getCentralTime()
   }
 
-  public static parseTime(timeStr: string): { hours: number, minutes: number } {
-    const [hours, minutes] = timeStr.split(':').map(Number)
-    return { hours, minutes }
-  }
+  /**
+   * Every job's schedule. Jobs without a row get their default schedule inserted.
+   */
+  static async getJobs(): Promise<Record<ScheduleJobKey, ScheduleJob>> {
+    const { data, error } = await supabaseAdmin
+      .from('schedule_jobs')
+      .select('*')
 
-  private static isTimeToRun(currentTime: string, scheduledTime: string, lastRunKey: string): Promise<boolean> {
-    return new Promise(async (resolve) => {
-      const current = this.parseTime(currentTime)
-      const scheduled = this.parseTime(scheduledTime)
+    if (error) {
+      throw new Error(`Failed to load schedule jobs: ${error.message}`)
+    }
 
-      // Check if current time matches scheduled time (within 5-minute window)
-      const currentMinutes = current.hours * 60 + current.minutes
-      const scheduledMinutes = scheduled.hours * 60 + scheduled.minutes
-      const timeDiff = Math.abs(currentMinutes - scheduledMinutes)
+    const jobs = {} as Record<ScheduleJobKey, ScheduleJob>
+    for (const job of (data || []) as ScheduleJob[]) {
+      jobs[job.job_key] = job
+    }
 
-      if (timeDiff > 5) {
-        console.log(`Time window not matched for ${lastRunKey}: current ${currentTime}, scheduled ${scheduledTime}, diff ${timeDiff} minutes`)
-        resolve(false)
-        return
+    const missing = SCHEDULE_JOB_KEYS.filter(key => !jobs[key])
+    if (missing.length > 0) {
+      const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('schedule_jobs')
+        .upsert(missing.map(key => ({
+          job_key: key,
+          cron_expression: SCHEDULE_JOBS[key].defaultCron,
+          issue_day_mask: ALL_ISSUE_DAYS
+        })), { onConflict: 'job_key', ignoreDuplicates: true })
+        .select('*')
+
+      if (insertError) {
+        throw new Error(`Failed to create default schedule jobs: ${insertError.message}`)
+      }
+      for (const job of (inserted || []) as ScheduleJob[]) {
+        jobs[job.job_key] = job
       }
+    }
 
-      console.log(`Time window matched for ${lastRunKey}: current ${currentTime}, scheduled ${scheduledTime}, diff ${timeDiff} minutes`)
-
-      // Check if we already ran today (use Central Time for consistency)
-      try {
-        const nowCentral = new Date().toLocaleString("en-US", {timeZone: "America/Chicago"})
-        const centralDate = new Date(nowCentral)
-        const today = centralDate.toISOString().split('T')[0]
-        const { data: setting } = await supabaseAdmin
-          .from('app_settings')
-          .select('value')
-          .eq('key', lastRunKey)
-          .single()
-
-        if (setting?.value === today) {
-          console.log(`${lastRunKey} already ran today (${today}), skipping`)
-          resolve(false)
-          return
-        }
+    return jobs
+  }
 
-        // Update the last run date to today
-        await supabaseAdmin
-          .from('app_settings')
-          .upsert({
-            key: lastRunKey,
-            value: today,
-            description: `Last run date for ${lastRunKey}`,
-            updated_at: new Date().toISOString()
-          })
+  static async getCalendar(): Promise<ScheduleCalendarEntry[]> {
+    const { data, error } = await supabaseAdmin
+      .from('schedule_calendar')
+      .select('*')
+      .order('issue_date', { ascending: true })
 
-        console.log(`${lastRunKey} updating last run date to ${today}`)
-        resolve(true)
-      } catch (error) {
-        console.error(`Error checking/updating last run for ${lastRunKey}:`, error)
-        resolve(false)
-      }
-    })
+    if (error) {
+      throw new Error(`Failed to load schedule calendar: ${error.message}`)
+    }
+    return (data || []) as ScheduleCalendarEntry[]
   }
 
-  static async shouldRunRSSProcessing(): Promise<boolean> {
+  /**
+   * The run of a job that is due now. The job's run lock is held until completeRun, so
+   * overlapping invocations skip it. A run that failed is returned again on the next check, and
+   * one that was claimed but never completed (the invocation crashed or timed out) once its lock
+   * lease expires, as long as the run is still within the catch-up window.
+   * Returns null when the job is disabled, locked, nothing is due, or the run already completed.
+   */
+  static async getDueRun(jobKey: ScheduleJobKey): Promise<DueRun | null> {
+    let lock: RunLock | null = null
+
     try {
       const settings = await this.getScheduleSettings()
+      const enabled = SCHEDULE_JOBS[jobKey].group === 'review'
+        ? settings.reviewScheduleEnabled
+        : settings.dailyScheduleEnabled
 
-      if (!settings.reviewScheduleEnabled) {
-        return false
+      if (!enabled) {
+        return null
       }
 
-      const currentTime = this.getCurrentTimeInCT()
-      console.log(`RSS Processing check: Current CT time ${currentTime.timeString}, Scheduled: ${settings.rssProcessingTime}`)
+      lock = await acquireRunLock(`schedule:${jobKey}`)
+      if (!lock) {
+        console.log(`${jobKey} is already running in another invocation, skipping`)
+        return null
+      }
 
-      return await this.isTimeToRun(
-        currentTime.timeString,
-        settings.rssProcessingTime,
-        'last_rss_processing_run'
-      )
-    } catch (error) {
-      console.error('Error checking RSS processing schedule:', error)
-      return false
-    }
-  }
+      const [jobs, calendar] = await Promise.all([this.getJobs(), this.getCalendar()])
+      const job = jobs[jobKey]
+      const now = new Date()
+      const today = getCentralDate(now)
+
+      // Yesterday too, for runs just before midnight caught up just after it
+      const runs = planRuns(jobKey, job, calendar, addDays(today, -1), today)
+        .filter(run => {
+          const runAt = new Date(run.runAt).getTime()
+          return runAt <= now.getTime() && now.getTime() - runAt <= CATCH_UP_WINDOW_MS
+        })
+
+      const run = runs[runs.length - 1]
+      const runAt = run ? new Date(run.runAt).getTime() : 0
+      const claimed = !!job.last_run_at && new Date(job.last_run_at).getTime() >= runAt
+      const completed = !!job.last_completed_at && new Date(job.last_completed_at).getTime() >= runAt
+
+      if (!run) {
+        console.log(`${jobKey} check: nothing due at ${getCentralTime(now).timeString} CT (${job.cron_expression})`)
+      } else if (claimed && completed) {
+        console.log(`${jobKey} already ran for ${run.runAt}, skipping`)
+      } else if (run.status === 'skipped') {
+        console.log(`${jobKey} run at ${run.runAt} for the ${run.issueDate} issue is skipped: ${run.reason}`)
+      } else {
+        if (claimed && job.last_run_status === 'failed') {
+          console.log(`${jobKey} run at ${run.runAt} failed (${job.last_run_error || 'unknown error'}), running it again`)
+        } else if (claimed) {
+          console.log(`${jobKey} run at ${run.runAt} was started but never completed, running it again`)
+        }
 
-  static async shouldRunCampaignCreation(): Promise<boolean> {
-    try {
-      const settings = await this.getScheduleSettings()
+        // We hold the job's lock, so no other invocation is claiming this run
+        const { error } = await supabaseAdmin
+          .from('schedule_jobs')
+          .update({
+            last_run_at: run.runAt,
+            last_issue_date: run.issueDate,
+            last_run_status: 'running',
+            last_run_error: null,
+            updated_at: now.toISOString()
+          })
+          .eq('job_key', jobKey)
 
-      if (!settings.reviewScheduleEnabled) {
-        return false
-      }
+        if (error) {
+          throw new Error(`Failed to claim run: ${error.message}`)
+        }
 
-      const currentTime = this.getCurrentTimeInCT()
-      console.log(`Campaign Creation check: Current CT time ${currentTime.timeString}, Scheduled: ${settings.campaignCreationTime}`)
+        console.log(`${jobKey} due: run at ${run.runAt} for the ${run.issueDate} issue${run.editionName ? ` (${run.editionName})` : ''}`)
+        return { ...run, lock }
+      }
 
-      return await this.isTimeToRun(
-        currentTime.timeString,
-        settings.campaignCreationTime,
-        'last_campaign_creation_run'
-      )
+      await lock.release()
+      return null
     } catch (error) {
-      console.error('Error checking campaign creation schedule:', error)
-      return false
+      console.error(`Error checking ${jobKey} schedule:`, error)
+      await lock?.release()
+      return null
     }
   }
 
-  static async shouldRunReviewSend(): Promise<boolean> {
+  /**
+   * Record how a due run finished and release the job's lock. Pass the failure, if any;
+   * a failed run stays incomplete so the next check within the catch-up window retries it.
+   */
+  static async completeRun(run: DueRun, failure: string | null = null): Promise<void> {
     try {
-      const settings = await this.getScheduleSettings()
-
-      if (!settings.reviewScheduleEnabled) {
-        return false
+      const { error } = await supabaseAdmin
+        .from('schedule_jobs')
+        .update(failure
+          ? { last_run_status: 'failed', last_run_error: failure, updated_at: new Date().toISOString() }
+          : { last_run_status: 'completed', last_run_error: null, last_completed_at: run.runAt, updated_at: new Date().toISOString() })
+        .eq('job_key', run.jobKey)
+
+      if (error) {
+        console.error(`Failed to record ${run.jobKey} run ${failure ? 'failure' : 'completion'}:`, error.message)
       }
-
-      const currentTime = this.getCurrentTimeInCT()
-      console.log(`Review Send check: Current CT time ${currentTime.timeString}, Scheduled: ${settings.scheduledSendTime}`)
-
-      return await this.isTimeToRun(
-        currentTime.timeString,
-        settings.scheduledSendTime,
-        'last_review_send_run'
-      )
-    } catch (error) {
-      console.error('Error checking review send schedule:', error)
-      return false
+    } finally {
+      await run.lock.release()
     }
   }
 
-  static async shouldRunEventPopulation(): Promise<boolean> {
-    try {
-      const settings = await this.getScheduleSettings()
+  /**
+   * The next runs of a job, with the skipped runs in between. An override previews
+   * an unsaved cron expression or issue-day mask.
+   */
+  static async getUpcomingRuns(jobKey: ScheduleJobKey, count: number = 14, override: JobScheduleOverride = {}): Promise<ScheduledRun[]> {
+    const [jobs, calendar] = await Promise.all([this.getJobs(), this.getCalendar()])
+    return this.planUpcomingRuns(jobKey, {
+      cron_expression: override.cronExpression ?? jobs[jobKey].cron_expression,
+      issue_day_mask: override.issueDayMask ?? jobs[jobKey].issue_day_mask
+    }, calendar, count)
+  }
 
-      if (!settings.reviewScheduleEnabled) {
-        return false
+  private static planUpcomingRuns(
+    jobKey: ScheduleJobKey,
+    job: Pick<ScheduleJob, 'cron_expression' | 'issue_day_mask'>,
+    calendar: ScheduleCalendarEntry[],
+    count: number
+  ): ScheduledRun[] {
+    const now = new Date().toISOString()
+    const today = getCentralDate()
+    const upcoming: ScheduledRun[] = []
+    let scheduled = 0
+
+    // A month at a time so a daily schedule doesn't plan a whole year
+    for (let offset = 0; offset < PREVIEW_HORIZON_DAYS && scheduled < count; offset += 31) {
+      const fromDate = addDays(today, offset)
+      const toDate = addDays(today, Math.min(offset + 30, PREVIEW_HORIZON_DAYS - 1))
+
+      for (const run of planRuns(jobKey, job, calendar, fromDate, toDate)) {
+        if (run.runAt <= now) continue
+        if (scheduled >= count) break
+        upcoming.push(run)
+        if (run.status === 'scheduled') scheduled++
       }
-
-      // Run 5 minutes before RSS processing
-      const rssTime = settings.rssProcessingTime
-      const [rssHour, rssMinute] = rssTime.split(':').map(Number)
-      const eventTime = `${rssHour.toString().padStart(2, '0')}:${(rssMinute - 5).toString().padStart(2, '0')}`
-
-      const currentTime = this.getCurrentTimeInCT()
-      console.log(`Event Population check: Current CT time ${currentTime.timeString}, Scheduled: ${eventTime}`)
-
-      return await this.isTimeToRun(
-        currentTime.timeString,
-        eventTime,
-        'last_event_population_run'
-      )
-    } catch (error) {
-      console.error('Error checking event population schedule:', error)
-      return false
     }
+
+    return upcoming
   }
 
+  static async shouldRunRSSProcessing(): Promise<DueRun | null> {
+    return this.getDueRun('rss_processing')
+  }
 
-  static async shouldRunFinalSend(): Promise<boolean> {
-    try {
-      const settings = await this.getScheduleSettings()
+  static async shouldRunCampaignCreation(): Promise<DueRun | null> {
+    return this.getDueRun('campaign_creation')
+  }
 
-      if (!settings.dailyScheduleEnabled) {
-        return false
-      }
+  static async shouldRunReviewSend(): Promise<DueRun | null> {
+    return this.getDueRun('review_send')
+  }
 
-      const currentTime = this.getCurrentTimeInCT()
-      console.log(`Final Send check: Current CT time ${currentTime.timeString}, Scheduled: ${settings.dailyScheduledSendTime}`)
+  static async shouldRunEventPopulation(): Promise<DueRun | null> {
+    return this.getDueRun('event_population')
+  }
 
-      return await this.isTimeToRun(
-        currentTime.timeString,
-        settings.dailyScheduledSendTime,
-        'last_final_send_run'
-      )
-    } catch (error) {
-      console.error('Error checking final send schedule:', error)
-      return false
-    }
+  static async shouldRunFinalSend(): Promise<DueRun | null> {
+    return this.getDueRun('final_send')
   }
 
   // NOTE: Subject generation is now integrated into RSS processing
@@ -240,35 +395,46 @@ export class ScheduleChecker {
     campaignCreation: string
     reviewSend: string
     finalSend: string
+    nextRuns: Partial<Record<ScheduleJobKey, string | null>>
     reviewEnabled: boolean
     dailyEnabled: boolean
   }> {
     try {
-      const settings = await this.getScheduleSettings()
+      const [settings, jobs, calendar] = await Promise.all([
+        this.getScheduleSettings(),
+        this.getJobs(),
+        this.getCalendar()
+      ])
 
-      // Subject generation now happens as part of RSS processing (after 60-second delay)
-      const subjectGeneration = `${settings.rssProcessingTime} (integrated)`
+      const nextRuns: Partial<Record<ScheduleJobKey, string | null>> = {}
+      for (const key of SCHEDULE_JOB_KEYS) {
+        const next = this.planUpcomingRuns(key, jobs[key], calendar, 1).find(run => run.status === 'scheduled')
+        nextRuns[key] = next?.runAt || null
+      }
 
       return {
-        rssProcessing: settings.rssProcessingTime,
-        subjectGeneration: subjectGeneration,
-        campaignCreation: settings.campaignCreationTime,
-        reviewSend: settings.scheduledSendTime,
-        finalSend: settings.dailyScheduledSendTime,
+        rssProcessing: jobs.rss_processing.cron_expression,
+        // Subject generation now happens as part of RSS processing (after 60-second delay)
+        subjectGeneration: `${jobs.rss_processing.cron_expression} (integrated)`,
+        campaignCreation: jobs.campaign_creation.cron_expression,
+        reviewSend: jobs.review_send.cron_expression,
+        finalSend: jobs.final_send.cron_expression,
+        nextRuns,
         reviewEnabled: settings.reviewScheduleEnabled,
         dailyEnabled: settings.dailyScheduleEnabled
       }
     } catch (error) {
       console.error('Error getting schedule display:', error)
       return {
-        rssProcessing: '20:30',
-        subjectGeneration: '20:30 (integrated)',
-        campaignCreation: '20:50',
-        reviewSend: '21:00',
-        finalSend: '04:55',
+        rssProcessing: SCHEDULE_JOBS.rss_processing.defaultCron,
+        subjectGeneration: `${SCHEDULE_JOBS.rss_processing.defaultCron} (integrated)`,
+        campaignCreation: SCHEDULE_JOBS.campaign_creation.defaultCron,
+        reviewSend: SCHEDULE_JOBS.review_send.defaultCron,
+        finalSend: SCHEDULE_JOBS.final_send.defaultCron,
+        nextRuns: {},
         reviewEnabled: false,
         dailyEnabled: false
       }
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,299 @@
+// Stripe Payments
+// What a Stripe payment event means for the ad or events it paid for. Ads and events both keep
+// their Checkout session ID in payment_intent_id, and runs bought from the advertiser portal keep
+// it in ad_run_purchases.stripe_session_id; refunds and disputes arrive with a PaymentIntent
+// instead, so those are mapped back to the session through the Stripe API.
+
+import { supabaseAdmin } from './supabase'
+import { AdScheduler } from './ad-scheduler'
+import { redeemDiscountCode } from './pricing'
+import type { AdRunPurchase, Advertisement, Event, PendingEventSubmission } from '@/types/database'
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1'
+
+export type PaymentReversal = 'refunded' | 'disputed'
+
+export async function getCheckoutSessionIdForPaymentIntent(paymentIntentId: string): Promise<string | null> {
+  const stripeSecretKey = process.env.STRIPE_SECRET_KEY
+  if (!stripeSecretKey) {
+    throw new Error('Stripe secret key not configured')
+  }
+
+  const response = await fetch(
+    `${STRIPE_API_URL}/checkout/sessions?payment_intent=${encodeURIComponent(paymentIntentId)}&limit=1`,
+    { headers: { 'Authorization': `Bearer ${stripeSecretKey}` } }
+  )
+
+  if (!response.ok) {
+    throw new Error(`Stripe session lookup failed: ${await response.text()}`)
+  }
+
+  const sessions = await response.json()
+  return sessions.data?.[0]?.id || null
+}
+
+async function getAdForSession(sessionId: string): Promise<Advertisement | null> {
+  const { data: ad, error } = await supabaseAdmin
+    .from('advertisements')
+    .select('*')
+    .eq('payment_intent_id', sessionId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return ad
+}
+
+/**
+ * Move a paid ad into the review queue. Safe to call from both the webhook and the success
+ * page; only the call that moves it out of pending_payment counts its discount code.
+ */
+export async function confirmAdPayment(sessionId: string): Promise<Advertisement | null> {
+  const ad = await getAdForSession(sessionId)
+  if (!ad || ad.status !== 'pending_payment') {
+    return ad
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('advertisements')
+    .update({
+      status: 'pending_review',
+      payment_status: 'paid',
+      paid: true,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', ad.id)
+    .eq('status', 'pending_payment')
+    .select()
+
+  if (error) {
+    throw error
+  }
+
+  // Another call confirmed it first
+  if (!updated || updated.length === 0) {
+    return getAdForSession(sessionId)
+  }
+
+  if (ad.pricing_quote?.discount_code) {
+    await redeemDiscountCode(ad.pricing_quote.discount_code)
+  }
+
+  return updated[0]
+}
+
+/**
+ * Mark an ad whose checkout was abandoned; Stripe expires unpaid sessions after 24 hours
+ */
+export async function expireAdCheckout(sessionId: string): Promise<Advertisement | null> {
+  const { data: expired, error } = await supabaseAdmin
+    .from('advertisements')
+    .update({
+      status: 'expired',
+      payment_status: 'expired',
+      updated_at: new Date().toISOString()
+    })
+    .eq('payment_intent_id', sessionId)
+    .eq('status', 'pending_payment')
+    .select()
+
+  if (error) {
+    throw error
+  }
+
+  return expired?.[0] || null
+}
+
+/**
+ * Pull a refunded or disputed ad out of review and rotation
+ */
+export async function reverseAdPayment(sessionId: string, reversal: PaymentReversal): Promise<Advertisement | null> {
+  const ad = await getAdForSession(sessionId)
+  if (!ad || ad.status === reversal) {
+    return ad
+  }
+
+  if (ad.display_order !== null) {
+    await AdScheduler.releaseQueueSlot(ad.id)
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('advertisements')
+    .update({
+      status: reversal,
+      payment_status: reversal,
+      paid: false,
+      display_order: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', ad.id)
+    .select()
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return updated
+}
+
+/**
+ * Add the runs an advertiser bought from the portal to their ad. Like confirmAdPayment, only
+ * the call that moves the purchase out of pending_payment adds them.
+ */
+export async function confirmAdRunPurchase(sessionId: string): Promise<{ purchase: AdRunPurchase, ad: Advertisement } | null> {
+  const { data: updated, error } = await supabaseAdmin
+    .from('ad_run_purchases')
+    .update({
+      status: 'paid',
+      paid_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_session_id', sessionId)
+    .eq('status', 'pending_payment')
+    .select()
+
+  if (error) {
+    throw error
+  }
+
+  let purchase: AdRunPurchase | null = updated?.[0] || null
+  if (purchase) {
+    await addAdRuns(purchase.advertisement_id, purchase.times)
+    if (purchase.pricing_quote?.discount_code) {
+      await redeemDiscountCode(purchase.pricing_quote.discount_code)
+    }
+  } else {
+    // Already confirmed by the other caller, or not a run purchase
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('ad_run_purchases')
+      .select('*')
+      .eq('stripe_session_id', sessionId)
+      .maybeSingle()
+
+    if (fetchError) {
+      throw fetchError
+    }
+    purchase = existing
+  }
+
+  if (!purchase) {
+    return null
+  }
+
+  const { data: ad, error: adError } = await supabaseAdmin
+    .from('advertisements')
+    .select('*')
+    .eq('id', purchase.advertisement_id)
+    .single()
+
+  if (adError) {
+    throw adError
+  }
+
+  return { purchase, ad }
+}
+
+/**
+ * Add paid runs to an ad. An ad that had been marked completed goes back to approved so it
+ * can be put back in the rotation.
+ */
+export async function addAdRuns(adId: string, runs: number): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('add_ad_runs', { p_ad_id: adId, p_runs: runs })
+  if (error) {
+    throw error
+  }
+
+  if (runs > 0) {
+    const { error: statusError } = await supabaseAdmin
+      .from('advertisements')
+      .update({ status: 'approved', updated_at: new Date().toISOString() })
+      .eq('id', adId)
+      .eq('status', 'completed')
+
+    if (statusError) {
+      throw statusError
+    }
+  }
+}
+
+export async function expireAdRunPurchase(sessionId: string): Promise<AdRunPurchase | null> {
+  const { data: expired, error } = await supabaseAdmin
+    .from('ad_run_purchases')
+    .update({ status: 'expired', updated_at: new Date().toISOString() })
+    .eq('stripe_session_id', sessionId)
+    .eq('status', 'pending_payment')
+    .select()
+
+  if (error) {
+    throw error
+  }
+
+  return expired?.[0] || null
+}
+
+/**
+ * Take back the runs from a refunded or disputed portal purchase. The ad itself stays up;
+ * it was paid for separately.
+ */
+export async function reverseAdRunPurchase(sessionId: string, reversal: PaymentReversal): Promise<AdRunPurchase | null> {
+  const { data: reversed, error } = await supabaseAdmin
+    .from('ad_run_purchases')
+    .update({ status: reversal, updated_at: new Date().toISOString() })
+    .eq('stripe_session_id', sessionId)
+    .eq('status', 'paid')
+    .select()
+
+  if (error) {
+    throw error
+  }
+
+  const purchase: AdRunPurchase | null = reversed?.[0] || null
+  if (purchase) {
+    await addAdRuns(purchase.advertisement_id, -purchase.times)
+  }
+
+  return purchase
+}
+
+/**
+ * Take events bought in a refunded or disputed checkout off the calendar
+ */
+export async function reverseEventPayment(sessionId: string, reversal: PaymentReversal): Promise<Event[]> {
+  const { data: events, error } = await supabaseAdmin
+    .from('events')
+    .update({
+      active: false,
+      payment_status: reversal,
+      updated_at: new Date().toISOString()
+    })
+    .eq('payment_intent_id', sessionId)
+    .select()
+
+  if (error) {
+    throw error
+  }
+
+  return events || []
+}
+
+/**
+ * Drop the events waiting on an abandoned checkout. Returns the submission so the caller can
+ * say whose it was.
+ */
+export async function expireEventCheckout(sessionId: string): Promise<PendingEventSubmission | null> {
+  const { data: deleted, error } = await supabaseAdmin
+    .from('pending_event_submissions')
+    .delete()
+    .eq('stripe_session_id', sessionId)
+    .eq('processed', false)
+    .select()
+
+  if (error) {
+    throw error
+  }
+
+  return deleted?.[0] || null
+}
@@ -1,5 +1,6 @@
 import { supabaseAdmin } from '@/lib/supabase'
-import { AI_PROMPTS, callOpenAI } from '@/lib/openai'
+import { AI_PROMPTS } from '@/lib/openai'
+import { callLLM } from '@/lib/llm'
 
 export interface SubjectLineResult {
   success: boolean
@@ -97,23 +98,9 @@ export async function generateSubjectLine(campaignId: string, userEmail?: string
     const variationPrompt = await AI_PROMPTS.subjectLineGenerator([topArticle]) +
       `\n\nGeneration timestamp: ${new Date().toISOString()} - Create a fresh, unique headline variation.`
 
-    const result = await callOpenAI(variationPrompt, 1000, 0.8)
-
-    // Handle both plain text and JSON responses
-    let subjectLine = ''
-    if (typeof result === 'string') {
-      subjectLine = result.trim()
-    } else if (result && typeof result === 'object') {
-      if (result.subject_line) {
-        subjectLine = result.subject_line.trim()
-      } else if (result.raw) {
-        subjectLine = result.raw.trim()
-      } else {
-        subjectLine = String(result).trim()
-      }
-    } else {
-      subjectLine = String(result).trim()
-    }
+    const result = await callLLM('subject_line', variationPrompt, { maxTokens: 1000, temperature: 0.8 })
+
+    let subjectLine = result.trim()
 
     if (!subjectLine) {
       return { success: false, error: 'Empty subject line response from AI' }
@@ -0,0 +1,35 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { signPreferencesToken, verifyPreferencesToken } from './subscriber-preferences'
+
+// Signing only; keep the database and section renderers (and their credentials) out of the test
+vi.mock('./supabase', () => ({ supabaseAdmin: {} }))
+vi.mock('./newsletter-sections', () => ({ getNewsletterSections: vi.fn(), resolveRendererKey: vi.fn() }))
+
+describe('preferences tokens', () => {
+  beforeAll(() => {
+    process.env.PREFERENCES_SECRET = 'test-secret'
+  })
+
+  it('accepts the token signed for the email, whatever its case or spacing', () => {
+    const token = signPreferencesToken('reader@example.com')
+    expect(verifyPreferencesToken('reader@example.com', token)).toBe(true)
+    expect(verifyPreferencesToken(' Reader@Example.com ', token)).toBe(true)
+  })
+
+  it('rejects a token signed for another email', () => {
+    expect(verifyPreferencesToken('someone-else@example.com', signPreferencesToken('reader@example.com'))).toBe(false)
+  })
+
+  it('rejects a missing or malformed token', () => {
+    expect(verifyPreferencesToken('reader@example.com', null)).toBe(false)
+    expect(verifyPreferencesToken('reader@example.com', '')).toBe(false)
+    expect(verifyPreferencesToken('reader@example.com', 'not-a-token')).toBe(false)
+  })
+
+  it('depends on the secret', () => {
+    const token = signPreferencesToken('reader@example.com')
+    process.env.PREFERENCES_SECRET = 'rotated-secret'
+    expect(verifyPreferencesToken('reader@example.com', token)).toBe(false)
+    process.env.PREFERENCES_SECRET = 'test-secret'
+  })
+})
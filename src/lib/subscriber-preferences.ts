@@ -0,0 +1,223 @@
+// Subscriber Section Preferences
+// Readers can hide a section, always get it, or only get it on weekend or weekday issues.
+// Subscribers with any rule leave the publication's main MailerLite group; the final send
+// gives them a personalized edition instead, one campaign per distinct set of sections.
+// The footer link carries a token signed for the subscriber's email, so only they can change them.
+
+import crypto from 'crypto'
+import { supabaseAdmin } from './supabase'
+import { getNewsletterSections, resolveRendererKey, type SectionVariant } from './newsletter-sections'
+import { getDayOfWeek } from './newsletter-calendar'
+import type { SectionRule, SubscriberPreference } from '@/types/database'
+
+export const SECTION_RULES: { rule: SectionRule, label: string }[] = [
+  { rule: 'always', label: 'Every issue' },
+  { rule: 'weekends', label: 'Weekend issues only' },
+  { rule: 'weekdays', label: 'Weekday issues only' },
+  { rule: 'hide', label: 'Never' }
+]
+
+// MailerLite custom field holding a readable summary, for building segments
+export const PREFERENCES_FIELD = 'section_preferences'
+
+// MailerLite custom field holding the subscriber's preferences token, for the footer link
+export const PREFERENCES_TOKEN_FIELD = 'preferences_token'
+
+export interface PreferenceSection {
+  key: string
+  name: string
+  is_active: boolean
+}
+
+export interface IssueVariant extends SectionVariant {
+  key: string
+  emails: string[]
+}
+
+export function isValidSectionRule(rule: unknown): rule is SectionRule {
+  return SECTION_RULES.some(option => option.rule === rule)
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+function getPreferencesSecret(): string {
+  const secret = process.env.PREFERENCES_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('PREFERENCES_SECRET or NEXTAUTH_SECRET must be set for section preferences')
+  }
+  return secret
+}
+
+/**
+ * The token that lets a subscriber open and save their own preferences
+ */
+export function signPreferencesToken(email: string): string {
+  return crypto.createHmac('sha256', getPreferencesSecret()).update(`preferences:${normalizeEmail(email)}`).digest('base64url')
+}
+
+export function verifyPreferencesToken(email: string, token: string | null | undefined): boolean {
+  if (!token) return false
+
+  const expected = signPreferencesToken(email)
+  return token.length === expected.length && crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected))
+}
+
+/**
+ * Sections a subscriber can set rules for: every section of the publication with a renderer
+ */
+export async function getPreferenceSections(publicationId: string): Promise<PreferenceSection[]> {
+  const sections = await getNewsletterSections(publicationId)
+  const result: PreferenceSection[] = []
+
+  for (const section of sections) {
+    const key = resolveRendererKey(section)
+    if (key && !result.some(existing => existing.key === key)) {
+      result.push({ key, name: section.name, is_active: section.is_active })
+    }
+  }
+
+  return result
+}
+
+export async function getSubscriberPreference(publicationId: string, email: string): Promise<SubscriberPreference | null> {
+  const { data, error } = await supabaseAdmin
+    .from('subscriber_preferences')
+    .select('*')
+    .eq('publication_id', publicationId)
+    .eq('email', normalizeEmail(email))
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Store a subscriber's rules. Clearing every rule deletes the row so the subscriber
+ * goes back to the standard edition. Returns null in that case.
+ */
+export async function saveSubscriberPreference(
+  publicationId: string,
+  email: string,
+  rules: Record<string, SectionRule>
+): Promise<SubscriberPreference | null> {
+  const normalizedEmail = normalizeEmail(email)
+
+  if (Object.keys(rules).length === 0) {
+    const { error } = await supabaseAdmin
+      .from('subscriber_preferences')
+      .delete()
+      .eq('publication_id', publicationId)
+      .eq('email', normalizedEmail)
+
+    if (error) {
+      throw error
+    }
+    return null
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('subscriber_preferences')
+    .upsert({
+      publication_id: publicationId,
+      email: normalizedEmail,
+      section_rules: rules,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'publication_id,email' })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * "Yesterday's Wordle: Never; Dining Deals: Weekend issues only"
+ */
+export function summarizeRules(rules: Record<string, SectionRule>, sections: PreferenceSection[]): string {
+  return Object.keys(rules)
+    .map(key => {
+      const name = sections.find(section => section.key === key)?.name || key
+      const label = SECTION_RULES.find(option => option.rule === rules[key])?.label || rules[key]
+      return `${name}: ${label}`
+    })
+    .join('; ')
+}
+
+/**
+ * What a subscriber's rules mean for one issue. Weekend/weekday rules follow the editors
+ * on matching days and hide the section on the others.
+ */
+export function resolveSectionRules(
+  rules: Record<string, SectionRule>,
+  issueDate: string,
+  sections: PreferenceSection[]
+): SectionVariant {
+  const dayOfWeek = getDayOfWeek(issueDate)
+  const isWeekend = dayOfWeek === 0 || dayOfWeek === 6
+  const hide: string[] = []
+  const force: string[] = []
+
+  for (const section of sections) {
+    const rule = rules[section.key]
+    const hidden = rule === 'hide'
+      || (rule === 'weekends' && !isWeekend)
+      || (rule === 'weekdays' && isWeekend)
+
+    // Only record rules that change the issue, so equivalent subscribers share a variant
+    if (hidden && section.is_active) {
+      hide.push(section.key)
+    } else if (rule === 'always' && !section.is_active) {
+      force.push(section.key)
+    }
+  }
+
+  return { hide: hide.sort(), force: force.sort() }
+}
+
+/**
+ * "standard", or e.g. "+road_work,-wordle"
+ */
+export function getVariantKey(variant: SectionVariant): string {
+  const parts = variant.force.map(key => `+${key}`).concat(variant.hide.map(key => `-${key}`))
+  return parts.length > 0 ? parts.join(',') : 'standard'
+}
+
+/**
+ * Group a publication's personalized subscribers by the edition they get for an issue
+ */
+export async function getIssueVariants(publicationId: string, issueDate: string): Promise<IssueVariant[]> {
+  const { data: preferences, error } = await supabaseAdmin
+    .from('subscriber_preferences')
+    .select('email, section_rules')
+    .eq('publication_id', publicationId)
+
+  if (error) {
+    throw error
+  }
+
+  if (!preferences || preferences.length === 0) {
+    return []
+  }
+
+  const sections = await getPreferenceSections(publicationId)
+  const variants: Record<string, IssueVariant> = {}
+
+  for (const preference of preferences) {
+    const variant = resolveSectionRules(preference.section_rules || {}, issueDate, sections)
+    const key = getVariantKey(variant)
+    if (!variants[key]) {
+      variants[key] = { key, ...variant, emails: [] }
+    }
+    variants[key].emails.push(preference.email)
+  }
+
+  return Object.keys(variants).sort().map(key => variants[key])
+}
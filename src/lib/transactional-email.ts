@@ -0,0 +1,172 @@
+// Transactional Email
+// Sends the templated emails in email-templates.ts to event submitters and advertisers and logs
+// every attempt in transactional_email_log against the event or ad it was about.
+// Pick the transport with EMAIL_TRANSPORT=smtp|capture; capture keeps messages in memory for tests.
+
+import nodemailer from 'nodemailer'
+import { supabaseAdmin } from './supabase'
+import { renderEmailTemplate, type EmailTemplateName, type EmailVariables } from './email-templates'
+
+export type EmailTransportKind = 'smtp' | 'capture'
+
+export interface OutgoingEmail {
+  from: string
+  to: string
+  subject: string
+  html: string
+}
+
+export interface EmailTransport {
+  readonly kind: EmailTransportKind
+  send(message: OutgoingEmail): Promise<{ messageId: string }>
+}
+
+export interface SendEmailOptions {
+  template: EmailTemplateName
+  to: string
+  variables: EmailVariables
+  eventId?: string | null
+  advertisementId?: string | null
+}
+
+export interface SendEmailResult {
+  success: boolean
+  messageId?: string
+  error?: string
+}
+
+/**
+ * Any SMTP server. Without SMTP_HOST it falls back to the Gmail account the site has always
+ * sent from (GMAIL_USER / GMAIL_APP_PASSWORD).
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly kind = 'smtp' as const
+  private transporter: nodemailer.Transporter
+
+  constructor() {
+    const user = process.env.SMTP_USER || process.env.GMAIL_USER
+    const pass = process.env.SMTP_PASSWORD || process.env.GMAIL_APP_PASSWORD
+
+    if (process.env.SMTP_HOST) {
+      const port = parseInt(process.env.SMTP_PORT || '587', 10)
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: user ? { user, pass } : undefined
+      })
+    } else {
+      this.transporter = nodemailer.createTransport({
+        service: 'gmail',
+        auth: { user, pass }
+      })
+    }
+  }
+
+  async send(message: OutgoingEmail) {
+    const info = await this.transporter.sendMail(message)
+    return { messageId: info.messageId }
+  }
+}
+
+/**
+ * Keeps sent messages in memory instead of delivering them
+ */
+export class CaptureEmailTransport implements EmailTransport {
+  readonly kind = 'capture' as const
+  readonly messages: OutgoingEmail[] = []
+
+  async send(message: OutgoingEmail) {
+    this.messages.push(message)
+    return { messageId: `capture-${this.messages.length}` }
+  }
+
+  clear() {
+    this.messages.length = 0
+  }
+}
+
+let emailTransport: EmailTransport | null = null
+
+export function getEmailTransport(): EmailTransport {
+  if (!emailTransport) {
+    const kind = (process.env.EMAIL_TRANSPORT || 'smtp') as EmailTransportKind
+    switch (kind) {
+      case 'smtp':
+        emailTransport = new SmtpEmailTransport()
+        break
+      case 'capture':
+        emailTransport = new CaptureEmailTransport()
+        break
+      default:
+        throw new Error(`Unknown EMAIL_TRANSPORT: ${kind}`)
+    }
+  }
+  return emailTransport
+}
+
+/**
+ * Swap the transport, e.g. for a CaptureEmailTransport in a test; null goes back to EMAIL_TRANSPORT
+ */
+export function setEmailTransport(transport: EmailTransport | null) {
+  emailTransport = transport
+}
+
+function getSender(): string {
+  const fromEmail = process.env.EMAIL_FROM_ADDRESS || process.env.GMAIL_FROM_EMAIL || process.env.SMTP_USER || process.env.GMAIL_USER || ''
+  const fromName = process.env.EMAIL_FROM_NAME || process.env.GMAIL_FROM_NAME || 'St. Cloud Scoop'
+  return `"${fromName}" <${fromEmail}>`
+}
+
+/**
+ * Render and send a template. Never throws; a failed send is logged and reported in the result
+ * so callers can decide whether it matters.
+ */
+export async function sendTransactionalEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+  let subject: string | null = null
+  let transport: EmailTransport | null = null
+  let result: SendEmailResult
+
+  try {
+    const rendered = renderEmailTemplate(options.template, options.variables)
+    subject = rendered.subject
+    transport = getEmailTransport()
+
+    const { messageId } = await transport.send({
+      from: getSender(),
+      to: options.to,
+      subject: rendered.subject,
+      html: rendered.html
+    })
+
+    console.log(`[Email] Sent ${options.template} to ${options.to}:`, messageId)
+    result = { success: true, messageId }
+  } catch (error) {
+    console.error(`[Email] Failed to send ${options.template} to ${options.to}:`, error)
+    result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+
+  await logEmail(options, subject, transport?.kind || null, result)
+  return result
+}
+
+async function logEmail(options: SendEmailOptions, subject: string | null, transport: EmailTransportKind | null, result: SendEmailResult) {
+  const { error } = await supabaseAdmin
+    .from('transactional_email_log')
+    .insert({
+      template: options.template,
+      recipient: options.to,
+      subject,
+      status: result.success ? 'sent' : 'failed',
+      error: result.error || null,
+      message_id: result.messageId || null,
+      transport,
+      event_id: options.eventId || null,
+      advertisement_id: options.advertisementId || null
+    })
+
+  if (error) {
+    // The log is for auditing; the email itself already went out (or didn't)
+    console.error('[Email] Failed to log email:', error.message)
+  }
+}
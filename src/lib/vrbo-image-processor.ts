@@ -1,5 +1,4 @@
-import { GitHubImageStorage } from './github-storage'
-import crypto from 'crypto'
+import { storeAsset } from './asset-storage'
 import sharp from 'sharp'
 
 interface ImageProcessingResult {
@@ -9,7 +8,7 @@ interface ImageProcessingResult {
 }
 
 /**
- * Process a VRBO listing image by downloading, resizing to 575x325, and uploading to GitHub
+ * Process a VRBO listing image by downloading, resizing to 575x325, and storing it
  * This creates properly sized images for newsletter use and hosts them reliably
  */
 export async function processVrboImage(
@@ -67,26 +66,12 @@ export async function processVrboImage(
 
     console.log(`Resized image, new size: ${resizedBuffer.length} bytes`)
 
-    // Generate filename with hash
-    const hash = crypto.createHash('sha1').update(originalImageUrl).digest('hex').slice(0, 16)
-    const filename = `vrbo-${hash}.jpg`
+    const stored = await storeAsset('vrbo_image', resizedBuffer, 'image/jpeg')
+    console.log(`VRBO image processed and stored for "${listingTitle}": ${stored.url}`)
 
-    // Upload to GitHub
-    const githubStorage = new GitHubImageStorage()
-    const githubUrl = await githubStorage.uploadBuffer(resizedBuffer, filename, `VRBO: ${listingTitle}`)
-
-    if (githubUrl) {
-      console.log(`VRBO image processed and uploaded to GitHub: ${githubUrl}`)
-      return {
-        success: true,
-        adjusted_image_url: githubUrl
-      }
-    } else {
-      console.error('VRBO image upload failed')
-      return {
-        success: false,
-        error: 'Failed to upload processed image to GitHub'
-      }
+    return {
+      success: true,
+      adjusted_image_url: stored.url
     }
 
   } catch (error) {
@@ -0,0 +1,202 @@
+// Weather Alerts
+// Ingests the NWS active-alerts feed for each publication's county and forecast zones, and renders
+// the severe-weather banner that goes above every other section while a watch or warning is in effect.
+
+import { supabaseAdmin } from './supabase'
+import { fetchNwsPoint, NWS_HEADERS } from './weather'
+import type { Publication, WeatherAlert, WeatherAlertSeverity } from '@/types/database'
+
+const SEVERITIES: WeatherAlertSeverity[] = ['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown']
+
+export interface WeatherAlertSyncResult {
+  publication: string
+  zones: string[]
+  active: number
+  deactivated: number
+}
+
+/**
+ * County zone (e.g. MNC145) plus the forecast zone (e.g. MNZ049). Storm-based alerts are
+ * issued by county, but winter storm, wind chill and heat alerts are issued by forecast zone.
+ */
+async function getAlertZones(publication: Publication): Promise<string[]> {
+  const point = await fetchNwsPoint(publication)
+  const zones = [point.county, point.forecastZone]
+    .filter((url): url is string => typeof url === 'string')
+    .map(url => url.split('/').pop() as string)
+
+  if (zones.length === 0) {
+    throw new Error(`No NWS zones for ${publication.latitude},${publication.longitude}`)
+  }
+  return zones
+}
+
+/**
+ * Alerts currently in effect for the given zones (tests and cancellations excluded)
+ */
+async function fetchActiveAlerts(zones: string[]): Promise<any[]> {
+  const response = await fetch(`https://api.weather.gov/alerts/active?zone=${zones.join(',')}`, {
+    headers: { ...NWS_HEADERS, 'Accept': 'application/geo+json' }
+  })
+
+  if (!response.ok) {
+    throw new Error(`Alerts API failed: ${response.status}`)
+  }
+
+  const data = await response.json()
+  return (data.features || [])
+    .map((feature: any) => feature.properties)
+    .filter((alert: any) => alert.status === 'Actual' && alert.messageType !== 'Cancel')
+}
+
+/**
+ * Store a publication's active alerts and deactivate any that dropped out of the feed
+ * (expired, cancelled or superseded by an update)
+ */
+export async function syncWeatherAlerts(publication: Publication): Promise<WeatherAlertSyncResult> {
+  const zones = await getAlertZones(publication)
+  const alerts = await fetchActiveAlerts(zones)
+  const now = new Date().toISOString()
+
+  if (alerts.length > 0) {
+    const rows = alerts.map(alert => ({
+      publication_id: publication.id,
+      nws_id: alert.id,
+      event: alert.event,
+      headline: alert.headline || null,
+      severity: SEVERITIES.includes(alert.severity) ? alert.severity : 'Unknown',
+      urgency: alert.urgency || null,
+      certainty: alert.certainty || null,
+      area_desc: alert.areaDesc || null,
+      description: alert.description || null,
+      instruction: alert.instruction || null,
+      onset: alert.onset || alert.effective || null,
+      ends: alert.ends || null,
+      expires: alert.expires,
+      is_active: true,
+      last_seen_at: now,
+      updated_at: now
+    }))
+
+    const { error } = await supabaseAdmin
+      .from('weather_alerts')
+      .upsert(rows, { onConflict: 'publication_id,nws_id' })
+
+    if (error) {
+      throw new Error(`Failed to store weather alerts: ${error.message}`)
+    }
+  }
+
+  let deactivateQuery = supabaseAdmin
+    .from('weather_alerts')
+    .update({ is_active: false, updated_at: now })
+    .eq('publication_id', publication.id)
+    .eq('is_active', true)
+
+  if (alerts.length > 0) {
+    const ids = alerts.map(alert => `"${alert.id}"`).join(',')
+    deactivateQuery = deactivateQuery.not('nws_id', 'in', `(${ids})`)
+  }
+
+  const { data: deactivated, error: deactivateError } = await deactivateQuery.select('id')
+
+  if (deactivateError) {
+    throw new Error(`Failed to deactivate weather alerts: ${deactivateError.message}`)
+  }
+
+  console.log(`[Weather Alerts] ${publication.slug}: ${alerts.length} active alert(s) for ${zones.join(', ')}, ${deactivated?.length || 0} deactivated`)
+
+  return { publication: publication.slug, zones, active: alerts.length, deactivated: deactivated?.length || 0 }
+}
+
+/**
+ * True for the alert types that get the top-of-newsletter banner (advisories and statements don't)
+ */
+export function isBannerAlert(alert: Pick<WeatherAlert, 'event'>): boolean {
+  return /\b(watch|warning)$/i.test(alert.event.trim())
+}
+
+/**
+ * A publication's watches and warnings in effect right now, warnings and the most severe first
+ */
+export async function getBannerAlerts(publicationId: string): Promise<WeatherAlert[]> {
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabaseAdmin
+    .from('weather_alerts')
+    .select('*')
+    .eq('publication_id', publicationId)
+    .eq('is_active', true)
+    .gt('expires', now)
+    .or(`ends.is.null,ends.gt.${now}`)
+
+  if (error) {
+    throw new Error(`Failed to fetch weather alerts: ${error.message}`)
+  }
+
+  return ((data || []) as WeatherAlert[])
+    .filter(isBannerAlert)
+    .sort((a, b) =>
+      Number(/warning$/i.test(b.event)) - Number(/warning$/i.test(a.event)) ||
+      SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity)
+    )
+}
+
+const alertEndFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/Chicago',
+  weekday: 'long',
+  hour: 'numeric',
+  minute: '2-digit'
+})
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Severe-weather banner for the top of the newsletter; empty when no watch or warning is in effect
+ */
+export async function generateWeatherAlertBanner(publication: Publication): Promise<string> {
+  let alerts: WeatherAlert[]
+  try {
+    alerts = await getBannerAlerts(publication.id)
+  } catch (error) {
+    // A missing banner should never hold up the newsletter
+    console.error('[Weather Alerts] Could not load alerts for banner:', error)
+    return ''
+  }
+
+  if (alerts.length === 0) return ''
+
+  const hasWarning = alerts.some(alert => /warning$/i.test(alert.event))
+  const colors = hasWarning
+    ? { background: '#FEE2E2', border: '#DC2626', text: '#991B1B' }
+    : { background: '#FFEDD5', border: '#EA580C', text: '#9A3412' }
+
+  const rows = alerts.map(alert => {
+    const until = alert.ends || alert.expires
+    const summary = alert.headline || `${alert.event} until ${alertEndFormatter.format(new Date(until))}`
+    return `
+  <tr>
+    <td style='padding:6px 12px; text-align:left;'>
+      <div style='font-size:17px; font-weight:bold; color:${colors.text};'>⚠️ ${escapeHtml(alert.event)}</div>
+      <div style='font-size:14px; line-height:20px; color:#333;'>${escapeHtml(summary)}</div>
+    </td>
+  </tr>`
+  }).join('')
+
+  return `
+<table width='100%' cellpadding='0' cellspacing='0' border='0' style='width:100%; max-width:990px; margin:10px auto; border:2px solid ${colors.border}; border-radius:10px; background-color:${colors.background}; font-family:Arial, sans-serif;'>${rows}
+  <tr>
+    <td style='padding:4px 12px 10px; text-align:left; font-size:13px;'>
+      <a href='https://forecast.weather.gov/MapClick.php?lat=${publication.latitude}&lon=${publication.longitude}' style='color:${colors.text}; text-decoration:underline;'>Full details from the National Weather Service</a>
+    </td>
+  </tr>
+</table>
+<br>`
+}
@@ -0,0 +1,47 @@
+import fs from 'fs'
+import path from 'path'
+import { describe, expect, it, vi } from 'vitest'
+import { renderWeatherCardPng, renderWeatherCardSvg } from './weather-image'
+import type { WeatherDay } from './weather'
+
+// Rendering only; keep the storage client (and its Supabase credentials) out of the test
+vi.mock('./asset-storage', () => ({ storeAsset: vi.fn() }))
+
+// Written on the first run outside CI; delete it to accept an intended change to the card
+const SNAPSHOT_PATH = path.join(__dirname, '__snapshots__', 'weather-card.png')
+
+const FORECAST: WeatherDay[] = [
+  { day: 'Monday', dateLabel: 'Jan 12', icon: '13d', precipitation: 70, high: 18, low: 2, condition: 'Snow', windChill: -14, windSpeed: 20, windDirection: 'NW', snowfall: 3.5 },
+  { day: 'Tuesday', dateLabel: 'Jan 13', icon: '02d', precipitation: 10, high: 24, low: 9, condition: 'Partly Cloudy', windSpeed: 18, windDirection: 'W' },
+  { day: 'Wednesday', dateLabel: 'Jan 14', icon: '01d', precipitation: 0, high: 31, low: 15, condition: 'Sunny' }
+]
+
+describe('renderWeatherCardSvg', () => {
+  it('draws text as glyph outlines rather than relying on installed fonts', () => {
+    const svg = renderWeatherCardSvg(FORECAST)
+    expect(svg).not.toContain('<text')
+    expect(svg).not.toContain('font-family')
+  })
+})
+
+describe('renderWeatherCardPng', () => {
+  it('renders the same bytes for the same forecast', async () => {
+    const first = await renderWeatherCardPng(FORECAST)
+    const second = await renderWeatherCardPng(FORECAST)
+    expect(first.equals(second)).toBe(true)
+  })
+
+  it('matches the committed PNG snapshot', async () => {
+    const png = await renderWeatherCardPng(FORECAST)
+
+    if (!fs.existsSync(SNAPSHOT_PATH)) {
+      if (process.env.CI) {
+        throw new Error(`Missing snapshot ${SNAPSHOT_PATH}; run the test outside CI to write it`)
+      }
+      fs.mkdirSync(path.dirname(SNAPSHOT_PATH), { recursive: true })
+      fs.writeFileSync(SNAPSHOT_PATH, png)
+    }
+
+    expect(png.equals(fs.readFileSync(SNAPSHOT_PATH))).toBe(true)
+  })
+})
@@ -1,80 +1,72 @@
-// Weather image generation using HTML/CSS to Image API with GitHub hosting
-
-import { GitHubImageStorage } from './github-storage'
-
-interface ImageGenerationResponse {
-  url: string
+// Weather image rendering
+// Draws the three-day weather card as SVG and rasterizes it with sharp, so the weather
+// section doesn't depend on a third-party rendering service. The same data always
+// produces the same PNG bytes (no timestamps, no remote images). Text is drawn as glyph
+// outlines from the bundled Montserrat Bold in ./fonts, so it doesn't depend on the
+// fonts installed on the host either.
+
+import fs from 'fs'
+import path from 'path'
+import opentype from 'opentype.js'
+import sharp from 'sharp'
+import { storeAsset } from './asset-storage'
+import type { WeatherDay } from './weather'
+
+const CARD_WIDTH = 650
+const CARD_HEIGHT = 400
+// Rendered at 2x for sharp text on high-DPI screens
+const SCALE = 2
+
+// Included in the serverless bundle by outputFileTracingIncludes in next.config.js
+const FONT_PATH = path.join(process.cwd(), 'src', 'lib', 'fonts', 'montserrat-latin-700-normal.woff')
+
+let font: opentype.Font | null = null
+
+function getFont(): opentype.Font {
+  if (!font) {
+    const data = fs.readFileSync(FONT_PATH)
+    font = opentype.parse(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength))
+  }
+  return font
 }
 
 /**
- * Generate weather image from HTML using HTML/CSS to Image API
- * Downloads the generated image and uploads to GitHub for our own hosting
- * Uses the format specified in WeatherScript.txt
+ * Text centered on cx with its baseline at y, as an SVG path
  */
-export async function generateWeatherImage(weatherData: any[]): Promise<string | null> {
-  const apiKey = process.env.HTML_CSS_TO_IMAGE_API_KEY
-  const userId = process.env.HTML_CSS_TO_IMAGE_USER_ID
-
-  if (!apiKey || !userId) {
-    console.log('HTML_CSS_TO_IMAGE_API_KEY or HTML_CSS_TO_IMAGE_USER_ID not set, skipping image generation')
-    console.log('API Key present:', !!apiKey, 'User ID present:', !!userId)
-    return null
+function textPath(value: string, cx: number, y: number, size: number, fill: string, letterSpacing: number = 0): string {
+  const glyphFont = getFont()
+  const chars = value.split('')
+  const width = letterSpacing === 0
+    ? glyphFont.getAdvanceWidth(value, size)
+    : chars.reduce((sum, char) => sum + glyphFont.getAdvanceWidth(char, size), 0) + letterSpacing * (chars.length - 1)
+
+  let x = cx - width / 2
+  let d: string
+  if (letterSpacing === 0) {
+    d = glyphFont.getPath(value, x, y, size).toPathData(2)
+  } else {
+    d = chars.map(char => {
+      const glyph = glyphFont.getPath(char, x, y, size).toPathData(2)
+      x += glyphFont.getAdvanceWidth(char, size) + letterSpacing
+      return glyph
+    }).join('')
   }
 
-  console.log('API key found, length:', apiKey.length)
-  console.log('User ID found, length:', userId.length)
+  return `<path d="${d}" fill="${fill}"/>`
+}
 
+/**
+ * Render the weather card and store it. Returns null only if storage fails,
+ * in which case the newsletter falls back to the HTML weather table.
+ */
+export async function generateWeatherImage(weatherData: WeatherDay[]): Promise<string | null> {
   try {
-    // Generate weather cards HTML using WeatherScript.txt format
-    const imageHtml = createWeatherWidgetHTML(weatherData)
-    console.log('Generated weather widget HTML, length:', imageHtml.length)
-    console.log('First 200 chars of HTML:', imageHtml.substring(0, 200))
-
-    console.log('Generating weather image via HTML/CSS to Image API...')
-
-    const response = await fetch('https://hcti.io/v1/image', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${Buffer.from(`${userId}:${apiKey}`).toString('base64')}`
-      },
-      body: JSON.stringify({
-        html: imageHtml,
-        css: '',
-        width: 650,
-        height: 400,
-        device_scale_factor: 2,
-        format: 'png'
-      })
-    })
-
-    console.log('Image API response status:', response.status)
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Image API error response:', errorText)
-      throw new Error(`Image API failed: ${response.status} - ${errorText}`)
-    }
-
-    const result: ImageGenerationResponse = await response.json()
-    console.log('Weather image generated at external URL:', result.url)
-
-    // Now download the image and upload to GitHub for our own hosting
-    console.log('Downloading weather image and uploading to GitHub...')
-
-    const githubStorage = new GitHubImageStorage()
-    const forecastDate = new Date().toISOString().split('T')[0]
-    const weatherTitle = `Weather forecast for ${forecastDate}`
-
-    const githubImageUrl = await githubStorage.uploadWeatherImage(result.url, forecastDate)
-
-    if (githubImageUrl) {
-      console.log('Weather image successfully hosted on GitHub:', githubImageUrl)
-      return githubImageUrl
-    } else {
-      console.log('GitHub upload failed, falling back to external URL:', result.url)
-      return result.url
-    }
+    const png = await renderWeatherCardPng(weatherData)
+    console.log('Rendered weather card, size:', png.length, 'bytes')
+
+    const stored = await storeAsset('weather_image', png, 'image/png')
+    console.log('Weather image successfully stored:', stored.url)
+    return stored.url
 
   } catch (error) {
     console.error('Weather image generation failed:', error)
@@ -83,118 +75,82 @@ export async function generateWeatherImage(weatherData: any[]): Promise<string |
 }
 
 /**
- * Create weather widget HTML in the format specified by WeatherScript.txt
+ * Rasterize the weather card to PNG
  */
-function createWeatherWidgetHTML(weatherData: any[]): string {
-  const CONFIG = {
-    HEADER_IMAGE_URL: 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/WeatherBanner2.png',
-    BACKGROUND_IMAGE_URL: 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Reflective%20Roadway%20Under%20Blue%20Sky%202.png'
-  }
+export async function renderWeatherCardPng(weatherData: WeatherDay[]): Promise<Buffer> {
+  const svg = renderWeatherCardSvg(weatherData)
+  return sharp(Buffer.from(svg), { density: 72 * SCALE })
+    .png({ compressionLevel: 9 })
+    .toBuffer()
+}
+
+/**
+ * Weather card as an SVG document: header, then one card per day with icon,
+ * chance of precipitation (and snowfall), wind chill or wind, high and low
+ */
+export function renderWeatherCardSvg(weatherData: WeatherDay[]): string {
+  const days = weatherData.slice(0, 3)
+  const cardWidth = 190
+  const gap = 15
+  const left = (CARD_WIDTH - (days.length * cardWidth + (days.length - 1) * gap)) / 2
+
+  const cards = days.map((day, index) => renderDayCard(day, left + index * (cardWidth + gap), 70, cardWidth, 315)).join('')
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}">
+  <defs>
+    <linearGradient id="sky" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0%" stop-color="#0B4DA8"/>
+      <stop offset="100%" stop-color="#6FB1F7"/>
+    </linearGradient>
+    <linearGradient id="card" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0%" stop-color="#023D8E"/>
+      <stop offset="100%" stop-color="#1877F2"/>
+    </linearGradient>
+    <linearGradient id="label" x1="0" y1="0" x2="1" y2="0">
+      <stop offset="0%" stop-color="#BABABA"/>
+      <stop offset="25%" stop-color="#FEFEFE"/>
+      <stop offset="75%" stop-color="#FEFEFE"/>
+      <stop offset="100%" stop-color="#BABABA"/>
+    </linearGradient>
+  </defs>
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#sky)"/>
+  ${textPath('3-DAY FORECAST', CARD_WIDTH / 2, 46, 30, '#FFFFFF', 2)}
+  ${cards}
+</svg>`
+}
 
-  let cards = ''
-
-  weatherData.forEach((day) => {
-    const iconUrl = getWeatherIconUrl(mapConditionToIcon(day.condition || day.icon))
-
-    cards += `
-          <td class="weather-card" align="center" valign="top" style="width: 33.33%; padding: 10px;">
-            <table width="100%" cellpadding="0" cellspacing="0" border="0" style="background: linear-gradient(#023D8E 0%, #1877F2 100%); box-shadow: 0 4px 12px rgba(0,0,0,0.15); border: 2px solid rgba(255,255,255,0.3);">
-              <tr>
-                <td align="center" style="padding: 0;">
-
-                  <!-- Day Label -->
-                  <div style="background: linear-gradient(90deg, #BABABA 0%, #FEFEFE 25%, #FEFEFE 75%, #BABABA 100%); color: #023D8E; font-size: 24px; font-weight: bold; margin-bottom: 5px; font-family: 'Montserrat', 'Arial Black', 'Trebuchet MS', Arial, sans-serif; text-transform: uppercase; padding: 8px 0;">
-                    ${day.day}
-                  </div>
-
-                  <!-- Calendar Date -->
-                  <div style="color: white; font-size: 16px; font-weight: bold; margin-bottom: 0; font-family: 'Montserrat', 'Arial Black', 'Trebuchet MS', Arial, sans-serif;">
-                    ${day.dateLabel}
-                  </div>
-
-                  <!-- Weather Icon -->
-                  <div style="margin-bottom: -5px;">
-                    <img src="${iconUrl}" alt="Weather" style="width: 150px; height: 150px; display: block; margin: 0 auto;" />
-                  </div>
-
-                  <!-- Precipitation -->
-                  <div style="color: white; font-size: 16px; font-weight: bold; margin-bottom: 0; font-family: 'Montserrat', 'Arial Black', 'Trebuchet MS', Arial, sans-serif;">
-                    ${day.precipitation > 0 ? day.precipitation + '%' : '0%'}
-                  </div>
-
-                  <!-- High Temperature -->
-                  <div style="color: white; font-size: 72px; font-weight: bold; margin-bottom: 0; font-family: 'Montserrat', 'Arial Black', 'Trebuchet MS', Arial, sans-serif; line-height: 1;">
-                    ${day.high}
-                  </div>
-
-                  <!-- Low Temperature -->
-                  <div style="color: white; font-size: 22px; font-weight: bold; font-family: 'Montserrat', 'Arial Black', 'Trebuchet MS', Arial, sans-serif;">
-                    ${day.low}
-                  </div>
-
-                </td>
-              </tr>
-            </table>
-          </td>`
-  })
+function renderDayCard(day: WeatherDay, x: number, y: number, width: number, height: number): string {
+  const cx = x + width / 2
+  const text = (value: string | number, textY: number, size: number, fill: string = '#FFFFFF') =>
+    textPath(String(value), cx, textY, size, fill)
+  const snow = day.snowfall && day.snowfall >= 0.1 ? ` · ${day.snowfall}" SNOW` : ''
+  const detail = getCardDetail(day)
 
   return `
-<!-- Weather Widget v2.0 - Generated at ${new Date().toISOString()} -->
-<!--[if mso]>
-<table width="100%" cellpadding="0" cellspacing="0" border="0">
-  <tr>
-    <td>
-<![endif]-->
-
-<table width="100%" cellpadding="0" cellspacing="0" border="0" style="max-width: 650px; margin: 0 auto; background-image: url('${CONFIG.BACKGROUND_IMAGE_URL}'); background-size: cover; background-position: center; box-shadow: 0 10px 30px rgba(0,0,0,0.2); font-family: Arial, sans-serif; overflow: hidden;">
-  <tr>
-    <td align="center" style="padding: 0;">
-
-      <!-- Header Image -->
-      <table width="100%" cellpadding="0" cellspacing="0" border="0">
-        <tr>
-          <td align="center" style="padding: 0;">
-            <img src="${CONFIG.HEADER_IMAGE_URL}" alt="Weather Forecast" style="width: 90%; max-width: 650px; height: auto; display: block;" />
-          </td>
-        </tr>
-      </table>
-
-      <!-- Weather Cards Container -->
-      <table width="100%" cellpadding="0" cellspacing="0" border="0" style="padding: 10px 20px;">
-        <tr>
-          ${cards}
-        </tr>
-      </table>
-
-    </td>
-  </tr>
-</table>
-
-<style>
-  @media only screen and (max-width: 600px) {
-    .weather-card {
-      display: block !important;
-      width: 100% !important;
-      margin-bottom: 15px !important;
-      padding: 10px !important;
-    }
-
-    .weather-card table {
-      width: 90% !important;
-      margin: 0 auto !important;
-    }
-
-    .weather-card td {
-      padding: 15px 10px !important;
-    }
-  }
-</style>
+  <g>
+    <rect x="${x}" y="${y}" width="${width}" height="${height}" rx="6" fill="url(#card)" stroke="#FFFFFF" stroke-opacity="0.3" stroke-width="2"/>
+    <rect x="${x + 1}" y="${y + 1}" width="${width - 2}" height="38" fill="url(#label)"/>
+    ${text(day.day.toUpperCase(), y + 29, 22, '#023D8E')}
+    ${text(day.dateLabel, y + 62, 16)}
+    ${renderIcon(mapConditionToIcon(day.condition || day.icon), cx, y + 118)}
+    ${text(`${day.precipitation > 0 ? day.precipitation : 0}%${snow}`, y + 184, 16)}
+    ${detail ? text(detail, y + 204, 13, '#D6E8FF') : ''}
+    ${text(`${day.high}°`, y + 262, 64)}
+    ${text(`${day.low}°`, y + 296, 22)}
+  </g>`
+}
 
-<!--[if mso]>
-    </td>
-  </tr>
-</table>
-<![endif]-->`
+/**
+ * One short line under the precipitation chance: wind chill when it bites, otherwise strong wind
+ */
+function getCardDetail(day: WeatherDay): string | null {
+  if (day.windChill !== undefined && day.windChill !== null && day.windChill <= day.low - 5) {
+    return `WIND CHILL ${day.windChill}°`
+  }
+  if (day.windSpeed && day.windSpeed >= 15) {
+    return `WIND ${day.windDirection ? `${day.windDirection} ` : ''}${day.windSpeed} MPH`
+  }
+  return null
 }
 
 /**
@@ -221,24 +177,76 @@ function mapConditionToIcon(condition: string): string {
   return '02d' // Default partly cloudy
 }
 
-/**
- * Get weather icon URL from GitHub repository
- */
-function getWeatherIconUrl(iconCode: string): string {
-  const iconMap: { [key: string]: string } = {
-    '01d': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Sun.png',
-    '02d': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Cloudy_day.png',
-    '03d': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Cloudy_day.png',
-    '04d': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Mostly_Cloudy.png',
-    '09d': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Drizzle.png',
-    '10d': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Heavy_Rain.png',
-    '11d': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Thunderstorms.png',
-    '13d': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Snow.png',
-    '50d': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/main/Fog.png',
-    'hail': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/refs/heads/main/Clip_hail_rain.png',
-    'blizzard': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/refs/heads/main/Blizzard.png',
-    'sleet': 'https://raw.githubusercontent.com/VFDavid/weatherwidget/refs/heads/main/Sleet.png'
-  }
+// Icon shapes, drawn around (cx, cy) in a roughly 100x90 box
+
+const sun = (cx: number, cy: number, r: number) => {
+  const rays = Array.from({ length: 8 }, (_, i) => {
+    const angle = (i * Math.PI) / 4
+    const x1 = cx + Math.cos(angle) * (r + 6)
+    const y1 = cy + Math.sin(angle) * (r + 6)
+    const x2 = cx + Math.cos(angle) * (r + 16)
+    const y2 = cy + Math.sin(angle) * (r + 16)
+    return `<line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${x2.toFixed(1)}" y2="${y2.toFixed(1)}"/>`
+  }).join('')
+  return `<g stroke="#FFC83D" stroke-width="5" stroke-linecap="round">${rays}</g><circle cx="${cx}" cy="${cy}" r="${r}" fill="#FFC83D"/>`
+}
+
+const cloud = (cx: number, cy: number, fill: string) => `
+    <g fill="${fill}">
+      <circle cx="${cx - 20}" cy="${cy}" r="17"/>
+      <circle cx="${cx + 2}" cy="${cy - 12}" r="23"/>
+      <circle cx="${cx + 24}" cy="${cy + 2}" r="15"/>
+      <rect x="${cx - 37}" y="${cy}" width="76" height="17" rx="8"/>
+    </g>`
+
+const streaks = (cx: number, cy: number, count: number, length: number, color: string) => {
+  const lines = Array.from({ length: count }, (_, i) => {
+    const x = cx - ((count - 1) * 13) / 2 + i * 13
+    return `<line x1="${x}" y1="${cy}" x2="${x - 5}" y2="${cy + length}"/>`
+  }).join('')
+  return `<g stroke="${color}" stroke-width="4" stroke-linecap="round">${lines}</g>`
+}
 
-  return iconMap[iconCode] || iconMap['01d']
-}
\ No newline at end of file
+const dots = (cx: number, cy: number, count: number, r: number, color: string) => {
+  const circles = Array.from({ length: count }, (_, i) => {
+    const x = cx - ((count - 1) * 14) / 2 + i * 14
+    const dy = i % 2 === 0 ? 0 : 12
+    return `<circle cx="${x}" cy="${cy + dy}" r="${r}"/>`
+  }).join('')
+  return `<g fill="${color}">${circles}</g>`
+}
+
+function renderIcon(code: string, cx: number, cy: number): string {
+  switch (code) {
+    case '01d':
+      return sun(cx, cy, 24)
+    case '02d':
+      return sun(cx - 14, cy - 14, 18) + cloud(cx + 8, cy + 8, '#F2F5F9')
+    case '03d':
+      return sun(cx - 18, cy - 18, 14) + cloud(cx + 4, cy + 4, '#D9DFE7')
+    case '04d':
+      return cloud(cx - 12, cy - 10, '#B7C0CC') + cloud(cx + 8, cy + 8, '#E4E8EE')
+    case '09d':
+      return cloud(cx, cy - 8, '#E4E8EE') + streaks(cx, cy + 20, 3, 12, '#9FD3FF')
+    case '10d':
+      return cloud(cx, cy - 10, '#C9D1DB') + streaks(cx, cy + 18, 5, 20, '#9FD3FF')
+    case '11d':
+      return cloud(cx, cy - 10, '#8E99A8') +
+        `<polygon points="${cx + 2},${cy + 10} ${cx - 12},${cy + 32} ${cx - 1},${cy + 32} ${cx - 8},${cy + 48} ${cx + 12},${cy + 24} ${cx + 1},${cy + 24}" fill="#FFC83D"/>`
+    case '13d':
+      return cloud(cx, cy - 10, '#E4E8EE') + dots(cx, cy + 22, 5, 4, '#FFFFFF')
+    case 'blizzard':
+      return cloud(cx, cy - 14, '#C9D1DB') + dots(cx, cy + 16, 6, 4, '#FFFFFF') +
+        `<g stroke="#FFFFFF" stroke-width="3" stroke-linecap="round" stroke-opacity="0.8"><line x1="${cx - 40}" y1="${cy + 40}" x2="${cx + 10}" y2="${cy + 40}"/><line x1="${cx - 20}" y1="${cy + 48}" x2="${cx + 40}" y2="${cy + 48}"/></g>`
+    case 'sleet':
+      return cloud(cx, cy - 10, '#C9D1DB') + streaks(cx - 13, cy + 18, 2, 16, '#9FD3FF') + dots(cx + 20, cy + 22, 2, 4, '#FFFFFF')
+    case 'hail':
+      return cloud(cx, cy - 10, '#B7C0CC') + dots(cx, cy + 22, 4, 6, '#FFFFFF')
+    case '50d':
+      return `<g stroke="#E4E8EE" stroke-width="6" stroke-linecap="round">${[-24, -8, 8, 24].map((dy, i) =>
+        `<line x1="${cx - 40 + (i % 2) * 10}" y1="${cy + dy}" x2="${cx + 40 - ((i + 1) % 2) * 10}" y2="${cy + dy}"/>`
+      ).join('')}</g>`
+    default:
+      return sun(cx, cy, 24)
+  }
+}
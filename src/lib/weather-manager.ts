@@ -3,25 +3,25 @@
 import { supabaseAdmin } from './supabase'
 import { fetchWeatherData, generateWeatherHTML, generateNewsletterWeatherHTML } from './weather'
 import { generateWeatherImage } from './weather-image'
-import type { WeatherForecast } from '@/types/database'
+import { getCampaignPublication, getPublicationLocation } from './publications'
+import { addDays, getCentralDate } from './newsletter-calendar'
+import type { Publication, WeatherForecast } from '@/types/database'
 
 /**
- * Generate and store daily weather forecast
+ * Generate and store a publication's daily weather forecast
  * Called by cron job at 8pm daily
  */
-export async function generateDailyWeatherForecast(): Promise<WeatherForecast> {
-  console.log('Starting daily weather forecast generation...')
+export async function generateDailyWeatherForecast(publication: Publication): Promise<WeatherForecast> {
+  console.log(`Starting daily weather forecast generation for ${publication.name}...`)
 
   try {
     // Calculate forecast date (tomorrow in Central Time)
-    const now = new Date()
-    const tomorrow = new Date(now.getTime() + (24 * 60 * 60 * 1000))
-    const forecastDate = tomorrow.toISOString().split('T')[0] // YYYY-MM-DD format
+    const forecastDate = addDays(getCentralDate(), 1)
 
     console.log('Generating weather forecast for date:', forecastDate, '- will overwrite any existing forecast')
 
     // Fetch weather data from NWS
-    const weatherData = await fetchWeatherData()
+    const weatherData = await fetchWeatherData(publication)
     console.log('Weather data fetched successfully')
 
     // Generate HTML content
@@ -36,7 +36,7 @@ export async function generateDailyWeatherForecast(): Promise<WeatherForecast> {
       if (imageUrl) {
         console.log('✅ Weather image generated successfully:', imageUrl)
       } else {
-        console.log('⚠️ Weather image generation returned null (check API keys)')
+        console.log('⚠️ Weather image could not be stored, newsletter will use the HTML forecast')
       }
     } catch (error) {
       console.error('❌ Weather image generation failed:', error)
@@ -45,6 +45,7 @@ export async function generateDailyWeatherForecast(): Promise<WeatherForecast> {
 
     // Prepare forecast data
     const forecastData: Omit<WeatherForecast, 'id' | 'created_at' | 'updated_at'> = {
+      publication_id: publication.id,
       forecast_date: forecastDate,
       generated_at: new Date().toISOString(),
       weather_data: weatherData,
@@ -58,7 +59,7 @@ export async function generateDailyWeatherForecast(): Promise<WeatherForecast> {
     const { data, error } = await supabase
       .from('weather_forecasts')
       .upsert(forecastData, {
-        onConflict: 'forecast_date',
+        onConflict: 'publication_id,forecast_date',
         ignoreDuplicates: false  // Always overwrite existing records
       })
       .select()
@@ -87,7 +88,7 @@ export async function getWeatherForCampaign(campaignId: string): Promise<string
     const supabase = supabaseAdmin
     const { data: campaign, error: campaignError } = await supabase
       .from('newsletter_campaigns')
-      .select('date')
+      .select('date, publication_id')
       .eq('id', campaignId)
       .single()
 
@@ -96,6 +97,8 @@ export async function getWeatherForCampaign(campaignId: string): Promise<string
       return null
     }
 
+    const publication = await getCampaignPublication(campaign)
+
     console.log('Looking for weather forecast for newsletter date:', campaign.date)
 
     // Get weather forecast that matches the newsletter date
@@ -103,6 +106,7 @@ export async function getWeatherForCampaign(campaignId: string): Promise<string
       .from('weather_forecasts')
       .select('*')
       .eq('forecast_date', campaign.date)
+      .eq('publication_id', publication.id)
       .eq('is_active', true)
       .order('generated_at', { ascending: false })
       .limit(1)
@@ -115,7 +119,7 @@ export async function getWeatherForCampaign(campaignId: string): Promise<string
 
     console.log('Found weather forecast for date:', data.forecast_date, 'with image:', !!data.image_url)
 
-    // Use GitHub-hosted image if available, otherwise fall back to HTML
+    // Use hosted image if available, otherwise fall back to HTML
     if (data.image_url) {
       const imageBasedWeatherHTML = `
 <!-- Section container -->
@@ -130,7 +134,7 @@ export async function getWeatherForCampaign(campaignId: string): Promise<string
             <table width='100%' cellpadding='0' cellspacing='0' border='0' style='width:100%; max-width:650px; margin:0 auto; background:#fff; border-radius:10px;'>
               <tr>
                 <td style='padding:0; text-align:center;'>
-                  <img src='${data.image_url}' alt='3 Day Weather Forecast for St. Cloud, MN' style='display:block; width:100%; max-width:950px; height:auto; border-radius:15px;'/>
+                  <img src='${data.image_url}' alt='3 Day Weather Forecast for ${getPublicationLocation(publication)}' style='display:block; width:100%; max-width:950px; height:auto; border-radius:15px;'/>
                 </td>
               </tr>
             </table>
@@ -154,14 +158,15 @@ export async function getWeatherForCampaign(campaignId: string): Promise<string
 }
 
 /**
- * Get the latest weather forecast
+ * Get a publication's latest weather forecast
  */
-export async function getLatestWeatherForecast(): Promise<WeatherForecast | null> {
+export async function getLatestWeatherForecast(publicationId: string): Promise<WeatherForecast | null> {
   try {
     const supabase = supabaseAdmin
     const { data, error } = await supabase
       .from('weather_forecasts')
       .select('*')
+      .eq('publication_id', publicationId)
       .eq('is_active', true)
       .order('generated_at', { ascending: false })
       .limit(1)
@@ -181,15 +186,16 @@ export async function getLatestWeatherForecast(): Promise<WeatherForecast | null
 }
 
 /**
- * Get weather forecast for a specific date
+ * Get a publication's weather forecast for a specific date
  */
-export async function getWeatherForecastByDate(forecastDate: string): Promise<WeatherForecast | null> {
+export async function getWeatherForecastByDate(forecastDate: string, publicationId: string): Promise<WeatherForecast | null> {
   try {
     const supabase = supabaseAdmin
     const { data, error } = await supabase
       .from('weather_forecasts')
       .select('*')
       .eq('forecast_date', forecastDate)
+      .eq('publication_id', publicationId)
       .eq('is_active', true)
       .order('generated_at', { ascending: false })
       .limit(1)
@@ -214,31 +220,21 @@ export async function getWeatherForecastByDate(forecastDate: string): Promise<We
 export async function cleanupOldForecasts(): Promise<void> {
   try {
     // Mark forecasts older than 7 days as inactive
-    const cutoffDate = new Date()
-    cutoffDate.setDate(cutoffDate.getDate() - 7)
+    const cutoffDate = addDays(getCentralDate(), -7)
 
     const supabase = supabaseAdmin
     const { error } = await supabase
       .from('weather_forecasts')
       .update({ is_active: false })
-      .lt('forecast_date', cutoffDate.toISOString().split('T')[0])
+      .lt('forecast_date', cutoffDate)
 
     if (error) {
       throw new Error(`Cleanup error: ${error.message}`)
     }
 
+    // Weather images expire through the storage retention cron
     console.log('Old weather forecasts cleaned up')
 
-    // Also cleanup old weather images from GitHub (keep 30 days)
-    try {
-      const { GitHubImageStorage } = await import('./github-storage')
-      const githubStorage = new GitHubImageStorage()
-      const deletedCount = await githubStorage.cleanupOldWeatherImages(30)
-      console.log(`Cleaned up ${deletedCount} old weather images from GitHub`)
-    } catch (githubError) {
-      console.log('GitHub weather image cleanup skipped:', githubError instanceof Error ? githubError.message : 'Unknown error')
-    }
-
   } catch (error) {
     console.error('Error cleaning up old forecasts:', error)
   }
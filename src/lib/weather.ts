@@ -1,4 +1,4 @@
-// Weather service for St. Cloud, MN weather forecasts
+// Weather service for each publication's NWS forecast
 // Replaces Google Apps Script implementation using NWS API
 
 export interface WeatherDay {
@@ -9,54 +9,75 @@ export interface WeatherDay {
   high: number
   low: number
   condition: string
+  // Added with the gridpoint data; forecasts stored before then don't have them
+  windChill?: number | null
+  windSpeed?: number | null
+  windGust?: number | null
+  windDirection?: string | null
+  snowfall?: number | null
+  highlights?: string[]
 }
 
-// St. Cloud, MN coordinates (approximately)
-const LATITUDE = 45.5608
-const LONGITUDE = -94.1622
+// Where a publication's forecast and alerts come from (its latitude/longitude)
+export interface WeatherLocation {
+  latitude: number
+  longitude: number
+}
+
+export const NWS_HEADERS = {
+  'User-Agent': 'St. Cloud Scoop Newsletter (scoop@stcscoop.com)'
+}
+
+const centralDateFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/Chicago',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+})
+
+const centralHourFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/Chicago',
+  hour: 'numeric'
+})
+
+/**
+ * NWS metadata for a location: forecast URLs, grid and zone links
+ */
+export async function fetchNwsPoint(location: WeatherLocation): Promise<any> {
+  const pointsResponse = await fetch(
+    `https://api.weather.gov/points/${location.latitude},${location.longitude}`,
+    { headers: NWS_HEADERS }
+  )
+
+  if (!pointsResponse.ok) {
+    throw new Error(`Points API failed: ${pointsResponse.status}`)
+  }
+
+  const pointsData = await pointsResponse.json()
+  return pointsData.properties
+}
 
 /**
  * Fetch 3-day weather forecast starting from tomorrow
  */
-export async function fetchWeatherData(): Promise<WeatherDay[]> {
+export async function fetchWeatherData(location: WeatherLocation): Promise<WeatherDay[]> {
   try {
-    console.log('Fetching weather data for St. Cloud, MN')
+    console.log(`Fetching weather data for ${location.latitude},${location.longitude}`)
 
     // Calculate target start date (start from tomorrow - weather is for next day)
     // Use Central Time for proper date calculation
     const now = new Date()
-    const centralFormatter = new Intl.DateTimeFormat('en-CA', {
-      timeZone: 'America/Chicago',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit'
-    })
-    const centralDateStr = centralFormatter.format(now) // YYYY-MM-DD in Central Time
+    const centralDateStr = centralDateFormatter.format(now) // YYYY-MM-DD in Central Time
     const centralToday = new Date(centralDateStr + 'T00:00:00')
     const targetStartDate = new Date(centralToday.getTime() + (24 * 60 * 60 * 1000))
 
-    // Get NWS grid info for St. Cloud
-    const pointsResponse = await fetch(
-      `https://api.weather.gov/points/${LATITUDE},${LONGITUDE}`,
-      {
-        headers: {
-          'User-Agent': 'St. Cloud Scoop Newsletter (scoop@stcscoop.com)'
-        }
-      }
-    )
-
-    if (!pointsResponse.ok) {
-      throw new Error(`Points API failed: ${pointsResponse.status}`)
-    }
-
-    const pointsData = await pointsResponse.json()
-    const forecastUrl = pointsData.properties.forecast
+    // Get NWS grid info for the location
+    const point = await fetchNwsPoint(location)
+    const forecastUrl = point.forecast
 
     // Get forecast data
     const forecastResponse = await fetch(forecastUrl, {
-      headers: {
-        'User-Agent': 'St. Cloud Scoop Newsletter (scoop@stcscoop.com)'
-      }
+      headers: NWS_HEADERS
     })
 
     if (!forecastResponse.ok) {
@@ -66,6 +87,13 @@ export async function fetchWeatherData(): Promise<WeatherDay[]> {
     const forecastData = await forecastResponse.json()
     const periods = forecastData.properties.periods
 
+    // Wind, wind chill, snowfall and hourly highlights are extras: the forecast still goes out without them
+    const [gridData, hourlyPeriods] = await Promise.all([
+      fetchOptionalNwsData(point.forecastGridData, 'Gridpoint'),
+      fetchOptionalNwsData(point.forecastHourly, 'Hourly forecast')
+    ])
+    const gridHours = gridData ? expandGridData(gridData) : null
+
     // Process forecast periods into 3-day format
     const weatherDays: WeatherDay[] = []
     const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
@@ -170,6 +198,13 @@ export async function fetchWeatherData(): Promise<WeatherDay[]> {
         dayLabel = dayNames[date.getDay()].toUpperCase()
       }
 
+      const centralDate = centralDateFormatter.format(new Date(daytimePeriod.startTime))
+      const details = summarizeDay(
+        centralDate,
+        gridHours,
+        hourlyPeriods?.periods || []
+      )
+
       weatherDays.push({
         day: dayLabel,
         dateLabel: `${monthNames[date.getMonth()]} ${date.getDate()}`,
@@ -177,7 +212,9 @@ export async function fetchWeatherData(): Promise<WeatherDay[]> {
         precipitation,
         high: high || 0,
         low: low || 0,
-        condition: daytimePeriod.shortForecast || 'Unknown'
+        condition: daytimePeriod.shortForecast || 'Unknown',
+        windDirection: daytimePeriod.windDirection || null,
+        ...details
       })
     }
 
@@ -191,6 +228,169 @@ export async function fetchWeatherData(): Promise<WeatherDay[]> {
   }
 }
 
+const HOUR_MS = 60 * 60 * 1000
+
+// Thresholds for calling out an hour in the day's highlights
+const WIND_CHILL_HIGHLIGHT_F = 0
+const HEAT_INDEX_HIGHLIGHT_F = 95
+const GUST_HIGHLIGHT_MPH = 35
+const PRECIPITATION_HIGHLIGHT_PERCENT = 50
+
+const GRID_LAYERS = ['windChill', 'heatIndex', 'windSpeed', 'windGust', 'snowfallAmount'] as const
+type GridLayer = typeof GRID_LAYERS[number]
+
+interface HourlySample {
+  time: Date
+  centralDate: string
+  value: number
+}
+
+type GridHours = Record<GridLayer, HourlySample[]>
+
+async function fetchOptionalNwsData(url: string | undefined, label: string): Promise<any | null> {
+  if (!url) return null
+
+  try {
+    const response = await fetch(url, { headers: NWS_HEADERS })
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+    const data = await response.json()
+    return data.properties
+  } catch (error) {
+    console.warn(`${label} data unavailable:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * Gridpoint layers as one sample per hour, converted to °F, mph and inches.
+ * Snowfall is an amount for the whole interval, so it's spread evenly across its hours.
+ */
+function expandGridData(grid: any): GridHours {
+  const hours = {} as GridHours
+
+  for (const layer of GRID_LAYERS) {
+    const uom: string = grid[layer]?.uom || ''
+    hours[layer] = []
+
+    for (const entry of grid[layer]?.values || []) {
+      if (entry.value === null || entry.value === undefined) continue
+
+      const [start, duration] = String(entry.validTime).split('/')
+      const count = Math.max(1, parseDurationHours(duration))
+      const value = convertGridValue(entry.value, uom) / (layer === 'snowfallAmount' ? count : 1)
+      const startTime = new Date(start).getTime()
+
+      for (let i = 0; i < count; i++) {
+        const time = new Date(startTime + i * HOUR_MS)
+        hours[layer].push({ time, centralDate: centralDateFormatter.format(time), value })
+      }
+    }
+  }
+
+  return hours
+}
+
+// validTime durations look like PT1H, PT6H or P1DT12H
+function parseDurationHours(duration: string | undefined): number {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?)?/.exec(duration || '')
+  if (!match) return 1
+  return parseInt(match[1] || '0') * 24 + parseInt(match[2] || '0')
+}
+
+function convertGridValue(value: number, uom: string): number {
+  switch (uom.replace(/^wmoUnit:/, '')) {
+    case 'degC': return value * 9 / 5 + 32
+    case 'km_h-1': return value * 0.621371
+    case 'm_s-1': return value * 2.23694
+    case 'mm': return value / 25.4
+    case 'm': return value * 39.3701
+    default: return value
+  }
+}
+
+function extreme(samples: HourlySample[], pick: 'lowest' | 'highest'): HourlySample | null {
+  return samples.reduce<HourlySample | null>((best, sample) => {
+    if (!best) return sample
+    return (pick === 'lowest' ? sample.value < best.value : sample.value > best.value) ? sample : best
+  }, null)
+}
+
+function formatHour(time: Date): string {
+  return centralHourFormatter.format(time)
+}
+
+/**
+ * Wind, wind chill and snowfall for one Central Time date, plus the hours worth calling out
+ */
+function summarizeDay(
+  centralDate: string,
+  gridHours: GridHours | null,
+  hourlyPeriods: any[]
+): Pick<WeatherDay, 'windChill' | 'windSpeed' | 'windGust' | 'snowfall' | 'highlights'> {
+  const samples = (layer: GridLayer) => (gridHours ? gridHours[layer] : []).filter(sample => sample.centralDate === centralDate)
+
+  const windChill = extreme(samples('windChill'), 'lowest')
+  const heatIndex = extreme(samples('heatIndex'), 'highest')
+  const windSpeed = extreme(samples('windSpeed'), 'highest')
+  const windGust = extreme(samples('windGust'), 'highest')
+  const snowfall = gridHours
+    ? Math.round(samples('snowfallAmount').reduce((sum, sample) => sum + sample.value, 0) * 10) / 10
+    : null
+
+  const highlights: string[] = []
+
+  const firstWetHour = hourlyPeriods.find(period =>
+    centralDateFormatter.format(new Date(period.startTime)) === centralDate &&
+    (period.probabilityOfPrecipitation?.value || 0) >= PRECIPITATION_HIGHLIGHT_PERCENT
+  )
+  if (firstWetHour) {
+    const precipitation = String(firstWetHour.shortForecast || 'Precipitation')
+      .replace(/^(slight chance|chance)\s+/i, '')
+      .replace(/\s+likely$/i, '')
+    highlights.push(`${precipitation} likely from ${formatHour(new Date(firstWetHour.startTime))}`)
+  }
+  if (windChill && windChill.value <= WIND_CHILL_HIGHLIGHT_F) {
+    highlights.push(`Wind chill near ${Math.round(windChill.value)}° around ${formatHour(windChill.time)}`)
+  }
+  if (heatIndex && heatIndex.value >= HEAT_INDEX_HIGHLIGHT_F) {
+    highlights.push(`Heat index near ${Math.round(heatIndex.value)}° around ${formatHour(heatIndex.time)}`)
+  }
+  if (windGust && windGust.value >= GUST_HIGHLIGHT_MPH) {
+    highlights.push(`Gusts to ${Math.round(windGust.value)} mph around ${formatHour(windGust.time)}`)
+  }
+
+  return {
+    windChill: windChill ? Math.round(windChill.value) : null,
+    windSpeed: windSpeed ? Math.round(windSpeed.value) : null,
+    windGust: windGust ? Math.round(windGust.value) : null,
+    snowfall,
+    highlights
+  }
+}
+
+/**
+ * Wind, wind chill and snowfall worth mentioning, e.g. ['NW 15 mph, gusts 30', 'Wind chill -12°', '3.5" snow']
+ */
+export function describeWeatherDetails(day: WeatherDay): string[] {
+  const details: string[] = []
+
+  if (day.windSpeed && day.windSpeed >= 10) {
+    const gusts = day.windGust && day.windGust >= day.windSpeed + 10 ? `, gusts ${day.windGust}` : ''
+    details.push(`${day.windDirection ? `${day.windDirection} ` : ''}${day.windSpeed} mph${gusts}`)
+  }
+  // Wind chill only adds something when it's well below the air temperature
+  if (day.windChill !== undefined && day.windChill !== null && day.windChill <= day.low - 5) {
+    details.push(`Wind chill ${day.windChill}°`)
+  }
+  if (day.snowfall && day.snowfall >= 0.1) {
+    details.push(`${day.snowfall}" snow`)
+  }
+
+  return details
+}
+
 /**
  * Generate HTML for weather display (matches original Google Apps Script format)
  */
@@ -213,7 +413,9 @@ export function generateWeatherHTML(weatherData: WeatherDay[]): string {
         <span style="font-weight: bold;">${day.high}°</span> / ${day.low}°
       </td>
       <td style="text-align: left; padding: 8px; font-size: 13px; color: #333;">
-        ${day.condition}
+        ${day.condition}${describeWeatherDetails(day).length > 0 ? `<br>
+        <span style="font-size: 12px; color: #666;">${describeWeatherDetails(day).join(' · ')}</span>` : ''}${(day.highlights || []).length > 0 ? `<br>
+        <span style="font-size: 12px; color: #666; font-style: italic;">${(day.highlights || []).join('; ')}</span>` : ''}
       </td>
     </tr>
   `).join('')
@@ -1,12 +1,13 @@
 // Wordle web scraping utility for Tom's Guide archive
 import * as cheerio from 'cheerio'
+import { daysBetween } from './newsletter-calendar'
 
-// Map calendar date to Wordle puzzle number
+// NYT Wordle launch date (June 19, 2021)
+const WORDLE_LAUNCH_DATE = '2021-06-19'
+
+// Map calendar date (YYYY-MM-DD) to Wordle puzzle number
 function getPuzzleNumber(targetDate: string): number {
-  const start = new Date("2021-06-19") // NYT Wordle launch date (June 19, 2021)
-  const target = new Date(targetDate)
-  const days = Math.floor((target.getTime() - start.getTime()) / 86_400_000)
-  return days // days_since_launch matches the displayed puzzle number
+  return daysBetween(WORDLE_LAUNCH_DATE, targetDate) // days_since_launch matches the displayed puzzle number
 }
 
 // Fetch Wordle answer by directly scraping Tom's Guide HTML
@@ -139,16 +140,14 @@ export async function getWordleDataForDate(dateStr: string): Promise<{
   }
 
   // Use ChatGPT to generate accurate definition and interesting fact
-  const { callOpenAI } = await import('./openai')
+  const { callLLM } = await import('./llm')
 
   try {
     const definitionPrompt = `Provide a brief, clear definition of the word "${word}". Keep it under 50 words and make it suitable for a general audience. Return only the definition with no extra formatting or preamble.`
-    const definitionResult = await callOpenAI(definitionPrompt, 100, 0.2)
-    const definition = (typeof definitionResult === 'string' ? definitionResult : definitionResult?.raw || '').trim()
+    const definition = (await callLLM('default', definitionPrompt, { maxTokens: 100, temperature: 0.2 })).trim()
 
     const factPrompt = `Share one interesting fact about the word "${word}" - its etymology, historical usage, or linguistic background. Keep it under 80 words and make it engaging. Return only the fact with no extra formatting or preamble.`
-    const factResult = await callOpenAI(factPrompt, 150, 0.3)
-    const interesting_fact = (typeof factResult === 'string' ? factResult : factResult?.raw || '').trim()
+    const interesting_fact = (await callLLM('default', factPrompt, { maxTokens: 150, temperature: 0.3 })).trim()
 
     return {
       word,
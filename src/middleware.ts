@@ -1,7 +1,73 @@
 import { NextResponse } from 'next/server'
-import type { NextRequest } from 'next/server'
+import type { NextRequest, NextFetchEvent } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getRouteAccess, hasPermission } from '@/lib/permissions'
+import { recordPermissionAudit } from '@/lib/permission-audit'
+import type { PermissionAuditEvent } from '@/types/database'
 
-export function middleware(request: NextRequest) {
+// Cron jobs and server-to-server calls authenticate with CRON_SECRET instead of a session
+function isSystemRequest(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) return false
+
+  return request.headers.get('authorization') === `Bearer ${cronSecret}` ||
+         request.nextUrl.searchParams.get('secret') === cronSecret
+}
+
+async function authorizeApiRequest(request: NextRequest, event: NextFetchEvent) {
+  const { pathname } = request.nextUrl
+  const access = getRouteAccess(pathname, request.method)
+
+  if (access === 'public' || isSystemRequest(request)) {
+    return NextResponse.next()
+  }
+
+  const token = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET,
+    // Matches the session cookie name configured in authOptions
+    cookieName: 'next-auth.session-token'
+  })
+
+  let denial: PermissionAuditEvent | null = null
+  if (!token) {
+    denial = 'unauthenticated'
+  } else if (token.isActive === false) {
+    denial = 'inactive'
+  } else if (!hasPermission(token.role, access)) {
+    denial = 'forbidden'
+  }
+
+  if (!denial) {
+    return NextResponse.next()
+  }
+
+  console.warn(`[Middleware] ${denial}: ${request.method} ${pathname} (${token?.email || 'anonymous'}, role ${token?.role || 'none'}, needs ${access})`)
+
+  event.waitUntil(recordPermissionAudit({
+    eventType: denial,
+    userEmail: token?.email,
+    userRole: token?.role,
+    method: request.method,
+    path: pathname,
+    requiredPermission: access,
+    ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+    userAgent: request.headers.get('user-agent')
+  }))
+
+  if (denial === 'unauthenticated') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return NextResponse.json({
+    error: 'Forbidden',
+    message: denial === 'inactive'
+      ? 'Your account has been deactivated'
+      : `Your role does not have the ${access} permission`
+  }, { status: 403 })
+}
+
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
   const hostname = request.headers.get('host') || ''
 
   // Detect staging environment
@@ -16,6 +82,10 @@ export function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return authorizeApiRequest(request, event)
+  }
+
   // Check subdomain types
   const isEventsSubdomain = hostname.startsWith('events.')
   const isAdminSubdomain = hostname.startsWith('admin.')
@@ -59,11 +129,11 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
+     * API routes are included so permissions are enforced on every request
      */
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/((?!_next/static|_next/image|favicon.ico).*)',
   ],
 }
@@ -1,10 +1,47 @@
 export type CampaignStatus = 'draft' | 'in_review' | 'changes_made' | 'sent' | 'failed'
-export type UserRole = 'admin' | 'reviewer'
+export type UserRole = 'admin' | 'editor' | 'ad_manager' | 'events_moderator'
 export type LogLevel = 'info' | 'warn' | 'error' | 'debug'
 
+// One newsletter edition (St. Cloud Scoop, a sister edition). Nullable sender and MailerLite
+// fields fall back to the global email settings.
+export interface Publication {
+  id: string
+  slug: string
+  name: string
+  website_url: string
+  logo_url: string | null
+  brand_color: string
+  facebook_url: string | null
+  sender_name: string | null
+  from_email: string | null
+  mailerlite_review_group_id: string | null
+  mailerlite_main_group_id: string | null
+  city: string  // e.g. 'St. Cloud'
+  state: string  // e.g. 'Minnesota'
+  county: string | null
+  zip_code: string | null
+  nearby_communities: string | null  // Comma-separated, used in prompts
+  latitude: number
+  longitude: number
+  road_work_sources: string | null  // One source per line, listed in the road work prompts
+  is_default: boolean
+  active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Per-publication override of an app_settings key (prompts, next_ad_position)
+export interface PublicationSetting {
+  publication_id: string
+  key: string
+  value: string
+  updated_at: string
+}
+
 export interface NewsletterCampaign {
   id: string
   date: string
+  publication_id: string | null  // null = the default publication
   status: CampaignStatus
   subject_line: string | null
   review_sent_at: string | null
@@ -13,6 +50,7 @@ export interface NewsletterCampaign {
   last_action_at: string | null
   last_action_by: string | null
   status_before_send: CampaignStatus | null
+  edition_name: string | null  // Special edition from the schedule calendar, shown in the header
   metrics: Record<string, any>
   created_at: string
   updated_at: string
@@ -22,9 +60,12 @@ export interface RssFeed {
   id: string
   url: string
   name: string
+  publication_id: string | null
   active: boolean
   last_processed: string | null
   processing_errors: number
+  etag: string | null  // ETag from the last successful fetch (conditional GET)
+  last_modified: string | null  // Last-Modified from the last successful fetch
   created_at: string
   updated_at: string
 }
@@ -52,6 +93,9 @@ export interface PostRating {
   community_impact: number
   total_score: number
   ai_reasoning: string | null
+  prompt_version_id: string | null
+  prompt_experiment_id: string | null
+  prompt_variant: 'A' | 'B' | null
   created_at: string
 }
 
@@ -69,6 +113,9 @@ export interface Article {
   word_count: number | null
   review_position: number | null
   final_position: number | null
+  prompt_version_id: string | null
+  prompt_experiment_id: string | null
+  prompt_variant: 'A' | 'B' | null
   created_at: string
   updated_at: string
 }
@@ -85,6 +132,35 @@ export interface ManualArticle {
   review_position: number | null
   final_position: number | null
   created_by: string | null
+  news_tip_id: string | null  // Reader tip the draft was written from
+  created_at: string
+  updated_at: string
+}
+
+export type NewsTipStatus = 'pending' | 'promoted' | 'rejected' | 'spam'
+
+export interface NewsTip {
+  id: string
+  publication_id: string
+  headline: string
+  details: string
+  location: string | null
+  source_url: string | null
+  image_id: string | null
+  submitter_name: string
+  submitter_email: string
+  submitter_phone: string | null
+  contact_ok: boolean
+  submitter_ip_hash: string | null
+  status: NewsTipStatus
+  spam_reasons: string[]
+  review_notes: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  campaign_id: string | null
+  manual_article_id: string | null
+  fact_check_score: number | null
+  fact_check_details: string | null
   created_at: string
   updated_at: string
 }
@@ -167,6 +243,22 @@ export interface SystemLog {
   timestamp: string
 }
 
+export type PermissionAuditEvent = 'unauthenticated' | 'forbidden' | 'inactive' | 'role_changed'
+
+export interface PermissionAuditLog {
+  id: string
+  event_type: PermissionAuditEvent
+  user_email: string | null
+  user_role: string | null
+  method: string | null
+  path: string | null
+  required_permission: string | null
+  details: Record<string, any>
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+}
+
 export interface DuplicateGroup {
   id: string
   campaign_id: string
@@ -182,6 +274,19 @@ export interface DuplicatePost {
   similarity_score: number
 }
 
+export interface PostHistoryMatch {
+  id: string
+  post_id: string
+  campaign_id: string
+  matched_source: 'article' | 'archived_article'
+  matched_article_id: string
+  matched_campaign_id: string | null
+  matched_campaign_date: string | null
+  matched_headline: string | null
+  similarity_score: number
+  created_at: string
+}
+
 export interface EmailMetrics {
   id: string
   campaign_id: string
@@ -265,6 +370,7 @@ export interface ArticleWithPost extends Article {
   rss_post: RssPost & {
     post_rating: PostRating[]
     rss_feed: RssFeed
+    post_history_matches?: PostHistoryMatch[]
   }
 }
 
@@ -291,6 +397,7 @@ export interface Event {
   payment_status: string | null
   payment_intent_id: string | null
   payment_amount: number | null
+  nonprofit_ein: string | null  // Set when submitted at the nonprofit rate; held inactive until verified
   submitter_name: string | null
   submitter_email: string | null
   submitter_phone: string | null
@@ -308,6 +415,7 @@ export interface PendingEventSubmission {
   submitter_email: string
   submitter_name: string
   total_amount: number
+  pricing_quote: PricingQuote | null
   created_at: string
   expires_at: string
   processed: boolean
@@ -317,6 +425,7 @@ export interface PendingEventSubmission {
 export interface WeatherForecast {
   id: string
   forecast_date: string
+  publication_id: string | null
   generated_at: string
   weather_data: {
     day: string
@@ -326,6 +435,13 @@ export interface WeatherForecast {
     high: number
     low: number
     condition: string
+    // Optional: forecasts generated before gridpoint data was added don't have these
+    windChill?: number | null
+    windSpeed?: number | null
+    windGust?: number | null
+    windDirection?: string | null
+    snowfall?: number | null
+    highlights?: string[]
   }[]
   html_content: string
   image_url: string | null
@@ -334,6 +450,31 @@ export interface WeatherForecast {
   updated_at: string
 }
 
+export type WeatherAlertSeverity = 'Extreme' | 'Severe' | 'Moderate' | 'Minor' | 'Unknown'
+
+// Active alert from the NWS alerts feed for our zones
+export interface WeatherAlert {
+  id: string
+  nws_id: string
+  publication_id: string | null
+  event: string
+  headline: string | null
+  severity: WeatherAlertSeverity
+  urgency: string | null
+  certainty: string | null
+  area_desc: string | null
+  description: string | null
+  instruction: string | null
+  onset: string | null
+  ends: string | null
+  expires: string
+  // Still in the NWS active feed as of the last sync
+  is_active: boolean
+  last_seen_at: string
+  created_at: string
+  updated_at: string
+}
+
 // Normalized road work item (now stored in separate table rows)
 export interface RoadWorkItem {
   id: string
@@ -386,9 +527,165 @@ export interface CampaignEvent {
 export interface NewsletterSection {
   id: string
   name: string
+  publication_id: string | null
   display_order: number
   is_active: boolean
+  renderer_key: string | null  // Key into SECTION_RENDERERS (src/lib/newsletter-sections.ts)
+  config: Record<string, any> | null  // Renderer-specific options
+  created_at: string
+}
+
+// Sections without a rule follow the editors
+export type SectionRule = 'always' | 'hide' | 'weekends' | 'weekdays'
+
+export interface SubscriberPreference {
+  id: string
+  publication_id: string
+  email: string
+  section_rules: Record<string, SectionRule>  // Keyed by renderer key
+  created_at: string
+  updated_at: string
+}
+
+export interface FeedbackResponse {
+  id: string
+  publication_id: string
+  campaign_id: string | null
+  campaign_date: string
+  subscriber_email: string
+  rating: number | null  // 1-5
+  liked_sections: string[]  // Renderer keys
+  comment: string | null
+  section_choice: string | null  // Single favourite from older emails
+  mailerlite_updated: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface NewsletterArchive {
+  id: string
+  campaign_id: string
+  campaign_date: string
+  subject_line: string | null
+  html_content: string  // Sent HTML with MailerLite merge tags replaced
+  text_content: string  // Plain-text alternative
+  created_at: string
+  updated_at: string
+}
+
+export interface AIPromptVersion {
+  id: string
+  publication_id: string
+  prompt_key: string
+  version_number: number
+  value: string
+  note: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export interface AIPromptExperiment {
+  id: string
+  prompt_key: string
+  name: string
+  version_a_id: string
+  version_b_id: string
+  split_percent: number  // Share of posts assigned to version B
+  is_active: boolean
+  created_by: string | null
   created_at: string
+  ended_at: string | null
+}
+
+export type PipelineJobStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+export interface PipelineJob {
+  id: string
+  campaign_id: string
+  job_type: string
+  status: PipelineJobStatus
+  options: Record<string, any>
+  current_step: string | null
+  locked_until: string | null  // No longer written; jobs are locked through run_locks (pipeline_job:<id>)
+  last_error: string | null
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PipelineJobStep {
+  id: string
+  job_id: string
+  step_name: string
+  step_order: number
+  status: PipelineJobStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string | null  // Retry backoff
+  last_error: string | null
+  result: Record<string, any> | null
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type ScheduleJobKey = 'event_population' | 'rss_processing' | 'campaign_creation' | 'review_send' | 'final_send'
+
+export type ScheduleRunStatus = 'running' | 'completed' | 'failed'
+
+export interface ScheduleJob {
+  job_key: ScheduleJobKey
+  cron_expression: string  // Five-field cron, evaluated in Central Time
+  issue_day_mask: number  // Bit n set = issues dated on day-of-week n (0 = Sunday) are produced
+  last_run_at: string | null  // Scheduled time of the last claimed run
+  last_completed_at: string | null  // Scheduled time of the last run that completed; behind last_run_at while a run is in progress, crashed or failed
+  last_run_status: ScheduleRunStatus | null
+  last_run_error: string | null
+  last_issue_date: string | null
+  updated_at: string
+}
+
+export type ScheduleCalendarAction = 'skip' | 'special_edition' | 'reschedule'
+
+// Holiday/skip calendar entry for an issue date
+export interface ScheduleCalendarEntry {
+  id: string
+  issue_date: string
+  recurs_yearly: boolean  // Matches the same month and day every year
+  job_key: ScheduleJobKey | null  // null = every job for the issue
+  action: ScheduleCalendarAction
+  edition_name: string | null  // special_edition only
+  run_date: string | null  // reschedule only: Central date and HH:MM time to run instead
+  run_time: string | null
+  label: string | null
+  created_at: string
+}
+
+// Lease-based lock held by one cron invocation at a time; owner is null once released
+export interface RunLock {
+  name: string
+  owner: string | null
+  acquired_at: string | null
+  heartbeat_at: string | null
+  expires_at: string
+}
+
+export type IdempotencyKeyStatus = 'in_progress' | 'completed' | 'failed'
+
+// Record of a side effect that must happen at most once (campaign sends, ad usage)
+export interface IdempotencyKey {
+  key: string
+  status: IdempotencyKeyStatus
+  owner: string | null
+  locked_until: string | null  // Lease of the in-progress attempt; reclaimable once past
+  attempts: number
+  last_error: string | null
+  result: any | null  // Stored return value, replayed to later callers
+  completed_at: string | null
+  created_at: string
+  updated_at: string
 }
 
 export interface CampaignWithArticles extends NewsletterCampaign {
@@ -440,7 +737,7 @@ export interface VrboListing {
   id: string
   title: string
   main_image_url: string | null
-  adjusted_image_url: string | null  // GitHub hosted resized image URL
+  adjusted_image_url: string | null  // Stored resized image URL (575x325)
   city: string | null
   bedrooms: number | null
   bathrooms: number | null
@@ -517,7 +814,7 @@ export interface AgeGroupDetection {
 export interface Image {
   id: string
   object_key: string                    // images/original/{uuid}.jpg
-  cdn_url: string                       // Auto-generated Supabase CDN URL
+  cdn_url: string                       // Public URL of object_key in object storage
   width: number | null
   height: number | null
   aspect_ratio: number | null
@@ -638,11 +935,12 @@ export interface ImageSearchFilters {
 
 // Advertisement types
 export type AdFrequency = 'single' | 'weekly' | 'monthly'
-export type AdStatus = 'pending_payment' | 'pending_review' | 'approved' | 'active' | 'completed' | 'rejected'
+export type AdStatus = 'pending_payment' | 'pending_review' | 'approved' | 'active' | 'completed' | 'rejected' | 'expired' | 'refunded' | 'disputed'
 
 export interface Advertisement {
   id: string
   title: string
+  publication_id: string | null
   body: string  // Rich text HTML
   word_count: number
   business_name: string
@@ -664,6 +962,8 @@ export interface Advertisement {
   payment_intent_id: string | null
   payment_amount: number | null
   payment_status: string | null
+  pricing_quote: PricingQuote | null
+  category: string | null  // Ads sharing a category never run in consecutive issues
   submission_date: string
   approved_by: string | null
   approved_at: string | null
@@ -677,11 +977,21 @@ export interface CampaignAdvertisement {
   campaign_id: string  // UUID stored as string in TypeScript
   advertisement_id: string  // UUID stored as string in TypeScript
   campaign_date: string
+  slot: number  // Spotlight slot in the issue, starting at 1
   used_at: string
   created_at: string
   advertisement?: Advertisement
 }
 
+export interface AdBlackoutDate {
+  id: string
+  publication_id: string
+  date: string
+  reason: string | null
+  created_by: string | null
+  created_at: string
+}
+
 export interface AdPricingTier {
   id: string
   frequency: AdFrequency
@@ -690,4 +1000,105 @@ export interface AdPricingTier {
   price_per_unit: number
   created_at: string
   updated_at: string
+}
+
+export type AdRunPurchaseStatus = 'pending_payment' | 'paid' | 'expired' | 'refunded' | 'disputed'
+
+export interface AdRunPurchase {
+  id: string
+  advertisement_id: string
+  times: number
+  payment_amount: number
+  pricing_quote: PricingQuote | null
+  stripe_session_id: string | null
+  status: AdRunPurchaseStatus
+  paid_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AdvertiserLoginToken {
+  id: string
+  email: string
+  token_hash: string  // SHA-256 of the emailed token
+  expires_at: string
+  used_at: string | null
+  created_at: string
+}
+
+export type StripeWebhookStatus = 'received' | 'processed' | 'ignored' | 'failed'
+
+export interface StripeWebhookEvent {
+  id: string  // Stripe event ID
+  type: string
+  livemode: boolean
+  object_id: string | null
+  payload: Record<string, any>
+  status: StripeWebhookStatus
+  error: string | null
+  deliveries: number
+  received_at: string
+  processed_at: string | null
+}
+
+export type TransactionalEmailStatus = 'sent' | 'failed'
+
+export interface TransactionalEmailLog {
+  id: string
+  template: string
+  recipient: string
+  subject: string | null
+  status: TransactionalEmailStatus
+  error: string | null
+  message_id: string | null
+  transport: string | null
+  event_id: string | null
+  advertisement_id: string | null
+  created_at: string
+}
+
+export type DiscountAppliesTo = 'ads' | 'events' | 'all'
+
+export interface DiscountCode {
+  id: string
+  code: string
+  description: string | null
+  percent_off: number | null
+  amount_off: number | null  // Dollars
+  applies_to: DiscountAppliesTo
+  max_redemptions: number | null
+  times_redeemed: number
+  starts_at: string | null
+  expires_at: string | null
+  active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Quote amounts are in cents so they match Stripe exactly
+export interface PricingQuoteLine {
+  name: string
+  description: string
+  quantity: number
+  unit_amount: number
+  amount: number  // unit_amount * quantity
+  charged_amount: number  // amount less this line's share of the adjustments
+  event_index?: number  // Position in the submitted events list
+}
+
+export interface PricingAdjustment {
+  type: 'multi_run' | 'bundle' | 'nonprofit' | 'discount_code'
+  label: string
+  amount: number  // Cents off
+}
+
+export interface PricingQuote {
+  kind: 'advertisement' | 'event_promotion'
+  lines: PricingQuoteLine[]
+  subtotal: number
+  adjustments: PricingAdjustment[]
+  total: number
+  discount_code: string | null
+  nonprofit_ein: string | null
+  computed_at: string
 }
\ No newline at end of file
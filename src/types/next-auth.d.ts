@@ -22,5 +22,6 @@ declare module 'next-auth/jwt' {
   interface JWT {
     role?: string
     isActive?: boolean
+    roleCheckedAt?: number
   }
 }
\ No newline at end of file